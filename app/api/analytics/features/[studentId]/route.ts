@@ -1,22 +1,32 @@
-
 import { NextResponse } from "next/server";
-import { getStudentFeatures } from "@/lib/ml/dataset";
+import { getStudentSubjectFeatures } from "@/lib/ml/dataset";
+import { PERFORMANCE_FEATURES } from "@/lib/ml/features";
+import { explainStudentPrediction } from "@/lib/ml/server-inference";
+import { toPhonemicSubjectName } from "@/lib/phonemic-levels";
 
 export async function GET(
-  _request: Request,
+  request: Request,
   { params }: { params: Promise<{ studentId: string }> }
 ) {
   try {
     const { studentId } = await params;
-    const features = await getStudentFeatures(studentId);
+    const subject = toPhonemicSubjectName(new URL(request.url).searchParams.get("subject") ?? "English");
+    if (!subject) {
+      return NextResponse.json({ success: false, error: "Unknown subject." }, { status: 400 });
+    }
 
+    const features = await getStudentSubjectFeatures(studentId, subject);
     if (!features) {
        return NextResponse.json({ success: false, error: "Insufficient data for prediction" }, { status: 404 });
     }
 
+    const prediction = await explainStudentPrediction(subject, features);
     return NextResponse.json({
       success: true,
-      features // [remedialCount, phonemicLevel, avgScore]
+      subject,
+      features: PERFORMANCE_FEATURES.map((feature, index) => ({ ...feature, value: features[index] })),
+      prediction: prediction ? Math.min(100, Math.max(0, prediction.score)) : null,
+      drivers: prediction?.drivers ?? [],
     });
   } catch (error) {
     console.error("Feature Fetch Error:", error);
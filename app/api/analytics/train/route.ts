@@ -1,23 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { PERFORMANCE_SUBJECTS } from "@/lib/ml/features";
+import { createAndTrainModel, type TrainingRunResult } from "@/lib/ml/model";
+import {
+  ModelRegistryError,
+  activateModelVersion,
+  parseTrainingHyperparameters,
+  performanceModelName,
+} from "@/lib/ml/model-registry";
+import { toPhonemicSubjectName } from "@/lib/phonemic-levels";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp, writeSecurityAuditLog } from "@/lib/server/security-audit";
 
-import { NextResponse } from "next/server";
-import { createAndTrainModel } from "@/lib/ml/model";
-// import { auth } from "@/auth"; // If auth is used
+export const dynamic = "force-dynamic";
 
-export async function GET() {
-  try {
-    // 1. Verify Admin Permissions (Placeholder)
-    // const session = await auth();
-    // if (session?.user?.role !== "admin") return new NextResponse("Unauthorized", { status: 401 });
+export async function POST(request: NextRequest) {
+  const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  const hyperparameters = parseTrainingHyperparameters(body?.hyperparameters);
+  if (typeof hyperparameters === "string") {
+    return NextResponse.json({ success: false, error: hyperparameters }, { status: 400 });
+  }
+  const activate = body?.activate !== false;
+  // Without a subject every subject's model is retrained, one after another
+  const subject = body?.subject ? toPhonemicSubjectName(body.subject) : null;
+  if (body?.subject && !subject) {
+    return NextResponse.json({ success: false, error: "Unknown subject." }, { status: 400 });
+  }
 
-    // 2. Train Model
-    const result = await createAndTrainModel();
+  try {
+    const ipAddress = resolveRequestIp(request);
+    const results: Array<TrainingRunResult & { activated: boolean }> = [];
+    for (const target of subject ? [subject] : PERFORMANCE_SUBJECTS) {
+      const result = await createAndTrainModel({ subject: target, hyperparameters, trainedBy: auth.userId });
+      await runWithConnection(async (connection) => {
+        if (activate) {
+          await activateModelVersion(connection, result.versionId, auth.userId);
+        }
+        await writeSecurityAuditLog(connection, {
+          action: "ml_model_trained",
+          userId: auth.userId,
+          targetModule: "ml_model_registry",
+          targetRecordId: result.versionId,
+          ipAddress,
+          details: {
+            modelName: performanceModelName(target),
+            activated: activate,
+            hyperparameters,
+            datasetHash: result.datasetHash,
+            samples: result.samples,
+            validation: result.validation,
+          },
+        });
+      });
+      results.push({ ...result, activated: activate });
+    }
 
     return NextResponse.json({
       success: true,
-      data: result,
+      data: results,
       message: "Model training completed successfully based on historical data."
     });
   } catch (error) {
+    if (error instanceof ModelRegistryError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
     console.error("Training Error:", error);
     return NextResponse.json(
       { success: false, error: "Failed to train model." },
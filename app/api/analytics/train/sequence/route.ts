@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { ModelRegistryError, SEQUENCE_ENSEMBLE_MODEL_NAME, activateModelVersion } from "@/lib/ml/model-registry";
+import { parseBoostingHyperparameters, trainSequenceEnsemble } from "@/lib/ml/xgboost-trainer";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp, writeSecurityAuditLog } from "@/lib/server/security-audit";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest) {
+  const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  const hyperparameters = parseBoostingHyperparameters(body?.hyperparameters);
+  if (typeof hyperparameters === "string") {
+    return NextResponse.json({ success: false, error: hyperparameters }, { status: 400 });
+  }
+  const activate = body?.activate !== false;
+
+  try {
+    const result = await trainSequenceEnsemble({ hyperparameters, trainedBy: auth.userId });
+    await runWithConnection(async (connection) => {
+      if (activate) {
+        await activateModelVersion(connection, result.versionId, auth.userId);
+      }
+      await writeSecurityAuditLog(connection, {
+        action: "ml_model_trained",
+        userId: auth.userId,
+        targetModule: "ml_model_registry",
+        targetRecordId: result.versionId,
+        ipAddress: resolveRequestIp(request),
+        details: {
+          modelName: SEQUENCE_ENSEMBLE_MODEL_NAME,
+          activated: activate,
+          hyperparameters,
+          datasetHash: result.datasetHash,
+          samples: result.samples,
+          trees: result.trees,
+          crossValidation: result.crossValidation
+            ? { rounds: result.crossValidation.rounds, mae: result.crossValidation.mae, rmse: result.crossValidation.rmse }
+            : null,
+          validation: result.validation,
+        },
+      });
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result, activated: activate },
+      message: "Sequence ensemble trained from remedial session history.",
+    });
+  } catch (error) {
+    if (error instanceof ModelRegistryError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error("Sequence ensemble training error:", error);
+    return NextResponse.json({ success: false, error: "Failed to train the sequence ensemble." }, { status: 500 });
+  }
+}
@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import type { RowDataPacket, ResultSetHeader } from "mysql2/promise";
 import { runWithConnection } from "@/lib/db";
+import { gradeAnswer, loadGradingQuestions } from "@/lib/assessments/grading";
 
 export const dynamic = "force-dynamic";
 
-const normalizeText = (value: string) => value.trim().replace(/\s+/g, " ").toLowerCase();
-
 export async function POST(
 	request: NextRequest,
 	props: { params: Promise<{ attemptId: string }> }
@@ -48,47 +47,29 @@ export async function POST(
 					throw new Error("Attempt is no longer active.");
 				}
 
-				const [questionRows] = await connection.query<RowDataPacket[]>(
-					`SELECT question_id, question_type, points, correct_answer_text, case_sensitive
-					 FROM assessment_questions
-					 WHERE question_id = ? AND assessment_id = ?
-					 LIMIT 1`,
-					[questionId, attempt.assessment_id]
-				);
+				const gradingQuestions = await loadGradingQuestions(connection, Number(attempt.assessment_id));
+				const question = gradingQuestions.get(questionId);
 
-				if (questionRows.length === 0) {
+				if (!question) {
 					throw new Error("Question not found for this attempt.");
 				}
 
-				const question = questionRows[0];
-				const points = Number(question.points ?? 1);
-				let isCorrect = false;
-				let resolvedChoiceId: number | null = null;
-
-				if (selectedChoiceId != null && Number.isInteger(selectedChoiceId)) {
-					const [choiceRows] = await connection.query<RowDataPacket[]>(
-						`SELECT choice_id, is_correct
-						 FROM assessment_question_choices
-						 WHERE choice_id = ? AND question_id = ?
-						 LIMIT 1`,
-						[selectedChoiceId, questionId]
-					);
-					if (choiceRows.length === 0) {
-						throw new Error("Selected choice is invalid for this question.");
-					}
-					resolvedChoiceId = Number(choiceRows[0].choice_id);
-					isCorrect = Boolean(choiceRows[0].is_correct);
-				} else {
-					const correctAnswerRaw = String(question.correct_answer_text ?? "");
-					const caseSensitive = Boolean(question.case_sensitive);
-					if (caseSensitive) {
-						isCorrect = answerText === correctAnswerRaw;
-					} else {
-						isCorrect = normalizeText(answerText) === normalizeText(correctAnswerRaw);
-					}
+				const hasSelectedChoice = selectedChoiceId != null && Number.isInteger(selectedChoiceId);
+				const graded = gradeAnswer(question, {
+					selectedChoiceId: hasSelectedChoice ? selectedChoiceId : null,
+					answerText: hasSelectedChoice ? null : answerText,
+				});
+
+				if (hasSelectedChoice && graded.selectedChoiceId === null) {
+					throw new Error("Selected choice is invalid for this question.");
 				}
 
-				const earnedScore = isCorrect ? points : 0;
+				const resolvedChoiceId = graded.selectedChoiceId;
+				const isCorrect = graded.isCorrect;
+				const earnedScore = graded.score;
+				// Keep the chosen option's text so the answer can be re-graded if choice ids change.
+				const storedAnswerText =
+					question.choices.find((choice) => choice.choiceId === resolvedChoiceId)?.choiceText ?? answerText;
 
 				const [existingRows] = await connection.query<RowDataPacket[]>(
 					"SELECT answer_id FROM assessment_student_answers WHERE attempt_id = ? AND question_id = ? LIMIT 1",
@@ -100,13 +81,13 @@ export async function POST(
 						`UPDATE assessment_student_answers
 						 SET selected_choice_id = ?, answer_text = ?, is_correct = ?, score = ?
 						 WHERE answer_id = ?`,
-						[resolvedChoiceId, answerText || null, isCorrect ? 1 : 0, earnedScore, existingRows[0].answer_id]
+						[resolvedChoiceId, storedAnswerText || null, isCorrect ? 1 : 0, earnedScore, existingRows[0].answer_id]
 					);
 				} else {
 					await connection.query<ResultSetHeader>(
 						`INSERT INTO assessment_student_answers (attempt_id, question_id, selected_choice_id, answer_text, is_correct, score)
 						 VALUES (?, ?, ?, ?, ?, ?)`,
-						[attemptId, questionId, resolvedChoiceId, answerText || null, isCorrect ? 1 : 0, earnedScore]
+						[attemptId, questionId, resolvedChoiceId, storedAnswerText || null, isCorrect ? 1 : 0, earnedScore]
 					);
 				}
 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import type { RowDataPacket } from "mysql2/promise";
 import { runWithConnection } from "@/lib/db";
+import { gradeAttemptAnswers, loadGradingQuestions } from "@/lib/assessments/grading";
 
 export const dynamic = "force-dynamic";
 
@@ -38,17 +39,9 @@ export async function POST(
 				);
 				const totalQuestions = Number(questionCountRows[0]?.total ?? 0);
 
-				const [answerSummaryRows] = await connection.query<RowDataPacket[]>(
-					`SELECT
-						 COALESCE(SUM(score), 0) AS total_score,
-						 COALESCE(SUM(CASE WHEN is_correct = 1 THEN 1 ELSE 0 END), 0) AS correct_count
-					 FROM assessment_student_answers
-					 WHERE attempt_id = ?`,
-					[attemptId]
-				);
-
-				const totalScore = Number(answerSummaryRows[0]?.total_score ?? 0);
-				const correctCount = Number(answerSummaryRows[0]?.correct_count ?? 0);
+				// Scores are recomputed from the answer key rather than trusting stored values.
+				const gradingQuestions = await loadGradingQuestions(connection, Number(attempt.assessment_id));
+				const { totalScore, correctCount } = await gradeAttemptAnswers(connection, attemptId, gradingQuestions);
 				const incorrectCount = Math.max(0, totalQuestions - correctCount);
 
 				if (String(attempt.status) !== "submitted") {
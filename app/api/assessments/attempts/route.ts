@@ -1,59 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
-import type { RowDataPacket, ResultSetHeader } from "mysql2/promise";
+import type { RowDataPacket } from "mysql2/promise";
 import { runWithConnection } from "@/lib/db";
+import {
+	AssessmentAccessError,
+	assertAssessmentIsActive,
+	buildStudentName,
+	findStudentByLrn,
+	startOrResumeAttempt,
+	type AccessAssessmentRow,
+} from "@/lib/assessments/attempt-access";
 
 export const dynamic = "force-dynamic";
 
-type StudentRow = RowDataPacket & {
-	student_id: string;
-	lrn: string | null;
-	first_name: string | null;
-	middle_name: string | null;
-	last_name: string | null;
-};
-
-type AssessmentRow = RowDataPacket & {
-	assessment_id: number;
-	title: string;
+type AssessmentRow = AccessAssessmentRow & {
 	description: string | null;
-	start_time: string | Date | null;
-	end_time: string | Date | null;
-	is_published: number | boolean;
-};
-
-const toTimestamp = (value: string | Date | null | undefined) => {
-	if (!value) return Number.NaN;
-	if (value instanceof Date) return value.getTime();
-	const parsed = Date.parse(value);
-	return Number.isFinite(parsed) ? parsed : Number.NaN;
 };
 
-const assertAssessmentIsActive = (assessment: AssessmentRow) => {
-	const now = Date.now();
-	const startTime = toTimestamp(assessment.start_time);
-	const endTime = toTimestamp(assessment.end_time);
-
-	if (!Number.isFinite(startTime) || now < startTime) {
-		throw new Error("This assessment is pending and not active yet.");
-	}
-
-	if (Number.isFinite(endTime) && now > endTime) {
-		throw new Error("This assessment is already completed and no longer active.");
-	}
-};
-
-const buildStudentName = (student: StudentRow) =>
-	[student.first_name, student.middle_name, student.last_name].filter(Boolean).join(" ").trim();
-
 export async function GET() {
 	return NextResponse.json({ success: false, error: "Method not allowed." }, { status: 405 });
 }
 
 export async function POST(request: NextRequest) {
 	try {
-		const payload = (await request.json()) as { quizCode?: string; lrn?: string };
-		const quizCode = payload.quizCode?.trim().toUpperCase();
-		const lrn = payload.lrn?.trim();
+		const payload = (await request.json().catch(() => null)) as { quizCode?: string; lrn?: string } | null;
+		const quizCode = payload?.quizCode?.trim().toUpperCase();
+		const lrn = payload?.lrn?.trim();
 
 		if (!quizCode || !lrn) {
 			return NextResponse.json({ success: false, error: "Quiz code and LRN are required." }, { status: 400 });
@@ -69,26 +40,17 @@ export async function POST(request: NextRequest) {
 			);
 
 			if (assessmentRows.length === 0) {
-				throw new Error("Assessment not found for this code.");
+				throw new AssessmentAccessError("Assessment not found for this code.", 404);
 			}
 
 			const assessment = assessmentRows[0];
 			assertAssessmentIsActive(assessment);
 
-			const [studentRows] = await connection.query<StudentRow[]>(
-				`SELECT student_id, lrn, first_name, middle_name, last_name
-				 FROM student
-				 WHERE lrn = ?
-				 LIMIT 1`,
-				[lrn]
-			);
-
-			if (studentRows.length === 0) {
-				throw new Error("Student not found.");
+			const student = await findStudentByLrn(connection, lrn);
+			if (!student) {
+				throw new AssessmentAccessError("Student not found.", 404);
 			}
 
-			const student = studentRows[0];
-
 			const [questionRows] = await connection.query<RowDataPacket[]>(
 				`SELECT question_id, question_text, question_type, points, question_order
 				 FROM assessment_questions
@@ -118,26 +80,7 @@ export async function POST(request: NextRequest) {
 				});
 			}
 
-			const [attemptRows] = await connection.query<RowDataPacket[]>(
-				`SELECT attempt_id
-				 FROM assessment_attempts
-				 WHERE assessment_id = ? AND student_id = ? AND status = 'in_progress'
-				 ORDER BY attempt_id DESC
-				 LIMIT 1`,
-				[assessment.assessment_id, student.student_id]
-			);
-
-			let attemptId: number;
-			if (attemptRows.length > 0) {
-				attemptId = Number(attemptRows[0].attempt_id);
-			} else {
-				const [insertAttempt] = await connection.query<ResultSetHeader>(
-					`INSERT INTO assessment_attempts (assessment_id, student_id, lrn, started_at, status)
-					 VALUES (?, ?, ?, NOW(), 'in_progress')`,
-					[assessment.assessment_id, student.student_id, student.lrn ?? lrn]
-				);
-				attemptId = insertAttempt.insertId;
-			}
+			const { attemptId } = await startOrResumeAttempt(connection, assessment.assessment_id, student, lrn);
 
 			return {
 				attemptId,
@@ -161,7 +104,10 @@ export async function POST(request: NextRequest) {
 
 		return NextResponse.json({ success: true, ...result });
 	} catch (error) {
-		const message = error instanceof Error ? error.message : "Failed to start attempt.";
-		return NextResponse.json({ success: false, error: message }, { status: 400 });
+		if (error instanceof AssessmentAccessError) {
+			return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error("Failed to start attempt", error);
+		return NextResponse.json({ success: false, error: "Failed to start attempt." }, { status: 500 });
 	}
 }
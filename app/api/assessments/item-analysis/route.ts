@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { RowDataPacket } from "mysql2/promise";
+import { runWithConnection } from "@/lib/db";
+import { loadItemAnalysis } from "@/lib/assessments/item-analysis";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const quizCode = searchParams.get("code")?.trim().toUpperCase() || null;
+    const assessmentIdParam = Number(searchParams.get("assessmentId"));
+    const assessmentIdFilter = Number.isInteger(assessmentIdParam) && assessmentIdParam > 0 ? assessmentIdParam : null;
+
+    if (!quizCode && !assessmentIdFilter) {
+      return NextResponse.json({ success: false, error: "Quiz code or assessment id is required." }, { status: 400 });
+    }
+
+    const result = await runWithConnection(async (connection) => {
+      const [assessmentRows] = await connection.query<RowDataPacket[]>(
+        `SELECT assessment_id, title, quiz_code
+         FROM assessments
+         WHERE ${assessmentIdFilter ? "assessment_id = ?" : "quiz_code = ?"}
+         LIMIT 1`,
+        [assessmentIdFilter ?? quizCode]
+      );
+
+      if (assessmentRows.length === 0) {
+        return null;
+      }
+
+      const assessment = assessmentRows[0];
+      const report = await loadItemAnalysis(connection, Number(assessment.assessment_id));
+      return {
+        assessment: {
+          id: Number(assessment.assessment_id),
+          title: String(assessment.title ?? ""),
+          quizCode: assessment.quiz_code ?? null,
+        },
+        ...report,
+      };
+    });
+
+    if (!result) {
+      return NextResponse.json({ success: false, error: "Assessment not found." }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Failed to compute item analysis", error);
+    return NextResponse.json({ success: false, error: "Failed to compute item analysis." }, { status: 500 });
+  }
+}
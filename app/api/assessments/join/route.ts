@@ -1,3 +1,96 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import type { RowDataPacket } from "mysql2/promise";
+import { runWithConnection } from "@/lib/db";
+import {
+	AssessmentAccessError,
+	assertAssessmentIsJoinable,
+	buildStudentName,
+	findStudentByLrn,
+	parseJoinRequest,
+	startOrResumeAttempt,
+	type AccessAssessmentRow,
+} from "@/lib/assessments/attempt-access";
+
 export const dynamic = "force-dynamic";
-export async function POST() { return NextResponse.json({ success: false, error: "Backend connection removed." }, { status: 404 }); }
+
+type AssessmentRow = AccessAssessmentRow & {
+	qr_token: string | null;
+};
+
+export async function GET() {
+	return NextResponse.json({ success: false, error: "Method not allowed." }, { status: 405 });
+}
+
+export async function POST(request: NextRequest) {
+	const parsed = parseJoinRequest(await request.json().catch(() => null));
+	if (typeof parsed === "string") {
+		return NextResponse.json({ success: false, error: parsed }, { status: 400 });
+	}
+	const { quizCode, lrn, qrToken } = parsed;
+
+	try {
+		const result = await runWithConnection(async (connection) => {
+			const [assessmentRows] = await connection.query<AssessmentRow[]>(
+				`SELECT assessment_id, title, start_time, end_time, qr_token, is_published
+				 FROM assessments
+				 WHERE quiz_code = ?
+				 LIMIT 1`,
+				[quizCode]
+			);
+
+			if (assessmentRows.length === 0) {
+				throw new AssessmentAccessError("Assessment not found for this code.", 404);
+			}
+
+			const assessment = assessmentRows[0];
+
+			if (qrToken && assessment.qr_token && qrToken !== assessment.qr_token) {
+				throw new AssessmentAccessError("Invalid QR token.", 403);
+			}
+
+			assertAssessmentIsJoinable(assessment);
+
+			const student = await findStudentByLrn(connection, lrn);
+			if (!student) {
+				throw new AssessmentAccessError("No student was found with this LRN.", 404);
+			}
+
+			const [submittedAttemptRows] = await connection.query<RowDataPacket[]>(
+				`SELECT attempt_id
+				 FROM assessment_attempts
+				 WHERE assessment_id = ? AND student_id = ? AND status = 'submitted'
+				 LIMIT 1`,
+				[assessment.assessment_id, student.student_id]
+			);
+
+			if (submittedAttemptRows.length > 0) {
+				throw new AssessmentAccessError("You have already completed this assessment and cannot retake it.", 409);
+			}
+
+			const { attemptId, resumed } = await startOrResumeAttempt(connection, assessment.assessment_id, student, lrn);
+
+			return {
+				attemptId,
+				resumed,
+				student: {
+					id: student.student_id,
+					name: buildStudentName(student) || student.student_id,
+					lrn: student.lrn ?? lrn,
+				},
+				assessment: {
+					id: assessment.assessment_id,
+					title: String(assessment.title ?? ""),
+				},
+				redirectUrl: `/quiz/${encodeURIComponent(quizCode)}`,
+			};
+		});
+
+		return NextResponse.json({ success: true, ...result });
+	} catch (error) {
+		if (error instanceof AssessmentAccessError) {
+			return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+		}
+		console.error("Failed to join quiz", error);
+		return NextResponse.json({ success: false, error: "Failed to join quiz." }, { status: 500 });
+	}
+}
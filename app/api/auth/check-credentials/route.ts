@@ -2,6 +2,14 @@ import { type RowDataPacket } from "mysql2/promise";
 import { runWithConnection } from "@/lib/db";
 import { normalizeRoleName, resolveCanonicalRole, resolvePortalPath, resolveUserRole } from "@/lib/server/role-resolution";
 import { ensureItAdminPhaseOneMigration } from "@/lib/server/it-admin-migration";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import {
+  buildLoginAccountKey,
+  checkLoginThrottle,
+  describeThrottleDecision,
+  recordLoginFailure,
+  type LoginAttemptSubject,
+} from "@/lib/server/login-attempts";
 
 interface CheckCredentialsPayload {
   email?: string | null;
@@ -137,7 +145,29 @@ export async function POST(req: Request): Promise<Response> {
           user = users[0];
         }
 
+        const attemptSubject: LoginAttemptSubject = {
+          accountKey: buildLoginAccountKey(
+            user ? Number(user.user_id) : null,
+            normalizedEmail || `it_admin:${normalizedItAdminId ?? ""}`,
+          ),
+          userId: user ? Number(user.user_id) : null,
+          ipAddress: resolveRequestIp(req),
+        };
+        const throttle = await checkLoginThrottle(db, attemptSubject, "probe");
+        if (!throttle.allowed) {
+          return new Response(
+            JSON.stringify({
+              match: false,
+              locked: throttle.reason === "locked",
+              error: describeThrottleDecision(throttle),
+              retryAfterSeconds: throttle.retryAfterSeconds,
+            }),
+            { status: 429, headers: { "Retry-After": String(throttle.retryAfterSeconds) } },
+          );
+        }
+
         if (!user) {
+          await recordLoginFailure(db, attemptSubject, "probe");
           return new Response(JSON.stringify({ match: false }), { status: 200 });
         }
 
@@ -178,6 +208,7 @@ export async function POST(req: Request): Promise<Response> {
         }
 
         if (password !== user.password) {
+          await recordLoginFailure(db, attemptSubject, "probe");
           return new Response(JSON.stringify({ match: false }), { status: 200 });
         }
 
@@ -1,13 +1,21 @@
 import { type RowDataPacket } from "mysql2/promise";
 import { recordAccountLogin } from "@/lib/server/account-logs";
-import { buildParentSessionCookie, createParentSession } from "@/lib/server/parent-session";
-import { buildAdminSessionCookie, createAdminSession } from "@/lib/server/admin-session";
-import { buildPrincipalSessionCookie, createPrincipalSession } from "@/lib/server/principal-session";
-import { buildMasterTeacherSessionCookie, createMasterTeacherSession } from "@/lib/server/master-teacher-session";
-import { buildTeacherSessionCookie, createTeacherSession } from "@/lib/server/teacher-session";
-import { getTableColumns, runWithConnection } from "@/lib/db";
+import { createLoginSessions } from "@/lib/server/login-sessions";
+import { touchTrustedDevice } from "@/lib/server/device-sessions";
+import { runWithConnection } from "@/lib/db";
 import { normalizeRoleName, resolveCanonicalRole, resolvePortalPath, resolveUserRole } from "@/lib/server/role-resolution";
 import { ensureItAdminPhaseOneMigration } from "@/lib/server/it-admin-migration";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import { createLoginChallenge, getTotpRequirement } from "@/lib/server/totp-auth";
+import {
+  buildLoginAccountKey,
+  checkLoginThrottle,
+  describeThrottleDecision,
+  recordLoginFailure,
+  recordLoginSuccess,
+  type LoginAttemptSubject,
+  type LoginThrottleDecision,
+} from "@/lib/server/login-attempts";
 
 /* =======================
    Types
@@ -128,41 +136,6 @@ function validateLoginPayload(payload: LoginRequestPayload) {
   return { ok: true } as const;
 }
 
-const MASTER_TEACHER_TABLES = [
-  "master_teacher",
-  "master_teachers",
-  "masterteacher",
-  "master_teacher_tbl",
-] as const;
-
-const MASTER_TEACHER_ID_COLUMNS = [
-  "master_teacher_id",
-  "masterteacher_id",
-  "mt_id",
-  "teacher_id",
-  "coordinator_id",
-] as const;
-
-const TEACHER_TABLES = [
-  "teacher",
-  "teachers",
-  "teacher_info",
-  "teacher_profile",
-  "teacher_profiles",
-  "faculty",
-  "faculty_info",
-  "faculty_profiles",
-  "remedial_teachers",
-] as const;
-
-const TEACHER_ID_COLUMNS = [
-  "teacher_id",
-  "employee_id",
-  "user_code",
-  "id",
-  "user_id",
-] as const;
-
 function isMissingTableError(error: unknown): boolean {
   const code = (error as { code?: string } | null)?.code;
   return code === "ER_NO_SUCH_TABLE" || code === "ER_BAD_TABLE_ERROR" || code === "42S02";
@@ -215,74 +188,6 @@ async function resolveSuperAdminLinkedUserId(
   return null;
 }
 
-async function resolveMasterTeacherId(db: import("mysql2/promise").PoolConnection, userId: number): Promise<string | null> {
-  for (const table of MASTER_TEACHER_TABLES) {
-    let columns: Set<string>;
-    try {
-      columns = await getTableColumns(table);
-    } catch {
-      continue;
-    }
-
-    if (!columns.size || !columns.has("user_id")) {
-      continue;
-    }
-
-    const idColumn = MASTER_TEACHER_ID_COLUMNS.find((col) => columns.has(col)) ?? null;
-    const selectCol = idColumn ?? "user_id";
-
-    try {
-      const [rows] = await db.execute<RowDataPacket[]>(
-        `SELECT ${selectCol} AS master_teacher_id FROM ${table} WHERE user_id = ? LIMIT 1`,
-        [userId],
-      );
-
-      const candidate = rows[0]?.master_teacher_id;
-      if (candidate !== null && candidate !== undefined && String(candidate).trim()) {
-        return String(candidate).trim();
-      }
-    } catch {
-      continue;
-    }
-  }
-
-  return String(userId);
-}
-
-async function resolveTeacherId(db: import("mysql2/promise").PoolConnection, userId: number): Promise<string | null> {
-  for (const table of TEACHER_TABLES) {
-    let columns: Set<string>;
-    try {
-      columns = await getTableColumns(table);
-    } catch {
-      continue;
-    }
-
-    if (!columns.size || !columns.has("user_id")) {
-      continue;
-    }
-
-    const idColumn = TEACHER_ID_COLUMNS.find((col) => columns.has(col)) ?? null;
-    const selectCol = idColumn ?? "user_id";
-
-    try {
-      const [rows] = await db.execute<RowDataPacket[]>(
-        `SELECT ${selectCol} AS teacher_id FROM ${table} WHERE user_id = ? LIMIT 1`,
-        [userId],
-      );
-
-      const candidate = rows[0]?.teacher_id;
-      if (candidate !== null && candidate !== undefined && String(candidate).trim()) {
-        return String(candidate).trim();
-      }
-    } catch {
-      continue;
-    }
-  }
-
-  return String(userId);
-}
-
 /* =======================
    Route
 ======================= */
@@ -315,6 +220,28 @@ export async function POST(req: Request): Promise<Response> {
         return new Response(JSON.stringify(payload), { status, headers });
       };
 
+      const respondThrottled = (decision: Exclude<LoginThrottleDecision, { allowed: true }>): Response =>
+        respond(
+          429,
+          {
+            error: describeThrottleDecision(decision),
+            errorCode:
+              decision.reason === "backoff" ? "LOGIN_BACKOFF" : decision.scope === "ip" ? "NETWORK_LOCKED" : "ACCOUNT_LOCKED",
+            retryAfterSeconds: decision.retryAfterSeconds,
+            lockedUntil: decision.lockedUntil,
+          },
+          { "Retry-After": String(decision.retryAfterSeconds) },
+        );
+
+      /* A failure that trips the lockout answers with the lockout itself. */
+      const rejectCredentials = async (subject: LoginAttemptSubject): Promise<Response> => {
+        const decision = await recordLoginFailure(db, subject);
+        if (!decision.allowed && decision.reason === "locked") {
+          return respondThrottled(decision);
+        }
+        return respond(401, { error: "Invalid credentials" });
+      };
+
       try {
         const { email, password, userId, itAdminId, deviceToken, deviceName, expectedRole, disallowRole } =
           (await req.json()) as LoginRequestPayload;
@@ -345,28 +272,40 @@ export async function POST(req: Request): Promise<Response> {
           user = users[0];
         } else if (normalizedItAdminId) {
           const linkedUserId = await resolveSuperAdminLinkedUserId(db, normalizedItAdminId);
-          if (!linkedUserId) {
-            return respond(401, { error: "Invalid credentials" });
+          if (linkedUserId) {
+            const [users] = await db.execute<UserRow[]>(
+              "SELECT * FROM users WHERE user_id = ? LIMIT 1",
+              [linkedUserId],
+            );
+            user = users[0];
           }
+        }
 
-          const [users] = await db.execute<UserRow[]>(
-            "SELECT * FROM users WHERE user_id = ? LIMIT 1",
-            [linkedUserId],
-          );
-          user = users[0];
+        /* ===== Brute-force throttle ===== */
+        const attemptSubject: LoginAttemptSubject = {
+          accountKey: buildLoginAccountKey(
+            user ? Number(user.user_id) : null,
+            normalizedEmail || `it_admin:${normalizedItAdminId ?? ""}`,
+          ),
+          userId: user ? Number(user.user_id) : null,
+          ipAddress: resolveRequestIp(req),
+        };
+        const throttle = await checkLoginThrottle(db, attemptSubject);
+        if (!throttle.allowed) {
+          return respondThrottled(throttle);
         }
 
-        if (!user) return respond(401, { error: "Invalid credentials" });
+        if (!user) return rejectCredentials(attemptSubject);
 
         if (password !== user.password) {
-          return respond(401, { error: "Invalid credentials" });
+          return rejectCredentials(attemptSubject);
         }
 
         /* ===== Validate optional userId ===== */
         if (userId !== undefined && userId !== null && String(userId).trim()) {
           const normalizedUserId = toNumber(userId);
           if (normalizedUserId === null || normalizedUserId !== user.user_id) {
-            return respond(401, { error: "Invalid credentials" });
+            return rejectCredentials(attemptSubject);
           }
         }
 
@@ -415,12 +354,13 @@ export async function POST(req: Request): Promise<Response> {
 
           const linkedUserId = await resolveSuperAdminLinkedUserId(db, normalizedItAdminId);
           if (linkedUserId !== user.user_id) {
-            return respond(401, { error: "Invalid credentials" });
+            return rejectCredentials(attemptSubject);
           }
         }
 
         /* ===== Trusted device check ===== */
         let trusted = false;
+        let trustedByToken = false;
 
         if (deviceToken) {
           const [rows] = await db.execute<RowDataPacket[]>(
@@ -428,6 +368,7 @@ export async function POST(req: Request): Promise<Response> {
             [user.user_id, deviceToken],
           );
           trusted = rows.length > 0;
+          trustedByToken = trusted;
         }
 
         if (!trusted && deviceName) {
@@ -438,10 +379,21 @@ export async function POST(req: Request): Promise<Response> {
           trusted = rows.length > 0;
         }
 
-        if (!trusted) {
+        /*
+         * A required authenticator is asked for on every sign-in, trusted device or not. The
+         * attempt only counts as a success once the second factor passes, so the account's
+         * failure counter keeps counting wrong codes.
+         */
+        const totp = await getTotpRequirement(db, user.user_id, canonicalRole);
+        if (!trusted || totp.required) {
+          const loginChallenge = await createLoginChallenge(db, user.user_id, deviceName ?? null);
           return respond(200, {
             success: true,
             otpRequired: true,
+            loginChallenge,
+            totpEnrolled: totp.enrolled,
+            totpRequired: totp.required,
+            emailOtpAllowed: !totp.required,
             role: responseRole,
             redirectPath,
             user_id: user.user_id,
@@ -454,73 +406,24 @@ export async function POST(req: Request): Promise<Response> {
         }
 
         /* ===== Create sessions ===== */
-        const cookies: string[] = [];
-
-        if (canonicalRole === "parent") {
-          const { token, expiresAt } = await createParentSession(db, user.user_id, deviceName);
-          cookies.push(buildParentSessionCookie(token, expiresAt));
-        }
-
-        if (canonicalRole === "it_admin") {
-          const { token, expiresAt } = await createAdminSession(db, user.user_id, deviceName);
-          cookies.push(buildAdminSessionCookie(token, expiresAt));
-        }
-
-        /* ===== PRINCIPAL SESSION (NEW) ===== */
-        if (canonicalRole === "principal") {
-          const [rows] = await db.execute<RowDataPacket[]>(
-            "SELECT principal_id FROM principal WHERE user_id = ? LIMIT 1",
-            [user.user_id],
-          );
-
-          const principalId = rows[0]?.principal_id;
-          if (!principalId) {
-            return respond(403, { error: "Principal record not found" });
-          }
-
-          const { token, expiresAt } = await createPrincipalSession(
-            db,
-            principalId,
-            user.user_id,
-            deviceName,
-          );
-
-          cookies.push(buildPrincipalSessionCookie(token, expiresAt));
-        }
-
-        /* ===== MASTER TEACHER SESSION ===== */
-        if (canonicalRole === "master_teacher" || canonicalRole === "masterteacher") {
-          const masterTeacherId = await resolveMasterTeacherId(db, user.user_id);
-          if (!masterTeacherId) {
-            return respond(403, { error: "Master teacher record not found" });
-          }
-
-          const { token, expiresAt } = await createMasterTeacherSession(
-            db,
-            masterTeacherId,
-            user.user_id,
-            deviceName,
-          );
-
-          cookies.push(buildMasterTeacherSessionCookie(token, expiresAt));
-        }
-
-        /* ===== TEACHER SESSION ===== */
-        if (canonicalRole === "teacher") {
-          const teacherId = await resolveTeacherId(db, user.user_id);
-          if (!teacherId) {
-            return respond(403, { error: "Teacher record not found" });
-          }
-
-          const { token, expiresAt } = await createTeacherSession(
-            db,
-            teacherId,
-            user.user_id,
-            deviceName,
-          );
-
-          cookies.push(buildTeacherSessionCookie(token, expiresAt));
+        await recordLoginSuccess(db, attemptSubject);
+        await touchTrustedDevice(
+          db,
+          user.user_id,
+          trustedByToken ? { deviceToken } : { deviceName },
+          attemptSubject.ipAddress,
+        );
+        const sessions = await createLoginSessions(
+          db,
+          user.user_id,
+          { normalizedRole, canonicalRole, responseRole, redirectPath },
+          deviceName ?? null,
+          attemptSubject.ipAddress,
+        );
+        if (!sessions.ok) {
+          return respond(sessions.status, { error: sessions.error });
         }
+        const cookies = sessions.cookies;
 
         await recordAccountLogin(db, user.user_id, responseRole);
 
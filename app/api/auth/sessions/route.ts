@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import {
+  applySessionAction,
+  buildClearedSessionCookie,
+  listAccountSessions,
+  listTrustedDevices,
+  parseSessionAction,
+  resolveSignedInAccount,
+} from "@/lib/server/device-sessions";
+
+export const dynamic = "force-dynamic";
+
+const NO_STORE = { "Cache-Control": "no-store" };
+
+/** Devices and sessions of whoever is signed in, whichever portal they use. */
+export async function GET(request: NextRequest): Promise<Response> {
+  const account = await resolveSignedInAccount();
+  if (!account) {
+    return NextResponse.json({ success: false, error: "Not authenticated." }, { status: 401, headers: NO_STORE });
+  }
+
+  try {
+    const { sessions, devices } = await runWithConnection(async (connection) => ({
+      sessions: await listAccountSessions(connection, account.userId, account),
+      devices: await listTrustedDevices(connection, account.userId, request.headers.get("user-agent")),
+    }));
+    return NextResponse.json({ success: true, sessions, devices }, { headers: NO_STORE });
+  } catch (error) {
+    console.error("Failed to load devices and sessions", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load devices and sessions." },
+      { status: 500, headers: NO_STORE },
+    );
+  }
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+  const account = await resolveSignedInAccount();
+  if (!account) {
+    return NextResponse.json({ success: false, error: "Not authenticated." }, { status: 401, headers: NO_STORE });
+  }
+
+  const action = parseSessionAction(await request.json().catch(() => null));
+  if (!action) {
+    return NextResponse.json({ success: false, error: "Invalid session action." }, { status: 400, headers: NO_STORE });
+  }
+
+  try {
+    const applied = await runWithConnection((connection) =>
+      applySessionAction(connection, account.userId, action, {
+        userId: account.userId,
+        ipAddress: resolveRequestIp(request),
+      }),
+    );
+    if (!applied) {
+      return NextResponse.json(
+        { success: false, error: "This session or device has already been signed out." },
+        { status: 404, headers: NO_STORE },
+      );
+    }
+
+    const signedOut =
+      action.action === "sign_out_everywhere" ||
+      (action.action === "revoke_session" && action.role === account.role && action.sessionId === account.sessionId);
+    const response = NextResponse.json({ success: true, signedOut }, { headers: NO_STORE });
+    if (signedOut) {
+      response.headers.append("Set-Cookie", buildClearedSessionCookie(account.role));
+    }
+    return response;
+  } catch (error) {
+    console.error("Failed to revoke session", error);
+    return NextResponse.json({ success: false, error: "Failed to sign out." }, { status: 500, headers: NO_STORE });
+  }
+}
@@ -0,0 +1,71 @@
+import { type RowDataPacket } from "mysql2/promise";
+import { NextResponse } from "next/server";
+import QRCode from "qrcode";
+import { runWithConnection } from "@/lib/db";
+import { resolveLoginRole } from "@/lib/server/login-sessions";
+import { beginTotpEnrollment, getTotpRequirement, readLoginChallenge } from "@/lib/server/totp-auth";
+import { buildOtpAuthUri } from "@/lib/server/totp";
+
+export const dynamic = "force-dynamic";
+
+interface UserRow extends RowDataPacket {
+  user_id: number;
+  email: string | null;
+  role: string | null;
+}
+
+const NO_STORE = { "Cache-Control": "no-store" };
+
+/**
+ * Enrollment during sign-in is limited to accounts that must use an
+ * authenticator and have none yet; otherwise a stolen password alone would be
+ * enough to bind a new second factor.
+ */
+export async function POST(request: Request): Promise<Response> {
+  const payload = (await request.json().catch(() => null)) as { challenge?: unknown } | null;
+  const challengeToken = typeof payload?.challenge === "string" ? payload.challenge : "";
+
+  try {
+    return await runWithConnection(async (db) => {
+      const challenge = await readLoginChallenge(db, challengeToken);
+      if (!challenge) {
+        return NextResponse.json(
+          { success: false, error: "Your sign-in session has expired. Please sign in again." },
+          { status: 401, headers: NO_STORE },
+        );
+      }
+
+      const [users] = await db.execute<UserRow[]>("SELECT * FROM users WHERE user_id = ? LIMIT 1", [
+        challenge.userId,
+      ]);
+      const user = users[0];
+      if (!user) {
+        return NextResponse.json({ success: false, error: "User not found" }, { status: 404, headers: NO_STORE });
+      }
+
+      const role = await resolveLoginRole(db, user);
+      const totp = await getTotpRequirement(db, challenge.userId, role.canonicalRole);
+      if (totp.enrolled) {
+        return NextResponse.json(
+          { success: false, error: "An authenticator app is already set up for this account." },
+          { status: 409, headers: NO_STORE },
+        );
+      }
+      if (!totp.required) {
+        return NextResponse.json(
+          { success: false, error: "Authenticator setup is not required for this account." },
+          { status: 403, headers: NO_STORE },
+        );
+      }
+
+      const secret = await beginTotpEnrollment(db, challenge.userId);
+      const otpauthUri = buildOtpAuthUri(secret, String(user.email ?? `user-${challenge.userId}`));
+      const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 220 });
+
+      return NextResponse.json({ success: true, secret, otpauthUri, qrCodeDataUrl }, { headers: NO_STORE });
+    });
+  } catch (error) {
+    console.error("Failed to start authenticator enrollment", error);
+    return NextResponse.json({ success: false, error: "Server error" }, { status: 500, headers: NO_STORE });
+  }
+}
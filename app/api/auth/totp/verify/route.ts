@@ -0,0 +1,156 @@
+import { type RowDataPacket } from "mysql2/promise";
+import { NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { recordAccountLogin } from "@/lib/server/account-logs";
+import {
+  buildLoginAccountKey,
+  checkLoginThrottle,
+  describeThrottleDecision,
+  recordLoginFailure,
+  recordLoginSuccess,
+  type LoginAttemptSubject,
+  type LoginThrottleDecision,
+} from "@/lib/server/login-attempts";
+import { createLoginSessions, resolveLoginRole, trustLoginDevice } from "@/lib/server/login-sessions";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import {
+  consumeLoginChallenge,
+  readLoginChallenge,
+  recordLoginChallengeFailure,
+  verifyTotpForLogin,
+} from "@/lib/server/totp-auth";
+
+export const dynamic = "force-dynamic";
+
+interface UserRow extends RowDataPacket {
+  user_id: number;
+  email: string | null;
+  role: string | null;
+  first_name?: string | null;
+  middle_name?: string | null;
+  last_name?: string | null;
+  profile_image_url?: string | null;
+}
+
+interface VerifyTotpPayload {
+  challenge?: unknown;
+  code?: unknown;
+  recoveryCode?: unknown;
+  deviceName?: unknown;
+}
+
+const NO_STORE = { "Cache-Control": "no-store" };
+
+const respondThrottled = (decision: Exclude<LoginThrottleDecision, { allowed: true }>) =>
+  NextResponse.json(
+    { success: false, error: describeThrottleDecision(decision), retryAfterSeconds: decision.retryAfterSeconds },
+    { status: 429, headers: { ...NO_STORE, "Retry-After": String(decision.retryAfterSeconds) } },
+  );
+
+const toTrimmed = (value: unknown, maxLength: number): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 && trimmed.length <= maxLength ? trimmed : null;
+};
+
+export async function POST(request: Request): Promise<Response> {
+  const payload = (await request.json().catch(() => null)) as VerifyTotpPayload | null;
+  const challengeToken = toTrimmed(payload?.challenge, 64) ?? "";
+  const code = toTrimmed(payload?.code, 12);
+  const recoveryCode = toTrimmed(payload?.recoveryCode, 20);
+  const deviceName = toTrimmed(payload?.deviceName, 200);
+
+  if (!code && !recoveryCode) {
+    return NextResponse.json(
+      { success: false, error: "Enter the code from your authenticator app or a recovery code." },
+      { status: 400, headers: NO_STORE },
+    );
+  }
+
+  try {
+    return await runWithConnection(async (db) => {
+      const challenge = await readLoginChallenge(db, challengeToken);
+      if (!challenge) {
+        return NextResponse.json(
+          { success: false, error: "Your sign-in session has expired. Please sign in again." },
+          { status: 401, headers: NO_STORE },
+        );
+      }
+
+      const ipAddress = resolveRequestIp(request);
+      // Wrong codes count against the same account and IP counters as wrong passwords, so
+      // starting fresh challenges does not buy more guesses
+      const attemptSubject: LoginAttemptSubject = {
+        accountKey: buildLoginAccountKey(challenge.userId, ""),
+        userId: challenge.userId,
+        ipAddress,
+      };
+      const throttle = await checkLoginThrottle(db, attemptSubject);
+      if (!throttle.allowed) {
+        return respondThrottled(throttle);
+      }
+
+      const result = await verifyTotpForLogin(db, challenge.userId, { code, recoveryCode }, ipAddress);
+      if (!result.ok) {
+        await recordLoginChallengeFailure(db, challenge.challengeId);
+        const decision = await recordLoginFailure(db, attemptSubject);
+        if (!decision.allowed && decision.reason === "locked") {
+          return respondThrottled(decision);
+        }
+        return NextResponse.json(
+          { success: false, error: recoveryCode ? "Invalid recovery code." : "Invalid authenticator code." },
+          { status: 400, headers: NO_STORE },
+        );
+      }
+      if (!(await consumeLoginChallenge(db, challenge.challengeId))) {
+        return NextResponse.json(
+          { success: false, error: "Your sign-in session has expired. Please sign in again." },
+          { status: 401, headers: NO_STORE },
+        );
+      }
+
+      const [users] = await db.execute<UserRow[]>("SELECT * FROM users WHERE user_id = ? LIMIT 1", [
+        challenge.userId,
+      ]);
+      const user = users[0];
+      if (!user) {
+        return NextResponse.json({ success: false, error: "User not found" }, { status: 404, headers: NO_STORE });
+      }
+
+      await recordLoginSuccess(db, attemptSubject);
+      const sessionDeviceName = deviceName ?? challenge.deviceName;
+      const role = await resolveLoginRole(db, user);
+      const deviceToken = await trustLoginDevice(db, challenge.userId, sessionDeviceName, ipAddress);
+      const sessions = await createLoginSessions(db, challenge.userId, role, sessionDeviceName, ipAddress);
+      if (!sessions.ok) {
+        return NextResponse.json({ success: false, error: sessions.error }, { status: sessions.status, headers: NO_STORE });
+      }
+
+      await recordAccountLogin(db, challenge.userId, role.responseRole);
+
+      const response = NextResponse.json(
+        {
+          success: true,
+          deviceToken,
+          role: role.responseRole,
+          redirectPath: role.redirectPath,
+          user_id: challenge.userId,
+          email: user.email ?? null,
+          first_name: user.first_name ?? null,
+          middle_name: user.middle_name ?? null,
+          last_name: user.last_name ?? null,
+          profileImageUrl: user.profile_image_url ?? null,
+          method: result.method,
+          recoveryCodes: result.recoveryCodes,
+          recoveryCodesRemaining: result.recoveryCodesRemaining,
+        },
+        { headers: NO_STORE },
+      );
+      sessions.cookies.forEach((cookie) => response.headers.append("Set-Cookie", cookie));
+      return response;
+    });
+  } catch (error) {
+    console.error("Authenticator verification failed", error);
+    return NextResponse.json({ success: false, error: "Server error" }, { status: 500, headers: NO_STORE });
+  }
+}
@@ -1,14 +1,10 @@
 import type { ResultSetHeader, RowDataPacket } from "mysql2/promise";
-import { randomBytes } from "crypto";
 import { runWithConnection } from "@/lib/db";
 import { recordAccountLogin } from "@/lib/server/account-logs";
-import { buildParentSessionCookie, createParentSession } from "@/lib/server/parent-session";
-import { buildAdminSessionCookie, createAdminSession } from "@/lib/server/admin-session";
-import { buildPrincipalSessionCookie, createPrincipalSession } from "@/lib/server/principal-session";
-import { buildMasterTeacherSessionCookie, createMasterTeacherSession } from "@/lib/server/master-teacher-session";
-import { buildTeacherSessionCookie, createTeacherSession } from "@/lib/server/teacher-session";
-import { resolveMasterTeacherId, resolvePrincipalId, resolveTeacherId } from "@/lib/server/role-record-ids";
-import { normalizeRoleName, resolveCanonicalRole, resolvePortalPath, resolveUserRole } from "@/lib/server/role-resolution";
+import { buildLoginAccountKey, recordLoginSuccess } from "@/lib/server/login-attempts";
+import { createLoginSessions, resolveLoginRole, trustLoginDevice } from "@/lib/server/login-sessions";
+import { getTotpRequirement } from "@/lib/server/totp-auth";
+import { resolveRequestIp } from "@/lib/server/security-audit";
 import { ensureItAdminPhaseOneMigration } from "@/lib/server/it-admin-migration";
 
 interface VerifyOtpPayload {
@@ -78,86 +74,34 @@ export async function POST(req: Request): Promise<Response> {
         return respond(400, { error: "OTP expired" });
       }
 
+      const role = await resolveLoginRole(db, user);
+      const totp = await getTotpRequirement(db, user.user_id, role.canonicalRole);
+      if (totp.required) {
+        return respond(403, {
+          error: "This account must sign in with an authenticator app.",
+          errorCode: "TOTP_REQUIRED",
+        });
+      }
+
       await db.execute<ResultSetHeader>(
         "UPDATE users SET otp_code = NULL, otp_expires_at = NULL WHERE user_id = ?",
         [user.user_id]
       );
 
-      const deviceToken = randomBytes(32).toString("hex");
-      const computedDeviceName = deviceName && deviceName.trim().length > 0 ? deviceName : "Unnamed Device";
-
-      await db.execute<ResultSetHeader>(
-        "INSERT INTO trusted_devices (user_id, device_token, device_name) VALUES (?, ?, ?)",
-        [user.user_id, deviceToken, computedDeviceName]
-      );
-
-      await db.execute<ResultSetHeader>(
-        "UPDATE trusted_devices SET last_used = NOW() WHERE user_id = ? AND device_token = ?",
-        [user.user_id, deviceToken]
-      );
-
-      const resolvedRole = await resolveUserRole(db, user);
-      const roleForLogic = resolvedRole ?? user.role ?? null;
-      const normalizedRole = normalizeRoleName(roleForLogic);
-      const canonicalRole = resolveCanonicalRole(normalizedRole);
-      const responseRole = canonicalRole || normalizedRole || roleForLogic;
-      const redirectPath = resolvePortalPath(canonicalRole || normalizedRole);
-      const responseCookies: string[] = [];
-
-      if (normalizedRole === "parent") {
-        const { token, expiresAt } = await createParentSession(db, user.user_id, deviceName ?? null);
-        responseCookies.push(buildParentSessionCookie(token, expiresAt));
-      }
-
-      if (canonicalRole === "it_admin") {
-        const { token, expiresAt } = await createAdminSession(db, user.user_id, deviceName ?? null);
-        responseCookies.push(buildAdminSessionCookie(token, expiresAt));
-      }
-
-      if (canonicalRole === "principal") {
-        const principalId = await resolvePrincipalId(db, user.user_id);
-        if (!principalId) {
-          return respond(403, { error: "Principal record not found" });
-        }
-
-        const { token, expiresAt } = await createPrincipalSession(
-          db,
-          principalId,
-          user.user_id,
-          deviceName ?? null,
-        );
-        responseCookies.push(buildPrincipalSessionCookie(token, expiresAt));
-      }
-
-      if (canonicalRole === "master_teacher" || canonicalRole === "masterteacher") {
-        const masterTeacherId = await resolveMasterTeacherId(db, user.user_id);
-        if (!masterTeacherId) {
-          return respond(403, { error: "Master teacher record not found" });
-        }
-
-        const { token, expiresAt } = await createMasterTeacherSession(
-          db,
-          masterTeacherId,
-          user.user_id,
-          deviceName ?? null,
-        );
-        responseCookies.push(buildMasterTeacherSessionCookie(token, expiresAt));
-      }
-
-      if (canonicalRole === "teacher") {
-        const teacherId = await resolveTeacherId(db, user.user_id);
-        if (!teacherId) {
-          return respond(403, { error: "Teacher record not found" });
-        }
-
-        const { token, expiresAt } = await createTeacherSession(
-          db,
-          teacherId,
-          user.user_id,
-          deviceName ?? null,
-        );
-        responseCookies.push(buildTeacherSessionCookie(token, expiresAt));
+      const ipAddress = resolveRequestIp(req);
+      // The password step leaves the failure counter alone until the second factor passes
+      await recordLoginSuccess(db, {
+        accountKey: buildLoginAccountKey(user.user_id, ""),
+        userId: user.user_id,
+        ipAddress,
+      });
+      const deviceToken = await trustLoginDevice(db, user.user_id, deviceName ?? null, ipAddress);
+      const sessions = await createLoginSessions(db, user.user_id, role, deviceName ?? null, ipAddress);
+      if (!sessions.ok) {
+        return respond(sessions.status, { error: sessions.error });
       }
+      const { responseRole, redirectPath } = role;
+      const responseCookies = sessions.cookies;
 
       await recordAccountLogin(db, user.user_id, responseRole);
 
@@ -1,23 +1,5 @@
 import { NextResponse } from "next/server";
-
-const resolveSpeechConfig = () => {
-  const key =
-    process.env.AZURE_SPEECH_KEY ||
-    process.env.SPEECH_KEY ||
-    process.env.NEXT_PUBLIC_AZURE_SPEECH_KEY ||
-    "";
-  const region =
-    process.env.AZURE_SPEECH_REGION ||
-    process.env.SPEECH_REGION ||
-    process.env.NEXT_PUBLIC_AZURE_SPEECH_REGION ||
-    "";
-  const endpoint =
-    process.env.AZURE_SPEECH_ENDPOINT ||
-    process.env.SPEECH_ENDPOINT ||
-    process.env.NEXT_PUBLIC_AZURE_SPEECH_ENDPOINT ||
-    "";
-  return { key, region, endpoint };
-};
+import { resolveAzureSpeechConfig } from "@/lib/speech-assessment/azure-config";
 
 const deriveRegionFromEndpoint = (endpoint: string) => {
   try {
@@ -31,7 +13,7 @@ const deriveRegionFromEndpoint = (endpoint: string) => {
 };
 
 export async function GET() {
-  const { key, region, endpoint } = resolveSpeechConfig();
+  const { key, region, endpoint } = resolveAzureSpeechConfig();
   const endpointRegion = endpoint ? deriveRegionFromEndpoint(endpoint) : "";
   const resolvedRegion = endpointRegion || region;
   const tokenUrl = endpoint
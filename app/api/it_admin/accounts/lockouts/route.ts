@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import { unlockLoginLockout } from "@/lib/server/login-attempts";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const payload = (await request.json().catch(() => null)) as { lockoutId?: unknown } | null;
+  const lockoutId = Number(payload?.lockoutId);
+  if (!Number.isInteger(lockoutId) || lockoutId <= 0) {
+    return NextResponse.json({ success: false, error: "A valid lockoutId is required." }, { status: 400 });
+  }
+
+  try {
+    const unlocked = await runWithConnection((connection) =>
+      unlockLoginLockout(connection, lockoutId, auth.userId, resolveRequestIp(request)),
+    );
+    if (!unlocked) {
+      return NextResponse.json(
+        { success: false, error: "This lockout has already expired or been lifted." },
+        { status: 409 },
+      );
+    }
+    return NextResponse.json({ success: true, lockoutId });
+  } catch (error) {
+    console.error("Failed to unlock login lockout", error);
+    return NextResponse.json({ success: false, error: "Failed to unlock the account." }, { status: 500 });
+  }
+}
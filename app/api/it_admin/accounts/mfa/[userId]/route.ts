@@ -0,0 +1,117 @@
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveLoginRole } from "@/lib/server/login-sessions";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import { getTotpAccountStatus, resetUserTotp, setUserTotpRequired, type TotpAccountStatus } from "@/lib/server/totp-auth";
+
+export const dynamic = "force-dynamic";
+
+interface UserRow extends RowDataPacket {
+  user_id: number;
+  role: string | null;
+}
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+async function parseUserId(context: RouteContext): Promise<number | null> {
+  const { userId } = await context.params;
+  const parsed = Number(userId);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+async function loadStatus(connection: PoolConnection, userId: number): Promise<TotpAccountStatus | null> {
+  const [users] = await connection.execute<UserRow[]>("SELECT * FROM users WHERE user_id = ? LIMIT 1", [userId]);
+  if (!users[0]) {
+    return null;
+  }
+  const role = await resolveLoginRole(connection, users[0]);
+  return getTotpAccountStatus(connection, userId, role.canonicalRole);
+}
+
+export async function GET(request: NextRequest, context: RouteContext): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const userId = await parseUserId(context);
+  if (!userId) {
+    return NextResponse.json({ success: false, error: "A valid userId is required." }, { status: 400 });
+  }
+
+  try {
+    const status = await runWithConnection((connection) => loadStatus(connection, userId));
+    if (!status) {
+      return NextResponse.json({ success: false, error: "User not found." }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, status });
+  } catch (error) {
+    console.error("Failed to load authenticator status", error);
+    return NextResponse.json({ success: false, error: "Failed to load authenticator status." }, { status: 500 });
+  }
+}
+
+/** Requires (or stops requiring) an authenticator for this user on top of the role policy. */
+export async function PUT(request: NextRequest, context: RouteContext): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const userId = await parseUserId(context);
+  const payload = (await request.json().catch(() => null)) as { required?: unknown } | null;
+  if (!userId || typeof payload?.required !== "boolean") {
+    return NextResponse.json({ success: false, error: "A valid userId and required flag are needed." }, { status: 400 });
+  }
+  const required = payload.required;
+
+  try {
+    const status = await runWithConnection(async (connection) => {
+      const current = await loadStatus(connection, userId);
+      if (!current) {
+        return null;
+      }
+      await setUserTotpRequired(connection, userId, required, String(auth.userId), resolveRequestIp(request));
+      return loadStatus(connection, userId);
+    });
+    if (!status) {
+      return NextResponse.json({ success: false, error: "User not found." }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, status });
+  } catch (error) {
+    console.error("Failed to update authenticator requirement", error);
+    return NextResponse.json({ success: false, error: "Failed to update authenticator requirement." }, { status: 500 });
+  }
+}
+
+/** Resets a lost or compromised authenticator; the user sets up a new one at their next sign-in. */
+export async function DELETE(request: NextRequest, context: RouteContext): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const userId = await parseUserId(context);
+  if (!userId) {
+    return NextResponse.json({ success: false, error: "A valid userId is required." }, { status: 400 });
+  }
+
+  try {
+    const result = await runWithConnection(async (connection) => {
+      const reset = await resetUserTotp(connection, userId, String(auth.userId), resolveRequestIp(request));
+      return { reset, status: await loadStatus(connection, userId) };
+    });
+    if (!result.status) {
+      return NextResponse.json({ success: false, error: "User not found." }, { status: 404 });
+    }
+    if (!result.reset) {
+      return NextResponse.json(
+        { success: false, error: "This account has no authenticator to reset.", status: result.status },
+        { status: 409 },
+      );
+    }
+    return NextResponse.json({ success: true, status: result.status });
+  } catch (error) {
+    console.error("Failed to reset authenticator", error);
+    return NextResponse.json({ success: false, error: "Failed to reset authenticator." }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import { listTotpRolePolicies, setRoleTotpRequired } from "@/lib/server/totp-auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const policies = await runWithConnection((connection) => listTotpRolePolicies(connection));
+    return NextResponse.json({ success: true, policies });
+  } catch (error) {
+    console.error("Failed to load authenticator policy", error);
+    return NextResponse.json({ success: false, error: "Failed to load authenticator policy." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const payload = (await request.json().catch(() => null)) as { role?: unknown; totpRequired?: unknown } | null;
+  if (typeof payload?.role !== "string" || typeof payload.totpRequired !== "boolean") {
+    return NextResponse.json({ success: false, error: "role and totpRequired are required." }, { status: 400 });
+  }
+  const role = payload.role;
+  const totpRequired = payload.totpRequired;
+
+  try {
+    const policies = await runWithConnection(async (connection) => {
+      const updated = await setRoleTotpRequired(
+        connection,
+        role,
+        totpRequired,
+        String(auth.userId),
+        resolveRequestIp(request),
+      );
+      return updated ? listTotpRolePolicies(connection) : null;
+    });
+    if (!policies) {
+      return NextResponse.json(
+        { success: false, error: "The authenticator requirement for this role cannot be changed." },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ success: true, policies });
+  } catch (error) {
+    console.error("Failed to update authenticator policy", error);
+    return NextResponse.json({ success: false, error: "Failed to update authenticator policy." }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import {
+  deletePermissionRole,
+  parsePermissionRoleInput,
+  updatePermissionRole,
+} from "@/lib/server/it-admin-permission-roles";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ roleId: string }> };
+
+async function parseRoleId(context: RouteContext): Promise<number | null> {
+  const { roleId } = await context.params;
+  const parsed = Number(roleId);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+export async function PUT(request: NextRequest, context: RouteContext): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const roleId = await parseRoleId(context);
+  if (!roleId) {
+    return NextResponse.json({ success: false, error: "A valid roleId is required." }, { status: 400 });
+  }
+  const input = parsePermissionRoleInput(await request.json().catch(() => null));
+  if (typeof input === "string") {
+    return NextResponse.json({ success: false, error: input }, { status: 400 });
+  }
+
+  try {
+    const result = await runWithConnection((connection) =>
+      updatePermissionRole(connection, roleId, input, { userId: auth.userId, ipAddress: resolveRequestIp(request) }),
+    );
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, role: result.value });
+  } catch (error) {
+    console.error("Failed to update permission role", error);
+    return NextResponse.json({ success: false, error: "Failed to update permission role." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const roleId = await parseRoleId(context);
+  if (!roleId) {
+    return NextResponse.json({ success: false, error: "A valid roleId is required." }, { status: 400 });
+  }
+
+  try {
+    const result = await runWithConnection((connection) =>
+      deletePermissionRole(connection, roleId, { userId: auth.userId, ipAddress: resolveRequestIp(request) }),
+    );
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete permission role", error);
+    return NextResponse.json({ success: false, error: "Failed to delete permission role." }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { IT_ADMIN_PERMISSION_LABELS, IT_ADMIN_PERMISSIONS } from "@/lib/server/it-admin-permissions";
+import {
+  createPermissionRole,
+  listPermissionRoles,
+  parsePermissionRoleInput,
+} from "@/lib/server/it-admin-permission-roles";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+
+export const dynamic = "force-dynamic";
+
+const PERMISSION_CATALOG = IT_ADMIN_PERMISSIONS.map((permission) => ({
+  permission,
+  label: IT_ADMIN_PERMISSION_LABELS[permission],
+}));
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const roles = await runWithConnection((connection) => listPermissionRoles(connection));
+    return NextResponse.json({ success: true, roles, permissions: PERMISSION_CATALOG });
+  } catch (error) {
+    console.error("Failed to load permission roles", error);
+    return NextResponse.json({ success: false, error: "Failed to load permission roles." }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const input = parsePermissionRoleInput(await request.json().catch(() => null));
+  if (typeof input === "string") {
+    return NextResponse.json({ success: false, error: input }, { status: 400 });
+  }
+
+  try {
+    const result = await runWithConnection((connection) =>
+      createPermissionRole(connection, input, { userId: auth.userId, ipAddress: resolveRequestIp(request) }),
+    );
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, role: result.value }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create permission role", error);
+    return NextResponse.json({ success: false, error: "Failed to create permission role." }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { getUserPermissionAssignment, setUserPermissionRoles } from "@/lib/server/it-admin-permission-roles";
+import { resolveLoginRole } from "@/lib/server/login-sessions";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+
+export const dynamic = "force-dynamic";
+
+interface UserRow extends RowDataPacket {
+  user_id: number;
+  role: string | null;
+}
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+async function parseUserId(context: RouteContext): Promise<number | null> {
+  const { userId } = await context.params;
+  const parsed = Number(userId);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+/** Permission roles only apply to IT Admin accounts. */
+async function isItAdminAccount(connection: PoolConnection, userId: number): Promise<boolean> {
+  const [users] = await connection.execute<UserRow[]>("SELECT * FROM users WHERE user_id = ? LIMIT 1", [userId]);
+  if (!users[0]) {
+    return false;
+  }
+  const role = await resolveLoginRole(connection, users[0]);
+  return role.canonicalRole === "it_admin";
+}
+
+export async function GET(request: NextRequest, context: RouteContext): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const userId = await parseUserId(context);
+  if (!userId) {
+    return NextResponse.json({ success: false, error: "A valid userId is required." }, { status: 400 });
+  }
+
+  try {
+    const assignment = await runWithConnection(async (connection) =>
+      (await isItAdminAccount(connection, userId)) ? getUserPermissionAssignment(connection, userId) : null,
+    );
+    if (!assignment) {
+      return NextResponse.json({ success: false, error: "IT Admin account not found." }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, assignment });
+  } catch (error) {
+    console.error("Failed to load permission assignment", error);
+    return NextResponse.json({ success: false, error: "Failed to load permission roles." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest, context: RouteContext): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const userId = await parseUserId(context);
+  const payload = (await request.json().catch(() => null)) as { roleIds?: unknown } | null;
+  const roleIds = Array.isArray(payload?.roleIds) ? payload.roleIds.map(Number) : null;
+  if (!userId || !roleIds || roleIds.some((roleId) => !Number.isInteger(roleId) || roleId <= 0)) {
+    return NextResponse.json({ success: false, error: "userId and roleIds are required." }, { status: 400 });
+  }
+
+  try {
+    const result = await runWithConnection(async (connection) => {
+      if (!(await isItAdminAccount(connection, userId))) {
+        return { ok: false as const, status: 404, error: "IT Admin account not found." };
+      }
+      return setUserPermissionRoles(connection, userId, roleIds, {
+        userId: auth.userId,
+        ipAddress: resolveRequestIp(request),
+      });
+    });
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, assignment: result.value });
+  } catch (error) {
+    console.error("Failed to assign permission roles", error);
+    return NextResponse.json({ success: false, error: "Failed to assign permission roles." }, { status: 500 });
+  }
+}
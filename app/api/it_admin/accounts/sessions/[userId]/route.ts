@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import {
+  applySessionAction,
+  listAccountSessions,
+  listTrustedDevices,
+  parseSessionAction,
+} from "@/lib/server/device-sessions";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+async function parseUserId(context: RouteContext): Promise<number | null> {
+  const { userId } = await context.params;
+  const parsed = Number(userId);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+export async function GET(request: NextRequest, context: RouteContext): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const userId = await parseUserId(context);
+  if (!userId) {
+    return NextResponse.json({ success: false, error: "A valid userId is required." }, { status: 400 });
+  }
+
+  try {
+    const { sessions, devices } = await runWithConnection(async (connection) => ({
+      sessions: await listAccountSessions(connection, userId),
+      devices: await listTrustedDevices(connection, userId),
+    }));
+    return NextResponse.json({ success: true, sessions, devices });
+  } catch (error) {
+    console.error("Failed to load account devices and sessions", error);
+    return NextResponse.json({ success: false, error: "Failed to load devices and sessions." }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const userId = await parseUserId(context);
+  const action = parseSessionAction(await request.json().catch(() => null));
+  if (!userId || !action) {
+    return NextResponse.json({ success: false, error: "Invalid session action." }, { status: 400 });
+  }
+
+  try {
+    const applied = await runWithConnection((connection) =>
+      applySessionAction(connection, userId, action, { userId: auth.userId, ipAddress: resolveRequestIp(request) }),
+    );
+    if (!applied) {
+      return NextResponse.json(
+        { success: false, error: "This session or device has already been signed out." },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to revoke account session", error);
+    return NextResponse.json({ success: false, error: "Failed to sign out the account." }, { status: 500 });
+  }
+}
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { RowDataPacket } from "mysql2/promise";
+import { query, runWithConnection, tableExists } from "@/lib/db";
+import { fetchStudentByLrnAcrossSubjects, insertStudents } from "@/lib/students";
+import {
+  MAX_ROSTER_ROWS,
+  RosterImportError,
+  parseRosterSubjects,
+  readRosterWorkbook,
+  summarizeRosterReport,
+  validateRosterRows,
+  type RosterReportRow,
+  type RosterSectionConfig,
+} from "@/lib/students/roster-import";
+import type { CreateStudentRecordInput, StudentSubject } from "@/lib/students/shared";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp, writeSecurityAuditLog } from "@/lib/server/security-audit";
+
+export const dynamic = "force-dynamic";
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const SECTION_TABLE = "it_admin_grade_sections";
+
+const respondWithError = (message: string, status = 400) =>
+  NextResponse.json({ success: false, error: message }, { status });
+
+const readFormString = (value: FormDataEntryValue | null): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length ? trimmed : null;
+};
+
+const loadSectionConfig = async (): Promise<RosterSectionConfig> => {
+  if (!(await tableExists(SECTION_TABLE))) {
+    return {};
+  }
+  const [rows] = await query<RowDataPacket[]>(`SELECT grade_level, section_name FROM ${SECTION_TABLE}`);
+  const config: RosterSectionConfig = {};
+  for (const row of rows) {
+    const grade = String(row.grade_level ?? "").trim();
+    const section = String(row.section_name ?? "").trim();
+    if (!grade || !section) continue;
+    (config[grade] ??= []).push(section);
+  }
+  return config;
+};
+
+const toReportRow = (row: RosterReportRow): Omit<RosterReportRow, "record"> => ({
+  rowNumber: row.rowNumber,
+  status: row.status,
+  lrn: row.lrn,
+  fullName: row.fullName,
+  gradeLevel: row.gradeLevel,
+  section: row.section,
+  subjects: row.subjects,
+  guardianName: row.guardianName,
+  errors: row.errors,
+  warnings: row.warnings,
+  existingStudentId: row.existingStudentId,
+});
+
+export async function POST(request: NextRequest) {
+  const auth = await requireItAdmin(request, { permission: "it_admin:accounts.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const formData = await request.formData().catch(() => null);
+  const file = formData?.get("file");
+  if (!formData || !file || typeof file === "string") {
+    return respondWithError("Choose an SF1 or LIS Excel file to import.");
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return respondWithError("Roster files are limited to 10 MB.", 413);
+  }
+
+  const dryRun = readFormString(formData.get("dryRun")) !== "false";
+  const defaultSubjects = parseRosterSubjects(readFormString(formData.get("subjects")) ?? "");
+  if (defaultSubjects.unknown.length > 0) {
+    return respondWithError(`Unknown subject(s): ${defaultSubjects.unknown.join(", ")}.`);
+  }
+
+  let rows: RosterReportRow[];
+  try {
+    const sheet = readRosterWorkbook(Buffer.from(await file.arrayBuffer()));
+    if (sheet.rows.length === 0) {
+      return respondWithError("The learner table has no rows.");
+    }
+    if (sheet.rows.length > MAX_ROSTER_ROWS) {
+      return respondWithError(`Roster files are limited to ${MAX_ROSTER_ROWS} learners per import.`);
+    }
+
+    const sections = await loadSectionConfig();
+    if (Object.keys(sections).length === 0) {
+      return respondWithError("No grade sections are configured. Set them up before importing students.", 409);
+    }
+
+    rows = validateRosterRows(sheet, sections, {
+      gradeLevel: readFormString(formData.get("gradeLevel")),
+      section: readFormString(formData.get("section")),
+      subjects: defaultSubjects.subjects,
+    });
+
+    for (const row of rows) {
+      if (row.status !== "valid" || !row.lrn) continue;
+      const existing = await fetchStudentByLrnAcrossSubjects(row.lrn);
+      if (existing) {
+        row.status = "duplicate";
+        row.existingStudentId = existing.id;
+        row.errors.push(`A student with this LRN already exists (${existing.fullName}).`);
+        row.record = null;
+      }
+    }
+  } catch (error) {
+    if (error instanceof RosterImportError) {
+      return respondWithError(error.message);
+    }
+    console.error("Failed to read student roster", error);
+    return respondWithError("Unable to read the roster file.", 500);
+  }
+
+  const summary = summarizeRosterReport(rows);
+  if (dryRun) {
+    return NextResponse.json({ success: true, dryRun: true, summary, rows: rows.map(toReportRow) });
+  }
+  if (summary.valid === 0) {
+    return respondWithError("There are no valid learners to import.");
+  }
+
+  const bySubject = new Map<StudentSubject, CreateStudentRecordInput[]>();
+  for (const row of rows) {
+    if (row.status !== "valid" || !row.record) continue;
+    for (const subject of row.subjects) {
+      const list = bySubject.get(subject) ?? [];
+      list.push(row.record);
+      bySubject.set(subject, list);
+    }
+  }
+
+  // Every subject lands or none does, so a failure never leaves the roster half-imported.
+  const requestTime = new Date();
+  try {
+    await runWithConnection(async (connection) => {
+      await connection.beginTransaction();
+      try {
+        for (const [subject, records] of bySubject) {
+          await insertStudents(auth.userId, subject, records, { requestTime, connection });
+        }
+        await connection.commit();
+      } catch (error) {
+        await connection.rollback();
+        throw error;
+      }
+    });
+  } catch (error) {
+    console.error("Failed to import student roster", error);
+    const message = error instanceof Error ? error.message : "Unable to save the imported students.";
+    return respondWithError(message, 500);
+  }
+
+  await runWithConnection((connection) =>
+    writeSecurityAuditLog(connection, {
+      action: "student_roster_imported",
+      userId: auth.userId,
+      targetModule: "students",
+      ipAddress: resolveRequestIp(request),
+      details: {
+        fileName: file.name,
+        summary,
+        subjects: Array.from(bySubject, ([subject, records]) => ({ subject, count: records.length })),
+      },
+    }),
+  ).catch((error) => console.error("Failed to audit student roster import", error));
+
+  return NextResponse.json({
+    success: true,
+    dryRun: false,
+    imported: summary.valid,
+    summary,
+    rows: rows.map(toReportRow),
+  });
+}
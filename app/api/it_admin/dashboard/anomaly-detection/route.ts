@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import type { RowDataPacket } from "mysql2/promise";
-import { getTableColumns, query, tableExists } from "@/lib/db";
+import { getTableColumns, query, runWithConnection, tableExists } from "@/lib/db";
 import {
   buildDayBuckets,
   computeZScoreAnomalies,
@@ -9,6 +9,7 @@ import {
   toSqlDateTime,
 } from "@/lib/server/it-admin-dashboard";
 import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { countLockoutsByDay, listLoginLockouts, type LoginLockout } from "@/lib/server/login-attempts";
 
 export const dynamic = "force-dynamic";
 
@@ -42,6 +43,17 @@ async function getLoginSeries(start: Date, end: Date) {
   }));
 }
 
+async function getLockoutData(start: Date, end: Date) {
+  return runWithConnection(async (connection) => {
+    const series = await countLockoutsByDay(connection, toSqlDateTime(start), toSqlDateTime(end));
+    const events = await listLoginLockouts(connection, { start: toSqlDateTime(start), end: toSqlDateTime(end) });
+    return {
+      series: series.map((row) => ({ key: row.key, label: row.key, metricName: "lockout_count", value: row.value })),
+      events,
+    };
+  });
+}
+
 async function getResponseSeries(start: Date, end: Date, endpoint: string, statusFilter: string) {
   const source = await findPerformanceLogSource();
   if (!source) return [] as Array<{ key: string; label: string; metricName: string; value: number }>;
@@ -102,12 +114,19 @@ export async function GET(request: NextRequest) {
     const loginSeries = anomalyType === "all" || anomalyType === "logins" ? await getLoginSeries(dateRange.start, dateRange.end) : [];
     const responseSeries = anomalyType === "all" || anomalyType === "response" ? await getResponseSeries(dateRange.start, dateRange.end, endpoint, statusFilter) : [];
 
-    const baseSeries = responseSeries.length > 0 ? responseSeries : loginSeries;
+    const lockoutData =
+      anomalyType === "all" || anomalyType === "lockouts"
+        ? await getLockoutData(dateRange.start, dateRange.end)
+        : { series: [], events: [] as LoginLockout[] };
+
+    const baseSeries =
+      anomalyType === "lockouts" ? lockoutData.series : responseSeries.length > 0 ? responseSeries : loginSeries;
 
     if (baseSeries.length === 0) {
       return NextResponse.json({
         data: [],
         empty: true,
+        lockouts: lockoutData.events,
         message: "No anomaly source data found for selected filters.",
       });
     }
@@ -132,6 +151,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       data,
       empty: data.length === 0,
+      lockouts: lockoutData.events,
       meta: {
         anomalyType,
       },
@@ -142,6 +162,7 @@ export async function GET(request: NextRequest) {
       {
         data: [],
         empty: true,
+        lockouts: [],
         error: "Failed to load anomaly detection data.",
       },
       { status: 500 },
@@ -2,8 +2,12 @@ import { NextRequest, NextResponse } from "next/server";
 import { runWithConnection } from "@/lib/db";
 import { requireItAdmin } from "@/lib/server/it-admin-auth";
 import {
-  activateEmergencyAccess,
+  EMERGENCY_SCOPE_MAX_MINUTES,
+  isEmergencyTargetRole,
+  listEmergencyScopes,
   mapEmergencyAccessResponse,
+  parseEmergencyScopes,
+  requestEmergencyAccess,
   validateEmergencyReason,
   writeEmergencyAuditLog,
 } from "@/lib/server/emergency-access";
@@ -11,13 +15,27 @@ import { resolveRequestIp } from "@/lib/server/security-audit";
 
 export const dynamic = "force-dynamic";
 
+/** Older clients send one `expires_at` for the Principal's Calendars and Requests. */
+function legacyScopes(expiresAt: unknown): Array<{ module: string; duration_minutes?: number }> {
+  const parsed = typeof expiresAt === "string" && expiresAt.trim() ? new Date(expiresAt) : null;
+  const minutes = parsed && !Number.isNaN(parsed.getTime())
+    ? Math.min(EMERGENCY_SCOPE_MAX_MINUTES, Math.max(15, Math.round((parsed.getTime() - Date.now()) / 60000)))
+    : undefined;
+  return ["Calendars", "Requests"].map((module) => ({ module, duration_minutes: minutes }));
+}
+
 export async function POST(request: NextRequest) {
   const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
   if (!auth.ok) {
     return auth.response;
   }
 
-  const body = (await request.json().catch(() => null)) as { reason?: unknown; expires_at?: unknown } | null;
+  const body = (await request.json().catch(() => null)) as {
+    reason?: unknown;
+    target_role?: unknown;
+    scopes?: unknown;
+    expires_at?: unknown;
+  } | null;
   const reason = validateEmergencyReason(body?.reason);
 
   if (!reason) {
@@ -27,26 +45,35 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  const expiresAt = typeof body?.expires_at === "string" ? body.expires_at.trim() : null;
+  const targetRole = body?.target_role === undefined ? "Principal" : body.target_role;
+  if (!isEmergencyTargetRole(targetRole)) {
+    return NextResponse.json({ success: false, error: "Unsupported role for emergency access." }, { status: 400 });
+  }
+  const scopes = parseEmergencyScopes(targetRole, body?.scopes === undefined ? legacyScopes(body?.expires_at) : body.scopes);
+  if (typeof scopes === "string") {
+    return NextResponse.json({ success: false, error: scopes }, { status: 400 });
+  }
+
   const ipAddress = resolveRequestIp(request);
 
   try {
     return await runWithConnection(async (connection) => {
-      const result = await activateEmergencyAccess(connection, auth.userId, reason, expiresAt);
+      const result = await requestEmergencyAccess(connection, auth.userId, { reason, targetRole, scopes });
+      const sessionScopes = await listEmergencyScopes(connection, Number(result.session.emergency_access_id));
 
       if (!result.created) {
         return NextResponse.json(
           {
             success: false,
-            error: "An emergency access session is already active.",
-            emergency_access: mapEmergencyAccessResponse(result.session),
+            error: "An emergency access session is already active or awaiting approval.",
+            emergency_access: mapEmergencyAccessResponse(result.session, sessionScopes),
           },
           { status: 409 },
         );
       }
 
       await writeEmergencyAuditLog(connection, {
-        action: "EMERGENCY_ACCESS_ACTIVATED",
+        action: "EMERGENCY_ACCESS_REQUESTED",
         userId: auth.userId,
         emergencyAccessId: Number(result.session.emergency_access_id),
         targetModule: "EmergencyAccess",
@@ -54,20 +81,22 @@ export async function POST(request: NextRequest) {
         ipAddress,
         details: {
           performed_by_role: "IT Admin",
-          activated_for_role: "Principal",
-          scope_modules: ["Calendars", "Requests"],
+          activated_for_role: targetRole,
+          scopes: scopes.map((scope) => ({ module: scope.module, duration_minutes: scope.durationMinutes })),
           reason,
-          expires_at: result.session.expires_at ? String(result.session.expires_at) : null,
         },
       });
 
-      return NextResponse.json({
-        success: true,
-        emergency_access: mapEmergencyAccessResponse(result.session),
-      });
+      return NextResponse.json(
+        {
+          success: true,
+          emergency_access: mapEmergencyAccessResponse(result.session, sessionScopes),
+        },
+        { status: 202 },
+      );
     });
   } catch (error) {
-    console.error("Failed to activate emergency access", error);
-    return NextResponse.json({ success: false, error: "Unable to activate emergency access." }, { status: 500 });
+    console.error("Failed to request emergency access", error);
+    return NextResponse.json({ success: false, error: "Unable to request emergency access." }, { status: 500 });
   }
 }
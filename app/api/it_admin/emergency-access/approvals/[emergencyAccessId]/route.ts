@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { decideEmergencyAccess, mapEmergencyAccessResponse } from "@/lib/server/emergency-access";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ emergencyAccessId: string }> },
+) {
+  const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { emergencyAccessId: rawId } = await params;
+  const emergencyAccessId = Number(rawId);
+  const body = (await request.json().catch(() => null)) as { decision?: unknown; note?: unknown } | null;
+  const decision = body?.decision === "approve" || body?.decision === "reject" ? body.decision : null;
+  if (!Number.isInteger(emergencyAccessId) || emergencyAccessId <= 0 || !decision) {
+    return NextResponse.json(
+      { success: false, error: "A valid emergency access id and decision are required." },
+      { status: 400 },
+    );
+  }
+  const note = typeof body?.note === "string" ? body.note.trim().slice(0, 255) || null : null;
+
+  try {
+    const result = await runWithConnection((connection) =>
+      decideEmergencyAccess(connection, emergencyAccessId, { userId: auth.userId, role: "IT Admin" }, decision, note),
+    );
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, emergency_access: mapEmergencyAccessResponse(result.session) });
+  } catch (error) {
+    console.error("Failed to decide emergency access request", error);
+    return NextResponse.json({ success: false, error: "Unable to record the decision." }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import {
+  listEmergencyScopes,
+  listPendingEmergencyApprovals,
+  mapEmergencyAccessResponse,
+} from "@/lib/server/emergency-access";
+
+export const dynamic = "force-dynamic";
+
+/** Emergency requests from other IT Admins waiting for a second approver. */
+export async function GET(request: NextRequest) {
+  const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    return await runWithConnection(async (connection) => {
+      const pending = await listPendingEmergencyApprovals(connection);
+      const approvals = [];
+      for (const session of pending) {
+        approvals.push({
+          ...mapEmergencyAccessResponse(session, await listEmergencyScopes(connection, Number(session.emergency_access_id))),
+          requested_by_user_id: Number(session.activated_by_user_id),
+          own_request: Number(session.activated_by_user_id) === auth.userId,
+        });
+      }
+      return NextResponse.json({ success: true, approvals });
+    });
+  } catch (error) {
+    console.error("Failed to load emergency approvals", error);
+    return NextResponse.json({ success: false, error: "Unable to load emergency approvals." }, { status: 500 });
+  }
+}
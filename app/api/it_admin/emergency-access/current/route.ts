@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runWithConnection } from "@/lib/db";
 import { requireItAdmin } from "@/lib/server/it-admin-auth";
-import { getActiveEmergencyAccessByUserId, mapEmergencyAccessResponse } from "@/lib/server/emergency-access";
+import {
+  EMERGENCY_SCOPE_CATALOG,
+  getActiveEmergencyAccessByUserId,
+  getPendingEmergencyAccessByUserId,
+  listEmergencyScopes,
+  mapEmergencyAccessResponse,
+} from "@/lib/server/emergency-access";
 
 export const dynamic = "force-dynamic";
 
@@ -13,10 +19,14 @@ export async function GET(request: NextRequest) {
 
   try {
     return await runWithConnection(async (connection) => {
-      const session = await getActiveEmergencyAccessByUserId(connection, auth.userId);
+      const session =
+        (await getActiveEmergencyAccessByUserId(connection, auth.userId)) ??
+        (await getPendingEmergencyAccessByUserId(connection, auth.userId));
+      const scopes = session ? await listEmergencyScopes(connection, Number(session.emergency_access_id)) : [];
       return NextResponse.json({
         success: true,
-        emergency_access: mapEmergencyAccessResponse(session),
+        emergency_access: mapEmergencyAccessResponse(session, scopes),
+        scope_catalog: EMERGENCY_SCOPE_CATALOG,
       });
     });
   } catch (error) {
@@ -26,7 +26,7 @@ export async function POST(request: NextRequest) {
       const deactivated = await deactivateEmergencyAccess(connection, auth.userId, emergencyAccessId);
       if (!deactivated) {
         return NextResponse.json(
-          { success: false, error: "No active emergency session found for this IT Admin." },
+          { success: false, error: "No active or pending emergency session found for this IT Admin." },
           { status: 404 },
         );
       }
@@ -41,7 +41,6 @@ export async function POST(request: NextRequest) {
         details: {
           performed_by_role: "IT Admin",
           performed_via: "Emergency Access",
-          deactivated_for_role: "Principal",
         },
       });
 
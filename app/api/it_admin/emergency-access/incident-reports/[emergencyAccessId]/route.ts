@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { buildEmergencyIncidentReport } from "@/lib/server/emergency-access";
+
+export const dynamic = "force-dynamic";
+
+/** Post-incident report: every audited action taken under one emergency session. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ emergencyAccessId: string }> },
+) {
+  const auth = await requireItAdmin(request, { permission: "it_admin:logs.view" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { emergencyAccessId: rawId } = await params;
+  const emergencyAccessId = Number(rawId);
+  if (!Number.isInteger(emergencyAccessId) || emergencyAccessId <= 0) {
+    return NextResponse.json({ success: false, error: "A valid emergency access id is required." }, { status: 400 });
+  }
+
+  try {
+    const report = await runWithConnection((connection) => buildEmergencyIncidentReport(connection, emergencyAccessId));
+    if (!report) {
+      return NextResponse.json({ success: false, error: "Emergency session not found." }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("Failed to build emergency incident report", error);
+    return NextResponse.json({ success: false, error: "Unable to build the incident report." }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { listRecentEmergencySessions, mapEmergencyAccessResponse } from "@/lib/server/emergency-access";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const auth = await requireItAdmin(request, { permission: "it_admin:logs.view" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const sessions = await runWithConnection((connection) => listRecentEmergencySessions(connection));
+    return NextResponse.json({
+      success: true,
+      sessions: sessions.map((session) => ({
+        ...mapEmergencyAccessResponse(session),
+        requested_by_user_id: Number(session.activated_by_user_id),
+        deactivated_at: session.deactivated_at ? String(session.deactivated_at) : null,
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to load emergency sessions", error);
+    return NextResponse.json({ success: false, error: "Unable to load emergency sessions." }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GET as BaseGet, PATCH as BasePatch } from "@/app/api/remedial-materials/route";
+import { runWithConnection } from "@/lib/db";
+import { writeEmergencyAuditLog } from "@/lib/server/emergency-access";
+import { requireEmergencyScope } from "@/lib/server/emergency-guard";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+
+export const dynamic = "force-dynamic";
+
+/** Material approvals normally done by the grade coordinator (Master Teacher). */
+export async function GET(request: NextRequest) {
+  const access = await requireEmergencyScope(request, "Master Teacher", "Materials");
+  if (!access.ok) {
+    return access.response;
+  }
+  return BaseGet(request);
+}
+
+export async function PATCH(request: NextRequest) {
+  const access = await requireEmergencyScope(request, "Master Teacher", "Materials");
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const body = (await request.clone().json().catch(() => null)) as {
+    id?: number | string;
+    status?: string;
+    rejectionReason?: string | null;
+  } | null;
+  const response = await BasePatch(request);
+  if (!response.ok) {
+    return response;
+  }
+
+  try {
+    await runWithConnection((connection) =>
+      writeEmergencyAuditLog(connection, {
+        action: "EMERGENCY_MATERIAL_REVIEWED",
+        userId: access.userId,
+        emergencyAccessId: access.emergencyAccessId,
+        targetModule: "Materials",
+        targetRecordId: body?.id ?? null,
+        ipAddress: resolveRequestIp(request),
+        details: {
+          performed_by_role: "IT Admin",
+          performed_via: "Emergency Access",
+          acting_for_role: "Master Teacher",
+          new_status: body?.status ?? null,
+          rejection_reason: body?.rejectionReason ?? null,
+        },
+      }),
+    );
+  } catch (error) {
+    console.error("Failed to audit emergency material review", error);
+    return NextResponse.json(
+      { success: false, error: "The material was updated but the emergency audit entry could not be written." },
+      { status: 500 },
+    );
+  }
+  return response;
+}
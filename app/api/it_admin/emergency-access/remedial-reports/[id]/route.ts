@@ -0,0 +1,36 @@
+import { NextRequest } from "next/server";
+import { GET as BaseGet } from "@/app/api/principal/reports/remedial/[id]/route";
+import { runWithConnection } from "@/lib/db";
+import { writeEmergencyAuditLog } from "@/lib/server/emergency-access";
+import { requireEmergencyScope } from "@/lib/server/emergency-guard";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const access = await requireEmergencyScope(request, "Principal", "Reports");
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const response = await BaseGet(request, context);
+  if (response.ok) {
+    const { id } = await context.params;
+    await runWithConnection((connection) =>
+      writeEmergencyAuditLog(connection, {
+        action: "EMERGENCY_REPORT_REVIEWED",
+        userId: access.userId,
+        emergencyAccessId: access.emergencyAccessId,
+        targetModule: "Reports",
+        targetRecordId: id,
+        ipAddress: resolveRequestIp(request),
+        details: {
+          performed_by_role: "IT Admin",
+          performed_via: "Emergency Access",
+          acting_for_role: "Principal",
+        },
+      }),
+    );
+  }
+  return response;
+}
@@ -0,0 +1,13 @@
+import { NextRequest } from "next/server";
+import { GET as BaseGet } from "@/app/api/principal/reports/remedial/route";
+import { requireEmergencyScope } from "@/lib/server/emergency-guard";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const access = await requireEmergencyScope(request, "Principal", "Reports");
+  if (!access.ok) {
+    return access.response;
+  }
+  return BaseGet(request);
+}
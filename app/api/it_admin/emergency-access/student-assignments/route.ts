@@ -0,0 +1,21 @@
+import { NextRequest } from "next/server";
+import {
+  GET as BaseGet,
+  POST as BasePost,
+} from "@/app/api/master_teacher/coordinator/student-assignments/route";
+import { requireEmergencyScope } from "@/lib/server/emergency-guard";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const access = await requireEmergencyScope(request, "Master Teacher", "StudentAssignments");
+  if (!access.ok) {
+    return access.response;
+  }
+  return BaseGet(request);
+}
+
+// The coordinator route admits emergency IT Admins itself and audits the saved assignments.
+export async function POST(request: NextRequest) {
+  return BasePost(request);
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import {
+  DatabaseBackupError,
+  getBackup,
+  previewBackupRestore,
+  restoreDatabaseBackup,
+  writeBackupAuditLog,
+} from "@/lib/server/database-backup";
+
+export const dynamic = "force-dynamic";
+
+type RestorePayload = {
+  dryRun?: boolean;
+  diffToken?: string;
+  reason?: string;
+};
+
+/**
+ * `{ dryRun: true }` returns the per-table diff and a `diffToken`. Sending
+ * that token back with a reason performs the restore; it is refused if the
+ * database has moved on since the preview.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ backupId: string }> },
+): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:data.restore" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { backupId: rawId } = await params;
+  const backupId = Number(rawId);
+  if (!Number.isInteger(backupId) || backupId <= 0) {
+    return NextResponse.json({ success: false, error: "Invalid backup id." }, { status: 400 });
+  }
+
+  const payload = (await request.json().catch(() => null)) as RestorePayload | null;
+  const dryRun = payload?.dryRun === true;
+  const diffToken = typeof payload?.diffToken === "string" ? payload.diffToken.trim() : "";
+  const reason = typeof payload?.reason === "string" ? payload.reason.trim() : "";
+  if (!dryRun) {
+    if (!diffToken) {
+      return NextResponse.json({ success: false, error: "Run a dry-run preview before restoring." }, { status: 400 });
+    }
+    if (!reason || reason.length > 500) {
+      return NextResponse.json(
+        { success: false, error: "A reason of up to 500 characters is required to restore." },
+        { status: 400 },
+      );
+    }
+  }
+
+  const ipAddress = resolveRequestIp(request);
+  const backup = await getBackup(backupId).catch(() => null);
+  if (!backup) {
+    return NextResponse.json({ success: false, error: "Backup not found." }, { status: 404 });
+  }
+
+  try {
+    if (dryRun) {
+      const preview = await previewBackupRestore(backup);
+      await writeBackupAuditLog({
+        action: "database_restore_previewed",
+        userId: auth.userId,
+        ipAddress,
+        backupId,
+        details: { version: backup.version, totals: preview.totals },
+      });
+      return NextResponse.json({ success: true, preview });
+    }
+
+    const result = await restoreDatabaseBackup(backup, { diffToken, restoredBy: auth.userId });
+    await writeBackupAuditLog({
+      action: "database_restore_completed",
+      userId: auth.userId,
+      ipAddress,
+      backupId,
+      details: {
+        version: backup.version,
+        reason,
+        safetyBackupVersion: result.safetyBackup.version,
+        tables: result.restoredTables.map((table) => ({
+          table: table.table,
+          rowsInserted: table.rowsToInsert,
+          rowsDeleted: table.rowsToDelete,
+        })),
+      },
+    });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    const message = error instanceof DatabaseBackupError ? error.message : "Database restore failed and was rolled back.";
+    if (!(error instanceof DatabaseBackupError)) {
+      console.error("Database restore failed", error);
+    }
+    await writeBackupAuditLog({
+      action: dryRun ? "database_restore_preview_failed" : "database_restore_failed",
+      userId: auth.userId,
+      ipAddress,
+      backupId,
+      details: { version: backup.version, reason: reason || null, error: message },
+    }).catch(() => undefined);
+    const status = error instanceof DatabaseBackupError ? error.status : 500;
+    return NextResponse.json({ success: false, error: message }, { status });
+  }
+}
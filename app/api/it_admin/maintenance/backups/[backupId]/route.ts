@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import {
+  DatabaseBackupError,
+  getBackup,
+  renderBackupDownload,
+  writeBackupAuditLog,
+  type BackupDownloadFormat,
+} from "@/lib/server/database-backup";
+
+export const dynamic = "force-dynamic";
+
+const DOWNLOAD_FORMATS = new Set<BackupDownloadFormat>(["archive", "sql", "csv"]);
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ backupId: string }> },
+): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { backupId: rawId } = await params;
+  const backupId = Number(rawId);
+  if (!Number.isInteger(backupId) || backupId <= 0) {
+    return NextResponse.json({ success: false, error: "Invalid backup id." }, { status: 400 });
+  }
+  const format = (request.nextUrl.searchParams.get("format") ?? "archive") as BackupDownloadFormat;
+  if (!DOWNLOAD_FORMATS.has(format)) {
+    return NextResponse.json({ success: false, error: "Format must be archive, sql, or csv." }, { status: 400 });
+  }
+
+  try {
+    const backup = await getBackup(backupId);
+    if (!backup) {
+      return NextResponse.json({ success: false, error: "Backup not found." }, { status: 404 });
+    }
+
+    const download = await renderBackupDownload(backup, format);
+    await writeBackupAuditLog({
+      action: "database_backup_downloaded",
+      userId: auth.userId,
+      ipAddress: resolveRequestIp(request),
+      backupId,
+      details: { version: backup.version, format, fileName: download.fileName },
+    });
+
+    return new Response(new Uint8Array(download.body), {
+      headers: {
+        "Content-Type": download.contentType,
+        "Content-Disposition": `attachment; filename="${download.fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof DatabaseBackupError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error("Failed to download database backup", error);
+    return NextResponse.json({ success: false, error: "Failed to download database backup." }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import { DatabaseBackupError, importBackupArchive, writeBackupAuditLog } from "@/lib/server/database-backup";
+
+export const dynamic = "force-dynamic";
+
+const MAX_IMPORT_BYTES = 512 * 1024 * 1024;
+
+export async function POST(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const formData = await request.formData().catch(() => null);
+  const file = formData?.get("file");
+  if (!file || typeof file === "string") {
+    return NextResponse.json({ success: false, error: "Choose a backup archive to import." }, { status: 400 });
+  }
+  if (file.size > MAX_IMPORT_BYTES) {
+    return NextResponse.json({ success: false, error: "Backup archives are limited to 512 MB." }, { status: 413 });
+  }
+
+  const ipAddress = resolveRequestIp(request);
+  try {
+    const backup = await importBackupArchive(Buffer.from(await file.arrayBuffer()), auth.userId);
+    await writeBackupAuditLog({
+      action: "database_backup_imported",
+      userId: auth.userId,
+      ipAddress,
+      backupId: backup.backupId,
+      details: {
+        originalName: file.name,
+        version: backup.version,
+        checksum: backup.checksum,
+        tableCount: backup.tableCount,
+        rowCount: backup.rowCount,
+      },
+    });
+    return NextResponse.json({ success: true, backup });
+  } catch (error) {
+    const message = error instanceof DatabaseBackupError ? error.message : "Failed to import the backup archive.";
+    if (!(error instanceof DatabaseBackupError)) {
+      console.error("Failed to import backup archive", error);
+    }
+    await writeBackupAuditLog({
+      action: "database_backup_import_failed",
+      userId: auth.userId,
+      ipAddress,
+      details: { originalName: file.name, error: message },
+    }).catch(() => undefined);
+    const status = error instanceof DatabaseBackupError ? error.status : 500;
+    return NextResponse.json({ success: false, error: message }, { status });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import {
+  DatabaseBackupError,
+  createDatabaseBackup,
+  getBackupSettings,
+  listBackups,
+  writeBackupAuditLog,
+} from "@/lib/server/database-backup";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const [backups, settings] = await Promise.all([listBackups(), getBackupSettings()]);
+    return NextResponse.json({ success: true, backups, settings });
+  } catch (error) {
+    console.error("Failed to load database backups", error);
+    return NextResponse.json({ success: false, error: "Failed to load database backups." }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const ipAddress = resolveRequestIp(request);
+  try {
+    const { backup, expired } = await createDatabaseBackup("manual", auth.userId);
+    await writeBackupAuditLog({
+      action: "database_backup_created",
+      userId: auth.userId,
+      ipAddress,
+      backupId: backup.backupId,
+      details: {
+        trigger: backup.trigger,
+        version: backup.version,
+        checksum: backup.checksum,
+        tableCount: backup.tableCount,
+        rowCount: backup.rowCount,
+        expiredVersions: expired.map((entry) => entry.version),
+      },
+    });
+    return NextResponse.json({ success: true, backup, expired });
+  } catch (error) {
+    console.error("Failed to create database backup", error);
+    const message = error instanceof DatabaseBackupError ? error.message : "Failed to create database backup.";
+    await writeBackupAuditLog({
+      action: "database_backup_failed",
+      userId: auth.userId,
+      ipAddress,
+      details: { trigger: "manual", error: message },
+    }).catch(() => undefined);
+    const status = error instanceof DatabaseBackupError ? error.status : 500;
+    return NextResponse.json({ success: false, error: message }, { status });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import { runScheduledBackupIfDue, writeBackupAuditLog } from "@/lib/server/database-backup";
+import { hasSchedulerSecret } from "@/lib/server/scheduler-secret";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * An external scheduler can call this with `Authorization: Bearer
+ * <DB_BACKUP_CRON_SECRET>`. The settings page also calls it when it sees the
+ * schedule is due, so auto-backups still run without a cron job.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  let actor: string | number = "scheduler";
+  if (!hasSchedulerSecret(request, "DB_BACKUP_CRON_SECRET")) {
+    const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+    if (!auth.ok) {
+      return auth.response;
+    }
+    actor = auth.userId;
+  }
+
+  const ipAddress = resolveRequestIp(request);
+  try {
+    const result = await runScheduledBackupIfDue(actor);
+    if (!result) {
+      return NextResponse.json({ success: true, ran: false });
+    }
+    await writeBackupAuditLog({
+      action: "database_backup_created",
+      userId: actor,
+      ipAddress,
+      backupId: result.backup.backupId,
+      details: {
+        trigger: result.backup.trigger,
+        version: result.backup.version,
+        checksum: result.backup.checksum,
+        tableCount: result.backup.tableCount,
+        rowCount: result.backup.rowCount,
+        expiredVersions: result.expired.map((entry) => entry.version),
+      },
+    });
+    return NextResponse.json({ success: true, ran: true, backup: result.backup, expired: result.expired });
+  } catch (error) {
+    console.error("Scheduled database backup failed", error);
+    await writeBackupAuditLog({
+      action: "database_backup_failed",
+      userId: actor,
+      ipAddress,
+      details: { trigger: "scheduled", error: error instanceof Error ? error.message : String(error) },
+    }).catch(() => undefined);
+    return NextResponse.json({ success: false, error: "Scheduled database backup failed." }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import {
+  BACKUP_RETENTION_OPTIONS,
+  getBackupSettings,
+  normalizeBackupSettings,
+  saveBackupSettings,
+  writeBackupAuditLog,
+} from "@/lib/server/database-backup";
+
+export const dynamic = "force-dynamic";
+
+type SettingsPayload = {
+  autoBackup?: boolean;
+  schedule?: string;
+  retentionDays?: number | string;
+  exportFormat?: string;
+};
+
+export async function PUT(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const payload = (await request.json().catch(() => null)) as SettingsPayload | null;
+  if (!payload) {
+    return NextResponse.json({ success: false, error: "Invalid JSON payload." }, { status: 400 });
+  }
+  if (payload.schedule !== "daily" && payload.schedule !== "weekly") {
+    return NextResponse.json({ success: false, error: "Schedule must be daily or weekly." }, { status: 400 });
+  }
+  if (!BACKUP_RETENTION_OPTIONS.some((option) => option === Number(payload.retentionDays))) {
+    return NextResponse.json(
+      { success: false, error: `Retention must be one of ${BACKUP_RETENTION_OPTIONS.join(", ")} days.` },
+      { status: 400 },
+    );
+  }
+  if (payload.exportFormat !== "sql" && payload.exportFormat !== "csv") {
+    return NextResponse.json({ success: false, error: "Export format must be SQL or CSV." }, { status: 400 });
+  }
+
+  try {
+    const previous = await getBackupSettings();
+    const saved = await saveBackupSettings(normalizeBackupSettings(payload), auth.userId);
+    await writeBackupAuditLog({
+      action: "database_backup_settings_updated",
+      userId: auth.userId,
+      ipAddress: resolveRequestIp(request),
+      details: {
+        previous: {
+          autoBackup: previous.autoBackup,
+          schedule: previous.schedule,
+          retentionDays: previous.retentionDays,
+          exportFormat: previous.exportFormat,
+        },
+        next: saved,
+      },
+    });
+    const settings = await getBackupSettings();
+    return NextResponse.json({ success: true, settings });
+  } catch (error) {
+    console.error("Failed to save backup settings", error);
+    return NextResponse.json({ success: false, error: "Failed to save backup settings." }, { status: 500 });
+  }
+}
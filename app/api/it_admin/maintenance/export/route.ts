@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import { exportDatabaseAsSql, writeBackupAuditLog } from "@/lib/server/database-backup";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const ipAddress = resolveRequestIp(request);
+  try {
+    const dump = await exportDatabaseAsSql();
+    await writeBackupAuditLog({
+      action: "database_exported",
+      userId: auth.userId,
+      ipAddress,
+      details: { fileName: dump.fileName, tableCount: dump.tableCount, sizeBytes: dump.body.length },
+    });
+    return new Response(new Uint8Array(dump.body), {
+      headers: {
+        "Content-Type": "application/sql",
+        "Content-Disposition": `attachment; filename="${dump.fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export database", error);
+    await writeBackupAuditLog({
+      action: "database_export_failed",
+      userId: auth.userId,
+      ipAddress,
+      details: { error: error instanceof Error ? error.message : String(error) },
+    }).catch(() => undefined);
+    return NextResponse.json({ success: false, error: "Failed to export database." }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { ModelRegistryError, activateModelVersion } from "@/lib/ml/model-registry";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp, writeSecurityAuditLog } from "@/lib/server/security-audit";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string }> },
+): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { versionId: rawId } = await params;
+  const versionId = Number(rawId);
+  if (!Number.isInteger(versionId) || versionId <= 0) {
+    return NextResponse.json({ success: false, error: "Invalid model version id." }, { status: 400 });
+  }
+
+  try {
+    const result = await runWithConnection(async (connection) => {
+      const outcome = await activateModelVersion(connection, versionId, auth.userId);
+      await writeSecurityAuditLog(connection, {
+        action: "ml_model_activated",
+        userId: auth.userId,
+        targetModule: "ml_model_registry",
+        targetRecordId: versionId,
+        ipAddress: resolveRequestIp(request),
+        details: { modelName: outcome.activated.modelName, previousVersionId: outcome.previous?.versionId ?? null },
+      });
+      return outcome;
+    });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof ModelRegistryError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error("Failed to activate model version", error);
+    return NextResponse.json({ success: false, error: "Unable to activate the model version." }, { status: 500 });
+  }
+}
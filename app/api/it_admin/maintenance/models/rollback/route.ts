@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import {
+  ModelRegistryError,
+  SEQUENCE_ENSEMBLE_MODEL_NAME,
+  performanceModelName,
+  rollbackModelVersion,
+} from "@/lib/ml/model-registry";
+import { toPhonemicSubjectName } from "@/lib/phonemic-levels";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp, writeSecurityAuditLog } from "@/lib/server/security-audit";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const body = (await request.json().catch(() => null)) as { subject?: unknown; model?: unknown } | null;
+  const subject = toPhonemicSubjectName(body?.subject);
+  const modelName = body?.model === SEQUENCE_ENSEMBLE_MODEL_NAME
+    ? SEQUENCE_ENSEMBLE_MODEL_NAME
+    : subject
+      ? performanceModelName(subject)
+      : null;
+  if (!modelName) {
+    return NextResponse.json({ success: false, error: "Choose the model to roll back." }, { status: 400 });
+  }
+
+  try {
+    const result = await runWithConnection(async (connection) => {
+      const outcome = await rollbackModelVersion(connection, auth.userId, modelName);
+      await writeSecurityAuditLog(connection, {
+        action: "ml_model_rolled_back",
+        userId: auth.userId,
+        targetModule: "ml_model_registry",
+        targetRecordId: outcome.activated.versionId,
+        ipAddress: resolveRequestIp(request),
+        details: { modelName: outcome.activated.modelName, previousVersionId: outcome.previous?.versionId ?? null },
+      });
+      return outcome;
+    });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof ModelRegistryError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error("Failed to roll back model version", error);
+    return NextResponse.json({ success: false, error: "Unable to roll back the model version." }, { status: 500 });
+  }
+}
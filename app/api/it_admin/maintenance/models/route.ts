@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PERFORMANCE_SUBJECTS } from "@/lib/ml/features";
+import {
+  DEFAULT_HYPERPARAMETERS,
+  SEQUENCE_ENSEMBLE_MODEL_NAME,
+  listModelVersions,
+  performanceModelName,
+} from "@/lib/ml/model-registry";
+import { DEFAULT_BOOSTING_HYPERPARAMETERS } from "@/lib/ml/xgboost-trainer";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:dashboard.view" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const subjectByModel = new Map(PERFORMANCE_SUBJECTS.map((subject) => [performanceModelName(subject), subject]));
+    const versions = await listModelVersions([...subjectByModel.keys(), SEQUENCE_ENSEMBLE_MODEL_NAME], 80);
+    return NextResponse.json({
+      success: true,
+      subjects: PERFORMANCE_SUBJECTS,
+      versions: versions.map((version) => ({ ...version, subject: subjectByModel.get(version.modelName) ?? null })),
+      sequenceModelName: SEQUENCE_ENSEMBLE_MODEL_NAME,
+      defaultHyperparameters: DEFAULT_HYPERPARAMETERS,
+      defaultBoostingHyperparameters: DEFAULT_BOOSTING_HYPERPARAMETERS,
+    });
+  } catch (error) {
+    console.error("Failed to load model versions", error);
+    return NextResponse.json({ success: false, error: "Unable to load model versions." }, { status: 500 });
+  }
+}
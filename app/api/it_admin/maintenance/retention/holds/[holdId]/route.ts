@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp, writeSecurityAuditLog } from "@/lib/server/security-audit";
+import { listLegalHolds, releaseLegalHold } from "@/lib/server/data-retention";
+
+export const dynamic = "force-dynamic";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ holdId: string }> },
+): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:data.delete" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { holdId: rawId } = await params;
+  const holdId = Number(rawId);
+  if (!Number.isInteger(holdId) || holdId <= 0) {
+    return NextResponse.json({ success: false, error: "A valid hold id is required." }, { status: 400 });
+  }
+
+  try {
+    const result = await runWithConnection(async (connection) => {
+      const released = await releaseLegalHold(connection, holdId, auth.userId);
+      if (!released) {
+        return null;
+      }
+      await writeSecurityAuditLog(connection, {
+        action: "retention_hold_released",
+        userId: auth.userId,
+        targetModule: "data_retention",
+        targetRecordId: holdId,
+        ipAddress: resolveRequestIp(request),
+        details: { entity: released.entity, recordId: released.recordId, reason: released.reason },
+      });
+      return listLegalHolds(connection);
+    });
+    if (!result) {
+      return NextResponse.json({ success: false, error: "Legal hold not found." }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, holds: result });
+  } catch (error) {
+    console.error("Failed to release legal hold", error);
+    return NextResponse.json({ success: false, error: "Failed to release legal hold." }, { status: 500 });
+  }
+}
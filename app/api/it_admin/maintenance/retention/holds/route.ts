@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp, writeSecurityAuditLog } from "@/lib/server/security-audit";
+import { findRetentionTarget, listLegalHolds, placeLegalHold } from "@/lib/server/data-retention";
+
+export const dynamic = "force-dynamic";
+
+type HoldPayload = {
+  entity?: string;
+  recordId?: string | number | null;
+  reason?: string;
+};
+
+export async function POST(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:data.delete" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const payload = (await request.json().catch(() => null)) as HoldPayload | null;
+  const entity = String(payload?.entity ?? "").trim();
+  if (!findRetentionTarget(entity)) {
+    return NextResponse.json({ success: false, error: "Unknown retention entity." }, { status: 400 });
+  }
+  const reason = typeof payload?.reason === "string" ? payload.reason.trim() : "";
+  if (reason.length < 5 || reason.length > 500) {
+    return NextResponse.json(
+      { success: false, error: "A legal hold needs a reason between 5 and 500 characters." },
+      { status: 400 },
+    );
+  }
+  const rawRecordId = payload?.recordId;
+  const recordId = rawRecordId === null || rawRecordId === undefined || String(rawRecordId).trim() === ""
+    ? null
+    : String(rawRecordId).trim().slice(0, 100);
+
+  try {
+    const holds = await runWithConnection(async (connection) => {
+      const holdId = await placeLegalHold(connection, { entity, recordId, reason }, auth.userId);
+      await writeSecurityAuditLog(connection, {
+        action: "retention_hold_placed",
+        userId: auth.userId,
+        targetModule: "data_retention",
+        targetRecordId: holdId,
+        ipAddress: resolveRequestIp(request),
+        details: { entity, recordId, reason },
+      });
+      return listLegalHolds(connection);
+    });
+    return NextResponse.json({ success: true, holds }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to place legal hold", error);
+    return NextResponse.json({ success: false, error: "Failed to place legal hold." }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { previewRetention } from "@/lib/server/data-retention";
+
+export const dynamic = "force-dynamic";
+
+/** What the next purge would remove under the saved policies, after legal holds. */
+export async function GET(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:data.delete" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const entries = await runWithConnection((connection) => previewRetention(connection));
+    return NextResponse.json({ success: true, entries });
+  } catch (error) {
+    console.error("Failed to preview retention purge", error);
+    return NextResponse.json({ success: false, error: "Failed to preview retention purge." }, { status: 500 });
+  }
+}
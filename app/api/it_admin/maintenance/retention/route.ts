@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp, writeSecurityAuditLog } from "@/lib/server/security-audit";
+import {
+  RETENTION_LIMITS,
+  getRetentionSettings,
+  listLegalHolds,
+  listRetentionPolicies,
+  parseRetentionPolicy,
+  saveRetentionPolicies,
+  saveRetentionSettings,
+  type RetentionPolicy,
+} from "@/lib/server/data-retention";
+
+export const dynamic = "force-dynamic";
+
+type RetentionPayload = {
+  autoPurge?: boolean;
+  policies?: unknown[];
+};
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:data.delete" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const result = await runWithConnection(async (connection) => ({
+      settings: await getRetentionSettings(connection),
+      policies: await listRetentionPolicies(connection),
+      holds: await listLegalHolds(connection),
+    }));
+    return NextResponse.json({ success: true, ...result, limits: RETENTION_LIMITS });
+  } catch (error) {
+    console.error("Failed to load retention policies", error);
+    return NextResponse.json({ success: false, error: "Failed to load retention policies." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:data.delete" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const payload = (await request.json().catch(() => null)) as RetentionPayload | null;
+  if (!payload || typeof payload.autoPurge !== "boolean" || !Array.isArray(payload.policies)) {
+    return NextResponse.json(
+      { success: false, error: "autoPurge and a policies array are required." },
+      { status: 400 },
+    );
+  }
+
+  const policies: RetentionPolicy[] = [];
+  for (const raw of payload.policies) {
+    const parsed = parseRetentionPolicy(raw);
+    if (typeof parsed === "string") {
+      return NextResponse.json({ success: false, error: parsed }, { status: 400 });
+    }
+    policies.push(parsed);
+  }
+
+  try {
+    const result = await runWithConnection(async (connection) => {
+      const previous = await listRetentionPolicies(connection);
+      const previousSettings = await getRetentionSettings(connection);
+      await saveRetentionPolicies(connection, policies, auth.userId);
+      await saveRetentionSettings(connection, { autoPurge: payload.autoPurge === true }, auth.userId);
+
+      const changed = policies.filter((policy) => {
+        const before = previous.find((entry) => entry.entity === policy.entity);
+        return (
+          !before ||
+          before.enabled !== policy.enabled ||
+          before.retentionValue !== policy.retentionValue ||
+          before.retentionUnit !== policy.retentionUnit
+        );
+      });
+      await writeSecurityAuditLog(connection, {
+        action: "retention_policies_updated",
+        userId: auth.userId,
+        targetModule: "data_retention",
+        ipAddress: resolveRequestIp(request),
+        details: {
+          autoPurge: { previous: previousSettings.autoPurge, next: payload.autoPurge },
+          changed: changed.map((policy) => ({
+            ...policy,
+            previous: previous.find((entry) => entry.entity === policy.entity) ?? null,
+          })),
+        },
+      });
+
+      return {
+        settings: await getRetentionSettings(connection),
+        policies: await listRetentionPolicies(connection),
+      };
+    });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Failed to save retention policies", error);
+    return NextResponse.json({ success: false, error: "Failed to save retention policies." }, { status: 500 });
+  }
+}
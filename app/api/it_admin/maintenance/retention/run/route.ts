@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp, writeSecurityAuditLog } from "@/lib/server/security-audit";
+import { runRetentionPurge } from "@/lib/server/data-retention";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:data.delete" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const payload = (await request.json().catch(() => null)) as { confirm?: string } | null;
+  if (String(payload?.confirm ?? "").trim().toUpperCase() !== "PURGE") {
+    return NextResponse.json({ success: false, error: "Type PURGE to confirm the purge." }, { status: 400 });
+  }
+
+  const ipAddress = resolveRequestIp(request);
+  try {
+    const { purged, failed } = await runWithConnection((connection) =>
+      runRetentionPurge(connection, { trigger: "manual", actor: auth.userId, ipAddress }),
+    );
+    return NextResponse.json({ success: true, purged, failed });
+  } catch (error) {
+    console.error("Retention purge failed", error);
+    await runWithConnection((connection) =>
+      writeSecurityAuditLog(connection, {
+        action: "retention_run_failed",
+        userId: auth.userId,
+        targetModule: "data_retention",
+        ipAddress,
+        details: { trigger: "manual", error: error instanceof Error ? error.message : String(error) },
+      }),
+    ).catch(() => undefined);
+    return NextResponse.json({ success: false, error: "Retention purge failed." }, { status: 500 });
+  }
+}
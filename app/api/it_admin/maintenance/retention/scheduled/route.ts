@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { resolveRequestIp, writeSecurityAuditLog } from "@/lib/server/security-audit";
+import { runScheduledRetentionIfDue } from "@/lib/server/data-retention";
+import { hasSchedulerSecret } from "@/lib/server/scheduler-secret";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Same contract as the scheduled backup endpoint: a cron job authenticates with
+ * `Authorization: Bearer <DATA_RETENTION_CRON_SECRET>`, and the settings page
+ * calls it when the daily run is due.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  let actor: string | number = "scheduler";
+  if (!hasSchedulerSecret(request, "DATA_RETENTION_CRON_SECRET")) {
+    const auth = await requireItAdmin(request, { permission: "it_admin:data.delete" });
+    if (!auth.ok) {
+      return auth.response;
+    }
+    actor = auth.userId;
+  }
+
+  const ipAddress = resolveRequestIp(request);
+  try {
+    const result = await runWithConnection((connection) => runScheduledRetentionIfDue(connection, actor, ipAddress));
+    if (!result) {
+      return NextResponse.json({ success: true, ran: false });
+    }
+    return NextResponse.json({ success: true, ran: true, purged: result.purged, failed: result.failed });
+  } catch (error) {
+    console.error("Scheduled retention purge failed", error);
+    await runWithConnection((connection) =>
+      writeSecurityAuditLog(connection, {
+        action: "retention_run_failed",
+        userId: actor,
+        targetModule: "data_retention",
+        ipAddress,
+        details: { trigger: "scheduled", error: error instanceof Error ? error.message : String(error) },
+      }),
+    ).catch(() => undefined);
+    return NextResponse.json({ success: false, error: "Scheduled retention purge failed." }, { status: 500 });
+  }
+}
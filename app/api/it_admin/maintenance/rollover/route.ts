@@ -0,0 +1,21 @@
+import { NextRequest } from "next/server";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { handleRolloverHistory, handleRolloverRun } from "@/lib/server/school-year-rollover-handlers";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+  return handleRolloverHistory();
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:maintenance.execute" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+  return handleRolloverRun(request, auth);
+}
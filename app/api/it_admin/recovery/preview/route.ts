@@ -9,6 +9,7 @@ import {
   modeTimeColumn,
   pickLabelColumns,
 } from "@/lib/server/recovery-center";
+import { collectRecoveryCascade, findRecoveryConflicts, type RecoveryRoot } from "@/lib/server/recovery-cascade";
 
 export const dynamic = "force-dynamic";
 
@@ -103,6 +104,7 @@ export async function POST(request: NextRequest): Promise<Response> {
       const recoverable: Array<Record<string, unknown>> = [];
       const notRecoverable: Array<Record<string, unknown>> = [];
       const notFound: Array<string | number> = [];
+      const roots: RecoveryRoot[] = [];
 
       for (const requestedId of ids) {
         const key = String(requestedId);
@@ -127,12 +129,21 @@ export async function POST(request: NextRequest): Promise<Response> {
 
         if (Number(row.flagged) === 1) {
           recoverable.push(snapshot);
+          roots.push({ id: snapshot.id, occurredAt: row.occurred_at ? new Date(row.occurred_at as string | Date) : null });
         } else {
           notRecoverable.push(snapshot);
         }
       }
 
-      return { recoverable, notRecoverable, notFound };
+      const cascade = await collectRecoveryCascade(connection, entity, roots);
+      const conflicts = await findRecoveryConflicts(
+        connection,
+        entity,
+        columns,
+        roots.map((root) => root.id),
+      );
+
+      return { recoverable, notRecoverable, notFound, cascade, conflicts };
     });
 
     return NextResponse.json({
@@ -142,6 +153,16 @@ export async function POST(request: NextRequest): Promise<Response> {
       recoverable: result.recoverable,
       notRecoverable: result.notRecoverable,
       notFound: result.notFound,
+      cascade: result.cascade.map((group) => ({
+        key: group.key,
+        label: group.label,
+        table: group.table,
+        parentKey: group.parentKey,
+        available: group.available,
+        count: group.ids.length,
+        sampleIds: group.ids.slice(0, 20),
+      })),
+      conflicts: result.conflicts,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to preview recovery.";
@@ -3,7 +3,19 @@ import type { RowDataPacket } from "mysql2/promise";
 import { runWithConnection } from "@/lib/db";
 import { requireItAdmin } from "@/lib/server/it-admin-auth";
 import { resolveRequestIp, writeSecurityAuditLog } from "@/lib/server/security-audit";
-import { findRecoveryEntity, modeFlagColumn, type RecoveryMode } from "@/lib/server/recovery-center";
+import {
+  findRecoveryEntity,
+  listDependencyKeys,
+  modeFlagColumn,
+  modeTimeColumn,
+  selectCascadeKeys,
+} from "@/lib/server/recovery-center";
+import {
+  collectRecoveryCascade,
+  findRecoveryConflicts,
+  restoreRecoveryClosure,
+  type RecoveryConflict,
+} from "@/lib/server/recovery-cascade";
 
 export const dynamic = "force-dynamic";
 
@@ -12,6 +24,8 @@ type RestorePayload = {
   ids?: Array<string | number>;
   reason?: string;
   approvalNote?: string;
+  /** Dependency group keys to bring back with the roots; omitted means the whole cascade. */
+  include?: string[];
 };
 
 function sanitizeText(value: unknown, field: string): string {
@@ -53,26 +67,19 @@ function sanitizeIdList(values: unknown): Array<string | number> {
   return ids;
 }
 
-function buildRestoreAssignments(mode: RecoveryMode, columns: Set<string>): string[] {
-  const assignments: string[] = [];
-  if (mode === "deleted") {
-    if (columns.has("is_deleted")) assignments.push("`is_deleted` = 0");
-    if (columns.has("deleted_at")) assignments.push("`deleted_at` = NULL");
-    if (columns.has("deleted_by")) assignments.push("`deleted_by` = NULL");
-  } else if (mode === "archived") {
-    if (columns.has("is_archived")) assignments.push("`is_archived` = 0");
-    if (columns.has("archived_at")) assignments.push("`archived_at` = NULL");
-    if (columns.has("archived_by")) assignments.push("`archived_by` = NULL");
-  } else {
-    if (columns.has("is_voided")) assignments.push("`is_voided` = 0");
-    if (columns.has("void_reason")) assignments.push("`void_reason` = NULL");
-    if (columns.has("voided_at")) assignments.push("`voided_at` = NULL");
-    if (columns.has("voided_by")) assignments.push("`voided_by` = NULL");
+function sanitizeInclude(values: unknown, allowed: string[]): string[] | null {
+  if (values === undefined || values === null) {
+    return null;
   }
-  if (columns.has("updated_at")) {
-    assignments.push("`updated_at` = NOW()");
+  if (!Array.isArray(values)) {
+    throw new Error("'include' must be an array of dependency keys.");
   }
-  return assignments;
+  const keys = values.map((value) => String(value ?? "").trim()).filter((value) => value.length > 0);
+  const unknown = keys.filter((key) => !allowed.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown dependency group(s): ${unknown.join(", ")}.`);
+  }
+  return Array.from(new Set(keys));
 }
 
 export async function POST(request: NextRequest): Promise<Response> {
@@ -98,6 +105,7 @@ export async function POST(request: NextRequest): Promise<Response> {
     const ids = sanitizeIdList(payload.ids);
     const reason = sanitizeText(payload.reason, "reason");
     const approvalNote = sanitizeText(payload.approvalNote, "approvalNote");
+    const include = sanitizeInclude(payload.include, listDependencyKeys(entityConfig.dependents));
     const flagColumn = modeFlagColumn(entityConfig.mode);
     const ipAddress = resolveRequestIp(request);
 
@@ -115,9 +123,11 @@ export async function POST(request: NextRequest): Promise<Response> {
         throw new Error(`Column '${flagColumn}' is not available on '${entityConfig.table}'.`);
       }
 
+      const timeColumn = modeTimeColumn(entityConfig.mode);
       const placeholders = ids.map(() => "?").join(", ");
       const [recoverableRows] = await connection.query<RowDataPacket[]>(
-        `SELECT \`${entityConfig.idColumn}\` AS id
+        `SELECT \`${entityConfig.idColumn}\` AS id,
+                ${columns.has(timeColumn) ? `\`${timeColumn}\`` : "NULL"} AS occurred_at
          FROM \`${entityConfig.table}\`
          WHERE \`${entityConfig.idColumn}\` IN (${placeholders})
            AND \`${flagColumn}\` = 1`,
@@ -145,20 +155,36 @@ export async function POST(request: NextRequest): Promise<Response> {
         return {
           restoredCount: 0,
           restoredIds: [] as Array<string | number>,
+          dependents: [],
+          conflicts: [] as RecoveryConflict[],
         };
       }
 
-      const assignments = buildRestoreAssignments(entityConfig.mode, columns);
-      if (assignments.length === 0) {
-        throw new Error("No writable recovery columns were found on the target table.");
+      const conflicts = await findRecoveryConflicts(connection, entityConfig, columns, recoverableIds);
+      if (conflicts.length > 0) {
+        return {
+          restoredCount: 0,
+          restoredIds: [] as Array<string | number>,
+          dependents: [],
+          conflicts,
+        };
       }
 
-      const recoverablePlaceholders = recoverableIds.map(() => "?").join(", ");
-      await connection.query(
-        `UPDATE \`${entityConfig.table}\`
-         SET ${assignments.join(", ")}
-         WHERE \`${entityConfig.idColumn}\` IN (${recoverablePlaceholders})`,
+      const selectedKeys = selectCascadeKeys(entityConfig.dependents, include);
+      const cascade = await collectRecoveryCascade(
+        connection,
+        entityConfig,
+        recoverableRows.map((row) => ({
+          id: row.id as string | number,
+          occurredAt: row.occurred_at ? new Date(row.occurred_at as string | Date) : null,
+        })),
+      );
+      const closure = await restoreRecoveryClosure(
+        connection,
+        entityConfig,
+        columns,
         recoverableIds,
+        cascade.filter((group) => selectedKeys.has(group.key)),
       );
 
       await writeSecurityAuditLog(connection, {
@@ -174,20 +200,40 @@ export async function POST(request: NextRequest): Promise<Response> {
           reason,
           approvalNote,
           mode: entityConfig.mode,
+          cascade: closure.dependents.map((group) => ({
+            key: group.key,
+            table: group.table,
+            restoredCount: group.restoredIds.length,
+            restoredIds: group.restoredIds,
+          })),
+          skippedGroups: cascade.filter((group) => !selectedKeys.has(group.key) && group.ids.length > 0).map((group) => group.key),
         },
       });
 
       return {
         restoredCount: recoverableIds.length,
         restoredIds: recoverableIds,
+        dependents: closure.dependents.map((group) => ({ key: group.key, restoredCount: group.restoredIds.length })),
+        conflicts: [] as RecoveryConflict[],
       };
     });
 
+    if (result.conflicts.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Resolve the conflicts before restoring; another active record already uses these values.",
+          conflicts: result.conflicts,
+        },
+        { status: 409 },
+      );
+    }
+
     return NextResponse.json({
       success: true,
       entity: entityConfig.key,
       restoredCount: result.restoredCount,
       restoredIds: result.restoredIds,
+      dependents: result.dependents,
       reason,
       approvalNote,
     });
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { RowDataPacket } from "mysql2/promise";
+import { query } from "@/lib/db";
+import { getMasterTeacherSessionFromCookies } from "@/lib/server/master-teacher-session";
+import { TEACHER_NOTIFICATIONS_TABLE, ensureTeacherNotificationsTable } from "@/lib/server/teacher-notifications";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const session = await getMasterTeacherSessionFromCookies();
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Master teacher session not found." }, { status: 401 });
+    }
+
+    await ensureTeacherNotificationsTable();
+
+    const [rows] = await query<RowDataPacket[]>(
+      `SELECT id, message, created_at FROM ${TEACHER_NOTIFICATIONS_TABLE}
+       WHERE teacher_id = ? AND status = 'unread'
+       ORDER BY created_at DESC
+       LIMIT 50`,
+      [session.masterTeacherId],
+    );
+
+    const notifications = rows.map((row) => ({
+      id: Number(row.id),
+      message: row.message ? String(row.message) : "",
+      createdAt:
+        row.created_at instanceof Date
+          ? row.created_at.toISOString()
+          : new Date(String(row.created_at)).toISOString(),
+    }));
+
+    return NextResponse.json({ success: true, notifications });
+  } catch (error) {
+    console.error("Failed to load coordinator notifications", error);
+    return NextResponse.json({ success: false, error: "Unable to load notifications." }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getMasterTeacherSessionFromCookies();
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Master teacher session not found." }, { status: 401 });
+    }
+
+    await ensureTeacherNotificationsTable();
+
+    const payload = (await request.json().catch(() => null)) as { ids?: unknown } | null;
+    const ids = Array.isArray(payload?.ids)
+      ? payload.ids.map((id) => Number(id)).filter((id) => Number.isInteger(id) && id > 0)
+      : [];
+    if (!ids.length) {
+      return NextResponse.json({ success: false, error: "Notification IDs are required." }, { status: 400 });
+    }
+
+    await query(
+      `UPDATE ${TEACHER_NOTIFICATIONS_TABLE}
+       SET status = 'read'
+       WHERE teacher_id = ? AND status = 'unread' AND id IN (${ids.map(() => "?").join(", ")})`,
+      [session.masterTeacherId, ...ids],
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to update coordinator notifications", error);
+    return NextResponse.json({ success: false, error: "Unable to update notifications." }, { status: 500 });
+  }
+}
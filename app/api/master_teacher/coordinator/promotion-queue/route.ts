@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { RowDataPacket } from "mysql2/promise";
+import { query } from "@/lib/db";
+import { getMasterTeacherSessionFromCookies } from "@/lib/server/master-teacher-session";
+import {
+  decidePromotionQueueEntries,
+  listPromotionQueue,
+  runPromotionReadinessBatch,
+  toPromotionSubjectName,
+  type PromotionQueueStatus,
+} from "@/lib/students/promotion-queue";
+import { getPromotionThresholds, savePromotionThresholds } from "@/lib/students/promotion-thresholds";
+
+export const dynamic = "force-dynamic";
+
+const QUEUE_STATUSES = new Set<PromotionQueueStatus>(["pending", "approved", "rejected", "withdrawn"]);
+
+type PromotionScope = {
+  subjectId: number;
+  gradeId: number | null;
+};
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const resolveSubjectId = async (subjectLabel: string): Promise<number | null> => {
+  const [rows] = await query<RowDataPacket[]>(
+    "SELECT subject_id FROM subject WHERE LOWER(TRIM(subject_name)) = ? LIMIT 1",
+    [subjectLabel.trim().toLowerCase()],
+  );
+  return toNumber(rows[0]?.subject_id);
+};
+
+const resolveGradeId = async (gradeLevelRaw: string): Promise<number | null> => {
+  const numericMatch = gradeLevelRaw.match(/\d+/);
+  if (!numericMatch) return null;
+  const [rows] = await query<RowDataPacket[]>("SELECT grade_id FROM grade WHERE grade_level = ? LIMIT 1", [
+    numericMatch[0],
+  ]);
+  return toNumber(rows[0]?.grade_id);
+};
+
+/**
+ * Reads the subject and optional grade level from the request. The grade is
+ * `null` when omitted, which means "every grade" for listing and evaluation
+ * and the subject-wide default for thresholds.
+ */
+const resolveScope = async (
+  subjectLabel: unknown,
+  gradeLevel: unknown,
+): Promise<{ scope: PromotionScope } | { error: string; status: number }> => {
+  const subject = toPromotionSubjectName(subjectLabel);
+  if (!subject) {
+    return { error: "A subject of English, Filipino, or Math is required.", status: 400 };
+  }
+  const subjectId = await resolveSubjectId(subject);
+  if (!subjectId) {
+    return { error: "Subject not found.", status: 404 };
+  }
+
+  const gradeText = gradeLevel === null || gradeLevel === undefined ? "" : String(gradeLevel).trim();
+  if (!gradeText) {
+    return { scope: { subjectId, gradeId: null } };
+  }
+  const gradeId = await resolveGradeId(gradeText);
+  if (!gradeId) {
+    return { error: "Grade level not found.", status: 404 };
+  }
+  return { scope: { subjectId, gradeId } };
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getMasterTeacherSessionFromCookies();
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Master teacher session not found." }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const resolved = await resolveScope(params.get("subject"), params.get("gradeLevel"));
+    if ("error" in resolved) {
+      return NextResponse.json({ success: false, error: resolved.error }, { status: resolved.status });
+    }
+
+    const statusParam = (params.get("status") ?? "pending") as PromotionQueueStatus;
+    if (!QUEUE_STATUSES.has(statusParam)) {
+      return NextResponse.json({ success: false, error: "Invalid status." }, { status: 400 });
+    }
+
+    const [entries, thresholds] = await Promise.all([
+      listPromotionQueue({ ...resolved.scope, status: statusParam }),
+      getPromotionThresholds(resolved.scope.subjectId, resolved.scope.gradeId),
+    ]);
+
+    return NextResponse.json({ success: true, entries, thresholds });
+  } catch (error) {
+    console.error("Failed to load promotion queue", error);
+    return NextResponse.json({ success: false, error: "Failed to load promotion queue." }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getMasterTeacherSessionFromCookies();
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Master teacher session not found." }, { status: 401 });
+    }
+
+    const payload = (await request.json().catch(() => null)) as {
+      action?: string;
+      queueIds?: unknown[];
+      note?: string | null;
+      subject?: string;
+      gradeLevel?: string | number | null;
+    } | null;
+
+    const action = payload?.action;
+
+    if (action === "evaluate") {
+      const resolved = await resolveScope(payload?.subject, payload?.gradeLevel);
+      if ("error" in resolved) {
+        return NextResponse.json({ success: false, error: resolved.error }, { status: resolved.status });
+      }
+      const summary = await runPromotionReadinessBatch(resolved.scope);
+      return NextResponse.json({ success: true, summary });
+    }
+
+    if (action !== "approve" && action !== "reject") {
+      return NextResponse.json({ success: false, error: "Invalid action." }, { status: 400 });
+    }
+
+    const queueIds = (Array.isArray(payload?.queueIds) ? payload.queueIds : [])
+      .map((value) => toNumber(value))
+      .filter((value): value is number => value !== null);
+    if (!queueIds.length) {
+      return NextResponse.json({ success: false, error: "Select at least one student." }, { status: 400 });
+    }
+
+    const result = await decidePromotionQueueEntries(queueIds, action, session.userId, payload?.note ?? null);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Failed to update promotion queue", error);
+    return NextResponse.json({ success: false, error: "Failed to update promotion queue." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getMasterTeacherSessionFromCookies();
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Master teacher session not found." }, { status: 401 });
+    }
+
+    const payload = (await request.json().catch(() => null)) as {
+      subject?: string;
+      gradeLevel?: string | number | null;
+      averageThreshold?: number;
+      requiredSessions?: number;
+    } | null;
+
+    const resolved = await resolveScope(payload?.subject, payload?.gradeLevel);
+    if ("error" in resolved) {
+      return NextResponse.json({ success: false, error: resolved.error }, { status: resolved.status });
+    }
+
+    const averageThreshold = toNumber(payload?.averageThreshold);
+    const requiredSessions = toNumber(payload?.requiredSessions);
+    if (averageThreshold === null || averageThreshold <= 0 || averageThreshold > 100) {
+      return NextResponse.json({ success: false, error: "Average threshold must be between 1 and 100." }, { status: 400 });
+    }
+    if (requiredSessions === null || !Number.isInteger(requiredSessions) || requiredSessions < 1 || requiredSessions > 10) {
+      return NextResponse.json({ success: false, error: "Required sessions must be a whole number from 1 to 10." }, { status: 400 });
+    }
+
+    const thresholds = await savePromotionThresholds(
+      resolved.scope.subjectId,
+      resolved.scope.gradeId,
+      { averageThreshold, requiredSessions },
+      session.userId,
+    );
+    const summary = await runPromotionReadinessBatch(resolved.scope);
+
+    return NextResponse.json({ success: true, thresholds, summary });
+  } catch (error) {
+    console.error("Failed to save promotion thresholds", error);
+    return NextResponse.json({ success: false, error: "Failed to save promotion thresholds." }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { RowDataPacket } from "mysql2/promise";
+import { query } from "@/lib/db";
+import { toPhonemicSubjectName } from "@/lib/phonemic-levels";
+import { getMasterTeacherSessionFromCookies } from "@/lib/server/master-teacher-session";
+import { closeRegressionAlert, describeRegression, listOpenRegressionAlerts } from "@/lib/students/phonemic-regression";
+
+export const dynamic = "force-dynamic";
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getMasterTeacherSessionFromCookies();
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Master teacher session not found." }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const subject = toPhonemicSubjectName(params.get("subject"));
+    if (!subject) {
+      return NextResponse.json({ success: false, error: "A subject of English, Filipino, or Math is required." }, { status: 400 });
+    }
+
+    const [subjectRows] = await query<RowDataPacket[]>(
+      "SELECT subject_id FROM subject WHERE LOWER(TRIM(subject_name)) = ? LIMIT 1",
+      [subject.toLowerCase()],
+    );
+    const subjectId = toNumber(subjectRows[0]?.subject_id);
+    if (!subjectId) {
+      return NextResponse.json({ success: false, error: "Subject not found." }, { status: 404 });
+    }
+
+    let gradeId: number | null = null;
+    const gradeMatch = (params.get("gradeLevel") ?? "").match(/\d+/);
+    if (gradeMatch) {
+      const [gradeRows] = await query<RowDataPacket[]>("SELECT grade_id FROM grade WHERE grade_level = ? LIMIT 1", [
+        gradeMatch[0],
+      ]);
+      gradeId = toNumber(gradeRows[0]?.grade_id);
+    }
+
+    const alerts = await listOpenRegressionAlerts({ subjectId, gradeId });
+    return NextResponse.json({
+      success: true,
+      alerts: alerts.map((alert) => ({ ...alert, summary: describeRegression(alert) })),
+    });
+  } catch (error) {
+    console.error("Failed to load regression alerts", error);
+    return NextResponse.json({ success: false, error: "Failed to load regression alerts." }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getMasterTeacherSessionFromCookies();
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Master teacher session not found." }, { status: 401 });
+    }
+
+    const payload = (await request.json().catch(() => null)) as { alertId?: unknown } | null;
+    const alertId = toNumber(payload?.alertId);
+    if (!alertId) {
+      return NextResponse.json({ success: false, error: "Alert ID is required." }, { status: 400 });
+    }
+
+    const dismissed = await closeRegressionAlert(alertId, "dismissed", session.userId);
+    if (!dismissed) {
+      return NextResponse.json({ success: false, error: "Alert is no longer open." }, { status: 409 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to dismiss regression alert", error);
+    return NextResponse.json({ success: false, error: "Failed to dismiss regression alert." }, { status: 500 });
+  }
+}
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import type { ResultSetHeader, RowDataPacket } from "mysql2/promise";
 import { getTableColumns, query, runWithConnection } from "@/lib/db";
 import { getMasterTeacherSessionFromCookies } from "@/lib/server/master-teacher-session";
+import { writeEmergencyAuditLog } from "@/lib/server/emergency-access";
+import { requireEmergencyScope } from "@/lib/server/emergency-guard";
+import { resolveRequestIp } from "@/lib/server/security-audit";
 
 export const dynamic = "force-dynamic";
 
@@ -400,7 +403,9 @@ const VALID_TEACHER_TYPES = new Set<AssignmentPayload["teacherType"]>([
 export async function POST(request: NextRequest) {
   try {
     const session = await getMasterTeacherSessionFromCookies();
-    if (!session) {
+    // An IT Admin may save assignments for an absent coordinator under approved emergency access.
+    const emergency = session ? null : await requireEmergencyScope(request, "Master Teacher", "StudentAssignments");
+    if (!session && !emergency?.ok) {
       return NextResponse.json({ success: false, error: "Master teacher session not found." }, { status: 401 });
     }
 
@@ -498,7 +503,7 @@ export async function POST(request: NextRequest) {
           teacherType === "regular_teacher" ? null : remedialRoleId,
           gradeId,
           subjectId,
-          hasAssignedByMt ? session.masterTeacherId ?? null : null,
+          hasAssignedByMt ? session?.masterTeacherId ?? null : null,
           new Date().toISOString().slice(0, 10),
           1,
         ];
@@ -551,6 +556,24 @@ export async function POST(request: NextRequest) {
            VALUES ${valuesSql}`,
           rowsToInsert.flat(),
         );
+        if (emergency?.ok) {
+          await writeEmergencyAuditLog(connection, {
+            action: "EMERGENCY_STUDENT_ASSIGNMENTS_SAVED",
+            userId: emergency.userId,
+            emergencyAccessId: emergency.emergencyAccessId,
+            targetModule: "StudentAssignments",
+            targetRecordId: `${gradeId}:${subjectId}`,
+            ipAddress: resolveRequestIp(request),
+            details: {
+              performed_by_role: "IT Admin",
+              performed_via: "Emergency Access",
+              acting_for_role: "Master Teacher",
+              grade_id: gradeId,
+              subject_id: subjectId,
+              assignments_saved: rowsToInsert.length,
+            },
+          });
+        }
         await connection.commit();
       } catch (error) {
         await connection.rollback();
@@ -1,24 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Buffer } from "node:buffer";
-import { query } from "@/lib/db";
-
-const TABLE_NAME = "remedial_reports" as const;
-
-const ensureTable = async () => {
-  await query(
-    `CREATE TABLE IF NOT EXISTS \`${TABLE_NAME}\` (
-      id INT AUTO_INCREMENT PRIMARY KEY,
-      user_id INT NOT NULL,
-      subject VARCHAR(50) NOT NULL,
-      grade_level VARCHAR(50) NULL,
-      teacher_name VARCHAR(255) NULL,
-      file_name VARCHAR(255) NOT NULL,
-      report_json LONGTEXT NULL,
-      pdf LONGBLOB NOT NULL,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
-  );
-};
+import type { ResultSetHeader } from "mysql2/promise";
+import { runWithConnection } from "@/lib/db";
+import {
+  REMEDIAL_REPORTS_TABLE,
+  buildRemedialReportPdf,
+  ensureRemedialReportsTable,
+  parseRemedialReportData,
+  type ReportSubjectKey,
+} from "@/lib/remedial/report-engine";
 
 type SendReportPayload = {
   userId: number;
@@ -26,7 +16,8 @@ type SendReportPayload = {
   gradeLevel?: string | null;
   teacherName?: string | null;
   fileName: string;
-  pdfData: string;
+  /** Browser-rendered PDF, only used when no `reportData` is sent for the server to render. */
+  pdfData?: string;
   reportData?: unknown;
 };
 
@@ -37,7 +28,7 @@ const sanitizeString = (value: unknown): string => {
   return value.trim();
 };
 
-const normalizeSubject = (value: unknown): string => {
+const normalizeSubject = (value: unknown): ReportSubjectKey => {
   const text = sanitizeString(value).toLowerCase();
   if (text === "filipino") {
     return "filipino";
@@ -63,33 +54,54 @@ export async function POST(request: NextRequest) {
     const subject = normalizeSubject(body.subject);
     const fileName = sanitizeString(body.fileName);
     const pdfData = sanitizeString(body.pdfData);
+    const renderOnServer = parseRemedialReportData(body.reportData ?? null).rows.length > 0;
     if (!fileName) {
       return NextResponse.json({ success: false, error: "Missing file name." }, { status: 400 });
     }
-    if (!pdfData) {
-      return NextResponse.json({ success: false, error: "Missing PDF data." }, { status: 400 });
+    if (!renderOnServer && !pdfData) {
+      return NextResponse.json({ success: false, error: "Missing report data." }, { status: 400 });
     }
 
     let pdfBuffer: Buffer;
     try {
-      pdfBuffer = Buffer.from(pdfData, "base64");
+      pdfBuffer = Buffer.from(renderOnServer ? "" : pdfData, "base64");
     } catch {
       return NextResponse.json({ success: false, error: "Invalid PDF payload." }, { status: 400 });
     }
 
-    await ensureTable();
+    await ensureRemedialReportsTable();
 
     const gradeLevel = sanitizeString(body.gradeLevel ?? "");
     const teacherName = sanitizeString(body.teacherName ?? "");
     const reportJson = body.reportData ? JSON.stringify(body.reportData) : null;
 
-    await query(
-      `INSERT INTO \`${TABLE_NAME}\` (user_id, subject, grade_level, teacher_name, file_name, report_json, pdf)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      [userId, subject, gradeLevel || null, teacherName || null, fileName, reportJson, pdfBuffer],
-    );
+    const reportId = await runWithConnection(async (connection) => {
+      await connection.beginTransaction();
+      try {
+        const [result] = await connection.query<ResultSetHeader>(
+          `INSERT INTO \`${REMEDIAL_REPORTS_TABLE}\` (user_id, subject, grade_level, teacher_name, file_name, report_json, pdf)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [userId, subject, gradeLevel || null, teacherName || null, fileName, reportJson, pdfBuffer],
+        );
+        if (renderOnServer) {
+          // The PDF carries the report number, so it is rendered once the row has an id
+          const createdAt = new Date();
+          const pdf = await buildRemedialReportPdf(
+            { id: result.insertId, subject, gradeLevel: gradeLevel || null, teacherName: teacherName || null, createdAt },
+            reportJson,
+            createdAt,
+          );
+          await connection.query(`UPDATE \`${REMEDIAL_REPORTS_TABLE}\` SET pdf = ? WHERE id = ?`, [pdf, result.insertId]);
+        }
+        await connection.commit();
+        return result.insertId;
+      } catch (error) {
+        await connection.rollback();
+        throw error;
+      }
+    });
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, reportId, renderedOnServer: renderOnServer });
   } catch (error) {
     console.error("Failed to store remedial report", error);
     return NextResponse.json({ success: false, error: "Failed to send report." }, { status: 500 });
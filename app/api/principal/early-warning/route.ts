@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { RowDataPacket } from "mysql2/promise";
+import { query } from "@/lib/db";
+import { toPhonemicSubjectName } from "@/lib/phonemic-levels";
+import { requirePrincipal } from "@/lib/server/principal-auth";
+import {
+  getEarlyWarningSettings,
+  listAtRiskStudents,
+  runEarlyWarningNow,
+  saveEarlyWarningSettings,
+  summarizeEarlyWarning,
+} from "@/lib/students/early-warning";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const auth = await requirePrincipal(request);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const subject = toPhonemicSubjectName(request.nextUrl.searchParams.get("subject"));
+    let subjectId: number | null = null;
+    if (subject) {
+      const [subjectRows] = await query<RowDataPacket[]>(
+        "SELECT subject_id FROM subject WHERE LOWER(TRIM(subject_name)) = ? LIMIT 1",
+        [subject.toLowerCase()],
+      );
+      subjectId = subjectRows[0] ? Number(subjectRows[0].subject_id) : null;
+    }
+
+    const [{ runDate, entries }, settings] = await Promise.all([
+      listAtRiskStudents({ subjectId }),
+      getEarlyWarningSettings(),
+    ]);
+    return NextResponse.json({
+      success: true,
+      runDate,
+      settings,
+      entries: entries.map((entry) => ({ ...entry, summary: summarizeEarlyWarning(entry) })),
+    });
+  } catch (error) {
+    console.error("Failed to load the early-warning list", error);
+    return NextResponse.json({ success: false, error: "Failed to load the early-warning list." }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+  const auth = await requirePrincipal(request);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const summary = await runEarlyWarningNow(auth.userId);
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    console.error("Early-warning run failed", error);
+    return NextResponse.json({ success: false, error: "Failed to score students." }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest): Promise<Response> {
+  const auth = await requirePrincipal(request);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const body = (await request.json().catch(() => null)) as { notifyTeachers?: unknown; notifyParents?: unknown } | null;
+  if (typeof body?.notifyTeachers !== "boolean" || typeof body?.notifyParents !== "boolean") {
+    return NextResponse.json(
+      { success: false, error: "notifyTeachers and notifyParents must both be true or false." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const settings = { notifyTeachers: body.notifyTeachers, notifyParents: body.notifyParents };
+    await saveEarlyWarningSettings(settings, auth.userId);
+    return NextResponse.json({ success: true, settings });
+  } catch (error) {
+    console.error("Failed to save early-warning settings", error);
+    return NextResponse.json({ success: false, error: "Failed to save early-warning settings." }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePrincipal } from "@/lib/server/principal-auth";
+import { runEarlyWarningIfDue } from "@/lib/students/early-warning";
+import { hasSchedulerSecret } from "@/lib/server/scheduler-secret";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Daily scoring for a cron job, authenticated with
+ * `Authorization: Bearer <EARLY_WARNING_CRON_SECRET>`. Runs at most once per school day.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  let actor: string | number = "scheduler";
+  if (!hasSchedulerSecret(request, "EARLY_WARNING_CRON_SECRET")) {
+    const auth = await requirePrincipal(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+    actor = auth.userId;
+  }
+
+  try {
+    const summary = await runEarlyWarningIfDue(actor);
+    return NextResponse.json({ success: true, ran: summary !== null, summary });
+  } catch (error) {
+    console.error("Scheduled early-warning run failed", error);
+    return NextResponse.json({ success: false, error: "Scheduled early-warning run failed." }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requirePrincipal } from "@/lib/server/principal-auth";
+import {
+  listEmergencyScopes,
+  listPendingEmergencyApprovals,
+  mapEmergencyAccessResponse,
+} from "@/lib/server/emergency-access";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const auth = await requirePrincipal(request);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    return await runWithConnection(async (connection) => {
+      const pending = await listPendingEmergencyApprovals(connection);
+      const approvals = [];
+      for (const session of pending) {
+        approvals.push({
+          ...mapEmergencyAccessResponse(session, await listEmergencyScopes(connection, Number(session.emergency_access_id))),
+          requested_by_user_id: Number(session.activated_by_user_id),
+        });
+      }
+      return NextResponse.json({ success: true, approvals });
+    });
+  } catch (error) {
+    console.error("Failed to load emergency approvals", error);
+    return NextResponse.json({ success: false, error: "Unable to load emergency approvals." }, { status: 500 });
+  }
+}
@@ -1,45 +1,58 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Buffer } from "node:buffer";
 import type { RowDataPacket } from "mysql2";
-import { query } from "@/lib/db";
-
-const TABLE_NAME = "remedial_reports" as const;
+import { query, runWithConnection } from "@/lib/db";
+import { requirePrincipal } from "@/lib/server/principal-auth";
+import { resolveRequestIp, writeSecurityAuditLog } from "@/lib/server/security-audit";
+import {
+  REMEDIAL_REPORTS_TABLE,
+  buildRemedialReportPdf,
+  ensureRemedialReportsTable,
+  toReportSubjectKey,
+} from "@/lib/remedial/report-engine";
 
 type ReportRow = RowDataPacket & {
   file_name: string;
   pdf: Buffer;
 };
 
-const ensureTable = async () => {
-  await query(
-    `CREATE TABLE IF NOT EXISTS \`${TABLE_NAME}\` (
-      id INT AUTO_INCREMENT PRIMARY KEY,
-      user_id INT NOT NULL,
-      subject VARCHAR(50) NOT NULL,
-      grade_level VARCHAR(50) NULL,
-      teacher_name VARCHAR(255) NULL,
-      file_name VARCHAR(255) NOT NULL,
-      report_json LONGTEXT NULL,
-      pdf LONGBLOB NOT NULL,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
-  );
+type RegenerateRow = RowDataPacket & {
+  subject: string;
+  grade_level: string | null;
+  teacher_name: string | null;
+  file_name: string;
+  report_json: string | null;
+  created_at: Date | string;
+};
+
+const parseReportId = async (params: Promise<{ id: string }>) => {
+  const { id: rawId } = await params;
+  const id = Number(rawId);
+  return Number.isFinite(id) && id > 0 ? id : null;
 };
 
+const pdfResponse = (pdf: Uint8Array, fileName: string) =>
+  new NextResponse(new Uint8Array(pdf), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename="${fileName.replace(/"/g, "'")}"`,
+    },
+  });
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    await ensureTable();
-    const { id: rawId } = await params;
-    const id = Number(rawId);
-    if (!Number.isFinite(id) || id <= 0) {
+    await ensureRemedialReportsTable();
+    const id = await parseReportId(params);
+    if (!id) {
       return NextResponse.json({ success: false, error: "Invalid report id." }, { status: 400 });
     }
 
     const [rows] = await query<ReportRow[]>(
-      `SELECT file_name, pdf FROM \`${TABLE_NAME}\` WHERE id = ? LIMIT 1`,
+      `SELECT file_name, pdf FROM \`${REMEDIAL_REPORTS_TABLE}\` WHERE id = ? LIMIT 1`,
       [id],
     );
 
@@ -48,17 +61,79 @@ export async function GET(
     }
 
     const row = rows[0];
-    const fileName = (row.file_name || `remedial_report_${id}.pdf`).replace(/"/g, "'");
-
-    return new NextResponse(new Uint8Array(row.pdf), {
-      status: 200,
-      headers: {
-        "Content-Type": "application/pdf",
-        "Content-Disposition": `inline; filename="${fileName}"`,
-      },
-    });
+    return pdfResponse(row.pdf, row.file_name || `remedial_report_${id}.pdf`);
   } catch (error) {
     console.error("Failed to deliver remedial report PDF", error);
     return NextResponse.json({ success: false, error: "Failed to download report." }, { status: 500 });
   }
 }
+
+/**
+ * Re-renders a stored report on the server from its `report_json` and current learner records,
+ * replaces the stored PDF and returns it. `?preview=1` renders without saving.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const auth = await requirePrincipal(request);
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    await ensureRemedialReportsTable();
+    const id = await parseReportId(params);
+    if (!id) {
+      return NextResponse.json({ success: false, error: "Invalid report id." }, { status: 400 });
+    }
+
+    const [rows] = await query<RegenerateRow[]>(
+      `SELECT subject, grade_level, teacher_name, file_name, report_json, created_at
+       FROM \`${REMEDIAL_REPORTS_TABLE}\` WHERE id = ? LIMIT 1`,
+      [id],
+    );
+    const row = rows[0];
+    if (!row) {
+      return NextResponse.json({ success: false, error: "Report not found." }, { status: 404 });
+    }
+    if (!row.report_json) {
+      return NextResponse.json(
+        { success: false, error: "This report was submitted without report data and cannot be regenerated." },
+        { status: 422 },
+      );
+    }
+
+    const createdAt = new Date(row.created_at);
+    const pdf = await buildRemedialReportPdf(
+      {
+        id,
+        subject: toReportSubjectKey(row.subject),
+        gradeLevel: row.grade_level,
+        teacherName: row.teacher_name,
+        createdAt: Number.isNaN(createdAt.getTime()) ? new Date(0) : createdAt,
+      },
+      row.report_json,
+      new Date(),
+    );
+
+    if (request.nextUrl.searchParams.get("preview") !== "1") {
+      await runWithConnection(async (connection) => {
+        await connection.query(`UPDATE \`${REMEDIAL_REPORTS_TABLE}\` SET pdf = ? WHERE id = ?`, [pdf, id]);
+        await writeSecurityAuditLog(connection, {
+          action: "remedial_report_regenerated",
+          userId: auth.userId,
+          targetModule: REMEDIAL_REPORTS_TABLE,
+          targetRecordId: id,
+          ipAddress: resolveRequestIp(request),
+          details: { subject: row.subject, bytes: pdf.length },
+        });
+      });
+    }
+
+    return pdfResponse(pdf, row.file_name || `remedial_report_${id}.pdf`);
+  } catch (error) {
+    console.error("Failed to regenerate remedial report PDF", error);
+    return NextResponse.json({ success: false, error: "Failed to regenerate report." }, { status: 500 });
+  }
+}
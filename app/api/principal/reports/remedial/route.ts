@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import type { RowDataPacket } from "mysql2";
 import { query } from "@/lib/db";
-
-const TABLE_NAME = "remedial_reports" as const;
+import { REMEDIAL_REPORTS_TABLE, ensureRemedialReportsTable } from "@/lib/remedial/report-engine";
 
 type ReportRow = RowDataPacket & {
   id: number;
@@ -14,22 +13,6 @@ type ReportRow = RowDataPacket & {
   created_at: Date | string;
 };
 
-const ensureTable = async () => {
-  await query(
-    `CREATE TABLE IF NOT EXISTS \`${TABLE_NAME}\` (
-      id INT AUTO_INCREMENT PRIMARY KEY,
-      user_id INT NOT NULL,
-      subject VARCHAR(50) NOT NULL,
-      grade_level VARCHAR(50) NULL,
-      teacher_name VARCHAR(255) NULL,
-      file_name VARCHAR(255) NOT NULL,
-      report_json LONGTEXT NULL,
-      pdf LONGBLOB NOT NULL,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
-  );
-};
-
 const sanitize = (value: unknown): string => {
   if (typeof value !== "string") {
     return "";
@@ -50,7 +33,7 @@ const normalizeSubject = (value: unknown): string => {
 
 export async function GET(request: NextRequest) {
   try {
-    await ensureTable();
+    await ensureRemedialReportsTable();
     const url = new URL(request.url);
     const subjectParam = url.searchParams.get("subject");
     const gradeParam = url.searchParams.get("grade");
@@ -70,7 +53,7 @@ export async function GET(request: NextRequest) {
 
     const sql = `
       SELECT id, user_id, subject, grade_level, teacher_name, file_name, created_at
-      FROM \`${TABLE_NAME}\`
+      FROM \`${REMEDIAL_REPORTS_TABLE}\`
       ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
       ORDER BY created_at DESC
     `;
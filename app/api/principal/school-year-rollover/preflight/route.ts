@@ -0,0 +1,13 @@
+import { NextRequest } from "next/server";
+import { requirePrincipal } from "@/lib/server/principal-auth";
+import { handleRolloverPreflight } from "@/lib/server/school-year-rollover-handlers";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest): Promise<Response> {
+  const auth = await requirePrincipal(request);
+  if (!auth.ok) {
+    return auth.response;
+  }
+  return handleRolloverPreflight(request);
+}
@@ -7,16 +7,16 @@ import os from "os";
 import { promises as fs } from "fs";
 import { randomUUID } from "crypto";
 import { MathOCRService } from "@/lib/utils/MathOCRService";
+import {
+  extractSlidesFromDocx,
+  extractSlidesFromPdf,
+  type ExtractedSlideText,
+} from "@/lib/materials/extraction";
 // @ts-expect-error adm-zip has no proper ES module types
 import PPTX2Json from "pptx2json";
 
 export const dynamic = "force-dynamic";
 
-type ExtractedSlideText = {
-  slideNumber: number;
-  text: string;
-};
-
 const CONTENT_TABLE = "remedial_material_content";
 
 async function ensureContentTable(): Promise<void> {
@@ -482,18 +482,28 @@ export async function PATCH(request: NextRequest) {
         }
         const fileExtension = filePath ? getFileExtension(filePath).toLowerCase() : "";
         const isPptx = fileExtension === ".pptx";
+        const isPdf = fileExtension === ".pdf";
+        const isDocx = fileExtension === ".docx";
+        const isDocument = isPptx || isPdf || isDocx;
         const isImage = fileExtension === ".png" || fileExtension === ".jpg" || fileExtension === ".jpeg";
 
-        if (requestId && phonemicId && filePath && (isPptx || isImage)) {
+        if (requestId && phonemicId && filePath && (isDocument || isImage)) {
           const { localPath, cleanup } = await resolveMaterialLocalPath(filePath);
 
           let slides: ExtractedSlideText[] = [];
           let flashcards: any[] = [];
 
           try {
-            if (isPptx) {
-              // Extract both text and potential images from PPTX
-              slides = await extractSlidesFromPptx(localPath);
+            if (isDocument) {
+              // PPTX yields one slide per deck slide, PDF one per page and DOCX one per paragraph.
+              if (isPdf) {
+                slides = await extractSlidesFromPdf(localPath);
+              } else if (isDocx) {
+                slides = await extractSlidesFromDocx(localPath);
+              } else {
+                // Extract both text and potential images from PPTX
+                slides = await extractSlidesFromPptx(localPath);
+              }
             
             // Process extracted slides:
             // 1. Text-based slides (already handled)
@@ -570,7 +580,10 @@ export async function PATCH(request: NextRequest) {
               filePath: normalizeContentFilePath(filePath),
               slides,
               flashcards,
-              extractionError: null,
+              extractionError:
+                (isPdf || isDocx) && flashcards.length === 0
+                  ? `No readable text was found in the ${fileExtension.slice(1).toUpperCase()} file.`
+                  : null,
             });
           } finally {
             if (cleanup) {
@@ -585,7 +598,7 @@ export async function PATCH(request: NextRequest) {
             filePath: normalizeContentFilePath(filePath),
             slides: [],
             flashcards: [],
-            extractionError: isImage ? "OCR failed or file not accessible" : "Only .pptx and image files are supported for automatic extraction.",
+            extractionError: isImage ? "OCR failed or file not accessible" : "Only .pptx, .pdf, .docx and image files are supported for automatic extraction.",
           });
         }
       } catch (error) {
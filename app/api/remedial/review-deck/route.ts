@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { query, runWithConnection } from "@/lib/db";
+import { ensurePerformanceSchema } from "@/lib/performance/schema";
+import type { ReviewWordScore } from "@/lib/remedial/review-deck";
+import { applyReviewScores, getDueReviewWords } from "@/lib/server/review-deck";
+
+const toNumber = (value: number | string | null | undefined): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toStringId = (value: number | string | null | undefined): string | null => {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text.length ? text : null;
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    await ensurePerformanceSchema();
+    const { searchParams } = new URL(request.url);
+    const studentId = toStringId(searchParams.get("studentId"));
+    const subjectId = toNumber(searchParams.get("subjectId"));
+    const limit = toNumber(searchParams.get("limit")) ?? undefined;
+
+    if (!studentId || !subjectId) {
+      return NextResponse.json({ success: false, error: "Missing required identifiers." }, { status: 400 });
+    }
+
+    const words = await getDueReviewWords({ query }, studentId, subjectId, { limit });
+    return NextResponse.json({ success: true, words });
+  } catch (error) {
+    console.error("Failed to load review deck", error);
+    return NextResponse.json({ success: false, error: "Server error." }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await ensurePerformanceSchema();
+    const payload = (await request.json().catch(() => null)) as {
+      studentId?: number | string | null;
+      subjectId?: number | string | null;
+      results?: ReviewWordScore[];
+    } | null;
+
+    const studentId = toStringId(payload?.studentId ?? null);
+    const subjectId = toNumber(payload?.subjectId ?? null);
+    const results = Array.isArray(payload?.results) ? payload.results : [];
+
+    if (!studentId || !subjectId) {
+      return NextResponse.json({ success: false, error: "Missing required identifiers." }, { status: 400 });
+    }
+    if (!results.length) {
+      return NextResponse.json({ success: true, updated: 0 });
+    }
+
+    const updated = await runWithConnection(async (connection) => {
+      await connection.beginTransaction();
+      try {
+        const count = await applyReviewScores(connection, studentId, subjectId, results);
+        await connection.commit();
+        return count;
+      } catch (error) {
+        await connection.rollback();
+        throw error;
+      }
+    });
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    console.error("Failed to save review results", error);
+    return NextResponse.json({ success: false, error: "Server error." }, { status: 500 });
+  }
+}
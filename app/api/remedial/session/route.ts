@@ -1,9 +1,15 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { type RowDataPacket } from "mysql2/promise";
+import { type ResultSetHeader, type RowDataPacket } from "mysql2/promise";
 import { runWithConnection } from "@/lib/db";
 import { ensurePerformanceSchema } from "@/lib/performance/schema";
 import { buildFutureScheduleMessage, isScheduleInFuture } from "@/lib/remedial-schedule";
 import { getPriorScheduleBlocksByStudent } from "@/lib/server/remedial-sequence";
+import { analyzeMiscues, collectMissedWords, parseMiscueAnalysis, type MiscueAnalysis } from "@/lib/performance/miscues";
+import { tokenizeWords } from "@/lib/speech-assessment/text-alignment";
+import { scoreWordsFromMiscues } from "@/lib/remedial/review-deck";
+import { applyReviewScores } from "@/lib/server/review-deck";
+import { runPromotionReadinessBatch } from "@/lib/students/promotion-queue";
+import { runRegressionCheck } from "@/lib/students/phonemic-regression";
 
 type SlidePerformance = {
   flashcardIndex: number;
@@ -31,9 +37,11 @@ type SaveRemedialSessionPayload = {
   completed?: boolean | null;
   slides: SlidePerformance[];
   teacherFeedback?: string | null;
+  idempotencyKey?: string | null;
 };
 
 const DEFAULT_MASTERY_THRESHOLD = 80;
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
 
 import { generateAiInsight } from "@/lib/ml/insights";
 
@@ -74,16 +82,6 @@ function parseGradeLevelValue(value: string | number | null | undefined): number
   return null;
 }
 
-function tokenizeReadingWords(value: string | null | undefined): string[] {
-  const raw = (value ?? "").trim().toLowerCase();
-  if (!raw) return [];
-  return raw
-    .replace(/[^a-zA-Z\s']/g, " ")
-    .split(/\s+/)
-    .map((word) => word.trim())
-    .filter((word) => word.length >= 3);
-}
-
 function uniqueWords(values: string[], limit = 10): string[] {
   const output: string[] = [];
   const seen = new Set<string>();
@@ -102,7 +100,7 @@ function uniqueWords(values: string[], limit = 10): string[] {
 function collectReadingWordSignals(
   slides: Array<{
     expectedText: string | null;
-    transcription: string | null;
+    miscues: MiscueAnalysis | null;
     accuracyScore: number | null;
     slideAverage: number | null;
   }>,
@@ -115,10 +113,8 @@ function collectReadingWordSignals(
     const expectedText = normalizeText(slide.expectedText ?? "");
     if (expectedText) sessionTexts.push(expectedText);
 
-    const expectedWords = tokenizeReadingWords(expectedText);
-    const spokenWords = new Set(tokenizeReadingWords(slide.transcription ?? ""));
-    const missingWords = expectedWords.filter((word) => !spokenWords.has(word));
-    const hardWords = expectedWords.filter((word) => word.length >= 5);
+    const missingWords = slide.miscues ? collectMissedWords(slide.miscues) : [];
+    const hardWords = tokenizeWords(expectedText).filter((word) => word.length >= 5);
 
     const accuracy = slide.accuracyScore ?? 0;
     const averageScore = slide.slideAverage ?? 0;
@@ -165,6 +161,11 @@ export async function POST(request: NextRequest) {
     const completed = Boolean(payload.completed);
     const slides = Array.isArray(payload.slides) ? payload.slides : [];
     const teacherFeedback = normalizeText(payload.teacherFeedback);
+    const idempotencyKey = normalizeText(request.headers.get("idempotency-key") ?? payload.idempotencyKey) || null;
+
+    if (idempotencyKey && !IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+      return NextResponse.json({ success: false, error: "Invalid idempotency key." }, { status: 400 });
+    }
 
     if (!studentId) {
       return NextResponse.json({ success: false, error: "Missing required identifiers." }, { status: 400 });
@@ -211,6 +212,32 @@ export async function POST(request: NextRequest) {
     const result = await runWithConnection(async (connection) => {
       await connection.beginTransaction();
       try {
+        if (idempotencyKey) {
+          // A concurrent request with the same key blocks here until it commits or rolls back.
+          const [claim] = await connection.query<ResultSetHeader>(
+            "INSERT IGNORE INTO remedial_session_idempotency (idempotency_key, student_id) VALUES (?, ?)",
+            [idempotencyKey, studentId],
+          );
+          if (claim.affectedRows === 0) {
+            const [storedRows] = await connection.query<RowDataPacket[]>(
+              "SELECT student_id, response_json FROM remedial_session_idempotency WHERE idempotency_key = ? LIMIT 1",
+              [idempotencyKey],
+            );
+            await connection.rollback();
+            const stored = storedRows[0];
+            if (!stored || String(stored.student_id) !== studentId) {
+              return {
+                status: 409,
+                payload: { success: false, error: "Idempotency key was already used for another student." },
+              };
+            }
+            const storedPayload = typeof stored.response_json === "string"
+              ? JSON.parse(stored.response_json)
+              : stored.response_json;
+            return { status: 200, payload: { ...(storedPayload ?? { success: true }), replayed: true } };
+          }
+        }
+
         if (!subjectId && subjectNameInput) {
           const [subjectLookupRows] = await connection.query<RowDataPacket[]>(
             "SELECT subject_id FROM subject WHERE LOWER(TRIM(subject_name)) = LOWER(TRIM(?)) LIMIT 1",
@@ -323,14 +350,30 @@ export async function POST(request: NextRequest) {
           throw new Error("Failed to create remedial session.");
         }
 
+        const [subjectRows] = await connection.query<RowDataPacket[]>(
+          "SELECT subject_name FROM subject WHERE subject_id = ? LIMIT 1",
+          [subjectId],
+        );
+        const subjectName = typeof subjectRows[0]?.subject_name === "string"
+          ? subjectRows[0].subject_name
+          : "Remedial";
+
+        // Math slides store the typed answer as the transcription, so there is no passage to mark up.
+        const isReadingSubject = !/^math/i.test(subjectName);
+        const slideMiscues = validatedSlides.map((slide) =>
+          !isReadingSubject || !slide.expectedText?.trim() || !slide.transcription?.trim()
+            ? null
+            : analyzeMiscues(slide.expectedText, slide.transcription),
+        );
+
         await connection.query(
           "DELETE FROM student_remedial_flashcard_performance WHERE session_id = ?",
           [sessionId],
         );
 
         const performanceValues: Array<
-          [number, number, string | null, number, number, number, number, number, number, string | null, string | null]
-        > = validatedSlides.map((slide) => [
+          [number, number, string | null, number, number, number, number, number, number, string | null, string | null, string | null]
+        > = validatedSlides.map((slide, index) => [
           sessionId,
           slide.flashcardIndex as number,
           slide.expectedText ?? null,
@@ -342,24 +385,17 @@ export async function POST(request: NextRequest) {
           slide.slideAverage as number,
           slide.transcription,
           slide.readingTutorFeedback,
+          slideMiscues[index] ? JSON.stringify(slideMiscues[index]) : null,
         ]);
 
-        const placeholders = performanceValues.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
+        const placeholders = performanceValues.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
         await connection.query(
           `INSERT INTO student_remedial_flashcard_performance
-           (session_id, flashcard_index, expected_text, pronunciation_score, accuracy_score, fluency_score, completeness_score, reading_speed_wpm, slide_average, transcription, reading_tutor_feedback)
+           (session_id, flashcard_index, expected_text, pronunciation_score, accuracy_score, fluency_score, completeness_score, reading_speed_wpm, slide_average, transcription, reading_tutor_feedback, miscues)
            VALUES ${placeholders}`,
           performanceValues.flat(),
         );
 
-        const [subjectRows] = await connection.query<RowDataPacket[]>(
-          "SELECT subject_name FROM subject WHERE subject_id = ? LIMIT 1",
-          [subjectId],
-        );
-        const subjectName = typeof subjectRows[0]?.subject_name === "string"
-          ? subjectRows[0].subject_name
-          : "Remedial";
-
         const validSubject = ["English", "Filipino", "Math"].includes(subjectName) 
           ? (subjectName as "English" | "Filipino" | "Math") 
           : "English";
@@ -371,14 +407,21 @@ export async function POST(request: NextRequest) {
         const studentLastName = typeof studentRows[0]?.last_name === "string" ? studentRows[0].last_name.trim() : "";
         const studentDisplayName = [studentFirstName, studentLastName].filter(Boolean).join(" ").trim() || undefined;
         const readingWordSignals = collectReadingWordSignals(
-          validatedSlides.map((slide) => ({
+          validatedSlides.map((slide, index) => ({
             expectedText: slide.expectedText ?? null,
-            transcription: slide.transcription ?? null,
+            miscues: slideMiscues[index],
             accuracyScore: slide.accuracyScore,
             slideAverage: slide.slideAverage,
           })),
         );
 
+        // Progress saves repeat during a session, so the deck only moves once, when it is first completed.
+        if (isReadingSubject && completed && !existingCompletedAt) {
+          await applyReviewScores(connection, studentId, subjectId, scoreWordsFromMiscues(slideMiscues), {
+            newWords: readingWordSignals.difficultWords,
+          });
+        }
+
         const aiRemarks = await generateAiInsight(
           String(studentId),
           {
@@ -536,17 +579,28 @@ export async function POST(request: NextRequest) {
           }
         }
 
+        const responsePayload = {
+          success: true,
+          sessionId,
+          overallAverage,
+          aiRemarks,
+          completed,
+        };
+
+        if (idempotencyKey) {
+          await connection.query(
+            `UPDATE remedial_session_idempotency
+             SET session_id = ?, response_json = ?
+             WHERE idempotency_key = ?`,
+            [sessionId, JSON.stringify(responsePayload), idempotencyKey],
+          );
+        }
+
         await connection.commit();
 
         return {
           status: 200,
-          payload: {
-            success: true,
-            sessionId,
-            overallAverage,
-            aiRemarks,
-            completed,
-          },
+          payload: responsePayload,
         };
       } catch (error) {
         await connection.rollback();
@@ -554,6 +608,16 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    if (result.status === 200 && completed && !("replayed" in result.payload) && subjectId) {
+      // Level checks run on the committed session; a failure here must not fail the save.
+      await runPromotionReadinessBatch({ subjectId, studentIds: [studentId] }).catch((error) => {
+        console.warn("Promotion readiness batch failed after saving a remedial session", error);
+      });
+      await runRegressionCheck(studentId, subjectId).catch((error) => {
+        console.warn("Regression check failed after saving a remedial session", error);
+      });
+    }
+
     return NextResponse.json(result.payload, { status: result.status });
   } catch (error) {
     console.error("Failed to save remedial session", error);
@@ -619,7 +683,7 @@ export async function GET(request: NextRequest) {
 
       const [slideRows] = await connection.query<RowDataPacket[]>(
         `SELECT flashcard_index, expected_text, pronunciation_score, accuracy_score, fluency_score,
-                completeness_score, reading_speed_wpm, slide_average, transcription, reading_tutor_feedback
+                completeness_score, reading_speed_wpm, slide_average, transcription, reading_tutor_feedback, miscues
          FROM student_remedial_flashcard_performance
          WHERE session_id = ?
          ORDER BY flashcard_index ASC`,
@@ -648,6 +712,7 @@ export async function GET(request: NextRequest) {
             slideAverage: Number(row.slide_average) || 0,
             transcription: row.transcription ?? null,
             readingTutorFeedback: row.reading_tutor_feedback ?? null,
+            miscues: parseMiscueAnalysis(row.miscues),
           })),
         },
       };
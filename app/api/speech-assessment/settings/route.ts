@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import { isAzureSpeechConfigured } from "@/lib/speech-assessment/azure-config";
+import {
+  DEFAULT_SPEECH_ASSESSMENT_SETTINGS,
+  isSpeechAssessmentProviderId,
+  normalizeSpeechAssessmentSettings,
+} from "@/lib/speech-assessment/provider";
+import { getSpeechAssessmentSettings, saveSpeechAssessmentSettings } from "@/lib/speech-assessment/settings";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const azureConfigured = isAzureSpeechConfigured();
+  try {
+    const data = await getSpeechAssessmentSettings();
+    return NextResponse.json({ success: true, data, azureConfigured });
+  } catch (error) {
+    // Flashcards must keep working when the settings table is unreachable.
+    console.error("Failed to load speech assessment settings", error);
+    return NextResponse.json({ success: true, data: DEFAULT_SPEECH_ASSESSMENT_SETTINGS, azureConfigured });
+  }
+}
+
+export async function PUT(request: Request) {
+  const auth = await requireItAdmin(request, { permission: "it_admin:content.manage" });
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    if (!body || !isSpeechAssessmentProviderId(body.provider)) {
+      return NextResponse.json({ success: false, error: "Unknown speech assessment provider." }, { status: 400 });
+    }
+
+    const data = await saveSpeechAssessmentSettings(normalizeSpeechAssessmentSettings(body), auth.userId);
+    return NextResponse.json({ success: true, data, azureConfigured: isAzureSpeechConfigured() });
+  } catch (error) {
+    console.error("Failed to update speech assessment settings", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update speech assessment settings" },
+      { status: 500 },
+    );
+  }
+}
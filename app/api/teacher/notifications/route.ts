@@ -2,38 +2,10 @@ import { NextRequest, NextResponse } from "next/server";
 import type { RowDataPacket } from "mysql2/promise";
 import { query } from "@/lib/db";
 import { requireTeacher } from "@/lib/server/teacher-auth";
+import { TEACHER_NOTIFICATIONS_TABLE, ensureTeacherNotificationsTable } from "@/lib/server/teacher-notifications";
 
 export const dynamic = "force-dynamic";
 
-const NOTIFICATIONS_TABLE = "teacher_notifications";
-
-let ensureTablePromise: Promise<void> | null = null;
-
-const ensureNotificationsTable = async () => {
-  if (!ensureTablePromise) {
-    ensureTablePromise = query(
-      `CREATE TABLE IF NOT EXISTS ${NOTIFICATIONS_TABLE} (
-        id INT UNSIGNED NOT NULL AUTO_INCREMENT,
-        teacher_id VARCHAR(64) NULL,
-        message TEXT NOT NULL,
-        status ENUM('unread', 'read') NOT NULL DEFAULT 'unread',
-        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
-        PRIMARY KEY (id),
-        KEY idx_teacher_notifications_teacher (teacher_id),
-        KEY idx_teacher_notifications_status (status)
-      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;`,
-    )
-      .then(() => undefined)
-      .catch((error) => {
-        ensureTablePromise = null;
-        throw error;
-      });
-  }
-
-  await ensureTablePromise;
-};
-
 const normalizeTeacherIdentifier = (teacherId: string | null, userId: number): string => {
   const trimmedTeacherId = typeof teacherId === "string" ? teacherId.trim() : "";
   if (trimmedTeacherId) {
@@ -49,12 +21,12 @@ export async function GET(request: NextRequest) {
       return auth.response;
     }
 
-    await ensureNotificationsTable();
+    await ensureTeacherNotificationsTable();
 
     const teacherIdentifier = normalizeTeacherIdentifier(auth.teacherId, auth.userId);
 
     const [rows] = await query<RowDataPacket[]>(
-      `SELECT id, message, status, created_at FROM ${NOTIFICATIONS_TABLE}
+      `SELECT id, message, status, created_at FROM ${TEACHER_NOTIFICATIONS_TABLE}
        WHERE teacher_id IS NULL OR teacher_id = ?
        ORDER BY created_at DESC
        LIMIT 100`,
@@ -92,7 +64,7 @@ export async function PATCH(request: NextRequest) {
       return auth.response;
     }
 
-    await ensureNotificationsTable();
+    await ensureTeacherNotificationsTable();
 
     const teacherIdentifier = normalizeTeacherIdentifier(auth.teacherId, auth.userId);
     const payload = (await request.json().catch(() => null)) as PatchPayload | null;
@@ -101,7 +73,7 @@ export async function PATCH(request: NextRequest) {
 
     if (Number.isFinite(noteId) && noteId > 0) {
       await query(
-        `UPDATE ${NOTIFICATIONS_TABLE}
+        `UPDATE ${TEACHER_NOTIFICATIONS_TABLE}
          SET status = 'read'
          WHERE id = ?
            AND status = 'unread'
@@ -117,7 +89,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     await query(
-      `UPDATE ${NOTIFICATIONS_TABLE}
+      `UPDATE ${TEACHER_NOTIFICATIONS_TABLE}
        SET status = 'read'
        WHERE status = 'unread'
          AND (teacher_id IS NULL OR teacher_id = ?)`,
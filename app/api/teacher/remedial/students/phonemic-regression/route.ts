@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import {
+  demoteStudentPhonemic,
+  getPhonemicLevelChanges,
+  reverseStudentDemotion,
+  type SubjectName,
+} from "@/lib/students/promote-phonemic";
+import { closeRegressionAlert, getStudentRegressionStatus } from "@/lib/students/phonemic-regression";
+import { getMasterTeacherSessionFromCookies } from "@/lib/server/master-teacher-session";
+
+const SUBJECTS: SubjectName[] = ["English", "Filipino", "Math"];
+const SUBJECT_MAP: Record<string, SubjectName> = {
+  english: "English",
+  filipino: "Filipino",
+  math: "Math",
+};
+
+const errorStatus = (message: string) => {
+  const normalized = message.toLowerCase();
+  if (normalized.includes("not found") || normalized.includes("missing")) return 404;
+  if (normalized.includes("lowest") || normalized.includes("already") || normalized.includes("changed")) return 409;
+  return 400;
+};
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const studentId = searchParams.get("studentId") ?? searchParams.get("student_id");
+    if (!studentId) {
+      return NextResponse.json({ success: false, error: "Student ID is required." }, { status: 400 });
+    }
+
+    const entries = await Promise.all(
+      SUBJECTS.map(async (subject) => {
+        const [status, changes] = await Promise.all([
+          getStudentRegressionStatus(String(studentId), subject),
+          getPhonemicLevelChanges(String(studentId), subject),
+        ]);
+        return [subject, { ...status, changes }] as const;
+      }),
+    );
+
+    return NextResponse.json({ success: true, subjects: Object.fromEntries(entries) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to check level regression.";
+    return NextResponse.json({ success: false, error: message }, { status: 400 });
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await getMasterTeacherSessionFromCookies().catch(() => null);
+  if (!session) {
+    return NextResponse.json({ success: false, error: "Master teacher session not found." }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const studentId = body?.studentId ?? body?.student_id;
+    if (!studentId) {
+      return NextResponse.json({ success: false, error: "Student ID is required." }, { status: 400 });
+    }
+
+    if (body?.action === "undo") {
+      const changeId = Number(body?.changeId);
+      if (!Number.isInteger(changeId) || changeId <= 0) {
+        return NextResponse.json({ success: false, error: "A demotion to undo is required." }, { status: 400 });
+      }
+      const reversal = await reverseStudentDemotion(String(studentId), changeId, {
+        reason: typeof body?.reason === "string" ? body.reason : null,
+        changedBy: session.userId,
+      });
+      return NextResponse.json({ success: true, change: reversal });
+    }
+
+    if (body?.action !== "demote") {
+      return NextResponse.json({ success: false, error: "Invalid action." }, { status: 400 });
+    }
+
+    const subject = SUBJECT_MAP[String(body?.subject ?? "").trim().toLowerCase()];
+    if (!subject) {
+      return NextResponse.json({ success: false, error: "Unsupported subject." }, { status: 400 });
+    }
+    const reason = typeof body?.reason === "string" ? body.reason.trim() : "";
+    if (!reason) {
+      return NextResponse.json({ success: false, error: "A reason is required to demote a student." }, { status: 400 });
+    }
+
+    const status = await getStudentRegressionStatus(String(studentId), subject);
+    const result = await demoteStudentPhonemic(String(studentId), subject, {
+      reason,
+      changedBy: session.userId,
+      alertId: status.alert?.alertId ?? null,
+    });
+    if (status.alert) {
+      await closeRegressionAlert(status.alert.alertId, "demoted", session.userId);
+    }
+
+    return NextResponse.json({ success: true, studentId: String(studentId), subject, ...result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to change the student's level.";
+    return NextResponse.json({ success: false, error: message }, { status: errorStatus(message) });
+  }
+}
@@ -9,6 +9,7 @@ function JoinContent() {
     const searchParams = useSearchParams();
 
     const [quizCode, setQuizCode] = useState("");
+    const [qrToken, setQrToken] = useState<string | null>(null);
     const [lrn, setLrn] = useState("");
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState("");
@@ -16,8 +17,9 @@ function JoinContent() {
     useEffect(() => {
         const codeFromUrl = searchParams.get("code");
         if (codeFromUrl) {
-            setQuizCode(codeFromUrl);
+            setQuizCode(codeFromUrl.toUpperCase());
         }
+        setQrToken(searchParams.get("token"));
     }, [searchParams]);
 
     const handleJoin = async (e: React.FormEvent) => {
@@ -29,12 +31,13 @@ function JoinContent() {
             const response = await fetch("/api/assessments/join", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ quizCode, lrn }),
+                body: JSON.stringify({ quizCode, lrn, qrToken }),
             });
 
             const data = await response.json();
 
             if (data.success) {
+                localStorage.setItem("rpt_saes_lrn", lrn.trim());
                 // Redirect to the quiz page
                 router.push(data.redirectUrl);
             } else {
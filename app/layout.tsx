@@ -4,6 +4,7 @@ import { Inter } from 'next/font/google';
 import { Suspense } from 'react';
 import './globals.css';
 import PWAGuard from '@/components/PWAGuard';
+import PendingSyncIndicator from '@/components/Common/PendingSyncIndicator';
 import ServiceWorkerRegister from '@/components/ServiceWorkerRegister';
 import { getSiteUrl, siteConfig } from '@/lib/seo';
 
@@ -82,6 +83,7 @@ export default function RootLayout({
       <body className={inter.className} suppressHydrationWarning={true}>
         <Suspense fallback={null}>
           <ServiceWorkerRegister />
+          <PendingSyncIndicator />
           <PWAGuard>
             {children}
           </PWAGuard>
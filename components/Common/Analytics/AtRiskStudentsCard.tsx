@@ -0,0 +1,213 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type ReasonCode = "absence_streak" | "declining_scores" | "failed_assessments" | "inactive";
+
+type AtRiskEntry = {
+  studentId: string;
+  studentName: string;
+  subject: string | null;
+  gradeLevel: string | null;
+  riskScore: number;
+  reasons: ReasonCode[];
+  summary: string;
+  isNew: boolean;
+};
+
+type NotificationSettings = {
+  notifyTeachers: boolean;
+  notifyParents: boolean;
+};
+
+interface AtRiskStudentsCardProps {
+  /** List endpoint; the principal endpoint also accepts POST (re-score) and PATCH (notification settings). */
+  endpoint: string;
+  params?: Record<string, string | null | undefined>;
+  /** Shows the re-score button and notification toggles. */
+  canManage?: boolean;
+}
+
+const REASON_LABELS: Record<ReasonCode, { label: string; className: string }> = {
+  absence_streak: { label: "Absences", className: "bg-red-100 text-red-700" },
+  declining_scores: { label: "Declining", className: "bg-amber-100 text-amber-800" },
+  failed_assessments: { label: "Failed tests", className: "bg-orange-100 text-orange-800" },
+  inactive: { label: "Inactive", className: "bg-slate-200 text-slate-700" },
+};
+
+const riskTone = (score: number) =>
+  score >= 60 ? "text-red-600" : score >= 35 ? "text-amber-600" : "text-slate-700";
+
+export default function AtRiskStudentsCard({ endpoint, params, canManage = false }: AtRiskStudentsCardProps) {
+  const [entries, setEntries] = useState<AtRiskEntry[]>([]);
+  const [runDate, setRunDate] = useState<string | null>(null);
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = new URLSearchParams(
+    Object.entries(params ?? {}).filter((entry): entry is [string, string] => Boolean(entry[1])),
+  ).toString();
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(search ? `${endpoint}?${search}` : endpoint, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? `Request failed with status ${response.status}`);
+      }
+      setEntries(payload.entries ?? []);
+      setRunDate(payload.runDate ?? null);
+      if (payload.settings) {
+        setSettings(payload.settings);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load at-risk students.");
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint, search]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const send = async (method: "POST" | "PATCH", body?: NotificationSettings) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(endpoint, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? `Request failed with status ${response.status}`);
+      }
+      if (payload.settings) {
+        setSettings(payload.settings);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Early-warning request failed.");
+    } finally {
+      setBusy(false);
+    }
+    if (method === "POST") {
+      void load();
+    }
+  };
+
+  return (
+    <section className="print-chart-card rounded-2xl border border-white/75 bg-white/55 p-4 shadow-[0_8px_24px_rgba(15,23,42,0.07)] backdrop-blur-lg sm:p-5">
+      <div className="mb-3 flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-900 sm:text-base">At-Risk Students</h3>
+          <p className="mt-1 text-xs text-slate-500">
+            Ranked daily from absence streaks, falling session averages, failed assessments and time since the last
+            session.{runDate ? ` Scored ${runDate}.` : ""}
+          </p>
+        </div>
+        {canManage && (
+          <div className="no-print flex flex-wrap items-center gap-3 text-xs text-slate-600">
+            {settings && (
+              <>
+                <label className="flex items-center gap-1.5">
+                  <input
+                    type="checkbox"
+                    checked={settings.notifyTeachers}
+                    disabled={busy}
+                    onChange={(event) => void send("PATCH", { ...settings, notifyTeachers: event.target.checked })}
+                  />
+                  Notify teachers
+                </label>
+                <label className="flex items-center gap-1.5">
+                  <input
+                    type="checkbox"
+                    checked={settings.notifyParents}
+                    disabled={busy}
+                    onChange={(event) => void send("PATCH", { ...settings, notifyParents: event.target.checked })}
+                  />
+                  Notify parents
+                </label>
+              </>
+            )}
+            <button
+              type="button"
+              onClick={() => void send("POST")}
+              disabled={busy}
+              className="rounded-md border border-slate-300 bg-white px-3 py-1.5 font-semibold text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+            >
+              {busy ? "Scoring..." : "Re-score Now"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <p className="mb-2 text-xs font-medium text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="max-h-80 overflow-auto rounded-xl border border-slate-200 bg-white/70">
+        <table className="min-w-full text-left text-xs text-slate-700">
+          <thead className="sticky top-0 bg-slate-50 text-slate-500">
+            <tr>
+              <th className="px-3 py-2">Risk</th>
+              <th className="px-3 py-2">Student</th>
+              <th className="px-3 py-2">Subject</th>
+              <th className="px-3 py-2">Reasons</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {!loading && entries.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-3 py-6 text-center text-sm font-medium text-slate-500">
+                  No students are flagged right now.
+                </td>
+              </tr>
+            )}
+            {loading && (
+              <tr>
+                <td colSpan={4} className="px-3 py-6 text-center text-sm font-medium text-slate-500">
+                  Loading at-risk students...
+                </td>
+              </tr>
+            )}
+            {!loading &&
+              entries.map((entry) => (
+                <tr key={`${entry.studentId}-${entry.subject}`}>
+                  <td className={`px-3 py-2 text-base font-semibold ${riskTone(entry.riskScore)}`}>{entry.riskScore}</td>
+                  <td className="px-3 py-2">
+                    <span className="font-semibold text-slate-900">{entry.studentName}</span>
+                    {entry.isNew && (
+                      <span className="ml-1.5 rounded-full bg-emerald-100 px-2 py-0.5 font-medium text-emerald-800">new</span>
+                    )}
+                    {entry.gradeLevel && <span className="block text-slate-500">Grade {entry.gradeLevel}</span>}
+                  </td>
+                  <td className="px-3 py-2">{entry.subject ?? "--"}</td>
+                  <td className="px-3 py-2">
+                    <div className="flex flex-wrap gap-1">
+                      {entry.reasons.map((reason) => (
+                        <span
+                          key={reason}
+                          className={`rounded-full px-2 py-0.5 font-medium ${REASON_LABELS[reason]?.className ?? "bg-slate-100 text-slate-700"}`}
+                        >
+                          {REASON_LABELS[reason]?.label ?? reason}
+                        </span>
+                      ))}
+                    </div>
+                    <p className="mt-1 text-slate-500">{entry.summary}</p>
+                  </td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import ExportExcelUtilityButton from "@/components/Common/Buttons/ExportExcelUtilityButton";
+import { exportRowsToExcel } from "@/lib/utils/export-to-excel";
+import {
+  ITEM_FLAG_LABELS,
+  type ItemAnalysisReport,
+  type ItemRecommendation,
+  type ItemStatistic,
+} from "@/lib/assessments/item-analysis";
+
+interface ItemAnalysisPanelProps {
+  quizCode?: string;
+  quizTitle: string;
+}
+
+const RECOMMENDATION_TONES: Record<ItemRecommendation, string> = {
+  retain: "bg-emerald-50 text-emerald-700 border border-emerald-100",
+  revise: "bg-amber-50 text-amber-700 border border-amber-100",
+  reject: "bg-rose-50 text-rose-700 border border-rose-100",
+};
+
+const RECOMMENDATION_LABELS: Record<ItemRecommendation, string> = {
+  retain: "Retain",
+  revise: "Revise",
+  reject: "Reject",
+};
+
+const formatIndex = (value: number | null) => (value === null ? "N/A" : value.toFixed(2));
+
+const formatShare = (value: number) => `${Math.round(value * 100)}%`;
+
+const describeChoices = (item: ItemStatistic) =>
+  item.choices
+    .map((choice) => `${choice.isCorrect ? "*" : ""}${choice.choiceText}: ${choice.count} (${formatShare(choice.share)})`)
+    .join("; ");
+
+export function ItemAnalysisPanel({ quizCode, quizTitle }: ItemAnalysisPanelProps) {
+  const [report, setReport] = useState<ItemAnalysisReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!quizCode) {
+      setReport(null);
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+    fetch(`/api/assessments/item-analysis?code=${encodeURIComponent(quizCode)}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setReport(data);
+        } else {
+          setError(data.error || "Failed to load item analysis.");
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to load item analysis", err);
+        setError("Could not load item analysis.");
+      })
+      .finally(() => setLoading(false));
+  }, [quizCode]);
+
+  const handleExport = useCallback(async () => {
+    if (!report?.items.length) return;
+    const safeTitle = quizTitle.trim().replace(/\s+/g, "_") || "Assessment";
+    const dateStamp = new Date().toISOString().split("T")[0];
+
+    await exportRowsToExcel({
+      rows: report.items,
+      columns: [
+        { header: "No.", accessor: (item) => item.order },
+        { header: "Question", accessor: (item) => item.questionText },
+        { header: "Type", accessor: (item) => item.questionType.replace(/_/g, " ") },
+        { header: "Responses", accessor: (item) => item.responses },
+        { header: "Correct", accessor: (item) => item.correctCount },
+        { header: "Difficulty (p)", accessor: (item) => item.pValue },
+        { header: "Difficulty Level", accessor: (item) => item.difficultyLabel },
+        { header: "Upper 27% Correct", accessor: (item) => item.upperCorrect },
+        { header: "Lower 27% Correct", accessor: (item) => item.lowerCorrect },
+        { header: "Discrimination (D)", accessor: (item) => item.discriminationIndex ?? "" },
+        { header: "Discrimination Level", accessor: (item) => item.discriminationLabel },
+        { header: "Choices (* = key)", accessor: (item) => describeChoices(item) },
+        { header: "Flags", accessor: (item) => item.flags.map((flag) => ITEM_FLAG_LABELS[flag]).join(", ") },
+        { header: "Recommendation", accessor: (item) => RECOMMENDATION_LABELS[item.recommendation] },
+      ],
+      filename: `${safeTitle}_Item_Analysis_${dateStamp}.xlsx`,
+      sheetName: "Item Analysis",
+    });
+  }, [quizTitle, report]);
+
+  if (!quizCode) {
+    return <p className="text-sm text-gray-500">Item analysis is available once the quiz has a code.</p>;
+  }
+
+  if (loading) {
+    return <div className="animate-pulse p-8 text-center text-gray-500">Loading item analysis...</div>;
+  }
+
+  if (error) {
+    return <div className="rounded-lg bg-red-50 p-4 text-red-600">{error}</div>;
+  }
+
+  if (!report || report.sampleSize === 0) {
+    return <p className="text-sm text-gray-500">Item analysis needs at least one submitted response.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2 text-xs text-slate-600">
+          <span className="rounded-md border border-slate-200 bg-white px-2.5 py-1">
+            Examinees: <span className="font-semibold text-slate-900">{report.sampleSize}</span>
+          </span>
+          <span className="rounded-md border border-slate-200 bg-white px-2.5 py-1">
+            Upper/lower group: <span className="font-semibold text-slate-900">{report.groupSize}</span>
+          </span>
+          <span className="rounded-md border border-slate-200 bg-white px-2.5 py-1">
+            KR-20: <span className="font-semibold text-slate-900">{formatIndex(report.reliabilityKr20)}</span>
+          </span>
+          <span className="rounded-md border border-amber-100 bg-amber-50 px-2.5 py-1 text-amber-700">
+            To revise: <span className="font-semibold">{report.itemsToRevise}</span>
+          </span>
+          <span className="rounded-md border border-rose-100 bg-rose-50 px-2.5 py-1 text-rose-700">
+            To reject: <span className="font-semibold">{report.itemsToReject}</span>
+          </span>
+        </div>
+        <ExportExcelUtilityButton onExport={() => void handleExport()} title="Export item analysis to Excel" />
+      </div>
+
+      {report.sampleSize < 10 && (
+        <p className="text-xs text-slate-500">
+          Fewer than 10 responses were submitted, so discrimination indices are only rough estimates.
+        </p>
+      )}
+
+      <div className="overflow-hidden rounded-xl border border-slate-200 bg-white">
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-slate-200 bg-slate-50 text-slate-600">
+            <tr>
+              <th className="px-4 py-3 text-[11px] font-semibold uppercase tracking-[0.14em]">Question</th>
+              <th className="w-24 px-4 py-3 text-center text-[11px] font-semibold uppercase tracking-[0.14em]">p</th>
+              <th className="w-24 px-4 py-3 text-center text-[11px] font-semibold uppercase tracking-[0.14em]">D</th>
+              <th className="w-28 px-4 py-3 text-center text-[11px] font-semibold uppercase tracking-[0.14em]">Action</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 bg-white">
+            {report.items.map((item) => {
+              const isExpanded = expandedId === item.questionId;
+              return (
+                <tr
+                  key={item.questionId}
+                  className="cursor-pointer align-top hover:bg-slate-50/70"
+                  onClick={() => setExpandedId(isExpanded ? null : item.questionId)}
+                >
+                  <td className="px-4 py-3 text-slate-800">
+                    <div className={isExpanded ? "" : "line-clamp-2"} title={item.questionText}>
+                      {item.order}. {item.questionText}
+                    </div>
+                    <div className="mt-1 text-xs text-slate-400">
+                      {item.correctCount}/{report.sampleSize} correct · {item.difficultyLabel} · {item.discriminationLabel}
+                    </div>
+                    {item.flags.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {item.flags.map((flag) => (
+                          <span key={flag} className="rounded border border-amber-100 bg-amber-50 px-1.5 py-0.5 text-[11px] text-amber-700">
+                            {ITEM_FLAG_LABELS[flag]}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {isExpanded && item.choices.length > 0 && (
+                      <table className="mt-3 w-full text-xs">
+                        <thead className="text-slate-500">
+                          <tr>
+                            <th className="py-1 font-medium">Choice</th>
+                            <th className="py-1 text-center font-medium">Picked</th>
+                            <th className="py-1 text-center font-medium">Upper</th>
+                            <th className="py-1 text-center font-medium">Lower</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {item.choices.map((choice) => (
+                            <tr
+                              key={choice.choiceId}
+                              className={
+                                choice.isCorrect
+                                  ? "text-emerald-700"
+                                  : choice.nonFunctional || choice.attractsUpperGroup
+                                    ? "text-amber-700"
+                                    : "text-slate-600"
+                              }
+                            >
+                              <td className="py-1">
+                                {choice.choiceText}
+                                {choice.isCorrect ? " (key)" : ""}
+                              </td>
+                              <td className="py-1 text-center">
+                                {choice.count} ({formatShare(choice.share)})
+                              </td>
+                              <td className="py-1 text-center">{choice.upperCount}</td>
+                              <td className="py-1 text-center">{choice.lowerCount}</td>
+                            </tr>
+                          ))}
+                          {item.omittedCount > 0 && (
+                            <tr className="text-slate-400">
+                              <td className="py-1">No answer</td>
+                              <td className="py-1 text-center">{item.omittedCount}</td>
+                              <td className="py-1" />
+                              <td className="py-1" />
+                            </tr>
+                          )}
+                        </tbody>
+                      </table>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-center text-slate-700">{item.pValue.toFixed(2)}</td>
+                  <td className="px-4 py-3 text-center text-slate-700">{formatIndex(item.discriminationIndex)}</td>
+                  <td className="px-4 py-3 text-center">
+                    <span className={`inline-flex rounded-md px-2.5 py-1 text-xs font-semibold ${RECOMMENDATION_TONES[item.recommendation]}`}>
+                      {RECOMMENDATION_LABELS[item.recommendation]}
+                    </span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
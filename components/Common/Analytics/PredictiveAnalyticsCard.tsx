@@ -2,33 +2,38 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import * as tf from "@tensorflow/tfjs";
 import { Loader2 } from "lucide-react";
 
 interface PredictiveAnalyticsCardProps {
   studentId: string;
+  subject?: "English" | "Filipino" | "Math";
 }
 
-export function PredictiveAnalyticsCard({ studentId }: PredictiveAnalyticsCardProps) {
+type FeatureDriver = {
+  key: string;
+  label: string;
+  value: number;
+  impact: number;
+};
+
+export function PredictiveAnalyticsCard({ studentId, subject = "English" }: PredictiveAnalyticsCardProps) {
   const [loading, setLoading] = useState(true);
   const [prediction, setPrediction] = useState<number | null>(null);
+  const [drivers, setDrivers] = useState<FeatureDriver[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     async function runPrediction() {
       if (!studentId) return;
-      
+
       try {
         setLoading(true);
         setError(null);
 
-        // 1. Fetch Model Metadata (Normalization Constants)
-        const metaRes = await fetch("/models/performance-predictor/meta.json");
-        if (!metaRes.ok) throw new Error("Model not initialized (Meta missing)");
-        const meta = await metaRes.json();
-        
-        // 2. Fetch Student Features
-        const featuresRes = await fetch(`/api/analytics/features/${studentId}`); 
+        // The subject's active model runs on the server, which also attributes the score to features
+        const featuresRes = await fetch(
+          `/api/analytics/features/${encodeURIComponent(studentId)}?subject=${encodeURIComponent(subject)}`,
+        );
         if (!featuresRes.ok) {
            if (featuresRes.status === 404) {
              setError("Insufficient Data");
@@ -36,36 +41,13 @@ export function PredictiveAnalyticsCard({ studentId }: PredictiveAnalyticsCardPr
            }
            throw new Error("Failed to fetch student data");
         }
-        const { features } = await featuresRes.json(); // [sessions, phonemic, avgScore]
-
-        // 3. Load Model
-        const model = await tf.loadLayersModel("/models/performance-predictor/model.json");
-        
-        // 4. Preprocess Input
-        // Normalize: (val - min) / (max - min)
-        const inputTensor = tf.tensor2d([features], [1, 3]);
-        const min = tf.tensor(meta.inputMin); 
-        const max = tf.tensor(meta.inputMax);
-        
-        const normalizedInput = inputTensor.sub(min).div(max.sub(min));
-        
-        // 5. Predict
-        const resultTensor = model.predict(normalizedInput) as tf.Tensor;
-        const normalizedScore = (await resultTensor.data())[0];
-        
-        // Denormalize? Model output is 0-1 (if normalized labels) or 0-100?
-        // In dataset.ts we did: labelTensor.div(tf.scalar(100)) -> so it's 0-1
-        const predictedScore = normalizedScore * 100;
-        
-        setPrediction(Math.min(100, Math.max(0, predictedScore)));
-        
-        // Cleanup tensors
-        inputTensor.dispose();
-        min.dispose();
-        max.dispose();
-        normalizedInput.dispose();
-        resultTensor.dispose(); 
+        const payload = await featuresRes.json();
+        if (payload.prediction === null || payload.prediction === undefined) {
+          throw new Error("Model not initialized (Meta missing)");
+        }
 
+        setPrediction(payload.prediction);
+        setDrivers(payload.drivers ?? []);
       } catch (err: any) {
         console.error("Prediction Error:", err);
         setError(err.message || "Prediction failed");
@@ -75,7 +57,7 @@ export function PredictiveAnalyticsCard({ studentId }: PredictiveAnalyticsCardPr
     }
 
     runPrediction();
-  }, [studentId]);
+  }, [studentId, subject]);
 
   if (error) {
     return (
@@ -92,7 +74,7 @@ export function PredictiveAnalyticsCard({ studentId }: PredictiveAnalyticsCardPr
     <div className="rounded-lg border bg-card text-card-foreground shadow-sm bg-white dark:bg-gray-800 w-full">
       <div className="flex flex-col space-y-1.5 p-6 pb-2">
         <div className="flex flex-row items-center justify-between space-y-0">
-            <h3 className="font-semibold leading-none tracking-tight text-sm">Predicted Next Score</h3>
+            <h3 className="font-semibold leading-none tracking-tight text-sm">Predicted Next {subject} Score</h3>
             {loading ? (
                 <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
             ) : (
@@ -113,6 +95,19 @@ export function PredictiveAnalyticsCard({ studentId }: PredictiveAnalyticsCardPr
         <p className="text-xs text-muted-foreground mt-1">
            AI-generated forecast based on recent trends & remedial history.
         </p>
+        {!loading && drivers.length > 0 && (
+          <ul className="mt-3 space-y-1 text-xs">
+            {drivers.map((driver) => (
+              <li key={driver.key} className="flex items-center justify-between gap-2">
+                <span className="text-muted-foreground">{driver.label}</span>
+                <span className={driver.impact >= 0 ? "font-semibold text-green-600" : "font-semibold text-red-600"}>
+                  {driver.impact >= 0 ? "+" : ""}
+                  {driver.impact.toFixed(1)} pts
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,196 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { performClientLogout } from "@/lib/utils/logout";
+
+type SessionEntry = {
+  role: string;
+  sessionId: number;
+  deviceName: string | null;
+  ipAddress: string | null;
+  createdAt: string | null;
+  lastActiveAt: string | null;
+  expiresAt: string | null;
+  current: boolean;
+};
+
+type DeviceEntry = {
+  deviceKey: string;
+  deviceName: string;
+  ipAddress: string | null;
+  createdAt: string | null;
+  lastUsedAt: string | null;
+  current: boolean;
+};
+
+type SessionAction =
+  | { action: "revoke_session"; role: string; sessionId: number }
+  | { action: "revoke_device"; deviceKey: string }
+  | { action: "sign_out_everywhere" };
+
+interface DevicesSessionsPanelProps {
+  /** `/api/auth/sessions` for the signed-in user, or the IT Admin endpoint for another account. */
+  endpoint: string;
+  /** When true, ending the caller's own session logs them out of this page. */
+  selfService?: boolean;
+}
+
+const formatDate = (value: string | null): string => {
+  if (!value) return "--";
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? "--" : parsed.toLocaleString();
+};
+
+export default function DevicesSessionsPanel({ endpoint, selfService = false }: DevicesSessionsPanelProps) {
+  const router = useRouter();
+  const [sessions, setSessions] = useState<SessionEntry[]>([]);
+  const [devices, setDevices] = useState<DeviceEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      const response = await fetch(endpoint, { cache: "no-store", credentials: "include" });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to load devices and sessions.");
+      }
+      setSessions(data.sessions);
+      setDevices(data.devices);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load devices and sessions.");
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    void loadEntries();
+  }, [loadEntries]);
+
+  const runAction = async (action: SessionAction, confirmMessage: string) => {
+    if (busy || !window.confirm(confirmMessage)) return;
+    setBusy(true);
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to sign out.");
+      }
+      if (selfService && data.signedOut) {
+        performClientLogout(router);
+        return;
+      }
+      await loadEntries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to sign out.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const everywhereMessage = selfService
+    ? "Sign out of every device, including this one? Trusted devices will need a verification code again."
+    : "Sign this account out of every device? Trusted devices will need a verification code again.";
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-800 mb-2">Active Sessions</h4>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-gray-500">No active sessions.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 rounded-md border border-gray-200 bg-white">
+            {sessions.map((session) => (
+              <li key={`${session.role}-${session.sessionId}`} className="flex flex-wrap items-center justify-between gap-3 px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 truncate">
+                    {session.deviceName || "Unknown device"}
+                    {session.current && <span className="ml-2 text-xs font-semibold text-[#013300]">This device</span>}
+                  </p>
+                  <p className="text-xs text-gray-600">
+                    IP {session.ipAddress || "--"} · Last active {formatDate(session.lastActiveAt)}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() =>
+                    runAction(
+                      { action: "revoke_session", role: session.role, sessionId: session.sessionId },
+                      session.current ? "Sign out of this session? You will be returned to the login page." : "Sign out this session?",
+                    )
+                  }
+                  className="rounded-md border border-red-600 px-3 py-1 text-xs font-medium text-red-600 hover:bg-red-50 disabled:opacity-60"
+                >
+                  Sign Out
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-800 mb-2">Trusted Devices</h4>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : devices.length === 0 ? (
+          <p className="text-sm text-gray-500">No trusted devices.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 rounded-md border border-gray-200 bg-white">
+            {devices.map((device) => (
+              <li key={device.deviceKey} className="flex flex-wrap items-center justify-between gap-3 px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 truncate">
+                    {device.deviceName}
+                    {device.current && <span className="ml-2 text-xs font-semibold text-[#013300]">This device</span>}
+                  </p>
+                  <p className="text-xs text-gray-600">
+                    IP {device.ipAddress || "--"} · Last used {formatDate(device.lastUsedAt)}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() =>
+                    runAction(
+                      { action: "revoke_device", deviceKey: device.deviceKey },
+                      "Remove this device? It will be signed out and need a verification code at the next sign-in.",
+                    )
+                  }
+                  className="rounded-md border border-red-600 px-3 py-1 text-xs font-medium text-red-600 hover:bg-red-50 disabled:opacity-60"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          disabled={busy || loading || (sessions.length === 0 && devices.length === 0)}
+          onClick={() => runAction({ action: "sign_out_everywhere" }, everywhereMessage)}
+          className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-60"
+        >
+          Sign Out Everywhere
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type EmergencyApproval = {
+  emergency_access_id: number;
+  activated_for_role: string | null;
+  reason: string | null;
+  requested_at: string | null;
+  requested_by_user_id: number;
+  own_request?: boolean;
+  scopes: Array<{ module: string; duration_minutes: number }>;
+};
+
+interface EmergencyApprovalsPanelProps {
+  /** IT Admin or Principal approvals endpoint; decisions are posted to `${endpoint}/${id}`. */
+  endpoint: string;
+  onDecision?: () => void;
+}
+
+const MODULE_LABELS: Record<string, string> = {
+  Calendars: "Calendars",
+  Requests: "Requests",
+  Materials: "Material approvals",
+  StudentAssignments: "Student assignments",
+  Reports: "Report review",
+};
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "--";
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? value : parsed.toLocaleString();
+}
+
+function formatDuration(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+}
+
+export default function EmergencyApprovalsPanel({ endpoint, onDecision }: EmergencyApprovalsPanelProps) {
+  const [approvals, setApprovals] = useState<EmergencyApproval[]>([]);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadApprovals = useCallback(async () => {
+    try {
+      const response = await fetch(endpoint, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? "Unable to load emergency approvals.");
+      }
+      setApprovals(payload.approvals ?? []);
+      setError(null);
+    } catch (err) {
+      setError((err as Error)?.message ?? "Unable to load emergency approvals.");
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    void loadApprovals();
+  }, [loadApprovals]);
+
+  const decide = async (approval: EmergencyApproval, decision: "approve" | "reject") => {
+    const prompt = decision === "approve"
+      ? `Approve emergency access covering the ${approval.activated_for_role} role? Each module opens for its requested time from now.`
+      : "Reject this emergency access request?";
+    if (busyId !== null || !window.confirm(prompt)) return;
+
+    setBusyId(approval.emergency_access_id);
+    try {
+      const response = await fetch(`${endpoint}/${approval.emergency_access_id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? "Unable to record the decision.");
+      }
+      await loadApprovals();
+      onDecision?.();
+    } catch (err) {
+      setError((err as Error)?.message ?? "Unable to record the decision.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (approvals.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <section className="mb-6 rounded-xl border border-amber-200 bg-amber-50 p-4">
+      <h2 className="text-base font-semibold text-amber-900">Emergency Access Awaiting Approval</h2>
+      {error ? <p className="mt-2 text-sm font-medium text-red-700">{error}</p> : null}
+      <ul className="mt-3 space-y-3">
+        {approvals.map((approval) => (
+          <li key={approval.emergency_access_id} className="rounded-lg border border-amber-200 bg-white p-3 text-sm text-slate-700">
+            <p className="font-semibold text-slate-900">
+              Covering {approval.activated_for_role ?? "--"} · requested {formatDateTime(approval.requested_at)}
+            </p>
+            <p className="mt-1">Reason: {approval.reason ?? "--"}</p>
+            <p className="mt-1">
+              Modules:{" "}
+              {approval.scopes
+                .map((scope) => `${MODULE_LABELS[scope.module] ?? scope.module} (${formatDuration(scope.duration_minutes)})`)
+                .join(", ") || "--"}
+            </p>
+            {approval.own_request ? (
+              <p className="mt-2 text-xs text-slate-500">Your request: another IT Admin or the Principal must approve it.</p>
+            ) : (
+              <div className="mt-3 flex gap-2">
+                <button
+                  type="button"
+                  disabled={busyId !== null}
+                  onClick={() => decide(approval, "approve")}
+                  className="rounded-lg bg-[#013300] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-green-900 disabled:opacity-50"
+                >
+                  Approve
+                </button>
+                <button
+                  type="button"
+                  disabled={busyId !== null}
+                  onClick={() => decide(approval, "reject")}
+                  className="rounded-lg border border-red-400 px-3 py-1.5 text-xs font-semibold text-red-700 transition hover:bg-red-50 disabled:opacity-50"
+                >
+                  Reject
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
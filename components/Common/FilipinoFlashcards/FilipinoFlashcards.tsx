@@ -7,6 +7,7 @@ import { useSearchParams, useRouter, usePathname } from "next/navigation";
 import UtilityButton from "@/components/Common/Buttons/UtilityButton";
 import TableList from "@/components/Common/Tables/TableList";
 import ToastActivity from "@/components/ToastActivity";
+import ReviewDeckSession from "@/components/Common/ReviewDeck/ReviewDeckSession";
 import { buildFlashcardContentKey } from "@/lib/utils/flashcards-storage";
 import { getAiInsightsAction } from "@/app/actions/get-ai-insights";
 import { getSlideFeedbackAction } from "@/app/actions/get-slide-feedback";
@@ -14,6 +15,11 @@ import { getStoredUserProfile } from "@/lib/utils/user-profile";
 import { composeRuleBasedSlideFeedbackParagraph, getReadingSpeedLabel } from "@/lib/performance/insights";
 import { translateTutorText, type TutorLanguage } from "@/lib/performance/tutor-language";
 import { buildFutureScheduleMessage, isScheduleInFuture } from "@/lib/remedial-schedule";
+import { saveRemedialSession } from "@/lib/remedial/offline-session-queue";
+import { fetchDueReviewWords, type ReviewDeckWord } from "@/lib/remedial/review-deck";
+import { createAzureSpeechAssessmentProvider } from "@/lib/speech-assessment/azure-provider";
+import { assessWithConfiguredProvider } from "@/lib/speech-assessment/client";
+import { SPEECH_ASSESSMENT_PROVIDER_LABELS } from "@/lib/speech-assessment/provider";
 
 const ALLOW_BROWSER_FALLBACK = process.env.NEXT_PUBLIC_ALLOW_SPEECH_FALLBACK === "true";
 const SESSION_EXIT_LOCK_MESSAGE = "Complete the remedial session before leaving this page.";
@@ -35,25 +41,7 @@ const MicIcon = () => (
   </svg>
 );
 
-/* ---------- String/phoneme utilities ---------- */
-
-// Levenshtein distance for word similarity
-function levenshtein(a: string, b: string): number {
-  const m = a.length, n = b.length;
-  const dp = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
-  for (let i = 0; i <= m; i++) dp[i][0] = i;
-  for (let j = 0; j <= n; j++) dp[0][j] = j;
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      dp[i][j] = Math.min(
-        dp[i-1][j] + 1,
-        dp[i][j-1] + 1,
-        dp[i-1][j-1] + (a[i-1] === b[j-1] ? 0 : 1)
-      );
-    }
-  }
-  return dp[m][n];
-}
+/* ---------- String utilities ---------- */
 
 // Normalize text for Filipino
 function normalizeText(s: string) {
@@ -65,67 +53,6 @@ function normalizeText(s: string) {
     .trim();
 }
 
-// Filipino phoneme approximation
-function approxPhonemes(word: string) {
-  if (!word) return [];
-  const w = word
-    .toLowerCase()
-    .replace(/[–—-]/g, " ")
-    .replace(/[^a-z'\s]/g, "")
-    .replace(/\s+/g, " ")
-    .trim();
-  
-  // Filipino vowel sounds and common patterns
-  const vowels = ['a','e','i','o','u'];
-  const digraphs: {[k:string]:string} = {
-    'th':'TH', 'sh':'SH', 'ch':'CH', 'ph':'F', 'gh':'G', 'wh':'WH',
-    'ck':'K', 'ng':'NG', 'nk':'NK', 'ee':'EE', 'oo':'OO', 'ai':'AY',
-    'ay':'AY', 'ea':'EE', 'oa':'OA', 'ow':'OW', 'ou':'OU', 'oi':'OI',
-    'oy':'OY', 'aw':'AW', 'au':'AW', 'ar':'AR', 'er':'ER', 'ir':'ER',
-    'ur':'ER', 'or':'OR'
-  };
-  
-  // replace digraphs first
-  let tmp = w;
-  for (const k in digraphs) {
-    tmp = tmp.split(k).join(' '+digraphs[k]+' ');
-  }
-  
-  // basic splitting: vowel clusters and consonants
-  const out: string[] = [];
-  let buffer = '';
-  for (let i = 0; i < tmp.length; i++) {
-    const c = tmp[i];
-    if (c === ' ') {
-      if (buffer) out.push(buffer);
-      buffer = '';
-      continue;
-    }
-    if (vowels.includes(c)) {
-      if (buffer) { out.push(buffer); buffer = ''; }
-      // capture vowel run
-      let run = c;
-      while (i+1 < tmp.length && vowels.includes(tmp[i+1])) { i++; run += tmp[i]; }
-      out.push(run.toUpperCase());
-    } else {
-      buffer += c.toUpperCase();
-    }
-  }
-  if (buffer) out.push(buffer);
-  return out.filter(Boolean);
-}
-
-// Compare two phoneme arrays
-function comparePhonemeArrays(expectedArr: string[], actualArr: string[]) {
-  if (expectedArr.length === 0) return 0;
-  let matches = 0;
-  for (let i = 0; i < expectedArr.length; i++) {
-    if (actualArr[i] === expectedArr[i]) matches++;
-    else if (actualArr[i-1] === expectedArr[i] || actualArr[i+1] === expectedArr[i]) matches++;
-  }
-  return (matches / expectedArr.length) * 100;
-}
-
 const normalizeLevelLabel = (value?: string | null): string => {
   if (!value) return "";
   return value.toLowerCase().replace(/[^a-z0-9]/g, "");
@@ -892,19 +819,8 @@ export default function FilipinoFlashcards({
     wordFeedback,
   ]);
 
-  // refs for audio / timing
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const silenceStartRef = useRef<number | null>(null);
-  const lastVoiceTimestampRef = useRef<number | null>(null);
-  const speechStartRef = useRef<number | null>(null);
-  const speechEndRef = useRef<number | null>(null);
-  const cumulativeSilentMsRef = useRef<number>(0);
-  const browserRecognitionRef = useRef<any>(null);
-  const recognizerRef = useRef<SpeechSDK.SpeechRecognizer | null>(null);
+  // refs for speech assessment / synthesis
   const recognizerSessionRef = useRef(0);
-  const recognizerClosedRef = useRef(false);
   const synthesizerRef = useRef<SpeechSDK.SpeechSynthesizer | null>(null);
   const speechTokenRef = useRef<{ token: string; region: string; expiresAt: number } | null>(null);
   const autoStartRef = useRef(false);
@@ -1028,36 +944,31 @@ export default function FilipinoFlashcards({
       }));
 
       try {
-        const response = await fetch("/api/remedial/session", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            studentId: selectedStudentId,
-            approvedScheduleId: approvedScheduleId ?? null,
-            subjectId: subjectId ?? null,
-            gradeId: gradeId ?? null,
-            subjectName: "Filipino",
-            gradeLevel: selectedStudent?.grade ?? null,
-            phonemicId: phonemicId ?? null,
-            materialId: materialId ?? null,
-            completed: showSummary,
-            slides,
-            teacherFeedback: teacherFeedback.trim() || null,
-          }),
+        const result = await saveRemedialSession({
+          studentId: selectedStudentId,
+          approvedScheduleId: approvedScheduleId ?? null,
+          subjectId: subjectId ?? null,
+          gradeId: gradeId ?? null,
+          subjectName: "Filipino",
+          gradeLevel: selectedStudent?.grade ?? null,
+          phonemicId: phonemicId ?? null,
+          materialId: materialId ?? null,
+          completed: showSummary,
+          slides,
+          teacherFeedback: teacherFeedback.trim() || null,
         });
 
-        const payload = (await response.json().catch(() => null)) as
-          | { success?: boolean; completed?: boolean; error?: string }
-          | null;
-        if (response.ok && payload?.success) {
+        if (result.status === "saved") {
           remedialSessionSaved = true;
           setDbProgressByStudent((prev) => ({ ...prev, [selectedStudentId]: true }));
           setDbCompletionByStudent((prev) => ({
             ...prev,
-            [selectedStudentId]: Boolean(payload.completed),
+            [selectedStudentId]: Boolean(result.body?.completed),
           }));
-        } else if (response.status !== 409) {
-          console.warn("Failed to save remedial session", payload?.error ?? response.statusText);
+        } else if (result.status === "queued") {
+          remedialSessionSaved = true;
+        } else if (result.response.status !== 409) {
+          console.warn("Failed to save remedial session", result.body?.error ?? result.response.statusText);
         }
       } catch (error) {
         console.warn("Failed to save remedial session", error);
@@ -1088,8 +999,7 @@ export default function FilipinoFlashcards({
     if (typeof window !== "undefined" && "speechSynthesis" in window) {
       window.speechSynthesis.cancel();
     }
-    recognizerRef.current?.close();
-    recognizerRef.current = null;
+    cancelSpeechAssessment();
     synthesizerRef.current?.close();
     synthesizerRef.current = null;
 
@@ -1166,78 +1076,37 @@ export default function FilipinoFlashcards({
     });
   }, [getSpeechToken]);
 
-  const applyOmissionsToWordFeedback = useCallback((
-    mapped: WordFeedback[],
-    expectedText: string,
-  ): WordFeedback[] => {
-    const expectedWords = normalizeText(expectedText).split(/\s+/).filter(Boolean);
-    if (!expectedWords.length) return mapped;
-
-    const normalizedMapped = mapped.map((item: WordFeedback) => item.word.toLowerCase());
-    const output: WordFeedback[] = [];
-    let j = 0;
-
-    for (const expected of expectedWords) {
-      if (j < normalizedMapped.length && normalizedMapped[j] === expected) {
-        output.push(mapped[j]);
-        j += 1;
-      } else {
-        output.push({ word: expected, accuracyScore: 0, errorType: "Omitted" });
-      }
-    }
-
-    return output;
-  }, []);
+  const azureSpeechProvider = useMemo(
+    () => createAzureSpeechAssessmentProvider(getSpeechToken),
+    [getSpeechToken],
+  );
 
-  const parseWordFeedback = useCallback((
-    jsonResult: string | undefined | null,
-    expectedText: string,
-    mode: "raw" | "with-omissions" = "with-omissions",
-  ): WordFeedback[] => {
-    if (!jsonResult) return [];
-    try {
-      const parsed = JSON.parse(jsonResult) as any;
-      const words = parsed?.NBest?.[0]?.Words ?? [];
-      const mapped = words.map((word: any) => ({
-        word: word?.Word ?? "",
-        accuracyScore: typeof word?.PronunciationAssessment?.AccuracyScore === "number"
-          ? Math.round(word.PronunciationAssessment.AccuracyScore)
-          : null,
-        errorType: word?.PronunciationAssessment?.ErrorType ?? null,
-      })).filter((item: WordFeedback) => item.word);
-
-      if (mode === "raw") {
-        return mapped;
-      }
+  // ---------- Review mode ----------
+  const [reviewWords, setReviewWords] = useState<ReviewDeckWord[]>([]);
+  const [reviewFinishedFor, setReviewFinishedFor] = useState<string | null>(null);
 
-      return applyOmissionsToWordFeedback(mapped, expectedText);
-    } catch {
-      return [];
-    }
-  }, [applyOmissionsToWordFeedback]);
+  useEffect(() => {
+    setReviewWords([]);
+    if (!sessionLockEnabled || view !== "session" || !selectedStudentId || !subjectId) return undefined;
+    if (dbProgressByStudent[selectedStudentId] || dbCompletionByStudent[selectedStudentId]) return undefined;
 
-  const parsePhonemeFeedback = useCallback((
-    jsonResult: string | undefined | null,
-  ): PhonemeFeedback[] => {
-    if (!jsonResult) return [];
-    try {
-      const parsed = JSON.parse(jsonResult) as any;
-      const words = parsed?.NBest?.[0]?.Words ?? [];
-      const phonemes = words.flatMap((word: any) => {
-        const items = Array.isArray(word?.Phonemes) ? word.Phonemes : [];
-        return items.map((item: any) => ({
-          phoneme: String(item?.Phoneme ?? "").trim(),
-          accuracyScore: typeof item?.PronunciationAssessment?.AccuracyScore === "number"
-            ? Math.round(item.PronunciationAssessment.AccuracyScore)
-            : null,
-          errorType: item?.PronunciationAssessment?.ErrorType ?? null,
-        }));
+    const controller = new AbortController();
+    fetchDueReviewWords(selectedStudentId, subjectId, { signal: controller.signal })
+      .then(setReviewWords)
+      .catch((error) => {
+        if (error instanceof DOMException && error.name === "AbortError") return;
+        console.warn("Unable to load the review deck", error);
       });
-      return phonemes.filter((item: PhonemeFeedback) => item.phoneme);
-    } catch {
-      return [];
-    }
-  }, []);
+    return () => controller.abort();
+  }, [dbCompletionByStudent, dbProgressByStudent, selectedStudentId, sessionLockEnabled, subjectId, view]);
+
+  // Due words are reviewed before the first slide only; a resumed session goes straight to its cards.
+  const isReviewActive =
+    reviewWords.length > 0 &&
+    reviewFinishedFor !== selectedStudentId &&
+    current === 0 &&
+    sessionScores.length === 0 &&
+    !showSummary;
 
   const buildPhonemeHint = useCallback((phonemes: PhonemeFeedback[]) => {
     if (!phonemes.length) return "";
@@ -1498,76 +1367,20 @@ export default function FilipinoFlashcards({
     }
   };
 
-  // ---------- Core: start mic, listen, measure silence + timestamps ----------
-  const startAudioAnalyser = useCallback(async (stream: MediaStream) => {
-    audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const ctx = audioContextRef.current!;
-    const src = ctx.createMediaStreamSource(stream);
-    const analyser = ctx.createAnalyser();
-    analyser.fftSize = 2048;
-    src.connect(analyser);
-    analyserRef.current = analyser;
-
-    const data = new Float32Array(analyser.fftSize);
-    let rafId: number;
-    const check = () => {
-      analyser.getFloatTimeDomainData(data);
-      let sum = 0;
-      for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
-      const rms = Math.sqrt(sum / data.length);
-      const db = 20 * Math.log10(rms + 1e-12);
-      const now = performance.now();
-
-      const VOICE_DB_THRESHOLD = -50;
-      if (db > VOICE_DB_THRESHOLD) {
-        lastVoiceTimestampRef.current = now;
-        if (!speechStartRef.current) speechStartRef.current = now;
-        silenceStartRef.current = null;
-      } else {
-        if (!silenceStartRef.current) silenceStartRef.current = now;
-        else {
-          const silenceDur = now - (silenceStartRef.current || now);
-          if (silenceDur > 200 && lastVoiceTimestampRef.current) {
-            cumulativeSilentMsRef.current += silenceDur;
-            lastVoiceTimestampRef.current = null;
-          }
-        }
-      }
-      rafId = requestAnimationFrame(check);
-    };
-    rafId = requestAnimationFrame(check);
-    return () => cancelAnimationFrame(rafId);
-  }, []);
-
-  const stopAudioAnalyser = useCallback(() => {
-    try {
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-        audioContextRef.current = null;
-      }
-      if (mediaStreamRef.current) {
-        mediaStreamRef.current.getTracks().forEach(t => t.stop());
-        mediaStreamRef.current = null;
-      }
-    } catch { /* ignore */ }
-  }, []);
-
   const stopListening = useCallback(() => {
     if (activeRecognizerStopRef.current) {
       activeRecognizerStopRef.current();
       activeRecognizerStopRef.current = null;
     }
-    if (browserRecognitionRef.current) {
-      try {
-        browserRecognitionRef.current.stop();
-      } catch {
-        // ignore
-      }
-      browserRecognitionRef.current = null;
-    }
-    stopAudioAnalyser();
     setIsListening(false);
-  }, [stopAudioAnalyser]);
+  }, []);
+
+  // Abandons the in-flight assessment so its result is never applied.
+  const cancelSpeechAssessment = useCallback(() => {
+    recognizerSessionRef.current += 1;
+    stopListening();
+    setIsProcessing(false);
+  }, [stopListening]);
 
   const resetSessionTracking = useCallback(() => {
     stopListening();
@@ -1577,29 +1390,22 @@ export default function FilipinoFlashcards({
     setStatusMessage("");
     setMetrics(null);
     setWordFeedback([]);
-    cumulativeSilentMsRef.current = 0;
-    speechStartRef.current = null;
-    speechEndRef.current = null;
-    stopAudioAnalyser();
     setIsListening(false);
     setIsProcessing(false);
     setIsPlaying(false);
-  }, [stopAudioAnalyser, stopListening]);
+  }, [stopListening]);
 
   useEffect(() => {
     return () => {
-      stopListening();
-      stopAudioAnalyser();
-      recognizerRef.current?.close();
-      recognizerRef.current = null;
+      cancelSpeechAssessment();
       synthesizerRef.current?.close();
       synthesizerRef.current = null;
     };
-  }, [stopAudioAnalyser, stopListening]);
+  }, [cancelSpeechAssessment]);
 
   useEffect(() => {
     resetSessionTracking();
-  }, [current, resetSessionTracking, setRecognizedText, setLiveTranscription, setFeedback, setStatusMessage, setMetrics, setWordFeedback, stopAudioAnalyser, setIsListening, setIsProcessing, setIsPlaying]);
+  }, [current, resetSessionTracking, setRecognizedText, setLiveTranscription, setFeedback, setStatusMessage, setMetrics, setWordFeedback, setIsListening, setIsProcessing, setIsPlaying]);
 
   const readingSpeedBuckets = useMemo(
     () => ([
@@ -1801,240 +1607,7 @@ export default function FilipinoFlashcards({
     [],
   );
 
-  // ---------- Scoring logic for Filipino ----------
-  const computeScores = useCallback((expectedText: string, spokenText: string, resultConfidence: number | null) => {
-    const expected = normalizeText(expectedText);
-    const spoken = normalizeText(spokenText || "");
-
-    // Word arrays
-    const expWords = expected.split(/\s+/).filter(Boolean);
-    const spkWords = spoken.split(/\s+/).filter(Boolean);
-
-    // Word-level correctness
-    let exactMatches = 0;
-    let softMatches = 0;
-    const perWordDetails: any[] = [];
-
-    for (let i = 0; i < expWords.length; i++) {
-      const ew = expWords[i];
-      let best = "";
-      let bestScore = Infinity;
-      for (let j = Math.max(0, i-2); j < Math.min(spkWords.length, i+3); j++) {
-        const dist = levenshtein(ew, spkWords[j]);
-        if (dist < bestScore) { bestScore = dist; best = spkWords[j]; }
-      }
-      const lev = levenshtein(ew, best || "");
-      const sim = (Math.max(0, ew.length - lev) / Math.max(1, ew.length)) * 100;
-      if (sim >= 95) exactMatches++;
-      else if (sim >= 60) softMatches++;
-      perWordDetails.push({ expected: ew, matched: best || "", similarity: Math.round(sim) });
-    }
-
-    const wordAccuracy = ((exactMatches + 0.6 * softMatches) / Math.max(1, expWords.length)) * 100;
-
-    const wordFeedback: WordFeedback[] = perWordDetails.map((item) => {
-      const score = Number.isFinite(item.similarity) ? Math.round(item.similarity) : 0;
-      let errorType: string | null = null;
-      if (score === 0) errorType = "Omitted";
-      else if (score < 85) errorType = "Mispronounced";
-      else errorType = "None";
-      return {
-        word: item.expected,
-        accuracyScore: score,
-        errorType,
-      };
-    });
-    const omittedCount = wordFeedback.filter((item) => (item.accuracyScore ?? 0) === 0).length;
-    const completenessScore = expWords.length
-      ? Math.max(0, Math.round(100 - ((omittedCount / expWords.length) * 100)))
-      : 100;
-
-    // Filipino phoneme analysis
-    const expPhArr = expWords.flatMap(w => approxPhonemes(w));
-    const spkPhArr = spkWords.flatMap(w => approxPhonemes(w));
-    const phonemeAccuracy = comparePhonemeArrays(expPhArr, spkPhArr);
-
-    // Fluency metrics
-    const totalSpeechMs = (speechEndRef.current && speechStartRef.current)
-      ? Math.max(1, (speechEndRef.current - speechStartRef.current))
-      : 1;
-    const totalSilenceMs = cumulativeSilentMsRef.current;
-    const pauseRatio = Math.min(1, totalSilenceMs / totalSpeechMs);
-    const fluencyScore = Math.min(100, Math.max(0, Math.round((1 - pauseRatio) * 100)));
-
-    const wpmRaw = Math.max(0, Math.round((expWords.length / (totalSpeechMs / 1000)) * 60));
-    const wordCount = expWords.length;
-
-    const conf = resultConfidence ?? 0.8;
-    const pronScore = Math.min(100, Math.max(0, Math.round((0.5 * wordAccuracy) + (0.35 * phonemeAccuracy) + (0.15 * conf * 100))));
-    const correctnessPercent = Math.min(100, Math.max(0, Math.round(wordAccuracy)));
-    const { score: readingSpeedScore, label: readingSpeedLabel } = gradeReadingSpeed(wpmRaw, wordCount);
-    const averageScore = Math.min(100, Math.max(0, Math.round((pronScore + correctnessPercent + readingSpeedScore) / 3)));
-
-    let averageLabel: "Excellent" | "Very Good" | "Good" | "Fair" | "Poor";
-    if (averageScore >= 90) averageLabel = "Excellent";
-    else if (averageScore >= 80) averageLabel = "Very Good";
-    else if (averageScore >= 70) averageLabel = "Good";
-    else if (averageScore >= 60) averageLabel = "Fair";
-    else averageLabel = "Poor";
-
-    const remarkMessages: Record<typeof averageLabel, string> = {
-      Excellent: "Excellent — outstanding delivery and pacing!",
-      "Very Good": "Very Good — just a little polish needed.",
-      Good: "Good — keep practicing for smoother speech.",
-      Fair: "Fair — focus on clarity and confidence.",
-      Poor: "Poor — let's build clarity and pace together.",
-    };
-
-    return {
-      expWords,
-      spkWords,
-      perWordDetails,
-      correctness: correctnessPercent,
-      phonemeAccuracy: Math.round(phonemeAccuracy * 100) / 100,
-      fluencyScore,
-      readingSpeed: wpmRaw,
-      wpm: wpmRaw,
-      readingSpeedScore,
-      readingSpeedLabel,
-      wordCount,
-      pronScore,
-      completenessScore,
-      averageScore,
-      averageLabel,
-      remarks: remarkMessages[averageLabel],
-      wordFeedback,
-    };
-  }, [gradeReadingSpeed]);
-
   // ---------- Microphone handler ----------
-  const handleMicrophoneFallback = useCallback(async () => {
-    if (!ALLOW_BROWSER_FALLBACK) {
-      setFeedback("Azure Speech is required. Please try again.");
-      setIsListening(false);
-      setIsProcessing(false);
-      return;
-    }
-    const SpeechRecognition =
-      (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (!SpeechRecognition) {
-      alert("Speech recognition is not supported in your browser.");
-      return;
-    }
-
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaStreamRef.current = stream;
-      await startAudioAnalyser(stream);
-
-      const recognition = new SpeechRecognition();
-      recognition.lang = "fil-PH";
-      recognition.interimResults = false;
-      recognition.maxAlternatives = 1;
-      browserRecognitionRef.current = recognition;
-      activeRecognizerStopRef.current = () => {
-        try {
-          recognition.stop();
-        } catch {
-          // ignore
-        }
-      };
-
-      cumulativeSilentMsRef.current = 0;
-      speechStartRef.current = null;
-      speechEndRef.current = null;
-      lastVoiceTimestampRef.current = null;
-      silenceStartRef.current = null;
-
-      setIsListening(true);
-      setIsProcessing(true);
-      setRecognizedText("");
-      setLiveTranscription("");
-      setFeedback("Listening... 🎧");
-      setStatusMessage("Using browser speech recognition.");
-
-      recognition.onstart = () => {
-        speechStartRef.current = performance.now();
-      };
-
-      recognition.onresult = (event: any) => {
-        const spoken = event.results[0][0].transcript;
-        const conf = event.results[0][0].confidence ?? null;
-        setRecognizedText(spoken);
-        setLiveTranscription(spoken);
-
-        speechEndRef.current = performance.now();
-
-        const sc = computeScores(sentence, spoken, conf);
-        setMetrics(sc);
-        const tutorFeedback = buildTutorFeedback(sc.wordFeedback ?? [], sentence, "");
-        const slideTutorFeedback = composeRuleBasedSlideFeedbackParagraph({
-          accuracyScore: sc.correctness,
-          readingSpeedWpm: sc.wpm,
-          slideAverage: sc.averageScore,
-        });
-        const wordSignals = getWordSignals(sc.wordFeedback ?? []);
-        setFeedback(tutorFeedback);
-        void speakTutorFeedback(tutorFeedback);
-        setWordFeedback(sc.wordFeedback ?? []);
-        upsertSessionScore(current, sentence, {
-          pronScore: sc.pronScore,
-          correctness: sc.correctness,
-          fluencyScore: sc.fluencyScore,
-          completenessScore: sc.completenessScore,
-          readingSpeedScore: sc.readingSpeedScore,
-          averageScore: sc.averageScore,
-          readingSpeedWpm: sc.wpm,
-          transcription: spoken,
-          readingTutorFeedback: slideTutorFeedback,
-          difficultWords: wordSignals.difficultWords,
-          strongWords: wordSignals.strongWords,
-        });
-
-        stopAudioAnalyser();
-        setIsListening(false);
-        setIsProcessing(false);
-        activeRecognizerStopRef.current = null;
-        browserRecognitionRef.current = null;
-      };
-
-      recognition.onerror = () => {
-        setFeedback("Error in speech recognition. Please try again.");
-        stopAudioAnalyser();
-        setIsListening(false);
-        setIsProcessing(false);
-        activeRecognizerStopRef.current = null;
-        browserRecognitionRef.current = null;
-      };
-
-      recognition.onend = () => {
-        if (!speechEndRef.current) speechEndRef.current = performance.now();
-        if (!recognizedText) {
-          setFeedback("No speech detected. Please try again.");
-          stopAudioAnalyser();
-          setIsListening(false);
-          setIsProcessing(false);
-        }
-        activeRecognizerStopRef.current = null;
-        browserRecognitionRef.current = null;
-      };
-
-      recognition.start();
-
-      setTimeout(() => {
-        try { recognition.stop(); } catch {}
-      }, 45000);
-    } catch (err) {
-      console.error(err);
-      setFeedback("Microphone error or permission not granted.");
-      setIsListening(false);
-      setIsProcessing(false);
-      stopAudioAnalyser();
-      activeRecognizerStopRef.current = null;
-      browserRecognitionRef.current = null;
-    }
-  }, [buildTutorFeedback, computeScores, current, recognizedText, sentence, speakTutorFeedback, startAudioAnalyser, stopAudioAnalyser, upsertSessionScore]);
-
   const handleMicrophone = async () => {
     if (!sentence.trim()) return;
     if (isListening) {
@@ -2042,21 +1615,10 @@ export default function FilipinoFlashcards({
       return;
     }
     if (isProcessing) return;
-    activeRecognizerStopRef.current = null;
-    if (recognizerRef.current) {
-      try {
-        recognizerClosedRef.current = true;
-        recognizerRef.current.close();
-      } catch {
-        // ignore
-      }
-      recognizerRef.current = null;
-    }
-    let didFallback = false;
     const sessionId = (recognizerSessionRef.current += 1);
-    recognizerClosedRef.current = false;
-    const isActiveSession = () =>
-      sessionId === recognizerSessionRef.current && !recognizerClosedRef.current;
+    const isActiveSession = () => sessionId === recognizerSessionRef.current;
+    const stopController = new AbortController();
+    activeRecognizerStopRef.current = () => stopController.abort();
     setIsProcessing(true);
     setFeedback("");
     setStatusMessage("Preparing microphone...");
@@ -2065,247 +1627,105 @@ export default function FilipinoFlashcards({
     setWordFeedback([]);
 
     try {
-      const { token, region } = await getSpeechToken();
-      const speechConfig = SpeechSDK.SpeechConfig.fromAuthorizationToken(token, region);
-      speechConfig.speechRecognitionLanguage = "fil-PH";
-
-      const audioConfig = SpeechSDK.AudioConfig.fromDefaultMicrophoneInput();
-      const recognizer = new SpeechSDK.SpeechRecognizer(speechConfig, audioConfig);
-      recognizerRef.current = recognizer;
-
-      const paConfig = new SpeechSDK.PronunciationAssessmentConfig(
-        sentence,
-        SpeechSDK.PronunciationAssessmentGradingSystem.HundredMark,
-        SpeechSDK.PronunciationAssessmentGranularity.Word,
-        true,
-      );
-      (paConfig as any).enableProsodyAssessment = true;
-      paConfig.applyTo(recognizer);
-
-      recognizer.recognizing = (_sender, event) => {
-        const interimText = event.result?.text ?? "";
-        if (interimText) {
-          setLiveTranscription(interimText);
-          setRecognizedText(interimText);
-          setStatusMessage("Listening... 🎧");
-        }
-      };
-
-      const aggregate = await new Promise<{
-        spoken: string;
-        duration: number;
-        wordCount: number;
-        scores: { pronunciation: number; accuracy: number; fluency: number; completeness: number };
-        words: WordFeedback[];
-        phonemes: PhonemeFeedback[];
-      } | null>((resolve, reject) => {
-        let settled = false;
-        const maxTimer = window.setTimeout(() => finish(), 120000);
-        let totalDuration = 0;
-        let totalWords = 0;
-        let totalText = "";
-        const weighted = { pronunciation: 0, accuracy: 0, fluency: 0, completeness: 0 };
-        const allWords: WordFeedback[] = [];
-        const allPhonemes: PhonemeFeedback[] = [];
-
-        const finish = () => {
-          if (settled) return;
-          settled = true;
-          if (maxTimer) window.clearTimeout(maxTimer);
-          if (!isActiveSession()) {
-            resolve(null);
-            return;
-          }
-          recognizer.stopContinuousRecognitionAsync(
-            () => {
-              if (!totalWords) {
-                resolve(null);
-                return;
-              }
-              resolve({
-                spoken: totalText.trim(),
-                duration: totalDuration,
-                wordCount: totalWords,
-                scores: {
-                  pronunciation: weighted.pronunciation / totalWords,
-                  accuracy: weighted.accuracy / totalWords,
-                  fluency: weighted.fluency / totalWords,
-                  completeness: weighted.completeness / totalWords,
-                },
-                words: applyOmissionsToWordFeedback(allWords, sentence),
-                phonemes: allPhonemes,
-              });
-            },
-            (error) => {
-              if (!isActiveSession()) {
-                resolve(null);
-                return;
-              }
-              reject(error);
-            },
-          );
-        };
-
-        activeRecognizerStopRef.current = finish;
-
-        recognizer.recognized = (_sender, event) => {
-          if (!isActiveSession()) return;
-          if (event.result?.reason !== SpeechSDK.ResultReason.RecognizedSpeech) return;
-          const result = event.result;
-          const segmentText = result.text ?? "";
-          if (segmentText) {
-            totalText = totalText ? `${totalText} ${segmentText}` : segmentText;
-          }
-          const segmentWordCount = normalizeText(segmentText).split(/\s+/).filter(Boolean).length;
-          if (segmentWordCount > 0) {
-            const paResult = SpeechSDK.PronunciationAssessmentResult.fromResult(result);
-            weighted.pronunciation += (paResult.pronunciationScore ?? 0) * segmentWordCount;
-            weighted.accuracy += (paResult.accuracyScore ?? 0) * segmentWordCount;
-            weighted.fluency += (paResult.fluencyScore ?? 0) * segmentWordCount;
-            weighted.completeness += (paResult.completenessScore ?? 0) * segmentWordCount;
-            totalWords += segmentWordCount;
-          }
-          totalDuration += result.duration ?? 0;
-          const jsonResult = result.properties.getProperty(
-            SpeechSDK.PropertyId.SpeechServiceResponse_JsonResult,
-          );
-          const segmentWords = parseWordFeedback(jsonResult, sentence, "raw");
-          allWords.push(...segmentWords);
-          const segmentPhonemes = parsePhonemeFeedback(jsonResult);
-          allPhonemes.push(...segmentPhonemes);
-        };
-
-        recognizer.recognizing = (_sender, event) => {
-          if (!isActiveSession()) return;
-          const interimText = event.result?.text ?? "";
-          if (interimText) {
+      const assessment = await assessWithConfiguredProvider(
+        {
+          expectedText: sentence,
+          language: "fil-PH",
+          stopSignal: stopController.signal,
+          onListening: () => {
+            if (!isActiveSession()) return;
+            setIsListening(true);
+            setStatusMessage("Listening... 🎧 Start speaking now.");
+          },
+          onInterim: (interimText) => {
+            if (!isActiveSession()) return;
             setLiveTranscription(interimText);
             setRecognizedText(interimText);
             setStatusMessage("Listening... 🎧");
-          }
-        };
-
-        recognizer.canceled = () => finish();
-
-        recognizer.startContinuousRecognitionAsync(
-          () => {
-            if (isActiveSession()) {
-              setIsListening(true);
-              setStatusMessage("Listening... 🎧 Start speaking now.");
-            }
           },
-          (error) => {
-            if (!isActiveSession()) {
-              resolve(null);
-              return;
-            }
-            reject(error);
+        },
+        {
+          azure: azureSpeechProvider,
+          onFallback: (failed) => {
+            if (!isActiveSession()) return;
+            setIsListening(false);
+            setStatusMessage(`${SPEECH_ASSESSMENT_PROVIDER_LABELS[failed]} is unavailable. Switching to browser speech.`);
           },
-        );
-      });
+        },
+      );
 
-      activeRecognizerStopRef.current = null;
+      if (!isActiveSession()) return;
 
-      if (!aggregate) {
+      if (!assessment) {
         setStatusMessage("No speech detected. Please try again.");
         setFeedback("No speech detected. Please try again.");
         return;
       }
 
-      const durationSec = aggregate.duration ? aggregate.duration / 10000000 : 0;
-      const wpmRaw = durationSec > 0
-        ? Math.round((aggregate.wordCount / durationSec) * 60)
-        : 0;
-      const speedGrade = gradeReadingSpeed(wpmRaw, Math.max(1, aggregate.wordCount));
-      const pronScore = Math.round(aggregate.scores.pronunciation);
-
-      const expectedWordCount = Math.max(1, normalizeText(sentence).split(/\s+/).filter(Boolean).length);
-      const scoredWords = aggregate.words.filter((item) => typeof item.accuracyScore === "number");
-      const wordAccuracyAvg = scoredWords.length
-        ? scoredWords.reduce((sum, item) => sum + (item.accuracyScore ?? 0), 0) / scoredWords.length
-        : 0;
-      const omittedCount = aggregate.words.filter((item) => (item.accuracyScore ?? 0) === 0).length;
-
-      const accuracyScore = Math.round((aggregate.scores.accuracy * 0.6) + (wordAccuracyAvg * 0.4));
-      const fluencyScore = Math.round(wordAccuracyAvg);
-      const completenessScore = Math.round(
-        Math.max(0, 100 - ((omittedCount / expectedWordCount) * 100)),
-      );
+      const speedGrade = gradeReadingSpeed(assessment.readingSpeedWpm, Math.max(1, assessment.wordCount));
+      const pronScore = assessment.pronunciationScore;
+      const accuracyScore = assessment.accuracyScore;
       const averageScore = Math.min(
         100,
         Math.max(0, Math.round((pronScore + accuracyScore + speedGrade.score) / 3)),
       );
 
-      const phonemeHint = buildPhonemeHint(aggregate.phonemes);
-      const tutorFeedback = buildTutorFeedback(aggregate.words, sentence, phonemeHint);
+      const phonemeHint = buildPhonemeHint(assessment.phonemes);
+      const tutorFeedback = buildTutorFeedback(assessment.words, sentence, phonemeHint);
       const slideTutorFeedback = composeRuleBasedSlideFeedbackParagraph({
-        accuracyScore: accuracyScore,
-        readingSpeedWpm: wpmRaw,
+        accuracyScore,
+        readingSpeedWpm: assessment.readingSpeedWpm,
         slideAverage: averageScore,
       });
-      const wordSignals = getWordSignals(aggregate.words);
+      const wordSignals = getWordSignals(assessment.words);
 
-      const azureMetrics = {
+      const assessedMetrics = {
         pronScore,
         accuracyScore,
-        fluencyScore,
-        completenessScore,
-        wpm: wpmRaw,
+        fluencyScore: assessment.fluencyScore,
+        completenessScore: assessment.completenessScore,
+        wpm: assessment.readingSpeedWpm,
         readingSpeedScore: speedGrade.score,
         readingSpeedLabel: speedGrade.label,
-        wordCount: aggregate.wordCount,
+        wordCount: assessment.wordCount,
         averageScore,
-        transcription: aggregate.spoken,
-        wordFeedback: aggregate.words,
+        transcription: assessment.transcription,
+        wordFeedback: assessment.words,
+        provider: assessment.provider,
       };
 
-      const spoken = aggregate.spoken;
-      const words = aggregate.words;
+      const spoken = assessment.transcription;
 
       setRecognizedText(spoken);
       setLiveTranscription(spoken);
-      setWordFeedback(words);
-      setMetrics(azureMetrics);
+      setWordFeedback(assessment.words);
+      setMetrics(assessedMetrics);
       setFeedback(tutorFeedback);
       setStatusMessage("");
       void speakTutorFeedback(tutorFeedback);
 
       upsertSessionScore(current, sentence, {
-        pronScore: azureMetrics.pronScore,
-        correctness: azureMetrics.accuracyScore,
-        fluencyScore: azureMetrics.fluencyScore,
-        completenessScore: azureMetrics.completenessScore,
-        readingSpeedScore: azureMetrics.readingSpeedScore,
-        averageScore: azureMetrics.averageScore,
-        readingSpeedWpm: azureMetrics.wpm,
+        pronScore: assessedMetrics.pronScore,
+        correctness: assessedMetrics.accuracyScore,
+        fluencyScore: assessedMetrics.fluencyScore,
+        completenessScore: assessedMetrics.completenessScore,
+        readingSpeedScore: assessedMetrics.readingSpeedScore,
+        averageScore: assessedMetrics.averageScore,
+        readingSpeedWpm: assessedMetrics.wpm,
         transcription: spoken,
         readingTutorFeedback: slideTutorFeedback,
         difficultWords: wordSignals.difficultWords,
         strongWords: wordSignals.strongWords,
       });
     } catch (error) {
-      console.error("Azure speech recognition failed", error);
-      if (ALLOW_BROWSER_FALLBACK) {
-        setStatusMessage("Azure Speech failed. Switching to browser speech.");
-        setFeedback("Using browser speech recognition.");
-        didFallback = true;
-        await handleMicrophoneFallback();
-        return;
+      console.error("Speech assessment failed", error);
+      if (isActiveSession()) {
+        setStatusMessage("Speech assessment failed. Please try again.");
+        setFeedback("Speech assessment failed. Please try again.");
       }
-      setStatusMessage("Azure Speech failed. Please try again.");
-      setFeedback("Azure Speech failed. Please try again.");
     } finally {
-      activeRecognizerStopRef.current = null;
       if (isActiveSession()) {
-        recognizerClosedRef.current = true;
-        try {
-          recognizerRef.current?.close();
-        } catch {
-          // ignore
-        }
-        recognizerRef.current = null;
-      }
-      if (!didFallback) {
+        activeRecognizerStopRef.current = null;
         setIsListening(false);
         setIsProcessing(false);
       }
@@ -2462,6 +1882,20 @@ export default function FilipinoFlashcards({
     return null;
   }
 
+  if (isReviewActive && subjectId) {
+    return (
+      <ReviewDeckSession
+        studentId={selectedStudent.id}
+        studentName={formatStudentName(selectedStudent.name)}
+        subjectId={subjectId}
+        language="fil-PH"
+        words={reviewWords}
+        azureProvider={azureSpeechProvider}
+        onFinish={() => setReviewFinishedFor(selectedStudent.id)}
+      />
+    );
+  }
+
   const progressPercent = flashcardsData.length
     ? (showSummary ? 100 : ((current + 1) / flashcardsData.length) * 100)
     : 0;
@@ -0,0 +1,246 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ModalSection } from "@/components/Common/Modals/BaseModal";
+import ConfirmationModal from "@/components/Common/Modals/ConfirmationModal";
+import type { PhonemicLevelChange, SubjectName } from "@/lib/students/promote-phonemic";
+import type { StudentRegressionStatus } from "@/lib/students/phonemic-regression";
+
+type SubjectRegression = StudentRegressionStatus & { changes: PhonemicLevelChange[] };
+
+type LevelRegressionSectionProps = {
+  studentId: string;
+  studentName: string;
+  /** Teacher or remedial `phonemic-regression` endpoint. */
+  apiPath: string;
+  refreshKey?: number;
+  onLevelChanged?: (subject: SubjectName, levelName: string) => void;
+};
+
+const SUBJECTS: SubjectName[] = ["English", "Filipino", "Math"];
+
+const CHANGE_LABELS: Record<PhonemicLevelChange["changeType"], string> = {
+  promotion: "Promoted",
+  demotion: "Demoted",
+  reversal: "Demotion undone",
+  reset: "Reset for the new school year",
+};
+
+const formatDate = (value: string | null) => {
+  if (!value) return "";
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? "" : parsed.toLocaleDateString();
+};
+
+const describeSignal = (status: StudentRegressionStatus) => {
+  const parts: string[] = [];
+  if (status.signal.triggers.includes("below_floor")) {
+    parts.push(`${status.signal.belowFloorStreak} sessions in a row below the floor`);
+  }
+  if (status.signal.triggers.includes("declining") && status.signal.slope !== null) {
+    parts.push(`averages falling ${Math.abs(status.signal.slope).toFixed(1)} points per session`);
+  }
+  return parts.join(" and ");
+};
+
+/**
+ * Regression alerts and the recorded level history for each subject, with a
+ * demotion that needs a reason and an undo for the latest demotion.
+ */
+export default function LevelRegressionSection({
+  studentId,
+  studentName,
+  apiPath,
+  refreshKey = 0,
+  onLevelChanged,
+}: LevelRegressionSectionProps) {
+  const [subjects, setSubjects] = useState<Record<SubjectName, SubjectRegression> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [demoteSubject, setDemoteSubject] = useState<SubjectName | null>(null);
+  const [reason, setReason] = useState("");
+  const [pendingUndo, setPendingUndo] = useState<{ subject: SubjectName; change: PhonemicLevelChange } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!studentId) {
+      setSubjects(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`${apiPath}?${new URLSearchParams({ studentId }).toString()}`, {
+          signal: controller.signal,
+          cache: "no-store",
+        });
+        const payload = await response.json().catch(() => null);
+        if (!response.ok || !payload?.success || !payload?.subjects) {
+          throw new Error(payload?.error ?? "Unable to load the level history.");
+        }
+        setSubjects(payload.subjects as Record<SubjectName, SubjectRegression>);
+      } catch (loadError) {
+        if (controller.signal.aborted) return;
+        setSubjects(null);
+        setError(loadError instanceof Error ? loadError.message : "Unable to load the level history.");
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    void load();
+    return () => controller.abort();
+  }, [apiPath, studentId, refreshKey, reloadKey]);
+
+  const submit = async (body: Record<string, unknown>, subject: SubjectName) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(apiPath, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ studentId, ...body }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? "Unable to change the student's level.");
+      }
+      const levelName = payload?.change?.toLevelName ?? "";
+      if (levelName) onLevelChanged?.(subject, levelName);
+      setReloadKey((prev) => prev + 1);
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Unable to change the student's level.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDemote = async () => {
+    if (!demoteSubject || !reason.trim()) return;
+    await submit({ action: "demote", subject: demoteSubject, reason: reason.trim() }, demoteSubject);
+    setDemoteSubject(null);
+    setReason("");
+  };
+
+  return (
+    <ModalSection title="Level Regression and History">
+      <div className="space-y-3">
+        {error && (
+          <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+        {loading && !subjects && <p className="text-sm text-gray-500">Checking recent sessions...</p>}
+
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          {subjects &&
+            SUBJECTS.map((subject) => {
+              const entry = subjects[subject];
+              if (!entry) return null;
+              const regressing = entry.signal.regressing;
+              const latestChange = entry.changes[0] ?? null;
+              const canUndo = latestChange?.changeType === "demotion" && latestChange.reversedByChangeId === null;
+              return (
+                <div
+                  key={subject}
+                  className={`flex flex-col gap-2 rounded-xl border px-4 py-3 ${
+                    regressing ? "border-rose-200 bg-rose-50/50" : "border-gray-200 bg-white"
+                  }`}
+                >
+                  <div className="text-sm font-semibold text-gray-900">{subject}</div>
+                  <p className={`text-sm ${regressing ? "font-semibold text-rose-800" : "text-gray-600"}`}>
+                    {regressing ? `Possible regression: ${describeSignal(entry)}.` : "No regression detected."}
+                  </p>
+
+                  {entry.changes.length > 0 && (
+                    <ul className="space-y-1 text-xs text-gray-600">
+                      {entry.changes.slice(0, 4).map((change) => (
+                        <li key={change.changeId}>
+                          <span className="font-semibold text-gray-800">{CHANGE_LABELS[change.changeType]}</span>{" "}
+                          {change.fromLevelName ?? "—"} → {change.toLevelName ?? "—"} · {formatDate(change.createdAt)}
+                          {change.changeType !== "promotion" && <span className="block italic">{change.reason}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <div className="mt-auto flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setDemoteSubject(subject);
+                        setReason("");
+                      }}
+                      disabled={saving || entry.phonemicId === null}
+                      className="rounded-lg border border-rose-200 bg-white px-3 py-1.5 text-xs font-semibold text-rose-800 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Demote
+                    </button>
+                    {canUndo && latestChange && (
+                      <button
+                        type="button"
+                        onClick={() => setPendingUndo({ subject, change: latestChange })}
+                        disabled={saving}
+                        className="rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-xs font-semibold text-gray-700 transition hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Undo demotion
+                      </button>
+                    )}
+                  </div>
+
+                  {demoteSubject === subject && (
+                    <div className="space-y-2">
+                      <textarea
+                        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-black"
+                        rows={2}
+                        maxLength={500}
+                        placeholder="Reason for moving down one level"
+                        value={reason}
+                        onChange={(event) => setReason(event.target.value)}
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => void handleDemote()}
+                          disabled={saving || !reason.trim()}
+                          className="rounded-lg bg-rose-700 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-rose-800 disabled:opacity-50"
+                        >
+                          {saving ? "Saving..." : "Confirm demotion"}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setDemoteSubject(null)}
+                          className="rounded-lg px-3 py-1.5 text-xs font-semibold text-gray-600 hover:bg-gray-100"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+        </div>
+      </div>
+
+      <ConfirmationModal
+        isOpen={Boolean(pendingUndo)}
+        onClose={() => setPendingUndo(null)}
+        onConfirm={() => {
+          if (!pendingUndo) return;
+          const { subject, change } = pendingUndo;
+          setPendingUndo(null);
+          void submit({ action: "undo", changeId: change.changeId }, subject);
+        }}
+        title="Undo Demotion"
+        message={
+          pendingUndo
+            ? `Move ${studentName} back to ${pendingUndo.change.fromLevelName ?? "the previous level"} in ${pendingUndo.subject}?`
+            : ""
+        }
+      />
+    </ModalSection>
+  );
+}
@@ -11,6 +11,7 @@ import { getAiInsightsAction } from "@/app/actions/get-ai-insights";
 import { getStoredUserProfile } from "@/lib/utils/user-profile";
 import { translateTutorText, type TutorLanguage } from "@/lib/performance/tutor-language";
 import { buildFutureScheduleMessage, isScheduleInFuture } from "@/lib/remedial-schedule";
+import { saveRemedialSession } from "@/lib/remedial/offline-session-queue";
 
 const ALLOW_BROWSER_FALLBACK = process.env.NEXT_PUBLIC_ALLOW_SPEECH_FALLBACK === "true";
 const SESSION_EXIT_LOCK_MESSAGE = "Complete the remedial session before leaving this page.";
@@ -1500,36 +1501,31 @@ export default function MathFlashcards({
       }));
 
       try {
-        const response = await fetch("/api/remedial/session", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            studentId: selectedStudentId,
-            approvedScheduleId: approvedScheduleId ?? null,
-            subjectId: subjectId ?? null,
-            gradeId: gradeId ?? null,
-            subjectName: "Math",
-            gradeLevel: selectedStudent?.grade ?? null,
-            phonemicId: phonemicId ?? null,
-            materialId: materialId ?? null,
-            completed: showSummary,
-            slides,
-            teacherFeedback: teacherFeedback.trim() || null,
-          }),
+        const result = await saveRemedialSession({
+          studentId: selectedStudentId,
+          approvedScheduleId: approvedScheduleId ?? null,
+          subjectId: subjectId ?? null,
+          gradeId: gradeId ?? null,
+          subjectName: "Math",
+          gradeLevel: selectedStudent?.grade ?? null,
+          phonemicId: phonemicId ?? null,
+          materialId: materialId ?? null,
+          completed: showSummary,
+          slides,
+          teacherFeedback: teacherFeedback.trim() || null,
         });
 
-        const payload = (await response.json().catch(() => null)) as
-          | { success?: boolean; completed?: boolean; error?: string }
-          | null;
-        if (response.ok && payload?.success) {
+        if (result.status === "saved") {
           remedialSessionSaved = true;
           setDbProgressByStudent((prev) => ({ ...prev, [selectedStudentId]: true }));
           setDbCompletionByStudent((prev) => ({
             ...prev,
-            [selectedStudentId]: Boolean(payload.completed),
+            [selectedStudentId]: Boolean(result.body?.completed),
           }));
-        } else if (response.status !== 409) {
-          console.warn("Failed to save remedial session", payload?.error ?? response.statusText);
+        } else if (result.status === "queued") {
+          remedialSessionSaved = true;
+        } else if (result.response.status !== 409) {
+          console.warn("Failed to save remedial session", result.body?.error ?? result.response.statusText);
         }
       } catch (error) {
         console.warn("Failed to save remedial session", error);
@@ -0,0 +1,79 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  REMEDIAL_QUEUE_EVENT,
+  countQueuedRemedialSessions,
+  replayQueuedRemedialSessions,
+} from "@/lib/remedial/offline-session-queue";
+
+const REPLAY_INTERVAL_MS = 60_000;
+
+export default function PendingSyncIndicator() {
+  const [pending, setPending] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const [signInRequired, setSignInRequired] = useState(false);
+
+  const refreshCount = useCallback(() => {
+    countQueuedRemedialSessions()
+      .then(setPending)
+      .catch(() => setPending(0));
+  }, []);
+
+  const replay = useCallback(() => {
+    if (!navigator.onLine) return;
+    setSyncing(true);
+    replayQueuedRemedialSessions()
+      .then((result) => {
+        setPending(result.pending);
+        setSignInRequired(result.signInRequired);
+      })
+      .catch((error) => console.warn("Failed to replay queued remedial sessions", error))
+      .finally(() => setSyncing(false));
+  }, []);
+
+  useEffect(() => {
+    refreshCount();
+    replay();
+
+    window.addEventListener(REMEDIAL_QUEUE_EVENT, refreshCount);
+    window.addEventListener("online", replay);
+    const intervalId = window.setInterval(replay, REPLAY_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener(REMEDIAL_QUEUE_EVENT, refreshCount);
+      window.removeEventListener("online", replay);
+      window.clearInterval(intervalId);
+    };
+  }, [refreshCount, replay]);
+
+  if (pending === 0) {
+    return null;
+  }
+
+  const label = pending === 1 ? "1 remedial session" : `${pending} remedial sessions`;
+  const status = syncing
+    ? `Syncing ${label}...`
+    : signInRequired
+      ? `Sign in again to sync ${label}`
+      : `${label} waiting to sync`;
+
+  return (
+    <div className="pointer-events-none fixed bottom-4 left-4 z-[1300]">
+      <button
+        type="button"
+        onClick={replay}
+        disabled={syncing}
+        title={
+          signInRequired
+            ? "Saved on this device. Your login has expired; sign in again and it will upload automatically."
+            : "Saved on this device. It will upload automatically when the connection returns."
+        }
+        className="pointer-events-auto inline-flex items-center gap-2 rounded-full border border-amber-200 bg-amber-50/95 px-3 py-1.5 text-xs font-semibold text-amber-800 shadow-lg shadow-slate-900/10 disabled:opacity-80"
+      >
+        <span className={`h-2 w-2 rounded-full bg-amber-500 ${syncing ? "animate-pulse" : ""}`} />
+        {status}
+      </button>
+    </div>
+  );
+}
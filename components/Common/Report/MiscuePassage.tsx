@@ -0,0 +1,76 @@
+import React from "react";
+import { MISCUE_LABELS, MISCUE_TYPES, type MiscueAnalysis, type MiscueToken } from "@/lib/performance/miscues";
+
+const renderToken = (token: MiscueToken, key: number) => {
+  switch (token.type) {
+    case "omission":
+      return (
+        <span key={key} className="rounded bg-rose-50 px-0.5 text-rose-700 line-through" title="Omitted">
+          {token.expected}
+        </span>
+      );
+    case "substitution":
+      return (
+        <span key={key} className="inline-flex flex-col items-center leading-tight" title={`Read as "${token.spoken}"`}>
+          <span className="text-[11px] font-semibold text-amber-700">{token.spoken}</span>
+          <span className="border-t border-amber-500 text-slate-900">{token.expected}</span>
+        </span>
+      );
+    case "insertion":
+      return (
+        <span key={key} className="text-sky-700" title="Inserted">
+          <span className="font-semibold">^</span>
+          <em>{token.spoken}</em>
+        </span>
+      );
+    case "repetition":
+      return (
+        <span key={key} className="text-slate-500 underline decoration-dotted" title="Repeated">
+          {token.spoken}
+          <sup className="ml-0.5 font-semibold">R</sup>
+        </span>
+      );
+    case "self_correction":
+      return (
+        <span key={key} className="text-emerald-700" title="Self-corrected">
+          <em>{token.spoken}</em>
+          <sup className="ml-0.5 font-semibold">SC</sup>
+        </span>
+      );
+    default:
+      return (
+        <span key={key} className="text-slate-900">
+          {token.expected}
+        </span>
+      );
+  }
+};
+
+type MiscuePassageProps = {
+  analysis: MiscueAnalysis;
+};
+
+/**
+ * Running-record markup of one slide: omissions struck through, the spoken
+ * word written over each substitution, and insertions, repetitions (R) and
+ * self-corrections (SC) shown where the student said them.
+ */
+export default function MiscuePassage({ analysis }: MiscuePassageProps) {
+  return (
+    <div className="space-y-2">
+      <p className="flex flex-wrap items-end gap-x-1.5 gap-y-2 text-sm">
+        {analysis.tokens.map((token, index) => renderToken(token, index))}
+      </p>
+      <div className="flex flex-wrap gap-2 text-xs text-slate-600">
+        <span className="rounded-full bg-slate-100 px-2 py-0.5 font-semibold text-slate-700">
+          Accuracy {analysis.accuracyRate}%
+        </span>
+        {MISCUE_TYPES.map((type) => (
+          <span key={type} className="rounded-full bg-slate-100 px-2 py-0.5">
+            {MISCUE_LABELS[type]}: {analysis.counts[type]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
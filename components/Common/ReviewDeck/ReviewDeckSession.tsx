@@ -0,0 +1,195 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { FiArrowRight } from "react-icons/fi";
+import { assessWithConfiguredProvider } from "@/lib/speech-assessment/client";
+import type { SpeechAssessmentProvider } from "@/lib/speech-assessment/provider";
+import {
+  LEITNER_INTERVAL_DAYS,
+  REVIEW_PASS_SCORE,
+  submitReviewScores,
+  type ReviewDeckWord,
+  type ReviewWordScore,
+} from "@/lib/remedial/review-deck";
+
+type ReviewDeckSessionProps = {
+  studentId: string;
+  studentName: string;
+  subjectId: number;
+  /** BCP-47 recognition language, e.g. `en-US` or `fil-PH`. */
+  language: string;
+  words: ReviewDeckWord[];
+  azureProvider: SpeechAssessmentProvider;
+  /** Called once the review results are saved, or when the teacher skips the review. */
+  onFinish: () => void;
+};
+
+/**
+ * "Review" mode shown before a remedial lesson: the student reads each due
+ * word from their spaced-repetition deck once, and the scores move the words
+ * between Leitner boxes.
+ */
+export default function ReviewDeckSession({
+  studentId,
+  studentName,
+  subjectId,
+  language,
+  words,
+  azureProvider,
+  onFinish,
+}: ReviewDeckSessionProps) {
+  const [index, setIndex] = useState(0);
+  const [results, setResults] = useState<ReviewWordScore[]>([]);
+  const [isListening, setIsListening] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [heard, setHeard] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const stopRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => stopRef.current?.abort(), []);
+
+  const currentWord = words[index] ?? null;
+  const currentResult = currentWord ? results.find((item) => item.word === currentWord.word) ?? null : null;
+  const isLast = index >= words.length - 1;
+
+  const finish = async (collected: ReviewWordScore[]) => {
+    stopRef.current?.abort();
+    if (!collected.length) {
+      onFinish();
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await submitReviewScores(studentId, subjectId, collected);
+      onFinish();
+    } catch (error) {
+      console.error("Unable to save review results", error);
+      setMessage(error instanceof Error ? error.message : "Unable to save review results.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMicrophone = async () => {
+    if (!currentWord) return;
+    if (isListening) {
+      stopRef.current?.abort();
+      return;
+    }
+    if (isProcessing) return;
+
+    const controller = new AbortController();
+    stopRef.current = controller;
+    setIsProcessing(true);
+    setHeard("");
+    setMessage(null);
+    try {
+      const assessment = await assessWithConfiguredProvider(
+        {
+          expectedText: currentWord.word,
+          language,
+          stopSignal: controller.signal,
+          maxDurationMs: 8000,
+          onListening: () => setIsListening(true),
+          onInterim: (text) => setHeard(text),
+        },
+        { azure: azureProvider },
+      );
+      if (!assessment) {
+        setMessage("No speech detected. Please try again.");
+        return;
+      }
+      setHeard(assessment.transcription);
+      const score = assessment.accuracyScore;
+      setResults((prev) => [...prev.filter((item) => item.word !== currentWord.word), { word: currentWord.word, score }]);
+    } catch (error) {
+      console.error("Review word assessment failed", error);
+      setMessage("Unable to check this word right now. Please try again.");
+    } finally {
+      setIsListening(false);
+      setIsProcessing(false);
+    }
+  };
+
+  const handleNext = () => {
+    if (isLast) {
+      void finish(results);
+      return;
+    }
+    setIndex((prev) => prev + 1);
+    setHeard("");
+    setMessage(null);
+  };
+
+  if (!currentWord) {
+    return null;
+  }
+
+  const passed = currentResult ? currentResult.score >= REVIEW_PASS_SCORE : null;
+
+  return (
+    <div className="relative min-h-dvh bg-linear-to-br from-[#edf9f1] via-[#f5fbf7] to-[#e7f4ec]">
+      <div className="w-full max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 flex min-h-dvh flex-col gap-5">
+        <header className="rounded-3xl border border-gray-300 bg-white/70 backdrop-blur px-8 py-5 flex flex-col gap-2 shadow-md shadow-gray-200 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.35em] text-emerald-700">Review</p>
+            <h1 className="text-3xl font-bold text-[#0d1b16]">{studentName}</h1>
+          </div>
+          <p className="text-sm text-slate-600">
+            Word <span className="font-semibold text-[#013300]">{index + 1}</span> of {words.length} due today
+          </p>
+        </header>
+
+        <section className="flex flex-1 flex-col items-center justify-center gap-6 rounded-3xl border border-white/70 bg-white/60 px-6 py-12 text-center shadow-md shadow-gray-200">
+          <p
+            className="text-5xl sm:text-6xl font-semibold text-[#013300]"
+            style={{ fontFamily: "'Century Gothic', CenturyGothic, AppleGothic, sans-serif" }}
+          >
+            {currentWord.word}
+          </p>
+          <p className="text-xs text-slate-500">
+            Box {currentWord.box} of {LEITNER_INTERVAL_DAYS.length}
+            {currentWord.lastScore !== null ? ` • last score ${Math.round(currentWord.lastScore)}%` : ""}
+          </p>
+          <button
+            type="button"
+            onClick={handleMicrophone}
+            disabled={isSaving || (isProcessing && !isListening)}
+            className={`rounded-full px-8 py-3 text-sm font-medium text-white shadow-md transition ${
+              isListening ? "bg-rose-600 hover:bg-rose-700" : "bg-[#013300] hover:bg-green-800"
+            } disabled:cursor-not-allowed disabled:opacity-60`}
+          >
+            {isListening ? "Stop" : isProcessing ? "Preparing..." : currentResult ? "Read again" : "Read word"}
+          </button>
+          {heard && <p className="text-sm text-slate-600">Heard: “{heard}”</p>}
+          {passed !== null && (
+            <p className={`text-sm font-semibold ${passed ? "text-emerald-700" : "text-amber-700"}`}>
+              {passed ? "Read correctly" : "Needs more practice"} ({Math.round(currentResult?.score ?? 0)}%)
+            </p>
+          )}
+          {message && <p className="text-sm text-rose-600">{message}</p>}
+        </section>
+
+        <div className="flex flex-col-reverse gap-3 sm:flex-row sm:justify-between">
+          <button
+            type="button"
+            onClick={() => void finish(results)}
+            disabled={isSaving}
+            className="rounded-full border border-[#013300] px-6 py-3 text-sm font-medium text-[#013300] transition hover:bg-emerald-50 disabled:opacity-60"
+          >
+            Skip review and start lesson
+          </button>
+          <button
+            type="button"
+            onClick={handleNext}
+            disabled={isSaving || isProcessing}
+            className="inline-flex items-center justify-center gap-2 rounded-full bg-[#013300] px-7 py-3 text-sm font-medium text-white shadow-md transition hover:bg-green-800 disabled:opacity-60"
+          >
+            {isSaving ? "Saving..." : isLast ? "Finish review" : "Next word"} <FiArrowRight />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import BaseModal, { ModalLabel, ModalSection } from "@/components/Common/Modals/BaseModal";
+import PrimaryButton from "@/components/Common/Buttons/PrimaryButton";
+import SecondaryButton from "@/components/Common/Buttons/SecondaryButton";
+import DangerButton from "@/components/Common/Buttons/DangerButton";
+
+type PhonemicAction = "carry" | "reset";
+
+type PhonemicRule = {
+  subject: string;
+  gradeId: number;
+  action: PhonemicAction;
+};
+
+type RolloverReport = {
+  fromSchoolYear: string;
+  toSchoolYear: string;
+  students: {
+    total: number;
+    promoted: number;
+    graduating: number;
+    unassigned: number;
+    sectionsCleared: number;
+    moves: Array<{ fromGrade: number; toGrade: number | null; students: number; sectionsCleared: number }>;
+  };
+  phonemic: Array<{ subject: string; carried: number; reset: number }>;
+  activeAssignments: number;
+  archives: Array<{ table: string; label: string; available: boolean; rows: number }>;
+  warnings: string[];
+  blockers: string[];
+  token: string;
+};
+
+type RolloverHistoryEntry = {
+  rolloverId: number;
+  fromSchoolYear: string;
+  toSchoolYear: string;
+  performedAt: string | null;
+};
+
+interface SchoolYearRolloverWizardProps {
+  show: boolean;
+  onClose: () => void;
+  /** IT Admin or Principal rollover endpoint; the pre-flight check is posted to `${endpoint}/preflight`. */
+  endpoint: string;
+  onCompleted?: () => void;
+}
+
+const SUBJECTS = ["English", "Filipino", "Math"] as const;
+const OVERRIDE_GRADES = [2, 3, 4, 5, 6] as const;
+const CONFIRM_TEXT = "ROLLOVER";
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "--";
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? value : parsed.toLocaleString();
+}
+
+export default function SchoolYearRolloverWizard({ show, onClose, endpoint, onCompleted }: SchoolYearRolloverWizardProps) {
+  const [step, setStep] = useState<"setup" | "review" | "done">("setup");
+  const [schoolYear, setSchoolYear] = useState("");
+  const [rules, setRules] = useState<PhonemicRule[]>([]);
+  const [history, setHistory] = useState<RolloverHistoryEntry[]>([]);
+  const [report, setReport] = useState<RolloverReport | null>(null);
+  const [confirmText, setConfirmText] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDefaults = useCallback(async () => {
+    try {
+      const response = await fetch(endpoint, { cache: "no-store" });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error ?? "Unable to load school-year rollovers.");
+      }
+      setSchoolYear(data.currentSchoolYear ?? "");
+      setRules(data.defaultRules ?? []);
+      setHistory(data.history ?? []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load school-year rollovers.");
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    if (!show) return;
+    setStep("setup");
+    setReport(null);
+    setConfirmText("");
+    void loadDefaults();
+  }, [show, loadDefaults]);
+
+  const ruleFor = (subject: string, gradeId: number) =>
+    rules.find((rule) => rule.subject === subject && rule.gradeId === gradeId)?.action ?? "";
+
+  const setRule = (subject: string, gradeId: number, action: PhonemicAction | "") => {
+    setRules((prev) => {
+      const others = prev.filter((rule) => !(rule.subject === subject && rule.gradeId === gradeId));
+      return action ? [...others, { subject, gradeId, action }] : others;
+    });
+  };
+
+  const post = async (url: string, body: Record<string, unknown>) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ schoolYear, phonemicRules: rules, ...body }),
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data?.success) {
+      throw new Error(data?.error ?? "The school-year rollover request failed.");
+    }
+    return data.report as RolloverReport;
+  };
+
+  const runPreflight = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setReport(await post(`${endpoint}/preflight`, {}));
+      setConfirmText("");
+      setStep("review");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to check the school-year rollover.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const commit = async () => {
+    if (!report) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setReport(await post(endpoint, { token: report.token, confirmText }));
+      setStep("done");
+      onCompleted?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "School-year rollover failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const footer =
+    step === "setup" ? (
+      <>
+        <SecondaryButton type="button" onClick={onClose}>
+          Cancel
+        </SecondaryButton>
+        <PrimaryButton type="button" onClick={runPreflight} disabled={busy || !schoolYear.trim()}>
+          {busy ? "Checking..." : "Run Pre-flight Check"}
+        </PrimaryButton>
+      </>
+    ) : step === "review" ? (
+      <>
+        <SecondaryButton type="button" onClick={() => setStep("setup")} disabled={busy}>
+          Back
+        </SecondaryButton>
+        <DangerButton
+          type="button"
+          onClick={commit}
+          disabled={busy || (report?.blockers.length ?? 0) > 0 || confirmText.trim().toUpperCase() !== CONFIRM_TEXT}
+        >
+          {busy ? "Rolling over..." : "Commit Rollover"}
+        </DangerButton>
+      </>
+    ) : (
+      <PrimaryButton type="button" onClick={onClose}>
+        Done
+      </PrimaryButton>
+    );
+
+  return (
+    <BaseModal show={show} onClose={busy ? () => undefined : onClose} title="School Year Rollover" maxWidth="3xl" footer={footer}>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {step === "setup" && (
+        <>
+          <ModalSection title="School Year">
+            <div className="space-y-1">
+              <ModalLabel required>Year being closed</ModalLabel>
+              <input
+                type="text"
+                value={schoolYear}
+                onChange={(event) => setSchoolYear(event.target.value)}
+                placeholder="2025-2026"
+                className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-black sm:w-48"
+              />
+            </div>
+            <p className="text-xs text-gray-600">
+              Learners move up one grade, Grade 6 learners graduate into the recovery center archive, and classroom and
+              remedial teacher assignments end. Schedules, activities and assessments of the closed year are archived.
+            </p>
+          </ModalSection>
+
+          <ModalSection title="Phonemic Levels">
+            <p className="text-xs text-gray-600">
+              Choose whether each subject keeps the learner&apos;s current level or starts over at the first level. Grade
+              columns override the all-grades rule for learners entering that grade.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-left text-xs text-gray-700">
+                <thead className="text-gray-600">
+                  <tr>
+                    <th className="px-2 py-1">Subject</th>
+                    <th className="px-2 py-1">All grades</th>
+                    {OVERRIDE_GRADES.map((grade) => (
+                      <th key={grade} className="px-2 py-1">
+                        Entering G{grade}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {SUBJECTS.map((subject) => (
+                    <tr key={subject}>
+                      <td className="px-2 py-1 font-medium">{subject}</td>
+                      <td className="px-2 py-1">
+                        <select
+                          value={ruleFor(subject, 0) || "carry"}
+                          onChange={(event) => setRule(subject, 0, event.target.value as PhonemicAction)}
+                          className="rounded-md border border-gray-300 bg-white px-2 py-1"
+                        >
+                          <option value="carry">Carry forward</option>
+                          <option value="reset">Reset</option>
+                        </select>
+                      </td>
+                      {OVERRIDE_GRADES.map((grade) => (
+                        <td key={grade} className="px-2 py-1">
+                          <select
+                            value={ruleFor(subject, grade)}
+                            onChange={(event) => setRule(subject, grade, event.target.value as PhonemicAction | "")}
+                            className="rounded-md border border-gray-300 bg-white px-2 py-1"
+                          >
+                            <option value="">Default</option>
+                            <option value="carry">Carry</option>
+                            <option value="reset">Reset</option>
+                          </select>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </ModalSection>
+
+          {history.length > 0 && (
+            <ModalSection title="Previous Rollovers">
+              <ul className="space-y-1 text-xs text-gray-700">
+                {history.map((entry) => (
+                  <li key={entry.rolloverId}>
+                    {entry.fromSchoolYear} → {entry.toSchoolYear} · {formatDateTime(entry.performedAt)}
+                  </li>
+                ))}
+              </ul>
+            </ModalSection>
+          )}
+        </>
+      )}
+
+      {step !== "setup" && report && (
+        <>
+          {step === "done" && (
+            <p className="rounded-md bg-green-50 px-3 py-2 text-sm font-medium text-green-800">
+              School year {report.fromSchoolYear} was rolled over to {report.toSchoolYear}.
+            </p>
+          )}
+          {report.blockers.map((message) => (
+            <p key={message} className="rounded-md bg-red-50 px-3 py-2 text-sm text-red-700">
+              {message}
+            </p>
+          ))}
+          {report.warnings.map((message) => (
+            <p key={message} className="rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+              {message}
+            </p>
+          ))}
+
+          <ModalSection title={`Learners (${report.fromSchoolYear} → ${report.toSchoolYear})`}>
+            <p className="text-sm text-gray-700">
+              {report.students.promoted} promoted · {report.students.graduating} graduating ·{" "}
+              {report.students.sectionsCleared} sections cleared · {report.students.unassigned} without a grade
+            </p>
+            <ul className="space-y-1 text-xs text-gray-700">
+              {report.students.moves.map((move) => (
+                <li key={move.fromGrade}>
+                  Grade {move.fromGrade} → {move.toGrade ? `Grade ${move.toGrade}` : "Graduated"}: {move.students} learner(s)
+                  {move.sectionsCleared > 0 ? `, ${move.sectionsCleared} without a matching section` : ""}
+                </li>
+              ))}
+            </ul>
+          </ModalSection>
+
+          <ModalSection title="Phonemic Levels and Assignments">
+            <ul className="space-y-1 text-xs text-gray-700">
+              {report.phonemic.map((entry) => (
+                <li key={entry.subject}>
+                  {entry.subject}: {entry.carried} carried forward, {entry.reset} reset
+                </li>
+              ))}
+              <li>{report.activeAssignments} active teacher assignment(s) will end</li>
+            </ul>
+          </ModalSection>
+
+          <ModalSection title="Archived Records">
+            <ul className="space-y-1 text-xs text-gray-700">
+              {report.archives.map((entry) => (
+                <li key={entry.table}>
+                  {entry.label}: {entry.available ? `${entry.rows} row(s)` : "not available"}
+                </li>
+              ))}
+            </ul>
+          </ModalSection>
+
+          {step === "review" && report.blockers.length === 0 && (
+            <div className="space-y-1">
+              <ModalLabel required>Type {CONFIRM_TEXT} to commit</ModalLabel>
+              <input
+                type="text"
+                value={confirmText}
+                onChange={(event) => setConfirmText(event.target.value)}
+                placeholder={CONFIRM_TEXT}
+                disabled={busy}
+                className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-black sm:w-48"
+              />
+            </div>
+          )}
+        </>
+      )}
+    </BaseModal>
+  );
+}
@@ -15,7 +15,7 @@ interface HeaderProps {
 
 type MaterialNotificationItem = {
   id: string;
-  source: "Teacher" | "Remedial Teacher";
+  source: "Teacher" | "Remedial Teacher" | "Notification";
   title: string;
   createdAt: string;
 };
@@ -42,6 +42,7 @@ export default function MasterTeacherHeader({ title }: HeaderProps) {
   const router = useRouter();
   const isCoordinatorView = Boolean(pathname?.startsWith("/MasterTeacher/Coordinator"));
   const lastSyncedRoleRef = React.useRef<"coordinator" | "remedial" | null>(null);
+  const inboxIdsRef = React.useRef<number[]>([]);
 
   const syncRoleContext = React.useCallback(async (roleContext: "coordinator" | "remedial") => {
     if (lastSyncedRoleRef.current === roleContext) {
@@ -157,13 +158,15 @@ export default function MasterTeacherHeader({ title }: HeaderProps) {
         pageSize: "25",
       });
 
-      const [teacherRes, remedialRes] = await Promise.all([
+      const [teacherRes, remedialRes, inboxRes] = await Promise.all([
         fetch(`/api/materials?${teacherParams.toString()}`, { cache: "no-store" }),
         fetch(`/api/master_teacher/coordinator/materials?${remedialParams.toString()}`, { cache: "no-store" }),
+        fetch("/api/master_teacher/coordinator/notifications", { cache: "no-store" }),
       ]);
 
       const teacherPayload = await teacherRes.json().catch(() => null);
       const remedialPayload = await remedialRes.json().catch(() => null);
+      const inboxPayload = await inboxRes.json().catch(() => null);
 
       const teacherRows: Array<Record<string, unknown>> = Array.isArray(teacherPayload?.data) ? teacherPayload.data : [];
       const remedialRows: Array<Record<string, unknown>> = Array.isArray(remedialPayload?.data) ? remedialPayload.data : [];
@@ -190,7 +193,18 @@ export default function MasterTeacherHeader({ title }: HeaderProps) {
               : new Date().toISOString(),
       }));
 
-      const merged = [...teacherItems, ...remedialItems].sort((a, b) => {
+      const inboxRows: Array<Record<string, unknown>> = Array.isArray(inboxPayload?.notifications)
+        ? inboxPayload.notifications
+        : [];
+      const inboxItems: MaterialNotificationItem[] = inboxRows.map((row, index) => ({
+        id: `inbox-${String(row.id ?? index)}`,
+        source: "Notification",
+        title: typeof row.message === "string" ? row.message : "",
+        createdAt: typeof row.createdAt === "string" ? row.createdAt : new Date().toISOString(),
+      }));
+      inboxIdsRef.current = inboxRows.map((row) => Number(row.id)).filter((id) => Number.isInteger(id) && id > 0);
+
+      const merged = [...teacherItems, ...remedialItems, ...inboxItems].sort((a, b) => {
         const aTime = new Date(a.createdAt).getTime();
         const bTime = new Date(b.createdAt).getTime();
         return bTime - aTime;
@@ -198,7 +212,7 @@ export default function MasterTeacherHeader({ title }: HeaderProps) {
 
       const teacherTotal = Number(teacherPayload?.pagination?.total ?? teacherItems.length);
       const remedialTotal = Number(remedialPayload?.pagination?.total ?? remedialItems.length);
-      const totalPending = teacherTotal + remedialTotal;
+      const totalPending = teacherTotal + remedialTotal + inboxItems.length;
 
       setNotifications(merged);
       setUnreadCount(Number.isFinite(totalPending) ? totalPending : merged.length);
@@ -269,7 +283,16 @@ export default function MasterTeacherHeader({ title }: HeaderProps) {
                   const willOpen = !showNotifications;
                   setShowNotifications(willOpen);
                   if (willOpen) {
-                    void loadCoordinatorNotifications();
+                    void loadCoordinatorNotifications().then(() => {
+                      const ids = inboxIdsRef.current;
+                      if (!ids.length) return;
+                      // Inbox notices count as read once shown; material submissions stay pending.
+                      void fetch("/api/master_teacher/coordinator/notifications", {
+                        method: "PATCH",
+                        headers: { "Content-Type": "application/json" },
+                        body: JSON.stringify({ ids }),
+                      }).catch(() => undefined);
+                    });
                   }
                 }}
               >
@@ -337,7 +360,7 @@ export default function MasterTeacherHeader({ title }: HeaderProps) {
                         <path d="M10.268 21a2 2 0 0 0 3.464 0" />
                         <path d="M3.262 15.326A1 1 0 0 0 4 17h16a1 1 0 0 0 .74-1.673C19.41 13.956 18 12.499 18 8A6 6 0 0 0 6 8c0 4.499-1.411 5.956-2.738 7.326" />
                       </svg>
-                      <p className="text-gray-500">No pending material submissions.</p>
+                      <p className="text-gray-500">No pending material submissions or notifications.</p>
                     </div>
                   ) : (
                     <div className="divide-y divide-gray-100">
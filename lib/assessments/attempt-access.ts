@@ -0,0 +1,133 @@
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { isAssessmentRangeWithinLimit } from "@/lib/assessments/schedule-utils";
+
+/** A student-facing refusal; the message is safe to show and `status` is the HTTP status to answer with. */
+export class AssessmentAccessError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "AssessmentAccessError";
+    this.status = status;
+  }
+}
+
+export const QUIZ_CODE_PATTERN = /^[A-Z0-9]{6}$/;
+
+export type AccessStudentRow = RowDataPacket & {
+  student_id: string;
+  lrn: string | null;
+  first_name: string | null;
+  middle_name: string | null;
+  last_name: string | null;
+};
+
+export type AccessAssessmentRow = RowDataPacket & {
+  assessment_id: number;
+  title: string;
+  start_time: string | Date | null;
+  end_time: string | Date | null;
+  is_published: number | boolean;
+};
+
+export type JoinRequest = { quizCode: string; lrn: string; qrToken: string | null };
+
+/** Reads the quiz code, LRN and optional QR token a student submits, or says what is missing. */
+export function parseJoinRequest(payload: unknown): JoinRequest | string {
+  const body = (payload ?? {}) as { quizCode?: unknown; lrn?: unknown; qrToken?: unknown; token?: unknown };
+  const quizCode = typeof body.quizCode === "string" ? body.quizCode.trim().toUpperCase() : "";
+  const lrn = typeof body.lrn === "string" ? body.lrn.trim() : "";
+  const rawToken = body.qrToken ?? body.token;
+  const qrToken = typeof rawToken === "string" ? rawToken.trim() || null : null;
+
+  if (!quizCode || !lrn) {
+    return "Quiz code and LRN are required.";
+  }
+  if (!QUIZ_CODE_PATTERN.test(quizCode)) {
+    return "Quiz code must be 6 letters or numbers.";
+  }
+  return { quizCode, lrn, qrToken };
+}
+
+const toTimestamp = (value: string | Date | null | undefined) => {
+  if (!value) return Number.NaN;
+  if (value instanceof Date) return value.getTime();
+  const parsed = Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : Number.NaN;
+};
+
+export function assertAssessmentIsActive(
+  assessment: Pick<AccessAssessmentRow, "start_time" | "end_time">,
+  now = Date.now(),
+): void {
+  const startTime = toTimestamp(assessment.start_time);
+  const endTime = toTimestamp(assessment.end_time);
+
+  if (!Number.isFinite(startTime) || now < startTime) {
+    throw new AssessmentAccessError("This assessment is pending and not active yet.", 409);
+  }
+
+  if (Number.isFinite(endTime) && now > endTime) {
+    throw new AssessmentAccessError("This assessment is already completed and no longer active.", 409);
+  }
+}
+
+/** Joining also needs the assessment published with a schedule the editor would accept. */
+export function assertAssessmentIsJoinable(
+  assessment: Pick<AccessAssessmentRow, "start_time" | "end_time" | "is_published">,
+  now = Date.now(),
+): void {
+  if (!Boolean(Number(assessment.is_published))) {
+    throw new AssessmentAccessError("This assessment has not been published yet.", 409);
+  }
+
+  if (!isAssessmentRangeWithinLimit(assessment.start_time, assessment.end_time)) {
+    throw new AssessmentAccessError(
+      "This assessment has an invalid schedule. Please ask your teacher to update it.",
+      409,
+    );
+  }
+
+  assertAssessmentIsActive(assessment, now);
+}
+
+export const buildStudentName = (student: AccessStudentRow) =>
+  [student.first_name, student.middle_name, student.last_name].filter(Boolean).join(" ").trim();
+
+export async function findStudentByLrn(connection: PoolConnection, lrn: string): Promise<AccessStudentRow | null> {
+  const [rows] = await connection.query<AccessStudentRow[]>(
+    `SELECT student_id, lrn, first_name, middle_name, last_name
+     FROM student
+     WHERE lrn = ?
+     LIMIT 1`,
+    [lrn],
+  );
+  return rows[0] ?? null;
+}
+
+/** Reuses the student's in-progress attempt, or starts one. */
+export async function startOrResumeAttempt(
+  connection: PoolConnection,
+  assessmentId: number,
+  student: AccessStudentRow,
+  lrn: string,
+): Promise<{ attemptId: number; resumed: boolean }> {
+  const [attemptRows] = await connection.query<RowDataPacket[]>(
+    `SELECT attempt_id
+     FROM assessment_attempts
+     WHERE assessment_id = ? AND student_id = ? AND status = 'in_progress'
+     ORDER BY attempt_id DESC
+     LIMIT 1`,
+    [assessmentId, student.student_id],
+  );
+  if (attemptRows.length > 0) {
+    return { attemptId: Number(attemptRows[0].attempt_id), resumed: true };
+  }
+
+  const [insertAttempt] = await connection.query<ResultSetHeader>(
+    `INSERT INTO assessment_attempts (assessment_id, student_id, lrn, started_at, status)
+     VALUES (?, ?, ?, NOW(), 'in_progress')`,
+    [assessmentId, student.student_id, student.lrn ?? lrn],
+  );
+  return { attemptId: insertAttempt.insertId, resumed: false };
+}
@@ -0,0 +1,434 @@
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { normalizeQuestionType } from "@/lib/assessments/utils";
+import { toPhonemicSubjectName } from "@/lib/phonemic-levels";
+
+/** Absolute tolerance applied when comparing numeric answers. */
+export const NUMERIC_ANSWER_TOLERANCE = 0.01;
+
+/** Alternate accepted answers are stored in `correct_answer_text` separated by this character. */
+export const ACCEPTED_ANSWER_SEPARATOR = "|";
+
+export type GradingChoice = {
+  choiceId: number;
+  choiceText: string;
+  isCorrect: boolean;
+};
+
+export type GradingQuestion = {
+  questionId: number;
+  questionType: string;
+  points: number;
+  correctAnswerText: string | null;
+  caseSensitive: boolean;
+  subjectName: string | null;
+  choices: GradingChoice[];
+};
+
+export type GradingResponse = {
+  selectedChoiceId?: number | null;
+  answerText?: string | null;
+};
+
+export type GradingMethod = "choice" | "true_false" | "text" | "numeric";
+
+export type GradingResult = {
+  isCorrect: boolean;
+  score: number;
+  selectedChoiceId: number | null;
+  method: GradingMethod;
+};
+
+type Grader = (question: GradingQuestion, response: GradingResponse) => GradingResult;
+
+type QueryExecutor = Pick<PoolConnection, "query">;
+
+const TRUE_WORDS = new Set(["true", "t", "yes", "y", "tama", "oo", "totoo"]);
+const FALSE_WORDS = new Set(["false", "f", "no", "n", "mali", "hindi"]);
+
+const buildResult = (
+  question: GradingQuestion,
+  isCorrect: boolean,
+  method: GradingMethod,
+  selectedChoiceId: number | null = null,
+): GradingResult => ({
+  isCorrect,
+  score: isCorrect ? question.points : 0,
+  selectedChoiceId,
+  method,
+});
+
+/**
+ * Lowercases, strips accents and punctuation, and collapses whitespace so that
+ * "Ñino!" and "nino" compare equal.
+ */
+export function normalizeAnswerText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9.\-/\s]/g, " ")
+    .replace(/(^|[^0-9])[.\-/]+/g, "$1 ")
+    .replace(/[.\-/]+(?=[^0-9]|$)/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Number of typos tolerated for an expected answer: none for short words,
+ * one from five characters and two from twelve.
+ */
+const allowedTypos = (expected: string): number => {
+  if (expected.length >= 12) return 2;
+  if (expected.length >= 5) return 1;
+  return 0;
+};
+
+export function splitAcceptedAnswers(correctAnswerText: string | null | undefined): string[] {
+  return String(correctAnswerText ?? "")
+    .split(ACCEPTED_ANSWER_SEPARATOR)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+export function isTextAnswerMatch(answer: string, expected: string, caseSensitive = false): boolean {
+  if (caseSensitive) {
+    return answer.trim().replace(/\s+/g, " ") === expected.trim().replace(/\s+/g, " ");
+  }
+
+  const normalizedAnswer = normalizeAnswerText(answer);
+  const normalizedExpected = normalizeAnswerText(expected);
+  if (!normalizedAnswer || !normalizedExpected) {
+    return false;
+  }
+  if (normalizedAnswer === normalizedExpected) {
+    return true;
+  }
+
+  // Numbers must match exactly; a typo tolerance would accept "15" for "16".
+  if (/\d/.test(normalizedExpected)) {
+    return false;
+  }
+
+  return levenshteinDistance(normalizedAnswer, normalizedExpected) <= allowedTypos(normalizedExpected);
+}
+
+/**
+ * Parses integers, decimals, thousands separators, fractions ("3/4") and mixed
+ * numbers ("1 1/2"). Returns null when the text is not a single number.
+ */
+export function parseNumericAnswer(value: string | null | undefined): number | null {
+  const text = String(value ?? "").trim().replace(/\s+/g, " ");
+  if (!text) return null;
+
+  const mixed = text.match(/^(-?\d+) (\d+)\/(\d+)$/);
+  if (mixed) {
+    const whole = Number(mixed[1]);
+    const denominator = Number(mixed[3]);
+    if (!denominator) return null;
+    const fraction = Number(mixed[2]) / denominator;
+    return whole < 0 ? whole - fraction : whole + fraction;
+  }
+
+  const fraction = text.match(/^(-?\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator ? Number(fraction[1]) / denominator : null;
+  }
+
+  const plain = text.replace(/^(-?\d{1,3}(?:,\d{3})+)(\.\d+)?$/, (_match, whole: string, decimals?: string) =>
+    `${whole.replace(/,/g, "")}${decimals ?? ""}`,
+  );
+  if (!/^-?(\d+(\.\d*)?|\.\d+)$/.test(plain)) {
+    return null;
+  }
+
+  const parsed = Number(plain);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function isNumericAnswerMatch(
+  answer: string,
+  expected: string,
+  tolerance = NUMERIC_ANSWER_TOLERANCE,
+): boolean {
+  const answerValue = parseNumericAnswer(answer);
+  const expectedValue = parseNumericAnswer(expected);
+  if (answerValue === null || expectedValue === null) {
+    return false;
+  }
+  return Math.abs(answerValue - expectedValue) <= tolerance + Number.EPSILON;
+}
+
+const isMathSubject = (subjectName: string | null) => toPhonemicSubjectName(subjectName) === "Math";
+
+const resolveChoice = (question: GradingQuestion, response: GradingResponse): GradingChoice | null => {
+  if (response.selectedChoiceId != null) {
+    const selected = question.choices.find((choice) => choice.choiceId === Number(response.selectedChoiceId));
+    if (selected) {
+      return selected;
+    }
+  }
+
+  // Choice ids change when an assessment is edited, so fall back to the stored choice text.
+  const answerText = response.answerText?.trim();
+  if (!answerText) {
+    return null;
+  }
+
+  const normalized = normalizeAnswerText(answerText);
+  return question.choices.find((choice) => normalizeAnswerText(choice.choiceText) === normalized) ?? null;
+};
+
+const gradeChoice: Grader = (question, response) => {
+  const choice = resolveChoice(question, response);
+  return buildResult(question, Boolean(choice?.isCorrect), "choice", choice?.choiceId ?? null);
+};
+
+const parseBooleanAnswer = (value: string | null | undefined): boolean | null => {
+  const normalized = normalizeAnswerText(String(value ?? ""));
+  if (TRUE_WORDS.has(normalized)) return true;
+  if (FALSE_WORDS.has(normalized)) return false;
+  return null;
+};
+
+const gradeTrueFalse: Grader = (question, response) => {
+  if (question.choices.length > 0) {
+    const choice = resolveChoice(question, response);
+    if (choice) {
+      return buildResult(question, choice.isCorrect, "true_false", choice.choiceId);
+    }
+  }
+
+  const expected =
+    parseBooleanAnswer(question.correctAnswerText) ??
+    parseBooleanAnswer(question.choices.find((choice) => choice.isCorrect)?.choiceText);
+  const answer = parseBooleanAnswer(response.answerText);
+  return buildResult(question, expected !== null && answer === expected, "true_false");
+};
+
+const gradeNumeric: Grader = (question, response) => {
+  const answer = response.answerText ?? "";
+  const isCorrect = splitAcceptedAnswers(question.correctAnswerText).some((expected) =>
+    isNumericAnswerMatch(answer, expected),
+  );
+  return buildResult(question, isCorrect, "numeric");
+};
+
+const gradeIdentification: Grader = (question, response) => {
+  if (!question.correctAnswerText && question.choices.length > 0) {
+    return gradeChoice(question, response);
+  }
+
+  const answer = response.answerText ?? "";
+  const accepted = splitAcceptedAnswers(question.correctAnswerText);
+  if (
+    isMathSubject(question.subjectName) &&
+    accepted.length > 0 &&
+    accepted.every((expected) => parseNumericAnswer(expected) !== null)
+  ) {
+    return gradeNumeric(question, response);
+  }
+
+  const isCorrect = accepted.some((expected) => isTextAnswerMatch(answer, expected, question.caseSensitive));
+  return buildResult(question, isCorrect, "text");
+};
+
+const GRADERS: Record<string, Grader> = {
+  multiple_choice: gradeChoice,
+  matching: gradeChoice,
+  true_false: gradeTrueFalse,
+  identification: gradeIdentification,
+  short_answer: gradeIdentification,
+  fill_in_the_blank: gradeIdentification,
+  numeric: gradeNumeric,
+};
+
+/**
+ * Grades one response against the stored answer key. Unknown question types
+ * fall back to choice grading when the question has choices, otherwise to
+ * identification.
+ */
+export function gradeAnswer(question: GradingQuestion, response: GradingResponse): GradingResult {
+  const type = normalizeQuestionType(question.questionType);
+  const grader = GRADERS[type] ?? (question.choices.length > 0 ? gradeChoice : gradeIdentification);
+  return grader(question, response);
+}
+
+const getQuestionColumns = async (connection: QueryExecutor) => {
+  const [columns] = await connection.query<RowDataPacket[]>("SHOW COLUMNS FROM `assessment_questions`");
+  return new Set(columns.map((column) => String(column.Field).toLowerCase()));
+};
+
+/**
+ * Loads the answer key for an assessment, keyed by question id.
+ */
+export async function loadGradingQuestions(
+  connection: QueryExecutor,
+  assessmentId: number,
+): Promise<Map<number, GradingQuestion>> {
+  const questionColumns = await getQuestionColumns(connection).catch(() => new Set<string>());
+  const hasCaseSensitive = questionColumns.has("case_sensitive");
+
+  const [questionRows] = await connection.query<RowDataPacket[]>(
+    `SELECT q.question_id, q.question_type, q.points, q.correct_answer_text${hasCaseSensitive ? ", q.case_sensitive" : ""}, s.subject_name
+     FROM assessment_questions q
+     JOIN assessments a ON a.assessment_id = q.assessment_id
+     LEFT JOIN subject s ON s.subject_id = a.subject_id
+     WHERE q.assessment_id = ?`,
+    [assessmentId],
+  );
+
+  const questions = new Map<number, GradingQuestion>();
+  questionRows.forEach((row) => {
+    const questionId = Number(row.question_id);
+    questions.set(questionId, {
+      questionId,
+      questionType: String(row.question_type ?? ""),
+      points: Number(row.points ?? 1),
+      correctAnswerText: row.correct_answer_text != null ? String(row.correct_answer_text) : null,
+      caseSensitive: hasCaseSensitive ? Boolean(row.case_sensitive) : false,
+      subjectName: row.subject_name != null ? String(row.subject_name) : null,
+      choices: [],
+    });
+  });
+
+  if (questions.size === 0) {
+    return questions;
+  }
+
+  const questionIds = Array.from(questions.keys());
+  const placeholders = questionIds.map(() => "?").join(", ");
+  const [choiceRows] = await connection.query<RowDataPacket[]>(
+    `SELECT choice_id, question_id, choice_text, is_correct
+     FROM assessment_question_choices
+     WHERE question_id IN (${placeholders})
+     ORDER BY choice_id ASC`,
+    questionIds,
+  );
+
+  choiceRows.forEach((row) => {
+    questions.get(Number(row.question_id))?.choices.push({
+      choiceId: Number(row.choice_id),
+      choiceText: String(row.choice_text ?? ""),
+      isCorrect: Boolean(row.is_correct),
+    });
+  });
+
+  return questions;
+}
+
+export type AttemptGradeSummary = {
+  totalScore: number;
+  correctCount: number;
+  gradedCount: number;
+  changedCount: number;
+};
+
+/**
+ * Re-grades every stored answer of an attempt against the current answer key
+ * and persists any score that changed. Client-supplied scores are never trusted.
+ */
+export async function gradeAttemptAnswers(
+  connection: QueryExecutor,
+  attemptId: number,
+  questions: Map<number, GradingQuestion>,
+): Promise<AttemptGradeSummary> {
+  const [answerRows] = await connection.query<RowDataPacket[]>(
+    `SELECT answer_id, question_id, selected_choice_id, answer_text, is_correct, score
+     FROM assessment_student_answers
+     WHERE attempt_id = ?`,
+    [attemptId],
+  );
+
+  const summary: AttemptGradeSummary = { totalScore: 0, correctCount: 0, gradedCount: 0, changedCount: 0 };
+
+  for (const row of answerRows) {
+    const question = questions.get(Number(row.question_id));
+    if (!question) {
+      continue;
+    }
+
+    const result = gradeAnswer(question, {
+      selectedChoiceId: row.selected_choice_id != null ? Number(row.selected_choice_id) : null,
+      answerText: row.answer_text != null ? String(row.answer_text) : null,
+    });
+
+    summary.gradedCount += 1;
+    summary.totalScore += result.score;
+    if (result.isCorrect) {
+      summary.correctCount += 1;
+    }
+
+    const storedChoiceId = row.selected_choice_id != null ? Number(row.selected_choice_id) : null;
+    const changed =
+      Boolean(Number(row.is_correct)) !== result.isCorrect ||
+      Number(row.score ?? 0) !== result.score ||
+      (result.selectedChoiceId !== null && storedChoiceId !== result.selectedChoiceId);
+
+    if (changed) {
+      summary.changedCount += 1;
+      await connection.query(
+        `UPDATE assessment_student_answers
+         SET selected_choice_id = ?, is_correct = ?, score = ?
+         WHERE answer_id = ?`,
+        [result.selectedChoiceId ?? storedChoiceId, result.isCorrect ? 1 : 0, result.score, row.answer_id],
+      );
+    }
+  }
+
+  return summary;
+}
+
+export type AssessmentRegradeSummary = {
+  attemptsRegraded: number;
+  answersChanged: number;
+};
+
+/**
+ * Re-grades all attempts of an assessment, e.g. after the teacher fixed the
+ * answer key, and refreshes the stored total of submitted attempts.
+ */
+export async function regradeAssessmentAttempts(
+  connection: QueryExecutor,
+  assessmentId: number,
+): Promise<AssessmentRegradeSummary> {
+  const questions = await loadGradingQuestions(connection, assessmentId);
+  const [attemptRows] = await connection.query<RowDataPacket[]>(
+    "SELECT attempt_id, status FROM assessment_attempts WHERE assessment_id = ?",
+    [assessmentId],
+  );
+
+  const summary: AssessmentRegradeSummary = { attemptsRegraded: 0, answersChanged: 0 };
+  for (const attempt of attemptRows) {
+    const attemptId = Number(attempt.attempt_id);
+    const result = await gradeAttemptAnswers(connection, attemptId, questions);
+    summary.attemptsRegraded += 1;
+    summary.answersChanged += result.changedCount;
+
+    if (String(attempt.status) === "submitted") {
+      await connection.query("UPDATE assessment_attempts SET total_score = ? WHERE attempt_id = ?", [
+        result.totalScore,
+        attemptId,
+      ]);
+    }
+  }
+
+  return summary;
+}
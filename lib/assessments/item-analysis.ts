@@ -0,0 +1,321 @@
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+
+/** Share of examinees placed in each of the upper and lower scoring groups. */
+export const ITEM_ANALYSIS_GROUP_RATIO = 0.27;
+
+/** Items answered correctly by fewer than this share of examinees are too difficult. */
+export const DIFFICULT_P_VALUE = 0.25;
+
+/** Items answered correctly by more than this share of examinees are too easy. */
+export const EASY_P_VALUE = 0.9;
+
+/** Discrimination indices below this value do not separate strong and weak examinees. */
+export const MIN_DISCRIMINATION_INDEX = 0.2;
+
+/** Wrong choices picked by fewer than this share of examinees are non-functional. */
+export const MIN_DISTRACTOR_SHARE = 0.05;
+
+export type ItemAnalysisFlag =
+  | "too_difficult"
+  | "too_easy"
+  | "low_discrimination"
+  | "negative_discrimination"
+  | "nonfunctional_distractor"
+  | "distractor_attracts_upper_group";
+
+export type ItemRecommendation = "retain" | "revise" | "reject";
+
+export type ItemAnalysisQuestion = {
+  questionId: number;
+  questionText: string;
+  questionType: string;
+  order: number;
+};
+
+export type ItemAnalysisChoice = {
+  choiceId: number;
+  questionId: number;
+  choiceText: string;
+  isCorrect: boolean;
+};
+
+export type ItemAnalysisAttempt = {
+  attemptId: number;
+  totalScore: number;
+};
+
+export type ItemAnalysisAnswer = {
+  attemptId: number;
+  questionId: number;
+  selectedChoiceId: number | null;
+  isCorrect: boolean;
+};
+
+export type ChoiceStatistic = {
+  choiceId: number;
+  choiceText: string;
+  isCorrect: boolean;
+  count: number;
+  share: number;
+  upperCount: number;
+  lowerCount: number;
+  nonFunctional: boolean;
+  attractsUpperGroup: boolean;
+};
+
+export type ItemStatistic = {
+  questionId: number;
+  order: number;
+  questionText: string;
+  questionType: string;
+  responses: number;
+  correctCount: number;
+  pValue: number;
+  difficultyLabel: "Easy" | "Average" | "Difficult";
+  upperCorrect: number;
+  lowerCorrect: number;
+  discriminationIndex: number | null;
+  discriminationLabel: "Very good" | "Good" | "Fair" | "Poor" | "Not enough data";
+  omittedCount: number;
+  choices: ChoiceStatistic[];
+  flags: ItemAnalysisFlag[];
+  recommendation: ItemRecommendation;
+};
+
+export type ItemAnalysisReport = {
+  sampleSize: number;
+  groupSize: number;
+  reliabilityKr20: number | null;
+  itemsToRevise: number;
+  itemsToReject: number;
+  items: ItemStatistic[];
+};
+
+export const ITEM_FLAG_LABELS: Record<ItemAnalysisFlag, string> = {
+  too_difficult: "Too difficult",
+  too_easy: "Too easy",
+  low_discrimination: "Low discrimination",
+  negative_discrimination: "Negative discrimination",
+  nonfunctional_distractor: "Non-functional distractor",
+  distractor_attracts_upper_group: "Distractor attracts high scorers",
+};
+
+const round = (value: number, digits = 2) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const toDifficultyLabel = (pValue: number): ItemStatistic["difficultyLabel"] => {
+  if (pValue >= 0.75) return "Easy";
+  if (pValue >= DIFFICULT_P_VALUE) return "Average";
+  return "Difficult";
+};
+
+const toDiscriminationLabel = (index: number | null): ItemStatistic["discriminationLabel"] => {
+  if (index === null) return "Not enough data";
+  if (index >= 0.4) return "Very good";
+  if (index >= 0.3) return "Good";
+  if (index >= MIN_DISCRIMINATION_INDEX) return "Fair";
+  return "Poor";
+};
+
+/**
+ * Kuder-Richardson 20 reliability of the whole test from item p-values and the
+ * variance of the number-correct scores.
+ */
+const computeKr20 = (items: ItemStatistic[], numberCorrectScores: number[]): number | null => {
+  const k = items.length;
+  const n = numberCorrectScores.length;
+  if (k < 2 || n < 2) return null;
+
+  const mean = numberCorrectScores.reduce((sum, value) => sum + value, 0) / n;
+  const variance = numberCorrectScores.reduce((sum, value) => sum + (value - mean) ** 2, 0) / n;
+  if (variance === 0) return null;
+
+  const sumPq = items.reduce((sum, item) => sum + item.pValue * (1 - item.pValue), 0);
+  return round((k / (k - 1)) * (1 - sumPq / variance), 3);
+};
+
+/**
+ * Classical test theory item analysis: difficulty (p-value), the upper/lower 27%
+ * discrimination index and distractor statistics for every question. Questions a
+ * student left unanswered count as incorrect.
+ */
+export function computeItemAnalysis(input: {
+  questions: ItemAnalysisQuestion[];
+  choices: ItemAnalysisChoice[];
+  attempts: ItemAnalysisAttempt[];
+  answers: ItemAnalysisAnswer[];
+}): ItemAnalysisReport {
+  const attempts = [...input.attempts].sort((a, b) => b.totalScore - a.totalScore || a.attemptId - b.attemptId);
+  const sampleSize = attempts.length;
+  const groupSize = sampleSize >= 2 ? Math.max(1, Math.round(sampleSize * ITEM_ANALYSIS_GROUP_RATIO)) : 0;
+  const upperIds = new Set(attempts.slice(0, groupSize).map((attempt) => attempt.attemptId));
+  const lowerIds = new Set(attempts.slice(sampleSize - groupSize).map((attempt) => attempt.attemptId));
+  const attemptIds = new Set(attempts.map((attempt) => attempt.attemptId));
+
+  const answersByQuestion = new Map<number, ItemAnalysisAnswer[]>();
+  input.answers.forEach((answer) => {
+    if (!attemptIds.has(answer.attemptId)) return;
+    const list = answersByQuestion.get(answer.questionId) ?? [];
+    list.push(answer);
+    answersByQuestion.set(answer.questionId, list);
+  });
+
+  const numberCorrect = new Map<number, number>();
+  const questions = [...input.questions].sort((a, b) => a.order - b.order || a.questionId - b.questionId);
+
+  const items = questions.map<ItemStatistic>((question) => {
+    const answers = answersByQuestion.get(question.questionId) ?? [];
+    const correctAnswers = answers.filter((answer) => answer.isCorrect);
+    correctAnswers.forEach((answer) => {
+      numberCorrect.set(answer.attemptId, (numberCorrect.get(answer.attemptId) ?? 0) + 1);
+    });
+
+    const correctCount = correctAnswers.length;
+    const pValue = sampleSize > 0 ? correctCount / sampleSize : 0;
+    const upperCorrect = correctAnswers.filter((answer) => upperIds.has(answer.attemptId)).length;
+    const lowerCorrect = correctAnswers.filter((answer) => lowerIds.has(answer.attemptId)).length;
+    const discriminationIndex = groupSize > 0 ? round((upperCorrect - lowerCorrect) / groupSize) : null;
+
+    const choices = input.choices
+      .filter((choice) => choice.questionId === question.questionId)
+      .map<ChoiceStatistic>((choice) => {
+        const picked = answers.filter((answer) => answer.selectedChoiceId === choice.choiceId);
+        const count = picked.length;
+        const share = sampleSize > 0 ? count / sampleSize : 0;
+        const upperCount = picked.filter((answer) => upperIds.has(answer.attemptId)).length;
+        const lowerCount = picked.filter((answer) => lowerIds.has(answer.attemptId)).length;
+        return {
+          choiceId: choice.choiceId,
+          choiceText: choice.choiceText,
+          isCorrect: choice.isCorrect,
+          count,
+          share: round(share, 3),
+          upperCount,
+          lowerCount,
+          nonFunctional: !choice.isCorrect && sampleSize > 0 && share < MIN_DISTRACTOR_SHARE,
+          attractsUpperGroup: !choice.isCorrect && groupSize > 0 && upperCount > lowerCount,
+        };
+      });
+
+    const flags: ItemAnalysisFlag[] = [];
+    if (sampleSize > 0 && pValue < DIFFICULT_P_VALUE) flags.push("too_difficult");
+    if (sampleSize > 0 && pValue > EASY_P_VALUE) flags.push("too_easy");
+    if (discriminationIndex !== null && discriminationIndex < 0) {
+      flags.push("negative_discrimination");
+    } else if (discriminationIndex !== null && discriminationIndex < MIN_DISCRIMINATION_INDEX) {
+      flags.push("low_discrimination");
+    }
+    if (choices.some((choice) => choice.nonFunctional)) flags.push("nonfunctional_distractor");
+    if (choices.some((choice) => choice.attractsUpperGroup)) flags.push("distractor_attracts_upper_group");
+
+    const recommendation: ItemRecommendation = flags.includes("negative_discrimination")
+      ? "reject"
+      : flags.length > 0
+        ? "revise"
+        : "retain";
+
+    return {
+      questionId: question.questionId,
+      order: question.order,
+      questionText: question.questionText,
+      questionType: question.questionType,
+      responses: answers.length,
+      correctCount,
+      pValue: round(pValue),
+      difficultyLabel: toDifficultyLabel(pValue),
+      upperCorrect,
+      lowerCorrect,
+      discriminationIndex,
+      discriminationLabel: toDiscriminationLabel(discriminationIndex),
+      omittedCount: Math.max(0, sampleSize - answers.length),
+      choices,
+      flags,
+      recommendation,
+    };
+  });
+
+  const numberCorrectScores = attempts.map((attempt) => numberCorrect.get(attempt.attemptId) ?? 0);
+
+  return {
+    sampleSize,
+    groupSize,
+    reliabilityKr20: computeKr20(items, numberCorrectScores),
+    itemsToRevise: items.filter((item) => item.recommendation === "revise").length,
+    itemsToReject: items.filter((item) => item.recommendation === "reject").length,
+    items,
+  };
+}
+
+type QueryExecutor = Pick<PoolConnection, "query">;
+
+/**
+ * Loads the submitted attempts of an assessment and computes its item analysis.
+ */
+export async function loadItemAnalysis(connection: QueryExecutor, assessmentId: number): Promise<ItemAnalysisReport> {
+  const [questionRows] = await connection.query<RowDataPacket[]>(
+    `SELECT question_id, question_text, question_type, question_order
+     FROM assessment_questions
+     WHERE assessment_id = ?
+     ORDER BY question_order ASC, question_id ASC`,
+    [assessmentId],
+  );
+
+  const questions = questionRows.map<ItemAnalysisQuestion>((row) => ({
+    questionId: Number(row.question_id),
+    questionText: String(row.question_text ?? ""),
+    questionType: String(row.question_type ?? ""),
+    order: Number(row.question_order ?? 0),
+  }));
+
+  const [attemptRows] = await connection.query<RowDataPacket[]>(
+    `SELECT attempt_id, total_score
+     FROM assessment_attempts
+     WHERE assessment_id = ? AND status = 'submitted'`,
+    [assessmentId],
+  );
+
+  const attempts = attemptRows.map<ItemAnalysisAttempt>((row) => ({
+    attemptId: Number(row.attempt_id),
+    totalScore: Number(row.total_score ?? 0),
+  }));
+
+  let choices: ItemAnalysisChoice[] = [];
+  let answers: ItemAnalysisAnswer[] = [];
+
+  if (questions.length > 0) {
+    const questionIds = questions.map((question) => question.questionId);
+    const [choiceRows] = await connection.query<RowDataPacket[]>(
+      `SELECT choice_id, question_id, choice_text, is_correct
+       FROM assessment_question_choices
+       WHERE question_id IN (${questionIds.map(() => "?").join(", ")})
+       ORDER BY choice_id ASC`,
+      questionIds,
+    );
+    choices = choiceRows.map((row) => ({
+      choiceId: Number(row.choice_id),
+      questionId: Number(row.question_id),
+      choiceText: String(row.choice_text ?? ""),
+      isCorrect: Boolean(row.is_correct),
+    }));
+  }
+
+  if (attempts.length > 0) {
+    const attemptIds = attempts.map((attempt) => attempt.attemptId);
+    const [answerRows] = await connection.query<RowDataPacket[]>(
+      `SELECT attempt_id, question_id, selected_choice_id, is_correct
+       FROM assessment_student_answers
+       WHERE attempt_id IN (${attemptIds.map(() => "?").join(", ")})`,
+      attemptIds,
+    );
+    answers = answerRows.map((row) => ({
+      attemptId: Number(row.attempt_id),
+      questionId: Number(row.question_id),
+      selectedChoiceId: row.selected_choice_id != null ? Number(row.selected_choice_id) : null,
+      isCorrect: Boolean(Number(row.is_correct)),
+    }));
+  }
+
+  return computeItemAnalysis({ questions, choices, attempts, answers });
+}
@@ -1,6 +1,7 @@
 import type { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
 import { runWithConnection } from "@/lib/db";
 import { generateQrToken, generateUniqueQuizCode, normalizeQuestionType } from "@/lib/assessments/utils";
+import { regradeAssessmentAttempts } from "@/lib/assessments/grading";
 
 export interface AssessmentFilter {
   creatorId?: string;
@@ -318,7 +319,7 @@ const insertQuestionWithChoices = async (
   );
 
   if (!question.choices?.length) {
-    return;
+    return questionResult.insertId;
   }
 
   for (const choice of question.choices) {
@@ -327,6 +328,76 @@ const insertQuestionWithChoices = async (
       [questionResult.insertId, choice.choiceText, choice.isCorrect ? 1 : 0]
     );
   }
+
+  return questionResult.insertId;
+};
+
+const normalizeMatchText = (value: unknown) => String(value ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * Points existing student answers at the re-created questions and choices of an
+ * edited assessment, matching questions by text (preferring the same position)
+ * and choices by text, so the answers can be re-graded against the new key.
+ */
+const carryAnswersToNewQuestions = async (
+  connection: PoolConnection,
+  oldQuestions: RowDataPacket[],
+  newQuestions: Array<{ questionId: number; order: number; text: string }>
+) => {
+  if (oldQuestions.length === 0 || newQuestions.length === 0) {
+    return;
+  }
+
+  const claimed = new Set<number>();
+  const questionIdMap = new Map<number, number>();
+  for (const oldQuestion of oldQuestions) {
+    const text = normalizeMatchText(oldQuestion.question_text);
+    const candidates = newQuestions.filter(
+      (candidate) => !claimed.has(candidate.questionId) && normalizeMatchText(candidate.text) === text
+    );
+    const match =
+      candidates.find((candidate) => candidate.order === Number(oldQuestion.question_order)) ?? candidates[0];
+    if (match) {
+      claimed.add(match.questionId);
+      questionIdMap.set(Number(oldQuestion.question_id), match.questionId);
+    }
+  }
+
+  if (questionIdMap.size === 0) {
+    return;
+  }
+
+  const oldIds = Array.from(questionIdMap.keys());
+  const newIds = Array.from(questionIdMap.values());
+  const [oldChoiceRows] = await connection.query<RowDataPacket[]>(
+    `SELECT choice_id, question_id, choice_text FROM assessment_question_choices WHERE question_id IN (${oldIds.map(() => "?").join(", ")})`,
+    oldIds
+  );
+  const [newChoiceRows] = await connection.query<RowDataPacket[]>(
+    `SELECT choice_id, question_id, choice_text FROM assessment_question_choices WHERE question_id IN (${newIds.map(() => "?").join(", ")})`,
+    newIds
+  );
+
+  for (const oldChoice of oldChoiceRows) {
+    const newQuestionId = questionIdMap.get(Number(oldChoice.question_id));
+    const text = normalizeMatchText(oldChoice.choice_text);
+    const newChoice = newChoiceRows.find(
+      (choice) => Number(choice.question_id) === newQuestionId && normalizeMatchText(choice.choice_text) === text
+    );
+    if (newChoice) {
+      await connection.query(
+        "UPDATE assessment_student_answers SET selected_choice_id = ? WHERE selected_choice_id = ?",
+        [Number(newChoice.choice_id), Number(oldChoice.choice_id)]
+      );
+    }
+  }
+
+  for (const [oldQuestionId, newQuestionId] of questionIdMap) {
+    await connection.query("UPDATE assessment_student_answers SET question_id = ? WHERE question_id = ?", [
+      newQuestionId,
+      oldQuestionId,
+    ]);
+  }
 };
 
 export async function listAssessments(filters: AssessmentFilter) {
@@ -684,31 +755,37 @@ export async function updateAssessmentRecord(assessmentId: number, payload: Asse
       );
 
       const [questionRows] = await connection.query<RowDataPacket[]>(
-        "SELECT question_id FROM assessment_questions WHERE assessment_id = ?",
+        "SELECT question_id, question_order, question_text FROM assessment_questions WHERE assessment_id = ?",
         [assessmentId]
       );
       const questionIds = questionRows.map((row) => Number(row.question_id));
 
-      if (questionIds.length > 0) {
-        const placeholders = questionIds.map(() => "?").join(", ");
-        await connection.query(
-          `DELETE FROM assessment_question_choices WHERE question_id IN (${placeholders})`,
-          questionIds
-        );
-      }
-
-      await connection.query("DELETE FROM assessment_questions WHERE assessment_id = ?", [assessmentId]);
-
+      // Insert the new questions before removing the old ones so answers can be carried over.
+      const newQuestions: Array<{ questionId: number; order: number; text: string }> = [];
       for (let index = 0; index < payload.questions.length; index += 1) {
-        await insertQuestionWithChoices(
+        const questionId = await insertQuestionWithChoices(
           connection,
           assessmentId,
           payload.questions[index],
           index + 1,
           payload.sections
         );
+        newQuestions.push({ questionId, order: index + 1, text: payload.questions[index].questionText });
+      }
+
+      await carryAnswersToNewQuestions(connection, questionRows, newQuestions);
+
+      if (questionIds.length > 0) {
+        const placeholders = questionIds.map(() => "?").join(", ");
+        await connection.query(
+          `DELETE FROM assessment_question_choices WHERE question_id IN (${placeholders})`,
+          questionIds
+        );
+        await connection.query(`DELETE FROM assessment_questions WHERE question_id IN (${placeholders})`, questionIds);
       }
 
+      await regradeAssessmentAttempts(connection, assessmentId);
+
       await connection.commit();
       return {
         assessmentId,
@@ -0,0 +1,96 @@
+import { promises as fs } from "fs";
+import AdmZip from "adm-zip";
+
+export type ExtractedSlideText = {
+  slideNumber: number;
+  text: string;
+};
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#x") || entity.startsWith("#X")) {
+      const code = Number.parseInt(entity.slice(2), 16);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    if (entity.startsWith("#")) {
+      const code = Number.parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Reads the paragraphs of a WordprocessingML body (`word/document.xml`).
+ * Tabs and manual line breaks inside a paragraph are flattened into spaces.
+ */
+export function extractDocxParagraphs(documentXml: string): string[] {
+  const paragraphs: string[] = [];
+  const paragraphPattern = /<w:p[\s>][\s\S]*?<\/w:p>|<w:p\/>/g;
+
+  for (const match of documentXml.match(paragraphPattern) ?? []) {
+    const parts: string[] = [];
+    const tokenPattern = /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:(?:tab|br|cr)\b[^>]*\/>/g;
+    let token: RegExpExecArray | null;
+    while ((token = tokenPattern.exec(match)) !== null) {
+      parts.push(token[1] !== undefined ? decodeXmlEntities(token[1]) : " ");
+    }
+    const text = normalizeWhitespace(parts.join(""));
+    if (text) {
+      paragraphs.push(text);
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Joins the raw lines of a PDF page into reading text, re-attaching words that
+ * were hyphenated across a line break.
+ */
+export function normalizePdfPageText(raw: string): string {
+  return normalizeWhitespace(
+    raw
+      .replace(/\r\n?/g, "\n")
+      .replace(/([A-Za-z])-\n(?=[a-z])/g, "$1")
+      .replace(/\n+/g, " "),
+  );
+}
+
+export async function extractSlidesFromDocx(absolutePath: string): Promise<ExtractedSlideText[]> {
+  const zip = new AdmZip(absolutePath);
+  const entry = zip.getEntry("word/document.xml");
+  if (!entry) {
+    throw new Error("The Word document has no readable body (word/document.xml is missing).");
+  }
+
+  const documentXml = entry.getData().toString("utf8");
+  return extractDocxParagraphs(documentXml).map((text, index) => ({ slideNumber: index + 1, text }));
+}
+
+export async function extractSlidesFromPdf(absolutePath: string): Promise<ExtractedSlideText[]> {
+  const { PDFParse } = await import("pdf-parse");
+  const data = await fs.readFile(absolutePath);
+  const parser = new PDFParse({ data: new Uint8Array(data) });
+
+  try {
+    const result = await parser.getText();
+    return result.pages
+      .map((page) => ({ slideNumber: page.num, text: normalizePdfPageText(page.text) }))
+      .filter((slide) => slide.text.length > 0);
+  } finally {
+    await parser.destroy().catch(() => undefined);
+  }
+}
@@ -1,11 +1,18 @@
-
-import { query } from "@/lib/db";
+import { getTableColumns, query, tableExists } from "@/lib/db";
 import { type RowDataPacket } from "mysql2/promise";
 import * as tf from "@tensorflow/tfjs";
+import { toPhonemicSubjectName } from "@/lib/phonemic-levels";
+import {
+  FEATURE_COUNT,
+  buildSubjectFeatureVector,
+  phonemicRankFraction,
+  type PerformanceSubject,
+} from "@/lib/ml/features";
+import { buildHistorySnapshot } from "@/lib/ml/xgboost-sequence";
 
 export interface StudentTrainingData {
   studentId: string;
-  features: number[]; // [RemedialCount, PhonemicLevel (encoded), PerformanceAvg]
+  features: number[]; // see PERFORMANCE_FEATURES for the column order
   label: number;      // NextScorePrediction
 }
 
@@ -16,164 +23,264 @@ export type StudentHistorySnapshot = {
   avgScore: number;
 };
 
-/**
- * Fetches recent performance history and remedial session counts for training.
- * Simplified for demonstration:
- * Features:
- * 1. Number of Remedial Sessions
- * 2. Phonemic Level (1=Pre-Read, 2=Full-alpha, 3=Word, 4=Sentence, 5=Paragraph)
- * 3. Average Assessment Score (Last 5 records)
- *
- * Label:
- * - Most recent performance score (Regression target).
- */
-export async function fetchStudentTrainingData(): Promise<StudentTrainingData[]> {
-  // Get list of students with at least 2 performance records (1 for history, 1 for target)
-  const [students] = await query<RowDataPacket[]>(`
-    SELECT DISTINCT pr.student_id 
-    FROM performance_records pr
-    GROUP BY pr.student_id
-    HAVING COUNT(pr.record_id) >= 2
-  `);
+type SessionPoint = { score: number; phonemicId: number | null; completedAt: Date };
+type AttendancePoint = { present: boolean; date: Date };
+type AssessmentPoint = { percent: number; submittedAt: Date | null };
 
-  const trainingData: StudentTrainingData[] = [];
+type SubjectHistory = {
+  sessions: SessionPoint[];
+  attendance: AttendancePoint[];
+  assessments: AssessmentPoint[];
+  currentPhonemicId: number | null;
+};
 
-  for (const student of students) {
-    const studentId = student.student_id;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-    // 1. Count Remedial Sessions
-    const [remedialCount] = await query<RowDataPacket[]>(
-      `SELECT COUNT(*) as count FROM student_remedial_session WHERE student_id = ?`,
-      [studentId]
-    );
-    const sessions = remedialCount[0]?.count || 0;
-
-    // 2. Get Phonemic Level (from subject assessment history)
-    // Assuming phonemic_id maps roughly to difficulty/level (1-5).
-    // If null, default to 1 (lowest).
-    const [studentInfo] = await query<RowDataPacket[]>(
-      `SELECT ssa.phonemic_id
-       FROM student_subject_assessment ssa
-       JOIN subject s ON s.subject_id = ssa.subject_id
-       WHERE ssa.student_id = ? AND LOWER(TRIM(s.subject_name)) = 'english'
-       ORDER BY ssa.assessed_at DESC
-       LIMIT 1`,
-      [studentId]
-    );
-    const phonemicLevel = studentInfo[0]?.phonemic_id || 1;
-
-    // 3. Get Performance History
-    // Order by date DESC. Take top 6.
-    // Index 0 is the "Target" (most recent).
-    // Index 1-5 are "History" features.
-    const [history] = await query<RowDataPacket[]>(
-      `SELECT pr.score 
-       FROM performance_records pr 
-       JOIN activities a ON pr.activity_id = a.activity_id
-       WHERE pr.student_id = ?
-       ORDER BY a.date DESC
-       LIMIT 6`,
-      [studentId]
+const toDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const parsed = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const toNullableId = (value: unknown): number | null => {
+  const parsed = Number(value);
+  return value === null || value === undefined || !Number.isFinite(parsed) ? null : parsed;
+};
+
+async function resolveSubjectId(subject: PerformanceSubject): Promise<number | null> {
+  const columns = await getTableColumns("subject").catch(() => new Set<string>());
+  const nameColumn = columns.has("subject_name") ? "subject_name" : columns.has("name") ? "name" : null;
+  if (!columns.has("subject_id") || !nameColumn) return null;
+  const [rows] = await query<RowDataPacket[]>(`SELECT subject_id, ${nameColumn} AS name FROM subject`);
+  const match = rows.find((row) => toPhonemicSubjectName(row.name) === subject);
+  return match ? Number(match.subject_id) : null;
+}
+
+/**
+ * Loads every signal the feature pipeline uses for one subject in a handful of queries,
+ * grouped per learner. Pass `studentId` to load a single learner.
+ */
+async function loadSubjectHistories(
+  subjectId: number,
+  studentId?: string,
+): Promise<Map<string, SubjectHistory>> {
+  const histories = new Map<string, SubjectHistory>();
+  const historyFor = (id: unknown) => {
+    const key = String(id);
+    let history = histories.get(key);
+    if (!history) {
+      history = { sessions: [], attendance: [], assessments: [], currentPhonemicId: null };
+      histories.set(key, history);
+    }
+    return history;
+  };
+  const studentFilter = (column: string) => (studentId ? ` AND ${column} = ?` : "");
+  const withStudent = (params: Array<string | number>) => (studentId ? [...params, studentId] : params);
+
+  const [sessions] = await query<RowDataPacket[]>(
+    `SELECT student_id, overall_average, phonemic_id, completed_at
+     FROM student_remedial_session
+     WHERE subject_id = ? AND completed_at IS NOT NULL AND overall_average IS NOT NULL${studentFilter("student_id")}
+     ORDER BY completed_at ASC, session_id ASC`,
+    withStudent([subjectId]),
+  );
+  for (const row of sessions) {
+    const completedAt = toDate(row.completed_at);
+    const score = Number(row.overall_average);
+    if (!completedAt || !Number.isFinite(score)) continue;
+    historyFor(row.student_id).sessions.push({ score, phonemicId: toNullableId(row.phonemic_id), completedAt });
+  }
+
+  if ((await tableExists("attendance_record")) && (await tableExists("attendance_session"))) {
+    const [attendance] = await query<RowDataPacket[]>(
+      `SELECT ar.student_id, ar.status, sess.session_date
+       FROM attendance_record ar
+       JOIN attendance_session sess ON sess.session_id = ar.session_id
+       WHERE sess.subject_id = ?${studentFilter("ar.student_id")}`,
+      withStudent([subjectId]),
     );
+    for (const row of attendance) {
+      const date = toDate(row.session_date);
+      if (!date) continue;
+      historyFor(row.student_id).attendance.push({
+        present: String(row.status ?? "").toLowerCase() !== "absent",
+        date,
+      });
+    }
+  }
 
-    if (history.length < 2) continue; // Need at least 2 data points
-
-    const targetScore = parseFloat(history[0].score); // Most recent
-    const previousScores = history.slice(1).map(r => parseFloat(r.score));
-    
-    // Feature: Average of previous scores
-    const avgPreviousScore = previousScores.reduce((a, b) => a + b, 0) / previousScores.length;
-
-    trainingData.push({
-      studentId,
-      features: [
-        sessions,        // Feature 1: Remedial Experience
-        phonemicLevel,   // Feature 2: Current Competency Level
-        avgPreviousScore // Feature 3: Recent Performance Trend
-      ],
-      label: targetScore // Target: Predict next score
-    });
+  const attemptColumns = await getTableColumns("assessment_attempts").catch(() => new Set<string>());
+  const assessmentColumns = await getTableColumns("assessments").catch(() => new Set<string>());
+  const questionColumns = await getTableColumns("assessment_questions").catch(() => new Set<string>());
+  if (
+    attemptColumns.has("student_id") &&
+    attemptColumns.has("total_score") &&
+    assessmentColumns.has("subject_id") &&
+    questionColumns.has("points")
+  ) {
+    const submittedAt = attemptColumns.has("submitted_at") ? "aa.submitted_at" : "NULL";
+    const statusFilter = attemptColumns.has("status") ? " AND aa.status IN ('submitted', 'graded')" : "";
+    const [attempts] = await query<RowDataPacket[]>(
+      `SELECT aa.student_id, aa.total_score, ${submittedAt} AS submitted_at,
+              (SELECT COALESCE(SUM(aq.points), 0) FROM assessment_questions aq WHERE aq.assessment_id = aa.assessment_id) AS total_points
+       FROM assessment_attempts aa
+       JOIN assessments a ON a.assessment_id = aa.assessment_id
+       WHERE a.subject_id = ?${statusFilter}${studentFilter("aa.student_id")}`,
+      withStudent([subjectId]),
+    );
+    for (const row of attempts) {
+      const score = Number(row.total_score);
+      const points = Number(row.total_points);
+      if (!Number.isFinite(score) || !Number.isFinite(points) || points <= 0) continue;
+      historyFor(row.student_id).assessments.push({
+        percent: (score / points) * 100,
+        submittedAt: toDate(row.submitted_at),
+      });
+    }
   }
 
-  // If DB is empty, generate some synthetic data for demonstration
-  if (trainingData.length < 5) {
-     return generateSyntheticData();
+  const [levels] = await query<RowDataPacket[]>(
+    `SELECT student_id, phonemic_id
+     FROM student_subject_assessment
+     WHERE subject_id = ?${studentFilter("student_id")}
+     ORDER BY assessed_at ASC`,
+    withStudent([subjectId]),
+  );
+  for (const row of levels) {
+    const history = histories.get(String(row.student_id));
+    if (history) history.currentPhonemicId = toNullableId(row.phonemic_id);
   }
 
-  return trainingData;
+  return histories;
 }
 
-export async function getStudentFeatures(studentId: string): Promise<number[] | null> {
-    const snapshot = await getStudentHistorySnapshot(studentId);
-    if (!snapshot) return null;
-    return [snapshot.sessions, snapshot.phonemicLevel, snapshot.avgScore];
+async function loadPhonemicLevels(subjectId: number) {
+  const [rows] = await query<RowDataPacket[]>(
+    `SELECT phonemic_id, level_name FROM phonemic_level WHERE subject_id = ?`,
+    [subjectId],
+  );
+  return rows.map((row) => ({ phonemicId: Number(row.phonemic_id), levelName: String(row.level_name ?? "") }));
 }
 
-export async function getStudentHistorySnapshot(studentId: string): Promise<StudentHistorySnapshot | null> {
-    // 1. Count Remedial Sessions
-    const [remedialCount] = await query<RowDataPacket[]>(
-      `SELECT COUNT(*) as count FROM student_remedial_session WHERE student_id = ?`,
-      [studentId]
-    );
-    const sessions = remedialCount[0]?.count || 0;
-
-    // 2. Get Phonemic Level
-    const [studentInfo] = await query<RowDataPacket[]>(
-      `SELECT ssa.phonemic_id
-       FROM student_subject_assessment ssa
-       JOIN subject s ON s.subject_id = ssa.subject_id
-       WHERE ssa.student_id = ? AND LOWER(TRIM(s.subject_name)) = 'english'
-       ORDER BY ssa.assessed_at DESC
-       LIMIT 1`,
-      [studentId]
-    );
-    const phonemicLevel = studentInfo[0]?.phonemic_id || 1;
-
-    // 3. Get recent score sequence for sequence-aware features
-    const [history] = await query<RowDataPacket[]>(
-      `SELECT pr.score 
-       FROM performance_records pr 
-       JOIN activities a ON pr.activity_id = a.activity_id
-       WHERE pr.student_id = ?
-       ORDER BY a.date DESC
-       LIMIT 5`,
-      [studentId]
-    );
+/** Feature vector as of `cutoff`, using only the sessions, attendance and assessments before it. */
+function featuresAsOf(
+  subject: PerformanceSubject,
+  history: SubjectHistory,
+  sessions: SessionPoint[],
+  cutoff: Date,
+  levels: Array<{ phonemicId: number; levelName: string }>,
+): number[] | null {
+  const before = (date: Date | null) => date === null || date.getTime() < cutoff.getTime();
+  const attendance = history.attendance.filter((entry) => before(entry.date));
+  const lastSession = sessions[sessions.length - 1];
+  return buildSubjectFeatureVector({
+    sessionScores: sessions.map((session) => session.score),
+    attendance: { present: attendance.filter((entry) => entry.present).length, total: attendance.length },
+    assessmentPercents: history.assessments.filter((entry) => before(entry.submittedAt)).map((entry) => entry.percent),
+    phonemicRank: phonemicRankFraction(subject, levels, lastSession?.phonemicId ?? history.currentPhonemicId),
+    daysSinceLastSession: lastSession ? (cutoff.getTime() - lastSession.completedAt.getTime()) / DAY_MS : null,
+  });
+}
 
-    if (history.length === 0) return null;
+/**
+ * Training rows for one subject: each learner with at least two completed remedial sessions
+ * contributes one row whose label is their latest session average and whose features are
+ * built from everything recorded before that session.
+ */
+export async function fetchSubjectTrainingData(subject: PerformanceSubject): Promise<StudentTrainingData[]> {
+  const subjectId = await resolveSubjectId(subject);
+  const trainingData: StudentTrainingData[] = [];
 
-    const recentScores = history
-      .map((row) => Number.parseFloat(row.score))
-      .filter((score) => Number.isFinite(score));
+  if (subjectId !== null) {
+    const histories = await loadSubjectHistories(subjectId);
+    const levels = await loadPhonemicLevels(subjectId);
+    for (const [studentId, history] of histories) {
+      if (history.sessions.length < 2) continue;
+      const target = history.sessions[history.sessions.length - 1];
+      const features = featuresAsOf(subject, history, history.sessions.slice(0, -1), target.completedAt, levels);
+      if (!features) continue;
+      trainingData.push({ studentId, features, label: target.score });
+    }
+  }
 
-    if (!recentScores.length) return null;
+  // If DB is empty, generate some synthetic data for demonstration
+  if (trainingData.length < 5) {
+     return generateSyntheticData();
+  }
 
-    const avgScore = recentScores.reduce((sum, score) => sum + score, 0) / recentScores.length;
+  return trainingData;
+}
 
-    return {
-      sessions,
-      phonemicLevel,
-      recentScores,
-      avgScore,
-    };
+/** The learner's current feature vector for a subject, for predicting their next session. */
+export async function getStudentSubjectFeatures(
+  studentId: string,
+  subject: PerformanceSubject,
+): Promise<number[] | null> {
+  const subjectId = await resolveSubjectId(subject);
+  if (subjectId === null) return null;
+  const history = (await loadSubjectHistories(subjectId, studentId)).get(studentId);
+  if (!history || history.sessions.length === 0) return null;
+  return featuresAsOf(subject, history, history.sessions, new Date(), await loadPhonemicLevels(subjectId));
+}
+
+/**
+ * The learner's slide-ensemble history for a subject: averages of their completed remedial
+ * sessions and their current level, shaped by `buildHistorySnapshot` exactly as training does.
+ */
+export async function getStudentHistorySnapshot(
+  studentId: string,
+  subject: PerformanceSubject,
+): Promise<StudentHistorySnapshot | null> {
+  const subjectId = await resolveSubjectId(subject);
+  if (subjectId === null) return null;
+
+  const [sessions] = await query<RowDataPacket[]>(
+    `SELECT overall_average
+     FROM student_remedial_session
+     WHERE student_id = ? AND subject_id = ? AND completed_at IS NOT NULL AND overall_average IS NOT NULL
+     ORDER BY completed_at ASC, session_id ASC`,
+    [studentId, subjectId],
+  );
+  const averages = sessions.map((row) => Number(row.overall_average)).filter((score) => Number.isFinite(score));
+
+  const [levels] = await query<RowDataPacket[]>(
+    `SELECT pl.level_name
+     FROM student_subject_assessment ssa
+     LEFT JOIN phonemic_level pl ON pl.phonemic_id = ssa.phonemic_id
+     WHERE ssa.student_id = ? AND ssa.subject_id = ?
+     ORDER BY ssa.assessed_at DESC
+     LIMIT 1`,
+    [studentId, subjectId],
+  );
+  return buildHistorySnapshot(averages, levels[0]?.level_name ? String(levels[0].level_name) : null);
 }
 
 function generateSyntheticData(): StudentTrainingData[] {
   const data: StudentTrainingData[] = [];
   for (let i = 0; i < 50; i++) {
     // Generate realistic-looking student data
-    const sessions = Math.floor(Math.random() * 10); // 0-10 sessions
-    const phonemicLevel = Math.floor(Math.random() * 5) + 1; // 1-5 level
-    const baseAbility = (phonemicLevel * 10) + (sessions * 2); // Correlation: Higher level + more sessions = better
-    
-    const avgPreviousScore = Math.min(100, Math.max(0, baseAbility + (Math.random() * 20 - 10)));
-    
-    // Target is slightly better due to "learning", with noise
-    const targetScore = Math.min(100, Math.max(0, avgPreviousScore + (Math.random() * 10 - 2)));
+    const sessionCount = Math.floor(Math.random() * 10) + 1; // 1-10 sessions
+    const phonemicRank = Math.floor(Math.random() * 6) / 5; // one of six levels
+    const attendanceRate = 0.6 + Math.random() * 0.4;
+    const baseAbility = 40 + (phonemicRank * 35) + (sessionCount * 1.5); // Correlation: Higher level + more sessions = better
+    const scores = Array.from({ length: Math.min(sessionCount, 5) }, (_, index) =>
+      Math.min(100, Math.max(0, baseAbility + index * 1.5 + (Math.random() * 16 - 8))),
+    );
+
+    const features = buildSubjectFeatureVector({
+      sessionScores: scores,
+      attendance: { present: Math.round(attendanceRate * 20), total: 20 },
+      assessmentPercents: [Math.min(100, Math.max(0, baseAbility + (Math.random() * 20 - 10)))],
+      phonemicRank,
+      daysSinceLastSession: Math.floor(Math.random() * 14) + 1,
+    })!;
+
+    // Target is slightly better due to "learning", with noise; attendance helps too
+    const targetScore = Math.min(100, Math.max(0, scores[scores.length - 1] + (attendanceRate - 0.8) * 10 + (Math.random() * 10 - 3)));
 
     data.push({
       studentId: `synthetic-${i}`,
-      features: [sessions, phonemicLevel, avgPreviousScore],
+      features,
       label: targetScore
     });
   }
@@ -195,13 +302,20 @@ export function convertToTensors(data: StudentTrainingData[]): TensorData {
   const rawLabels = data.map(d => d.label);
 
   const tensorResult = tf.tidy(() => {
-    const inputTensor = tf.tensor2d(rawInputs, [rawInputs.length, 3]);
+    const inputTensor = tf.tensor2d(rawInputs, [rawInputs.length, FEATURE_COUNT]);
     const labelTensor = tf.tensor2d(rawLabels, [rawLabels.length, 1]);
 
     // Normalize inputs (Min-Max scaling is simple and effective here)
     const inputMax = inputTensor.max(0);
     const inputMin = inputTensor.min(0);
-    const normalizedInputs = inputTensor.sub(inputMin).div(inputMax.sub(inputMin));
+    // Features that never vary would divide by zero; scale them to 0 as normalizeFeatureVector does
+    const range = inputMax.sub(inputMin);
+    const constant = range.lessEqual(0);
+    const normalizedInputs = tf.where(
+      constant,
+      tf.zerosLike(inputTensor),
+      inputTensor.sub(inputMin).div(tf.where(constant, tf.onesLike(range), range)),
+    );
 
     // Normalize labels (0-100 score -> 0-1 range)
     const normalizedLabels = labelTensor.div(tf.scalar(100));
@@ -219,4 +333,3 @@ export function convertToTensors(data: StudentTrainingData[]): TensorData {
     originalData: data
   };
 }
-
@@ -0,0 +1,115 @@
+import { comparePhonemicLevelsForSubject, type PhonemicSubjectName } from "@/lib/phonemic-levels";
+import { clamp, ema, linearSlope, mean, standardDeviation } from "@/lib/ml/sequence-stats";
+
+export type PerformanceSubject = PhonemicSubjectName;
+
+export const PERFORMANCE_SUBJECTS: PerformanceSubject[] = ["English", "Filipino", "Math"];
+
+/** Order matters: it is the column order of every feature vector and of the saved normalization constants. */
+export const PERFORMANCE_FEATURES = [
+  { key: "sessionCount", label: "Remedial sessions attended" },
+  { key: "sessionAverage", label: "Recent session average" },
+  { key: "latestScore", label: "Latest session score" },
+  { key: "scoreSlope", label: "Score trend" },
+  { key: "scoreEma", label: "Weighted recent score" },
+  { key: "scoreStd", label: "Score consistency" },
+  { key: "attendanceRate", label: "Attendance rate" },
+  { key: "assessmentAverage", label: "Assessment average" },
+  { key: "phonemicRank", label: "Phonemic level" },
+  { key: "daysSinceLastSession", label: "Days since last session" },
+] as const;
+
+export type PerformanceFeatureKey = (typeof PERFORMANCE_FEATURES)[number]["key"];
+
+export const FEATURE_COUNT = PERFORMANCE_FEATURES.length;
+
+/** How many of the newest session scores feed the trend features. */
+const RECENT_WINDOW = 5;
+const MAX_DAYS_SINCE_SESSION = 365;
+
+export type SubjectFeatureSource = {
+  /** Completed remedial session averages (0-100), oldest first. */
+  sessionScores: number[];
+  attendance: { present: number; total: number };
+  /** Submitted assessment scores as percentages (0-100). */
+  assessmentPercents: number[];
+  /** Position of the learner's phonemic level within the subject, 0 (lowest) to 1 (highest); null when unknown. */
+  phonemicRank: number | null;
+  daysSinceLastSession: number | null;
+};
+
+export type FeatureDriver = {
+  key: PerformanceFeatureKey;
+  label: string;
+  value: number;
+  /** Score points the feature moved the prediction, relative to an average learner's value. */
+  impact: number;
+};
+
+/**
+ * Builds the model input for one learner and subject. Returns null without at least one
+ * completed session, since every trend feature is derived from session scores.
+ */
+export function buildSubjectFeatureVector(source: SubjectFeatureSource): number[] | null {
+  const scores = source.sessionScores.filter((score) => Number.isFinite(score));
+  if (scores.length === 0) {
+    return null;
+  }
+  const recent = scores.slice(-RECENT_WINDOW);
+  const sessionAverage = mean(recent);
+  const attendanceRate = source.attendance.total > 0
+    ? clamp(source.attendance.present / source.attendance.total, 0, 1)
+    : 1; // no recorded sessions means no recorded absences
+  const assessments = source.assessmentPercents.filter((value) => Number.isFinite(value));
+
+  const vector: Record<PerformanceFeatureKey, number> = {
+    sessionCount: scores.length,
+    sessionAverage,
+    latestScore: recent[recent.length - 1],
+    scoreSlope: linearSlope(recent),
+    scoreEma: ema(recent),
+    scoreStd: standardDeviation(recent),
+    attendanceRate,
+    assessmentAverage: assessments.length ? clamp(mean(assessments), 0, 100) : sessionAverage,
+    phonemicRank: source.phonemicRank ?? 0,
+    daysSinceLastSession: clamp(source.daysSinceLastSession ?? 0, 0, MAX_DAYS_SINCE_SESSION),
+  };
+  return PERFORMANCE_FEATURES.map((feature) => vector[feature.key]);
+}
+
+/** Ranks `phonemicId` among the subject's levels, ordered the way the rest of the app orders them. */
+export function phonemicRankFraction(
+  subject: PerformanceSubject,
+  levels: Array<{ phonemicId: number; levelName: string }>,
+  phonemicId: number | null,
+): number | null {
+  if (phonemicId === null || levels.length === 0) return null;
+  const ordered = [...levels].sort((left, right) =>
+    comparePhonemicLevelsForSubject(subject, left.levelName, left.phonemicId, right.levelName, right.phonemicId),
+  );
+  const index = ordered.findIndex((level) => level.phonemicId === phonemicId);
+  if (index < 0) return null;
+  return ordered.length === 1 ? 0 : index / (ordered.length - 1);
+}
+
+/** Min-max scaling with the training set's constants; a feature that never varied in training maps to 0. */
+export function normalizeFeatureVector(features: number[], inputMin: number[], inputMax: number[]): number[] {
+  return features.map((value, index) => {
+    const min = inputMin[index] ?? 0;
+    const range = (inputMax[index] ?? 0) - min;
+    return range > 0 ? (value - min) / range : 0;
+  });
+}
+
+/** The features that moved a prediction most, largest effect first. */
+export function rankFeatureDrivers(features: number[], impacts: number[], limit = 3): FeatureDriver[] {
+  return PERFORMANCE_FEATURES.map((feature, index) => ({
+    key: feature.key,
+    label: feature.label,
+    value: features[index] ?? 0,
+    impact: impacts[index] ?? 0,
+  }))
+    .filter((driver) => Number.isFinite(driver.impact) && Math.abs(driver.impact) >= 0.05)
+    .sort((left, right) => Math.abs(right.impact) - Math.abs(left.impact))
+    .slice(0, limit);
+}
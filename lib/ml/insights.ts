@@ -1,5 +1,6 @@
 import { predictStudentScore } from "@/lib/ml/server-inference";
-import { getStudentFeatures } from "@/lib/ml/dataset";
+import { getStudentSubjectFeatures } from "@/lib/ml/dataset";
+import { PERFORMANCE_FEATURES } from "@/lib/ml/features";
 import { predictFeedbackCategory, getFeedbackTemplate, getEncouragement } from "@/lib/ml/feedback-classifier";
 
 export type SessionMetrics = {
@@ -15,6 +16,8 @@ export type SessionMetrics = {
   sessionTexts?: string[];
 };
 
+const SESSION_AVERAGE_INDEX = PERFORMANCE_FEATURES.findIndex((feature) => feature.key === "sessionAverage");
+
 type ReadingIssue = "silent_letters" | "long_words" | "vowel_a" | "general_decoding";
 
 const toFiniteNumber = (value: number | null | undefined): number | null => {
@@ -176,16 +179,16 @@ export async function generateAiInsight(
   }
 
   const name = toFirstName(studentName);
-  const features = await getStudentFeatures(studentId);
+  const features = await getStudentSubjectFeatures(studentId, subject);
   let riskLevel = "Unknown";
   let trend = "stable";
 
   if (features) {
-    const avgHistorical = features[2];
+    const avgHistorical = features[SESSION_AVERAGE_INDEX];
     if (metrics.overallAverage > avgHistorical + 5) trend = "improving";
     else if (metrics.overallAverage < avgHistorical - 5) trend = "declining";
 
-    const result = await predictStudentScore(features);
+    const result = await predictStudentScore(subject, features);
     if (result !== null) {
       riskLevel = result < 75 ? "High" : "Low";
     }
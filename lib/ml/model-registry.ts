@@ -0,0 +1,500 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { Connection, PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { query } from "@/lib/db";
+import type { StudentTrainingData } from "./dataset";
+
+type DbConnection = Connection | PoolConnection;
+
+export type ModelVersionStatus = "training" | "ready" | "failed";
+
+export type TrainingHyperparameters = {
+  epochs: number;
+  batchSize: number;
+  learningRate: number;
+  hiddenUnits: number;
+  /** Share of the dataset held out for validation, never seen during fitting. */
+  validationSplit: number;
+};
+
+export type RegressionMetrics = {
+  /** Mean absolute error, in score points (0-100). */
+  mae: number;
+  /** Root mean squared error, in score points (0-100). */
+  rmse: number;
+};
+
+export type ModelVersion = {
+  versionId: number;
+  modelName: string;
+  status: ModelVersionStatus;
+  isActive: boolean;
+  hyperparameters: Record<string, number> | null;
+  datasetHash: string | null;
+  datasetSize: number;
+  trainingSize: number;
+  validationSize: number;
+  synthetic: boolean;
+  validationMae: number | null;
+  validationRmse: number | null;
+  trainingLoss: number | null;
+  errorMessage: string | null;
+  trainedBy: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  activatedAt: string | null;
+  activatedBy: string | null;
+};
+
+export class ModelRegistryError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ModelRegistryError";
+    this.status = status;
+  }
+}
+
+export const PERFORMANCE_MODEL_NAME = "performance-predictor";
+
+/** Each subject has its own model, versioned and activated independently. */
+export function performanceModelName(subject: string): string {
+  return `${PERFORMANCE_MODEL_NAME}-${subject.toLowerCase()}`;
+}
+
+/** The gradient-boosted ensemble that scores reading slides; see `lib/ml/xgboost-sequence.ts`. */
+export const SEQUENCE_ENSEMBLE_MODEL_NAME = "performance-xgb";
+
+export const DEFAULT_HYPERPARAMETERS: TrainingHyperparameters = {
+  epochs: 50,
+  batchSize: 32,
+  learningRate: 0.01,
+  hiddenUnits: 10,
+  validationSplit: 0.2,
+};
+
+/** Files every saved version holds; the active version is also published to the model root for the browser. */
+export const MODEL_ARTIFACT_FILES = ["model.json", "weights.bin", "meta.json"] as const;
+
+export function modelArtifactFiles(modelName: string): readonly string[] {
+  return modelName === SEQUENCE_ENSEMBLE_MODEL_NAME ? ["ensemble.json"] : MODEL_ARTIFACT_FILES;
+}
+
+export type HyperparameterBounds<T> = Record<keyof T, { min: number; max: number; integer: boolean }>;
+
+const REGISTRY_TABLE = "ml_model_versions";
+/** One row per activation; a rollback undoes the newest activation of the current version. */
+const ACTIVATION_TABLE = "ml_model_activations";
+/** A run still marked as training after this long is treated as abandoned and no longer blocks new runs. */
+const STALE_TRAINING_MINUTES = 60;
+
+const HYPERPARAMETER_BOUNDS: HyperparameterBounds<TrainingHyperparameters> = {
+  epochs: { min: 1, max: 500, integer: true },
+  batchSize: { min: 1, max: 512, integer: true },
+  learningRate: { min: 0.0001, max: 1, integer: false },
+  hiddenUnits: { min: 1, max: 128, integer: true },
+  validationSplit: { min: 0.05, max: 0.5, integer: false },
+};
+
+export function modelRootDirectory(modelName: string = PERFORMANCE_MODEL_NAME): string {
+  return path.join(process.cwd(), "public", "models", modelName);
+}
+
+export function modelVersionDirectory(versionId: number, modelName: string = PERFORMANCE_MODEL_NAME): string {
+  return path.join(modelRootDirectory(modelName), "versions", String(versionId));
+}
+
+/** Missing fields fall back to `defaults`; out-of-range values are rejected with a message naming the field. */
+export function parseHyperparameters<T extends Record<string, number>>(
+  raw: unknown,
+  defaults: T,
+  bounds: HyperparameterBounds<T>,
+): T | string {
+  const input = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const parsed: Record<string, number> = { ...defaults };
+  for (const key of Object.keys(bounds) as Array<keyof T & string>) {
+    if (input[key] === undefined || input[key] === null || input[key] === "") continue;
+    const value = Number(input[key]);
+    const { min, max, integer } = bounds[key];
+    if (!Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      return `${key} must be ${integer ? "a whole number" : "a number"} between ${min} and ${max}.`;
+    }
+    parsed[key] = value;
+  }
+  return parsed as T;
+}
+
+export function parseTrainingHyperparameters(raw: unknown): TrainingHyperparameters | string {
+  return parseHyperparameters(raw, DEFAULT_HYPERPARAMETERS, HYPERPARAMETER_BOUNDS);
+}
+
+/** Order-independent fingerprint of the rows a version was trained and validated on. */
+export function computeDatasetHash(data: StudentTrainingData[]): string {
+  const rows = data
+    .map((row) => [row.studentId, row.features, row.label] as const)
+    .sort((a, b) => a[0].localeCompare(b[0]));
+  return createHash("sha256").update(JSON.stringify(rows)).digest("hex");
+}
+
+/**
+ * Holds out the learners whose id hashes lowest, so a learner stays on the same side of the
+ * split across runs and validation scores of versions trained on similar data are comparable.
+ */
+export function splitTrainingData(
+  data: StudentTrainingData[],
+  validationSplit: number,
+): { training: StudentTrainingData[]; validation: StudentTrainingData[] } {
+  if (data.length < 2) {
+    return { training: [...data], validation: [] };
+  }
+  const ranked = data
+    .map((row) => ({ row, rank: createHash("sha256").update(row.studentId).digest("hex") }))
+    .sort((a, b) => a.rank.localeCompare(b.rank));
+  const validationSize = Math.min(data.length - 1, Math.max(1, Math.round(data.length * validationSplit)));
+  return {
+    validation: ranked.slice(0, validationSize).map((entry) => entry.row),
+    training: ranked.slice(validationSize).map((entry) => entry.row),
+  };
+}
+
+export function computeRegressionMetrics(predictions: number[], labels: number[]): RegressionMetrics | null {
+  if (predictions.length === 0 || predictions.length !== labels.length) {
+    return null;
+  }
+  let absolute = 0;
+  let squared = 0;
+  for (let index = 0; index < predictions.length; index += 1) {
+    const error = predictions[index] - labels[index];
+    absolute += Math.abs(error);
+    squared += error * error;
+  }
+  return {
+    mae: absolute / predictions.length,
+    rmse: Math.sqrt(squared / predictions.length),
+  };
+}
+
+const toIsoString = (value: unknown): string | null => {
+  if (!value) return null;
+  const parsed = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+};
+
+const toNullableNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+function mapVersionRow(row: RowDataPacket): ModelVersion {
+  let hyperparameters: TrainingHyperparameters | null = null;
+  try {
+    hyperparameters = row.hyperparameters_json ? JSON.parse(String(row.hyperparameters_json)) : null;
+  } catch {
+    hyperparameters = null;
+  }
+  return {
+    versionId: Number(row.version_id),
+    modelName: String(row.model_name),
+    status: String(row.status) as ModelVersionStatus,
+    isActive: Number(row.is_active) === 1,
+    hyperparameters,
+    datasetHash: row.dataset_hash ? String(row.dataset_hash) : null,
+    datasetSize: Number(row.dataset_size ?? 0),
+    trainingSize: Number(row.training_size ?? 0),
+    validationSize: Number(row.validation_size ?? 0),
+    synthetic: Number(row.synthetic) === 1,
+    validationMae: toNullableNumber(row.validation_mae),
+    validationRmse: toNullableNumber(row.validation_rmse),
+    trainingLoss: toNullableNumber(row.training_loss),
+    errorMessage: row.error_message ? String(row.error_message) : null,
+    trainedBy: row.trained_by ? String(row.trained_by) : null,
+    startedAt: toIsoString(row.started_at),
+    completedAt: toIsoString(row.completed_at),
+    activatedAt: toIsoString(row.activated_at),
+    activatedBy: row.activated_by ? String(row.activated_by) : null,
+  };
+}
+
+let registrySchemaPromise: Promise<void> | null = null;
+
+async function ensureModelRegistrySchema(): Promise<void> {
+  if (!registrySchemaPromise) {
+    registrySchemaPromise = query(
+      `CREATE TABLE IF NOT EXISTS ${REGISTRY_TABLE} (
+        version_id INT AUTO_INCREMENT PRIMARY KEY,
+        model_name VARCHAR(64) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'training',
+        is_active TINYINT(1) NOT NULL DEFAULT 0,
+        hyperparameters_json TEXT NULL,
+        dataset_hash CHAR(64) NULL,
+        dataset_size INT NOT NULL DEFAULT 0,
+        training_size INT NOT NULL DEFAULT 0,
+        validation_size INT NOT NULL DEFAULT 0,
+        synthetic TINYINT(1) NOT NULL DEFAULT 0,
+        validation_mae DECIMAL(10,4) NULL,
+        validation_rmse DECIMAL(10,4) NULL,
+        training_loss DECIMAL(14,6) NULL,
+        error_message TEXT NULL,
+        trained_by VARCHAR(100) NULL,
+        started_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        completed_at DATETIME NULL,
+        activated_at DATETIME NULL,
+        activated_by VARCHAR(100) NULL,
+        KEY idx_ml_model_versions_name (model_name, is_active)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+    )
+      .then(() =>
+        query(
+          `CREATE TABLE IF NOT EXISTS ${ACTIVATION_TABLE} (
+            activation_id INT AUTO_INCREMENT PRIMARY KEY,
+            model_name VARCHAR(64) NOT NULL,
+            version_id INT NOT NULL,
+            previous_version_id INT NULL,
+            kind VARCHAR(20) NOT NULL DEFAULT 'activate',
+            rolled_back TINYINT(1) NOT NULL DEFAULT 0,
+            actor VARCHAR(100) NULL,
+            created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            KEY idx_ml_model_activations_name (model_name, rolled_back, activation_id)
+          ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+        ),
+      )
+      .then(() => undefined)
+      .catch((error) => {
+        registrySchemaPromise = null;
+        throw error;
+      });
+  }
+  await registrySchemaPromise;
+}
+
+export async function listModelVersions(modelNames: string[] = [PERFORMANCE_MODEL_NAME], limit = 25): Promise<ModelVersion[]> {
+  await ensureModelRegistrySchema();
+  if (modelNames.length === 0) return [];
+  const [rows] = await query<RowDataPacket[]>(
+    `SELECT * FROM ${REGISTRY_TABLE}
+     WHERE model_name IN (${modelNames.map(() => "?").join(", ")})
+     ORDER BY version_id DESC
+     LIMIT ?`,
+    [...modelNames, limit],
+  );
+  return rows.map(mapVersionRow);
+}
+
+export async function getActiveModelVersion(modelName: string = PERFORMANCE_MODEL_NAME): Promise<ModelVersion | null> {
+  await ensureModelRegistrySchema();
+  const [rows] = await query<RowDataPacket[]>(
+    `SELECT * FROM ${REGISTRY_TABLE} WHERE model_name = ? AND is_active = 1 AND status = 'ready' LIMIT 1`,
+    [modelName],
+  );
+  return rows[0] ? mapVersionRow(rows[0]) : null;
+}
+
+/** Directory inference loads from: the active version, or the pre-registry model root when none is active yet. */
+export async function resolveActiveModelDirectory(modelName: string = PERFORMANCE_MODEL_NAME): Promise<string> {
+  try {
+    const active = await getActiveModelVersion(modelName);
+    if (active) {
+      return modelVersionDirectory(active.versionId, modelName);
+    }
+  } catch (error) {
+    console.warn("Model registry unavailable; falling back to the unversioned model.", error);
+  }
+  return modelRootDirectory(modelName);
+}
+
+/** Opens a run in the training state; only one run per model may train at a time. */
+export async function startModelTrainingRun(input: {
+  modelName?: string;
+  hyperparameters: Record<string, number>;
+  trainedBy: string | number;
+}): Promise<number> {
+  await ensureModelRegistrySchema();
+  const modelName = input.modelName ?? PERFORMANCE_MODEL_NAME;
+  const [running] = await query<RowDataPacket[]>(
+    `SELECT version_id FROM ${REGISTRY_TABLE}
+     WHERE model_name = ? AND status = 'training' AND started_at > DATE_SUB(NOW(), INTERVAL ? MINUTE)
+     LIMIT 1`,
+    [modelName, STALE_TRAINING_MINUTES],
+  );
+  if (running.length > 0) {
+    throw new ModelRegistryError(`Version ${running[0].version_id} is still training. Try again when it finishes.`, 409);
+  }
+  const [result] = await query<ResultSetHeader>(
+    `INSERT INTO ${REGISTRY_TABLE} (model_name, status, hyperparameters_json, trained_by) VALUES (?, 'training', ?, ?)`,
+    [modelName, JSON.stringify(input.hyperparameters), String(input.trainedBy)],
+  );
+  return Number(result.insertId);
+}
+
+export async function completeModelTrainingRun(
+  versionId: number,
+  result: {
+    datasetHash: string;
+    datasetSize: number;
+    trainingSize: number;
+    validationSize: number;
+    synthetic: boolean;
+    metrics: RegressionMetrics | null;
+    trainingLoss: number | null;
+  },
+): Promise<void> {
+  await query(
+    `UPDATE ${REGISTRY_TABLE}
+     SET status = 'ready', dataset_hash = ?, dataset_size = ?, training_size = ?, validation_size = ?, synthetic = ?,
+         validation_mae = ?, validation_rmse = ?, training_loss = ?, completed_at = NOW()
+     WHERE version_id = ?`,
+    [
+      result.datasetHash,
+      result.datasetSize,
+      result.trainingSize,
+      result.validationSize,
+      result.synthetic ? 1 : 0,
+      result.metrics?.mae ?? null,
+      result.metrics?.rmse ?? null,
+      result.trainingLoss,
+      versionId,
+    ],
+  );
+}
+
+export async function failModelTrainingRun(versionId: number, message: string): Promise<void> {
+  await query(
+    `UPDATE ${REGISTRY_TABLE} SET status = 'failed', error_message = ?, completed_at = NOW() WHERE version_id = ?`,
+    [message.slice(0, 2000), versionId],
+  );
+}
+
+async function publishModelArtifacts(versionId: number, modelName: string): Promise<void> {
+  const source = modelVersionDirectory(versionId, modelName);
+  const target = modelRootDirectory(modelName);
+  for (const file of modelArtifactFiles(modelName)) {
+    await fs.copyFile(path.join(source, file), path.join(target, file));
+  }
+}
+
+/**
+ * Makes `versionId` the version inference reads. The previous active version stays in the
+ * registry with its artifacts, so activating an older version is how a rollback is done.
+ */
+export async function activateModelVersion(
+  db: DbConnection,
+  versionId: number,
+  actor: string | number,
+): Promise<{ activated: ModelVersion; previous: ModelVersion | null }> {
+  return switchActiveVersion(db, versionId, actor, "activate");
+}
+
+/** `undoActivationId` marks the activation a rollback reverses, so the next rollback goes one further back. */
+async function switchActiveVersion(
+  db: DbConnection,
+  versionId: number,
+  actor: string | number,
+  kind: "activate" | "rollback",
+  undoActivationId: number | null = null,
+): Promise<{ activated: ModelVersion; previous: ModelVersion | null }> {
+  await ensureModelRegistrySchema();
+  const [rows] = await db.query<RowDataPacket[]>(`SELECT * FROM ${REGISTRY_TABLE} WHERE version_id = ? LIMIT 1`, [versionId]);
+  if (!rows[0]) {
+    throw new ModelRegistryError("Model version not found.", 404);
+  }
+  const target = mapVersionRow(rows[0]);
+  if (target.status !== "ready") {
+    throw new ModelRegistryError(`Version ${versionId} is ${target.status} and cannot be activated.`, 409);
+  }
+  for (const file of modelArtifactFiles(target.modelName)) {
+    try {
+      await fs.access(path.join(modelVersionDirectory(versionId, target.modelName), file));
+    } catch {
+      throw new ModelRegistryError(`Version ${versionId} is missing ${file} and cannot be activated.`, 409);
+    }
+  }
+
+  const [activeRows] = await db.query<RowDataPacket[]>(
+    `SELECT * FROM ${REGISTRY_TABLE} WHERE model_name = ? AND is_active = 1 LIMIT 1`,
+    [target.modelName],
+  );
+  const previous = activeRows[0] ? mapVersionRow(activeRows[0]) : null;
+
+  await db.beginTransaction();
+  try {
+    await db.query(`UPDATE ${REGISTRY_TABLE} SET is_active = 0 WHERE model_name = ? AND is_active = 1`, [target.modelName]);
+    await db.query(
+      `UPDATE ${REGISTRY_TABLE} SET is_active = 1, activated_at = NOW(), activated_by = ? WHERE version_id = ?`,
+      [String(actor), versionId],
+    );
+    await db.query(
+      `INSERT INTO ${ACTIVATION_TABLE} (model_name, version_id, previous_version_id, kind, actor) VALUES (?, ?, ?, ?, ?)`,
+      [target.modelName, versionId, previous?.versionId ?? null, kind, String(actor)],
+    );
+    if (undoActivationId !== null) {
+      await db.query(`UPDATE ${ACTIVATION_TABLE} SET rolled_back = 1 WHERE activation_id = ?`, [undoActivationId]);
+    }
+    await db.commit();
+  } catch (error) {
+    await db.rollback();
+    throw error;
+  }
+
+  await publishModelArtifacts(versionId, target.modelName);
+  return { activated: { ...target, isActive: true }, previous };
+}
+
+/**
+ * Undoes the activation that made the current version active, returning to the version it
+ * replaced. Rollbacks step back through the activations one at a time, so v3 rolls back to v2
+ * and then v1 rather than bouncing between the last two. Versions activated before the history
+ * was kept fall back to the most recently activated version that no rollback has moved away from.
+ */
+export async function rollbackModelVersion(
+  db: DbConnection,
+  actor: string | number,
+  modelName: string = PERFORMANCE_MODEL_NAME,
+): Promise<{ activated: ModelVersion; previous: ModelVersion | null }> {
+  await ensureModelRegistrySchema();
+  const [activeRows] = await db.query<RowDataPacket[]>(
+    `SELECT version_id FROM ${REGISTRY_TABLE} WHERE model_name = ? AND is_active = 1 LIMIT 1`,
+    [modelName],
+  );
+  if (!activeRows[0]) {
+    throw new ModelRegistryError("No version is active, so there is nothing to roll back.", 409);
+  }
+
+  const [historyRows] = await db.query<RowDataPacket[]>(
+    `SELECT activation_id, previous_version_id FROM ${ACTIVATION_TABLE}
+     WHERE model_name = ? AND version_id = ? AND kind = 'activate' AND rolled_back = 0
+     ORDER BY activation_id DESC
+     LIMIT 1`,
+    [modelName, activeRows[0].version_id],
+  );
+  if (historyRows[0]) {
+    if (historyRows[0].previous_version_id === null) {
+      throw new ModelRegistryError("There is no earlier version to roll back to.", 409);
+    }
+    return switchActiveVersion(
+      db,
+      Number(historyRows[0].previous_version_id),
+      actor,
+      "rollback",
+      Number(historyRows[0].activation_id),
+    );
+  }
+
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT version_id FROM ${REGISTRY_TABLE}
+     WHERE model_name = ? AND is_active = 0 AND status = 'ready' AND activated_at IS NOT NULL
+       AND version_id NOT IN (
+         SELECT previous_version_id FROM ${ACTIVATION_TABLE}
+         WHERE model_name = ? AND kind = 'rollback' AND previous_version_id IS NOT NULL
+       )
+     ORDER BY activated_at DESC, version_id DESC
+     LIMIT 1`,
+    [modelName, modelName],
+  );
+  if (!rows[0]) {
+    throw new ModelRegistryError("There is no earlier version to roll back to.", 409);
+  }
+  return switchActiveVersion(db, Number(rows[0].version_id), actor, "rollback");
+}
@@ -1,56 +1,160 @@
-
 import * as tf from "@tensorflow/tfjs";
-import { fetchStudentTrainingData, convertToTensors } from "./dataset";
+import { fetchSubjectTrainingData, convertToTensors } from "./dataset";
+import { FEATURE_COUNT, PERFORMANCE_FEATURES, normalizeFeatureVector, type PerformanceSubject } from "./features";
+import {
+  DEFAULT_HYPERPARAMETERS,
+  completeModelTrainingRun,
+  computeDatasetHash,
+  computeRegressionMetrics,
+  failModelTrainingRun,
+  modelVersionDirectory,
+  performanceModelName,
+  resolveActiveModelDirectory,
+  splitTrainingData,
+  startModelTrainingRun,
+  type RegressionMetrics,
+  type TrainingHyperparameters,
+} from "./model-registry";
 import fs from "fs/promises";
 import path from "path";
 
-const MODEL_PATH = path.join(process.cwd(), "public", "models", "performance-predictor");
-
-export async function createAndTrainModel() {
-  const rawData = await fetchStudentTrainingData();
-  const tensorData = convertToTensors(rawData);
-  const { inputs, labels, inputMax, inputMin } = tensorData;
-
-  // Define a simple sequential model
-  const model = tf.sequential();
-  
-  // Hidden Layer 1
-  model.add(tf.layers.dense({ 
-    inputShape: [3], 
-    units: 10, 
-    activation: 'relu' 
-  }));
-
-  // Hidden Layer 2
-  model.add(tf.layers.dense({ 
-    units: 10, 
-    activation: 'relu' 
-  }));
-
-  // Output Layer (Regression)
-  model.add(tf.layers.dense({ 
-    units: 1, 
-    activation: 'linear' // or 'sigmoid' if normalized 0-1
-  }));
+export type TrainingRunResult = {
+  versionId: number;
+  subject: PerformanceSubject;
+  hyperparameters: TrainingHyperparameters;
+  datasetHash: string;
+  samples: number;
+  trainingSamples: number;
+  validationSamples: number;
+  synthetic: boolean;
+  validation: RegressionMetrics | null;
+  loss: number | null;
+};
 
-  model.compile({
-    optimizer: tf.train.adam(0.01),
-    loss: 'meanSquaredError',
-    metrics: ['mse']
-  });
+/**
+ * Trains a new version of one subject's performance predictor into its own directory and
+ * records it in the model registry. Activating the version is left to the caller.
+ */
+export async function createAndTrainModel(options: {
+  subject: PerformanceSubject;
+  hyperparameters?: TrainingHyperparameters;
+  trainedBy: string | number;
+}): Promise<TrainingRunResult> {
+  const { subject } = options;
+  const modelName = performanceModelName(subject);
+  const hyperparameters = options.hyperparameters ?? DEFAULT_HYPERPARAMETERS;
+  const versionId = await startModelTrainingRun({ modelName, hyperparameters, trainedBy: options.trainedBy });
+
+  try {
+    const rawData = await fetchSubjectTrainingData(subject);
+    const datasetHash = computeDatasetHash(rawData);
+    const synthetic = rawData.some((row) => row.studentId.startsWith("synthetic-"));
+    const { training, validation } = splitTrainingData(rawData, hyperparameters.validationSplit);
+
+    const tensorData = convertToTensors(training);
+    const { inputs, labels, inputMax, inputMin } = tensorData;
+
+    // Define a simple sequential model
+    const model = tf.sequential();
+
+    // Hidden Layer 1
+    model.add(tf.layers.dense({
+      inputShape: [FEATURE_COUNT],
+      units: hyperparameters.hiddenUnits,
+      activation: 'relu'
+    }));
+
+    // Hidden Layer 2
+    model.add(tf.layers.dense({
+      units: hyperparameters.hiddenUnits,
+      activation: 'relu'
+    }));
+
+    // Output Layer (Regression)
+    model.add(tf.layers.dense({
+      units: 1,
+      activation: 'linear' // or 'sigmoid' if normalized 0-1
+    }));
+
+    model.compile({
+      optimizer: tf.train.adam(hyperparameters.learningRate),
+      loss: 'meanSquaredError',
+      metrics: ['mse']
+    });
+
+    const history = await model.fit(inputs, labels, {
+      batchSize: hyperparameters.batchSize,
+      epochs: hyperparameters.epochs,
+      shuffle: true,
+    });
+    const losses = history.history.loss ?? [];
+    const finalLoss = losses.length ? Number(losses[losses.length - 1]) : null;
+
+    // Score the held-out learners with the training set's normalization, in 0-100 score points
+    const minValues = inputMin.arraySync() as number[];
+    const maxValues = inputMax.arraySync() as number[];
+    let metrics: RegressionMetrics | null = null;
+    if (validation.length > 0) {
+      const predictions = tf.tidy(() => {
+        const normalized = validation.map((row) => normalizeFeatureVector(row.features, minValues, maxValues));
+        const validationInputs = tf.tensor2d(normalized, [validation.length, FEATURE_COUNT]);
+        return Array.from((model.predict(validationInputs) as tf.Tensor).dataSync(), (value) => value * 100);
+      });
+      metrics = computeRegressionMetrics(predictions, validation.map((row) => row.label));
+    }
 
-  const batchSize = 32;
-  const epochs = 50;
+    // The training means are the baseline the explanation of a prediction is measured against
+    const inputMean = PERFORMANCE_FEATURES.map(
+      (_, index) => training.reduce((sum, row) => sum + row.features[index], 0) / Math.max(1, training.length),
+    );
+    await saveModelArtifacts(model, modelVersionDirectory(versionId, modelName), {
+      subject,
+      featureKeys: PERFORMANCE_FEATURES.map((feature) => feature.key),
+      inputMax: maxValues,
+      inputMin: minValues,
+      inputMean,
+    });
+
+    tf.dispose([inputs, labels, inputMax, inputMin]);
+    model.dispose();
+
+    const result: TrainingRunResult = {
+      versionId,
+      subject,
+      hyperparameters,
+      datasetHash,
+      samples: rawData.length,
+      trainingSamples: training.length,
+      validationSamples: validation.length,
+      synthetic,
+      validation: metrics,
+      loss: finalLoss !== null && Number.isFinite(finalLoss) ? finalLoss : null,
+    };
+    await completeModelTrainingRun(versionId, {
+      datasetHash,
+      datasetSize: result.samples,
+      trainingSize: result.trainingSamples,
+      validationSize: result.validationSamples,
+      synthetic,
+      metrics,
+      trainingLoss: result.loss,
+    });
+    return result;
+  } catch (error) {
+    await failModelTrainingRun(versionId, error instanceof Error ? error.message : String(error)).catch(
+      (registryError) => console.error("Failed to record the failed training run", registryError),
+    );
+    throw error;
+  }
+}
 
-  await model.fit(inputs, labels, {
-    batchSize,
-    epochs,
-    shuffle: true,
-  });
+async function saveModelArtifacts(
+  model: tf.LayersModel,
+  directory: string,
+  normalizationData: Record<string, unknown>,
+) {
+  await fs.mkdir(directory, { recursive: true });
 
-  // Save Model
-  await fs.mkdir(MODEL_PATH, { recursive: true });
-  
   // Save using a custom handler to write to disk without tfjs-node
   await model.save(tf.io.withSaveHandler(async (artifacts: tf.io.ModelArtifacts) => {
     // 1. Save Weights Binary
@@ -58,8 +162,8 @@ export async function createAndTrainModel() {
        const data = Array.isArray(artifacts.weightData) ? artifacts.weightData[0] : artifacts.weightData;
        const weightBuffer = Buffer.from(new Uint8Array(data));
        const weightFileName = "weights.bin";
-       await fs.writeFile(path.join(MODEL_PATH, weightFileName), weightBuffer);
-       
+       await fs.writeFile(path.join(directory, weightFileName), weightBuffer);
+
        // 2. Create Model JSON with Manifest
        const modelJSON = {
          modelTopology: artifacts.modelTopology,
@@ -73,13 +177,13 @@ export async function createAndTrainModel() {
        };
 
        await fs.writeFile(
-         path.join(MODEL_PATH, "model.json"), 
+         path.join(directory, "model.json"),
          JSON.stringify(modelJSON, null, 2)
        );
     } else {
         // Topology only (no weights)
        await fs.writeFile(
-         path.join(MODEL_PATH, "model.json"), 
+         path.join(directory, "model.json"),
          JSON.stringify(artifacts, null, 2)
        );
     }
@@ -92,48 +196,38 @@ export async function createAndTrainModel() {
     };
   }));
 
-
   // Save Normalization Constants (Min/Max) for inference
-  const normalizationData = {
-    inputMax: inputMax.arraySync(),
-    inputMin: inputMin.arraySync()
-  };
-  
   await fs.writeFile(
-    path.join(MODEL_PATH, "meta.json"), 
+    path.join(directory, "meta.json"),
     JSON.stringify(normalizationData, null, 2)
   );
-
-  return {
-    loss: 0, // Placeholder, would capture from fit history
-    epochs,
-    samples: rawData.length
-  };
 }
 
 /**
- * Loads the trained model for server-side inference.
- * (For client-side, fetch '/models/performance-predictor/model.json')
+ * Loads the active model version of a subject for server-side inference.
+ * (For client-side, fetch '/models/performance-predictor-<subject>/model.json', which mirrors the active version)
  */
-export async function loadModel() {
-   // Loading from file:// requires tfjs-node. 
+export async function loadModel(subject: PerformanceSubject) {
+   // Loading from file:// requires tfjs-node.
    // In pure node without tfjs-node, we must load manually or fetch via HTTP if running on client.
    // Since this function is for SERVER-SIDE inference... we might be stuck without tfjs-node for loading easily.
    // workaround: Construct model from JSON manually.
-   
+
    // Actually, we can use tf.loadLayersModel with a custom IO handler that reads from disk.
-   const modelJsonPath = path.join(MODEL_PATH, "model.json");
-   const metaJsonPath = path.join(MODEL_PATH, "meta.json");
-   
+   const modelName = performanceModelName(subject);
+   const modelDirectory = await resolveActiveModelDirectory(modelName);
+   const modelJsonPath = path.join(modelDirectory, "model.json");
+   const metaJsonPath = path.join(modelDirectory, "meta.json");
+
    // Check if exists
    try {
      await fs.access(modelJsonPath);
    } catch {
-     return null; 
+     return null;
    }
 
    // To load weights in pure JS Node is tricky without tfjs-node.
    // For now, expose the client model URL plus normalization metadata.
    const meta = JSON.parse(await fs.readFile(metaJsonPath, 'utf8'));
-   return { modelUrl: '/models/performance-predictor/model.json', meta };
+   return { modelUrl: `/models/${modelName}/model.json`, meta };
 }
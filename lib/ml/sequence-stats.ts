@@ -0,0 +1,45 @@
+export const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+export const mean = (values: number[]): number => values.length
+  ? values.reduce((sum, value) => sum + value, 0) / values.length
+  : 0;
+
+export const standardDeviation = (values: number[]): number => {
+  if (values.length <= 1) return 0;
+  const avg = mean(values);
+  const variance = values.reduce((sum, value) => sum + ((value - avg) ** 2), 0) / values.length;
+  return Math.sqrt(variance);
+};
+
+export const linearSlope = (valuesOldestToNewest: number[]): number => {
+  if (valuesOldestToNewest.length <= 1) return 0;
+
+  let sumX = 0;
+  let sumY = 0;
+  let sumXY = 0;
+  let sumXX = 0;
+
+  for (let index = 0; index < valuesOldestToNewest.length; index += 1) {
+    const x = index;
+    const y = valuesOldestToNewest[index];
+    sumX += x;
+    sumY += y;
+    sumXY += x * y;
+    sumXX += x * x;
+  }
+
+  const n = valuesOldestToNewest.length;
+  const numerator = (n * sumXY) - (sumX * sumY);
+  const denominator = (n * sumXX) - (sumX * sumX);
+  if (!denominator) return 0;
+  return numerator / denominator;
+};
+
+export const ema = (valuesOldestToNewest: number[], alpha = 0.6): number => {
+  if (!valuesOldestToNewest.length) return 0;
+  let current = valuesOldestToNewest[0];
+  for (let index = 1; index < valuesOldestToNewest.length; index += 1) {
+    current = (alpha * valuesOldestToNewest[index]) + ((1 - alpha) * current);
+  }
+  return current;
+};
@@ -1,78 +1,108 @@
-
 import * as tf from "@tensorflow/tfjs";
 import fs from "fs/promises";
 import path from "path";
+import { performanceModelName, resolveActiveModelDirectory } from "@/lib/ml/model-registry";
+import {
+  FEATURE_COUNT,
+  normalizeFeatureVector,
+  rankFeatureDrivers,
+  type FeatureDriver,
+  type PerformanceSubject,
+} from "@/lib/ml/features";
+
+type ModelMeta = {
+  inputMin: number[];
+  inputMax: number[];
+  inputMean?: number[];
+};
+
+export type ExplainedPrediction = {
+  score: number;
+  drivers: FeatureDriver[];
+};
 
-const MODEL_DIR_ABS = path.join(process.cwd(), "public", "models", "performance-predictor");
+async function loadActiveModel(subject: PerformanceSubject): Promise<{ model: tf.LayersModel; meta: ModelMeta } | null> {
+  const modelDirectory = await resolveActiveModelDirectory(performanceModelName(subject));
 
-export async function predictStudentScore(features: number[]): Promise<number | null> {
+  // 1. Load Meta (Min/Max)
+  const metaPath = path.join(modelDirectory, "meta.json");
   try {
-    // 1. Load Meta (Min/Max)
-    const metaPath = path.join(MODEL_DIR_ABS, "meta.json");
-    try {
-        await fs.access(metaPath);
-    } catch {
-        console.warn("Prediction model not initialized (meta.json missing).");
-        return null; // Model not trained yet
-    }
-    
-    const metaContent = await fs.readFile(metaPath, "utf-8");
-    const meta = JSON.parse(metaContent);
+      await fs.access(metaPath);
+  } catch {
+      console.warn(`${subject} prediction model not initialized (meta.json missing).`);
+      return null; // Model not trained yet
+  }
 
-    // 2. Load Model Artifacts
-    const modelJsonPath = path.join(MODEL_DIR_ABS, "model.json");
-    const weightsPath = path.join(MODEL_DIR_ABS, "weights.bin");
+  const meta = JSON.parse(await fs.readFile(metaPath, "utf-8")) as ModelMeta;
+  if (!Array.isArray(meta.inputMin) || meta.inputMin.length !== FEATURE_COUNT) {
+    console.warn(`${subject} prediction model was trained on a different feature set; retrain it.`);
+    return null;
+  }
 
-    const modelJson = JSON.parse(await fs.readFile(modelJsonPath, "utf-8"));
-    const weightsBuffer = await fs.readFile(weightsPath);
-    
-    // We need to create a custom IO handler that returns the artifacts directly
-    // Wait, tf.io.fromMemory expects the JSON topology/manifest, BUT NOT the raw buffer for weights directly unless using 'weightsManifest' format.
-    // If 'modelJson' contains 'weightsManifest', tfjs will try to fetch the weights.
-    // Since we are server-side "memory" loading, we need to supply the weight specs.
-    
-    // The issue is that standard tf.io.fromMemory() expects weight specs inside the modelTopology object,
-    // OR we can implement `load()` manually.
-    
-    // Simpler approach: Use tf.loadLayersModel with a custom IO handler object.
-    // We need to extract them from the manifest within modelJson
-    const weightSpecs = modelJson.weightsManifest?.[0]?.weights;
-    
-    // If weightSpecs are missing, we can't load.
-    if (!weightSpecs) {
-       console.warn("Invalid model.json structure (missing weightsManifest).");
-       return null; 
-    }
+  // 2. Load Model Artifacts
+  const modelJsonPath = path.join(modelDirectory, "model.json");
+  const weightsPath = path.join(modelDirectory, "weights.bin");
 
-    const handler = tf.io.fromMemory({
-      modelTopology: modelJson.modelTopology || modelJson, 
-      weightSpecs: weightSpecs,
-      weightData: weightsBuffer.buffer
-    });
-    
-    const model = await tf.loadLayersModel(handler);
+  const modelJson = JSON.parse(await fs.readFile(modelJsonPath, "utf-8"));
+  const weightsBuffer = await fs.readFile(weightsPath);
 
-    // 3. Preprocess
-    // We must tidy to ensure no GPU/backend memory leak (though CPU backend is used in node usually)
-    const normalizedScore = tf.tidy(() => {
-        const inputTensor = tf.tensor2d([features], [1, 3]);
-        const min = tf.tensor(meta.inputMin); 
-        const max = tf.tensor(meta.inputMax);
-        
-        // Ensure shapes match
-        // meta.inputMin is [3], inputTensor is [1, 3]. Broadcasting should handle it.
-        const normalizedInput = inputTensor.sub(min).div(max.sub(min));
-        
-        const resultTensor = model.predict(normalizedInput) as tf.Tensor;
-        const data = resultTensor.dataSync(); // Sync for simplicity in tidy scope
-        return data[0];
+  // tf.io.fromMemory needs the weight specs next to the raw buffer rather than a manifest
+  // with paths to fetch, so take them from the manifest saved with the model.
+  const weightSpecs = modelJson.weightsManifest?.[0]?.weights;
+
+  // If weightSpecs are missing, we can't load.
+  if (!weightSpecs) {
+     console.warn("Invalid model.json structure (missing weightsManifest).");
+     return null;
+  }
+
+  const handler = tf.io.fromMemory({
+    modelTopology: modelJson.modelTopology || modelJson,
+    weightSpecs: weightSpecs,
+    weightData: weightsBuffer.buffer.slice(weightsBuffer.byteOffset, weightsBuffer.byteOffset + weightsBuffer.byteLength)
+  });
+
+  return { model: await tf.loadLayersModel(handler), meta };
+}
+
+/**
+ * Predicts a learner's next session score with the subject's active model, and attributes it
+ * to features by swapping each one for the training mean and measuring how far the score moves.
+ */
+export async function explainStudentPrediction(
+  subject: PerformanceSubject,
+  features: number[],
+): Promise<ExplainedPrediction | null> {
+  try {
+    const loaded = await loadActiveModel(subject);
+    if (!loaded) return null;
+    const { model, meta } = loaded;
+    const baseline = meta.inputMean ?? meta.inputMin.map((min, index) => (min + (meta.inputMax[index] ?? min)) / 2);
+
+    // Row 0 is the learner as-is; row i + 1 has feature i replaced by its baseline
+    const rows = [features, ...features.map((_, index) => features.map((value, j) => (j === index ? baseline[j] : value)))];
+    const scores = tf.tidy(() => {
+      const inputTensor = tf.tensor2d(
+        rows.map((row) => normalizeFeatureVector(row, meta.inputMin, meta.inputMax)),
+        [rows.length, FEATURE_COUNT],
+      );
+      const resultTensor = model.predict(inputTensor) as tf.Tensor;
+      return Array.from(resultTensor.dataSync(), (value) => value * 100);
     });
-    
-    model.dispose(); 
-    return normalizedScore * 100;
+    model.dispose();
 
+    const [score, ...withoutFeature] = scores;
+    return {
+      score,
+      drivers: rankFeatureDrivers(features, withoutFeature.map((value) => score - value)),
+    };
   } catch (error) {
     console.error("Server-side prediction failed:", error);
     return null;
   }
 }
+
+export async function predictStudentScore(subject: PerformanceSubject, features: number[]): Promise<number | null> {
+  const prediction = await explainStudentPrediction(subject, features);
+  return prediction ? prediction.score : null;
+}
@@ -1,7 +1,8 @@
-import { getStudentFeatures, getStudentHistorySnapshot } from "@/lib/ml/dataset";
+import { getStudentHistorySnapshot, getStudentSubjectFeatures } from "@/lib/ml/dataset";
+import type { PerformanceSubject } from "@/lib/ml/features";
 import { predictStudentScore } from "@/lib/ml/server-inference";
 import { predictTutorAction, getTutorTemplate } from "@/lib/ml/tutor-classifier";
-import { predictNextScoreXgboostSequence } from "@/lib/ml/xgboost-sequence";
+import { phonemicLevelModelIndex, predictNextScoreXgboostSequence } from "@/lib/ml/xgboost-sequence";
 
 export type TensorflowSlideFeedbackInput = {
   studentId: string;
@@ -11,6 +12,8 @@ export type TensorflowSlideFeedbackInput = {
   accuracyScore?: number | null;
   readingSpeedWpm?: number | null;
   slideAverage?: number | null;
+  /** Subject whose performance model scores the learner; reading slides default to English. */
+  subject?: PerformanceSubject | null;
 };
 
 export type TensorflowSlideFeedbackResult = {
@@ -70,18 +73,6 @@ const speedToScore = (wpm: number): number => {
   return 52;
 };
 
-const mapPhonemicLevelToModelIndex = (value: string | null | undefined): number => {
-  const normalized = (value ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
-  if (!normalized) return 1;
-  if (normalized.includes("nonreader")) return 1;
-  if (normalized.includes("syllable")) return 2;
-  if (normalized.includes("word")) return 3;
-  if (normalized.includes("phrase")) return 4;
-  if (normalized.includes("sentence")) return 4;
-  if (normalized.includes("paragraph")) return 5;
-  return 1;
-};
-
 const getBlendedNextSlideScore = (
   predictedScore: number | null,
   accuracy: number,
@@ -197,36 +188,30 @@ export async function generateTensorflowSlideFeedback(
   const readingSpeedWpm = Math.max(0, Math.round(input.readingSpeedWpm ?? 0));
   const slideAverage = toScore(input.slideAverage);
   const difficultWords = normalizeWords(input.difficultWords);
-  const levelFromInput = mapPhonemicLevelToModelIndex(input.phonemicLevel);
+  const levelFromInput = phonemicLevelModelIndex(input.phonemicLevel);
   const firstName = toFirstName(input.studentName);
 
   // 1. ML: Classify the "Tutor Action" needed based on current performance
   const tutorCategory = await predictTutorAction(accuracy, readingSpeedWpm, slideAverage);
   const tutorFeedback = getTutorTemplate(tutorCategory, firstName);
 
-  const historySnapshot = await getStudentHistorySnapshot(input.studentId);
+  const subject = input.subject ?? "English";
+  const historySnapshot = await getStudentHistorySnapshot(input.studentId, subject);
 
   let predictedScoreFromTf: number | null = null;
   let predictedScore: number | null = null;
   try {
-    const historicalFeatures = historySnapshot
-      ? [historySnapshot.sessions, historySnapshot.phonemicLevel, historySnapshot.avgScore]
-      : await getStudentFeatures(input.studentId);
-    const features = historicalFeatures
-      ? [
-          Math.max(0, Math.round(historicalFeatures[0] ?? 0)),
-          levelFromInput || Math.max(1, Math.round(historicalFeatures[1] ?? 1)),
-          clampScore(Math.round(((historicalFeatures[2] ?? slideAverage) * 0.7) + (slideAverage * 0.3))),
-        ]
-      : [1, levelFromInput, slideAverage];
-
-    predictedScoreFromTf = await predictStudentScore(features);
+    const features = await getStudentSubjectFeatures(input.studentId, subject);
+    predictedScoreFromTf = features ? await predictStudentScore(subject, features) : null;
   } catch {
     predictedScoreFromTf = null;
   }
 
+  // Training uses the level of the session the slide belongs to, which the slide reports itself
   const predictedScoreFromXgb = await predictNextScoreXgboostSequence({
-    history: historySnapshot,
+    history: historySnapshot && input.phonemicLevel
+      ? { ...historySnapshot, phonemicLevel: levelFromInput }
+      : historySnapshot,
     accuracyScore: accuracy,
     readingSpeedWpm,
     slideAverage,
@@ -1,6 +1,8 @@
 import fs from "fs/promises";
 import path from "path";
 import { type StudentHistorySnapshot } from "@/lib/ml/dataset";
+import { SEQUENCE_ENSEMBLE_MODEL_NAME, modelRootDirectory } from "@/lib/ml/model-registry";
+import { clamp, ema, linearSlope, mean, standardDeviation } from "@/lib/ml/sequence-stats";
 
 export type XgboostSequenceInput = {
   history: StudentHistorySnapshot | null;
@@ -9,7 +11,7 @@ export type XgboostSequenceInput = {
   slideAverage: number;
 };
 
-type XgbTree = {
+export type XgbTree = {
   featureIndex: number;
   threshold: number;
   leftValue: number;
@@ -17,7 +19,7 @@ type XgbTree = {
   weight?: number;
 };
 
-type XgbModelArtifact = {
+export type XgbModelArtifact = {
   version: string;
   baseScore: number;
   clipMin?: number;
@@ -25,62 +27,11 @@ type XgbModelArtifact = {
   trees: XgbTree[];
 };
 
-const MODEL_ARTIFACT_PATH = path.join(
-  process.cwd(),
-  "public",
-  "models",
-  "performance-xgb",
-  "ensemble.json",
-);
+// Activating a registry version copies its ensemble here, so this always holds the active one
+const MODEL_ARTIFACT_PATH = path.join(modelRootDirectory(SEQUENCE_ENSEMBLE_MODEL_NAME), "ensemble.json");
 
 let cachedArtifact: XgbModelArtifact | null = null;
-let artifactLoaded = false;
-
-const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
-
-const mean = (values: number[]): number => values.length
-  ? values.reduce((sum, value) => sum + value, 0) / values.length
-  : 0;
-
-const standardDeviation = (values: number[]): number => {
-  if (values.length <= 1) return 0;
-  const avg = mean(values);
-  const variance = values.reduce((sum, value) => sum + ((value - avg) ** 2), 0) / values.length;
-  return Math.sqrt(variance);
-};
-
-const linearSlope = (valuesOldestToNewest: number[]): number => {
-  if (valuesOldestToNewest.length <= 1) return 0;
-
-  let sumX = 0;
-  let sumY = 0;
-  let sumXY = 0;
-  let sumXX = 0;
-
-  for (let index = 0; index < valuesOldestToNewest.length; index += 1) {
-    const x = index;
-    const y = valuesOldestToNewest[index];
-    sumX += x;
-    sumY += y;
-    sumXY += x * y;
-    sumXX += x * x;
-  }
-
-  const n = valuesOldestToNewest.length;
-  const numerator = (n * sumXY) - (sumX * sumY);
-  const denominator = (n * sumXX) - (sumX * sumX);
-  if (!denominator) return 0;
-  return numerator / denominator;
-};
-
-const ema = (valuesOldestToNewest: number[], alpha = 0.6): number => {
-  if (!valuesOldestToNewest.length) return 0;
-  let current = valuesOldestToNewest[0];
-  for (let index = 1; index < valuesOldestToNewest.length; index += 1) {
-    current = (alpha * valuesOldestToNewest[index]) + ((1 - alpha) * current);
-  }
-  return current;
-};
+let cachedArtifactMtime: number | null = null;
 
 const normalize = (value: number, min: number, max: number): number => {
   if (!Number.isFinite(value)) return 0;
@@ -97,7 +48,37 @@ const speedToNormalizedScore = (wpm: number): number => {
   return 0.52;
 };
 
-const buildFeatureVector = (input: XgboostSequenceInput): number[] => {
+export const phonemicLevelModelIndex = (value: string | null | undefined): number => {
+  const normalized = (value ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+  if (!normalized) return 1;
+  if (normalized.includes("nonreader")) return 1;
+  if (normalized.includes("syllable")) return 2;
+  if (normalized.includes("word")) return 3;
+  if (normalized.includes("phrase")) return 4;
+  if (normalized.includes("sentence")) return 4;
+  if (normalized.includes("paragraph")) return 5;
+  return 1;
+};
+
+/**
+ * The history the ensemble sees for a learner: their completed session averages in the subject,
+ * oldest first, and the level they are working at. Training and live inference both build it here.
+ */
+export const buildHistorySnapshot = (
+  averagesOldestFirst: number[],
+  levelName: string | null | undefined,
+): StudentHistorySnapshot | null => {
+  const recentScores = averagesOldestFirst.slice(-5).reverse();
+  if (!recentScores.length) return null;
+  return {
+    sessions: averagesOldestFirst.length,
+    phonemicLevel: phonemicLevelModelIndex(levelName),
+    recentScores,
+    avgScore: mean(recentScores),
+  };
+};
+
+export const buildSequenceFeatureVector = (input: XgboostSequenceInput): number[] => {
   const sessions = input.history?.sessions ?? 0;
   const phonemicLevel = input.history?.phonemicLevel ?? 1;
   const recentNewestToOldest = (input.history?.recentScores ?? []).slice(0, 5);
@@ -157,7 +138,7 @@ const buildFeatureVector = (input: XgboostSequenceInput): number[] => {
   ];
 };
 
-const DEFAULT_MODEL: XgbModelArtifact = {
+export const DEFAULT_SEQUENCE_MODEL: XgbModelArtifact = {
   version: "xgb-sequence-v1",
   baseScore: 68,
   clipMin: 30,
@@ -198,7 +179,7 @@ const isValidTree = (value: unknown): value is XgbTree => {
     && (tree.weight === undefined || Number.isFinite(tree.weight));
 };
 
-const isValidArtifact = (value: unknown): value is XgbModelArtifact => {
+export const isValidArtifact = (value: unknown): value is XgbModelArtifact => {
   if (!value || typeof value !== "object") return false;
   const artifact = value as Partial<XgbModelArtifact>;
   return typeof artifact.version === "string"
@@ -210,27 +191,25 @@ const isValidArtifact = (value: unknown): value is XgbModelArtifact => {
 };
 
 const getModel = async (): Promise<XgbModelArtifact> => {
-  if (artifactLoaded) {
-    return cachedArtifact ?? DEFAULT_MODEL;
-  }
-
-  artifactLoaded = true;
   try {
+    // Re-read only when a retrained or rolled-back version has replaced the file
+    const { mtimeMs } = await fs.stat(MODEL_ARTIFACT_PATH);
+    if (mtimeMs === cachedArtifactMtime) {
+      return cachedArtifact ?? DEFAULT_SEQUENCE_MODEL;
+    }
+    cachedArtifactMtime = mtimeMs;
     const payload = await fs.readFile(MODEL_ARTIFACT_PATH, "utf-8");
     const parsed = JSON.parse(payload) as unknown;
-    if (isValidArtifact(parsed)) {
-      cachedArtifact = parsed;
-      return parsed;
-    }
+    cachedArtifact = isValidArtifact(parsed) ? parsed : null;
   } catch {
     // Ignore artifact load errors and use the bundled default model.
+    cachedArtifact = null;
   }
 
-  cachedArtifact = null;
-  return DEFAULT_MODEL;
+  return cachedArtifact ?? DEFAULT_SEQUENCE_MODEL;
 };
 
-const predictFromTrees = (features: number[], model: XgbModelArtifact): number => {
+export const predictFromTrees = (features: number[], model: XgbModelArtifact): number => {
   let score = model.baseScore;
 
   for (const tree of model.trees) {
@@ -248,7 +227,7 @@ export async function predictNextScoreXgboostSequence(
   input: XgboostSequenceInput,
 ): Promise<number | null> {
   const model = await getModel();
-  const features = buildFeatureVector(input);
+  const features = buildSequenceFeatureVector(input);
   const score = predictFromTrees(features, model);
   return Number.isFinite(score) ? Math.round(score) : null;
 }
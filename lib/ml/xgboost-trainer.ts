@@ -0,0 +1,443 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { type RowDataPacket } from "mysql2/promise";
+import { query, tableExists } from "@/lib/db";
+import { type StudentTrainingData } from "@/lib/ml/dataset";
+import {
+  ModelRegistryError,
+  SEQUENCE_ENSEMBLE_MODEL_NAME,
+  completeModelTrainingRun,
+  computeDatasetHash,
+  computeRegressionMetrics,
+  failModelTrainingRun,
+  modelVersionDirectory,
+  parseHyperparameters,
+  startModelTrainingRun,
+  type HyperparameterBounds,
+  type RegressionMetrics,
+} from "@/lib/ml/model-registry";
+import { clamp, mean } from "@/lib/ml/sequence-stats";
+import {
+  buildHistorySnapshot,
+  buildSequenceFeatureVector,
+  predictFromTrees,
+  type XgbModelArtifact,
+  type XgbTree,
+} from "@/lib/ml/xgboost-sequence";
+
+export type BoostingHyperparameters = {
+  /** Upper bound on trees; early stopping usually ends sooner. */
+  rounds: number;
+  /** Shrinkage applied to every tree's leaf values. */
+  learningRate: number;
+  /** L2 penalty on leaf values, as in XGBoost's lambda. */
+  lambda: number;
+  /** Fewest samples either side of a split may hold. */
+  minChildSamples: number;
+  folds: number;
+  /** Rounds without a validation improvement before fitting stops. */
+  earlyStoppingRounds: number;
+  validationSplit: number;
+};
+
+export const DEFAULT_BOOSTING_HYPERPARAMETERS: BoostingHyperparameters = {
+  rounds: 200,
+  learningRate: 0.1,
+  lambda: 1,
+  minChildSamples: 5,
+  folds: 5,
+  earlyStoppingRounds: 20,
+  validationSplit: 0.2,
+};
+
+const BOOSTING_BOUNDS: HyperparameterBounds<BoostingHyperparameters> = {
+  rounds: { min: 1, max: 1000, integer: true },
+  learningRate: { min: 0.001, max: 1, integer: false },
+  lambda: { min: 0, max: 100, integer: false },
+  minChildSamples: { min: 1, max: 500, integer: true },
+  folds: { min: 2, max: 10, integer: true },
+  earlyStoppingRounds: { min: 1, max: 200, integer: true },
+  validationSplit: { min: 0.05, max: 0.5, integer: false },
+};
+
+/** Fewer consecutive-slide pairs than this cannot support cross-validation, so the run fails instead. */
+export const MIN_SEQUENCE_SAMPLES = 30;
+
+export type BoostedFit = {
+  artifact: XgbModelArtifact;
+  /** Trees kept; below the requested rounds when early stopping or a lack of useful splits ended fitting. */
+  rounds: number;
+  validation: RegressionMetrics | null;
+};
+
+export type CrossValidationResult = {
+  folds: Array<{ fold: number; rounds: number; mae: number; rmse: number }>;
+  /** Mean of the folds' early-stopped round counts, used for the final fit. */
+  rounds: number;
+  mae: number;
+  rmse: number;
+};
+
+export type SequenceTrainingResult = {
+  versionId: number;
+  hyperparameters: BoostingHyperparameters;
+  datasetHash: string;
+  samples: number;
+  trainingSamples: number;
+  validationSamples: number;
+  trees: number;
+  crossValidation: CrossValidationResult | null;
+  validation: RegressionMetrics | null;
+};
+
+export function parseBoostingHyperparameters(raw: unknown): BoostingHyperparameters | string {
+  return parseHyperparameters(raw, DEFAULT_BOOSTING_HYPERPARAMETERS, BOOSTING_BOUNDS);
+}
+
+const studentRank = (studentId: string) => createHash("sha256").update(studentId).digest("hex");
+
+/** Distinct learners in a stable hash order, so every row of a learner lands on the same side of a split. */
+function rankedStudents(data: StudentTrainingData[]): string[] {
+  return Array.from(new Set(data.map((row) => row.studentId)))
+    .map((studentId) => ({ studentId, rank: studentRank(studentId) }))
+    .sort((a, b) => a.rank.localeCompare(b.rank))
+    .map((entry) => entry.studentId);
+}
+
+/** Like the registry's split, but by learner: one learner contributes many slide pairs. */
+export function splitSequenceData(
+  data: StudentTrainingData[],
+  validationSplit: number,
+): { training: StudentTrainingData[]; validation: StudentTrainingData[] } {
+  const students = rankedStudents(data);
+  if (students.length < 2) {
+    return { training: [...data], validation: [] };
+  }
+  const size = Math.min(students.length - 1, Math.max(1, Math.round(students.length * validationSplit)));
+  const heldOut = new Set(students.slice(0, size));
+  return {
+    training: data.filter((row) => !heldOut.has(row.studentId)),
+    validation: data.filter((row) => heldOut.has(row.studentId)),
+  };
+}
+
+function predictAll(artifact: XgbModelArtifact, rows: StudentTrainingData[]): number[] {
+  return rows.map((row) => predictFromTrees(row.features, artifact));
+}
+
+type StumpSplit = { tree: XgbTree; gain: number };
+
+/**
+ * The best single split on residuals, scored with XGBoost's gain for squared error:
+ * G_L²/(n_L+λ) + G_R²/(n_R+λ) − G²/(n+λ), where G sums the residuals on each side.
+ */
+function findBestStump(
+  features: number[][],
+  residuals: Float64Array,
+  sortedByFeature: Int32Array[],
+  hyperparameters: BoostingHyperparameters,
+): StumpSplit | null {
+  const { lambda, minChildSamples, learningRate } = hyperparameters;
+  const count = residuals.length;
+  let total = 0;
+  for (let index = 0; index < count; index += 1) total += residuals[index];
+  const parentScore = (total * total) / (count + lambda);
+
+  let best: StumpSplit | null = null;
+  sortedByFeature.forEach((order, featureIndex) => {
+    let leftSum = 0;
+    for (let position = 0; position < count - 1; position += 1) {
+      leftSum += residuals[order[position]];
+      const leftCount = position + 1;
+      const rightCount = count - leftCount;
+      const value = features[order[position]][featureIndex];
+      const nextValue = features[order[position + 1]][featureIndex];
+      if (value === nextValue || leftCount < minChildSamples || rightCount < minChildSamples) continue;
+
+      const rightSum = total - leftSum;
+      const gain = (leftSum * leftSum) / (leftCount + lambda) + (rightSum * rightSum) / (rightCount + lambda) - parentScore;
+      if (gain > 1e-9 && (!best || gain > best.gain)) {
+        best = {
+          gain,
+          tree: {
+            featureIndex,
+            threshold: (value + nextValue) / 2,
+            leftValue: (learningRate * leftSum) / (leftCount + lambda),
+            rightValue: (learningRate * rightSum) / (rightCount + lambda),
+          },
+        };
+      }
+    }
+  });
+  return best;
+}
+
+/**
+ * Fits a boosted ensemble of depth-one trees in the artifact format `xgboost-sequence.ts`
+ * evaluates. With `validation` rows, fitting stops once the validation RMSE has not improved
+ * for `earlyStoppingRounds` rounds and the ensemble is cut back to its best round.
+ */
+export function fitBoostedStumps(
+  training: StudentTrainingData[],
+  hyperparameters: BoostingHyperparameters,
+  validation: StudentTrainingData[] = [],
+): BoostedFit {
+  if (training.length === 0) {
+    throw new ModelRegistryError("There is no training data for the sequence ensemble.", 422);
+  }
+  const features = training.map((row) => row.features);
+  const labels = training.map((row) => row.label);
+  const featureCount = features[0].length;
+  const artifact: XgbModelArtifact = {
+    version: "xgb-sequence-trained",
+    baseScore: mean(labels),
+    clipMin: clamp(labels.reduce((min, label) => Math.min(min, label), 100), 0, 100),
+    clipMax: clamp(labels.reduce((max, label) => Math.max(max, label), 0), 0, 100),
+    trees: [],
+  };
+
+  const sortedByFeature = Array.from({ length: featureCount }, (_, featureIndex) =>
+    Int32Array.from(training.map((_, index) => index).sort((a, b) => features[a][featureIndex] - features[b][featureIndex])),
+  );
+  // Raw (unclipped) ensemble output, so residuals keep pointing past the clip range
+  const raw = new Float64Array(training.length).fill(artifact.baseScore);
+  const residuals = new Float64Array(training.length);
+  const validationRaw = new Float64Array(validation.length).fill(artifact.baseScore);
+
+  let bestRmse = Number.POSITIVE_INFINITY;
+  let bestRounds = 0;
+  for (let round = 0; round < hyperparameters.rounds; round += 1) {
+    for (let index = 0; index < training.length; index += 1) residuals[index] = labels[index] - raw[index];
+    const split = findBestStump(features, residuals, sortedByFeature, hyperparameters);
+    if (!split) break;
+
+    const { tree } = split;
+    artifact.trees.push(tree);
+    features.forEach((row, index) => {
+      raw[index] += row[tree.featureIndex] <= tree.threshold ? tree.leftValue : tree.rightValue;
+    });
+    if (validation.length === 0) continue;
+
+    let squared = 0;
+    validation.forEach((row, index) => {
+      validationRaw[index] += row.features[tree.featureIndex] <= tree.threshold ? tree.leftValue : tree.rightValue;
+      const error = clamp(validationRaw[index], artifact.clipMin ?? 0, artifact.clipMax ?? 100) - row.label;
+      squared += error * error;
+    });
+    const rmse = Math.sqrt(squared / validation.length);
+    if (rmse < bestRmse - 1e-9) {
+      bestRmse = rmse;
+      bestRounds = artifact.trees.length;
+    } else if (artifact.trees.length - bestRounds >= hyperparameters.earlyStoppingRounds) {
+      break;
+    }
+  }
+
+  if (validation.length > 0) {
+    artifact.trees = artifact.trees.slice(0, bestRounds);
+  }
+  return {
+    artifact,
+    rounds: artifact.trees.length,
+    validation: validation.length > 0
+      ? computeRegressionMetrics(predictAll(artifact, validation), validation.map((row) => row.label))
+      : null,
+  };
+}
+
+/**
+ * K-fold cross-validation grouped by learner. Each fold early-stops on its held-out learners;
+ * returns null when there are too few learners to form two folds.
+ */
+export function crossValidateBoostedStumps(
+  data: StudentTrainingData[],
+  hyperparameters: BoostingHyperparameters,
+): CrossValidationResult | null {
+  const students = rankedStudents(data);
+  const foldCount = Math.min(hyperparameters.folds, students.length);
+  if (foldCount < 2) return null;
+
+  const foldOf = new Map(students.map((studentId, index) => [studentId, index % foldCount]));
+  const folds: CrossValidationResult["folds"] = [];
+  for (let fold = 0; fold < foldCount; fold += 1) {
+    const training = data.filter((row) => foldOf.get(row.studentId) !== fold);
+    const validation = data.filter((row) => foldOf.get(row.studentId) === fold);
+    const fit = fitBoostedStumps(training, hyperparameters, validation);
+    if (fit.validation) {
+      folds.push({ fold, rounds: fit.rounds, ...fit.validation });
+    }
+  }
+  if (folds.length === 0) return null;
+  return {
+    folds,
+    rounds: Math.max(1, Math.round(mean(folds.map((entry) => entry.rounds)))),
+    mae: mean(folds.map((entry) => entry.mae)),
+    rmse: mean(folds.map((entry) => entry.rmse)),
+  };
+}
+
+type SequenceSession = {
+  sessionId: number;
+  studentId: string;
+  subjectId: number;
+  overallAverage: number | null;
+  levelName: string | null;
+};
+
+type SequenceSlide = { accuracyScore: number; readingSpeedWpm: number; slideAverage: number };
+
+/**
+ * Turns completed sessions into training rows: every slide that has a next slide in the same
+ * session predicts that next slide's average, with the history snapshot built by
+ * `buildHistorySnapshot` from the learner's earlier sessions in the subject, as
+ * `getStudentHistorySnapshot` builds it for live feedback.
+ * `sessions` must be ordered by learner, subject and completion time.
+ */
+export function buildSequenceTrainingRows(
+  sessions: SequenceSession[],
+  slidesBySession: Map<number, SequenceSlide[]>,
+): StudentTrainingData[] {
+  const rows: StudentTrainingData[] = [];
+  let groupKey = "";
+  let previousAverages: number[] = [];
+
+  for (const session of sessions) {
+    const key = `${session.studentId}|${session.subjectId}`;
+    if (key !== groupKey) {
+      groupKey = key;
+      previousAverages = [];
+    }
+
+    const history = buildHistorySnapshot(previousAverages, session.levelName);
+    const slides = slidesBySession.get(session.sessionId) ?? [];
+    for (let index = 0; index < slides.length - 1; index += 1) {
+      rows.push({
+        studentId: session.studentId,
+        features: buildSequenceFeatureVector({ history, ...slides[index] }),
+        label: clamp(slides[index + 1].slideAverage, 0, 100),
+      });
+    }
+
+    if (session.overallAverage !== null) {
+      previousAverages.push(session.overallAverage);
+    }
+  }
+  return rows;
+}
+
+const toNumber = (value: unknown): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+export async function fetchSequenceTrainingData(): Promise<StudentTrainingData[]> {
+  if (!(await tableExists("student_remedial_flashcard_performance"))) {
+    return [];
+  }
+  const [sessionRows] = await query<RowDataPacket[]>(
+    `SELECT s.session_id, s.student_id, s.subject_id, s.overall_average, pl.level_name
+     FROM student_remedial_session s
+     LEFT JOIN phonemic_level pl ON pl.phonemic_id = s.phonemic_id
+     WHERE s.completed_at IS NOT NULL
+     ORDER BY s.student_id ASC, s.subject_id ASC, s.completed_at ASC, s.session_id ASC`,
+  );
+  const [slideRows] = await query<RowDataPacket[]>(
+    `SELECT p.session_id, p.accuracy_score, p.reading_speed_wpm, p.slide_average
+     FROM student_remedial_flashcard_performance p
+     JOIN student_remedial_session s ON s.session_id = p.session_id
+     WHERE s.completed_at IS NOT NULL
+     ORDER BY p.session_id ASC, p.flashcard_index ASC, p.performance_id ASC`,
+  );
+
+  const slidesBySession = new Map<number, SequenceSlide[]>();
+  for (const row of slideRows) {
+    const sessionId = Number(row.session_id);
+    const slides = slidesBySession.get(sessionId) ?? [];
+    slides.push({
+      accuracyScore: clamp(toNumber(row.accuracy_score), 0, 100),
+      readingSpeedWpm: Math.max(0, toNumber(row.reading_speed_wpm)),
+      slideAverage: clamp(toNumber(row.slide_average), 0, 100),
+    });
+    slidesBySession.set(sessionId, slides);
+  }
+
+  return buildSequenceTrainingRows(
+    sessionRows.map((row) => ({
+      sessionId: Number(row.session_id),
+      studentId: String(row.student_id),
+      subjectId: Number(row.subject_id),
+      overallAverage: row.overall_average === null ? null : toNumber(row.overall_average),
+      levelName: row.level_name ? String(row.level_name) : null,
+    })),
+    slidesBySession,
+  );
+}
+
+/**
+ * Trains a new version of the slide ensemble from remedial session history: cross-validation on
+ * the training learners picks the number of trees, the final fit uses all of them, and the
+ * held-out learners score the result. Activating the version is left to the caller.
+ */
+export async function trainSequenceEnsemble(options: {
+  hyperparameters?: BoostingHyperparameters;
+  trainedBy: string | number;
+}): Promise<SequenceTrainingResult> {
+  const hyperparameters = options.hyperparameters ?? DEFAULT_BOOSTING_HYPERPARAMETERS;
+  const versionId = await startModelTrainingRun({
+    modelName: SEQUENCE_ENSEMBLE_MODEL_NAME,
+    hyperparameters,
+    trainedBy: options.trainedBy,
+  });
+
+  try {
+    const data = await fetchSequenceTrainingData();
+    if (data.length < MIN_SEQUENCE_SAMPLES) {
+      throw new ModelRegistryError(
+        `Only ${data.length} consecutive slide pairs are recorded; at least ${MIN_SEQUENCE_SAMPLES} are needed to train.`,
+        422,
+      );
+    }
+    const datasetHash = computeDatasetHash(data);
+    const { training, validation } = splitSequenceData(data, hyperparameters.validationSplit);
+    const crossValidation = crossValidateBoostedStumps(training, hyperparameters);
+    const fit = fitBoostedStumps(training, { ...hyperparameters, rounds: crossValidation?.rounds ?? hyperparameters.rounds });
+    const metrics = validation.length > 0
+      ? computeRegressionMetrics(predictAll(fit.artifact, validation), validation.map((row) => row.label))
+      : null;
+
+    const directory = modelVersionDirectory(versionId, SEQUENCE_ENSEMBLE_MODEL_NAME);
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(
+      path.join(directory, "ensemble.json"),
+      JSON.stringify({ ...fit.artifact, version: `xgb-sequence-v${versionId}`, datasetHash, crossValidation }, null, 2),
+    );
+
+    const trainingMetrics = computeRegressionMetrics(predictAll(fit.artifact, training), training.map((row) => row.label));
+    await completeModelTrainingRun(versionId, {
+      datasetHash,
+      datasetSize: data.length,
+      trainingSize: training.length,
+      validationSize: validation.length,
+      synthetic: false,
+      metrics,
+      trainingLoss: trainingMetrics ? trainingMetrics.rmse * trainingMetrics.rmse : null,
+    });
+    return {
+      versionId,
+      hyperparameters,
+      datasetHash,
+      samples: data.length,
+      trainingSamples: training.length,
+      validationSamples: validation.length,
+      trees: fit.rounds,
+      crossValidation,
+      validation: metrics,
+    };
+  } catch (error) {
+    await failModelTrainingRun(versionId, error instanceof Error ? error.message : String(error)).catch(
+      (registryError) => console.error("Failed to record the failed training run", registryError),
+    );
+    throw error;
+  }
+}
@@ -1,5 +1,6 @@
 import { getTableColumns, query } from "@/lib/db";
 import { ensurePerformanceSchema } from "./schema";
+import { parseMiscueAnalysis, type MiscueAnalysis } from "./miscues";
 import type { RowDataPacket, ResultSetHeader } from "mysql2/promise";
 
 export type ActivityType = "remedial" | "academic" | "flashcard" | "quiz" | "other";
@@ -146,6 +147,7 @@ export type RemedialSessionSlide = {
   completeness_score?: number | null;
   reading_speed_wpm?: number | null;
   slide_average?: number | null;
+  miscues?: MiscueAnalysis | null;
   created_at?: string | Date | null;
 };
 
@@ -492,6 +494,7 @@ export async function getRemedialSessionTimeline(
       ${columnOrNull("completeness_score")},
       ${columnOrNull("reading_speed_wpm")},
       ${columnOrNull("slide_average")},
+      ${columnOrNull("miscues")},
       ${columnOrNull("created_at")}
      FROM student_remedial_flashcard_performance
      WHERE session_id IN (${placeholders})
@@ -526,6 +529,7 @@ export async function getRemedialSessionTimeline(
       completeness_score: toNumberValue(row.completeness_score),
       reading_speed_wpm: toNumberValue(row.reading_speed_wpm),
       slide_average: toNumberValue(row.slide_average),
+      miscues: parseMiscueAnalysis(row.miscues),
       created_at: row.created_at ?? null,
     };
     if (!slidesBySession.has(sid)) {
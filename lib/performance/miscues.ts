@@ -0,0 +1,208 @@
+import { alignWords, tokenizeWords, wordSimilarity, type AlignmentOperation } from "@/lib/speech-assessment/text-alignment";
+
+export const MISCUE_TYPES = ["omission", "substitution", "insertion", "repetition", "self_correction"] as const;
+
+export type MiscueType = (typeof MISCUE_TYPES)[number];
+
+export const MISCUE_LABELS: Record<MiscueType, string> = {
+  omission: "Omission",
+  substitution: "Substitution",
+  insertion: "Insertion",
+  repetition: "Repetition",
+  self_correction: "Self-correction",
+};
+
+/**
+ * One word of the marked-up passage, in reading order. Expected words carry
+ * the passage text as written; words the student added carry only `spoken`.
+ */
+export type MiscueToken = {
+  type: "correct" | MiscueType;
+  expected?: string;
+  spoken?: string;
+  expectedIndex?: number;
+};
+
+export type MiscueAnalysis = {
+  expectedWordCount: number;
+  spokenWordCount: number;
+  counts: Record<MiscueType, number>;
+  /** Running-record accuracy: expected words minus counted errors, as a percentage. */
+  accuracyRate: number;
+  /** Self-corrections per self-correction plus counted error, `0` when there were neither. */
+  selfCorrectionRate: number;
+  tokens: MiscueToken[];
+};
+
+/** Miscues that count against accuracy; repetitions and self-corrections do not. */
+const ERROR_MISCUES: readonly MiscueType[] = ["omission", "substitution", "insertion"];
+
+/** How far back or ahead an inserted word is compared with spoken words to spot a repetition. */
+const REPETITION_WINDOW = 3;
+
+/** A false start at least this similar to the word that follows it counts as a self-correction. */
+const SELF_CORRECTION_SIMILARITY = 0.5;
+
+const emptyCounts = (): Record<MiscueType, number> => ({
+  omission: 0,
+  substitution: 0,
+  insertion: 0,
+  repetition: 0,
+  self_correction: 0,
+});
+
+/**
+ * Passage words as written (keeping capitals and punctuation) for each token
+ * `tokenizeWords` produces. Pieces that split into several tokens, such as
+ * hyphenated words, fall back to the tokens themselves.
+ */
+const displayWordsFor = (text: string): string[] => {
+  const display: string[] = [];
+  for (const piece of (text ?? "").split(/\s+/)) {
+    const tokens = tokenizeWords(piece);
+    if (tokens.length === 1) {
+      display.push(piece);
+    } else {
+      display.push(...tokens);
+    }
+  }
+  return display;
+};
+
+const isRepetition = (word: string, spokenIndex: number, spoken: string[]): boolean => {
+  const start = Math.max(0, spokenIndex - REPETITION_WINDOW);
+  const end = Math.min(spoken.length - 1, spokenIndex + REPETITION_WINDOW);
+  for (let index = start; index <= end; index++) {
+    if (index !== spokenIndex && spoken[index] === word) return true;
+  }
+  return false;
+};
+
+const isFalseStartOf = (attempt: string, target: string): boolean =>
+  target.startsWith(attempt) || wordSimilarity(attempt, target) >= SELF_CORRECTION_SIMILARITY;
+
+/**
+ * Running-record miscue analysis of a read-aloud transcript against the
+ * expected passage. The word alignment marks omissions, substitutions and
+ * insertions; insertions are then reclassified as repetitions when the
+ * student re-said a nearby word, or as self-corrections when a false start
+ * was followed by the expected word read correctly.
+ */
+export function analyzeMiscues(expectedText: string, transcript: string): MiscueAnalysis {
+  const expected = tokenizeWords(expectedText);
+  const spoken = tokenizeWords(transcript);
+  const display = displayWordsFor(expectedText);
+  const alignment = alignWords(expected, spoken);
+
+  const nextExpectedOperation = (from: number): AlignmentOperation | null => {
+    for (let index = from + 1; index < alignment.length; index++) {
+      if (alignment[index].type !== "insertion") return alignment[index];
+    }
+    return null;
+  };
+
+  const counts = emptyCounts();
+  const tokens: MiscueToken[] = alignment.map((operation, index): MiscueToken => {
+    if (operation.type === "insertion") {
+      let type: MiscueType = "insertion";
+      if (isRepetition(operation.spoken, operation.spokenIndex, spoken)) {
+        type = "repetition";
+      } else {
+        const next = nextExpectedOperation(index);
+        if (next?.type === "match" && isFalseStartOf(operation.spoken, next.expected)) {
+          type = "self_correction";
+        }
+      }
+      counts[type] += 1;
+      return { type, spoken: operation.spoken };
+    }
+
+    const written = display[operation.expectedIndex] ?? operation.expected;
+    if (operation.type === "omission") {
+      counts.omission += 1;
+      return { type: "omission", expected: written, expectedIndex: operation.expectedIndex };
+    }
+    if (operation.type === "substitution") {
+      counts.substitution += 1;
+      return { type: "substitution", expected: written, spoken: operation.spoken, expectedIndex: operation.expectedIndex };
+    }
+    return { type: "correct", expected: written, spoken: operation.spoken, expectedIndex: operation.expectedIndex };
+  });
+
+  const errors = ERROR_MISCUES.reduce((sum, type) => sum + counts[type], 0);
+  const accuracyRate = expected.length
+    ? Math.max(0, Math.round(((expected.length - errors) / expected.length) * 100))
+    : 0;
+  const selfCorrectionRate =
+    counts.self_correction + errors > 0
+      ? Math.round((counts.self_correction / (counts.self_correction + errors)) * 100)
+      : 0;
+
+  return {
+    expectedWordCount: expected.length,
+    spokenWordCount: spoken.length,
+    counts,
+    accuracyRate,
+    selfCorrectionRate,
+    tokens,
+  };
+}
+
+/** Expected words the student omitted or misread, in passage order. */
+export function collectMissedWords(analysis: MiscueAnalysis): string[] {
+  return analysis.tokens
+    .filter((token) => (token.type === "omission" || token.type === "substitution") && token.expected)
+    .map((token) => tokenizeWords(token.expected as string).join(" "))
+    .filter(Boolean);
+}
+
+const isMiscueTokenType = (value: unknown): value is MiscueToken["type"] =>
+  value === "correct" || (MISCUE_TYPES as readonly unknown[]).includes(value);
+
+const toOptionalString = (value: unknown) => (typeof value === "string" ? value : undefined);
+
+/**
+ * Reads a stored analysis back from its JSON column. Returns `null` for rows
+ * saved before miscues were recorded or for anything that does not parse.
+ */
+export function parseMiscueAnalysis(raw: unknown): MiscueAnalysis | null {
+  let source: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      source = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (!source || typeof source !== "object" || !Array.isArray((source as { tokens?: unknown }).tokens)) {
+    return null;
+  }
+
+  const record = source as Record<string, unknown>;
+  const storedCounts = record.counts && typeof record.counts === "object" ? (record.counts as Record<string, unknown>) : {};
+  const counts = emptyCounts();
+  for (const type of MISCUE_TYPES) {
+    const value = Number(storedCounts[type]);
+    counts[type] = Number.isFinite(value) ? value : 0;
+  }
+
+  const tokens = (record.tokens as unknown[])
+    .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === "object")
+    .filter((item) => isMiscueTokenType(item.type))
+    .map((item) => ({
+      type: item.type as MiscueToken["type"],
+      expected: toOptionalString(item.expected),
+      spoken: toOptionalString(item.spoken),
+      expectedIndex: typeof item.expectedIndex === "number" ? item.expectedIndex : undefined,
+    }));
+
+  const toCount = (value: unknown) => (Number.isFinite(Number(value)) ? Number(value) : 0);
+  return {
+    expectedWordCount: toCount(record.expectedWordCount),
+    spokenWordCount: toCount(record.spokenWordCount),
+    counts,
+    accuracyRate: toCount(record.accuracyRate),
+    selfCorrectionRate: toCount(record.selfCorrectionRate),
+    tokens,
+  };
+}
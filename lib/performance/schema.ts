@@ -85,6 +85,7 @@ export async function ensurePerformanceSchema(): Promise<void> {
           slide_average DECIMAL(6,2) NOT NULL,
           transcription LONGTEXT NULL,
           reading_tutor_feedback LONGTEXT NULL,
+          miscues JSON NULL,
           created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
           PRIMARY KEY (performance_id),
           INDEX idx_remedial_perf_session (session_id),
@@ -127,6 +128,38 @@ export async function ensurePerformanceSchema(): Promise<void> {
         ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
       );
 
+      await query(
+        `CREATE TABLE IF NOT EXISTS student_review_deck (
+          review_id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+          student_id VARCHAR(64) NOT NULL,
+          subject_id BIGINT UNSIGNED NOT NULL,
+          word VARCHAR(64) NOT NULL,
+          box TINYINT UNSIGNED NOT NULL DEFAULT 1,
+          due_at DATETIME NOT NULL,
+          last_score DECIMAL(6,2) NULL,
+          review_count INT UNSIGNED NOT NULL DEFAULT 0,
+          lapse_count INT UNSIGNED NOT NULL DEFAULT 0,
+          last_reviewed_at DATETIME NULL,
+          created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          PRIMARY KEY (review_id),
+          UNIQUE KEY uq_review_student_subject_word (student_id, subject_id, word),
+          INDEX idx_review_due (student_id, subject_id, due_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+      );
+
+      await query(
+        `CREATE TABLE IF NOT EXISTS remedial_session_idempotency (
+          idempotency_key VARCHAR(128) NOT NULL,
+          student_id VARCHAR(64) NOT NULL,
+          session_id BIGINT UNSIGNED NULL,
+          response_json JSON NULL,
+          created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (idempotency_key),
+          INDEX idx_remedial_idempotency_session (session_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+      );
+
       await ensureTableColumn("student_remedial_session", "overall_average", "DECIMAL(6,2) NULL");
       await ensureTableColumn("student_remedial_session", "ai_remarks", "TEXT NULL");
       await ensureTableColumn("student_remedial_session", "completed_at", "DATETIME NULL");
@@ -142,6 +175,7 @@ export async function ensurePerformanceSchema(): Promise<void> {
       await ensureTableColumn("student_remedial_flashcard_performance", "slide_average", "DECIMAL(6,2) NOT NULL DEFAULT 0");
       await ensureTableColumn("student_remedial_flashcard_performance", "transcription", "LONGTEXT NULL");
       await ensureTableColumn("student_remedial_flashcard_performance", "reading_tutor_feedback", "LONGTEXT NULL");
+      await ensureTableColumn("student_remedial_flashcard_performance", "miscues", "JSON NULL");
       await ensureTableColumn("student_remedial_flashcard_performance", "created_at", "DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP");
 
       await ensureTableColumn("student_phonemic_history", "achieved_at", "DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP");
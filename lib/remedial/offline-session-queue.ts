@@ -0,0 +1,252 @@
+const DB_NAME = "rpt-saes-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "remedial_sessions";
+
+export const REMEDIAL_SESSION_ENDPOINT = "/api/remedial/session";
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+export const REMEDIAL_QUEUE_EVENT = "rpt-saes:remedial-queue-changed";
+
+export type RemedialSessionPayload = {
+  studentId: number | string;
+  approvedScheduleId?: number | string | null;
+  [key: string]: unknown;
+};
+
+export type QueuedRemedialSession = {
+  idempotencyKey: string;
+  payload: RemedialSessionPayload;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string | null;
+};
+
+export type RemedialReplayResult = {
+  /** Entries still waiting after the replay. */
+  pending: number;
+  /** True when the server refused the replay because the login expired. */
+  signInRequired: boolean;
+};
+
+export type RemedialSessionSaveResult =
+  | { status: "saved"; response: Response; body: Record<string, unknown> | null }
+  | { status: "queued"; idempotencyKey: string }
+  | { status: "rejected"; response: Response; body: Record<string, unknown> | null };
+
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  const random = Math.random().toString(36).slice(2, 12);
+  return `rs-${Date.now().toString(36)}-${random}`;
+};
+
+const sessionTarget = (payload: RemedialSessionPayload): string | null => {
+  const scheduleId = String(payload.approvedScheduleId ?? "").trim();
+  return scheduleId ? `${String(payload.studentId ?? "").trim()}::${scheduleId}` : null;
+};
+
+/**
+ * Returns the queued entries that a newer save for the same student and schedule
+ * makes obsolete. The server keeps one session per student and schedule, so only
+ * the latest snapshot needs to be replayed. Saves without a schedule cannot be
+ * matched to a session that way and are never superseded.
+ */
+export const findSupersededSessions = (
+  queue: QueuedRemedialSession[],
+  incoming: QueuedRemedialSession,
+): QueuedRemedialSession[] => {
+  const target = sessionTarget(incoming.payload);
+  if (!target) return [];
+  return queue.filter(
+    (entry) => entry.idempotencyKey !== incoming.idempotencyKey && sessionTarget(entry.payload) === target,
+  );
+};
+
+/**
+ * Network failures and server-side errors are worth retrying later; validation
+ * and permission errors (4xx) will fail the same way on every replay.
+ */
+export const isRetryableSaveStatus = (status: number): boolean =>
+  status === 0 || status === 408 || status === 429 || status >= 500;
+
+/**
+ * Replays drop an entry only when the server refused its content. A 401 or 403 means the
+ * login expired, so the entry waits until the user signs in again.
+ */
+export const isRejectedSessionStatus = (status: number): boolean =>
+  status === 400 || status === 409 || status === 422;
+
+export const isSignInRequiredStatus = (status: number): boolean => status === 401 || status === 403;
+
+export const sortQueuedSessions = (queue: QueuedRemedialSession[]): QueuedRemedialSession[] =>
+  [...queue].sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+
+const isIndexedDbAvailable = () => typeof indexedDB !== "undefined";
+
+const openQueueDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: "idempotencyKey" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Failed to open the offline queue."));
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> => {
+  const db = await openQueueDb();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error ?? new Error("Offline queue transaction failed."));
+      transaction.onabort = () => reject(transaction.error ?? new Error("Offline queue transaction aborted."));
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const notifyQueueChanged = () => {
+  if (typeof window === "undefined") return;
+  window.dispatchEvent(new Event(REMEDIAL_QUEUE_EVENT));
+};
+
+export async function listQueuedRemedialSessions(): Promise<QueuedRemedialSession[]> {
+  if (!isIndexedDbAvailable()) return [];
+  const entries = await withStore<QueuedRemedialSession[]>("readonly", (store) => store.getAll());
+  return sortQueuedSessions(entries ?? []);
+}
+
+export async function countQueuedRemedialSessions(): Promise<number> {
+  if (!isIndexedDbAvailable()) return 0;
+  return (await withStore<number>("readonly", (store) => store.count())) ?? 0;
+}
+
+async function putQueuedSession(entry: QueuedRemedialSession): Promise<void> {
+  await withStore("readwrite", (store) => {
+    store.put(entry);
+  });
+}
+
+async function deleteQueuedSessions(keys: string[]): Promise<void> {
+  if (!keys.length) return;
+  await withStore("readwrite", (store) => {
+    keys.forEach((key) => store.delete(key));
+  });
+}
+
+export async function enqueueRemedialSession(entry: QueuedRemedialSession): Promise<void> {
+  if (!isIndexedDbAvailable()) {
+    throw new Error("Offline storage is not available in this browser.");
+  }
+  const queue = await listQueuedRemedialSessions();
+  await deleteQueuedSessions(findSupersededSessions(queue, entry).map((item) => item.idempotencyKey));
+  await putQueuedSession(entry);
+  notifyQueueChanged();
+}
+
+const postRemedialSession = async (payload: RemedialSessionPayload, idempotencyKey: string) => {
+  const response = await fetch(REMEDIAL_SESSION_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", [IDEMPOTENCY_HEADER]: idempotencyKey },
+    body: JSON.stringify(payload),
+  });
+  const body = (await response.json().catch(() => null)) as Record<string, unknown> | null;
+  return { response, body };
+};
+
+/**
+ * Saves a remedial session, falling back to the offline queue when the device
+ * is offline or the request cannot reach the server. The same idempotency key
+ * is used for the first try and every replay, so a request that reached the
+ * server before the connection dropped is never recorded twice.
+ */
+export async function saveRemedialSession(payload: RemedialSessionPayload): Promise<RemedialSessionSaveResult> {
+  const idempotencyKey = createIdempotencyKey();
+  const queueEntry = (lastError: string): QueuedRemedialSession => ({
+    idempotencyKey,
+    payload,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    lastError,
+  });
+
+  if (typeof navigator !== "undefined" && navigator.onLine === false && isIndexedDbAvailable()) {
+    await enqueueRemedialSession(queueEntry("Device is offline."));
+    return { status: "queued", idempotencyKey };
+  }
+
+  try {
+    const { response, body } = await postRemedialSession(payload, idempotencyKey);
+    if (response.ok && body?.success) {
+      return { status: "saved", response, body };
+    }
+    if (isRetryableSaveStatus(response.status) && isIndexedDbAvailable()) {
+      await enqueueRemedialSession(queueEntry(String(body?.error ?? response.statusText)));
+      return { status: "queued", idempotencyKey };
+    }
+    return { status: "rejected", response, body };
+  } catch (error) {
+    if (!isIndexedDbAvailable()) throw error;
+    await enqueueRemedialSession(queueEntry(error instanceof Error ? error.message : "Network error."));
+    return { status: "queued", idempotencyKey };
+  }
+}
+
+let replayInFlight: Promise<RemedialReplayResult> | null = null;
+
+/**
+ * Replays queued sessions oldest first. Entries the server accepted or refused
+ * as invalid are removed; the rest stay queued for the next attempt. An expired
+ * login stops the replay, since every later entry would be refused the same way.
+ */
+export function replayQueuedRemedialSessions(): Promise<RemedialReplayResult> {
+  if (!replayInFlight) {
+    replayInFlight = (async () => {
+      const queue = await listQueuedRemedialSessions();
+      let signInRequired = false;
+      for (const entry of queue) {
+        if (typeof navigator !== "undefined" && navigator.onLine === false) break;
+        try {
+          const { response, body } = await postRemedialSession(entry.payload, entry.idempotencyKey);
+          if (response.ok && body?.success) {
+            await deleteQueuedSessions([entry.idempotencyKey]);
+          } else if (isRejectedSessionStatus(response.status)) {
+            console.warn("Dropping queued remedial session rejected by the server", body?.error ?? response.statusText);
+            await deleteQueuedSessions([entry.idempotencyKey]);
+          } else {
+            await putQueuedSession({
+              ...entry,
+              attempts: entry.attempts + 1,
+              lastError: String(body?.error ?? response.statusText),
+            });
+            if (isSignInRequiredStatus(response.status)) {
+              signInRequired = true;
+              break;
+            }
+          }
+        } catch (error) {
+          await putQueuedSession({
+            ...entry,
+            attempts: entry.attempts + 1,
+            lastError: error instanceof Error ? error.message : "Network error.",
+          });
+          break;
+        }
+      }
+      notifyQueueChanged();
+      return { pending: await countQueuedRemedialSessions(), signInRequired };
+    })().finally(() => {
+      replayInFlight = null;
+    });
+  }
+  return replayInFlight;
+}
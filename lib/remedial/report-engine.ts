@@ -0,0 +1,507 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { jsPDF } from "jspdf";
+import type { RowDataPacket } from "mysql2/promise";
+import { query, tableExists } from "@/lib/db";
+import { CANONICAL_PHONEMIC_LEVELS, normalizePhonemicLevelName, type PhonemicSubjectName } from "@/lib/phonemic-levels";
+import { getDefaultLandingConfig } from "@/lib/utils/landing-config";
+
+export const REMEDIAL_REPORTS_TABLE = "remedial_reports";
+
+export type ReportSubjectKey = "english" | "filipino" | "math";
+
+export type RemedialReportMonthColumn = {
+  key: string;
+  label: string;
+  quarterLabel: string;
+};
+
+export type RemedialReportLearnerRow = {
+  studentId: string | null;
+  learner: string;
+  section: string;
+  gradeLevel: string;
+  monthValues: Record<string, string>;
+};
+
+/** The `report_json` payload the remedial report screen submits alongside a report. */
+export type RemedialReportData = {
+  rows: RemedialReportLearnerRow[];
+  monthColumns: RemedialReportMonthColumn[];
+  schoolYear: string | null;
+};
+
+/** Figures read from the database at render time rather than frozen into `report_json`. */
+export type LiveLearnerSnapshot = {
+  currentLevel: string | null;
+  sessions: number;
+  averageScore: number | null;
+};
+
+export type ReportBranding = {
+  schoolName: string;
+  address: string;
+  phone: string;
+  email: string;
+  primaryColor: string;
+  logo: { data: Uint8Array; format: "PNG" | "JPEG" } | null;
+};
+
+export type RemedialReportRecord = {
+  id: number;
+  subject: ReportSubjectKey;
+  gradeLevel: string | null;
+  teacherName: string | null;
+  createdAt: Date;
+};
+
+export type RenderRemedialReportInput = {
+  report: RemedialReportRecord;
+  data: RemedialReportData;
+  live: Map<string, LiveLearnerSnapshot>;
+  branding: ReportBranding;
+  generatedAt: Date;
+};
+
+type ReportTemplate = {
+  subjectName: PhonemicSubjectName;
+  title: (gradeLevel: string | null) => string;
+  levelHeading: string;
+  summaryHeading: string;
+};
+
+const gradeLabel = (grade: string | null, word = "Grade") => {
+  const text = (grade ?? "").trim();
+  if (!text) return "All Grades";
+  return /^\d+$/.test(text) ? `${word} ${text}` : text;
+};
+
+export const REPORT_TEMPLATES: Record<ReportSubjectKey, ReportTemplate> = {
+  english: {
+    subjectName: "English",
+    title: (grade) => `Progress Report for ${gradeLabel(grade)} - English`,
+    levelHeading: "Reading Level",
+    summaryHeading: "Learners by current reading level",
+  },
+  filipino: {
+    subjectName: "Filipino",
+    title: (grade) => `Ulat ng Pag-unlad para sa ${gradeLabel(grade, "Baitang")} - Filipino`,
+    levelHeading: "Antas ng Pagbasa",
+    summaryHeading: "Bilang ng mag-aaral ayon sa kasalukuyang antas",
+  },
+  math: {
+    subjectName: "Math",
+    title: (grade) => `Progress Report for ${gradeLabel(grade)} - Mathematics`,
+    levelHeading: "Numeracy Level",
+    summaryHeading: "Learners by current numeracy level",
+  },
+};
+
+export const toReportSubjectKey = (value: unknown): ReportSubjectKey => {
+  const text = String(value ?? "").trim().toLowerCase();
+  if (text === "filipino") return "filipino";
+  if (text === "math" || text === "mathematics") return "math";
+  return "english";
+};
+
+const text = (value: unknown) => (typeof value === "string" ? value.trim() : typeof value === "number" ? String(value) : "");
+
+/**
+ * Reads a stored `report_json` value. Older submissions sent the rows array on its own, so a bare
+ * array is accepted; month columns missing from the payload are rebuilt from the row values.
+ */
+export function parseRemedialReportData(raw: unknown): RemedialReportData {
+  let parsed: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      parsed = null;
+    }
+  }
+
+  const source = (Array.isArray(parsed) ? { rows: parsed } : parsed ?? {}) as Record<string, unknown>;
+  const rows = (Array.isArray(source.rows) ? source.rows : [])
+    .filter((row): row is Record<string, unknown> => Boolean(row) && typeof row === "object")
+    .map((row) => {
+      const monthValues: Record<string, string> = {};
+      if (row.monthValues && typeof row.monthValues === "object") {
+        for (const [key, value] of Object.entries(row.monthValues as Record<string, unknown>)) {
+          monthValues[key] = text(value);
+        }
+      }
+      return {
+        studentId: text(row.studentId) || null,
+        learner: text(row.learner),
+        section: text(row.section),
+        gradeLevel: text(row.gradeLevel),
+        monthValues,
+      };
+    })
+    .filter((row) => row.learner || row.studentId);
+
+  let monthColumns = (Array.isArray(source.monthColumns) ? source.monthColumns : [])
+    .filter((column): column is Record<string, unknown> => Boolean(column) && typeof column === "object")
+    .map((column) => ({ key: text(column.key), label: text(column.label), quarterLabel: text(column.quarterLabel) }))
+    .filter((column) => column.key);
+  if (monthColumns.length === 0) {
+    const keys = Array.from(new Set(rows.flatMap((row) => Object.keys(row.monthValues)))).sort();
+    monthColumns = keys.map((key) => ({ key, label: key, quarterLabel: "" }));
+  }
+
+  return { rows, monthColumns, schoolYear: text(source.schoolYear) || null };
+}
+
+/** Counts learners per canonical level of the subject, with unlisted levels after them in first-seen order. */
+export function summarizeLevels(
+  subject: ReportSubjectKey,
+  levels: Array<string | null>,
+): Array<{ level: string; count: number }> {
+  const counts = new Map<string, { level: string; count: number }>();
+  for (const level of CANONICAL_PHONEMIC_LEVELS[REPORT_TEMPLATES[subject].subjectName]) {
+    counts.set(normalizePhonemicLevelName(level), { level, count: 0 });
+  }
+  for (const level of levels) {
+    const label = level || "Not assessed";
+    const key = normalizePhonemicLevelName(label);
+    const entry = counts.get(key) ?? { level: label, count: 0 };
+    entry.count += 1;
+    counts.set(key, entry);
+  }
+  return Array.from(counts.values());
+}
+
+const PAGE_MARGIN = 36;
+const HEADER_HEIGHT = 86;
+const ROW_HEIGHT = 18;
+const FOOTER_HEIGHT = 28;
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  const value = match ? parseInt(match[1], 16) : 0x013300;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const formatDate = (value: Date) =>
+  value.toLocaleDateString("en-PH", { timeZone: "Asia/Manila", year: "numeric", month: "long", day: "numeric" });
+
+const fitText = (doc: jsPDF, value: string, width: number) => {
+  if (doc.getTextWidth(value) <= width) return value;
+  let end = value.length;
+  while (end > 0 && doc.getTextWidth(`${value.slice(0, end)}...`) > width) end -= 1;
+  return `${value.slice(0, end)}...`;
+};
+
+/**
+ * Renders a stored remedial report to PDF. The output depends only on the input: the creation date
+ * is `generatedAt` and the file id is a hash of the input, so the same report renders to the same bytes.
+ */
+export function renderRemedialReportPdf(input: RenderRemedialReportInput): Buffer {
+  const { report, data, live, branding, generatedAt } = input;
+  const template = REPORT_TEMPLATES[report.subject];
+  const title = template.title(report.gradeLevel);
+  const accent = hexToRgb(branding.primaryColor);
+
+  const doc = new jsPDF({ unit: "pt", format: "a4", orientation: "landscape" });
+  doc.setCreationDate(generatedAt);
+  doc.setFileId(
+    createHash("sha256")
+      .update(JSON.stringify({ ...input, live: Array.from(live.entries()), branding: { ...branding, logo: null } }))
+      .update(branding.logo ? Buffer.from(branding.logo.data) : "")
+      .digest("hex")
+      .slice(0, 32)
+      .toUpperCase(),
+  );
+  doc.setDocumentProperties({ title, subject: template.subjectName, author: branding.schoolName, creator: branding.schoolName });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const usableWidth = pageWidth - PAGE_MARGIN * 2;
+
+  const columns: Array<{ heading: string; width: number; value: (row: RemedialReportLearnerRow, index: number) => string }> = [
+    { heading: "#", width: 24, value: (_row, index) => String(index + 1) },
+    { heading: "Learner", width: 150, value: (row) => row.learner },
+    { heading: "Section", width: 70, value: (row) => row.section },
+  ];
+  const liveFor = (row: RemedialReportLearnerRow) => (row.studentId ? live.get(row.studentId) : undefined);
+  const liveColumns: typeof columns = [
+    { heading: `Current ${template.levelHeading}`, width: 100, value: (row) => liveFor(row)?.currentLevel ?? "" },
+    { heading: "Sessions", width: 50, value: (row) => String(liveFor(row)?.sessions ?? 0) },
+    {
+      heading: "Avg %",
+      width: 44,
+      value: (row) => {
+        const average = liveFor(row)?.averageScore;
+        return average === null || average === undefined ? "" : average.toFixed(1);
+      },
+    },
+  ];
+  const fixedWidth = [...columns, ...liveColumns].reduce((sum, column) => sum + column.width, 0);
+  const monthWidth = data.monthColumns.length ? Math.max(48, (usableWidth - fixedWidth) / data.monthColumns.length) : 0;
+  for (const month of data.monthColumns) {
+    columns.push({ heading: month.label || month.key, width: monthWidth, value: (row) => row.monthValues[month.key] ?? "" });
+  }
+  columns.push(...liveColumns);
+  const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+  const scale = tableWidth > usableWidth ? usableWidth / tableWidth : 1;
+
+  const drawHeader = () => {
+    doc.setFillColor(...accent);
+    doc.rect(0, 0, pageWidth, 6, "F");
+    let textX = PAGE_MARGIN;
+    if (branding.logo) {
+      try {
+        doc.addImage(branding.logo.data, branding.logo.format, PAGE_MARGIN, 18, 48, 48, "school-logo", "FAST");
+        textX += 60;
+      } catch (error) {
+        console.warn("Skipping unreadable school logo on remedial report", error);
+      }
+    }
+    doc.setTextColor(...accent);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(15);
+    doc.text(branding.schoolName, textX, 32);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8.5);
+    doc.setTextColor(71, 85, 105);
+    doc.text([branding.address, [branding.phone, branding.email].filter(Boolean).join("  |  ")].filter(Boolean), textX, 45);
+    doc.setTextColor(15, 23, 42);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.text(title, PAGE_MARGIN, HEADER_HEIGHT - 8);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8.5);
+    const meta = [
+      report.teacherName ? `Teacher: ${report.teacherName}` : null,
+      data.schoolYear ? `School year: ${data.schoolYear}` : null,
+      `Submitted ${formatDate(report.createdAt)}`,
+      `Report #${report.id}`,
+    ].filter(Boolean) as string[];
+    doc.text(meta.join("   "), pageWidth - PAGE_MARGIN, HEADER_HEIGHT - 8, { align: "right" });
+  };
+
+  const drawTableHeading = (y: number) => {
+    doc.setFillColor(...accent);
+    doc.rect(PAGE_MARGIN, y, tableWidth * scale, ROW_HEIGHT, "F");
+    doc.setTextColor(255, 255, 255);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(8);
+    let x = PAGE_MARGIN;
+    for (const column of columns) {
+      doc.text(fitText(doc, column.heading, column.width * scale - 6), x + 3, y + 12);
+      x += column.width * scale;
+    }
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(15, 23, 42);
+    return y + ROW_HEIGHT;
+  };
+
+  drawHeader();
+  let y = drawTableHeading(HEADER_HEIGHT + 4);
+  if (data.rows.length === 0) {
+    doc.setFontSize(9);
+    doc.text("No learners were recorded on this report.", PAGE_MARGIN + 3, y + 12);
+    y += ROW_HEIGHT;
+  }
+  data.rows.forEach((row, index) => {
+    if (y + ROW_HEIGHT > pageHeight - PAGE_MARGIN - FOOTER_HEIGHT) {
+      doc.addPage();
+      drawHeader();
+      y = drawTableHeading(HEADER_HEIGHT + 4);
+    }
+    if (index % 2 === 1) {
+      doc.setFillColor(241, 245, 249);
+      doc.rect(PAGE_MARGIN, y, tableWidth * scale, ROW_HEIGHT, "F");
+    }
+    doc.setFontSize(8);
+    let x = PAGE_MARGIN;
+    for (const column of columns) {
+      doc.text(fitText(doc, column.value(row, index), column.width * scale - 6), x + 3, y + 12);
+      x += column.width * scale;
+    }
+    y += ROW_HEIGHT;
+  });
+
+  const summary = summarizeLevels(report.subject, data.rows.map((row) => liveFor(row)?.currentLevel ?? null));
+  if (y + 24 + ROW_HEIGHT * 2 > pageHeight - PAGE_MARGIN - FOOTER_HEIGHT) {
+    doc.addPage();
+    drawHeader();
+    y = HEADER_HEIGHT + 4;
+  }
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(9);
+  doc.text(template.summaryHeading, PAGE_MARGIN, y + 22);
+  doc.setFont("helvetica", "normal");
+  doc.text(summary.map((entry) => `${entry.level}: ${entry.count}`).join("     "), PAGE_MARGIN, y + 36);
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page += 1) {
+    doc.setPage(page);
+    doc.setDrawColor(203, 213, 225);
+    doc.line(PAGE_MARGIN, pageHeight - PAGE_MARGIN, pageWidth - PAGE_MARGIN, pageHeight - PAGE_MARGIN);
+    doc.setFontSize(7.5);
+    doc.setTextColor(100, 116, 139);
+    doc.text(`Generated ${formatDate(generatedAt)} from report data and current learner records`, PAGE_MARGIN, pageHeight - PAGE_MARGIN + 12);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - PAGE_MARGIN + 12, { align: "right" });
+  }
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
+
+let ensureTablePromise: Promise<void> | null = null;
+
+export const ensureRemedialReportsTable = async () => {
+  if (!ensureTablePromise) {
+    ensureTablePromise = query(
+      `CREATE TABLE IF NOT EXISTS \`${REMEDIAL_REPORTS_TABLE}\` (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        subject VARCHAR(50) NOT NULL,
+        grade_level VARCHAR(50) NULL,
+        teacher_name VARCHAR(255) NULL,
+        file_name VARCHAR(255) NOT NULL,
+        report_json LONGTEXT NULL,
+        pdf LONGBLOB NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    )
+      .then(() => undefined)
+      .catch((error) => {
+        ensureTablePromise = null;
+        throw error;
+      });
+  }
+
+  await ensureTablePromise;
+};
+
+const LOGO_FORMATS: Record<string, "PNG" | "JPEG"> = { png: "PNG", jpg: "JPEG", jpeg: "JPEG" };
+
+const loadLogo = async (stored: string | null): Promise<ReportBranding["logo"]> => {
+  if (!stored) return null;
+  const dataUrl = /^data:image\/(png|jpe?g);base64,(.+)$/i.exec(stored);
+  if (dataUrl) {
+    return { data: new Uint8Array(Buffer.from(dataUrl[2], "base64")), format: LOGO_FORMATS[dataUrl[1].toLowerCase()] };
+  }
+
+  // Bundled assets such as the default logo are stored as site paths under public/
+  const publicRoot = path.join(process.cwd(), "public");
+  const filePath = path.resolve(publicRoot, `.${stored.startsWith("/") ? stored : `/${stored}`}`);
+  const format = LOGO_FORMATS[path.extname(filePath).slice(1).toLowerCase()];
+  if (!format || !filePath.startsWith(`${publicRoot}${path.sep}`)) return null;
+  try {
+    return { data: new Uint8Array(await readFile(filePath)), format };
+  } catch {
+    return null;
+  }
+};
+
+/** School name, contact details and logo as configured on the landing page, falling back to the defaults. */
+export async function loadReportBranding(): Promise<ReportBranding> {
+  const defaults = getDefaultLandingConfig();
+  const contact = { ...defaults.contact };
+  let storedLogo: string | null = defaults.theme.logoUrl;
+
+  if (await tableExists("saes_details")) {
+    const [rows] = await query<RowDataPacket[]>(
+      "SELECT location, contact_no, email FROM saes_details ORDER BY updated_at DESC LIMIT 1",
+    );
+    if (rows[0]) {
+      contact.address = text(rows[0].location) || contact.address;
+      contact.phone = text(rows[0].contact_no) || contact.phone;
+      contact.email = text(rows[0].email) || contact.email;
+    }
+  }
+
+  if (await tableExists("landing_logo")) {
+    const [rows] = await query<RowDataPacket[]>("SELECT logo FROM landing_logo ORDER BY created_at DESC LIMIT 1");
+    const raw = rows[0] ? String(rows[0].logo ?? "") : "";
+    if (raw) {
+      try {
+        const parsed = JSON.parse(raw) as { dataUrl?: unknown };
+        storedLogo = typeof parsed.dataUrl === "string" ? parsed.dataUrl : storedLogo;
+      } catch {
+        storedLogo = raw;
+      }
+    }
+  }
+
+  return {
+    schoolName: defaults.theme.systemName,
+    address: contact.address,
+    phone: contact.phone,
+    email: contact.email,
+    primaryColor: defaults.theme.primaryColor,
+    logo: await loadLogo(storedLogo),
+  };
+}
+
+/** Current phonemic level and completed remedial sessions for each learner on the report. */
+export async function loadLiveLearnerSnapshots(
+  subject: ReportSubjectKey,
+  studentIds: string[],
+): Promise<Map<string, LiveLearnerSnapshot>> {
+  const snapshots = new Map<string, LiveLearnerSnapshot>();
+  const ids = Array.from(new Set(studentIds.filter(Boolean)));
+  if (ids.length === 0) return snapshots;
+  for (const id of ids) {
+    snapshots.set(id, { currentLevel: null, sessions: 0, averageScore: null });
+  }
+
+  const names = subject === "math" ? ["math", "mathematics"] : [subject];
+  const [subjectRows] = await query<RowDataPacket[]>(
+    `SELECT subject_id FROM subject WHERE LOWER(TRIM(subject_name)) IN (${names.map(() => "?").join(", ")}) LIMIT 1`,
+    names,
+  );
+  const subjectId = subjectRows[0] ? Number(subjectRows[0].subject_id) : null;
+  if (!subjectId) return snapshots;
+
+  const placeholders = ids.map(() => "?").join(", ");
+  if (await tableExists("student_subject_assessment")) {
+    const [levelRows] = await query<RowDataPacket[]>(
+      `SELECT ssa.student_id, pl.level_name
+       FROM student_subject_assessment ssa
+       JOIN phonemic_level pl ON pl.phonemic_id = ssa.phonemic_id
+       WHERE ssa.subject_id = ? AND ssa.student_id IN (${placeholders})`,
+      [subjectId, ...ids],
+    );
+    for (const row of levelRows) {
+      const snapshot = snapshots.get(String(row.student_id));
+      if (snapshot) snapshot.currentLevel = text(row.level_name) || null;
+    }
+  }
+
+  if (await tableExists("student_remedial_session")) {
+    const [sessionRows] = await query<RowDataPacket[]>(
+      `SELECT student_id, COUNT(*) AS sessions, AVG(overall_average) AS average_score
+       FROM student_remedial_session
+       WHERE subject_id = ? AND completed_at IS NOT NULL AND student_id IN (${placeholders})
+       GROUP BY student_id`,
+      [subjectId, ...ids],
+    );
+    for (const row of sessionRows) {
+      const snapshot = snapshots.get(String(row.student_id));
+      if (!snapshot) continue;
+      snapshot.sessions = Number(row.sessions) || 0;
+      const average = row.average_score === null ? NaN : Number(row.average_score);
+      snapshot.averageScore = Number.isFinite(average) ? Math.round(average * 10) / 10 : null;
+    }
+  }
+
+  return snapshots;
+}
+
+/** Renders a report from its stored data, current learner records and the school branding. */
+export async function buildRemedialReportPdf(
+  report: RemedialReportRecord,
+  reportJson: unknown,
+  generatedAt: Date,
+): Promise<Buffer> {
+  const data = parseRemedialReportData(reportJson);
+  const [live, branding] = await Promise.all([
+    loadLiveLearnerSnapshots(report.subject, data.rows.map((row) => row.studentId ?? "")),
+    loadReportBranding(),
+  ]);
+  return renderRemedialReportPdf({ report, data, live, branding, generatedAt });
+}
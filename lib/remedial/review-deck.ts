@@ -0,0 +1,134 @@
+import type { MiscueAnalysis } from "@/lib/performance/miscues";
+import { tokenizeWords } from "@/lib/speech-assessment/text-alignment";
+
+export const REVIEW_DECK_ENDPOINT = "/api/remedial/review-deck";
+
+/**
+ * Days until the next review for each Leitner box, box 1 first. A word that
+ * is read well moves up one box; a word that is missed goes back to box 1.
+ */
+export const LEITNER_INTERVAL_DAYS = [1, 2, 4, 8, 16] as const;
+
+export const MAX_LEITNER_BOX = LEITNER_INTERVAL_DAYS.length;
+
+/** Word scores at or above this promote the word to the next box. */
+export const REVIEW_PASS_SCORE = 80;
+
+/** How many due words a review round shows before the lesson starts. */
+export const DEFAULT_REVIEW_LIMIT = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReviewDeckWord = {
+  word: string;
+  box: number;
+  dueAt: string;
+  lastScore: number | null;
+  reviewCount: number;
+  lapseCount: number;
+};
+
+export type ReviewWordScore = {
+  word: string;
+  score: number;
+};
+
+export type ReviewSchedule = {
+  box: number;
+  dueAt: Date;
+  lastScore: number;
+  reviewCount: number;
+  lapseCount: number;
+};
+
+export const normalizeReviewWord = (value: string): string => tokenizeWords(value).join(" ");
+
+const clampBox = (box: number) => Math.min(MAX_LEITNER_BOX, Math.max(1, Math.round(box) || 1));
+
+export const dueDateForBox = (box: number, from: Date): Date =>
+  new Date(from.getTime() + LEITNER_INTERVAL_DAYS[clampBox(box) - 1] * DAY_MS);
+
+/**
+ * Next Leitner state after a word was read with `score`. Words seen for the
+ * first time start in box 1 whatever the score, so a lucky first reading is
+ * still checked again the next day.
+ */
+export function scheduleReview(
+  previous: Pick<ReviewSchedule, "box" | "reviewCount" | "lapseCount"> | null,
+  score: number,
+  now: Date = new Date(),
+): ReviewSchedule {
+  const passed = score >= REVIEW_PASS_SCORE;
+  const box = !previous ? 1 : passed ? clampBox(previous.box + 1) : 1;
+  return {
+    box,
+    dueAt: dueDateForBox(box, now),
+    lastScore: Math.round(score),
+    reviewCount: (previous?.reviewCount ?? 0) + 1,
+    lapseCount: (previous?.lapseCount ?? 0) + (previous && !passed ? 1 : 0),
+  };
+}
+
+export const isReviewDue = (entry: Pick<ReviewDeckWord, "dueAt">, now: Date = new Date()): boolean => {
+  const due = new Date(entry.dueAt).getTime();
+  return Number.isFinite(due) && due <= now.getTime();
+};
+
+const SUBSTITUTION_WORD_SCORE = 40;
+
+/**
+ * Scores every passage word a session's miscue analysis covered: 100 when
+ * read correctly, 0 when omitted, and a failing score when misread.
+ * A word read several times keeps its lowest score.
+ */
+export function scoreWordsFromMiscues(analyses: Array<MiscueAnalysis | null | undefined>): ReviewWordScore[] {
+  const scores = new Map<string, number>();
+  for (const analysis of analyses) {
+    for (const token of analysis?.tokens ?? []) {
+      if (!token.expected) continue;
+      const word = normalizeReviewWord(token.expected);
+      if (!word) continue;
+      const score = token.type === "correct" ? 100 : token.type === "substitution" ? SUBSTITUTION_WORD_SCORE : 0;
+      const previous = scores.get(word);
+      scores.set(word, previous === undefined ? score : Math.min(previous, score));
+    }
+  }
+  return Array.from(scores, ([word, score]) => ({ word, score }));
+}
+
+export async function fetchDueReviewWords(
+  studentId: string,
+  subjectId: number,
+  options: { limit?: number; signal?: AbortSignal } = {},
+): Promise<ReviewDeckWord[]> {
+  const params = new URLSearchParams({
+    studentId,
+    subjectId: String(subjectId),
+    limit: String(options.limit ?? DEFAULT_REVIEW_LIMIT),
+  });
+  const response = await fetch(`${REVIEW_DECK_ENDPOINT}?${params.toString()}`, {
+    cache: "no-store",
+    signal: options.signal,
+  });
+  const payload = (await response.json().catch(() => null)) as { success?: boolean; words?: ReviewDeckWord[]; error?: string } | null;
+  if (!response.ok || !payload?.success) {
+    throw new Error(payload?.error ?? "Failed to load the review deck.");
+  }
+  return Array.isArray(payload.words) ? payload.words : [];
+}
+
+export async function submitReviewScores(
+  studentId: string,
+  subjectId: number,
+  results: ReviewWordScore[],
+): Promise<void> {
+  const response = await fetch(REVIEW_DECK_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ studentId, subjectId, results }),
+  });
+  const payload = (await response.json().catch(() => null)) as { success?: boolean; error?: string } | null;
+  if (!response.ok || !payload?.success) {
+    throw new Error(payload?.error ?? "Failed to save review results.");
+  }
+}
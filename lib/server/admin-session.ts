@@ -217,6 +217,17 @@ export async function revokeAdminSession(
   return Number(record.user_id);
 }
 
+export async function revokeAdminSessionById(
+  db: Connection | PoolConnection,
+  sessionId: number,
+): Promise<void> {
+  await ensureAdminSessionSchema(db);
+  await db.execute("UPDATE admin_sessions SET revoked_at = ? WHERE session_id = ? AND revoked_at IS NULL", [
+    new Date(),
+    sessionId,
+  ]);
+}
+
 export async function getAdminSessionFromCookies(): Promise<AdminSessionRecord | null> {
   const cookieStore = await cookies();
   const cookie = cookieStore.get(ADMIN_SESSION_COOKIE_NAME);
@@ -0,0 +1,704 @@
+import type { Connection, PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { writeSecurityAuditLog } from "@/lib/server/security-audit";
+import {
+  RECOVERY_ENTITIES,
+  modeFlagColumn,
+  modeTimeColumn,
+  type RecoveryEntityConfig,
+} from "@/lib/server/recovery-center";
+import { collectRecoveryCascade, type RecoveryCascadeGroup } from "@/lib/server/recovery-cascade";
+
+type DbConnection = Connection | PoolConnection;
+
+export type RetentionUnit = "days" | "school_years";
+export type RetentionTrigger = "manual" | "scheduled";
+
+export type RetentionTarget = {
+  key: string;
+  label: string;
+  table: string;
+  idColumn: string;
+  /** Only rows with this flag set are eligible; null for archive tables, where every row is already archived. */
+  flagColumn: string | null;
+  /** First column that exists on the table dates the row for the retention window. */
+  timeColumns: string[];
+  recovery: RecoveryEntityConfig | null;
+};
+
+export type RetentionPolicy = {
+  entity: string;
+  enabled: boolean;
+  retentionValue: number;
+  retentionUnit: RetentionUnit;
+};
+
+export type RetentionSettings = {
+  autoPurge: boolean;
+};
+
+export type LegalHold = {
+  holdId: number;
+  entity: string;
+  /** Null holds every record of the entity. */
+  recordId: string | null;
+  reason: string;
+  placedBy: string | null;
+  placedAt: string | null;
+};
+
+export type RetentionPreviewEntry = {
+  entity: string;
+  label: string;
+  cutoff: string;
+  available: boolean;
+  entityHeld: boolean;
+  eligibleCount: number;
+  heldCount: number;
+  sampleIds: Array<string | number>;
+};
+
+export type RetentionPurgeEntry = {
+  entity: string;
+  cutoff: string;
+  purgedIds: Array<string | number>;
+  dependents: Array<{ key: string; table: string; purgedCount: number }>;
+};
+
+export type RetentionPurgeFailure = {
+  entity: string;
+  error: string;
+};
+
+export type RetentionRunResult = {
+  purged: RetentionPurgeEntry[];
+  failed: RetentionPurgeFailure[];
+};
+
+/** School years start in June, matching how the rest of the app resolves the current school year. */
+export const SCHOOL_YEAR_START_MONTH = 5;
+export const RETENTION_PURGE_BATCH = 500;
+export const RETENTION_LIMITS: Record<RetentionUnit, { min: number; max: number }> = {
+  days: { min: 30, max: 3650 },
+  school_years: { min: 1, max: 10 },
+};
+
+const POLICIES_TABLE = "data_retention_policies";
+const SETTINGS_TABLE = "data_retention_settings";
+const HOLDS_TABLE = "data_retention_holds";
+const RUN_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const PREVIEW_SAMPLE_SIZE = 20;
+
+const TARGET_LABELS: Record<string, string> = {
+  student: "Deleted students",
+  principal: "Deleted principals",
+  master_teacher: "Deleted master teachers",
+  teacher: "Deleted teachers",
+  parent: "Deleted parents",
+  activity: "Archived activities",
+  remedial_quarter: "Archived remedial quarters",
+  weekly_subject_schedule: "Archived weekly schedules",
+  assessment: "Archived assessments",
+  attendance_record: "Voided attendance",
+  performance_record: "Voided performance records",
+};
+
+/**
+ * Graduates are archived `student` rows whose attendance, sessions and parent links stay live,
+ * so purging them would hard-delete the student out from under that history.
+ */
+const NON_RETAINED_ENTITIES = new Set(["graduated_student"]);
+
+export const RETENTION_TARGETS: RetentionTarget[] = [
+  ...RECOVERY_ENTITIES.filter((entity) => !NON_RETAINED_ENTITIES.has(entity.key)).map((entity) => ({
+    key: entity.key,
+    label: TARGET_LABELS[entity.key] ?? entity.key,
+    table: entity.table,
+    idColumn: entity.idColumn,
+    flagColumn: modeFlagColumn(entity.mode),
+    timeColumns: [modeTimeColumn(entity.mode)],
+    recovery: entity,
+  })),
+  {
+    key: "archived_account",
+    label: "Archived accounts",
+    table: "archived_users",
+    idColumn: "archived_id",
+    flagColumn: null,
+    timeColumns: ["archived_at", "timestamp"],
+    recovery: null,
+  },
+];
+
+export const DEFAULT_RETENTION_POLICY: Omit<RetentionPolicy, "entity"> = {
+  enabled: false,
+  retentionValue: 3,
+  retentionUnit: "school_years",
+};
+
+export function findRetentionTarget(key: string): RetentionTarget | null {
+  return RETENTION_TARGETS.find((target) => target.key === key) ?? null;
+}
+
+export function schoolYearStart(date: Date): Date {
+  const year = date.getMonth() >= SCHOOL_YEAR_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+  return new Date(year, SCHOOL_YEAR_START_MONTH, 1);
+}
+
+/**
+ * Rows dated before the cutoff are purged. For school years the cutoff is the start of the
+ * school year N years back, so a row is kept through N full school years after the one it
+ * was deleted in.
+ */
+export function resolveRetentionCutoff(
+  policy: Pick<RetentionPolicy, "retentionValue" | "retentionUnit">,
+  now: Date = new Date(),
+): Date {
+  if (policy.retentionUnit === "days") {
+    return new Date(now.getTime() - policy.retentionValue * 24 * 60 * 60 * 1000);
+  }
+  const currentStart = schoolYearStart(now);
+  return new Date(currentStart.getFullYear() - policy.retentionValue, SCHOOL_YEAR_START_MONTH, 1);
+}
+
+export function parseRetentionPolicy(raw: unknown): RetentionPolicy | string {
+  const input = (raw ?? {}) as Record<string, unknown>;
+  const entity = typeof input.entity === "string" ? input.entity.trim() : "";
+  if (!findRetentionTarget(entity)) {
+    return `Unknown retention entity: ${entity || "(blank)"}.`;
+  }
+  const unit = input.retentionUnit;
+  if (unit !== "days" && unit !== "school_years") {
+    return "Retention unit must be days or school_years.";
+  }
+  const value = Number(input.retentionValue);
+  const limits = RETENTION_LIMITS[unit];
+  if (!Number.isInteger(value) || value < limits.min || value > limits.max) {
+    return `Retention for ${entity} must be between ${limits.min} and ${limits.max} ${unit === "days" ? "days" : "school years"}.`;
+  }
+  return { entity, enabled: input.enabled === true, retentionValue: value, retentionUnit: unit };
+}
+
+export function isRetentionRunDue(settings: RetentionSettings, lastRunAt: Date | null, now: Date = new Date()): boolean {
+  if (!settings.autoPurge) return false;
+  if (!lastRunAt) return true;
+  return now.getTime() - lastRunAt.getTime() >= RUN_INTERVAL_MS;
+}
+
+const toIsoString = (value: unknown): string | null => {
+  if (!value) return null;
+  const parsed = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+};
+
+let retentionSchemaPromise: Promise<void> | null = null;
+
+async function ensureRetentionSchema(db: DbConnection): Promise<void> {
+  if (!retentionSchemaPromise) {
+    retentionSchemaPromise = (async () => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS ${POLICIES_TABLE} (
+          entity_key VARCHAR(50) PRIMARY KEY,
+          enabled TINYINT(1) NOT NULL DEFAULT 0,
+          retention_value INT NOT NULL,
+          retention_unit ENUM('days','school_years') NOT NULL DEFAULT 'school_years',
+          updated_by VARCHAR(100) NULL,
+          updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS ${SETTINGS_TABLE} (
+          settings_id TINYINT PRIMARY KEY,
+          auto_purge TINYINT(1) NOT NULL DEFAULT 0,
+          last_run_at DATETIME NULL,
+          updated_by VARCHAR(100) NULL,
+          updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS ${HOLDS_TABLE} (
+          hold_id INT AUTO_INCREMENT PRIMARY KEY,
+          entity_key VARCHAR(50) NOT NULL,
+          record_id VARCHAR(100) NULL,
+          reason VARCHAR(500) NOT NULL,
+          placed_by VARCHAR(100) NULL,
+          placed_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          released_by VARCHAR(100) NULL,
+          released_at DATETIME NULL,
+          INDEX idx_data_retention_holds_active (entity_key, released_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+    })().catch((error) => {
+      retentionSchemaPromise = null;
+      throw error;
+    });
+  }
+  await retentionSchemaPromise;
+}
+
+export async function listRetentionPolicies(db: DbConnection): Promise<Array<RetentionPolicy & { label: string }>> {
+  await ensureRetentionSchema(db);
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT entity_key, enabled, retention_value, retention_unit FROM ${POLICIES_TABLE}`,
+  );
+  const saved = new Map(rows.map((row) => [String(row.entity_key), row]));
+  return RETENTION_TARGETS.map((target) => {
+    const row = saved.get(target.key);
+    return {
+      entity: target.key,
+      label: target.label,
+      enabled: row ? Number(row.enabled) === 1 : DEFAULT_RETENTION_POLICY.enabled,
+      retentionValue: row ? Number(row.retention_value) : DEFAULT_RETENTION_POLICY.retentionValue,
+      retentionUnit: row ? (row.retention_unit as RetentionUnit) : DEFAULT_RETENTION_POLICY.retentionUnit,
+    };
+  });
+}
+
+export async function saveRetentionPolicies(
+  db: DbConnection,
+  policies: RetentionPolicy[],
+  updatedBy: string | number,
+): Promise<void> {
+  await ensureRetentionSchema(db);
+  for (const policy of policies) {
+    await db.query(
+      `INSERT INTO ${POLICIES_TABLE} (entity_key, enabled, retention_value, retention_unit, updated_by)
+       VALUES (?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE
+         enabled = VALUES(enabled),
+         retention_value = VALUES(retention_value),
+         retention_unit = VALUES(retention_unit),
+         updated_by = VALUES(updated_by)`,
+      [policy.entity, policy.enabled ? 1 : 0, policy.retentionValue, policy.retentionUnit, String(updatedBy)],
+    );
+  }
+}
+
+async function loadSettingsRow(db: DbConnection): Promise<{ settings: RetentionSettings; lastRunAt: Date | null }> {
+  await ensureRetentionSchema(db);
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT auto_purge, last_run_at FROM ${SETTINGS_TABLE} WHERE settings_id = 1 LIMIT 1`,
+  );
+  const row = rows[0];
+  const lastRunAt = row?.last_run_at ? new Date(row.last_run_at) : null;
+  return {
+    settings: { autoPurge: row ? Number(row.auto_purge) === 1 : false },
+    lastRunAt: lastRunAt && !Number.isNaN(lastRunAt.getTime()) ? lastRunAt : null,
+  };
+}
+
+export async function getRetentionSettings(
+  db: DbConnection,
+): Promise<RetentionSettings & { lastRunAt: string | null; runDue: boolean }> {
+  const { settings, lastRunAt } = await loadSettingsRow(db);
+  return {
+    ...settings,
+    lastRunAt: lastRunAt ? lastRunAt.toISOString() : null,
+    runDue: isRetentionRunDue(settings, lastRunAt),
+  };
+}
+
+export async function saveRetentionSettings(
+  db: DbConnection,
+  settings: RetentionSettings,
+  updatedBy: string | number,
+): Promise<void> {
+  await ensureRetentionSchema(db);
+  await db.query(
+    `INSERT INTO ${SETTINGS_TABLE} (settings_id, auto_purge, updated_by)
+     VALUES (1, ?, ?)
+     ON DUPLICATE KEY UPDATE auto_purge = VALUES(auto_purge), updated_by = VALUES(updated_by)`,
+    [settings.autoPurge ? 1 : 0, String(updatedBy)],
+  );
+}
+
+export async function listLegalHolds(db: DbConnection): Promise<LegalHold[]> {
+  await ensureRetentionSchema(db);
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT hold_id, entity_key, record_id, reason, placed_by, placed_at
+     FROM ${HOLDS_TABLE}
+     WHERE released_at IS NULL
+     ORDER BY placed_at DESC, hold_id DESC`,
+  );
+  return rows.map((row) => ({
+    holdId: Number(row.hold_id),
+    entity: String(row.entity_key),
+    recordId: row.record_id === null ? null : String(row.record_id),
+    reason: String(row.reason),
+    placedBy: row.placed_by === null ? null : String(row.placed_by),
+    placedAt: toIsoString(row.placed_at),
+  }));
+}
+
+export async function placeLegalHold(
+  db: DbConnection,
+  input: { entity: string; recordId: string | null; reason: string },
+  placedBy: string | number,
+): Promise<number> {
+  await ensureRetentionSchema(db);
+  const [result] = await db.query<ResultSetHeader>(
+    `INSERT INTO ${HOLDS_TABLE} (entity_key, record_id, reason, placed_by) VALUES (?, ?, ?, ?)`,
+    [input.entity, input.recordId, input.reason, String(placedBy)],
+  );
+  return Number(result.insertId);
+}
+
+export async function releaseLegalHold(db: DbConnection, holdId: number, releasedBy: string | number): Promise<LegalHold | null> {
+  await ensureRetentionSchema(db);
+  const hold = (await listLegalHolds(db)).find((entry) => entry.holdId === holdId) ?? null;
+  if (!hold) {
+    return null;
+  }
+  await db.query(
+    `UPDATE ${HOLDS_TABLE} SET released_at = NOW(), released_by = ? WHERE hold_id = ? AND released_at IS NULL`,
+    [String(releasedBy), holdId],
+  );
+  return hold;
+}
+
+async function loadColumns(db: DbConnection, table: string): Promise<Set<string>> {
+  try {
+    const [rows] = await db.query<RowDataPacket[]>(`SHOW COLUMNS FROM \`${table}\``);
+    return new Set(rows.map((row) => String(row.Field)));
+  } catch {
+    return new Set();
+  }
+}
+
+type EligibleQuery = {
+  where: string;
+  params: unknown[];
+  timeColumn: string;
+};
+
+/** Builds the WHERE clause for rows past the cutoff; null when the table lacks the columns to decide. */
+function buildEligibleQuery(
+  target: RetentionTarget,
+  columns: Set<string>,
+  cutoff: Date,
+  heldIds: string[],
+): EligibleQuery | null {
+  const timeColumn = target.timeColumns.find((column) => columns.has(column));
+  if (!timeColumn || !columns.has(target.idColumn) || (target.flagColumn && !columns.has(target.flagColumn))) {
+    return null;
+  }
+  const clauses = [`\`${timeColumn}\` IS NOT NULL`, `\`${timeColumn}\` < ?`];
+  const params: unknown[] = [cutoff];
+  if (target.flagColumn) {
+    clauses.push(`\`${target.flagColumn}\` = 1`);
+  }
+  if (heldIds.length > 0) {
+    clauses.push(`CAST(\`${target.idColumn}\` AS CHAR) NOT IN (${heldIds.map(() => "?").join(", ")})`);
+    params.push(...heldIds);
+  }
+  return { where: clauses.join(" AND "), params, timeColumn };
+}
+
+function splitHolds(holds: LegalHold[], entity: string): { entityHeld: boolean; heldIds: string[] } {
+  const relevant = holds.filter((hold) => hold.entity === entity);
+  return {
+    entityHeld: relevant.some((hold) => hold.recordId === null),
+    heldIds: relevant.map((hold) => hold.recordId).filter((value): value is string => value !== null),
+  };
+}
+
+/**
+ * Holds name retention targets, while cascade groups name dependencies (`attendance` rather than
+ * `attendance_record`), so a cascaded row is matched through the targets that purge its table.
+ */
+function splitTableHolds(holds: LegalHold[], table: string): { entityHeld: boolean; heldIds: string[] } {
+  const splits = RETENTION_TARGETS.filter((target) => target.table === table).map((target) => splitHolds(holds, target.key));
+  return {
+    entityHeld: splits.some((split) => split.entityHeld),
+    heldIds: splits.flatMap((split) => split.heldIds),
+  };
+}
+
+/**
+ * Drops every root whose cascade reaches a row under legal hold, together with the rest of that
+ * root's cascade. Purging only the unheld part would leave the root half-deleted and the held row
+ * without the parent it needs when it is restored.
+ */
+export function excludeHeldCascades(
+  entity: string,
+  rootIds: Array<string | number>,
+  groups: RecoveryCascadeGroup[],
+  holds: LegalHold[],
+): { rootIds: Array<string | number>; groups: RecoveryCascadeGroup[]; heldRootIds: Array<string | number> } {
+  const nodeKey = (key: string, id: string | number) => `${key}|${String(id)}`;
+  const parentOf = new Map<string, string>();
+  for (const group of groups) {
+    group.ids.forEach((id, index) => {
+      parentOf.set(nodeKey(group.key, id), nodeKey(group.parentKey, group.parentIds[index]));
+    });
+  }
+  const rootOf = (node: string) => {
+    let current = node;
+    for (let next = parentOf.get(current); next; next = parentOf.get(current)) {
+      current = next;
+    }
+    return current;
+  };
+
+  const heldRoots = new Set<string>();
+  const rootHolds = splitHolds(holds, entity);
+  for (const id of rootIds) {
+    if (rootHolds.entityHeld || rootHolds.heldIds.includes(String(id))) heldRoots.add(nodeKey(entity, id));
+  }
+  for (const group of groups) {
+    const { entityHeld, heldIds } = splitTableHolds(holds, group.table);
+    for (const id of group.ids) {
+      if (entityHeld || heldIds.includes(String(id))) heldRoots.add(rootOf(nodeKey(group.key, id)));
+    }
+  }
+
+  const keep = (key: string, id: string | number) => !heldRoots.has(rootOf(nodeKey(key, id)));
+  return {
+    rootIds: rootIds.filter((id) => keep(entity, id)),
+    groups: groups.map((group) => {
+      const kept = group.ids.map((id, index) => ({ id, parentId: group.parentIds[index] })).filter(({ id }) => keep(group.key, id));
+      return { ...group, ids: kept.map((entry) => entry.id), parentIds: kept.map((entry) => entry.parentId) };
+    }),
+    heldRootIds: rootIds.filter((id) => !keep(entity, id)),
+  };
+}
+
+export async function previewRetention(db: DbConnection, now: Date = new Date()): Promise<RetentionPreviewEntry[]> {
+  const policies = (await listRetentionPolicies(db)).filter((policy) => policy.enabled);
+  const holds = await listLegalHolds(db);
+  const entries: RetentionPreviewEntry[] = [];
+
+  for (const policy of policies) {
+    const target = findRetentionTarget(policy.entity);
+    if (!target) continue;
+    const cutoff = resolveRetentionCutoff(policy, now);
+    const { entityHeld, heldIds } = splitHolds(holds, target.key);
+    const columns = await loadColumns(db, target.table);
+    const eligible = buildEligibleQuery(target, columns, cutoff, heldIds);
+    const unheld = buildEligibleQuery(target, columns, cutoff, []);
+    const entry: RetentionPreviewEntry = {
+      entity: target.key,
+      label: target.label,
+      cutoff: cutoff.toISOString(),
+      available: eligible !== null,
+      entityHeld,
+      eligibleCount: 0,
+      heldCount: 0,
+      sampleIds: [],
+    };
+
+    if (eligible && unheld) {
+      const [totalRows] = await db.query<RowDataPacket[]>(
+        `SELECT COUNT(*) AS total FROM \`${target.table}\` WHERE ${unheld.where}`,
+        unheld.params,
+      );
+      const [countRows] = await db.query<RowDataPacket[]>(
+        `SELECT COUNT(*) AS total FROM \`${target.table}\` WHERE ${eligible.where}`,
+        eligible.params,
+      );
+      const total = Number(totalRows[0]?.total ?? 0);
+      const purgeable = entityHeld ? 0 : Number(countRows[0]?.total ?? 0);
+      entry.eligibleCount = purgeable;
+      entry.heldCount = total - purgeable;
+      if (purgeable > 0) {
+        const [sampleRows] = await db.query<RowDataPacket[]>(
+          `SELECT \`${target.idColumn}\` AS id FROM \`${target.table}\` WHERE ${eligible.where}
+           ORDER BY \`${eligible.timeColumn}\` ASC LIMIT ${PREVIEW_SAMPLE_SIZE}`,
+          eligible.params,
+        );
+        entry.sampleIds = sampleRows.map((row) => row.id as string | number);
+      }
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+async function purgeArchivedAccounts(db: DbConnection, ids: Array<string | number>): Promise<void> {
+  const placeholders = ids.map(() => "?").join(", ");
+  const handledColumns = await loadColumns(db, "archived_teacher_handled");
+  if (handledColumns.has("archived_id")) {
+    await db.query(`DELETE FROM archived_teacher_handled WHERE archived_id IN (${placeholders})`, ids);
+  }
+  await db.query(`DELETE FROM archived_users WHERE archived_id IN (${placeholders})`, ids);
+}
+
+async function purgeTarget(
+  db: DbConnection,
+  target: RetentionTarget,
+  policy: RetentionPolicy,
+  holds: LegalHold[],
+  now: Date,
+): Promise<RetentionPurgeEntry | null> {
+  const cutoff = resolveRetentionCutoff(policy, now);
+  const { entityHeld, heldIds } = splitHolds(holds, target.key);
+  if (entityHeld) {
+    return null;
+  }
+  const columns = await loadColumns(db, target.table);
+  const eligible = buildEligibleQuery(target, columns, cutoff, heldIds);
+  if (!eligible) {
+    return null;
+  }
+
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT \`${target.idColumn}\` AS id, \`${eligible.timeColumn}\` AS flagged_at
+     FROM \`${target.table}\` WHERE ${eligible.where}
+     ORDER BY \`${eligible.timeColumn}\` ASC LIMIT ${RETENTION_PURGE_BATCH}`,
+    eligible.params,
+  );
+  if (rows.length === 0) {
+    return null;
+  }
+  // The rows a restore would bring back with each root go with it, children first.
+  const collected = target.recovery
+    ? await collectRecoveryCascade(
+        db,
+        target.recovery,
+        rows.map((row) => ({ id: row.id as string | number, occurredAt: row.flagged_at ? new Date(row.flagged_at) : null })),
+      )
+    : [];
+  const { rootIds: ids, groups: cascade } = excludeHeldCascades(
+    target.key,
+    rows.map((row) => row.id as string | number),
+    collected,
+    holds,
+  );
+  if (ids.length === 0) {
+    return null;
+  }
+  const cascadeSteps = cascade.filter((group) => group.available && group.ids.length > 0).reverse();
+  const dependencyIdColumns = new Map<string, string>();
+  const walk = (dependents: RecoveryEntityConfig["dependents"] = []) => {
+    for (const dependency of dependents) {
+      dependencyIdColumns.set(dependency.key, dependency.idColumn);
+      walk(dependency.dependents);
+    }
+  };
+  walk(target.recovery?.dependents);
+
+  await db.beginTransaction();
+  try {
+    for (const group of cascadeSteps) {
+      const idColumn = dependencyIdColumns.get(group.key);
+      if (!idColumn) continue;
+      await db.query(
+        `DELETE FROM \`${group.table}\` WHERE \`${idColumn}\` IN (${group.ids.map(() => "?").join(", ")})`,
+        group.ids,
+      );
+    }
+    if (target.recovery) {
+      await db.query(
+        `DELETE FROM \`${target.table}\` WHERE \`${target.idColumn}\` IN (${ids.map(() => "?").join(", ")})`,
+        ids,
+      );
+    } else {
+      await purgeArchivedAccounts(db, ids);
+    }
+    await db.commit();
+  } catch (error) {
+    await db.rollback();
+    throw error;
+  }
+
+  return {
+    entity: target.key,
+    cutoff: cutoff.toISOString(),
+    purgedIds: ids,
+    dependents: cascadeSteps.map((group) => ({ key: group.key, table: group.table, purgedCount: group.ids.length })),
+  };
+}
+
+/**
+ * Applies every enabled policy once, at most {@link RETENTION_PURGE_BATCH} rows per entity,
+ * and records one audit entry per purged entity plus a summary for the run. A target that
+ * fails (a foreign key the cascade does not know about, say) is rolled back and reported
+ * without stopping the others.
+ */
+export async function runRetentionPurge(
+  db: DbConnection,
+  options: { trigger: RetentionTrigger; actor: string | number; ipAddress: string | null },
+  now: Date = new Date(),
+): Promise<RetentionRunResult> {
+  const policies = (await listRetentionPolicies(db)).filter((policy) => policy.enabled);
+  const holds = await listLegalHolds(db);
+  const purged: RetentionPurgeEntry[] = [];
+  const failed: RetentionPurgeFailure[] = [];
+
+  for (const policy of policies) {
+    const target = findRetentionTarget(policy.entity);
+    if (!target) continue;
+    let entry: RetentionPurgeEntry | null;
+    try {
+      entry = await purgeTarget(db, target, policy, holds, now);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Retention purge failed for ${target.key}`, error);
+      failed.push({ entity: target.key, error: message });
+      await writeSecurityAuditLog(db, {
+        action: "retention_purge_failed",
+        userId: options.actor,
+        targetModule: "data_retention",
+        targetRecordId: target.key,
+        ipAddress: options.ipAddress,
+        details: { trigger: options.trigger, table: target.table, error: message },
+      });
+      continue;
+    }
+    if (!entry) continue;
+    purged.push(entry);
+    await writeSecurityAuditLog(db, {
+      action: "retention_purge",
+      userId: options.actor,
+      targetModule: "data_retention",
+      targetRecordId: target.key,
+      ipAddress: options.ipAddress,
+      details: {
+        trigger: options.trigger,
+        table: target.table,
+        policy: { retentionValue: policy.retentionValue, retentionUnit: policy.retentionUnit },
+        cutoff: entry.cutoff,
+        purgedCount: entry.purgedIds.length,
+        purgedIds: entry.purgedIds,
+        dependents: entry.dependents,
+      },
+    });
+  }
+
+  await writeSecurityAuditLog(db, {
+    action: "retention_run_completed",
+    userId: options.actor,
+    targetModule: "data_retention",
+    ipAddress: options.ipAddress,
+    details: {
+      trigger: options.trigger,
+      policies: policies.map((policy) => policy.entity),
+      purged: purged.map((entry) => ({ entity: entry.entity, purgedCount: entry.purgedIds.length })),
+      failed,
+    },
+  });
+  return { purged, failed };
+}
+
+/** Runs the daily purge when auto-purge is on; the run is claimed first so two callers cannot both start one. */
+export async function runScheduledRetentionIfDue(
+  db: DbConnection,
+  actor: string | number,
+  ipAddress: string | null,
+): Promise<RetentionRunResult | null> {
+  const { settings, lastRunAt } = await loadSettingsRow(db);
+  if (!isRetentionRunDue(settings, lastRunAt)) {
+    return null;
+  }
+  const [claim] = lastRunAt
+    ? await db.query<ResultSetHeader>(
+        `UPDATE ${SETTINGS_TABLE} SET last_run_at = NOW() WHERE settings_id = 1 AND last_run_at = ?`,
+        [lastRunAt],
+      )
+    : await db.query<ResultSetHeader>(
+        `UPDATE ${SETTINGS_TABLE} SET last_run_at = NOW() WHERE settings_id = 1 AND last_run_at IS NULL`,
+      );
+  if (claim.affectedRows === 0) {
+    return null;
+  }
+  return runRetentionPurge(db, { trigger: "scheduled", actor, ipAddress });
+}
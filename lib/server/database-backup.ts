@@ -0,0 +1,877 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import AdmZip from "adm-zip";
+import mysql from "mysql2/promise";
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { query, runWithConnection } from "@/lib/db";
+import { writeSecurityAuditLog } from "@/lib/server/security-audit";
+
+export const BACKUP_ARCHIVE_FORMAT = "rpt-saes-db-backup";
+export const BACKUP_ARCHIVE_FORMAT_VERSION = 1;
+export const BACKUP_RETENTION_OPTIONS = [7, 14, 30, 60, 90] as const;
+
+const BACKUPS_TABLE = "database_backups";
+const BACKUP_SETTINGS_TABLE = "database_backup_settings";
+const RESTORE_INSERT_BATCH = 500;
+const SCHEDULE_INTERVAL_MS: Record<BackupSchedule, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Tables that describe the backups themselves, the audit trail and live admin
+ * sessions. They are never dumped or overwritten, so a restore cannot erase
+ * its own history or sign out the admin running it.
+ */
+export const BACKUP_EXCLUDED_TABLES = new Set([
+  BACKUPS_TABLE,
+  BACKUP_SETTINGS_TABLE,
+  "security_audit_logs",
+  "admin_sessions",
+]);
+
+export type BackupSchedule = "daily" | "weekly";
+export type BackupExportFormat = "sql" | "csv";
+export type BackupTrigger = "manual" | "scheduled" | "import" | "pre_restore";
+export type BackupDownloadFormat = BackupExportFormat | "archive";
+
+export type BackupSettings = {
+  autoBackup: boolean;
+  schedule: BackupSchedule;
+  retentionDays: number;
+  exportFormat: BackupExportFormat;
+};
+
+export const DEFAULT_BACKUP_SETTINGS: BackupSettings = {
+  autoBackup: true,
+  schedule: "daily",
+  retentionDays: 30,
+  exportFormat: "sql",
+};
+
+export type BackupRecord = {
+  backupId: number;
+  version: number;
+  trigger: BackupTrigger;
+  fileName: string;
+  checksum: string;
+  sizeBytes: number;
+  tableCount: number;
+  rowCount: number;
+  createdBy: string | null;
+  createdAt: string | null;
+  restoredAt: string | null;
+  restoredBy: string | null;
+};
+
+export type BackupManifestTable = {
+  name: string;
+  columns: string[];
+  rowCount: number;
+  dataChecksum: string;
+};
+
+export type BackupManifest = {
+  format: typeof BACKUP_ARCHIVE_FORMAT;
+  formatVersion: number;
+  database: string | null;
+  createdAt: string;
+  tables: BackupManifestTable[];
+};
+
+export type EncodedBackupValue =
+  | string
+  | number
+  | boolean
+  | null
+  | { $date: string }
+  | { $b64: string }
+  | { $json: unknown };
+
+type BackupTableDump = {
+  name: string;
+  createSql: string;
+  columns: string[];
+  rows: EncodedBackupValue[][];
+};
+
+export type BackupTableDiffStatus = "unchanged" | "changed" | "missing";
+
+export type BackupTableDiff = {
+  table: string;
+  status: BackupTableDiffStatus;
+  backupRows: number;
+  currentRows: number;
+  rowsToInsert: number;
+  rowsToDelete: number;
+  schemaChanged: boolean;
+};
+
+export type BackupRestorePreview = {
+  backup: BackupRecord;
+  tables: BackupTableDiff[];
+  untrackedTables: string[];
+  totals: { changedTables: number; rowsToInsert: number; rowsToDelete: number };
+  diffToken: string;
+};
+
+export class DatabaseBackupError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "DatabaseBackupError";
+    this.status = status;
+  }
+}
+
+function resolveBackupDirectory(): string {
+  const configured = (process.env.DB_BACKUP_DIR ?? "").trim();
+  return configured ? path.resolve(configured) : path.join(process.cwd(), "storage", "backups");
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toIsoString = (value: unknown): string | null => {
+  if (!value) return null;
+  const parsed = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+};
+
+const sha256 = (value: string | Buffer): string => createHash("sha256").update(value).digest("hex");
+
+export function normalizeBackupSettings(raw: Partial<Record<keyof BackupSettings, unknown>> | null | undefined): BackupSettings {
+  const retention = toNumber(raw?.retentionDays);
+  return {
+    autoBackup:
+      raw?.autoBackup === undefined || raw?.autoBackup === null
+        ? DEFAULT_BACKUP_SETTINGS.autoBackup
+        : raw.autoBackup === true || raw.autoBackup === 1 || raw.autoBackup === "1" || raw.autoBackup === "true",
+    schedule: raw?.schedule === "weekly" || raw?.schedule === "daily" ? raw.schedule : DEFAULT_BACKUP_SETTINGS.schedule,
+    retentionDays: BACKUP_RETENTION_OPTIONS.some((option) => option === retention)
+      ? (retention as number)
+      : DEFAULT_BACKUP_SETTINGS.retentionDays,
+    exportFormat: raw?.exportFormat === "csv" || raw?.exportFormat === "sql" ? raw.exportFormat : DEFAULT_BACKUP_SETTINGS.exportFormat,
+  };
+}
+
+export function isScheduledBackupDue(settings: BackupSettings, lastScheduledAt: Date | null, now: Date = new Date()): boolean {
+  if (!settings.autoBackup) return false;
+  if (!lastScheduledAt) return true;
+  return now.getTime() - lastScheduledAt.getTime() >= SCHEDULE_INTERVAL_MS[settings.schedule];
+}
+
+/**
+ * Picks the backups that have outlived the retention window. The newest
+ * backup is always kept so a long pause in scheduled runs never leaves the
+ * system without a restore point.
+ */
+export function selectExpiredBackups<T extends { backupId: number; createdAt: string | null }>(
+  backups: T[],
+  retentionDays: number,
+  now: Date = new Date(),
+): T[] {
+  const cutoff = now.getTime() - retentionDays * 24 * 60 * 60 * 1000;
+  const newest = backups.reduce<T | null>((latest, backup) => {
+    if (!latest) return backup;
+    return (Date.parse(backup.createdAt ?? "") || 0) > (Date.parse(latest.createdAt ?? "") || 0) ? backup : latest;
+  }, null);
+  return backups.filter((backup) => {
+    if (backup.backupId === newest?.backupId) return false;
+    const createdAt = Date.parse(backup.createdAt ?? "");
+    return Number.isFinite(createdAt) && createdAt < cutoff;
+  });
+}
+
+export function encodeBackupValue(value: unknown): EncodedBackupValue {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (Buffer.isBuffer(value)) return { $b64: value.toString("base64") };
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value;
+  return { $json: value };
+}
+
+export function decodeBackupValue(value: EncodedBackupValue): string | number | null | Date | Buffer {
+  if (value === null) return null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" || typeof value === "number") return value;
+  if ("$date" in value) return new Date(value.$date);
+  if ("$b64" in value) return Buffer.from(value.$b64, "base64");
+  return JSON.stringify(value.$json);
+}
+
+/** Counts rows that only exist on one side, treating each side as a multiset of row hashes. */
+export function diffRowHashes(
+  backupHashes: string[],
+  currentHashes: string[],
+): { rowsToInsert: number; rowsToDelete: number; unchangedRows: number } {
+  const remaining = new Map<string, number>();
+  for (const hash of currentHashes) {
+    remaining.set(hash, (remaining.get(hash) ?? 0) + 1);
+  }
+  let unchangedRows = 0;
+  for (const hash of backupHashes) {
+    const count = remaining.get(hash) ?? 0;
+    if (count > 0) {
+      remaining.set(hash, count - 1);
+      unchangedRows += 1;
+    }
+  }
+  return {
+    rowsToInsert: backupHashes.length - unchangedRows,
+    rowsToDelete: currentHashes.length - unchangedRows,
+    unchangedRows,
+  };
+}
+
+/** Drops the AUTO_INCREMENT counter so two dumps of the same table compare equal. */
+export function normalizeCreateStatement(createSql: string): string {
+  return createSql.replace(/\s+AUTO_INCREMENT=\d+/i, "").trim();
+}
+
+export function computeRestoreDiffToken(checksum: string, tables: BackupTableDiff[]): string {
+  const summary = tables.map((table) => [table.table, table.status, table.rowsToInsert, table.rowsToDelete]);
+  return sha256(JSON.stringify([checksum, summary]));
+}
+
+export function toCsvValue(value: EncodedBackupValue): string {
+  const decoded = decodeBackupValue(value);
+  if (decoded === null) return "";
+  const text = decoded instanceof Date ? decoded.toISOString() : Buffer.isBuffer(decoded) ? decoded.toString("base64") : String(decoded);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const hashRow = (row: EncodedBackupValue[]): string => sha256(JSON.stringify(row));
+
+const escapeIdentifier = (name: string): string => mysql.escapeId(name);
+
+const mapBackupRow = (row: RowDataPacket): BackupRecord => ({
+  backupId: Number(row.backup_id),
+  version: Number(row.version),
+  trigger: row.trigger_type as BackupTrigger,
+  fileName: String(row.file_name),
+  checksum: String(row.checksum_sha256),
+  sizeBytes: Number(row.size_bytes ?? 0),
+  tableCount: Number(row.table_count ?? 0),
+  rowCount: Number(row.row_count ?? 0),
+  createdBy: row.created_by === null || row.created_by === undefined ? null : String(row.created_by),
+  createdAt: toIsoString(row.created_at),
+  restoredAt: toIsoString(row.restored_at),
+  restoredBy: row.restored_by === null || row.restored_by === undefined ? null : String(row.restored_by),
+});
+
+let backupSchemaPromise: Promise<void> | null = null;
+
+async function ensureBackupSchema(): Promise<void> {
+  if (!backupSchemaPromise) {
+    backupSchemaPromise = (async () => {
+      await query(`
+        CREATE TABLE IF NOT EXISTS ${BACKUPS_TABLE} (
+          backup_id INT AUTO_INCREMENT PRIMARY KEY,
+          version INT NOT NULL,
+          trigger_type ENUM('manual','scheduled','import','pre_restore') NOT NULL DEFAULT 'manual',
+          status ENUM('completed','expired') NOT NULL DEFAULT 'completed',
+          file_name VARCHAR(255) NOT NULL,
+          checksum_sha256 CHAR(64) NOT NULL,
+          size_bytes BIGINT NOT NULL DEFAULT 0,
+          table_count INT NOT NULL DEFAULT 0,
+          row_count BIGINT NOT NULL DEFAULT 0,
+          created_by VARCHAR(100) NULL,
+          created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          expired_at DATETIME NULL,
+          restored_at DATETIME NULL,
+          restored_by VARCHAR(100) NULL,
+          UNIQUE KEY uq_database_backups_version (version),
+          INDEX idx_database_backups_status (status, created_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+      await query(`
+        CREATE TABLE IF NOT EXISTS ${BACKUP_SETTINGS_TABLE} (
+          settings_id TINYINT PRIMARY KEY,
+          auto_backup TINYINT(1) NOT NULL DEFAULT 1,
+          schedule ENUM('daily','weekly') NOT NULL DEFAULT 'daily',
+          retention_days INT NOT NULL DEFAULT 30,
+          export_format ENUM('sql','csv') NOT NULL DEFAULT 'sql',
+          last_scheduled_at DATETIME NULL,
+          updated_by VARCHAR(100) NULL,
+          updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+    })().catch((error) => {
+      backupSchemaPromise = null;
+      throw error;
+    });
+  }
+  await backupSchemaPromise;
+}
+
+async function loadSettingsRow(): Promise<{ settings: BackupSettings; lastScheduledAt: Date | null }> {
+  await ensureBackupSchema();
+  const [rows] = await query<RowDataPacket[]>(
+    `SELECT auto_backup, schedule, retention_days, export_format, last_scheduled_at
+     FROM ${BACKUP_SETTINGS_TABLE} WHERE settings_id = 1 LIMIT 1`,
+  );
+  const row = rows[0];
+  if (!row) {
+    return { settings: { ...DEFAULT_BACKUP_SETTINGS }, lastScheduledAt: null };
+  }
+  const settings = normalizeBackupSettings({
+    autoBackup: Number(row.auto_backup) === 1,
+    schedule: row.schedule,
+    retentionDays: row.retention_days,
+    exportFormat: row.export_format,
+  });
+  const lastScheduledAt = row.last_scheduled_at ? new Date(row.last_scheduled_at) : null;
+  return { settings, lastScheduledAt: lastScheduledAt && !Number.isNaN(lastScheduledAt.getTime()) ? lastScheduledAt : null };
+}
+
+export async function getBackupSettings(): Promise<
+  BackupSettings & { lastScheduledAt: string | null; scheduleDue: boolean }
+> {
+  const { settings, lastScheduledAt } = await loadSettingsRow();
+  return {
+    ...settings,
+    lastScheduledAt: lastScheduledAt ? lastScheduledAt.toISOString() : null,
+    scheduleDue: isScheduledBackupDue(settings, lastScheduledAt),
+  };
+}
+
+export async function saveBackupSettings(settings: BackupSettings, updatedBy: string | number): Promise<BackupSettings> {
+  await ensureBackupSchema();
+  const normalized = normalizeBackupSettings(settings);
+  await query(
+    `INSERT INTO ${BACKUP_SETTINGS_TABLE} (settings_id, auto_backup, schedule, retention_days, export_format, updated_by)
+     VALUES (1, ?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       auto_backup = VALUES(auto_backup),
+       schedule = VALUES(schedule),
+       retention_days = VALUES(retention_days),
+       export_format = VALUES(export_format),
+       updated_by = VALUES(updated_by)`,
+    [normalized.autoBackup ? 1 : 0, normalized.schedule, normalized.retentionDays, normalized.exportFormat, String(updatedBy)],
+  );
+  return normalized;
+}
+
+export async function listBackups(): Promise<BackupRecord[]> {
+  await ensureBackupSchema();
+  const [rows] = await query<RowDataPacket[]>(
+    `SELECT * FROM ${BACKUPS_TABLE} WHERE status = 'completed' ORDER BY created_at DESC, backup_id DESC`,
+  );
+  return rows.map(mapBackupRow);
+}
+
+export async function getBackup(backupId: number): Promise<BackupRecord | null> {
+  await ensureBackupSchema();
+  const [rows] = await query<RowDataPacket[]>(
+    `SELECT * FROM ${BACKUPS_TABLE} WHERE backup_id = ? AND status = 'completed' LIMIT 1`,
+    [backupId],
+  );
+  return rows[0] ? mapBackupRow(rows[0]) : null;
+}
+
+async function listBaseTables(connection: PoolConnection): Promise<string[]> {
+  const [rows] = await connection.query<RowDataPacket[]>("SHOW FULL TABLES WHERE Table_type = 'BASE TABLE'");
+  return rows
+    .map((row) => String(Object.values(row)[0] ?? ""))
+    .filter((name) => name.length > 0 && !BACKUP_EXCLUDED_TABLES.has(name))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+async function readCreateStatement(connection: PoolConnection, table: string): Promise<string> {
+  const [rows] = await connection.query<RowDataPacket[]>(`SHOW CREATE TABLE ${escapeIdentifier(table)}`);
+  return String(rows[0]?.["Create Table"] ?? "");
+}
+
+async function readTableRows(
+  connection: PoolConnection,
+  table: string,
+  columns?: string[],
+): Promise<{ columns: string[]; rows: EncodedBackupValue[][] }> {
+  const selectList = columns?.length ? columns.map(escapeIdentifier).join(", ") : "*";
+  const [rows, fields] = await connection.query<RowDataPacket[]>(`SELECT ${selectList} FROM ${escapeIdentifier(table)}`);
+  const columnNames = columns?.length ? columns : fields.map((field) => field.name);
+  return {
+    columns: columnNames,
+    rows: rows.map((row) => columnNames.map((column) => encodeBackupValue(row[column]))),
+  };
+}
+
+/**
+ * Reads every table inside one consistent-snapshot transaction so the dump
+ * reflects a single point in time even while the app keeps writing.
+ */
+async function dumpDatabase(): Promise<{ database: string | null; tables: BackupTableDump[] }> {
+  return runWithConnection(async (connection) => {
+    const [databaseRows] = await connection.query<RowDataPacket[]>("SELECT DATABASE() AS name");
+    const database = databaseRows[0]?.name ? String(databaseRows[0].name) : null;
+    await connection.query("START TRANSACTION WITH CONSISTENT SNAPSHOT");
+    try {
+      const tables: BackupTableDump[] = [];
+      for (const name of await listBaseTables(connection)) {
+        const createSql = await readCreateStatement(connection, name);
+        const { columns, rows } = await readTableRows(connection, name);
+        tables.push({ name, createSql, columns, rows });
+      }
+      return { database, tables };
+    } finally {
+      await connection.query("COMMIT");
+    }
+  });
+}
+
+export function buildBackupArchive(
+  dump: { database: string | null; tables: BackupTableDump[] },
+  createdAt: Date = new Date(),
+): Buffer {
+  const zip = new AdmZip();
+  const manifestTables: BackupManifestTable[] = [];
+  for (const table of dump.tables) {
+    const data = JSON.stringify(table.rows);
+    zip.addFile(`schema/${table.name}.sql`, Buffer.from(table.createSql, "utf8"));
+    zip.addFile(`data/${table.name}.json`, Buffer.from(data, "utf8"));
+    manifestTables.push({ name: table.name, columns: table.columns, rowCount: table.rows.length, dataChecksum: sha256(data) });
+  }
+  const manifest: BackupManifest = {
+    format: BACKUP_ARCHIVE_FORMAT,
+    formatVersion: BACKUP_ARCHIVE_FORMAT_VERSION,
+    database: dump.database,
+    createdAt: createdAt.toISOString(),
+    tables: manifestTables,
+  };
+  zip.addFile("manifest.json", Buffer.from(JSON.stringify(manifest, null, 2), "utf8"));
+  return zip.toBuffer();
+}
+
+const BACKUP_TABLE_NAME_PATTERN = /^[A-Za-z0-9_]+$/;
+
+/**
+ * Accepts only a single `CREATE TABLE` for the named table, the shape `SHOW CREATE TABLE`
+ * writes. Quoted text is skipped; a statement separator or comment outside it is refused, so
+ * an edited archive cannot smuggle a second statement into the restore.
+ */
+export function assertSafeCreateStatement(tableName: string, createSql: string): void {
+  const reject = () => {
+    throw new DatabaseBackupError(`The schema for table '${tableName}' is not a single CREATE TABLE statement.`, 422);
+  };
+  if (!BACKUP_TABLE_NAME_PATTERN.test(tableName)) {
+    throw new DatabaseBackupError(`The backup names an invalid table '${tableName}'.`, 422);
+  }
+  const head = new RegExp(`^\\s*CREATE\\s+TABLE\\s+\`${tableName}\`\\s*\\(`, "i").exec(createSql);
+  if (!head) reject();
+
+  let depth = 1;
+  let index = head![0].length;
+  while (index < createSql.length) {
+    const char = createSql[index];
+    if (char === "'" || char === '"' || char === "`") {
+      index += 1;
+      while (index < createSql.length && createSql[index] !== char) {
+        index += createSql[index] === "\\" && char !== "`" ? 2 : 1;
+      }
+      if (index >= createSql.length) reject();
+    } else if (char === "(") {
+      depth += 1;
+    } else if (char === ")") {
+      depth -= 1;
+      if (depth < 0) reject();
+    } else if (char === ";") {
+      if (depth !== 0 || createSql.slice(index + 1).trim()) reject();
+      break;
+    } else if (char === "#" || createSql.startsWith("--", index) || createSql.startsWith("/*", index)) {
+      reject();
+    }
+    index += 1;
+  }
+  if (depth !== 0) reject();
+}
+
+/** Unpacks an archive and checks every table file against the manifest. */
+export function readBackupArchive(buffer: Buffer): { manifest: BackupManifest; tables: BackupTableDump[] } {
+  let zip: AdmZip;
+  try {
+    zip = new AdmZip(buffer);
+  } catch {
+    throw new DatabaseBackupError("The file is not a valid backup archive.", 400);
+  }
+  const readEntry = (name: string): string | null => {
+    const entry = zip.getEntry(name);
+    return entry ? entry.getData().toString("utf8") : null;
+  };
+
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(readEntry("manifest.json") ?? "null") as BackupManifest;
+  } catch {
+    throw new DatabaseBackupError("The backup manifest could not be read.", 400);
+  }
+  if (!manifest || manifest.format !== BACKUP_ARCHIVE_FORMAT || !Array.isArray(manifest.tables)) {
+    throw new DatabaseBackupError("The file is not a valid backup archive.", 400);
+  }
+  if (manifest.formatVersion > BACKUP_ARCHIVE_FORMAT_VERSION) {
+    throw new DatabaseBackupError("This backup was made by a newer version of the system.", 400);
+  }
+
+  const tables = manifest.tables.map((table) => {
+    if (typeof table?.name !== "string" || !BACKUP_TABLE_NAME_PATTERN.test(table.name)) {
+      throw new DatabaseBackupError(`The backup names an invalid table '${String(table?.name)}'.`, 422);
+    }
+    const createSql = readEntry(`schema/${table.name}.sql`);
+    const data = readEntry(`data/${table.name}.json`);
+    if (createSql === null || data === null || sha256(data) !== table.dataChecksum) {
+      throw new DatabaseBackupError(`Backup data for table '${table.name}' is missing or corrupted.`, 422);
+    }
+    assertSafeCreateStatement(table.name, createSql);
+    let rows: EncodedBackupValue[][];
+    try {
+      rows = JSON.parse(data) as EncodedBackupValue[][];
+    } catch {
+      throw new DatabaseBackupError(`Backup data for table '${table.name}' could not be read.`, 422);
+    }
+    return { name: table.name, createSql, columns: table.columns, rows };
+  });
+  return { manifest, tables };
+}
+
+async function storeBackupArchive(
+  archive: Buffer,
+  details: { trigger: BackupTrigger; createdBy: string | number | null; tableCount: number; rowCount: number },
+): Promise<BackupRecord> {
+  await ensureBackupSchema();
+  const [versionRows] = await query<RowDataPacket[]>(`SELECT COALESCE(MAX(version), 0) AS version FROM ${BACKUPS_TABLE}`);
+  const version = Number(versionRows[0]?.version ?? 0) + 1;
+  const checksum = sha256(archive);
+  const fileName = `backup-v${String(version).padStart(4, "0")}-${new Date().toISOString().replace(/[:.]/g, "-")}.zip`;
+
+  const directory = resolveBackupDirectory();
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(path.join(directory, fileName), archive);
+
+  const [result] = await query<ResultSetHeader>(
+    `INSERT INTO ${BACKUPS_TABLE}
+       (version, trigger_type, file_name, checksum_sha256, size_bytes, table_count, row_count, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      version,
+      details.trigger,
+      fileName,
+      checksum,
+      archive.length,
+      details.tableCount,
+      details.rowCount,
+      details.createdBy === null ? null : String(details.createdBy),
+    ],
+  );
+  const stored = await getBackup(result.insertId);
+  if (!stored) {
+    throw new DatabaseBackupError("The backup was written but could not be recorded.", 500);
+  }
+  return stored;
+}
+
+/** Loads an archive from disk and refuses it when the checksum no longer matches. */
+export async function loadBackupArchive(backup: BackupRecord): Promise<Buffer> {
+  let archive: Buffer;
+  try {
+    archive = await fs.readFile(path.join(resolveBackupDirectory(), path.basename(backup.fileName)));
+  } catch {
+    throw new DatabaseBackupError(`The archive for backup v${backup.version} is missing from storage.`, 410);
+  }
+  if (sha256(archive) !== backup.checksum) {
+    throw new DatabaseBackupError(`The archive for backup v${backup.version} failed its checksum.`, 422);
+  }
+  return archive;
+}
+
+export async function createDatabaseBackup(
+  trigger: Exclude<BackupTrigger, "import">,
+  createdBy: string | number | null,
+): Promise<{ backup: BackupRecord; expired: BackupRecord[] }> {
+  const dump = await dumpDatabase();
+  const archive = buildBackupArchive(dump);
+  const backup = await storeBackupArchive(archive, {
+    trigger,
+    createdBy,
+    tableCount: dump.tables.length,
+    rowCount: dump.tables.reduce((sum, table) => sum + table.rows.length, 0),
+  });
+  const expired = await enforceBackupRetention();
+  return { backup, expired };
+}
+
+export async function importBackupArchive(archive: Buffer, importedBy: string | number): Promise<BackupRecord> {
+  const { tables } = readBackupArchive(archive);
+  return storeBackupArchive(archive, {
+    trigger: "import",
+    createdBy: importedBy,
+    tableCount: tables.length,
+    rowCount: tables.reduce((sum, table) => sum + table.rows.length, 0),
+  });
+}
+
+export async function enforceBackupRetention(): Promise<BackupRecord[]> {
+  const { settings } = await loadSettingsRow();
+  const expired = selectExpiredBackups(await listBackups(), settings.retentionDays);
+  for (const backup of expired) {
+    await fs.rm(path.join(resolveBackupDirectory(), path.basename(backup.fileName)), { force: true });
+    await query(`UPDATE ${BACKUPS_TABLE} SET status = 'expired', expired_at = NOW() WHERE backup_id = ?`, [
+      backup.backupId,
+    ]);
+  }
+  return expired;
+}
+
+/**
+ * Runs the scheduled backup when auto-backup is on and the interval has
+ * passed. The run is claimed first so two callers cannot both start one.
+ */
+export async function runScheduledBackupIfDue(
+  createdBy: string | number | null,
+): Promise<{ backup: BackupRecord; expired: BackupRecord[] } | null> {
+  const { settings, lastScheduledAt } = await loadSettingsRow();
+  if (!isScheduledBackupDue(settings, lastScheduledAt)) {
+    return null;
+  }
+
+  await query(`INSERT IGNORE INTO ${BACKUP_SETTINGS_TABLE} (settings_id) VALUES (1)`);
+  const [claim] = lastScheduledAt
+    ? await query<ResultSetHeader>(
+        `UPDATE ${BACKUP_SETTINGS_TABLE} SET last_scheduled_at = NOW()
+         WHERE settings_id = 1 AND last_scheduled_at = ?`,
+        [lastScheduledAt],
+      )
+    : await query<ResultSetHeader>(
+        `UPDATE ${BACKUP_SETTINGS_TABLE} SET last_scheduled_at = NOW()
+         WHERE settings_id = 1 AND last_scheduled_at IS NULL`,
+      );
+  if (claim.affectedRows === 0) {
+    return null;
+  }
+
+  return createDatabaseBackup("scheduled", createdBy);
+}
+
+export function renderSqlDump(tables: BackupTableDump[], manifest: Pick<BackupManifest, "database" | "createdAt">): string {
+  const lines = [
+    `-- ${BACKUP_ARCHIVE_FORMAT} SQL export`,
+    `-- Database: ${manifest.database ?? "unknown"}`,
+    `-- Created: ${manifest.createdAt}`,
+    "",
+    "SET FOREIGN_KEY_CHECKS = 0;",
+    "",
+  ];
+  for (const table of tables) {
+    lines.push(`DROP TABLE IF EXISTS ${escapeIdentifier(table.name)};`, `${table.createSql};`);
+    const columnList = table.columns.map(escapeIdentifier).join(", ");
+    for (let index = 0; index < table.rows.length; index += RESTORE_INSERT_BATCH) {
+      const values = table.rows
+        .slice(index, index + RESTORE_INSERT_BATCH)
+        .map((row) => `(${row.map((value) => mysql.escape(decodeBackupValue(value))).join(", ")})`);
+      lines.push(`INSERT INTO ${escapeIdentifier(table.name)} (${columnList}) VALUES\n${values.join(",\n")};`);
+    }
+    lines.push("");
+  }
+  lines.push("SET FOREIGN_KEY_CHECKS = 1;", "");
+  return lines.join("\n");
+}
+
+export async function renderBackupDownload(
+  backup: BackupRecord,
+  format: BackupDownloadFormat,
+): Promise<{ body: Buffer; fileName: string; contentType: string }> {
+  const archive = await loadBackupArchive(backup);
+  const baseName = backup.fileName.replace(/\.zip$/i, "");
+  if (format === "archive") {
+    return { body: archive, fileName: backup.fileName, contentType: "application/zip" };
+  }
+
+  const { manifest, tables } = readBackupArchive(archive);
+  if (format === "sql") {
+    return {
+      body: Buffer.from(renderSqlDump(tables, manifest), "utf8"),
+      fileName: `${baseName}.sql`,
+      contentType: "application/sql",
+    };
+  }
+
+  const zip = new AdmZip();
+  for (const table of tables) {
+    const lines = [table.columns.map((column) => toCsvValue(column)).join(",")];
+    for (const row of table.rows) {
+      lines.push(row.map(toCsvValue).join(","));
+    }
+    zip.addFile(`${table.name}.csv`, Buffer.from(lines.join("\r\n"), "utf8"));
+  }
+  return { body: zip.toBuffer(), fileName: `${baseName}-csv.zip`, contentType: "application/zip" };
+}
+
+/** Dumps the live database straight to SQL without keeping an archive. */
+export async function exportDatabaseAsSql(): Promise<{ body: Buffer; fileName: string; tableCount: number }> {
+  const dump = await dumpDatabase();
+  const createdAt = new Date().toISOString();
+  return {
+    body: Buffer.from(renderSqlDump(dump.tables, { database: dump.database, createdAt }), "utf8"),
+    fileName: `database-export-${createdAt.replace(/[:.]/g, "-")}.sql`,
+    tableCount: dump.tables.length,
+  };
+}
+
+async function diffAgainstDatabase(
+  connection: PoolConnection,
+  tables: BackupTableDump[],
+): Promise<{ diffs: BackupTableDiff[]; untrackedTables: string[] }> {
+  const liveTables = new Set(await listBaseTables(connection));
+  const diffs: BackupTableDiff[] = [];
+
+  for (const table of tables) {
+    if (!liveTables.has(table.name)) {
+      diffs.push({
+        table: table.name,
+        status: "missing",
+        backupRows: table.rows.length,
+        currentRows: 0,
+        rowsToInsert: table.rows.length,
+        rowsToDelete: 0,
+        schemaChanged: true,
+      });
+      continue;
+    }
+    liveTables.delete(table.name);
+
+    const liveCreate = await readCreateStatement(connection, table.name);
+    const schemaChanged = normalizeCreateStatement(liveCreate) !== normalizeCreateStatement(table.createSql);
+    const [columnRows] = await connection.query<RowDataPacket[]>(`SHOW COLUMNS FROM ${escapeIdentifier(table.name)}`);
+    const liveColumns = new Set(columnRows.map((row) => String(row.Field)));
+    const sharedIndexes = table.columns.map((column, index) => (liveColumns.has(column) ? index : -1)).filter((index) => index >= 0);
+    const sharedColumns = sharedIndexes.map((index) => table.columns[index]);
+
+    const current = await readTableRows(connection, table.name, sharedColumns);
+    const { rowsToInsert, rowsToDelete } = diffRowHashes(
+      table.rows.map((row) => hashRow(sharedIndexes.map((index) => row[index]))),
+      current.rows.map(hashRow),
+    );
+    diffs.push({
+      table: table.name,
+      status: rowsToInsert > 0 || rowsToDelete > 0 ? "changed" : "unchanged",
+      backupRows: table.rows.length,
+      currentRows: current.rows.length,
+      rowsToInsert,
+      rowsToDelete,
+      schemaChanged,
+    });
+  }
+
+  return { diffs, untrackedTables: Array.from(liveTables).sort((a, b) => a.localeCompare(b)) };
+}
+
+const summarizeDiffs = (diffs: BackupTableDiff[]) => ({
+  changedTables: diffs.filter((diff) => diff.status !== "unchanged").length,
+  rowsToInsert: diffs.reduce((sum, diff) => sum + diff.rowsToInsert, 0),
+  rowsToDelete: diffs.reduce((sum, diff) => sum + diff.rowsToDelete, 0),
+});
+
+/**
+ * Dry run: compares the archive with the live tables row by row and returns
+ * a token that the real restore must echo back unchanged.
+ */
+export async function previewBackupRestore(backup: BackupRecord): Promise<BackupRestorePreview> {
+  const { tables } = readBackupArchive(await loadBackupArchive(backup));
+  const { diffs, untrackedTables } = await runWithConnection((connection) => diffAgainstDatabase(connection, tables));
+  return {
+    backup,
+    tables: diffs,
+    untrackedTables,
+    totals: summarizeDiffs(diffs),
+    diffToken: computeRestoreDiffToken(backup.checksum, diffs),
+  };
+}
+
+/**
+ * Replaces the changed tables with the archived rows inside one transaction,
+ * after taking a pre-restore backup. Missing tables are recreated first since
+ * DDL cannot be rolled back. Tables that exist only in the live database are
+ * left alone.
+ */
+export async function restoreDatabaseBackup(
+  backup: BackupRecord,
+  options: { diffToken: string; restoredBy: string | number },
+): Promise<{ safetyBackup: BackupRecord; restoredTables: BackupTableDiff[] }> {
+  const { tables } = readBackupArchive(await loadBackupArchive(backup));
+
+  const preview = await runWithConnection((connection) => diffAgainstDatabase(connection, tables));
+  if (computeRestoreDiffToken(backup.checksum, preview.diffs) !== options.diffToken) {
+    throw new DatabaseBackupError("The database changed since the dry run. Preview the restore again.", 409);
+  }
+  const targets = preview.diffs.filter((diff) => diff.status !== "unchanged");
+  if (!targets.length) {
+    throw new DatabaseBackupError("The database already matches this backup.", 409);
+  }
+
+  const { backup: safetyBackup } = await createDatabaseBackup("pre_restore", options.restoredBy);
+  const tablesByName = new Map(tables.map((table) => [table.name, table]));
+
+  await runWithConnection(async (connection) => {
+    await connection.query("SET FOREIGN_KEY_CHECKS = 0");
+    try {
+      for (const target of targets.filter((diff) => diff.status === "missing")) {
+        await connection.query(tablesByName.get(target.table)!.createSql);
+      }
+
+      await connection.beginTransaction();
+      try {
+        for (const target of targets) {
+          const table = tablesByName.get(target.table)!;
+          const [columnRows] = await connection.query<RowDataPacket[]>(`SHOW COLUMNS FROM ${escapeIdentifier(table.name)}`);
+          const liveColumns = new Set(columnRows.map((row) => String(row.Field)));
+          const indexes = table.columns.map((column, index) => (liveColumns.has(column) ? index : -1)).filter((index) => index >= 0);
+          const columnList = indexes.map((index) => escapeIdentifier(table.columns[index])).join(", ");
+
+          await connection.query(`DELETE FROM ${escapeIdentifier(table.name)}`);
+          for (let start = 0; start < table.rows.length; start += RESTORE_INSERT_BATCH) {
+            const batch = table.rows.slice(start, start + RESTORE_INSERT_BATCH);
+            const placeholders = batch.map(() => `(${indexes.map(() => "?").join(", ")})`).join(", ");
+            const params = batch.flatMap((row) => indexes.map((index) => decodeBackupValue(row[index])));
+            await connection.query(`INSERT INTO ${escapeIdentifier(table.name)} (${columnList}) VALUES ${placeholders}`, params);
+          }
+        }
+        await connection.query(
+          `UPDATE ${BACKUPS_TABLE} SET restored_at = NOW(), restored_by = ? WHERE backup_id = ?`,
+          [String(options.restoredBy), backup.backupId],
+        );
+        await connection.commit();
+      } catch (error) {
+        await connection.rollback();
+        throw error;
+      }
+    } finally {
+      await connection.query("SET FOREIGN_KEY_CHECKS = 1");
+    }
+  });
+
+  return { safetyBackup, restoredTables: targets };
+}
+
+export async function writeBackupAuditLog(input: {
+  action: string;
+  userId: string | number | null;
+  ipAddress: string | null;
+  backupId?: number | null;
+  details?: unknown;
+}): Promise<void> {
+  await runWithConnection((connection) =>
+    writeSecurityAuditLog(connection, {
+      action: input.action,
+      userId: input.userId,
+      targetModule: "database_backup",
+      targetRecordId: input.backupId ?? null,
+      ipAddress: input.ipAddress,
+      details: input.details,
+    }),
+  );
+}
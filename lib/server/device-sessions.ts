@@ -0,0 +1,402 @@
+import type { Connection, PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { createHash } from "crypto";
+import { writeSecurityAuditLog } from "@/lib/server/security-audit";
+import { buildClearedAdminSessionCookie, getAdminSessionFromCookies, revokeAdminSessionById } from "@/lib/server/admin-session";
+import { buildClearedParentSessionCookie, getParentSessionFromCookies, revokeParentSessionById } from "@/lib/server/parent-session";
+import { buildClearedPrincipalSessionCookie, getPrincipalSessionFromCookies, revokePrincipalSession } from "@/lib/server/principal-session";
+import {
+  buildClearedMasterTeacherSessionCookie,
+  getMasterTeacherSessionFromCookies,
+  revokeMasterTeacherSession,
+} from "@/lib/server/master-teacher-session";
+import { buildClearedTeacherSessionCookie, getTeacherSessionFromCookies, revokeTeacherSession } from "@/lib/server/teacher-session";
+
+type DbConnection = Connection | PoolConnection;
+
+export type SessionRole = "it_admin" | "principal" | "master_teacher" | "teacher" | "parent";
+
+/** Every role keeps its own session table; all of them share the same core columns. */
+const SESSION_TABLES: Record<SessionRole, string> = {
+  it_admin: "admin_sessions",
+  principal: "principal_sessions",
+  master_teacher: "mt_sessions",
+  teacher: "teacher_sessions",
+  parent: "parent_sessions",
+};
+
+export const SESSION_ROLES = Object.keys(SESSION_TABLES) as SessionRole[];
+
+const CLEARED_SESSION_COOKIES: Record<SessionRole, () => string> = {
+  it_admin: buildClearedAdminSessionCookie,
+  principal: buildClearedPrincipalSessionCookie,
+  master_teacher: buildClearedMasterTeacherSessionCookie,
+  teacher: buildClearedTeacherSessionCookie,
+  parent: buildClearedParentSessionCookie,
+};
+
+export type AccountSession = {
+  role: SessionRole;
+  sessionId: number;
+  deviceName: string | null;
+  ipAddress: string | null;
+  createdAt: string | null;
+  lastActiveAt: string | null;
+  expiresAt: string | null;
+  current: boolean;
+};
+
+export type TrustedDevice = {
+  deviceKey: string;
+  deviceName: string;
+  ipAddress: string | null;
+  createdAt: string | null;
+  lastUsedAt: string | null;
+  current: boolean;
+};
+
+export type SignedInAccount = {
+  userId: number;
+  role: SessionRole;
+  sessionId: number;
+};
+
+export type SessionActor = {
+  userId: number | string;
+  ipAddress: string | null;
+};
+
+let schemaReady = false;
+const existingTables = new Set<string>();
+
+const toDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const parsed = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const toIso = (value: unknown): string | null => toDate(value)?.toISOString() ?? null;
+
+const sha256 = (value: string): string => createHash("sha256").update(value).digest("hex");
+
+/**
+ * Devices are addressed by a hash of their token so the raw token, which
+ * skips the second factor, never leaves the server.
+ */
+export function buildDeviceKey(deviceToken: string): string {
+  return sha256(`device:${deviceToken}`).slice(0, 32);
+}
+
+export function buildClearedSessionCookie(role: SessionRole): string {
+  return CLEARED_SESSION_COOKIES[role]();
+}
+
+export function isSessionRole(value: unknown): value is SessionRole {
+  return typeof value === "string" && value in SESSION_TABLES;
+}
+
+/** Adds the last-seen IP column to whichever session tables this install has. */
+async function ensureDeviceSessionSchema(db: DbConnection): Promise<void> {
+  if (schemaReady) {
+    return;
+  }
+  const tables = [...Object.values(SESSION_TABLES), "trusted_devices"];
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT table_name AS table_name, column_name AS column_name
+     FROM information_schema.columns
+     WHERE table_schema = DATABASE() AND table_name IN (?)`,
+    [tables],
+  );
+  const columnsByTable = new Map<string, Set<string>>();
+  for (const row of rows) {
+    const table = String(row.table_name);
+    if (!columnsByTable.has(table)) {
+      columnsByTable.set(table, new Set());
+    }
+    columnsByTable.get(table)?.add(String(row.column_name));
+  }
+
+  for (const [table, columns] of columnsByTable) {
+    existingTables.add(table);
+    if (!columns.has("last_seen_ip")) {
+      await db.execute(`ALTER TABLE \`${table}\` ADD COLUMN last_seen_ip VARCHAR(45) NULL`);
+    }
+  }
+  schemaReady = true;
+}
+
+export async function stampSessionIp(
+  db: DbConnection,
+  role: SessionRole,
+  token: string,
+  ipAddress: string | null,
+): Promise<void> {
+  await ensureDeviceSessionSchema(db);
+  const table = SESSION_TABLES[role];
+  if (!ipAddress || !existingTables.has(table)) {
+    return;
+  }
+  await db.execute(`UPDATE \`${table}\` SET last_seen_ip = ? WHERE token_hash = ?`, [
+    ipAddress.slice(0, 45),
+    sha256(token),
+  ]);
+}
+
+/** Records a sign-in from an already trusted device. */
+export async function touchTrustedDevice(
+  db: DbConnection,
+  userId: number,
+  match: { deviceToken?: string | null; deviceName?: string | null },
+  ipAddress: string | null,
+): Promise<void> {
+  await ensureDeviceSessionSchema(db);
+  const [column, value] = match.deviceToken ? ["device_token", match.deviceToken] : ["device_name", match.deviceName];
+  if (!value) {
+    return;
+  }
+  await db.execute(
+    `UPDATE trusted_devices SET last_used = NOW(), last_seen_ip = COALESCE(?, last_seen_ip)
+     WHERE user_id = ? AND ${column} = ?`,
+    [ipAddress ? ipAddress.slice(0, 45) : null, userId, value],
+  );
+}
+
+/** Checks each portal cookie in turn; a browser normally holds only one of them. */
+export async function resolveSignedInAccount(): Promise<SignedInAccount | null> {
+  const readers: Array<[SessionRole, () => Promise<{ sessionId: number; userId: number } | null>]> = [
+    ["it_admin", getAdminSessionFromCookies],
+    ["principal", getPrincipalSessionFromCookies],
+    ["master_teacher", getMasterTeacherSessionFromCookies],
+    ["teacher", getTeacherSessionFromCookies],
+    ["parent", getParentSessionFromCookies],
+  ];
+  for (const [role, read] of readers) {
+    try {
+      const session = await read();
+      if (session) {
+        return { userId: Number(session.userId), role, sessionId: Number(session.sessionId) };
+      }
+    } catch {
+      // A missing session table for one portal should not block the others.
+    }
+  }
+  return null;
+}
+
+export async function listAccountSessions(
+  db: DbConnection,
+  userId: number,
+  current: SignedInAccount | null = null,
+): Promise<AccountSession[]> {
+  await ensureDeviceSessionSchema(db);
+  const sessions: AccountSession[] = [];
+  for (const role of SESSION_ROLES) {
+    const table = SESSION_TABLES[role];
+    if (!existingTables.has(table)) {
+      continue;
+    }
+    const [rows] = await db.execute<RowDataPacket[]>(
+      `SELECT session_id, user_agent, last_seen_ip, created_at, last_active_at, expires_at
+       FROM \`${table}\`
+       WHERE user_id = ? AND revoked_at IS NULL AND expires_at > NOW()`,
+      [userId],
+    );
+    for (const row of rows) {
+      const sessionId = Number(row.session_id);
+      sessions.push({
+        role,
+        sessionId,
+        deviceName: row.user_agent ? String(row.user_agent) : null,
+        ipAddress: row.last_seen_ip ? String(row.last_seen_ip) : null,
+        createdAt: toIso(row.created_at),
+        lastActiveAt: toIso(row.last_active_at ?? row.created_at),
+        expiresAt: toIso(row.expires_at),
+        current: current?.role === role && current.sessionId === sessionId,
+      });
+    }
+  }
+  return sessions.sort((a, b) => String(b.lastActiveAt ?? "").localeCompare(String(a.lastActiveAt ?? "")));
+}
+
+export async function listTrustedDevices(
+  db: DbConnection,
+  userId: number,
+  currentDeviceName: string | null = null,
+): Promise<TrustedDevice[]> {
+  await ensureDeviceSessionSchema(db);
+  if (!existingTables.has("trusted_devices")) {
+    return [];
+  }
+  const [rows] = await db.execute<RowDataPacket[]>("SELECT * FROM trusted_devices WHERE user_id = ?", [userId]);
+  return rows
+    .map((row) => ({
+      deviceKey: buildDeviceKey(String(row.device_token)),
+      deviceName: row.device_name ? String(row.device_name) : "Unnamed Device",
+      ipAddress: row.last_seen_ip ? String(row.last_seen_ip) : null,
+      createdAt: toIso(row.created_at),
+      lastUsedAt: toIso(row.last_used ?? row.created_at),
+      current: Boolean(currentDeviceName) && row.device_name === currentDeviceName,
+    }))
+    .sort((a, b) => String(b.lastUsedAt ?? "").localeCompare(String(a.lastUsedAt ?? "")));
+}
+
+async function revokeSessionRow(db: DbConnection, role: SessionRole, sessionId: number): Promise<void> {
+  switch (role) {
+    case "it_admin":
+      return revokeAdminSessionById(db, sessionId);
+    case "parent":
+      return revokeParentSessionById(db, sessionId);
+    case "principal":
+      return revokePrincipalSession(sessionId);
+    case "master_teacher":
+      return revokeMasterTeacherSession(sessionId);
+    case "teacher":
+      return revokeTeacherSession(sessionId);
+  }
+}
+
+/** Returns false when the session is not an active session of this user. */
+export async function revokeAccountSession(
+  db: DbConnection,
+  userId: number,
+  role: SessionRole,
+  sessionId: number,
+  actor: SessionActor,
+): Promise<boolean> {
+  await ensureDeviceSessionSchema(db);
+  const table = SESSION_TABLES[role];
+  if (!existingTables.has(table)) {
+    return false;
+  }
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT session_id FROM \`${table}\` WHERE session_id = ? AND user_id = ? AND revoked_at IS NULL LIMIT 1`,
+    [sessionId, userId],
+  );
+  if (!rows[0]) {
+    return false;
+  }
+  await revokeSessionRow(db, role, sessionId);
+  await writeSecurityAuditLog(db, {
+    action: "account_session_revoked",
+    userId: actor.userId,
+    targetModule: "account_sessions",
+    targetRecordId: userId,
+    ipAddress: actor.ipAddress,
+    details: { role, sessionId },
+  });
+  return true;
+}
+
+/**
+ * Forgets a trusted device and ends the sessions it opened, so the next
+ * sign-in from it has to pass the second factor again.
+ */
+export async function revokeTrustedDevice(
+  db: DbConnection,
+  userId: number,
+  deviceKey: string,
+  actor: SessionActor,
+): Promise<boolean> {
+  await ensureDeviceSessionSchema(db);
+  if (!existingTables.has("trusted_devices")) {
+    return false;
+  }
+  const [rows] = await db.execute<RowDataPacket[]>(
+    "SELECT device_token, device_name FROM trusted_devices WHERE user_id = ?",
+    [userId],
+  );
+  const device = rows.find((row) => buildDeviceKey(String(row.device_token)) === deviceKey);
+  if (!device) {
+    return false;
+  }
+  await db.execute("DELETE FROM trusted_devices WHERE user_id = ? AND device_token = ?", [userId, device.device_token]);
+
+  const deviceName = device.device_name ? String(device.device_name) : null;
+  const endedSessions = deviceName
+    ? (await listAccountSessions(db, userId)).filter((session) => session.deviceName === deviceName)
+    : [];
+  for (const session of endedSessions) {
+    await revokeSessionRow(db, session.role, session.sessionId);
+  }
+
+  await writeSecurityAuditLog(db, {
+    action: "trusted_device_revoked",
+    userId: actor.userId,
+    targetModule: "account_sessions",
+    targetRecordId: userId,
+    ipAddress: actor.ipAddress,
+    details: { deviceName, sessionsEnded: endedSessions.length },
+  });
+  return true;
+}
+
+export async function signOutEverywhere(
+  db: DbConnection,
+  userId: number,
+  actor: SessionActor,
+): Promise<{ sessionsEnded: number; devicesRemoved: number }> {
+  await ensureDeviceSessionSchema(db);
+  const sessions = await listAccountSessions(db, userId);
+  for (const session of sessions) {
+    await revokeSessionRow(db, session.role, session.sessionId);
+  }
+  let devicesRemoved = 0;
+  if (existingTables.has("trusted_devices")) {
+    const [result] = await db.execute<ResultSetHeader>("DELETE FROM trusted_devices WHERE user_id = ?", [userId]);
+    devicesRemoved = result.affectedRows;
+  }
+
+  await writeSecurityAuditLog(db, {
+    action: "account_signed_out_everywhere",
+    userId: actor.userId,
+    targetModule: "account_sessions",
+    targetRecordId: userId,
+    ipAddress: actor.ipAddress,
+    details: { sessionsEnded: sessions.length, devicesRemoved },
+  });
+  return { sessionsEnded: sessions.length, devicesRemoved };
+}
+
+export type SessionAction =
+  | { action: "revoke_session"; role: SessionRole; sessionId: number }
+  | { action: "revoke_device"; deviceKey: string }
+  | { action: "sign_out_everywhere" };
+
+export function parseSessionAction(payload: unknown): SessionAction | null {
+  if (!payload || typeof payload !== "object") {
+    return null;
+  }
+  const body = payload as Record<string, unknown>;
+  if (body.action === "revoke_session") {
+    const sessionId = Number(body.sessionId);
+    return isSessionRole(body.role) && Number.isInteger(sessionId) && sessionId > 0
+      ? { action: "revoke_session", role: body.role, sessionId }
+      : null;
+  }
+  if (body.action === "revoke_device") {
+    return typeof body.deviceKey === "string" && /^[a-f0-9]{32}$/.test(body.deviceKey)
+      ? { action: "revoke_device", deviceKey: body.deviceKey }
+      : null;
+  }
+  if (body.action === "sign_out_everywhere") {
+    return { action: "sign_out_everywhere" };
+  }
+  return null;
+}
+
+/** Applies a parsed action; false means the session or device no longer belongs to the user. */
+export async function applySessionAction(
+  db: DbConnection,
+  userId: number,
+  action: SessionAction,
+  actor: SessionActor,
+): Promise<boolean> {
+  switch (action.action) {
+    case "revoke_session":
+      return revokeAccountSession(db, userId, action.role, action.sessionId, actor);
+    case "revoke_device":
+      return revokeTrustedDevice(db, userId, action.deviceKey, actor);
+    case "sign_out_everywhere":
+      await signOutEverywhere(db, userId, actor);
+      return true;
+  }
+}
@@ -2,7 +2,10 @@ import type { Connection, PoolConnection, ResultSetHeader, RowDataPacket } from
 import { writeSecurityAuditLog } from "@/lib/server/security-audit";
 
 export type DbConnection = Connection | PoolConnection;
-export type EmergencyModuleName = "Calendars" | "Requests";
+export type EmergencyTargetRole = "Principal" | "Master Teacher";
+export type EmergencyModuleName = "Calendars" | "Requests" | "Materials" | "StudentAssignments" | "Reports";
+export type EmergencyApprovalStatus = "pending" | "approved" | "rejected" | "cancelled";
+export type EmergencyApproverRole = "IT Admin" | "Principal";
 
 export type EmergencyAccessRow = RowDataPacket & {
   emergency_access_id: number;
@@ -15,24 +18,45 @@ export type EmergencyAccessRow = RowDataPacket & {
   expires_at: Date | string | null;
   deactivated_at: Date | string | null;
   deactivated_by_user_id: number | null;
+  approval_status: EmergencyApprovalStatus;
+  requested_at: Date | string | null;
+  approved_by_user_id: number | null;
+  approver_role: string | null;
+  approved_at: Date | string | null;
+  decision_note: string | null;
 };
 
-const TARGET_ROLE = "Principal";
+export type EmergencyScopeRow = RowDataPacket & {
+  emergency_access_id: number;
+  module_name: string;
+  duration_minutes: number;
+  expires_at: Date | string | null;
+  expired_at: Date | string | null;
+};
+
+export type EmergencyScopeRequest = {
+  module: EmergencyModuleName;
+  durationMinutes: number;
+};
+
+export type EmergencyDecisionResult =
+  | { ok: true; session: EmergencyAccessRow }
+  | { ok: false; status: number; error: string };
+
+/** Which modules each covered role exposes while its holder is absent. */
+export const EMERGENCY_SCOPE_CATALOG: Record<EmergencyTargetRole, readonly EmergencyModuleName[]> = {
+  Principal: ["Calendars", "Requests", "Reports"],
+  "Master Teacher": ["Materials", "StudentAssignments", "Reports"],
+};
+
+export const EMERGENCY_SCOPE_DEFAULT_MINUTES = 240;
+export const EMERGENCY_SCOPE_MAX_MINUTES = 24 * 60;
+
+const DEFAULT_TARGET_ROLE: EmergencyTargetRole = "Principal";
 
 let schemaReady = false;
 let fkReady = false;
 
-function normalizeDateTime(value: string | null | undefined): string | null {
-  if (!value) {
-    return null;
-  }
-  const parsed = new Date(value);
-  if (Number.isNaN(parsed.getTime())) {
-    return null;
-  }
-  return parsed.toISOString().slice(0, 19).replace("T", " ");
-}
-
 function splitScope(scopeModules: string): Set<string> {
   return new Set(
     scopeModules
@@ -68,6 +92,34 @@ export async function ensureEmergencyAccessSchema(db: DbConnection): Promise<voi
           FOREIGN KEY (deactivated_by_user_id) REFERENCES users(user_id)
       ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
     `);
+    const [columnRows] = await db.query<Array<RowDataPacket & { Field: string }>>("SHOW COLUMNS FROM emergency_access");
+    const existing = new Set(columnRows.map((row) => String(row.Field)));
+    const additions: Array<[string, string]> = [
+      // Sessions created before dual approval were activated directly, so they count as approved.
+      ["approval_status", "VARCHAR(20) NOT NULL DEFAULT 'approved'"],
+      ["requested_at", "DATETIME NULL"],
+      ["approved_by_user_id", "INT NULL"],
+      ["approver_role", "VARCHAR(20) NULL"],
+      ["approved_at", "DATETIME NULL"],
+      ["decision_note", "VARCHAR(255) NULL"],
+    ];
+    for (const [column, definition] of additions) {
+      if (!existing.has(column)) {
+        await db.execute(`ALTER TABLE emergency_access ADD COLUMN ${column} ${definition}`);
+      }
+    }
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS emergency_access_scopes (
+        emergency_access_id BIGINT UNSIGNED NOT NULL,
+        module_name VARCHAR(40) NOT NULL,
+        duration_minutes INT NOT NULL,
+        expires_at DATETIME NULL,
+        expired_at DATETIME NULL,
+        PRIMARY KEY (emergency_access_id, module_name),
+        KEY idx_emergency_scope_expires_at (expires_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
     schemaReady = true;
   }
 
@@ -91,7 +143,7 @@ export async function writeEmergencyAuditLog(
     action: string;
     userId: number;
     emergencyAccessId: number | null;
-    targetModule: "EmergencyAccess" | "Requests" | "Calendars";
+    targetModule: "EmergencyAccess" | EmergencyModuleName;
     targetRecordId: string | number | null;
     ipAddress?: string | null;
     details?: unknown;
@@ -109,6 +161,98 @@ export async function writeEmergencyAuditLog(
   });
 }
 
+export function isEmergencyTargetRole(value: unknown): value is EmergencyTargetRole {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(EMERGENCY_SCOPE_CATALOG, value);
+}
+
+/**
+ * Validates requested scopes against the catalogue of the covered role.
+ * Returns an error message for the caller to surface instead of throwing.
+ */
+export function parseEmergencyScopes(
+  targetRole: EmergencyTargetRole,
+  scopes: unknown,
+): EmergencyScopeRequest[] | string {
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    return "Select at least one module for the emergency session.";
+  }
+  const allowed = EMERGENCY_SCOPE_CATALOG[targetRole];
+  const parsed = new Map<EmergencyModuleName, number>();
+  for (const entry of scopes) {
+    const item = (entry ?? {}) as { module?: unknown; duration_minutes?: unknown };
+    const moduleName = allowed.find((candidate) => candidate === item.module);
+    if (!moduleName) {
+      return `${String(item.module)} is not available when covering the ${targetRole} role.`;
+    }
+    const duration = item.duration_minutes === undefined ? EMERGENCY_SCOPE_DEFAULT_MINUTES : Number(item.duration_minutes);
+    if (!Number.isInteger(duration) || duration < 15 || duration > EMERGENCY_SCOPE_MAX_MINUTES) {
+      return `Each module must stay open between 15 minutes and ${EMERGENCY_SCOPE_MAX_MINUTES / 60} hours.`;
+    }
+    parsed.set(moduleName, duration);
+  }
+  return Array.from(parsed, ([module, durationMinutes]) => ({ module, durationMinutes }));
+}
+
+/** A scope is usable until its own deadline, independently of the other modules in the session. */
+export function isEmergencyScopeLive(scope: Pick<EmergencyScopeRow, "expires_at" | "expired_at">, now = Date.now()): boolean {
+  if (scope.expired_at || !scope.expires_at) {
+    return false;
+  }
+  const expiresAt = new Date(String(scope.expires_at)).getTime();
+  return !Number.isNaN(expiresAt) && now < expiresAt;
+}
+
+async function loadSession(db: DbConnection, emergencyAccessId: number): Promise<EmergencyAccessRow | null> {
+  const [rows] = await db.execute<EmergencyAccessRow[]>(
+    "SELECT * FROM emergency_access WHERE emergency_access_id = ? LIMIT 1",
+    [emergencyAccessId],
+  );
+  return rows[0] ?? null;
+}
+
+export async function listEmergencyScopes(db: DbConnection, emergencyAccessId: number): Promise<EmergencyScopeRow[]> {
+  await ensureEmergencyAccessSchema(db);
+  const [rows] = await db.execute<EmergencyScopeRow[]>(
+    "SELECT * FROM emergency_access_scopes WHERE emergency_access_id = ? ORDER BY module_name",
+    [emergencyAccessId],
+  );
+  return rows;
+}
+
+/** Closes scopes past their own deadline and records each one in the audit log. */
+async function expireEmergencyScopesIfNeeded(db: DbConnection, row: EmergencyAccessRow): Promise<EmergencyScopeRow[]> {
+  const scopes = await listEmergencyScopes(db, Number(row.emergency_access_id));
+  const now = Date.now();
+  for (const scope of scopes) {
+    if (scope.expired_at || isEmergencyScopeLive(scope, now)) {
+      continue;
+    }
+    const [result] = await db.execute<ResultSetHeader>(
+      `UPDATE emergency_access_scopes SET expired_at = NOW()
+       WHERE emergency_access_id = ? AND module_name = ? AND expired_at IS NULL`,
+      [row.emergency_access_id, scope.module_name],
+    );
+    scope.expired_at = new Date();
+    if (result.affectedRows === 0) {
+      continue;
+    }
+    await writeEmergencyAuditLog(db, {
+      action: "EMERGENCY_SCOPE_EXPIRED",
+      userId: Number(row.activated_by_user_id),
+      emergencyAccessId: Number(row.emergency_access_id),
+      targetModule: "EmergencyAccess",
+      targetRecordId: Number(row.emergency_access_id),
+      details: {
+        performed_via: "Emergency Access",
+        activated_for_role: row.activated_for_role,
+        module: scope.module_name,
+        expires_at: scope.expires_at,
+      },
+    });
+  }
+  return scopes;
+}
+
 export async function getActiveEmergencyAccessByUserId(
   db: DbConnection,
   userId: number,
@@ -118,7 +262,7 @@ export async function getActiveEmergencyAccessByUserId(
     `SELECT *
      FROM emergency_access
      WHERE activated_by_user_id = ?
-       AND activated_for_role = 'Principal'
+       AND approval_status = 'approved'
        AND is_active = 1
      ORDER BY activated_at DESC, emergency_access_id DESC
      LIMIT 1`,
@@ -134,16 +278,34 @@ export async function getActiveEmergencyAccessByUserId(
   return expired ? null : row;
 }
 
+/** The caller's session awaiting a second approver, if any. */
+export async function getPendingEmergencyAccessByUserId(
+  db: DbConnection,
+  userId: number,
+): Promise<EmergencyAccessRow | null> {
+  await ensureEmergencyAccessSchema(db);
+  const [rows] = await db.execute<EmergencyAccessRow[]>(
+    `SELECT *
+     FROM emergency_access
+     WHERE activated_by_user_id = ?
+       AND approval_status = 'pending'
+     ORDER BY requested_at DESC, emergency_access_id DESC
+     LIMIT 1`,
+    [userId],
+  );
+  return rows[0] ?? null;
+}
+
 export async function expireEmergencyAccessIfNeeded(
   db: DbConnection,
   row: EmergencyAccessRow,
   options: { ipAddress?: string | null } = {},
 ): Promise<boolean> {
+  const scopes = await expireEmergencyScopesIfNeeded(db, row);
   const expiresAt = row.expires_at ? new Date(String(row.expires_at)) : null;
-  if (!expiresAt || Number.isNaN(expiresAt.getTime())) {
-    return false;
-  }
-  if (Date.now() < expiresAt.getTime()) {
+  const sessionDeadlinePassed = Boolean(expiresAt && !Number.isNaN(expiresAt.getTime()) && Date.now() >= expiresAt.getTime());
+  const allScopesClosed = scopes.length > 0 && scopes.every((scope) => Boolean(scope.expired_at));
+  if (!sessionDeadlinePassed && !allScopesClosed) {
     return false;
   }
 
@@ -167,7 +329,7 @@ export async function expireEmergencyAccessIfNeeded(
     details: {
       performed_by_role: "IT Admin",
       performed_via: "Emergency Access",
-      activated_for_role: TARGET_ROLE,
+      activated_for_role: row.activated_for_role,
       scope_modules: Array.from(splitScope(String(row.scope_modules))),
       reason: row.reason,
       expires_at: row.expires_at,
@@ -181,37 +343,43 @@ export async function hasActiveEmergencyAccess(
   db: DbConnection,
   userId: number,
   moduleName: EmergencyModuleName,
+  targetRole: EmergencyTargetRole = DEFAULT_TARGET_ROLE,
 ): Promise<{ active: boolean; session: EmergencyAccessRow | null }> {
   const session = await getActiveEmergencyAccessByUserId(db, userId);
   if (!session) {
     return { active: false, session: null };
   }
-  if (String(session.activated_for_role) !== TARGET_ROLE) {
+  if (String(session.activated_for_role) !== targetRole) {
     return { active: false, session: null };
   }
-  const scope = splitScope(String(session.scope_modules));
-  if (!scope.has(moduleName)) {
+  const scopes = await listEmergencyScopes(db, Number(session.emergency_access_id));
+  // Sessions activated before per-module deadlines only carry the comma-separated scope list.
+  const scopeOpen = scopes.length > 0
+    ? scopes.some((scope) => scope.module_name === moduleName && isEmergencyScopeLive(scope))
+    : splitScope(String(session.scope_modules)).has(moduleName);
+  if (!scopeOpen) {
     return { active: false, session: null };
   }
   return { active: true, session };
 }
 
-export async function activateEmergencyAccess(
+/**
+ * Files an emergency session that stays inert until a different IT Admin or
+ * the Principal approves it.
+ */
+export async function requestEmergencyAccess(
   db: DbConnection,
   userId: number,
-  reason: string,
-  expiresAt?: string | null,
+  input: { reason: string; targetRole: EmergencyTargetRole; scopes: EmergencyScopeRequest[] },
 ): Promise<{ created: boolean; session: EmergencyAccessRow }> {
   await ensureEmergencyAccessSchema(db);
 
-  const existing = await getActiveEmergencyAccessByUserId(db, userId);
+  const existing =
+    (await getActiveEmergencyAccessByUserId(db, userId)) ?? (await getPendingEmergencyAccessByUserId(db, userId));
   if (existing) {
     return { created: false, session: existing };
   }
 
-  const normalizedReason = reason.trim();
-  const normalizedExpiresAt = normalizeDateTime(expiresAt ?? null);
-
   const [result] = await db.execute<ResultSetHeader>(
     `INSERT INTO emergency_access (
        activated_by_user_id,
@@ -219,23 +387,97 @@ export async function activateEmergencyAccess(
        reason,
        scope_modules,
        is_active,
-       activated_at,
-       expires_at
-     ) VALUES (?, 'Principal', ?, 'Calendars,Requests', 1, NOW(), ?)`,
-    [userId, normalizedReason, normalizedExpiresAt],
+       approval_status,
+       requested_at
+     ) VALUES (?, ?, ?, ?, 0, 'pending', NOW())`,
+    [userId, input.targetRole, input.reason.trim(), input.scopes.map((scope) => scope.module).join(",")],
   );
+  for (const scope of input.scopes) {
+    await db.execute(
+      "INSERT INTO emergency_access_scopes (emergency_access_id, module_name, duration_minutes) VALUES (?, ?, ?)",
+      [result.insertId, scope.module, scope.durationMinutes],
+    );
+  }
 
-  const [rows] = await db.execute<EmergencyAccessRow[]>(
-    "SELECT * FROM emergency_access WHERE emergency_access_id = ? LIMIT 1",
-    [result.insertId],
-  );
-  if (!rows[0]) {
+  const session = await loadSession(db, result.insertId);
+  if (!session) {
     throw new Error("Failed to load created emergency access record.");
   }
+  return { created: true, session };
+}
 
-  return { created: true, session: rows[0] };
+export async function listPendingEmergencyApprovals(db: DbConnection): Promise<EmergencyAccessRow[]> {
+  await ensureEmergencyAccessSchema(db);
+  const [rows] = await db.query<EmergencyAccessRow[]>(
+    `SELECT *
+     FROM emergency_access
+     WHERE approval_status = 'pending'
+     ORDER BY requested_at ASC, emergency_access_id ASC`,
+  );
+  return rows;
+}
+
+/** Approval starts every scope's clock; rejection closes the request without granting anything. */
+export async function decideEmergencyAccess(
+  db: DbConnection,
+  emergencyAccessId: number,
+  approver: { userId: number; role: EmergencyApproverRole },
+  decision: "approve" | "reject",
+  note: string | null,
+): Promise<EmergencyDecisionResult> {
+  await ensureEmergencyAccessSchema(db);
+  const session = await loadSession(db, emergencyAccessId);
+  if (!session || session.approval_status !== "pending") {
+    return { ok: false, status: 404, error: "No pending emergency request was found." };
+  }
+  if (Number(session.activated_by_user_id) === approver.userId) {
+    return { ok: false, status: 403, error: "A second IT Admin or the Principal must approve this request." };
+  }
+
+  if (decision === "reject") {
+    await db.execute(
+      `UPDATE emergency_access
+       SET approval_status = 'rejected', approved_by_user_id = ?, approver_role = ?, approved_at = NOW(), decision_note = ?
+       WHERE emergency_access_id = ? AND approval_status = 'pending'`,
+      [approver.userId, approver.role, note, emergencyAccessId],
+    );
+  } else {
+    await db.execute(
+      `UPDATE emergency_access_scopes
+       SET expires_at = DATE_ADD(NOW(), INTERVAL duration_minutes MINUTE)
+       WHERE emergency_access_id = ?`,
+      [emergencyAccessId],
+    );
+    await db.execute(
+      `UPDATE emergency_access
+       SET approval_status = 'approved', is_active = 1, activated_at = NOW(),
+           expires_at = (SELECT MAX(expires_at) FROM emergency_access_scopes WHERE emergency_access_id = ?),
+           approved_by_user_id = ?, approver_role = ?, approved_at = NOW(), decision_note = ?
+       WHERE emergency_access_id = ? AND approval_status = 'pending'`,
+      [emergencyAccessId, approver.userId, approver.role, note, emergencyAccessId],
+    );
+  }
+
+  await writeEmergencyAuditLog(db, {
+    action: decision === "approve" ? "EMERGENCY_ACCESS_APPROVED" : "EMERGENCY_ACCESS_REJECTED",
+    userId: approver.userId,
+    emergencyAccessId,
+    targetModule: "EmergencyAccess",
+    targetRecordId: emergencyAccessId,
+    details: {
+      performed_by_role: approver.role,
+      requested_by_user_id: Number(session.activated_by_user_id),
+      activated_for_role: session.activated_for_role,
+      scope_modules: Array.from(splitScope(String(session.scope_modules))),
+      note,
+    },
+  });
+
+  const updated = await loadSession(db, emergencyAccessId);
+  return updated ? { ok: true, session: updated } : { ok: false, status: 404, error: "Emergency request not found." };
 }
 
+/** Ends the caller's active session, or withdraws it while it still awaits approval. */
 export async function deactivateEmergencyAccess(
   db: DbConnection,
   userId: number,
@@ -246,80 +488,208 @@ export async function deactivateEmergencyAccess(
     `UPDATE emergency_access
      SET
        is_active = 0,
+       approval_status = IF(approval_status = 'pending', 'cancelled', approval_status),
        deactivated_at = NOW(),
        deactivated_by_user_id = ?
      WHERE emergency_access_id = ?
        AND activated_by_user_id = ?
-       AND is_active = 1`,
+       AND (is_active = 1 OR approval_status = 'pending')`,
     [userId, emergencyAccessId, userId],
   );
+  if (result.affectedRows > 0) {
+    await db.execute(
+      "UPDATE emergency_access_scopes SET expired_at = NOW() WHERE emergency_access_id = ? AND expired_at IS NULL",
+      [emergencyAccessId],
+    );
+  }
 
   return result.affectedRows > 0;
 }
 
-export async function canManagePrincipalRequests(
+/** Lets the holder of `targetRole` through, or an IT Admin covering that module under emergency access. */
+export async function canActForRole(
   db: DbConnection,
   currentUser: { userId: number; canonicalRole: string },
+  targetRole: EmergencyTargetRole,
+  moduleName: EmergencyModuleName,
 ): Promise<{ allowed: boolean; emergencyAccessId: number | null }> {
-  if (currentUser.canonicalRole === "principal") {
+  const holderRole = targetRole === "Principal" ? "principal" : "master_teacher";
+  if (currentUser.canonicalRole === holderRole) {
     return { allowed: true, emergencyAccessId: null };
   }
   if (currentUser.canonicalRole !== "it_admin") {
     return { allowed: false, emergencyAccessId: null };
   }
-  const access = await hasActiveEmergencyAccess(db, currentUser.userId, "Requests");
+  const access = await hasActiveEmergencyAccess(db, currentUser.userId, moduleName, targetRole);
   return {
     allowed: access.active,
     emergencyAccessId: access.session ? Number(access.session.emergency_access_id) : null,
   };
 }
 
+export async function canManagePrincipalRequests(
+  db: DbConnection,
+  currentUser: { userId: number; canonicalRole: string },
+): Promise<{ allowed: boolean; emergencyAccessId: number | null }> {
+  return canActForRole(db, currentUser, "Principal", "Requests");
+}
+
 export async function canManagePrincipalCalendars(
   db: DbConnection,
   currentUser: { userId: number; canonicalRole: string },
 ): Promise<{ allowed: boolean; emergencyAccessId: number | null }> {
-  if (currentUser.canonicalRole === "principal") {
-    return { allowed: true, emergencyAccessId: null };
-  }
-  if (currentUser.canonicalRole !== "it_admin") {
-    return { allowed: false, emergencyAccessId: null };
-  }
-  const access = await hasActiveEmergencyAccess(db, currentUser.userId, "Calendars");
-  return {
-    allowed: access.active,
-    emergencyAccessId: access.session ? Number(access.session.emergency_access_id) : null,
-  };
+  return canActForRole(db, currentUser, "Principal", "Calendars");
 }
 
-export function mapEmergencyAccessResponse(session: EmergencyAccessRow | null): {
+export type EmergencyAccessResponse = {
   active: boolean;
   emergency_access_id: number | null;
+  approval_status: EmergencyApprovalStatus | null;
+  activated_for_role: string | null;
   reason: string | null;
+  requested_at: string | null;
   activated_at: string | null;
   expires_at: string | null;
+  approved_by_user_id: number | null;
+  approver_role: string | null;
   scope_modules: string[];
-} {
+  scopes: Array<{ module: string; duration_minutes: number; expires_at: string | null; live: boolean }>;
+};
+
+export function mapEmergencyAccessResponse(
+  session: EmergencyAccessRow | null,
+  scopes: EmergencyScopeRow[] = [],
+): EmergencyAccessResponse {
   if (!session) {
     return {
       active: false,
       emergency_access_id: null,
+      approval_status: null,
+      activated_for_role: null,
       reason: null,
+      requested_at: null,
       activated_at: null,
       expires_at: null,
+      approved_by_user_id: null,
+      approver_role: null,
       scope_modules: [],
+      scopes: [],
     };
   }
 
   return {
-    active: true,
+    active: Boolean(session.is_active) && session.approval_status === "approved",
     emergency_access_id: Number(session.emergency_access_id),
+    approval_status: session.approval_status ?? "approved",
+    activated_for_role: String(session.activated_for_role),
     reason: String(session.reason),
-    activated_at: session.activated_at ? String(session.activated_at) : null,
+    requested_at: session.requested_at ? String(session.requested_at) : null,
+    activated_at: session.approval_status === "approved" && session.activated_at ? String(session.activated_at) : null,
     expires_at: session.expires_at ? String(session.expires_at) : null,
+    approved_by_user_id: session.approved_by_user_id == null ? null : Number(session.approved_by_user_id),
+    approver_role: session.approver_role ?? null,
     scope_modules: Array.from(splitScope(String(session.scope_modules))),
+    scopes: scopes.map((scope) => ({
+      module: String(scope.module_name),
+      duration_minutes: Number(scope.duration_minutes),
+      expires_at: scope.expires_at ? String(scope.expires_at) : null,
+      live: isEmergencyScopeLive(scope),
+    })),
+  };
+}
+
+type AuditLogRow = RowDataPacket & {
+  log_id: number;
+  action: string;
+  user_id: string;
+  target_module: string | null;
+  target_record_id: string | null;
+  ip_address: string | null;
+  details: string | null;
+  created_at: Date | string;
+};
+
+export type EmergencyIncidentReport = {
+  emergency_access: EmergencyAccessResponse;
+  deactivated_at: string | null;
+  actions: Array<{
+    log_id: number;
+    action: string;
+    user_id: string;
+    target_module: string | null;
+    target_record_id: string | null;
+    ip_address: string | null;
+    details: unknown;
+    created_at: string;
+  }>;
+  summary: Record<string, number>;
+};
+
+function parseAuditDetails(value: string | null): unknown {
+  if (!value) {
+    return null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/** Everything the audit log recorded under one emergency session, for the post-incident review. */
+export async function buildEmergencyIncidentReport(
+  db: DbConnection,
+  emergencyAccessId: number,
+): Promise<EmergencyIncidentReport | null> {
+  await ensureEmergencyAccessSchema(db);
+  const session = await loadSession(db, emergencyAccessId);
+  if (!session) {
+    return null;
+  }
+  const scopes = await listEmergencyScopes(db, emergencyAccessId);
+  const [rows] = await db.execute<AuditLogRow[]>(
+    `SELECT log_id, action, user_id, target_module, target_record_id, ip_address, details, created_at
+     FROM security_audit_logs
+     WHERE emergency_access_id = ?
+     ORDER BY created_at ASC, log_id ASC`,
+    [emergencyAccessId],
+  );
+
+  const summary: Record<string, number> = {};
+  for (const row of rows) {
+    const key = row.target_module ?? "EmergencyAccess";
+    summary[key] = (summary[key] ?? 0) + 1;
+  }
+
+  return {
+    emergency_access: mapEmergencyAccessResponse(session, scopes),
+    deactivated_at: session.deactivated_at ? String(session.deactivated_at) : null,
+    actions: rows.map((row) => ({
+      log_id: Number(row.log_id),
+      action: String(row.action),
+      user_id: String(row.user_id),
+      target_module: row.target_module,
+      target_record_id: row.target_record_id,
+      ip_address: row.ip_address,
+      details: parseAuditDetails(row.details),
+      created_at: String(row.created_at),
+    })),
+    summary,
   };
 }
 
+export async function listRecentEmergencySessions(db: DbConnection, limit = 50): Promise<EmergencyAccessRow[]> {
+  await ensureEmergencyAccessSchema(db);
+  const [rows] = await db.query<EmergencyAccessRow[]>(
+    `SELECT *
+     FROM emergency_access
+     WHERE approval_status = 'approved'
+     ORDER BY activated_at DESC, emergency_access_id DESC
+     LIMIT ${Math.max(1, Math.min(200, Math.trunc(limit)))}`,
+  );
+  return rows;
+}
+
 export function validateEmergencyReason(reason: unknown): string | null {
   const normalized = typeof reason === "string" ? reason.trim() : "";
   if (normalized.length < 10) {
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { requireItAdmin } from "@/lib/server/it-admin-auth";
+import {
+  hasActiveEmergencyAccess,
+  type EmergencyModuleName,
+  type EmergencyTargetRole,
+} from "@/lib/server/emergency-access";
+
+export type EmergencyScopeAuthResult =
+  | { ok: true; userId: number; emergencyAccessId: number }
+  | { ok: false; response: Response };
+
+const MODULE_LABELS: Record<EmergencyModuleName, string> = {
+  Calendars: "Calendars",
+  Requests: "Requests",
+  Materials: "Material approvals",
+  StudentAssignments: "Student assignments",
+  Reports: "Report review",
+};
+
+/** Admits an IT Admin only while an approved emergency session covers this module of `targetRole`. */
+export async function requireEmergencyScope(
+  request: Request,
+  targetRole: EmergencyTargetRole,
+  moduleName: EmergencyModuleName,
+): Promise<EmergencyScopeAuthResult> {
+  const auth = await requireItAdmin(request, { permission: "it_admin:content.manage" });
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const access = await runWithConnection((connection) =>
+    hasActiveEmergencyAccess(connection, auth.userId, moduleName, targetRole),
+  );
+  if (!access.active || !access.session) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { success: false, error: `Emergency ${MODULE_LABELS[moduleName]} access is not active.` },
+        { status: 403 },
+      ),
+    };
+  }
+
+  return { ok: true, userId: auth.userId, emergencyAccessId: Number(access.session.emergency_access_id) };
+}
@@ -7,29 +7,37 @@ import {
   validateAdminSession,
 } from "@/lib/server/admin-session";
 import {
+  type ItAdminPermission,
   type ItAdminPermissionRequest,
-  IT_ADMIN_PERMISSION_SET,
   normalizeRequestedItAdminPermission,
 } from "@/lib/server/it-admin-permissions";
+import { resolveItAdminPermissions } from "@/lib/server/it-admin-permission-roles";
 import { normalizeRoleName, resolveCanonicalRole, resolveUserRole } from "@/lib/server/role-resolution";
 import { ensureItAdminPhaseOneMigration } from "@/lib/server/it-admin-migration";
 
 export type ItAdminAuthResult =
-  | { ok: true; userId: number; role: string | null; canonicalRole: string }
+  | { ok: true; userId: number; role: string | null; canonicalRole: string; permissions: ItAdminPermission[] }
   | { ok: false; response: Response };
 
 export type { ItAdminPermission, ItAdminPermissionRequest } from "@/lib/server/it-admin-permissions";
 export { normalizeRequestedItAdminPermission } from "@/lib/server/it-admin-permissions";
 
-function hasPermission(canonicalRole: string, permission?: ItAdminPermissionRequest): boolean {
-  if (canonicalRole !== "it_admin") {
-    return false;
-  }
+function hasPermission(granted: Set<ItAdminPermission>, permission?: ItAdminPermissionRequest): boolean {
   const normalizedPermission = normalizeRequestedItAdminPermission(permission);
   if (!normalizedPermission) {
     return true;
   }
-  return IT_ADMIN_PERMISSION_SET.has(normalizedPermission);
+  return granted.has(normalizedPermission);
+}
+
+function forbiddenResult(): ItAdminAuthResult {
+  return {
+    ok: false,
+    response: new Response(JSON.stringify({ error: "Forbidden" }), {
+      status: 403,
+      headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+    }),
+  };
 }
 
 export async function requireItAdmin(
@@ -91,14 +99,13 @@ export async function requireItAdmin(
       const normalizedRole = normalizeRoleName(roleForLogic);
       const canonicalRole = resolveCanonicalRole(normalizedRole);
 
-      if (!hasPermission(canonicalRole, options.permission)) {
-        return {
-          ok: false,
-          response: new Response(JSON.stringify({ error: "Forbidden" }), {
-            status: 403,
-            headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
-          }),
-        } as ItAdminAuthResult;
+      if (canonicalRole !== "it_admin") {
+        return forbiddenResult();
+      }
+
+      const granted = await resolveItAdminPermissions(connection, Number(user.user_id));
+      if (!hasPermission(granted, options.permission)) {
+        return forbiddenResult();
       }
 
       return {
@@ -106,6 +113,7 @@ export async function requireItAdmin(
         userId: Number(user.user_id),
         role: roleForLogic,
         canonicalRole,
+        permissions: [...granted],
       } as ItAdminAuthResult;
     });
   } catch (error) {
@@ -0,0 +1,372 @@
+import type { Connection, PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { writeSecurityAuditLog } from "@/lib/server/security-audit";
+import {
+  BUILT_IN_PERMISSION_ROLES,
+  checkPermissionDelegation,
+  resolveGrantedPermissions,
+  sanitizePermissionList,
+  type ItAdminPermission,
+} from "@/lib/server/it-admin-permissions";
+
+type DbConnection = Connection | PoolConnection;
+
+const FULL_ACCESS_KEY = "full_access";
+const ROLE_NAME_MAX_LENGTH = 80;
+const ROLE_DESCRIPTION_MAX_LENGTH = 255;
+
+export type PermissionRole = {
+  roleId: number;
+  roleKey: string | null;
+  name: string;
+  description: string | null;
+  permissions: ItAdminPermission[];
+  builtIn: boolean;
+  locked: boolean;
+  assignedCount: number;
+  updatedAt: string | null;
+};
+
+export type PermissionRoleInput = {
+  name: string;
+  description: string | null;
+  permissions: ItAdminPermission[];
+};
+
+export type UserPermissionAssignment = {
+  userId: number;
+  roleIds: number[];
+  permissions: ItAdminPermission[];
+  /** True while the account has never been given a role and keeps every permission. */
+  unrestricted: boolean;
+};
+
+export type PermissionActor = {
+  userId: number;
+  ipAddress: string | null;
+};
+
+export type PermissionChangeResult<T> = { ok: true; value: T } | { ok: false; status: number; error: string };
+
+interface PermissionRoleRow extends RowDataPacket {
+  role_id: number;
+  role_key: string | null;
+  name: string;
+  description: string | null;
+  permissions: string | null;
+  is_built_in: number;
+  assigned_count?: number;
+  updated_at: Date | string | null;
+}
+
+let schemaReady = false;
+
+async function ensurePermissionRoleSchema(db: DbConnection): Promise<void> {
+  if (schemaReady) {
+    return;
+  }
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS it_admin_permission_roles (
+      role_id INT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      role_key VARCHAR(40) NULL,
+      name VARCHAR(80) NOT NULL,
+      description VARCHAR(255) NULL,
+      permissions TEXT NOT NULL,
+      is_built_in TINYINT(1) NOT NULL DEFAULT 0,
+      created_by VARCHAR(100) NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY uniq_it_admin_permission_role_name (name),
+      UNIQUE KEY uniq_it_admin_permission_role_key (role_key)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+  `);
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS it_admin_permission_grants (
+      user_id INT NOT NULL,
+      role_id INT NOT NULL,
+      granted_by VARCHAR(100) NULL,
+      granted_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (user_id, role_id),
+      INDEX idx_it_admin_permission_grants_role (role_id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+  `);
+  for (const role of BUILT_IN_PERMISSION_ROLES) {
+    await db.execute(
+      `INSERT IGNORE INTO it_admin_permission_roles (role_key, name, description, permissions, is_built_in)
+       VALUES (?, ?, ?, ?, 1)`,
+      [role.key, role.name, role.description, JSON.stringify(role.permissions)],
+    );
+  }
+  schemaReady = true;
+}
+
+function parseStoredPermissions(value: string | null): ItAdminPermission[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    return sanitizePermissionList(JSON.parse(value));
+  } catch {
+    return [];
+  }
+}
+
+function toIsoString(value: Date | string | null): string | null {
+  if (!value) {
+    return null;
+  }
+  const parsed = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+function mapRole(row: PermissionRoleRow): PermissionRole {
+  return {
+    roleId: Number(row.role_id),
+    roleKey: row.role_key,
+    name: row.name,
+    description: row.description,
+    permissions: parseStoredPermissions(row.permissions),
+    builtIn: Boolean(row.is_built_in),
+    locked: row.role_key === FULL_ACCESS_KEY,
+    assignedCount: Number(row.assigned_count ?? 0),
+    updatedAt: toIsoString(row.updated_at),
+  };
+}
+
+/** Validates an editor payload; returns an error message instead of throwing. */
+export function parsePermissionRoleInput(payload: unknown): PermissionRoleInput | string {
+  if (!payload || typeof payload !== "object") {
+    return "A role name and permissions are required.";
+  }
+  const body = payload as Record<string, unknown>;
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > ROLE_NAME_MAX_LENGTH) {
+    return `Role name must be between 1 and ${ROLE_NAME_MAX_LENGTH} characters.`;
+  }
+  const description = typeof body.description === "string" ? body.description.trim() : "";
+  if (description.length > ROLE_DESCRIPTION_MAX_LENGTH) {
+    return `Description must be at most ${ROLE_DESCRIPTION_MAX_LENGTH} characters.`;
+  }
+  const permissions = sanitizePermissionList(body.permissions);
+  if (permissions.length === 0) {
+    return "Select at least one permission.";
+  }
+  return { name, description: description || null, permissions };
+}
+
+export async function listPermissionRoles(db: DbConnection): Promise<PermissionRole[]> {
+  await ensurePermissionRoleSchema(db);
+  const [rows] = await db.query<PermissionRoleRow[]>(
+    `SELECT r.role_id, r.role_key, r.name, r.description, r.permissions, r.is_built_in, r.updated_at,
+            COUNT(g.user_id) AS assigned_count
+       FROM it_admin_permission_roles r
+       LEFT JOIN it_admin_permission_grants g ON g.role_id = r.role_id
+      GROUP BY r.role_id
+      ORDER BY r.is_built_in DESC, r.name ASC`,
+  );
+  return rows.map(mapRole);
+}
+
+async function findRole(db: DbConnection, roleId: number): Promise<PermissionRole | null> {
+  const roles = await listPermissionRoles(db);
+  return roles.find((role) => role.roleId === roleId) ?? null;
+}
+
+async function isRoleNameTaken(db: DbConnection, name: string, exceptRoleId: number | null): Promise<boolean> {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    "SELECT role_id FROM it_admin_permission_roles WHERE name = ? AND role_id <> ? LIMIT 1",
+    [name, exceptRoleId ?? 0],
+  );
+  return rows.length > 0;
+}
+
+export async function createPermissionRole(
+  db: DbConnection,
+  input: PermissionRoleInput,
+  actor: PermissionActor,
+): Promise<PermissionChangeResult<PermissionRole>> {
+  await ensurePermissionRoleSchema(db);
+  const refusal = checkPermissionDelegation(await resolveItAdminPermissions(db, actor.userId), input.permissions);
+  if (refusal) {
+    return { ok: false, status: 403, error: refusal };
+  }
+  if (await isRoleNameTaken(db, input.name, null)) {
+    return { ok: false, status: 409, error: "A permission role with this name already exists." };
+  }
+  const [result] = await db.execute<ResultSetHeader>(
+    `INSERT INTO it_admin_permission_roles (name, description, permissions, created_by)
+     VALUES (?, ?, ?, ?)`,
+    [input.name, input.description, JSON.stringify(input.permissions), String(actor.userId)],
+  );
+  const roleId = Number(result.insertId);
+  await writeSecurityAuditLog(db, {
+    action: "permission_role_created",
+    userId: actor.userId,
+    targetModule: "it_admin_permissions",
+    targetRecordId: roleId,
+    ipAddress: actor.ipAddress,
+    details: { name: input.name, permissions: input.permissions },
+  });
+  const role = await findRole(db, roleId);
+  return role ? { ok: true, value: role } : { ok: false, status: 500, error: "The role could not be reloaded." };
+}
+
+export async function updatePermissionRole(
+  db: DbConnection,
+  roleId: number,
+  input: PermissionRoleInput,
+  actor: PermissionActor,
+): Promise<PermissionChangeResult<PermissionRole>> {
+  const existing = await findRole(db, roleId);
+  if (!existing) {
+    return { ok: false, status: 404, error: "Permission role not found." };
+  }
+  if (existing.locked) {
+    return { ok: false, status: 409, error: `${existing.name} always carries every permission and cannot be edited.` };
+  }
+  // Editing a role also changes the access of everyone holding it, so its current permissions count too
+  const refusal = checkPermissionDelegation(
+    await resolveItAdminPermissions(db, actor.userId),
+    input.permissions,
+    existing.permissions,
+  );
+  if (refusal) {
+    return { ok: false, status: 403, error: refusal };
+  }
+  if (await isRoleNameTaken(db, input.name, roleId)) {
+    return { ok: false, status: 409, error: "A permission role with this name already exists." };
+  }
+  await db.execute(
+    "UPDATE it_admin_permission_roles SET name = ?, description = ?, permissions = ? WHERE role_id = ?",
+    [input.name, input.description, JSON.stringify(input.permissions), roleId],
+  );
+  await writeSecurityAuditLog(db, {
+    action: "permission_role_updated",
+    userId: actor.userId,
+    targetModule: "it_admin_permissions",
+    targetRecordId: roleId,
+    ipAddress: actor.ipAddress,
+    details: {
+      name: input.name,
+      previousName: existing.name,
+      added: input.permissions.filter((permission) => !existing.permissions.includes(permission)),
+      removed: existing.permissions.filter((permission) => !input.permissions.includes(permission)),
+    },
+  });
+  const role = await findRole(db, roleId);
+  return role ? { ok: true, value: role } : { ok: false, status: 500, error: "The role could not be reloaded." };
+}
+
+export async function deletePermissionRole(
+  db: DbConnection,
+  roleId: number,
+  actor: PermissionActor,
+): Promise<PermissionChangeResult<null>> {
+  const existing = await findRole(db, roleId);
+  if (!existing) {
+    return { ok: false, status: 404, error: "Permission role not found." };
+  }
+  if (existing.builtIn) {
+    return { ok: false, status: 409, error: "Built-in permission roles cannot be deleted." };
+  }
+  // Removing the last role from an account would silently restore full access, so roles in use stay.
+  if (existing.assignedCount > 0) {
+    return {
+      ok: false,
+      status: 409,
+      error: `${existing.name} is still assigned to ${existing.assignedCount} IT Admin account(s). Reassign them first.`,
+    };
+  }
+  await db.execute("DELETE FROM it_admin_permission_roles WHERE role_id = ?", [roleId]);
+  await writeSecurityAuditLog(db, {
+    action: "permission_role_deleted",
+    userId: actor.userId,
+    targetModule: "it_admin_permissions",
+    targetRecordId: roleId,
+    ipAddress: actor.ipAddress,
+    details: { name: existing.name, permissions: existing.permissions },
+  });
+  return { ok: true, value: null };
+}
+
+export async function getUserPermissionAssignment(db: DbConnection, userId: number): Promise<UserPermissionAssignment> {
+  await ensurePermissionRoleSchema(db);
+  const [rows] = await db.execute<PermissionRoleRow[]>(
+    `SELECT r.role_id, r.role_key, r.name, r.description, r.permissions, r.is_built_in, r.updated_at
+       FROM it_admin_permission_grants g
+       JOIN it_admin_permission_roles r ON r.role_id = g.role_id
+      WHERE g.user_id = ?`,
+    [userId],
+  );
+  const roles = rows.map(mapRole);
+  return {
+    userId,
+    roleIds: roles.map((role) => role.roleId),
+    permissions: [...resolveGrantedPermissions(roles)],
+    unrestricted: roles.length === 0,
+  };
+}
+
+/** Permissions `requireItAdmin` evaluates for an authenticated IT Admin. */
+export async function resolveItAdminPermissions(db: DbConnection, userId: number): Promise<Set<ItAdminPermission>> {
+  const assignment = await getUserPermissionAssignment(db, userId);
+  return new Set(assignment.permissions);
+}
+
+export async function setUserPermissionRoles(
+  db: DbConnection,
+  userId: number,
+  roleIds: number[],
+  actor: PermissionActor,
+): Promise<PermissionChangeResult<UserPermissionAssignment>> {
+  const uniqueRoleIds = [...new Set(roleIds)];
+  if (uniqueRoleIds.length === 0) {
+    return { ok: false, status: 400, error: "Assign at least one permission role." };
+  }
+  const roles = await listPermissionRoles(db);
+  const selected = roles.filter((role) => uniqueRoleIds.includes(role.roleId));
+  if (selected.length !== uniqueRoleIds.length) {
+    return { ok: false, status: 400, error: "One or more permission roles no longer exist." };
+  }
+  const granted = resolveGrantedPermissions(selected);
+  if (userId === actor.userId && !granted.has("it_admin:accounts.manage")) {
+    return { ok: false, status: 409, error: "You cannot remove your own permission to manage accounts." };
+  }
+
+  const previous = await getUserPermissionAssignment(db, userId);
+  const refusal = checkPermissionDelegation(
+    await resolveItAdminPermissions(db, actor.userId),
+    [...granted],
+    previous.permissions,
+  );
+  if (refusal) {
+    return { ok: false, status: 403, error: refusal };
+  }
+  await db.beginTransaction();
+  try {
+    await db.execute("DELETE FROM it_admin_permission_grants WHERE user_id = ?", [userId]);
+    for (const role of selected) {
+      await db.execute(
+        "INSERT INTO it_admin_permission_grants (user_id, role_id, granted_by) VALUES (?, ?, ?)",
+        [userId, role.roleId, String(actor.userId)],
+      );
+    }
+    await db.commit();
+  } catch (error) {
+    await db.rollback();
+    throw error;
+  }
+  await writeSecurityAuditLog(db, {
+    action: "permission_roles_assigned",
+    userId: actor.userId,
+    targetModule: "it_admin_permissions",
+    targetRecordId: userId,
+    ipAddress: actor.ipAddress,
+    details: {
+      previousRoleIds: previous.roleIds,
+      roleIds: selected.map((role) => role.roleId),
+      roles: selected.map((role) => role.name),
+      permissions: [...granted],
+    },
+  });
+  return { ok: true, value: await getUserPermissionAssignment(db, userId) };
+}
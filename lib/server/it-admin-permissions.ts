@@ -45,3 +45,106 @@ export function normalizeRequestedItAdminPermission(
   }
   return permission as ItAdminPermission;
 }
+
+export const IT_ADMIN_PERMISSIONS: readonly ItAdminPermission[] = [...IT_ADMIN_PERMISSION_SET];
+
+export const IT_ADMIN_PERMISSION_LABELS: Record<ItAdminPermission, string> = {
+  "it_admin:accounts.manage": "Manage accounts",
+  "it_admin:data.archive": "Archive records",
+  "it_admin:data.restore": "Restore records",
+  "it_admin:data.delete": "Permanently delete records",
+  "it_admin:dashboard.view": "View dashboard",
+  "it_admin:logs.view": "View logs",
+  "it_admin:profile.manage": "Manage own profile",
+  "it_admin:content.manage": "Manage content",
+  "it_admin:maintenance.execute": "Run maintenance",
+};
+
+export type BuiltInPermissionRole = {
+  key: string;
+  name: string;
+  description: string;
+  permissions: ItAdminPermission[];
+};
+
+/** Seeded on first use; "Full Access" cannot be edited so there is always a role able to manage accounts. */
+export const BUILT_IN_PERMISSION_ROLES: readonly BuiltInPermissionRole[] = [
+  {
+    key: "full_access",
+    name: "Full Access",
+    description: "Every IT Admin permission.",
+    permissions: [...IT_ADMIN_PERMISSIONS],
+  },
+  {
+    key: "accounts_clerk",
+    name: "Accounts Clerk",
+    description: "Creates and maintains user accounts.",
+    permissions: ["it_admin:accounts.manage", "it_admin:dashboard.view", "it_admin:profile.manage"],
+  },
+  {
+    key: "data_steward",
+    name: "Data Steward",
+    description: "Archives, restores and purges records.",
+    permissions: [
+      "it_admin:data.archive",
+      "it_admin:data.restore",
+      "it_admin:data.delete",
+      "it_admin:dashboard.view",
+      "it_admin:logs.view",
+      "it_admin:profile.manage",
+    ],
+  },
+];
+
+export function isItAdminPermission(value: unknown): value is ItAdminPermission {
+  return typeof value === "string" && IT_ADMIN_PERMISSION_SET.has(value as ItAdminPermission);
+}
+
+/** Keeps known permissions only, deduplicated and in catalogue order. */
+export function sanitizePermissionList(values: unknown): ItAdminPermission[] {
+  if (!Array.isArray(values)) {
+    return [];
+  }
+  const requested = new Set(values.filter(isItAdminPermission));
+  return IT_ADMIN_PERMISSIONS.filter((permission) => requested.has(permission));
+}
+
+/**
+ * Union of the permissions carried by the assigned roles. An IT Admin with no
+ * assignment keeps every permission, so existing accounts are not locked out
+ * before anyone has been given a role.
+ */
+export function resolveGrantedPermissions(
+  assignedRoles: ReadonlyArray<{ permissions: readonly ItAdminPermission[] }>,
+): Set<ItAdminPermission> {
+  if (assignedRoles.length === 0) {
+    return new Set(IT_ADMIN_PERMISSIONS);
+  }
+  const granted = new Set<ItAdminPermission>();
+  for (const role of assignedRoles) {
+    role.permissions.forEach((permission) => granted.add(permission));
+  }
+  return granted;
+}
+
+/**
+ * An IT Admin may only hand out permissions they hold themselves, and may only
+ * reshape access that is already within their own. Returns the refusal message,
+ * or null when the change is allowed.
+ */
+export function checkPermissionDelegation(
+  actorPermissions: ReadonlySet<ItAdminPermission>,
+  requested: readonly ItAdminPermission[],
+  affected: readonly ItAdminPermission[] = [],
+): string | null {
+  const beyondActor = IT_ADMIN_PERMISSIONS.filter(
+    (permission) => !actorPermissions.has(permission) && (requested.includes(permission) || affected.includes(permission)),
+  );
+  if (beyondActor.length === 0) {
+    return null;
+  }
+  const labels = beyondActor.map((permission) => IT_ADMIN_PERMISSION_LABELS[permission]).join(", ");
+  return requested.some((permission) => beyondActor.includes(permission))
+    ? `You cannot grant permissions you do not hold: ${labels}.`
+    : `You cannot change access that includes permissions you do not hold: ${labels}.`;
+}
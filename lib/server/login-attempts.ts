@@ -0,0 +1,404 @@
+import type { Connection, PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { writeSecurityAuditLog } from "@/lib/server/security-audit";
+
+type DbConnection = Connection | PoolConnection;
+
+export type LoginAttemptSource = "login" | "probe";
+export type LockoutScope = "account" | "ip";
+
+/**
+ * Failures count inside a rolling window and reset on a successful sign-in,
+ * an expired lockout or an IT Admin unlock. `probe` attempts come from the
+ * live credential check on the login form, which runs while the user types.
+ * They are counted apart from sign-ins: past `probeAccountLimit` the check
+ * stops answering for that account until the window passes, but only real
+ * sign-in failures open an account lockout. The IP limit is set well above
+ * one user's worth of typos, since a whole school can share one address
+ * behind NAT.
+ */
+export const LOGIN_THROTTLE_POLICY = {
+  windowMinutes: 15,
+  accountLockoutThreshold: 5,
+  ipLockoutThreshold: 100,
+  probeAccountLimit: 10,
+  probeIpLimit: 200,
+  lockoutMinutes: 15,
+  backoffStartsAfter: 2,
+  maxBackoffSeconds: 30,
+} as const;
+
+export type LoginThrottlePolicy = typeof LOGIN_THROTTLE_POLICY;
+
+export type LoginThrottleState = {
+  lockedUntil: Date | null;
+  /** Which lockout `lockedUntil` comes from; defaults to the account. */
+  lockScope?: LockoutScope;
+  failures: number;
+  lastFailureAt: Date | null;
+};
+
+export type LoginThrottleDecision =
+  | { allowed: true }
+  | { allowed: false; reason: "locked"; scope: LockoutScope; retryAfterSeconds: number; lockedUntil: string }
+  | { allowed: false; reason: "backoff"; retryAfterSeconds: number; lockedUntil: null };
+
+export type LoginAttemptSubject = {
+  accountKey: string;
+  userId: number | null;
+  ipAddress: string | null;
+};
+
+export type LoginLockout = {
+  lockoutId: number;
+  scope: LockoutScope;
+  scopeKey: string;
+  userId: number | null;
+  email: string | null;
+  displayName: string | null;
+  ipAddress: string | null;
+  failureCount: number;
+  lockedAt: string | null;
+  lockedUntil: string | null;
+  unlockedAt: string | null;
+  unlockedBy: string | null;
+  active: boolean;
+};
+
+let schemaReady = false;
+
+/** Accounts are keyed by user id when the identifier resolved to a user, otherwise by the identifier typed in. */
+export function buildLoginAccountKey(userId: number | null, identifier: string): string {
+  if (userId !== null && Number.isFinite(userId)) {
+    return `user:${userId}`;
+  }
+  return `identifier:${identifier.trim().toLowerCase().slice(0, 200)}`;
+}
+
+export function computeBackoffSeconds(failures: number, policy: LoginThrottlePolicy = LOGIN_THROTTLE_POLICY): number {
+  if (failures < policy.backoffStartsAfter) {
+    return 0;
+  }
+  return Math.min(policy.maxBackoffSeconds, 2 ** (failures - policy.backoffStartsAfter));
+}
+
+export function evaluateLoginThrottle(
+  state: LoginThrottleState,
+  now: Date = new Date(),
+  policy: LoginThrottlePolicy = LOGIN_THROTTLE_POLICY,
+): LoginThrottleDecision {
+  if (state.lockedUntil && state.lockedUntil.getTime() > now.getTime()) {
+    return {
+      allowed: false,
+      reason: "locked",
+      scope: state.lockScope ?? "account",
+      retryAfterSeconds: Math.ceil((state.lockedUntil.getTime() - now.getTime()) / 1000),
+      lockedUntil: state.lockedUntil.toISOString(),
+    };
+  }
+
+  const backoffSeconds = computeBackoffSeconds(state.failures, policy);
+  if (backoffSeconds > 0 && state.lastFailureAt) {
+    const waitMs = state.lastFailureAt.getTime() + backoffSeconds * 1000 - now.getTime();
+    if (waitMs > 0) {
+      return { allowed: false, reason: "backoff", retryAfterSeconds: Math.ceil(waitMs / 1000), lockedUntil: null };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/** Probes never back off or lock the account; they stop once the account's probe limit is used up. */
+export function evaluateProbeThrottle(
+  state: Pick<LoginThrottleState, "failures" | "lastFailureAt">,
+  now: Date = new Date(),
+  policy: LoginThrottlePolicy = LOGIN_THROTTLE_POLICY,
+): LoginThrottleDecision {
+  if (state.failures < policy.probeAccountLimit || !state.lastFailureAt) {
+    return { allowed: true };
+  }
+  const waitMs = state.lastFailureAt.getTime() + policy.windowMinutes * 60 * 1000 - now.getTime();
+  if (waitMs <= 0) {
+    return { allowed: true };
+  }
+  return { allowed: false, reason: "backoff", retryAfterSeconds: Math.ceil(waitMs / 1000), lockedUntil: null };
+}
+
+export function describeThrottleDecision(decision: Exclude<LoginThrottleDecision, { allowed: true }>): string {
+  if (decision.reason === "locked") {
+    const minutes = Math.max(1, Math.ceil(decision.retryAfterSeconds / 60));
+    const duration = `${minutes} more minute${minutes === 1 ? "" : "s"}`;
+    if (decision.scope === "ip") {
+      return `Too many failed sign-in attempts from this network. Sign-in from here is paused for ${duration}. Contact your IT Admin to lift it sooner.`;
+    }
+    return `Too many failed sign-in attempts. This account is locked for ${duration}. Contact your IT Admin to unlock it sooner.`;
+  }
+  return `Too many failed sign-in attempts. Please wait ${decision.retryAfterSeconds} second${decision.retryAfterSeconds === 1 ? "" : "s"} and try again.`;
+}
+
+async function ensureLoginAttemptSchema(db: DbConnection): Promise<void> {
+  if (schemaReady) {
+    return;
+  }
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS login_attempts (
+      attempt_id BIGINT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      account_key VARCHAR(220) NOT NULL,
+      user_id INT NULL,
+      ip_address VARCHAR(45) NULL,
+      source ENUM('login','probe') NOT NULL DEFAULT 'login',
+      succeeded TINYINT(1) NOT NULL DEFAULT 0,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_login_attempts_account (account_key, created_at),
+      INDEX idx_login_attempts_ip (ip_address, created_at)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+  `);
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS login_lockouts (
+      lockout_id BIGINT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      scope ENUM('account','ip') NOT NULL,
+      scope_key VARCHAR(220) NOT NULL,
+      user_id INT NULL,
+      ip_address VARCHAR(45) NULL,
+      failure_count INT NOT NULL DEFAULT 0,
+      locked_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      locked_until DATETIME NOT NULL,
+      unlocked_at DATETIME NULL,
+      unlocked_by VARCHAR(100) NULL,
+      INDEX idx_login_lockouts_scope (scope, scope_key, locked_until),
+      INDEX idx_login_lockouts_locked_at (locked_at)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+  `);
+  schemaReady = true;
+}
+
+const toDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const parsed = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+async function findActiveLockout(db: DbConnection, scope: LockoutScope, scopeKey: string): Promise<Date | null> {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT MAX(locked_until) AS locked_until
+     FROM login_lockouts
+     WHERE scope = ? AND scope_key = ? AND unlocked_at IS NULL AND locked_until > NOW()`,
+    [scope, scopeKey],
+  );
+  return toDate(rows[0]?.locked_until);
+}
+
+/**
+ * Failures of one source since the last reset point. Account counters reset
+ * on a successful sign-in; IP counters do not, so an attacker cannot clear
+ * them by signing in to an account of their own.
+ */
+async function countRecentFailures(
+  db: DbConnection,
+  scope: LockoutScope,
+  scopeKey: string,
+  source: LoginAttemptSource,
+): Promise<{ failures: number; lastFailureAt: Date | null }> {
+  const column = scope === "account" ? "account_key" : "ip_address";
+  const successReset =
+    scope === "account"
+      ? `AND a.created_at > COALESCE(
+           (SELECT MAX(s.created_at) FROM login_attempts s WHERE s.account_key = a.account_key AND s.succeeded = 1),
+           '1970-01-01')`
+      : "";
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT COUNT(*) AS failures, MAX(a.created_at) AS last_failure_at
+     FROM login_attempts a
+     WHERE a.${column} = ?
+       AND a.source = ?
+       AND a.succeeded = 0
+       AND a.created_at >= NOW() - INTERVAL ${LOGIN_THROTTLE_POLICY.windowMinutes} MINUTE
+       ${successReset}
+       AND a.created_at > COALESCE(
+         (SELECT MAX(GREATEST(l.locked_at, COALESCE(l.unlocked_at, l.locked_at)))
+          FROM login_lockouts l WHERE l.scope = ? AND l.scope_key = ?),
+         '1970-01-01')`,
+    [scopeKey, source, scope, scopeKey],
+  );
+  return {
+    failures: Number(rows[0]?.failures ?? 0),
+    lastFailureAt: toDate(rows[0]?.last_failure_at),
+  };
+}
+
+export async function checkLoginThrottle(
+  db: DbConnection,
+  subject: LoginAttemptSubject,
+  source: LoginAttemptSource = "login",
+): Promise<LoginThrottleDecision> {
+  await ensureLoginAttemptSchema(db);
+
+  const accountLock = await findActiveLockout(db, "account", subject.accountKey);
+  if (accountLock) {
+    return evaluateLoginThrottle({ lockedUntil: accountLock, lockScope: "account", failures: 0, lastFailureAt: null });
+  }
+  const ipLock = subject.ipAddress ? await findActiveLockout(db, "ip", subject.ipAddress) : null;
+  if (ipLock) {
+    return evaluateLoginThrottle({ lockedUntil: ipLock, lockScope: "ip", failures: 0, lastFailureAt: null });
+  }
+
+  const recent = await countRecentFailures(db, "account", subject.accountKey, source);
+  if (source === "probe") {
+    return evaluateProbeThrottle(recent);
+  }
+  return evaluateLoginThrottle({ lockedUntil: null, ...recent });
+}
+
+async function openLockout(
+  db: DbConnection,
+  scope: LockoutScope,
+  subject: LoginAttemptSubject,
+  failureCount: number,
+): Promise<Date> {
+  const scopeKey = scope === "account" ? subject.accountKey : (subject.ipAddress as string);
+  const [result] = await db.execute<ResultSetHeader>(
+    `INSERT INTO login_lockouts (scope, scope_key, user_id, ip_address, failure_count, locked_at, locked_until)
+     VALUES (?, ?, ?, ?, ?, NOW(), NOW() + INTERVAL ${LOGIN_THROTTLE_POLICY.lockoutMinutes} MINUTE)`,
+    [scope, scopeKey, subject.userId, subject.ipAddress, failureCount],
+  );
+  const [rows] = await db.execute<RowDataPacket[]>(
+    "SELECT locked_until FROM login_lockouts WHERE lockout_id = ? LIMIT 1",
+    [result.insertId],
+  );
+
+  await writeSecurityAuditLog(db, {
+    action: "login_lockout",
+    userId: subject.userId ?? "unknown",
+    targetModule: "authentication",
+    targetRecordId: result.insertId,
+    ipAddress: subject.ipAddress,
+    details: { scope, scopeKey, failureCount, lockoutMinutes: LOGIN_THROTTLE_POLICY.lockoutMinutes },
+  });
+
+  return toDate(rows[0]?.locked_until) ?? new Date(Date.now() + LOGIN_THROTTLE_POLICY.lockoutMinutes * 60 * 1000);
+}
+
+/**
+ * Records a failed attempt and opens a lockout when a threshold is reached.
+ * Returns the decision the caller should apply to the next attempt.
+ */
+export async function recordLoginFailure(
+  db: DbConnection,
+  subject: LoginAttemptSubject,
+  source: LoginAttemptSource = "login",
+): Promise<LoginThrottleDecision> {
+  await ensureLoginAttemptSchema(db);
+  await db.execute(
+    "INSERT INTO login_attempts (account_key, user_id, ip_address, source, succeeded) VALUES (?, ?, ?, ?, 0)",
+    [subject.accountKey, subject.userId, subject.ipAddress, source],
+  );
+
+  if (subject.ipAddress) {
+    const ipThreshold =
+      source === "probe" ? LOGIN_THROTTLE_POLICY.probeIpLimit : LOGIN_THROTTLE_POLICY.ipLockoutThreshold;
+    const ipFailures = await countRecentFailures(db, "ip", subject.ipAddress, source);
+    if (ipFailures.failures >= ipThreshold) {
+      const lockedUntil = await openLockout(db, "ip", subject, ipFailures.failures);
+      return evaluateLoginThrottle({ lockedUntil, lockScope: "ip", failures: 0, lastFailureAt: null });
+    }
+  }
+
+  const recent = await countRecentFailures(db, "account", subject.accountKey, source);
+  if (source === "probe") {
+    return evaluateProbeThrottle(recent);
+  }
+  if (recent.failures >= LOGIN_THROTTLE_POLICY.accountLockoutThreshold) {
+    const lockedUntil = await openLockout(db, "account", subject, recent.failures);
+    return evaluateLoginThrottle({ lockedUntil, lockScope: "account", failures: 0, lastFailureAt: null });
+  }
+  return evaluateLoginThrottle({ lockedUntil: null, ...recent });
+}
+
+export async function recordLoginSuccess(
+  db: DbConnection,
+  subject: LoginAttemptSubject,
+  source: LoginAttemptSource = "login",
+): Promise<void> {
+  await ensureLoginAttemptSchema(db);
+  await db.execute(
+    "INSERT INTO login_attempts (account_key, user_id, ip_address, source, succeeded) VALUES (?, ?, ?, ?, 1)",
+    [subject.accountKey, subject.userId, subject.ipAddress, source],
+  );
+}
+
+export async function listLoginLockouts(
+  db: DbConnection,
+  options: { start: string; end: string; limit?: number },
+): Promise<LoginLockout[]> {
+  await ensureLoginAttemptSchema(db);
+  const limit = Math.min(Math.max(Math.floor(options.limit ?? 50), 1), 200);
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT l.*, u.email,
+            NULLIF(TRIM(CONCAT_WS(' ', u.first_name, u.last_name)), '') AS display_name,
+            (l.unlocked_at IS NULL AND l.locked_until > NOW()) AS is_active
+     FROM login_lockouts l
+     LEFT JOIN users u ON u.user_id = l.user_id
+     WHERE l.locked_at BETWEEN ? AND ?
+     ORDER BY l.locked_at DESC
+     LIMIT ${limit}`,
+    [options.start, options.end],
+  );
+  return rows.map((row) => ({
+    lockoutId: Number(row.lockout_id),
+    scope: row.scope as LockoutScope,
+    scopeKey: String(row.scope_key),
+    userId: row.user_id === null ? null : Number(row.user_id),
+    email: row.email ? String(row.email) : null,
+    displayName: row.display_name ? String(row.display_name) : null,
+    ipAddress: row.ip_address ? String(row.ip_address) : null,
+    failureCount: Number(row.failure_count ?? 0),
+    lockedAt: toDate(row.locked_at)?.toISOString() ?? null,
+    lockedUntil: toDate(row.locked_until)?.toISOString() ?? null,
+    unlockedAt: toDate(row.unlocked_at)?.toISOString() ?? null,
+    unlockedBy: row.unlocked_by ? String(row.unlocked_by) : null,
+    active: Number(row.is_active) === 1,
+  }));
+}
+
+export async function countLockoutsByDay(
+  db: DbConnection,
+  start: string,
+  end: string,
+): Promise<Array<{ key: string; value: number }>> {
+  await ensureLoginAttemptSchema(db);
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT DATE_FORMAT(locked_at, '%Y-%m-%d') AS bucket_key, COUNT(*) AS metric_value
+     FROM login_lockouts
+     WHERE locked_at BETWEEN ? AND ?
+     GROUP BY bucket_key
+     ORDER BY bucket_key ASC`,
+    [start, end],
+  );
+  return rows.map((row) => ({ key: String(row.bucket_key), value: Number(row.metric_value ?? 0) }));
+}
+
+/** Ends an active lockout early. Returns false when it had already ended. */
+export async function unlockLoginLockout(
+  db: DbConnection,
+  lockoutId: number,
+  unlockedBy: string | number,
+  ipAddress: string | null,
+): Promise<boolean> {
+  await ensureLoginAttemptSchema(db);
+  const [result] = await db.execute<ResultSetHeader>(
+    `UPDATE login_lockouts
+     SET unlocked_at = NOW(), unlocked_by = ?
+     WHERE lockout_id = ? AND unlocked_at IS NULL AND locked_until > NOW()`,
+    [String(unlockedBy), lockoutId],
+  );
+  if (result.affectedRows === 0) {
+    return false;
+  }
+  await writeSecurityAuditLog(db, {
+    action: "login_lockout_unlocked",
+    userId: unlockedBy,
+    targetModule: "authentication",
+    targetRecordId: lockoutId,
+    ipAddress,
+  });
+  return true;
+}
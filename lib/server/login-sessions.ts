@@ -0,0 +1,114 @@
+import type { Connection, PoolConnection } from "mysql2/promise";
+import { randomBytes } from "crypto";
+import { buildParentSessionCookie, createParentSession } from "@/lib/server/parent-session";
+import { buildAdminSessionCookie, createAdminSession } from "@/lib/server/admin-session";
+import { buildPrincipalSessionCookie, createPrincipalSession } from "@/lib/server/principal-session";
+import { buildMasterTeacherSessionCookie, createMasterTeacherSession } from "@/lib/server/master-teacher-session";
+import { buildTeacherSessionCookie, createTeacherSession } from "@/lib/server/teacher-session";
+import { resolveMasterTeacherId, resolvePrincipalId, resolveTeacherId } from "@/lib/server/role-record-ids";
+import { stampSessionIp, touchTrustedDevice } from "@/lib/server/device-sessions";
+import {
+  normalizeRoleName,
+  resolveCanonicalRole,
+  resolvePortalPath,
+  resolveUserRole,
+  type UserRoleSource,
+} from "@/lib/server/role-resolution";
+
+type DbConnection = Connection | PoolConnection;
+
+export type LoginRole = {
+  normalizedRole: string;
+  canonicalRole: string;
+  responseRole: string | null;
+  redirectPath: string;
+};
+
+export type LoginSessionResult = { ok: true; cookies: string[] } | { ok: false; status: number; error: string };
+
+export async function resolveLoginRole(db: DbConnection, user: UserRoleSource): Promise<LoginRole> {
+  const resolvedRole = await resolveUserRole(db, user);
+  const roleForLogic = resolvedRole ?? user.role ?? null;
+  const normalizedRole = normalizeRoleName(roleForLogic);
+  const canonicalRole = resolveCanonicalRole(normalizedRole);
+  return {
+    normalizedRole,
+    canonicalRole,
+    responseRole: canonicalRole || normalizedRole || roleForLogic,
+    redirectPath: resolvePortalPath(canonicalRole || normalizedRole),
+  };
+}
+
+/** Remembers the device so the next password sign-in from it skips the second factor. */
+export async function trustLoginDevice(
+  db: DbConnection,
+  userId: number,
+  deviceName: string | null,
+  ipAddress: string | null,
+): Promise<string> {
+  const deviceToken = randomBytes(32).toString("hex");
+  const computedDeviceName = deviceName && deviceName.trim().length > 0 ? deviceName : "Unnamed Device";
+
+  await db.execute(
+    "INSERT INTO trusted_devices (user_id, device_token, device_name) VALUES (?, ?, ?)",
+    [userId, deviceToken, computedDeviceName],
+  );
+  await touchTrustedDevice(db, userId, { deviceToken }, ipAddress);
+  return deviceToken;
+}
+
+/** Creates the portal session for the signed-in role once the device is trusted or the second factor is passed. */
+export async function createLoginSessions(
+  db: DbConnection,
+  userId: number,
+  role: LoginRole,
+  deviceName: string | null,
+  ipAddress: string | null,
+): Promise<LoginSessionResult> {
+  const { normalizedRole, canonicalRole } = role;
+  const cookies: string[] = [];
+
+  if (normalizedRole === "parent") {
+    const { token, expiresAt } = await createParentSession(db, userId, deviceName);
+    cookies.push(buildParentSessionCookie(token, expiresAt));
+    await stampSessionIp(db, "parent", token, ipAddress);
+  }
+
+  if (canonicalRole === "it_admin") {
+    const { token, expiresAt } = await createAdminSession(db, userId, deviceName);
+    cookies.push(buildAdminSessionCookie(token, expiresAt));
+    await stampSessionIp(db, "it_admin", token, ipAddress);
+  }
+
+  if (canonicalRole === "principal") {
+    const principalId = await resolvePrincipalId(db, userId);
+    if (!principalId) {
+      return { ok: false, status: 403, error: "Principal record not found" };
+    }
+    const { token, expiresAt } = await createPrincipalSession(db, principalId, userId, deviceName);
+    cookies.push(buildPrincipalSessionCookie(token, expiresAt));
+    await stampSessionIp(db, "principal", token, ipAddress);
+  }
+
+  if (canonicalRole === "master_teacher" || canonicalRole === "masterteacher") {
+    const masterTeacherId = await resolveMasterTeacherId(db, userId);
+    if (!masterTeacherId) {
+      return { ok: false, status: 403, error: "Master teacher record not found" };
+    }
+    const { token, expiresAt } = await createMasterTeacherSession(db, masterTeacherId, userId, deviceName);
+    cookies.push(buildMasterTeacherSessionCookie(token, expiresAt));
+    await stampSessionIp(db, "master_teacher", token, ipAddress);
+  }
+
+  if (canonicalRole === "teacher") {
+    const teacherId = await resolveTeacherId(db, userId);
+    if (!teacherId) {
+      return { ok: false, status: 403, error: "Teacher record not found" };
+    }
+    const { token, expiresAt } = await createTeacherSession(db, teacherId, userId, deviceName);
+    cookies.push(buildTeacherSessionCookie(token, expiresAt));
+    await stampSessionIp(db, "teacher", token, ipAddress);
+  }
+
+  return { ok: true, cookies };
+}
@@ -0,0 +1,52 @@
+import { query } from "@/lib/db";
+
+export const PARENT_NOTIFICATIONS_TABLE = "parent_notifications";
+
+let ensureTablePromise: Promise<void> | null = null;
+
+const ensureParentNotificationsTable = async () => {
+  if (!ensureTablePromise) {
+    ensureTablePromise = query(
+      `CREATE TABLE IF NOT EXISTS ${PARENT_NOTIFICATIONS_TABLE} (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+        student_id VARCHAR(20) NOT NULL,
+        subject VARCHAR(100) NOT NULL,
+        date DATE NOT NULL,
+        message TEXT NOT NULL,
+        status ENUM('unread', 'read') NOT NULL DEFAULT 'unread',
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (id),
+        UNIQUE KEY uniq_parent_notification (student_id, subject, date),
+        KEY idx_parent_notification_student (student_id),
+        KEY idx_parent_notification_status (status)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;`,
+    )
+      .then(() => undefined)
+      .catch((error) => {
+        ensureTablePromise = null;
+        throw error;
+      });
+  }
+
+  await ensureTablePromise;
+};
+
+/**
+ * Posts one unread notification to the parents of a student. The table keeps one row per
+ * student, subject label and day, so a second message for the same day replaces the first.
+ */
+export async function upsertParentNotification(entry: {
+  studentId: string;
+  subject: string;
+  date: string;
+  message: string;
+}): Promise<void> {
+  await ensureParentNotificationsTable();
+  await query(
+    `INSERT INTO ${PARENT_NOTIFICATIONS_TABLE} (student_id, subject, date, message, status)
+     VALUES (?, ?, ?, ?, 'unread')
+     ON DUPLICATE KEY UPDATE message = VALUES(message), status = 'unread', updated_at = CURRENT_TIMESTAMP`,
+    [entry.studentId, entry.subject, entry.date, entry.message],
+  );
+}
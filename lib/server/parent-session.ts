@@ -191,6 +191,16 @@ export async function revokeParentSession(
   return Number(record.user_id);
 }
 
+export async function revokeParentSessionById(
+  db: Connection | PoolConnection,
+  sessionId: number,
+): Promise<void> {
+  await ensureParentSessionSchema(db);
+  await db.execute("UPDATE parent_sessions SET revoked_at = NOW() WHERE session_id = ? AND revoked_at IS NULL", [
+    sessionId,
+  ]);
+}
+
 export async function getParentSessionFromCookies(): Promise<ParentSessionRecord | null> {
   const cookieStore = await cookies();
   const cookie = cookieStore.get(SESSION_COOKIE_NAME);
@@ -0,0 +1,257 @@
+import type { Connection, PoolConnection, RowDataPacket } from "mysql2/promise";
+import {
+  buildRestoreAssignments,
+  isWithinCascadeWindow,
+  modeFlagColumn,
+  modeTimeColumn,
+  type RecoveryDependency,
+  type RecoveryEntityConfig,
+} from "@/lib/server/recovery-center";
+
+type DbConnection = Connection | PoolConnection;
+
+type RecoveryId = string | number;
+
+export type RecoveryRoot = {
+  id: RecoveryId;
+  occurredAt: Date | null;
+};
+
+export type RecoveryCascadeGroup = {
+  key: string;
+  label: string;
+  table: string;
+  /** Entity key for first-level dependents, otherwise the key of the parent group. */
+  parentKey: string;
+  /** False when the table is missing the id, link or recovery flag column. */
+  available: boolean;
+  ids: RecoveryId[];
+  /** Parent row of each entry in `ids`, in the same order. */
+  parentIds: RecoveryId[];
+};
+
+export type RecoveryConflict = {
+  id: RecoveryId;
+  field: string;
+  value: string;
+  conflictingId: RecoveryId;
+};
+
+export type RecoveryClosureResult = {
+  restoredIds: RecoveryId[];
+  dependents: Array<{ key: string; table: string; restoredIds: RecoveryId[] }>;
+};
+
+async function loadColumns(db: DbConnection, table: string): Promise<Set<string>> {
+  try {
+    const [rows] = await db.query<RowDataPacket[]>(`SHOW COLUMNS FROM \`${table}\``);
+    return new Set(rows.map((row) => String(row.Field)));
+  } catch {
+    return new Set();
+  }
+}
+
+function toMillis(value: unknown): number | null {
+  if (!value) {
+    return null;
+  }
+  const parsed = new Date(value as string | Date).getTime();
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function isDependencyAvailable(dependency: RecoveryDependency, columns: Set<string>): boolean {
+  return (
+    columns.has(dependency.idColumn) &&
+    columns.has(dependency.foreignKey) &&
+    columns.has(modeFlagColumn(dependency.mode))
+  );
+}
+
+/**
+ * Walks the entity's dependency graph and returns, per group, the flagged rows that belong to
+ * the given roots' cascade. Children inherit the flag time of the root they hang from.
+ */
+export async function collectRecoveryCascade(
+  db: DbConnection,
+  entity: RecoveryEntityConfig,
+  roots: RecoveryRoot[],
+): Promise<RecoveryCascadeGroup[]> {
+  const groups: RecoveryCascadeGroup[] = [];
+
+  const walk = async (
+    dependents: RecoveryDependency[],
+    parentKey: string,
+    parents: Array<{ id: RecoveryId; rootFlaggedAt: number | null }>,
+  ) => {
+    for (const dependency of dependents) {
+      const columns = await loadColumns(db, dependency.table);
+      const available = isDependencyAvailable(dependency, columns);
+      const found: Array<{ id: RecoveryId; parentId: RecoveryId; rootFlaggedAt: number | null }> = [];
+
+      if (available && parents.length > 0) {
+        const flaggedAtByParent = new Map(parents.map((parent) => [String(parent.id), parent.rootFlaggedAt]));
+        const timeColumn = modeTimeColumn(dependency.mode);
+        const placeholders = parents.map(() => "?").join(", ");
+        const [rows] = await db.query<RowDataPacket[]>(
+          `SELECT \`${dependency.idColumn}\` AS id,
+                  \`${dependency.foreignKey}\` AS parent_id,
+                  ${columns.has(timeColumn) ? `\`${timeColumn}\`` : "NULL"} AS flagged_at
+           FROM \`${dependency.table}\`
+           WHERE \`${dependency.foreignKey}\` IN (${placeholders})
+             AND \`${modeFlagColumn(dependency.mode)}\` = 1`,
+          parents.map((parent) => parent.id),
+        );
+        for (const row of rows) {
+          const rootFlaggedAt = flaggedAtByParent.get(String(row.parent_id)) ?? null;
+          if (isWithinCascadeWindow(rootFlaggedAt, toMillis(row.flagged_at))) {
+            found.push({ id: row.id as RecoveryId, parentId: row.parent_id as RecoveryId, rootFlaggedAt });
+          }
+        }
+      }
+
+      groups.push({
+        key: dependency.key,
+        label: dependency.label,
+        table: dependency.table,
+        parentKey,
+        available,
+        ids: found.map((entry) => entry.id),
+        parentIds: found.map((entry) => entry.parentId),
+      });
+
+      if (dependency.dependents?.length) {
+        await walk(dependency.dependents, dependency.key, found);
+      }
+    }
+  };
+
+  await walk(
+    entity.dependents ?? [],
+    entity.key,
+    roots.map((root) => ({ id: root.id, rootFlaggedAt: root.occurredAt ? root.occurredAt.getTime() : null })),
+  );
+  return groups;
+}
+
+/** Values that another live record took over while these ones were deleted or archived. */
+export async function findRecoveryConflicts(
+  db: DbConnection,
+  entity: RecoveryEntityConfig,
+  columns: Set<string>,
+  ids: RecoveryId[],
+): Promise<RecoveryConflict[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+  const placeholders = ids.map(() => "?").join(", ");
+  const flagColumn = modeFlagColumn(entity.mode);
+  const conflicts: RecoveryConflict[] = [];
+
+  for (const rule of entity.conflicts ?? []) {
+    let rows: RowDataPacket[] = [];
+    if (rule.kind === "column") {
+      if (!columns.has(rule.column)) {
+        continue;
+      }
+      [rows] = await db.query<RowDataPacket[]>(
+        `SELECT r.\`${entity.idColumn}\` AS entity_id, r.\`${rule.column}\` AS value, o.\`${entity.idColumn}\` AS conflicting_id
+         FROM \`${entity.table}\` r
+         JOIN \`${entity.table}\` o
+           ON o.\`${rule.column}\` = r.\`${rule.column}\`
+          AND o.\`${entity.idColumn}\` <> r.\`${entity.idColumn}\`
+          AND COALESCE(o.\`${flagColumn}\`, 0) = 0
+         WHERE r.\`${entity.idColumn}\` IN (${placeholders})
+           AND r.\`${rule.column}\` IS NOT NULL
+           AND r.\`${rule.column}\` <> ''`,
+        ids,
+      );
+    } else {
+      const userColumns = await loadColumns(db, "users");
+      if (!columns.has("user_id") || !userColumns.has("user_id") || !userColumns.has("email")) {
+        continue;
+      }
+      [rows] = await db.query<RowDataPacket[]>(
+        `SELECT r.\`${entity.idColumn}\` AS entity_id, u.email AS value, o.user_id AS conflicting_id
+         FROM \`${entity.table}\` r
+         JOIN users u ON u.user_id = r.user_id
+         JOIN users o ON LOWER(o.email) = LOWER(u.email) AND o.user_id <> u.user_id
+         WHERE r.\`${entity.idColumn}\` IN (${placeholders})
+           AND u.email IS NOT NULL
+           AND u.email <> ''`,
+        ids,
+      );
+    }
+    for (const row of rows) {
+      conflicts.push({
+        id: row.entity_id as RecoveryId,
+        field: rule.label,
+        value: String(row.value),
+        conflictingId: row.conflicting_id as RecoveryId,
+      });
+    }
+  }
+  return conflicts;
+}
+
+function findDependency(dependents: RecoveryDependency[], key: string): RecoveryDependency | null {
+  for (const dependency of dependents) {
+    if (dependency.key === key) {
+      return dependency;
+    }
+    const nested = findDependency(dependency.dependents ?? [], key);
+    if (nested) {
+      return nested;
+    }
+  }
+  return null;
+}
+
+/** Clears the recovery flag on the roots and the chosen cascade groups in one transaction. */
+export async function restoreRecoveryClosure(
+  db: DbConnection,
+  entity: RecoveryEntityConfig,
+  columns: Set<string>,
+  rootIds: RecoveryId[],
+  groups: RecoveryCascadeGroup[],
+): Promise<RecoveryClosureResult> {
+  const rootAssignments = buildRestoreAssignments(entity.mode, columns);
+  if (rootAssignments.length === 0) {
+    throw new Error("No writable recovery columns were found on the target table.");
+  }
+
+  const pending: Array<{ dependency: RecoveryDependency; assignments: string[]; ids: RecoveryId[] }> = [];
+  for (const group of groups) {
+    const dependency = findDependency(entity.dependents ?? [], group.key);
+    if (!dependency || !group.available || group.ids.length === 0) {
+      continue;
+    }
+    const assignments = buildRestoreAssignments(dependency.mode, await loadColumns(db, dependency.table));
+    pending.push({ dependency, assignments, ids: group.ids });
+  }
+
+  const result: RecoveryClosureResult = { restoredIds: rootIds, dependents: [] };
+  await db.beginTransaction();
+  try {
+    await db.query(
+      `UPDATE \`${entity.table}\`
+       SET ${rootAssignments.join(", ")}
+       WHERE \`${entity.idColumn}\` IN (${rootIds.map(() => "?").join(", ")})`,
+      rootIds,
+    );
+    for (const { dependency, assignments, ids } of pending) {
+      await db.query(
+        `UPDATE \`${dependency.table}\`
+         SET ${assignments.join(", ")}
+         WHERE \`${dependency.idColumn}\` IN (${ids.map(() => "?").join(", ")})
+           AND \`${modeFlagColumn(dependency.mode)}\` = 1`,
+        ids,
+      );
+      result.dependents.push({ key: dependency.key, table: dependency.table, restoredIds: ids });
+    }
+    await db.commit();
+  } catch (error) {
+    await db.rollback();
+    throw error;
+  }
+  return result;
+}
@@ -1,13 +1,46 @@
 export type RecoveryMode = "deleted" | "archived" | "voided";
 
+/** Rows that were flagged together with their parent and come back with it. */
+export type RecoveryDependency = {
+  key: string;
+  label: string;
+  table: string;
+  idColumn: string;
+  /** Column on this table that points at the parent's id column. */
+  foreignKey: string;
+  mode: RecoveryMode;
+  dependents?: RecoveryDependency[];
+};
+
+/** Checks that block a restore because the value was reused while the record was gone. */
+export type RecoveryConflictRule =
+  | { kind: "column"; column: string; label: string }
+  | { kind: "user_email"; label: string };
+
 export type RecoveryEntityConfig = {
   key: string;
   table: string;
   idColumn: string;
   mode: RecoveryMode;
   defaultLabelColumns: string[];
+  dependents?: RecoveryDependency[];
+  conflicts?: RecoveryConflictRule[];
 };
 
+/** Dependents flagged up to this long before their root still count as part of the same cascade. */
+export const CASCADE_WINDOW_MS = 60_000;
+
+const PARENT_LINK_DEPENDENCY = (foreignKey: string): RecoveryDependency => ({
+  key: "parent_link",
+  label: "Parent links",
+  table: "parent_student",
+  idColumn: "parent_student_id",
+  foreignKey,
+  mode: "deleted",
+});
+
+const ACCOUNT_EMAIL_CONFLICT: RecoveryConflictRule = { kind: "user_email", label: "Email" };
+
 const ARCHIVE_BACKED_ACCOUNT_ROLES: Record<string, string[]> = {
   principal: ["principal"],
   master_teacher: ["master_teacher", "masterteacher"],
@@ -15,12 +48,50 @@ const ARCHIVE_BACKED_ACCOUNT_ROLES: Record<string, string[]> = {
 };
 
 export const RECOVERY_ENTITIES: RecoveryEntityConfig[] = [
-  { key: "student", table: "student", idColumn: "student_id", mode: "deleted", defaultLabelColumns: ["first_name", "last_name", "lrn"] },
-  { key: "principal", table: "principal", idColumn: "principal_id", mode: "deleted", defaultLabelColumns: ["principal_id"] },
-  { key: "master_teacher", table: "master_teacher", idColumn: "master_teacher_id", mode: "deleted", defaultLabelColumns: ["master_teacher_id"] },
-  { key: "teacher", table: "teacher", idColumn: "teacher_id", mode: "deleted", defaultLabelColumns: ["teacher_id"] },
-  { key: "parent", table: "parent", idColumn: "parent_id", mode: "deleted", defaultLabelColumns: ["parent_id"] },
-  { key: "activity", table: "activities", idColumn: "activity_id", mode: "archived", defaultLabelColumns: ["title", "subject", "type"] },
+  {
+    key: "student",
+    table: "student",
+    idColumn: "student_id",
+    mode: "deleted",
+    defaultLabelColumns: ["first_name", "last_name", "lrn"],
+    dependents: [
+      { key: "attendance", label: "Attendance records", table: "attendance_record", idColumn: "attendance_id", foreignKey: "student_id", mode: "voided" },
+      { key: "performance", label: "Performance records", table: "performance_records", idColumn: "record_id", foreignKey: "student_id", mode: "voided" },
+      { key: "remedial_session", label: "Remedial sessions", table: "student_remedial_session", idColumn: "session_id", foreignKey: "student_id", mode: "deleted" },
+      PARENT_LINK_DEPENDENCY("student_id"),
+    ],
+    conflicts: [{ kind: "column", column: "lrn", label: "LRN" }],
+  },
+  { key: "principal", table: "principal", idColumn: "principal_id", mode: "deleted", defaultLabelColumns: ["principal_id"], conflicts: [ACCOUNT_EMAIL_CONFLICT] },
+  { key: "master_teacher", table: "master_teacher", idColumn: "master_teacher_id", mode: "deleted", defaultLabelColumns: ["master_teacher_id"], conflicts: [ACCOUNT_EMAIL_CONFLICT] },
+  { key: "teacher", table: "teacher", idColumn: "teacher_id", mode: "deleted", defaultLabelColumns: ["teacher_id"], conflicts: [ACCOUNT_EMAIL_CONFLICT] },
+  {
+    key: "parent",
+    table: "parent",
+    idColumn: "parent_id",
+    mode: "deleted",
+    defaultLabelColumns: ["parent_id"],
+    dependents: [PARENT_LINK_DEPENDENCY("parent_id")],
+    conflicts: [ACCOUNT_EMAIL_CONFLICT],
+  },
+  {
+    key: "activity",
+    table: "activities",
+    idColumn: "activity_id",
+    mode: "archived",
+    defaultLabelColumns: ["title", "subject", "type"],
+    dependents: [
+      { key: "performance", label: "Performance records", table: "performance_records", idColumn: "record_id", foreignKey: "activity_id", mode: "voided" },
+    ],
+  },
+  {
+    key: "graduated_student",
+    table: "student",
+    idColumn: "student_id",
+    mode: "archived",
+    defaultLabelColumns: ["first_name", "last_name", "lrn", "graduated_school_year"],
+    conflicts: [{ kind: "column", column: "lrn", label: "LRN" }],
+  },
   { key: "remedial_quarter", table: "remedial_quarter", idColumn: "quarter_id", mode: "archived", defaultLabelColumns: ["quarter_name", "school_year"] },
   { key: "weekly_subject_schedule", table: "weekly_subject_schedule", idColumn: "schedule_id", mode: "archived", defaultLabelColumns: ["day_of_week"] },
   { key: "assessment", table: "assessments", idColumn: "assessment_id", mode: "archived", defaultLabelColumns: ["title", "description"] },
@@ -64,6 +135,65 @@ export function modeReasonColumn(mode: RecoveryMode): string {
   return "void_reason";
 }
 
+export function buildRestoreAssignments(mode: RecoveryMode, columns: Set<string>): string[] {
+  const assignments: string[] = [];
+  if (mode === "deleted") {
+    if (columns.has("is_deleted")) assignments.push("`is_deleted` = 0");
+    if (columns.has("deleted_at")) assignments.push("`deleted_at` = NULL");
+    if (columns.has("deleted_by")) assignments.push("`deleted_by` = NULL");
+  } else if (mode === "archived") {
+    if (columns.has("is_archived")) assignments.push("`is_archived` = 0");
+    if (columns.has("archived_at")) assignments.push("`archived_at` = NULL");
+    if (columns.has("archived_by")) assignments.push("`archived_by` = NULL");
+  } else {
+    if (columns.has("is_voided")) assignments.push("`is_voided` = 0");
+    if (columns.has("void_reason")) assignments.push("`void_reason` = NULL");
+    if (columns.has("voided_at")) assignments.push("`voided_at` = NULL");
+    if (columns.has("voided_by")) assignments.push("`voided_by` = NULL");
+  }
+  if (columns.has("updated_at")) {
+    assignments.push("`updated_at` = NOW()");
+  }
+  return assignments;
+}
+
+/**
+ * A dependent belongs to its root's cascade when it was flagged no earlier than the root
+ * (within {@link CASCADE_WINDOW_MS}); rows voided on their own beforehand stay voided.
+ */
+export function isWithinCascadeWindow(rootFlaggedAt: number | null, dependentFlaggedAt: number | null): boolean {
+  if (rootFlaggedAt === null || dependentFlaggedAt === null) {
+    return true;
+  }
+  return dependentFlaggedAt >= rootFlaggedAt - CASCADE_WINDOW_MS;
+}
+
+export function listDependencyKeys(dependents: RecoveryDependency[] = []): string[] {
+  return dependents.flatMap((dependency) => [dependency.key, ...listDependencyKeys(dependency.dependents)]);
+}
+
+/**
+ * Keeps the dependency groups the caller opted into. A group is only kept when its parent
+ * group is kept as well, so the restored closure never has children without their parent.
+ */
+export function selectCascadeKeys(
+  dependents: RecoveryDependency[] = [],
+  include: string[] | null,
+): Set<string> {
+  const selected = new Set<string>();
+  const walk = (nodes: RecoveryDependency[]) => {
+    for (const node of nodes) {
+      if (include && !include.includes(node.key)) {
+        continue;
+      }
+      selected.add(node.key);
+      walk(node.dependents ?? []);
+    }
+  };
+  walk(dependents);
+  return selected;
+}
+
 export function pickLabelColumns(columns: Set<string>, defaults: string[]): string[] {
   const picked: string[] = [];
   for (const col of defaults) {
@@ -0,0 +1,134 @@
+import type { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import {
+  DEFAULT_REVIEW_LIMIT,
+  normalizeReviewWord,
+  scheduleReview,
+  type ReviewDeckWord,
+  type ReviewWordScore,
+} from "@/lib/remedial/review-deck";
+
+type QueryParams = Array<string | number | null | undefined | Date>;
+
+type QueryExecutor = {
+  query<T extends RowDataPacket[] | ResultSetHeader>(sql: string, params?: QueryParams): Promise<[T, unknown]>;
+};
+
+type ReviewDeckRow = RowDataPacket & {
+  word?: string | null;
+  box?: number | string | null;
+  due_at?: string | Date | null;
+  last_score?: number | string | null;
+  review_count?: number | string | null;
+  lapse_count?: number | string | null;
+};
+
+/** Longest word the deck column stores; longer tokens are not worth drilling as a single card. */
+const MAX_REVIEW_WORD_LENGTH = 64;
+
+const toCount = (value: unknown): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const toReviewDeckWord = (row: ReviewDeckRow): ReviewDeckWord => ({
+  word: String(row.word ?? ""),
+  box: toCount(row.box) || 1,
+  dueAt: row.due_at instanceof Date ? row.due_at.toISOString() : String(row.due_at ?? ""),
+  lastScore: row.last_score === null || row.last_score === undefined ? null : toCount(row.last_score),
+  reviewCount: toCount(row.review_count),
+  lapseCount: toCount(row.lapse_count),
+});
+
+export async function getDueReviewWords(
+  executor: QueryExecutor,
+  studentId: string,
+  subjectId: number,
+  options: { limit?: number; now?: Date } = {},
+): Promise<ReviewDeckWord[]> {
+  const limit = Math.min(50, Math.max(1, Math.floor(options.limit ?? DEFAULT_REVIEW_LIMIT)));
+  const [rows] = await executor.query<ReviewDeckRow[]>(
+    `SELECT word, box, due_at, last_score, review_count, lapse_count
+     FROM student_review_deck
+     WHERE student_id = ? AND subject_id = ? AND due_at <= ?
+     ORDER BY box ASC, due_at ASC, word ASC
+     LIMIT ${limit}`,
+    [studentId, subjectId, options.now ?? new Date()],
+  );
+  return rows.map(toReviewDeckWord);
+}
+
+/**
+ * Moves every deck word that was scored through the Leitner boxes, and adds
+ * `newWords` the student struggled with that are not in the deck yet. Scores
+ * for words outside the deck are ignored unless the word is also new.
+ */
+export async function applyReviewScores(
+  executor: QueryExecutor,
+  studentId: string,
+  subjectId: number,
+  scores: ReviewWordScore[],
+  options: { newWords?: string[]; now?: Date } = {},
+): Promise<number> {
+  const now = options.now ?? new Date();
+  const scoreByWord = new Map<string, number>();
+  for (const item of scores) {
+    const word = normalizeReviewWord(item.word ?? "");
+    const score = Number(item.score);
+    if (!word || word.length > MAX_REVIEW_WORD_LENGTH || !Number.isFinite(score)) continue;
+    const previous = scoreByWord.get(word);
+    scoreByWord.set(word, previous === undefined ? score : Math.min(previous, score));
+  }
+  const newWords = new Set(
+    (options.newWords ?? [])
+      .map((word) => normalizeReviewWord(word))
+      .filter((word) => word && word.length <= MAX_REVIEW_WORD_LENGTH),
+  );
+
+  const candidates = Array.from(new Set([...scoreByWord.keys(), ...newWords]));
+  if (!candidates.length) return 0;
+
+  const placeholders = candidates.map(() => "?").join(", ");
+  const [existingRows] = await executor.query<ReviewDeckRow[]>(
+    `SELECT word, box, due_at, last_score, review_count, lapse_count
+     FROM student_review_deck
+     WHERE student_id = ? AND subject_id = ? AND word IN (${placeholders})`,
+    [studentId, subjectId, ...candidates],
+  );
+  const existingByWord = new Map(existingRows.map((row) => [String(row.word), toReviewDeckWord(row)]));
+
+  let updated = 0;
+  for (const word of candidates) {
+    const existing = existingByWord.get(word) ?? null;
+    const score = scoreByWord.get(word);
+    if (existing && score === undefined) continue;
+    if (!existing && !newWords.has(word)) continue;
+
+    const next = scheduleReview(existing, score ?? 0, now);
+    await executor.query<ResultSetHeader>(
+      `INSERT INTO student_review_deck
+         (student_id, subject_id, word, box, due_at, last_score, review_count, lapse_count, last_reviewed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE
+         box = VALUES(box),
+         due_at = VALUES(due_at),
+         last_score = VALUES(last_score),
+         review_count = VALUES(review_count),
+         lapse_count = VALUES(lapse_count),
+         last_reviewed_at = VALUES(last_reviewed_at)`,
+      [
+        studentId,
+        subjectId,
+        word,
+        next.box,
+        next.dueAt,
+        score === undefined ? null : next.lastScore,
+        score === undefined ? 0 : next.reviewCount,
+        next.lapseCount,
+        score === undefined ? null : now,
+      ],
+    );
+    updated += 1;
+  }
+
+  return updated;
+}
@@ -0,0 +1,18 @@
+import { timingSafeEqual } from "crypto";
+import type { NextRequest } from "next/server";
+
+/**
+ * Scheduled endpoints let an external cron job stand in for a signed-in user by sending
+ * `Authorization: Bearer <secret>`, where the secret lives in the environment variable
+ * `envName`. An unset or blank variable never matches.
+ */
+export function hasSchedulerSecret(request: NextRequest, envName: string): boolean {
+  const secret = (process.env[envName] ?? "").trim();
+  const header = request.headers.get("authorization") ?? "";
+  if (!secret || !header.startsWith("Bearer ")) {
+    return false;
+  }
+  const provided = Buffer.from(header.slice("Bearer ".length).trim());
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
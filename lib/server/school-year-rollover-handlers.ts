@@ -0,0 +1,81 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { runWithConnection } from "@/lib/db";
+import { resolveRequestIp } from "@/lib/server/security-audit";
+import {
+  DEFAULT_PHONEMIC_RULES,
+  ROLLOVER_CONFIRM_TEXT,
+  SchoolYearRolloverError,
+  currentSchoolYear,
+  listRollovers,
+  parseRolloverRequest,
+  previewSchoolYearRollover,
+  runSchoolYearRollover,
+} from "@/lib/server/school-year-rollover";
+
+/**
+ * The user a route's own guard signed in. IT admins and principals share these handlers; only
+ * the `requireItAdmin` or `requirePrincipal` check in front of them differs.
+ */
+export type RolloverActor = { userId: number };
+
+export async function handleRolloverHistory(): Promise<Response> {
+  try {
+    const history = await runWithConnection((connection) => listRollovers(connection));
+    return NextResponse.json({
+      success: true,
+      currentSchoolYear: currentSchoolYear(),
+      defaultRules: DEFAULT_PHONEMIC_RULES,
+      history,
+    });
+  } catch (error) {
+    console.error("Failed to load school-year rollovers", error);
+    return NextResponse.json({ success: false, error: "Unable to load school-year rollovers." }, { status: 500 });
+  }
+}
+
+export async function handleRolloverPreflight(request: NextRequest): Promise<Response> {
+  const parsed = parseRolloverRequest(await request.json().catch(() => null));
+  if (typeof parsed === "string") {
+    return NextResponse.json({ success: false, error: parsed }, { status: 400 });
+  }
+
+  try {
+    const report = await runWithConnection((connection) => previewSchoolYearRollover(connection, parsed));
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    if (error instanceof SchoolYearRolloverError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error("Failed to build the school-year rollover pre-flight report", error);
+    return NextResponse.json({ success: false, error: "Unable to check the school-year rollover." }, { status: 500 });
+  }
+}
+
+export async function handleRolloverRun(request: NextRequest, actor: RolloverActor): Promise<Response> {
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  if (String(body?.confirmText ?? "").trim().toUpperCase() !== ROLLOVER_CONFIRM_TEXT) {
+    return NextResponse.json({ success: false, error: `Type ${ROLLOVER_CONFIRM_TEXT} to continue.` }, { status: 400 });
+  }
+  const parsed = parseRolloverRequest(body);
+  if (typeof parsed === "string") {
+    return NextResponse.json({ success: false, error: parsed }, { status: 400 });
+  }
+
+  try {
+    const report = await runWithConnection((connection) =>
+      runSchoolYearRollover(connection, {
+        ...parsed,
+        token: String(body?.token ?? ""),
+        actor: actor.userId,
+        ipAddress: resolveRequestIp(request),
+      }),
+    );
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    if (error instanceof SchoolYearRolloverError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error("School-year rollover failed", error);
+    return NextResponse.json({ success: false, error: "School-year rollover failed." }, { status: 500 });
+  }
+}
@@ -0,0 +1,676 @@
+import { createHash } from "crypto";
+import type { Connection, PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { STUDENT_SUBJECTS, type StudentSubject } from "@/lib/students/shared";
+import { ensureLevelChangeTable, resetStudentPhonemicLevels } from "@/lib/students/promote-phonemic";
+import { normalizeMaterialSubject } from "@/lib/materials/shared";
+import { schoolYearStart } from "@/lib/server/data-retention";
+import { writeSecurityAuditLog } from "@/lib/server/security-audit";
+
+type DbConnection = Connection | PoolConnection;
+
+export type PhonemicRolloverAction = "carry" | "reset";
+
+export type PhonemicRolloverRule = {
+  subject: StudentSubject;
+  /** Grade the learner moves into; {@link ALL_GRADES} covers every grade without a rule of its own. */
+  gradeId: number;
+  action: PhonemicRolloverAction;
+};
+
+export type RolloverStudent = {
+  studentId: string;
+  gradeId: number | null;
+  section: string | null;
+};
+
+export type RolloverGradeMove = {
+  fromGrade: number;
+  /** Null for learners who graduate out of the final grade. */
+  toGrade: number | null;
+  students: number;
+  sectionsCleared: number;
+};
+
+export type RolloverStudentPlan = {
+  moves: RolloverGradeMove[];
+  promotions: Array<{ studentId: string; nextGradeId: number; keepSection: boolean }>;
+  graduateIds: string[];
+  /** Learners without a grade between 1 and {@link FINAL_GRADE}; they are left untouched. */
+  unassignedIds: string[];
+};
+
+export type RolloverArchiveCount = {
+  table: string;
+  label: string;
+  available: boolean;
+  rows: number;
+};
+
+export type RolloverPreflight = {
+  fromSchoolYear: string;
+  toSchoolYear: string;
+  rules: PhonemicRolloverRule[];
+  students: {
+    total: number;
+    promoted: number;
+    graduating: number;
+    unassigned: number;
+    sectionsCleared: number;
+    moves: RolloverGradeMove[];
+  };
+  phonemic: Array<{ subject: StudentSubject; carried: number; reset: number }>;
+  activeAssignments: number;
+  archives: RolloverArchiveCount[];
+  warnings: string[];
+  blockers: string[];
+  token: string;
+};
+
+export type RolloverRecord = {
+  rolloverId: number;
+  fromSchoolYear: string;
+  toSchoolYear: string;
+  performedBy: string | null;
+  performedAt: string | null;
+  summary: unknown;
+};
+
+export class SchoolYearRolloverError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "SchoolYearRolloverError";
+    this.status = status;
+  }
+}
+
+export const ROLLOVER_CONFIRM_TEXT = "ROLLOVER";
+export const FINAL_GRADE = 6;
+export const ALL_GRADES = 0;
+
+export const DEFAULT_PHONEMIC_RULES: PhonemicRolloverRule[] = STUDENT_SUBJECTS.map((subject) => ({
+  subject,
+  gradeId: ALL_GRADES,
+  action: "carry",
+}));
+
+/** Old-year rows archived on rollover; each is browsable as an archived entity in the recovery center. */
+export const ROLLOVER_ARCHIVE_TARGETS: Array<{ table: string; label: string; schoolYearScoped: boolean }> = [
+  { table: "remedial_quarter", label: "Remedial quarters", schoolYearScoped: true },
+  { table: "weekly_subject_schedule", label: "Weekly subject schedules", schoolYearScoped: false },
+  { table: "activities", label: "Calendar activities", schoolYearScoped: false },
+  { table: "assessments", label: "Assessments and quizzes", schoolYearScoped: false },
+];
+
+const ROLLOVER_TABLE = "school_year_rollovers";
+const STUDENT_TABLE = "student";
+const ASSIGNMENT_TABLE = "student_teacher_assignment";
+const SECTION_TABLE = "it_admin_grade_sections";
+
+export function parseSchoolYear(value: unknown): { startYear: number; endYear: number } | null {
+  const match = typeof value === "string" ? value.trim().match(/^(\d{4})\s*-\s*(\d{4})$/) : null;
+  if (!match) return null;
+  const startYear = Number(match[1]);
+  const endYear = Number(match[2]);
+  return endYear === startYear + 1 ? { startYear, endYear } : null;
+}
+
+export function currentSchoolYear(now: Date = new Date()): string {
+  const start = schoolYearStart(now).getFullYear();
+  return `${start}-${start + 1}`;
+}
+
+export function nextSchoolYear(value: string): string | null {
+  const parsed = parseSchoolYear(value);
+  return parsed ? `${parsed.endYear}-${parsed.endYear + 1}` : null;
+}
+
+/** Validates the submitted rules and fills in a carry-forward default for every subject without one. */
+export function parsePhonemicRules(raw: unknown): PhonemicRolloverRule[] | string {
+  if (raw !== undefined && raw !== null && !Array.isArray(raw)) {
+    return "Phonemic rules must be a list.";
+  }
+  const byKey = new Map<string, PhonemicRolloverRule>();
+  for (const entry of (raw as unknown[] | null | undefined) ?? []) {
+    const input = (entry ?? {}) as Record<string, unknown>;
+    const subject = normalizeMaterialSubject(input.subject);
+    if (!subject) {
+      return `Unknown subject in phonemic rules: ${String(input.subject ?? "(blank)")}.`;
+    }
+    const gradeId = Number(input.gradeId ?? ALL_GRADES);
+    if (!Number.isInteger(gradeId) || gradeId < ALL_GRADES || gradeId > FINAL_GRADE) {
+      return `Phonemic rule grade for ${subject} must be between 1 and ${FINAL_GRADE}, or 0 for all grades.`;
+    }
+    if (input.action !== "carry" && input.action !== "reset") {
+      return `Phonemic rule action for ${subject} must be carry or reset.`;
+    }
+    byKey.set(`${subject}:${gradeId}`, { subject, gradeId, action: input.action });
+  }
+  for (const fallback of DEFAULT_PHONEMIC_RULES) {
+    if (!byKey.has(`${fallback.subject}:${ALL_GRADES}`)) {
+      byKey.set(`${fallback.subject}:${ALL_GRADES}`, fallback);
+    }
+  }
+  return Array.from(byKey.values()).sort(
+    (a, b) => STUDENT_SUBJECTS.indexOf(a.subject) - STUDENT_SUBJECTS.indexOf(b.subject) || a.gradeId - b.gradeId,
+  );
+}
+
+/** Reads `{ schoolYear, phonemicRules }` from a pre-flight or commit request body. */
+export function parseRolloverRequest(
+  body: unknown,
+): { fromSchoolYear: string; rules: PhonemicRolloverRule[] } | string {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const fromSchoolYear = typeof input.schoolYear === "string" ? input.schoolYear.trim() : "";
+  if (!parseSchoolYear(fromSchoolYear)) {
+    return "School year must look like 2025-2026.";
+  }
+  const rules = parsePhonemicRules(input.phonemicRules);
+  return typeof rules === "string" ? rules : { fromSchoolYear, rules };
+}
+
+export function resolvePhonemicAction(
+  rules: PhonemicRolloverRule[],
+  subject: StudentSubject,
+  nextGradeId: number,
+): PhonemicRolloverAction {
+  const specific = rules.find((rule) => rule.subject === subject && rule.gradeId === nextGradeId);
+  const general = rules.find((rule) => rule.subject === subject && rule.gradeId === ALL_GRADES);
+  return specific?.action ?? general?.action ?? "carry";
+}
+
+/**
+ * Moves every learner up one grade and graduates the final grade. A learner keeps their
+ * section only when a section of the same name is configured for the next grade.
+ */
+export function planStudentRollover(
+  students: RolloverStudent[],
+  sections: Record<string, string[]>,
+): RolloverStudentPlan {
+  const plan: RolloverStudentPlan = { moves: [], promotions: [], graduateIds: [], unassignedIds: [] };
+  const moves = new Map<number, RolloverGradeMove>();
+
+  for (const student of students) {
+    const grade = student.gradeId;
+    if (grade === null || !Number.isInteger(grade) || grade < 1 || grade > FINAL_GRADE) {
+      plan.unassignedIds.push(student.studentId);
+      continue;
+    }
+    const toGrade = grade === FINAL_GRADE ? null : grade + 1;
+    const move = moves.get(grade) ?? { fromGrade: grade, toGrade, students: 0, sectionsCleared: 0 };
+    move.students += 1;
+    moves.set(grade, move);
+
+    if (toGrade === null) {
+      plan.graduateIds.push(student.studentId);
+      continue;
+    }
+    const section = student.section?.trim().toLowerCase() ?? "";
+    const keepSection = Boolean(section) && (sections[String(toGrade)] ?? []).some((name) => name.toLowerCase() === section);
+    if (section && !keepSection) {
+      move.sectionsCleared += 1;
+    }
+    plan.promotions.push({ studentId: student.studentId, nextGradeId: toGrade, keepSection });
+  }
+
+  plan.moves = Array.from(moves.values()).sort((a, b) => a.fromGrade - b.fromGrade);
+  return plan;
+}
+
+/** Fingerprint of what the pre-flight report promised, so a commit refuses to run against changed data. */
+export function computeRolloverToken(report: Omit<RolloverPreflight, "token" | "warnings" | "blockers">): string {
+  const summary = [
+    report.fromSchoolYear,
+    report.toSchoolYear,
+    report.rules.map((rule) => [rule.subject, rule.gradeId, rule.action]),
+    report.students.moves.map((move) => [move.fromGrade, move.students, move.sectionsCleared]),
+    report.students.unassigned,
+    report.phonemic.map((entry) => [entry.subject, entry.carried, entry.reset]),
+    report.activeAssignments,
+    report.archives.map((entry) => [entry.table, entry.available, entry.rows]),
+  ];
+  return createHash("sha256").update(JSON.stringify(summary)).digest("hex");
+}
+
+const toIsoString = (value: unknown): string | null => {
+  if (!value) return null;
+  const parsed = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+};
+
+async function loadColumns(db: DbConnection, table: string): Promise<Set<string>> {
+  try {
+    const [rows] = await db.query<RowDataPacket[]>(`SHOW COLUMNS FROM \`${table}\``);
+    return new Set(rows.map((row) => String(row.Field)));
+  } catch {
+    return new Set();
+  }
+}
+
+let rolloverSchemaPromise: Promise<void> | null = null;
+
+/** Adds the history table and the student archive columns graduation relies on; DDL, so run it outside a transaction. */
+async function ensureRolloverSchema(db: DbConnection): Promise<void> {
+  if (!rolloverSchemaPromise) {
+    rolloverSchemaPromise = (async () => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS ${ROLLOVER_TABLE} (
+          rollover_id INT AUTO_INCREMENT PRIMARY KEY,
+          from_school_year VARCHAR(20) NOT NULL,
+          to_school_year VARCHAR(20) NOT NULL,
+          rules_json TEXT NULL,
+          summary_json TEXT NULL,
+          performed_by VARCHAR(100) NULL,
+          performed_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE KEY uniq_school_year_rollover_from (from_school_year)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+      const studentColumns = await loadColumns(db, STUDENT_TABLE);
+      const additions: Array<[string, string]> = [
+        ["is_archived", "TINYINT(1) NOT NULL DEFAULT 0"],
+        ["archived_at", "DATETIME NULL"],
+        ["archived_by", "VARCHAR(100) NULL"],
+        ["graduated_school_year", "VARCHAR(20) NULL"],
+      ];
+      for (const [column, definition] of additions) {
+        if (!studentColumns.has(column)) {
+          await db.query(`ALTER TABLE \`${STUDENT_TABLE}\` ADD COLUMN \`${column}\` ${definition}`);
+        }
+      }
+    })().catch((error) => {
+      rolloverSchemaPromise = null;
+      throw error;
+    });
+  }
+  await rolloverSchemaPromise;
+}
+
+async function loadActiveStudents(db: DbConnection): Promise<RolloverStudent[]> {
+  const columns = await loadColumns(db, STUDENT_TABLE);
+  if (!columns.has("student_id") || !columns.has("grade_id")) {
+    return [];
+  }
+  const where: string[] = [];
+  if (columns.has("is_archived")) where.push("COALESCE(is_archived, 0) = 0");
+  if (columns.has("is_deleted")) where.push("COALESCE(is_deleted, 0) = 0");
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT student_id, grade_id, ${columns.has("section") ? "section" : "NULL AS section"}
+     FROM \`${STUDENT_TABLE}\`
+     ${where.length ? `WHERE ${where.join(" AND ")}` : ""}`,
+  );
+  return rows.map((row) => ({
+    studentId: String(row.student_id),
+    gradeId: row.grade_id === null || row.grade_id === undefined ? null : Number(row.grade_id),
+    section: row.section ? String(row.section) : null,
+  }));
+}
+
+async function loadSectionConfig(db: DbConnection): Promise<Record<string, string[]>> {
+  const columns = await loadColumns(db, SECTION_TABLE);
+  if (!columns.has("grade_level") || !columns.has("section_name")) {
+    return {};
+  }
+  const [rows] = await db.query<RowDataPacket[]>(`SELECT grade_level, section_name FROM ${SECTION_TABLE}`);
+  const config: Record<string, string[]> = {};
+  for (const row of rows) {
+    const grade = String(row.grade_level ?? "").trim();
+    if (!grade) continue;
+    (config[grade] ??= []).push(String(row.section_name ?? "").trim());
+  }
+  return config;
+}
+
+async function resolveSubjectIds(db: DbConnection): Promise<Map<StudentSubject, number>> {
+  const columns = await loadColumns(db, "subject");
+  const nameColumn = columns.has("subject_name") ? "subject_name" : columns.has("name") ? "name" : null;
+  const ids = new Map<StudentSubject, number>();
+  if (!columns.has("subject_id") || !nameColumn) {
+    return ids;
+  }
+  const [rows] = await db.query<RowDataPacket[]>(`SELECT subject_id, ${nameColumn} AS name FROM subject`);
+  for (const row of rows) {
+    const subject = normalizeMaterialSubject(String(row.name ?? ""));
+    if (subject && !ids.has(subject)) {
+      ids.set(subject, Number(row.subject_id));
+    }
+  }
+  return ids;
+}
+
+/** Learners whose level in each subject is reset, grouped by subject; everyone else carries forward. */
+function groupPhonemicResets(
+  plan: RolloverStudentPlan,
+  rules: PhonemicRolloverRule[],
+): Map<StudentSubject, string[]> {
+  const resets = new Map<StudentSubject, string[]>();
+  for (const subject of STUDENT_SUBJECTS) {
+    resets.set(
+      subject,
+      plan.promotions
+        .filter((promotion) => resolvePhonemicAction(rules, subject, promotion.nextGradeId) === "reset")
+        .map((promotion) => promotion.studentId),
+    );
+  }
+  return resets;
+}
+
+async function countAssessedStudents(
+  db: DbConnection,
+  subjectId: number | undefined,
+  studentIds: string[],
+): Promise<number> {
+  if (subjectId === undefined || studentIds.length === 0) return 0;
+  const columns = await loadColumns(db, "student_subject_assessment");
+  if (!columns.has("student_id") || !columns.has("subject_id") || !columns.has("phonemic_id")) return 0;
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT COUNT(DISTINCT student_id) AS total
+     FROM student_subject_assessment
+     WHERE subject_id = ? AND student_id IN (${studentIds.map(() => "?").join(", ")})`,
+    [subjectId, ...studentIds],
+  );
+  return Number(rows[0]?.total ?? 0);
+}
+
+function buildArchiveWhere(columns: Set<string>, schoolYearScoped: boolean, schoolYear: string) {
+  const where = ["COALESCE(is_archived, 0) = 0"];
+  const params: string[] = [];
+  if (schoolYearScoped && columns.has("school_year")) {
+    where.push("school_year = ?");
+    params.push(schoolYear);
+  }
+  return { where: where.join(" AND "), params };
+}
+
+async function findRollover(db: DbConnection, fromSchoolYear: string): Promise<RolloverRecord | null> {
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT * FROM ${ROLLOVER_TABLE} WHERE from_school_year = ? LIMIT 1`,
+    [fromSchoolYear],
+  );
+  return rows[0] ? mapRolloverRow(rows[0]) : null;
+}
+
+function mapRolloverRow(row: RowDataPacket): RolloverRecord {
+  let summary: unknown = null;
+  try {
+    summary = row.summary_json ? JSON.parse(String(row.summary_json)) : null;
+  } catch {
+    summary = null;
+  }
+  return {
+    rolloverId: Number(row.rollover_id),
+    fromSchoolYear: String(row.from_school_year),
+    toSchoolYear: String(row.to_school_year),
+    performedBy: row.performed_by ? String(row.performed_by) : null,
+    performedAt: toIsoString(row.performed_at),
+    summary,
+  };
+}
+
+export async function listRollovers(db: DbConnection): Promise<RolloverRecord[]> {
+  await ensureRolloverSchema(db);
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT * FROM ${ROLLOVER_TABLE} ORDER BY performed_at DESC, rollover_id DESC LIMIT 20`,
+  );
+  return rows.map(mapRolloverRow);
+}
+
+type RolloverState = {
+  report: RolloverPreflight;
+  plan: RolloverStudentPlan;
+  resets: Map<StudentSubject, string[]>;
+  subjectIds: Map<StudentSubject, number>;
+};
+
+async function buildRolloverState(
+  db: DbConnection,
+  input: { fromSchoolYear: string; rules: PhonemicRolloverRule[] },
+): Promise<RolloverState> {
+  if (!parseSchoolYear(input.fromSchoolYear)) {
+    throw new SchoolYearRolloverError("School year must look like 2025-2026.", 400);
+  }
+  await ensureRolloverSchema(db);
+  const toSchoolYear = nextSchoolYear(input.fromSchoolYear)!;
+  const warnings: string[] = [];
+  const blockers: string[] = [];
+
+  const previous = await findRollover(db, input.fromSchoolYear);
+  if (previous) {
+    blockers.push(`School year ${input.fromSchoolYear} was already rolled over on ${previous.performedAt ?? "an earlier date"}.`);
+  }
+
+  const students = await loadActiveStudents(db);
+  const sections = await loadSectionConfig(db);
+  if (Object.keys(sections).length === 0) {
+    warnings.push("No grade sections are configured, so every promoted learner's section will be cleared.");
+  }
+  const plan = planStudentRollover(students, sections);
+  if (plan.promotions.length === 0 && plan.graduateIds.length === 0) {
+    blockers.push("There are no active learners with a grade level to roll over.");
+  }
+  if (plan.unassignedIds.length > 0) {
+    warnings.push(`${plan.unassignedIds.length} learner(s) have no grade level between 1 and ${FINAL_GRADE} and will be left as they are.`);
+  }
+
+  const subjectIds = await resolveSubjectIds(db);
+  const resets = groupPhonemicResets(plan, input.rules);
+  const phonemic: RolloverPreflight["phonemic"] = [];
+  for (const subject of STUDENT_SUBJECTS) {
+    const resetIds = resets.get(subject) ?? [];
+    if (resetIds.length > 0 && !subjectIds.has(subject)) {
+      warnings.push(`${subject} is not in the subject table, so its phonemic levels cannot be reset.`);
+    }
+    const reset = await countAssessedStudents(db, subjectIds.get(subject), resetIds);
+    const assessed = await countAssessedStudents(
+      db,
+      subjectIds.get(subject),
+      plan.promotions.map((promotion) => promotion.studentId),
+    );
+    phonemic.push({ subject, carried: assessed - reset, reset });
+  }
+
+  let activeAssignments = 0;
+  const assignmentColumns = await loadColumns(db, ASSIGNMENT_TABLE);
+  if (assignmentColumns.has("is_active")) {
+    const [rows] = await db.query<RowDataPacket[]>(`SELECT COUNT(*) AS total FROM ${ASSIGNMENT_TABLE} WHERE is_active = 1`);
+    activeAssignments = Number(rows[0]?.total ?? 0);
+  }
+
+  const archives: RolloverArchiveCount[] = [];
+  for (const target of ROLLOVER_ARCHIVE_TARGETS) {
+    const columns = await loadColumns(db, target.table);
+    if (!columns.has("is_archived")) {
+      archives.push({ table: target.table, label: target.label, available: false, rows: 0 });
+      if (columns.size > 0) {
+        warnings.push(`${target.label} cannot be archived because ${target.table}.is_archived is missing.`);
+      }
+      continue;
+    }
+    const { where, params } = buildArchiveWhere(columns, target.schoolYearScoped, input.fromSchoolYear);
+    const [rows] = await db.query<RowDataPacket[]>(
+      `SELECT COUNT(*) AS total FROM \`${target.table}\` WHERE ${where}`,
+      params,
+    );
+    archives.push({ table: target.table, label: target.label, available: true, rows: Number(rows[0]?.total ?? 0) });
+  }
+
+  const body = {
+    fromSchoolYear: input.fromSchoolYear,
+    toSchoolYear,
+    rules: input.rules,
+    students: {
+      total: students.length,
+      promoted: plan.promotions.length,
+      graduating: plan.graduateIds.length,
+      unassigned: plan.unassignedIds.length,
+      sectionsCleared: plan.moves.reduce((sum, move) => sum + move.sectionsCleared, 0),
+      moves: plan.moves,
+    },
+    phonemic,
+    activeAssignments,
+    archives,
+  };
+  return {
+    report: { ...body, warnings, blockers, token: computeRolloverToken(body) },
+    plan,
+    resets,
+    subjectIds,
+  };
+}
+
+export async function previewSchoolYearRollover(
+  db: DbConnection,
+  input: { fromSchoolYear: string; rules: PhonemicRolloverRule[] },
+): Promise<RolloverPreflight> {
+  return (await buildRolloverState(db, input)).report;
+}
+
+async function updateInBatches(
+  db: DbConnection,
+  ids: string[],
+  run: (placeholders: string, batch: string[]) => Promise<unknown>,
+): Promise<void> {
+  for (let offset = 0; offset < ids.length; offset += 500) {
+    const batch = ids.slice(offset, offset + 500);
+    await run(batch.map(() => "?").join(", "), batch);
+  }
+}
+
+/**
+ * Commits the rollover that the pre-flight report with `token` described: graduates the final
+ * grade into the recovery center's archive, advances everyone else, applies the phonemic
+ * rules, ends the year's teacher assignments and archives the old schedules and assessments.
+ */
+export async function runSchoolYearRollover(
+  db: DbConnection,
+  input: {
+    fromSchoolYear: string;
+    rules: PhonemicRolloverRule[];
+    token: string;
+    actor: string | number;
+    ipAddress: string | null;
+  },
+): Promise<RolloverPreflight> {
+  const { report, plan, resets, subjectIds } = await buildRolloverState(db, input);
+  if (report.blockers.length > 0) {
+    throw new SchoolYearRolloverError(report.blockers[0], 409);
+  }
+  if (report.token !== input.token) {
+    throw new SchoolYearRolloverError("Learner or schedule data changed since the pre-flight check. Run it again.", 409);
+  }
+
+  const studentColumns = await loadColumns(db, STUDENT_TABLE);
+  const hasSection = studentColumns.has("section");
+  const updatedAt = studentColumns.has("updated_at") ? ", updated_at = NOW()" : "";
+  const assessmentColumns = await loadColumns(db, "student_subject_assessment");
+  const assignmentColumns = await loadColumns(db, ASSIGNMENT_TABLE);
+  if (assessmentColumns.has("phonemic_id")) {
+    await ensureLevelChangeTable();
+  }
+
+  await db.beginTransaction();
+  try {
+    await updateInBatches(db, plan.graduateIds, (placeholders, batch) =>
+      db.query(
+        `UPDATE \`${STUDENT_TABLE}\`
+         SET is_archived = 1, archived_at = NOW(), archived_by = ?, graduated_school_year = ?${updatedAt}
+         WHERE student_id IN (${placeholders})`,
+        [String(input.actor), input.fromSchoolYear, ...batch],
+      ),
+    );
+
+    for (let grade = 1; grade < FINAL_GRADE; grade += 1) {
+      for (const keepSection of [true, false]) {
+        const ids = plan.promotions
+          .filter((promotion) => promotion.nextGradeId === grade + 1 && promotion.keepSection === keepSection)
+          .map((promotion) => promotion.studentId);
+        const clearSection = !keepSection && hasSection ? ", section = NULL" : "";
+        await updateInBatches(db, ids, (placeholders, batch) =>
+          db.query(
+            `UPDATE \`${STUDENT_TABLE}\` SET grade_id = ?${clearSection}${updatedAt} WHERE student_id IN (${placeholders})`,
+            [grade + 1, ...batch],
+          ),
+        );
+      }
+    }
+
+    if (assessmentColumns.has("phonemic_id")) {
+      for (const [subject, ids] of resets) {
+        const subjectId = subjectIds.get(subject);
+        if (subjectId === undefined || ids.length === 0) continue;
+        const [levels] = await db.query<RowDataPacket[]>(
+          "SELECT phonemic_id FROM phonemic_level WHERE subject_id = ? ORDER BY phonemic_id LIMIT 1",
+          [subjectId],
+        );
+        const startingLevel = levels[0]?.phonemic_id;
+        if (startingLevel === undefined) continue;
+        await updateInBatches(db, ids, (_placeholders, batch) =>
+          resetStudentPhonemicLevels(db, subjectId, batch, Number(startingLevel), {
+            reason: `Reset by the ${input.fromSchoolYear} school-year rollover.`,
+            changedBy: Number.isFinite(Number(input.actor)) ? Number(input.actor) : null,
+          }),
+        );
+      }
+    }
+
+    let deactivatedAssignments = 0;
+    if (assignmentColumns.has("is_active")) {
+      const [result] = await db.query<ResultSetHeader>(`UPDATE ${ASSIGNMENT_TABLE} SET is_active = 0 WHERE is_active = 1`);
+      deactivatedAssignments = Number(result.affectedRows ?? 0);
+    }
+
+    const archived: Record<string, number> = {};
+    for (const target of ROLLOVER_ARCHIVE_TARGETS) {
+      const columns = await loadColumns(db, target.table);
+      if (!columns.has("is_archived")) continue;
+      const assignments = ["is_archived = 1"];
+      const params: string[] = [];
+      if (columns.has("archived_at")) assignments.push("archived_at = NOW()");
+      if (columns.has("archived_by")) {
+        assignments.push("archived_by = ?");
+        params.push(String(input.actor));
+      }
+      if (columns.has("updated_at")) assignments.push("updated_at = NOW()");
+      const { where, params: whereParams } = buildArchiveWhere(columns, target.schoolYearScoped, input.fromSchoolYear);
+      const [result] = await db.query<ResultSetHeader>(
+        `UPDATE \`${target.table}\` SET ${assignments.join(", ")} WHERE ${where}`,
+        [...params, ...whereParams],
+      );
+      archived[target.table] = Number(result.affectedRows ?? 0);
+    }
+
+    const summary = {
+      students: report.students,
+      phonemic: report.phonemic,
+      deactivatedAssignments,
+      archived,
+    };
+    await db.query(
+      `INSERT INTO ${ROLLOVER_TABLE} (from_school_year, to_school_year, rules_json, summary_json, performed_by)
+       VALUES (?, ?, ?, ?, ?)`,
+      [report.fromSchoolYear, report.toSchoolYear, JSON.stringify(report.rules), JSON.stringify(summary), String(input.actor)],
+    );
+    await db.commit();
+  } catch (error) {
+    await db.rollback();
+    throw error;
+  }
+
+  await writeSecurityAuditLog(db, {
+    action: "school_year_rollover_completed",
+    userId: input.actor,
+    targetModule: "school_year_rollover",
+    targetRecordId: report.fromSchoolYear,
+    ipAddress: input.ipAddress,
+    details: {
+      fromSchoolYear: report.fromSchoolYear,
+      toSchoolYear: report.toSchoolYear,
+      rules: report.rules,
+      students: report.students,
+      phonemic: report.phonemic,
+      activeAssignments: report.activeAssignments,
+      archives: report.archives,
+    },
+  });
+  return report;
+}
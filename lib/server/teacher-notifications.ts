@@ -0,0 +1,44 @@
+import { query } from "@/lib/db";
+
+export const TEACHER_NOTIFICATIONS_TABLE = "teacher_notifications";
+
+let ensureTablePromise: Promise<void> | null = null;
+
+export const ensureTeacherNotificationsTable = async () => {
+  if (!ensureTablePromise) {
+    ensureTablePromise = query(
+      `CREATE TABLE IF NOT EXISTS ${TEACHER_NOTIFICATIONS_TABLE} (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+        teacher_id VARCHAR(64) NULL,
+        message TEXT NOT NULL,
+        status ENUM('unread', 'read') NOT NULL DEFAULT 'unread',
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (id),
+        KEY idx_teacher_notifications_teacher (teacher_id),
+        KEY idx_teacher_notifications_status (status)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;`,
+    )
+      .then(() => undefined)
+      .catch((error) => {
+        ensureTablePromise = null;
+        throw error;
+      });
+  }
+
+  await ensureTablePromise;
+};
+
+/** Adds one unread notification per teacher; blank and duplicate identifiers are skipped. */
+export async function insertTeacherNotifications(teacherIds: string[], message: string): Promise<number> {
+  const recipients = Array.from(new Set(teacherIds.map((id) => id.trim()).filter(Boolean)));
+  if (!recipients.length) return 0;
+
+  await ensureTeacherNotificationsTable();
+  await query(
+    `INSERT INTO ${TEACHER_NOTIFICATIONS_TABLE} (teacher_id, message, status)
+     VALUES ${recipients.map(() => "(?, ?, 'unread')").join(", ")}`,
+    recipients.flatMap((teacherId) => [teacherId, message]),
+  );
+  return recipients.length;
+}
@@ -0,0 +1,439 @@
+import type { Connection, PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { createHash, randomBytes } from "crypto";
+import { writeSecurityAuditLog } from "@/lib/server/security-audit";
+import {
+  TOTP_POLICY_ROLES,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  isTotpMandatoryRole,
+  verifyTotp,
+  type TotpPolicyRole,
+} from "@/lib/server/totp";
+
+type DbConnection = Connection | PoolConnection;
+
+/** How long the password step stays valid while the user finishes the second factor. */
+export const LOGIN_CHALLENGE_TTL_MINUTES = 10;
+export const LOGIN_CHALLENGE_MAX_ATTEMPTS = 5;
+
+export type TotpRequirementSource = "role" | "user" | null;
+
+export type TotpRequirement = {
+  enrolled: boolean;
+  required: boolean;
+  source: TotpRequirementSource;
+};
+
+export type TotpAccountStatus = TotpRequirement & {
+  userId: number;
+  enabledAt: string | null;
+  roleRequired: boolean;
+  userRequired: boolean;
+  recoveryCodesRemaining: number;
+  resetAt: string | null;
+  resetBy: string | null;
+};
+
+export type TotpRolePolicy = {
+  role: TotpPolicyRole;
+  totpRequired: boolean;
+  mandatory: boolean;
+  updatedBy: string | null;
+  updatedAt: string | null;
+};
+
+export type LoginChallenge = {
+  challengeId: number;
+  userId: number;
+  deviceName: string | null;
+};
+
+export type TotpVerification =
+  | { ok: true; method: "totp" | "recovery_code"; recoveryCodes: string[] | null; recoveryCodesRemaining: number }
+  | { ok: false };
+
+let schemaReady = false;
+
+async function ensureTotpSchema(db: DbConnection): Promise<void> {
+  if (schemaReady) {
+    return;
+  }
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS user_totp (
+      user_id INT NOT NULL PRIMARY KEY,
+      secret VARCHAR(64) NULL,
+      pending_secret VARCHAR(64) NULL,
+      enabled_at DATETIME NULL,
+      last_used_step BIGINT NULL,
+      required TINYINT(1) NOT NULL DEFAULT 0,
+      reset_at DATETIME NULL,
+      reset_by VARCHAR(100) NULL,
+      updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+  `);
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS user_totp_recovery_codes (
+      code_id BIGINT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      user_id INT NOT NULL,
+      code_hash CHAR(64) NOT NULL,
+      used_at DATETIME NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_user_totp_recovery_code (user_id, code_hash)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+  `);
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS mfa_role_policy (
+      role_key VARCHAR(40) NOT NULL PRIMARY KEY,
+      totp_required TINYINT(1) NOT NULL DEFAULT 0,
+      updated_by VARCHAR(100) NULL,
+      updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+  `);
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS login_challenges (
+      challenge_id BIGINT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      token_hash CHAR(64) NOT NULL,
+      user_id INT NOT NULL,
+      device_name VARCHAR(255) NULL,
+      attempts INT NOT NULL DEFAULT 0,
+      expires_at DATETIME NOT NULL,
+      used_at DATETIME NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_login_challenges_token (token_hash),
+      INDEX idx_login_challenges_user (user_id, created_at)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+  `);
+  schemaReady = true;
+}
+
+const toDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const parsed = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const hashToken = (token: string): string => createHash("sha256").update(token).digest("hex");
+
+function isPolicyRole(role: string): role is TotpPolicyRole {
+  return (TOTP_POLICY_ROLES as readonly string[]).includes(role);
+}
+
+async function isRoleTotpRequired(db: DbConnection, canonicalRole: string): Promise<boolean> {
+  if (isTotpMandatoryRole(canonicalRole)) {
+    return true;
+  }
+  if (!isPolicyRole(canonicalRole)) {
+    return false;
+  }
+  const [rows] = await db.execute<RowDataPacket[]>(
+    "SELECT totp_required FROM mfa_role_policy WHERE role_key = ? LIMIT 1",
+    [canonicalRole],
+  );
+  return Number(rows[0]?.totp_required ?? 0) === 1;
+}
+
+async function loadTotpRow(db: DbConnection, userId: number): Promise<RowDataPacket | null> {
+  const [rows] = await db.execute<RowDataPacket[]>("SELECT * FROM user_totp WHERE user_id = ? LIMIT 1", [userId]);
+  return rows[0] ?? null;
+}
+
+async function countRemainingRecoveryCodes(db: DbConnection, userId: number): Promise<number> {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    "SELECT COUNT(*) AS remaining FROM user_totp_recovery_codes WHERE user_id = ? AND used_at IS NULL",
+    [userId],
+  );
+  return Number(rows[0]?.remaining ?? 0);
+}
+
+/** Role policy wins over the per-user flag when reporting where a requirement comes from. */
+export async function getTotpRequirement(
+  db: DbConnection,
+  userId: number,
+  canonicalRole: string,
+): Promise<TotpRequirement> {
+  await ensureTotpSchema(db);
+  const row = await loadTotpRow(db, userId);
+  const roleRequired = await isRoleTotpRequired(db, canonicalRole);
+  const userRequired = Number(row?.required ?? 0) === 1;
+  return {
+    enrolled: Boolean(row?.secret),
+    required: roleRequired || userRequired,
+    source: roleRequired ? "role" : userRequired ? "user" : null,
+  };
+}
+
+export async function getTotpAccountStatus(
+  db: DbConnection,
+  userId: number,
+  canonicalRole: string,
+): Promise<TotpAccountStatus> {
+  await ensureTotpSchema(db);
+  const row = await loadTotpRow(db, userId);
+  const requirement = await getTotpRequirement(db, userId, canonicalRole);
+  return {
+    ...requirement,
+    userId,
+    enabledAt: toDate(row?.enabled_at)?.toISOString() ?? null,
+    roleRequired: requirement.source === "role",
+    userRequired: Number(row?.required ?? 0) === 1,
+    recoveryCodesRemaining: requirement.enrolled ? await countRemainingRecoveryCodes(db, userId) : 0,
+    resetAt: toDate(row?.reset_at)?.toISOString() ?? null,
+    resetBy: row?.reset_by ? String(row.reset_by) : null,
+  };
+}
+
+export async function createLoginChallenge(db: DbConnection, userId: number, deviceName: string | null): Promise<string> {
+  await ensureTotpSchema(db);
+  const token = randomBytes(32).toString("hex");
+  await db.execute(
+    `INSERT INTO login_challenges (token_hash, user_id, device_name, expires_at)
+     VALUES (?, ?, ?, NOW() + INTERVAL ${LOGIN_CHALLENGE_TTL_MINUTES} MINUTE)`,
+    [hashToken(token), userId, deviceName ? deviceName.slice(0, 255) : null],
+  );
+  return token;
+}
+
+/** Returns null for unknown, expired, used or exhausted challenges alike. */
+export async function readLoginChallenge(db: DbConnection, token: string): Promise<LoginChallenge | null> {
+  await ensureTotpSchema(db);
+  if (!/^[a-f0-9]{64}$/.test(token)) {
+    return null;
+  }
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT challenge_id, user_id, device_name
+     FROM login_challenges
+     WHERE token_hash = ? AND used_at IS NULL AND expires_at > NOW() AND attempts < ?
+     LIMIT 1`,
+    [hashToken(token), LOGIN_CHALLENGE_MAX_ATTEMPTS],
+  );
+  const row = rows[0];
+  if (!row) {
+    return null;
+  }
+  return {
+    challengeId: Number(row.challenge_id),
+    userId: Number(row.user_id),
+    deviceName: row.device_name ? String(row.device_name) : null,
+  };
+}
+
+export async function recordLoginChallengeFailure(db: DbConnection, challengeId: number): Promise<void> {
+  await db.execute("UPDATE login_challenges SET attempts = attempts + 1 WHERE challenge_id = ?", [challengeId]);
+}
+
+/** Marks the challenge used; false means a concurrent request already spent it. */
+export async function consumeLoginChallenge(db: DbConnection, challengeId: number): Promise<boolean> {
+  const [result] = await db.execute<ResultSetHeader>(
+    "UPDATE login_challenges SET used_at = NOW() WHERE challenge_id = ? AND used_at IS NULL",
+    [challengeId],
+  );
+  return result.affectedRows === 1;
+}
+
+/** Starts (or restarts) enrollment with a fresh secret that only becomes active once a code is confirmed. */
+export async function beginTotpEnrollment(db: DbConnection, userId: number): Promise<string> {
+  await ensureTotpSchema(db);
+  const secret = generateTotpSecret();
+  await db.execute(
+    `INSERT INTO user_totp (user_id, pending_secret) VALUES (?, ?)
+     ON DUPLICATE KEY UPDATE pending_secret = VALUES(pending_secret)`,
+    [userId, secret],
+  );
+  return secret;
+}
+
+async function replaceRecoveryCodes(db: DbConnection, userId: number): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await db.execute("DELETE FROM user_totp_recovery_codes WHERE user_id = ?", [userId]);
+  for (const code of codes) {
+    await db.execute("INSERT INTO user_totp_recovery_codes (user_id, code_hash) VALUES (?, ?)", [
+      userId,
+      hashRecoveryCode(code),
+    ]);
+  }
+  return codes;
+}
+
+/**
+ * Checks an authenticator code, a recovery code, or the first code of a
+ * pending enrollment. The accepted time step is stored with a compare-and-set
+ * so a code cannot be replayed, even by two requests racing each other.
+ */
+export async function verifyTotpForLogin(
+  db: DbConnection,
+  userId: number,
+  input: { code?: string | null; recoveryCode?: string | null },
+  ipAddress: string | null,
+): Promise<TotpVerification> {
+  await ensureTotpSchema(db);
+  const row = await loadTotpRow(db, userId);
+  if (!row) {
+    return { ok: false };
+  }
+
+  if (row.secret) {
+    if (input.recoveryCode) {
+      const [result] = await db.execute<ResultSetHeader>(
+        `UPDATE user_totp_recovery_codes SET used_at = NOW()
+         WHERE user_id = ? AND code_hash = ? AND used_at IS NULL`,
+        [userId, hashRecoveryCode(input.recoveryCode)],
+      );
+      if (result.affectedRows !== 1) {
+        return { ok: false };
+      }
+      const remaining = await countRemainingRecoveryCodes(db, userId);
+      await writeSecurityAuditLog(db, {
+        action: "totp_recovery_code_used",
+        userId,
+        targetModule: "user_totp",
+        targetRecordId: userId,
+        ipAddress,
+        details: { recoveryCodesRemaining: remaining },
+      });
+      return { ok: true, method: "recovery_code", recoveryCodes: null, recoveryCodesRemaining: remaining };
+    }
+
+    const lastUsedStep = row.last_used_step === null ? null : Number(row.last_used_step);
+    const step = input.code ? verifyTotp(String(row.secret), input.code, { lastUsedStep }) : null;
+    if (step === null) {
+      return { ok: false };
+    }
+    const [result] = await db.execute<ResultSetHeader>(
+      `UPDATE user_totp SET last_used_step = ?
+       WHERE user_id = ? AND (last_used_step IS NULL OR last_used_step < ?)`,
+      [step, userId, step],
+    );
+    if (result.affectedRows !== 1) {
+      return { ok: false };
+    }
+    return {
+      ok: true,
+      method: "totp",
+      recoveryCodes: null,
+      recoveryCodesRemaining: await countRemainingRecoveryCodes(db, userId),
+    };
+  }
+
+  if (!row.pending_secret || !input.code) {
+    return { ok: false };
+  }
+  const step = verifyTotp(String(row.pending_secret), input.code);
+  if (step === null) {
+    return { ok: false };
+  }
+  const [result] = await db.execute<ResultSetHeader>(
+    `UPDATE user_totp
+     SET secret = pending_secret, pending_secret = NULL, enabled_at = NOW(), last_used_step = ?
+     WHERE user_id = ? AND secret IS NULL AND pending_secret = ?`,
+    [step, userId, row.pending_secret],
+  );
+  if (result.affectedRows !== 1) {
+    return { ok: false };
+  }
+  const recoveryCodes = await replaceRecoveryCodes(db, userId);
+  await writeSecurityAuditLog(db, {
+    action: "totp_enrolled",
+    userId,
+    targetModule: "user_totp",
+    targetRecordId: userId,
+    ipAddress,
+    details: { recoveryCodesIssued: recoveryCodes.length },
+  });
+  return { ok: true, method: "totp", recoveryCodes, recoveryCodesRemaining: recoveryCodes.length };
+}
+
+/** Clears the authenticator and its recovery codes; the user enrolls again at their next sign-in if required. */
+export async function resetUserTotp(
+  db: DbConnection,
+  userId: number,
+  resetBy: string,
+  ipAddress: string | null,
+): Promise<boolean> {
+  await ensureTotpSchema(db);
+  const [result] = await db.execute<ResultSetHeader>(
+    `UPDATE user_totp
+     SET secret = NULL, pending_secret = NULL, enabled_at = NULL, last_used_step = NULL, reset_at = NOW(), reset_by = ?
+     WHERE user_id = ? AND (secret IS NOT NULL OR pending_secret IS NOT NULL)`,
+    [resetBy, userId],
+  );
+  await db.execute("DELETE FROM user_totp_recovery_codes WHERE user_id = ?", [userId]);
+  if (result.affectedRows === 0) {
+    return false;
+  }
+  await writeSecurityAuditLog(db, {
+    action: "totp_reset",
+    userId: resetBy,
+    targetModule: "user_totp",
+    targetRecordId: userId,
+    ipAddress,
+  });
+  return true;
+}
+
+export async function setUserTotpRequired(
+  db: DbConnection,
+  userId: number,
+  required: boolean,
+  updatedBy: string,
+  ipAddress: string | null,
+): Promise<void> {
+  await ensureTotpSchema(db);
+  await db.execute(
+    `INSERT INTO user_totp (user_id, required) VALUES (?, ?)
+     ON DUPLICATE KEY UPDATE required = VALUES(required)`,
+    [userId, required ? 1 : 0],
+  );
+  await writeSecurityAuditLog(db, {
+    action: required ? "totp_user_required" : "totp_user_optional",
+    userId: updatedBy,
+    targetModule: "user_totp",
+    targetRecordId: userId,
+    ipAddress,
+  });
+}
+
+export async function listTotpRolePolicies(db: DbConnection): Promise<TotpRolePolicy[]> {
+  await ensureTotpSchema(db);
+  const [rows] = await db.execute<RowDataPacket[]>("SELECT * FROM mfa_role_policy");
+  const byRole = new Map(rows.map((row) => [String(row.role_key), row]));
+  return TOTP_POLICY_ROLES.map((role) => {
+    const row = byRole.get(role);
+    const mandatory = isTotpMandatoryRole(role);
+    return {
+      role,
+      totpRequired: mandatory || Number(row?.totp_required ?? 0) === 1,
+      mandatory,
+      updatedBy: row?.updated_by ? String(row.updated_by) : null,
+      updatedAt: toDate(row?.updated_at)?.toISOString() ?? null,
+    };
+  });
+}
+
+/** Returns false for mandatory or unknown roles, which cannot be changed. */
+export async function setRoleTotpRequired(
+  db: DbConnection,
+  role: string,
+  required: boolean,
+  updatedBy: string,
+  ipAddress: string | null,
+): Promise<boolean> {
+  await ensureTotpSchema(db);
+  if (!isPolicyRole(role) || isTotpMandatoryRole(role)) {
+    return false;
+  }
+  await db.execute(
+    `INSERT INTO mfa_role_policy (role_key, totp_required, updated_by) VALUES (?, ?, ?)
+     ON DUPLICATE KEY UPDATE totp_required = VALUES(totp_required), updated_by = VALUES(updated_by)`,
+    [role, required ? 1 : 0, updatedBy],
+  );
+  await writeSecurityAuditLog(db, {
+    action: "totp_role_policy_updated",
+    userId: updatedBy,
+    targetModule: "mfa_role_policy",
+    targetRecordId: role,
+    ipAddress,
+    details: { role, totpRequired: required },
+  });
+  return true;
+}
@@ -0,0 +1,144 @@
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+
+/** RFC 6238 parameters every common authenticator app understands without extra URI hints. */
+export const TOTP_ISSUER = "RPT-SAES";
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+export const TOTP_WINDOW_STEPS = 1;
+export const TOTP_SECRET_BYTES = 20;
+export const RECOVERY_CODE_COUNT = 10;
+
+/** Roles that can never opt out of the authenticator, regardless of the stored policy. */
+export const TOTP_MANDATORY_ROLES = ["it_admin", "principal"] as const;
+export const TOTP_POLICY_ROLES = ["it_admin", "principal", "master_teacher", "teacher", "parent"] as const;
+
+export type TotpPolicyRole = (typeof TOTP_POLICY_ROLES)[number];
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+// No 0/o, 1/l/i so codes survive being read aloud or copied by hand.
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+export function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function decodeBase32(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}".`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return encodeBase32(randomBytes(TOTP_SECRET_BYTES));
+}
+
+export function totpStepAt(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/** HOTP (RFC 4226) over the given time step with HMAC-SHA1 and dynamic truncation. */
+export function computeTotp(secret: string, step: number, digits: number = TOTP_DIGITS): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const digest = createHmac("sha1", decodeBase32(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary =
+    ((digest[offset] & 0x7f) << 24) |
+    (digest[offset + 1] << 16) |
+    (digest[offset + 2] << 8) |
+    digest[offset + 3];
+  return String(binary % 10 ** digits).padStart(digits, "0");
+}
+
+/**
+ * Returns the matched time step so callers can persist it and refuse the
+ * same code (or an older one) on the next attempt, or null on no match.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { now?: Date; window?: number; lastUsedStep?: number | null } = {},
+): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+  const current = totpStepAt(options.now);
+  const window = options.window ?? TOTP_WINDOW_STEPS;
+  for (let offset = -window; offset <= window; offset += 1) {
+    const step = current + offset;
+    if (options.lastUsedStep !== null && options.lastUsedStep !== undefined && step <= options.lastUsedStep) {
+      continue;
+    }
+    const expected = Buffer.from(computeTotp(secret, step));
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+export function buildOtpAuthUri(secret: string, accountName: string, issuer: string = TOTP_ISSUER): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  const codes = new Set<string>();
+  while (codes.size < count) {
+    let raw = "";
+    for (let index = 0; index < 8; index += 1) {
+      raw += RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)];
+    }
+    codes.add(`${raw.slice(0, 4)}-${raw.slice(4)}`);
+  }
+  return Array.from(codes);
+}
+
+export function normalizeRecoveryCode(input: string): string {
+  return input.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** Recovery codes are stored as hashes only; the plain codes are shown once at enrollment. */
+export function hashRecoveryCode(input: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(input)).digest("hex");
+}
+
+export function isTotpMandatoryRole(role: string | null | undefined): boolean {
+  return (TOTP_MANDATORY_ROLES as readonly string[]).includes(String(role ?? ""));
+}
@@ -0,0 +1,29 @@
+export type AzureSpeechConfig = {
+  key: string;
+  region: string;
+  endpoint: string;
+};
+
+export const resolveAzureSpeechConfig = (): AzureSpeechConfig => {
+  const key =
+    process.env.AZURE_SPEECH_KEY ||
+    process.env.SPEECH_KEY ||
+    process.env.NEXT_PUBLIC_AZURE_SPEECH_KEY ||
+    "";
+  const region =
+    process.env.AZURE_SPEECH_REGION ||
+    process.env.SPEECH_REGION ||
+    process.env.NEXT_PUBLIC_AZURE_SPEECH_REGION ||
+    "";
+  const endpoint =
+    process.env.AZURE_SPEECH_ENDPOINT ||
+    process.env.SPEECH_ENDPOINT ||
+    process.env.NEXT_PUBLIC_AZURE_SPEECH_ENDPOINT ||
+    "";
+  return { key, region, endpoint };
+};
+
+export const isAzureSpeechConfigured = (): boolean => {
+  const { key, region, endpoint } = resolveAzureSpeechConfig();
+  return Boolean(key && (region || endpoint));
+};
@@ -0,0 +1,239 @@
+import * as SpeechSDK from "microsoft-cognitiveservices-speech-sdk";
+import {
+  SPEECH_ASSESSMENT_PROVIDER_LABELS,
+  clampScore,
+  type SpeechAssessmentPhoneme,
+  type SpeechAssessmentProvider,
+  type SpeechAssessmentRequest,
+  type SpeechAssessmentResult,
+  type SpeechAssessmentWord,
+} from "./provider";
+import { tokenizeWords } from "./text-alignment";
+
+export type AzureSpeechToken = { token: string; region: string };
+
+const DEFAULT_MAX_DURATION_MS = 120000;
+
+/** Azure reports durations in 100-nanosecond ticks. */
+const TICKS_PER_MS = 10000;
+
+type AzureJsonWord = {
+  Word?: string;
+  PronunciationAssessment?: { AccuracyScore?: number; ErrorType?: string };
+  Phonemes?: Array<{ Phoneme?: string; PronunciationAssessment?: { AccuracyScore?: number; ErrorType?: string } }>;
+};
+
+const readJsonWords = (jsonResult: string | undefined | null): AzureJsonWord[] => {
+  if (!jsonResult) return [];
+  try {
+    const parsed = JSON.parse(jsonResult) as { NBest?: Array<{ Words?: AzureJsonWord[] }> };
+    return parsed?.NBest?.[0]?.Words ?? [];
+  } catch {
+    return [];
+  }
+};
+
+const toRoundedScore = (value: unknown) => (typeof value === "number" ? Math.round(value) : null);
+
+export const parseAzureWordFeedback = (jsonResult: string | undefined | null): SpeechAssessmentWord[] =>
+  readJsonWords(jsonResult)
+    .map((word) => ({
+      word: word?.Word ?? "",
+      accuracyScore: toRoundedScore(word?.PronunciationAssessment?.AccuracyScore),
+      errorType: word?.PronunciationAssessment?.ErrorType ?? null,
+    }))
+    .filter((item) => item.word);
+
+export const parseAzurePhonemeFeedback = (jsonResult: string | undefined | null): SpeechAssessmentPhoneme[] =>
+  readJsonWords(jsonResult)
+    .flatMap((word) => (Array.isArray(word?.Phonemes) ? word.Phonemes : []))
+    .map((item) => ({
+      phoneme: String(item?.Phoneme ?? "").trim(),
+      accuracyScore: toRoundedScore(item?.PronunciationAssessment?.AccuracyScore),
+      errorType: item?.PronunciationAssessment?.ErrorType ?? null,
+    }))
+    .filter((item) => item.phoneme);
+
+/**
+ * Azure only reports the words it heard; expected words it never matched are
+ * added back in passage order as omissions.
+ */
+export const applyOmissionsToWordFeedback = (
+  mapped: SpeechAssessmentWord[],
+  expectedText: string,
+): SpeechAssessmentWord[] => {
+  const expectedWords = tokenizeWords(expectedText);
+  if (!expectedWords.length) return mapped;
+
+  const normalizedMapped = mapped.map((item) => item.word.toLowerCase());
+  const output: SpeechAssessmentWord[] = [];
+  let j = 0;
+
+  for (const expected of expectedWords) {
+    if (j < normalizedMapped.length && normalizedMapped[j] === expected) {
+      output.push(mapped[j]);
+      j += 1;
+    } else {
+      output.push({ word: expected, accuracyScore: 0, errorType: "Omitted" });
+    }
+  }
+
+  return output;
+};
+
+/**
+ * Pronunciation assessment through the Azure Speech SDK. `getToken` supplies a
+ * short-lived authorization token from `/api/azure-speech/token`, so a missing
+ * key or exhausted quota surfaces as a rejected `assess` call.
+ */
+export function createAzureSpeechAssessmentProvider(
+  getToken: () => Promise<AzureSpeechToken>,
+): SpeechAssessmentProvider {
+  return {
+    id: "azure",
+    label: SPEECH_ASSESSMENT_PROVIDER_LABELS.azure,
+    isSupported: () => typeof window !== "undefined" && Boolean(navigator.mediaDevices),
+    assess: async (request: SpeechAssessmentRequest): Promise<SpeechAssessmentResult | null> => {
+      const { token, region } = await getToken();
+      const speechConfig = SpeechSDK.SpeechConfig.fromAuthorizationToken(token, region);
+      speechConfig.speechRecognitionLanguage = request.language;
+
+      const audioConfig = SpeechSDK.AudioConfig.fromDefaultMicrophoneInput();
+      const recognizer = new SpeechSDK.SpeechRecognizer(speechConfig, audioConfig);
+
+      const paConfig = new SpeechSDK.PronunciationAssessmentConfig(
+        request.expectedText,
+        SpeechSDK.PronunciationAssessmentGradingSystem.HundredMark,
+        SpeechSDK.PronunciationAssessmentGranularity.Word,
+        true,
+      );
+      (paConfig as unknown as { enableProsodyAssessment: boolean }).enableProsodyAssessment = true;
+      paConfig.applyTo(recognizer);
+
+      try {
+        const aggregate = await new Promise<{
+          spoken: string;
+          durationTicks: number;
+          wordCount: number;
+          scores: { pronunciation: number; accuracy: number; fluency: number; completeness: number };
+          words: SpeechAssessmentWord[];
+          phonemes: SpeechAssessmentPhoneme[];
+        } | null>((resolve, reject) => {
+          let settled = false;
+          let totalDuration = 0;
+          let totalWords = 0;
+          let totalText = "";
+          const weighted = { pronunciation: 0, accuracy: 0, fluency: 0, completeness: 0 };
+          const allWords: SpeechAssessmentWord[] = [];
+          const allPhonemes: SpeechAssessmentPhoneme[] = [];
+
+          const finish = () => {
+            if (settled) return;
+            settled = true;
+            window.clearTimeout(maxTimer);
+            request.stopSignal?.removeEventListener("abort", finish);
+            recognizer.stopContinuousRecognitionAsync(
+              () => {
+                if (!totalWords) {
+                  resolve(null);
+                  return;
+                }
+                resolve({
+                  spoken: totalText.trim(),
+                  durationTicks: totalDuration,
+                  wordCount: totalWords,
+                  scores: {
+                    pronunciation: weighted.pronunciation / totalWords,
+                    accuracy: weighted.accuracy / totalWords,
+                    fluency: weighted.fluency / totalWords,
+                    completeness: weighted.completeness / totalWords,
+                  },
+                  words: applyOmissionsToWordFeedback(allWords, request.expectedText),
+                  phonemes: allPhonemes,
+                });
+              },
+              (error) => reject(error),
+            );
+          };
+
+          const maxTimer = window.setTimeout(finish, request.maxDurationMs ?? DEFAULT_MAX_DURATION_MS);
+          if (request.stopSignal?.aborted) {
+            finish();
+            return;
+          }
+          request.stopSignal?.addEventListener("abort", finish);
+
+          recognizer.recognized = (_sender, event) => {
+            if (settled) return;
+            if (event.result?.reason !== SpeechSDK.ResultReason.RecognizedSpeech) return;
+            const result = event.result;
+            const segmentText = result.text ?? "";
+            if (segmentText) {
+              totalText = totalText ? `${totalText} ${segmentText}` : segmentText;
+            }
+            const segmentWordCount = tokenizeWords(segmentText).length;
+            if (segmentWordCount > 0) {
+              const paResult = SpeechSDK.PronunciationAssessmentResult.fromResult(result);
+              weighted.pronunciation += (paResult.pronunciationScore ?? 0) * segmentWordCount;
+              weighted.accuracy += (paResult.accuracyScore ?? 0) * segmentWordCount;
+              weighted.fluency += (paResult.fluencyScore ?? 0) * segmentWordCount;
+              weighted.completeness += (paResult.completenessScore ?? 0) * segmentWordCount;
+              totalWords += segmentWordCount;
+            }
+            totalDuration += result.duration ?? 0;
+            const jsonResult = result.properties.getProperty(SpeechSDK.PropertyId.SpeechServiceResponse_JsonResult);
+            allWords.push(...parseAzureWordFeedback(jsonResult));
+            allPhonemes.push(...parseAzurePhonemeFeedback(jsonResult));
+          };
+
+          recognizer.recognizing = (_sender, event) => {
+            if (settled) return;
+            const interimText = event.result?.text ?? "";
+            if (interimText) request.onInterim?.(interimText);
+          };
+
+          recognizer.canceled = () => finish();
+
+          recognizer.startContinuousRecognitionAsync(
+            () => request.onListening?.(),
+            (error) => {
+              settled = true;
+              window.clearTimeout(maxTimer);
+              reject(error);
+            },
+          );
+        });
+
+        if (!aggregate) return null;
+
+        const durationMs = aggregate.durationTicks / TICKS_PER_MS;
+        const expectedWordCount = Math.max(1, tokenizeWords(request.expectedText).length);
+        const scoredWords = aggregate.words.filter((item) => typeof item.accuracyScore === "number");
+        const wordAccuracyAvg = scoredWords.length
+          ? scoredWords.reduce((sum, item) => sum + (item.accuracyScore ?? 0), 0) / scoredWords.length
+          : 0;
+        const omittedCount = aggregate.words.filter((item) => (item.accuracyScore ?? 0) === 0).length;
+
+        return {
+          provider: "azure",
+          transcription: aggregate.spoken,
+          wordCount: aggregate.wordCount,
+          durationMs,
+          pronunciationScore: clampScore(aggregate.scores.pronunciation),
+          accuracyScore: clampScore(aggregate.scores.accuracy * 0.6 + wordAccuracyAvg * 0.4),
+          fluencyScore: clampScore(wordAccuracyAvg),
+          completenessScore: clampScore(100 - (omittedCount / expectedWordCount) * 100),
+          readingSpeedWpm: durationMs > 0 ? Math.round((aggregate.wordCount / durationMs) * 60000) : 0,
+          words: aggregate.words,
+          phonemes: aggregate.phonemes,
+        };
+      } finally {
+        try {
+          recognizer.close();
+        } catch {
+          // ignore
+        }
+      }
+    },
+  };
+}
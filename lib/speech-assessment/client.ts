@@ -0,0 +1,102 @@
+import {
+  DEFAULT_SPEECH_ASSESSMENT_SETTINGS,
+  SPEECH_ASSESSMENT_PROVIDER_LABELS,
+  normalizeSpeechAssessmentSettings,
+  resolveSpeechAssessmentProviderOrder,
+  type SpeechAssessmentProvider,
+  type SpeechAssessmentProviderId,
+  type SpeechAssessmentRequest,
+  type SpeechAssessmentResult,
+  type SpeechAssessmentSettings,
+} from "./provider";
+import { webSpeechAssessmentProvider } from "./web-speech-provider";
+
+const SETTINGS_ENDPOINT = "/api/speech-assessment/settings";
+const SETTINGS_CACHE_MS = 60000;
+
+export type SpeechAssessmentSettingsResponse = {
+  settings: SpeechAssessmentSettings;
+  azureConfigured: boolean;
+};
+
+let cachedSettings: { value: SpeechAssessmentSettingsResponse; expiresAt: number } | null = null;
+
+const parseSettingsResponse = (payload: unknown): SpeechAssessmentSettingsResponse => {
+  const body = (payload ?? {}) as { data?: unknown; azureConfigured?: unknown };
+  return {
+    settings: normalizeSpeechAssessmentSettings(body.data),
+    azureConfigured: body.azureConfigured !== false,
+  };
+};
+
+export async function fetchSpeechAssessmentSettings(options: { force?: boolean } = {}): Promise<SpeechAssessmentSettingsResponse> {
+  const now = Date.now();
+  if (!options.force && cachedSettings && cachedSettings.expiresAt > now) {
+    return cachedSettings.value;
+  }
+  try {
+    const response = await fetch(SETTINGS_ENDPOINT, { cache: "no-store" });
+    const payload = await response.json().catch(() => null);
+    if (!response.ok || !payload?.success) {
+      throw new Error(payload?.error ?? "Failed to load speech assessment settings.");
+    }
+    const value = parseSettingsResponse(payload);
+    cachedSettings = { value, expiresAt: now + SETTINGS_CACHE_MS };
+    return value;
+  } catch (error) {
+    console.warn("Using default speech assessment settings", error);
+    return { settings: { ...DEFAULT_SPEECH_ASSESSMENT_SETTINGS }, azureConfigured: true };
+  }
+}
+
+export async function updateSpeechAssessmentSettings(
+  settings: SpeechAssessmentSettings,
+): Promise<SpeechAssessmentSettingsResponse> {
+  const response = await fetch(SETTINGS_ENDPOINT, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(settings),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload?.success) {
+    throw new Error(payload?.error ?? "Failed to update speech assessment settings.");
+  }
+  const value = parseSettingsResponse(payload);
+  cachedSettings = { value, expiresAt: Date.now() + SETTINGS_CACHE_MS };
+  return value;
+}
+
+/**
+ * Scores one reading with the admin-selected provider, moving on to the next
+ * provider in `resolveSpeechAssessmentProviderOrder` when one throws.
+ */
+export async function assessWithConfiguredProvider(
+  request: SpeechAssessmentRequest,
+  options: {
+    azure: SpeechAssessmentProvider;
+    onFallback?: (failed: SpeechAssessmentProviderId, next: SpeechAssessmentProviderId, error: unknown) => void;
+  },
+): Promise<SpeechAssessmentResult | null> {
+  const { settings, azureConfigured } = await fetchSpeechAssessmentSettings();
+  const providers: Record<SpeechAssessmentProviderId, SpeechAssessmentProvider> = {
+    azure: options.azure,
+    web_speech: webSpeechAssessmentProvider,
+  };
+  const order = resolveSpeechAssessmentProviderOrder(settings, azureConfigured).filter(
+    (id, index, list) => providers[id].isSupported() || index === list.length - 1,
+  );
+
+  for (let index = 0; index < order.length; index++) {
+    const providerId = order[index];
+    try {
+      return await providers[providerId].assess(request);
+    } catch (error) {
+      const next = order[index + 1];
+      if (!next || request.stopSignal?.aborted) throw error;
+      console.warn(`${SPEECH_ASSESSMENT_PROVIDER_LABELS[providerId]} failed`, error);
+      options.onFallback?.(providerId, next, error);
+    }
+  }
+
+  return null;
+}
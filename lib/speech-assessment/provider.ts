@@ -0,0 +1,104 @@
+export const SPEECH_ASSESSMENT_PROVIDER_IDS = ["azure", "web_speech"] as const;
+
+export type SpeechAssessmentProviderId = (typeof SPEECH_ASSESSMENT_PROVIDER_IDS)[number];
+
+export const DEFAULT_SPEECH_ASSESSMENT_PROVIDER: SpeechAssessmentProviderId = "azure";
+
+export const SPEECH_ASSESSMENT_PROVIDER_LABELS: Record<SpeechAssessmentProviderId, string> = {
+  azure: "Azure Speech pronunciation assessment",
+  web_speech: "Browser speech recognition (offline scorer)",
+};
+
+export type SpeechAssessmentSettings = {
+  provider: SpeechAssessmentProviderId;
+  /** Score with the browser provider when the selected provider fails (missing key, quota, network). */
+  fallbackToWebSpeech: boolean;
+};
+
+export const DEFAULT_SPEECH_ASSESSMENT_SETTINGS: SpeechAssessmentSettings = {
+  provider: DEFAULT_SPEECH_ASSESSMENT_PROVIDER,
+  fallbackToWebSpeech: true,
+};
+
+export type SpeechAssessmentWord = {
+  word: string;
+  accuracyScore: number | null;
+  errorType?: string | null;
+};
+
+export type SpeechAssessmentPhoneme = {
+  phoneme: string;
+  accuracyScore: number | null;
+  errorType?: string | null;
+};
+
+/**
+ * Scores in the shape `SlidePerformance` stores, plus the word and phoneme
+ * detail the flashcard tutor feedback is built from.
+ */
+export type SpeechAssessmentResult = {
+  provider: SpeechAssessmentProviderId;
+  transcription: string;
+  wordCount: number;
+  durationMs: number;
+  pronunciationScore: number;
+  accuracyScore: number;
+  fluencyScore: number;
+  completenessScore: number;
+  readingSpeedWpm: number;
+  words: SpeechAssessmentWord[];
+  phonemes: SpeechAssessmentPhoneme[];
+};
+
+export type SpeechAssessmentRequest = {
+  expectedText: string;
+  /** BCP-47 recognition language, e.g. `en-US` or `fil-PH`. */
+  language: string;
+  /** Aborting stops listening and scores whatever was heard so far. */
+  stopSignal?: AbortSignal;
+  onListening?: () => void;
+  onInterim?: (text: string) => void;
+  maxDurationMs?: number;
+};
+
+export interface SpeechAssessmentProvider {
+  readonly id: SpeechAssessmentProviderId;
+  readonly label: string;
+  isSupported(): boolean;
+  /** Resolves with `null` when no speech was detected. */
+  assess(request: SpeechAssessmentRequest): Promise<SpeechAssessmentResult | null>;
+}
+
+export const isSpeechAssessmentProviderId = (value: unknown): value is SpeechAssessmentProviderId =>
+  typeof value === "string" && (SPEECH_ASSESSMENT_PROVIDER_IDS as readonly string[]).includes(value);
+
+export const normalizeSpeechAssessmentSettings = (raw: unknown): SpeechAssessmentSettings => {
+  const source = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  return {
+    provider: isSpeechAssessmentProviderId(source.provider) ? source.provider : DEFAULT_SPEECH_ASSESSMENT_PROVIDER,
+    fallbackToWebSpeech:
+      typeof source.fallbackToWebSpeech === "boolean"
+        ? source.fallbackToWebSpeech
+        : DEFAULT_SPEECH_ASSESSMENT_SETTINGS.fallbackToWebSpeech,
+  };
+};
+
+export const clampScore = (value: number): number => Math.min(100, Math.max(0, Math.round(value)));
+
+/**
+ * Providers to try, in order, for the configured settings. Azure is skipped
+ * when the server has no key, so sessions fall through to the browser scorer
+ * instead of failing on every slide.
+ */
+export const resolveSpeechAssessmentProviderOrder = (
+  settings: SpeechAssessmentSettings,
+  azureConfigured: boolean,
+): SpeechAssessmentProviderId[] => {
+  if (settings.provider === "web_speech") {
+    return ["web_speech"];
+  }
+  if (!settings.fallbackToWebSpeech) {
+    return ["azure"];
+  }
+  return azureConfigured ? ["azure", "web_speech"] : ["web_speech"];
+};
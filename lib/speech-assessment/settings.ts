@@ -0,0 +1,65 @@
+import type { RowDataPacket } from "mysql2/promise";
+import { query } from "@/lib/db";
+import {
+  DEFAULT_SPEECH_ASSESSMENT_SETTINGS,
+  normalizeSpeechAssessmentSettings,
+  type SpeechAssessmentSettings,
+} from "./provider";
+
+const SETTINGS_TABLE = "speech_assessment_settings";
+const SETTINGS_ROW_ID = 1;
+
+let settingsSchemaPromise: Promise<void> | null = null;
+
+const ensureSpeechAssessmentSettingsTable = async () => {
+  if (!settingsSchemaPromise) {
+    settingsSchemaPromise = query(
+      `CREATE TABLE IF NOT EXISTS ${SETTINGS_TABLE} (
+        setting_id TINYINT UNSIGNED NOT NULL,
+        provider VARCHAR(32) NOT NULL,
+        fallback_to_web_speech TINYINT(1) NOT NULL DEFAULT 1,
+        updated_by BIGINT UNSIGNED NULL,
+        updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (setting_id)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    )
+      .then(() => undefined)
+      .catch((error) => {
+        settingsSchemaPromise = null;
+        throw error;
+      });
+  }
+  await settingsSchemaPromise;
+};
+
+export async function getSpeechAssessmentSettings(): Promise<SpeechAssessmentSettings> {
+  await ensureSpeechAssessmentSettingsTable();
+  const [rows] = await query<RowDataPacket[]>(
+    `SELECT provider, fallback_to_web_speech FROM ${SETTINGS_TABLE} WHERE setting_id = ? LIMIT 1`,
+    [SETTINGS_ROW_ID],
+  );
+  if (!rows.length) {
+    return { ...DEFAULT_SPEECH_ASSESSMENT_SETTINGS };
+  }
+  return normalizeSpeechAssessmentSettings({
+    provider: rows[0].provider,
+    fallbackToWebSpeech: Boolean(Number(rows[0].fallback_to_web_speech)),
+  });
+}
+
+export async function saveSpeechAssessmentSettings(
+  settings: SpeechAssessmentSettings,
+  updatedBy: number | null,
+): Promise<SpeechAssessmentSettings> {
+  await ensureSpeechAssessmentSettingsTable();
+  await query(
+    `INSERT INTO ${SETTINGS_TABLE} (setting_id, provider, fallback_to_web_speech, updated_by)
+     VALUES (?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       provider = VALUES(provider),
+       fallback_to_web_speech = VALUES(fallback_to_web_speech),
+       updated_by = VALUES(updated_by)`,
+    [SETTINGS_ROW_ID, settings.provider, settings.fallbackToWebSpeech ? 1 : 0, updatedBy],
+  );
+  return settings;
+}
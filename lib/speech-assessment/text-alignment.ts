@@ -0,0 +1,186 @@
+import { clampScore, type SpeechAssessmentWord } from "./provider";
+
+/** Spoken words at least this similar to the expected word count as read correctly. */
+export const CORRECT_WORD_SIMILARITY = 0.85;
+
+export type AlignmentOperation =
+  | { type: "match"; expected: string; spoken: string; expectedIndex: number; spokenIndex: number; similarity: number }
+  | { type: "substitution"; expected: string; spoken: string; expectedIndex: number; spokenIndex: number; similarity: number }
+  | { type: "omission"; expected: string; expectedIndex: number }
+  | { type: "insertion"; spoken: string; spokenIndex: number };
+
+export type TextScoringInput = {
+  expectedText: string;
+  transcript: string;
+  /** Time from the first to the last recognised sound. */
+  durationMs: number;
+  /** Silence heard between words, when the caller measured it. */
+  pauseMs?: number | null;
+  /** Recogniser confidence between 0 and 1, when available. */
+  confidence?: number | null;
+};
+
+export type TextScoringResult = {
+  pronunciationScore: number;
+  accuracyScore: number;
+  fluencyScore: number;
+  completenessScore: number;
+  readingSpeedWpm: number;
+  wordCount: number;
+  words: SpeechAssessmentWord[];
+  alignment: AlignmentOperation[];
+};
+
+/**
+ * Lowercases, strips diacritics and punctuation, and splits into words.
+ * Apostrophes and digits are kept so "it's" and "2" survive.
+ */
+export function tokenizeWords(text: string): string[] {
+  return (text ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[–—-]/g, " ")
+    .replace(/[^a-z0-9'\s]/g, " ")
+    .split(/\s+/)
+    .map((word) => word.replace(/^'+|'+$/g, ""))
+    .filter(Boolean);
+}
+
+function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Character-level similarity between two words, from 0 to 1. */
+export function wordSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return Math.max(0, 1 - editDistance(a, b) / longest);
+}
+
+/**
+ * Weight on a substitution's dissimilarity. Above 1 so that an identical word
+ * further along is preferred over a chain of unrelated substitutions; below 2
+ * so a misread word is still a substitution rather than an omission plus an insertion.
+ */
+const SUBSTITUTION_WEIGHT = 1.5;
+
+const substitutionCost = (expected: string, spoken: string) =>
+  SUBSTITUTION_WEIGHT * (1 - wordSimilarity(expected, spoken));
+
+/**
+ * Minimum-cost word alignment of the expected passage against a transcript.
+ * Omissions and insertions cost 1; substituting one word for another costs
+ * its weighted dissimilarity, so near-misses line up with the word they were meant to be.
+ */
+export function alignWords(expected: string[], spoken: string[]): AlignmentOperation[] {
+  const m = expected.length;
+  const n = spoken.length;
+  const cost: number[][] = Array.from({ length: m + 1 }, () => new Array<number>(n + 1).fill(0));
+  for (let i = 1; i <= m; i++) cost[i][0] = i;
+  for (let j = 1; j <= n; j++) cost[0][j] = j;
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      const substitute = cost[i - 1][j - 1] + substitutionCost(expected[i - 1], spoken[j - 1]);
+      cost[i][j] = Math.min(cost[i - 1][j] + 1, cost[i][j - 1] + 1, substitute);
+    }
+  }
+
+  const operations: AlignmentOperation[] = [];
+  let i = m;
+  let j = n;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const similarity = wordSimilarity(expected[i - 1], spoken[j - 1]);
+      if (Math.abs(cost[i][j] - (cost[i - 1][j - 1] + substitutionCost(expected[i - 1], spoken[j - 1]))) < 1e-9) {
+        operations.push({
+          type: similarity >= CORRECT_WORD_SIMILARITY ? "match" : "substitution",
+          expected: expected[i - 1],
+          spoken: spoken[j - 1],
+          expectedIndex: i - 1,
+          spokenIndex: j - 1,
+          similarity,
+        });
+        i -= 1;
+        j -= 1;
+        continue;
+      }
+    }
+    if (i > 0 && (j === 0 || Math.abs(cost[i][j] - (cost[i - 1][j] + 1)) < 1e-9)) {
+      operations.push({ type: "omission", expected: expected[i - 1], expectedIndex: i - 1 });
+      i -= 1;
+    } else {
+      operations.push({ type: "insertion", spoken: spoken[j - 1], spokenIndex: j - 1 });
+      j -= 1;
+    }
+  }
+
+  return operations.reverse();
+}
+
+/**
+ * Scores a read-aloud attempt from its transcript alone, for recognisers that
+ * do not assess pronunciation themselves. Accuracy is the mean similarity of
+ * each expected word to what was said in its place.
+ */
+export function scoreTranscriptAgainstText(input: TextScoringInput): TextScoringResult {
+  const expected = tokenizeWords(input.expectedText);
+  const spoken = tokenizeWords(input.transcript);
+  const alignment = alignWords(expected, spoken);
+
+  const words: SpeechAssessmentWord[] = [];
+  let insertions = 0;
+  for (const operation of alignment) {
+    if (operation.type === "insertion") {
+      insertions += 1;
+    } else if (operation.type === "omission") {
+      words.push({ word: operation.expected, accuracyScore: 0, errorType: "Omitted" });
+    } else {
+      words.push({
+        word: operation.expected,
+        accuracyScore: clampScore(operation.similarity * 100),
+        errorType: operation.type === "match" ? "None" : "Mispronounced",
+      });
+    }
+  }
+
+  const expectedCount = Math.max(1, expected.length);
+  const accuracyScore = expected.length
+    ? clampScore(words.reduce((sum, word) => sum + (word.accuracyScore ?? 0), 0) / expectedCount)
+    : 0;
+  const omitted = words.filter((word) => word.errorType === "Omitted").length;
+  const completenessScore = expected.length ? clampScore(100 - (omitted / expectedCount) * 100) : 0;
+
+  const durationMs = Math.max(0, input.durationMs);
+  const pauseRatio = durationMs > 0 && input.pauseMs ? Math.min(1, input.pauseMs / durationMs) : 0;
+  const insertionPenalty = (insertions / expectedCount) * 50;
+  const fluencyScore = spoken.length ? clampScore((1 - pauseRatio) * 100 - insertionPenalty) : 0;
+
+  const baseScore = accuracyScore * 0.6 + fluencyScore * 0.2 + completenessScore * 0.2;
+  const confidence = typeof input.confidence === "number" && input.confidence > 0 ? Math.min(1, input.confidence) : null;
+  const pronunciationScore = clampScore(confidence === null ? baseScore : baseScore * 0.85 + confidence * 100 * 0.15);
+
+  const readingSpeedWpm = durationMs > 0 ? Math.round((spoken.length / durationMs) * 60000) : 0;
+
+  return {
+    pronunciationScore,
+    accuracyScore,
+    fluencyScore,
+    completenessScore,
+    readingSpeedWpm,
+    wordCount: spoken.length,
+    words,
+    alignment,
+  };
+}
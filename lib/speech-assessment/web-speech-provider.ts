@@ -0,0 +1,207 @@
+import {
+  SPEECH_ASSESSMENT_PROVIDER_LABELS,
+  type SpeechAssessmentProvider,
+  type SpeechAssessmentRequest,
+  type SpeechAssessmentResult,
+} from "./provider";
+import { scoreTranscriptAgainstText } from "./text-alignment";
+
+const DEFAULT_MAX_DURATION_MS = 45000;
+
+/** Gaps between recognised phrases longer than this count as hesitation. */
+const PAUSE_THRESHOLD_MS = 700;
+
+type RecognitionAlternative = { transcript: string; confidence?: number };
+type RecognitionResult = { isFinal: boolean; 0: RecognitionAlternative; length: number };
+type RecognitionEvent = { resultIndex: number; results: ArrayLike<RecognitionResult> };
+
+type BrowserSpeechRecognition = {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onstart: (() => void) | null;
+  onspeechstart: (() => void) | null;
+  onresult: ((event: RecognitionEvent) => void) | null;
+  onerror: ((event: { error?: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+};
+
+type SpeechRecognitionConstructor = new () => BrowserSpeechRecognition;
+
+/**
+ * Reading time for the WPM score: first speech to the last final result, or the whole
+ * recording when the results do not span any time (a single final result arrives with
+ * the speech start, so that span is zero).
+ */
+export const measureReadingDurationMs = (timings: {
+  speechStartedAt: number | null;
+  lastResultAt: number | null;
+  recordingStartedAt: number;
+  recordingStoppedAt: number;
+}): number => {
+  const { speechStartedAt, lastResultAt, recordingStartedAt, recordingStoppedAt } = timings;
+  if (speechStartedAt !== null && lastResultAt !== null && lastResultAt > speechStartedAt) {
+    return lastResultAt - speechStartedAt;
+  }
+  return Math.max(0, recordingStoppedAt - recordingStartedAt);
+};
+
+const getRecognitionConstructor = (): SpeechRecognitionConstructor | null => {
+  if (typeof window === "undefined") return null;
+  const source = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return source.SpeechRecognition ?? source.webkitSpeechRecognition ?? null;
+};
+
+/**
+ * Scores reading with the browser's built-in speech recognition. The browser
+ * only returns a transcript, so the scores come from aligning it with the
+ * expected text (see `scoreTranscriptAgainstText`); no Azure key is needed.
+ */
+export const webSpeechAssessmentProvider: SpeechAssessmentProvider = {
+  id: "web_speech",
+  label: SPEECH_ASSESSMENT_PROVIDER_LABELS.web_speech,
+  isSupported: () => getRecognitionConstructor() !== null,
+  assess: (request: SpeechAssessmentRequest) =>
+    new Promise<SpeechAssessmentResult | null>((resolve, reject) => {
+      const Recognition = getRecognitionConstructor();
+      if (!Recognition) {
+        reject(new Error("Speech recognition is not supported in this browser."));
+        return;
+      }
+
+      const recognition = new Recognition();
+      recognition.lang = request.language;
+      recognition.continuous = true;
+      recognition.interimResults = true;
+      recognition.maxAlternatives = 1;
+
+      const finalSegments: string[] = [];
+      const confidences: number[] = [];
+      let recordingStartedAt = performance.now();
+      let recordingStoppedAt: number | null = null;
+      let speechStartedAt: number | null = null;
+      let lastResultAt: number | null = null;
+      let pauseMs = 0;
+      let failure: Error | null = null;
+      let settled = false;
+
+      const stop = () => {
+        recordingStoppedAt ??= performance.now();
+        try {
+          recognition.stop();
+        } catch {
+          // ignore
+        }
+      };
+      const maxTimer = window.setTimeout(stop, request.maxDurationMs ?? DEFAULT_MAX_DURATION_MS);
+      request.stopSignal?.addEventListener("abort", stop);
+      const release = () => {
+        window.clearTimeout(maxTimer);
+        request.stopSignal?.removeEventListener("abort", stop);
+      };
+
+      recognition.onstart = () => {
+        recordingStartedAt = performance.now();
+        request.onListening?.();
+      };
+      recognition.onspeechstart = () => {
+        speechStartedAt ??= performance.now();
+      };
+
+      recognition.onresult = (event) => {
+        const now = performance.now();
+        speechStartedAt ??= now;
+        let interim = "";
+        for (let index = event.resultIndex; index < event.results.length; index++) {
+          const result = event.results[index];
+          const alternative = result[0];
+          if (!alternative) continue;
+          if (result.isFinal) {
+            if (lastResultAt !== null && now - lastResultAt > PAUSE_THRESHOLD_MS) {
+              pauseMs += now - lastResultAt - PAUSE_THRESHOLD_MS;
+            }
+            lastResultAt = now;
+            finalSegments.push(alternative.transcript.trim());
+            if (typeof alternative.confidence === "number" && alternative.confidence > 0) {
+              confidences.push(alternative.confidence);
+            }
+          } else {
+            interim += alternative.transcript;
+          }
+        }
+        const heard = [...finalSegments, interim.trim()].filter(Boolean).join(" ");
+        if (heard) request.onInterim?.(heard);
+      };
+
+      recognition.onerror = (event) => {
+        if (event?.error === "no-speech" || event?.error === "aborted") return;
+        failure = new Error(`Speech recognition failed: ${event?.error ?? "unknown error"}`);
+      };
+
+      recognition.onend = () => {
+        if (settled) return;
+        settled = true;
+        release();
+
+        const transcript = finalSegments.filter(Boolean).join(" ").trim();
+        if (!transcript) {
+          if (failure) reject(failure);
+          else resolve(null);
+          return;
+        }
+
+        const durationMs = measureReadingDurationMs({
+          speechStartedAt,
+          lastResultAt,
+          recordingStartedAt,
+          recordingStoppedAt: recordingStoppedAt ?? performance.now(),
+        });
+        const confidence = confidences.length
+          ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+          : null;
+        const scored = scoreTranscriptAgainstText({
+          expectedText: request.expectedText,
+          transcript,
+          durationMs,
+          pauseMs,
+          confidence,
+        });
+
+        resolve({
+          provider: "web_speech",
+          transcription: transcript,
+          wordCount: scored.wordCount,
+          durationMs,
+          pronunciationScore: scored.pronunciationScore,
+          accuracyScore: scored.accuracyScore,
+          fluencyScore: scored.fluencyScore,
+          completenessScore: scored.completenessScore,
+          readingSpeedWpm: scored.readingSpeedWpm,
+          words: scored.words,
+          phonemes: [],
+        });
+      };
+
+      if (request.stopSignal?.aborted) {
+        settled = true;
+        release();
+        resolve(null);
+        return;
+      }
+
+      try {
+        recognition.start();
+      } catch (error) {
+        settled = true;
+        release();
+        reject(error instanceof Error ? error : new Error("Unable to start speech recognition."));
+      }
+    }),
+};
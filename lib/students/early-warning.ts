@@ -0,0 +1,586 @@
+import type { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { getTableColumns, query, runWithConnection, tableExists } from "@/lib/db";
+import { toPhonemicSubjectName } from "@/lib/phonemic-levels";
+import { getSchoolTodayDateKey } from "@/lib/remedial-schedule";
+import { schoolYearStart } from "@/lib/server/data-retention";
+import { upsertParentNotification } from "@/lib/server/parent-notifications";
+import { insertTeacherNotifications } from "@/lib/server/teacher-notifications";
+import { calculateSlope } from "./phonemic-regression";
+
+export type EarlyWarningRule = {
+  /** Consecutive recorded absences, newest first, that flag a learner. */
+  absenceStreak: number;
+  /** Fitted change in session average per session at or below which scores count as declining. */
+  slopeThreshold: number;
+  /** Most recent session averages the slope is fitted over. */
+  windowSize: number;
+  /** Assessment percentage below which an attempt counts as failed. */
+  passingPercent: number;
+  /** Failed attempts among the most recent `attemptWindow` that flag a learner. */
+  failedAttempts: number;
+  attemptWindow: number;
+  /** Days without a completed remedial session that flag a learner. */
+  inactiveDays: number;
+};
+
+export const DEFAULT_EARLY_WARNING_RULE: EarlyWarningRule = {
+  absenceStreak: 3,
+  slopeThreshold: -3,
+  windowSize: 5,
+  passingPercent: 60,
+  failedAttempts: 2,
+  attemptWindow: 5,
+  inactiveDays: 14,
+};
+
+export type EarlyWarningReason = "absence_streak" | "declining_scores" | "failed_assessments" | "inactive";
+
+/** Points each reason adds at full severity; together they make up a 0-100 risk score. */
+export const EARLY_WARNING_REASON_WEIGHTS: Record<EarlyWarningReason, number> = {
+  absence_streak: 35,
+  declining_scores: 30,
+  failed_assessments: 20,
+  inactive: 15,
+};
+
+export type EarlyWarningSignals = {
+  absenceStreak: number;
+  /** Least-squares slope of the recent session averages, `null` with too few sessions. */
+  slope: number | null;
+  failedAttempts: number;
+  daysSinceLastSession: number | null;
+};
+
+export type EarlyWarningEvaluation = EarlyWarningSignals & {
+  riskScore: number;
+  reasons: EarlyWarningReason[];
+};
+
+export type EarlyWarningHistory = {
+  /** Attendance marks for the subject, in any order. */
+  attendance: Array<{ date: Date; present: boolean }>;
+  /** Completed session averages, oldest first. */
+  sessionAverages: number[];
+  lastSessionAt: Date | null;
+  /** Submitted assessment percentages, oldest first. */
+  assessmentPercents: number[];
+};
+
+export type EarlyWarningEntry = EarlyWarningEvaluation & {
+  studentId: string;
+  studentName: string;
+  subjectId: number;
+  subject: string | null;
+  gradeId: number | null;
+  gradeLevel: string | null;
+  runDate: string;
+  /** True when the learner was not on the previous day's list. */
+  isNew: boolean;
+};
+
+export type EarlyWarningSettings = {
+  notifyTeachers: boolean;
+  notifyParents: boolean;
+};
+
+export type EarlyWarningRunSummary = {
+  runDate: string;
+  studentsScored: number;
+  atRisk: number;
+  teachersNotified: number;
+  parentsNotified: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ENTRY_TABLE = "student_early_warning";
+const RUN_TABLE = "early_warning_run";
+const SETTINGS_TABLE = "early_warning_settings";
+
+/** Longest a day's claimed run may stay unfinished before another caller may take it over. */
+const STALE_RUN_MINUTES = 30;
+
+export function measureEarlyWarningSignals(
+  history: EarlyWarningHistory,
+  now: Date,
+  rule: EarlyWarningRule = DEFAULT_EARLY_WARNING_RULE,
+): EarlyWarningSignals {
+  const attendance = [...history.attendance].sort((left, right) => right.date.getTime() - left.date.getTime());
+  let absenceStreak = 0;
+  while (absenceStreak < attendance.length && !attendance[absenceStreak].present) {
+    absenceStreak += 1;
+  }
+
+  const averages = history.sessionAverages.filter((value) => Number.isFinite(value));
+  const attempts = history.assessmentPercents.filter((value) => Number.isFinite(value)).slice(-rule.attemptWindow);
+
+  return {
+    absenceStreak,
+    slope: calculateSlope(averages.slice(-rule.windowSize)),
+    failedAttempts: attempts.filter((percent) => percent < rule.passingPercent).length,
+    daysSinceLastSession: history.lastSessionAt
+      ? Math.max(0, Math.floor((now.getTime() - history.lastSessionAt.getTime()) / DAY_MS))
+      : null,
+  };
+}
+
+/**
+ * Each tripped reason adds its weight scaled by how far past the threshold the learner is:
+ * half the weight right at the threshold, the full weight at twice the threshold.
+ */
+export function scoreEarlyWarning(
+  signals: EarlyWarningSignals,
+  rule: EarlyWarningRule = DEFAULT_EARLY_WARNING_RULE,
+): EarlyWarningEvaluation {
+  const checks: Array<[EarlyWarningReason, number | null, number]> = [
+    ["absence_streak", signals.absenceStreak, rule.absenceStreak],
+    ["declining_scores", signals.slope === null ? null : -signals.slope, -rule.slopeThreshold],
+    ["failed_assessments", signals.failedAttempts, rule.failedAttempts],
+    ["inactive", signals.daysSinceLastSession, rule.inactiveDays],
+  ];
+
+  const reasons: EarlyWarningReason[] = [];
+  let riskScore = 0;
+  for (const [reason, value, threshold] of checks) {
+    if (value === null || threshold <= 0 || value < threshold) continue;
+    reasons.push(reason);
+    riskScore += EARLY_WARNING_REASON_WEIGHTS[reason] * Math.min(1, Math.max(0.5, value / (threshold * 2)));
+  }
+  return { ...signals, riskScore: Math.round(riskScore), reasons };
+}
+
+export const describeEarlyWarningReason = (reason: EarlyWarningReason, signals: EarlyWarningSignals): string => {
+  switch (reason) {
+    case "absence_streak":
+      return `absent for the last ${signals.absenceStreak} sessions`;
+    case "declining_scores":
+      return `session averages dropping about ${Math.abs(signals.slope ?? 0).toFixed(1)} points per session`;
+    case "failed_assessments":
+      return `${signals.failedAttempts} recent assessments below ${DEFAULT_EARLY_WARNING_RULE.passingPercent}%`;
+    case "inactive":
+      return `no remedial session in ${signals.daysSinceLastSession} days`;
+  }
+};
+
+export const summarizeEarlyWarning = (entry: EarlyWarningEvaluation): string =>
+  entry.reasons.map((reason) => describeEarlyWarningReason(reason, entry)).join("; ");
+
+let schemaPromise: Promise<void> | null = null;
+
+const ensureEarlyWarningSchema = async () => {
+  if (!schemaPromise) {
+    schemaPromise = (async () => {
+      await query(
+        `CREATE TABLE IF NOT EXISTS ${ENTRY_TABLE} (
+          entry_id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+          run_date DATE NOT NULL,
+          student_id VARCHAR(64) NOT NULL,
+          subject_id BIGINT UNSIGNED NOT NULL,
+          grade_id BIGINT UNSIGNED NULL,
+          risk_score TINYINT UNSIGNED NOT NULL,
+          reasons VARCHAR(128) NOT NULL,
+          absence_streak SMALLINT UNSIGNED NOT NULL DEFAULT 0,
+          slope DECIMAL(6,2) NULL,
+          failed_attempts SMALLINT UNSIGNED NOT NULL DEFAULT 0,
+          days_since_session INT NULL,
+          is_new TINYINT(1) NOT NULL DEFAULT 0,
+          notified_at DATETIME NULL,
+          created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (entry_id),
+          UNIQUE KEY uq_early_warning_day (run_date, student_id, subject_id),
+          INDEX idx_early_warning_subject (run_date, subject_id, risk_score)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+      );
+      await query(
+        `CREATE TABLE IF NOT EXISTS ${RUN_TABLE} (
+          run_date DATE NOT NULL,
+          run_trigger VARCHAR(20) NOT NULL,
+          actor VARCHAR(100) NULL,
+          students_scored INT NOT NULL DEFAULT 0,
+          at_risk INT NOT NULL DEFAULT 0,
+          teachers_notified INT NOT NULL DEFAULT 0,
+          parents_notified INT NOT NULL DEFAULT 0,
+          started_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          completed_at DATETIME NULL,
+          PRIMARY KEY (run_date)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+      );
+      await query(
+        `CREATE TABLE IF NOT EXISTS ${SETTINGS_TABLE} (
+          settings_id TINYINT PRIMARY KEY,
+          notify_teachers TINYINT(1) NOT NULL DEFAULT 0,
+          notify_parents TINYINT(1) NOT NULL DEFAULT 0,
+          updated_by VARCHAR(100) NULL,
+          updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+      );
+    })().catch((error) => {
+      schemaPromise = null;
+      throw error;
+    });
+  }
+  await schemaPromise;
+};
+
+export async function getEarlyWarningSettings(): Promise<EarlyWarningSettings> {
+  await ensureEarlyWarningSchema();
+  const [rows] = await query<RowDataPacket[]>(
+    `SELECT notify_teachers, notify_parents FROM ${SETTINGS_TABLE} WHERE settings_id = 1 LIMIT 1`,
+  );
+  return {
+    notifyTeachers: Number(rows[0]?.notify_teachers ?? 0) === 1,
+    notifyParents: Number(rows[0]?.notify_parents ?? 0) === 1,
+  };
+}
+
+export async function saveEarlyWarningSettings(settings: EarlyWarningSettings, updatedBy: string | number): Promise<void> {
+  await ensureEarlyWarningSchema();
+  await query(
+    `INSERT INTO ${SETTINGS_TABLE} (settings_id, notify_teachers, notify_parents, updated_by)
+     VALUES (1, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       notify_teachers = VALUES(notify_teachers),
+       notify_parents = VALUES(notify_parents),
+       updated_by = VALUES(updated_by)`,
+    [settings.notifyTeachers ? 1 : 0, settings.notifyParents ? 1 : 0, String(updatedBy)],
+  );
+}
+
+const toDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const parsed = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const toNullableNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+type LearnerHistory = EarlyWarningHistory & { studentId: string; subjectId: number; gradeId: number | null };
+
+/**
+ * Everyone currently in remedial for a subject — an active teacher assignment or a remedial session
+ * this school year — with the history the early-warning signals read, loaded in one pass per source
+ * table. Archived and deleted students are left out.
+ */
+async function loadLearnerHistories(now: Date): Promise<LearnerHistory[]> {
+  const learners = new Map<string, LearnerHistory>();
+  const learnerFor = (studentId: unknown, subjectId: unknown) => {
+    const key = `${studentId}|${subjectId}`;
+    let learner = learners.get(key);
+    if (!learner) {
+      learner = {
+        studentId: String(studentId),
+        subjectId: Number(subjectId),
+        gradeId: null,
+        attendance: [],
+        sessionAverages: [],
+        lastSessionAt: null,
+        assessmentPercents: [],
+      };
+      learners.set(key, learner);
+    }
+    return learner;
+  };
+
+  const current = new Set<string>();
+  if (await tableExists("student_teacher_assignment")) {
+    const [assignments] = await query<RowDataPacket[]>(
+      `SELECT DISTINCT student_id, subject_id, grade_id
+       FROM student_teacher_assignment
+       WHERE is_active = 1 AND student_id IS NOT NULL AND subject_id IS NOT NULL`,
+    );
+    for (const row of assignments) {
+      learnerFor(row.student_id, row.subject_id).gradeId = toNullableNumber(row.grade_id);
+      current.add(`${row.student_id}|${row.subject_id}`);
+    }
+  }
+
+  const [sessions] = await query<RowDataPacket[]>(
+    `SELECT student_id, subject_id, grade_id, overall_average, completed_at
+     FROM student_remedial_session
+     WHERE completed_at IS NOT NULL
+     ORDER BY completed_at ASC, session_id ASC`,
+  );
+  for (const row of sessions) {
+    const learner = learnerFor(row.student_id, row.subject_id);
+    learner.gradeId = toNullableNumber(row.grade_id) ?? learner.gradeId;
+    learner.lastSessionAt = toDate(row.completed_at) ?? learner.lastSessionAt;
+    const average = toNullableNumber(row.overall_average);
+    if (average !== null) learner.sessionAverages.push(average);
+  }
+
+  const yearStart = schoolYearStart(now);
+  const studentColumns = await getTableColumns("student").catch(() => new Set<string>());
+  const inactiveFlags = ["is_archived", "is_deleted"].filter((column) => studentColumns.has(column));
+  const inactiveStudents = new Set<string>();
+  if (inactiveFlags.length) {
+    const [inactiveRows] = await query<RowDataPacket[]>(
+      `SELECT student_id FROM student WHERE ${inactiveFlags.map((column) => `COALESCE(${column}, 0) = 1`).join(" OR ")}`,
+    );
+    inactiveRows.forEach((row) => inactiveStudents.add(String(row.student_id)));
+  }
+  for (const [key, learner] of learners) {
+    const inSchoolYear = learner.lastSessionAt !== null && learner.lastSessionAt >= yearStart;
+    if (inactiveStudents.has(learner.studentId) || (!current.has(key) && !inSchoolYear)) {
+      learners.delete(key);
+    }
+  }
+
+  if ((await tableExists("attendance_record")) && (await tableExists("attendance_session"))) {
+    const [attendance] = await query<RowDataPacket[]>(
+      `SELECT ar.student_id, sess.subject_id, ar.status, sess.session_date
+       FROM attendance_record ar
+       JOIN attendance_session sess ON sess.session_id = ar.session_id`,
+    );
+    for (const row of attendance) {
+      const date = toDate(row.session_date);
+      const learner = learners.get(`${row.student_id}|${row.subject_id}`);
+      if (!date || !learner) continue;
+      learner.attendance.push({ date, present: String(row.status ?? "").toLowerCase() !== "absent" });
+    }
+  }
+
+  const attemptColumns = await getTableColumns("assessment_attempts").catch(() => new Set<string>());
+  const assessmentColumns = await getTableColumns("assessments").catch(() => new Set<string>());
+  if (attemptColumns.has("total_score") && assessmentColumns.has("subject_id") && (await tableExists("assessment_questions"))) {
+    const orderBy = attemptColumns.has("submitted_at") ? "ORDER BY aa.submitted_at ASC" : "";
+    const statusFilter = attemptColumns.has("status") ? "WHERE aa.status IN ('submitted', 'graded')" : "";
+    const [attempts] = await query<RowDataPacket[]>(
+      `SELECT aa.student_id, a.subject_id, aa.total_score,
+              (SELECT COALESCE(SUM(aq.points), 0) FROM assessment_questions aq WHERE aq.assessment_id = aa.assessment_id) AS total_points
+       FROM assessment_attempts aa
+       JOIN assessments a ON a.assessment_id = aa.assessment_id
+       ${statusFilter}
+       ${orderBy}`,
+    );
+    for (const row of attempts) {
+      const learner = learners.get(`${row.student_id}|${row.subject_id}`);
+      const score = Number(row.total_score);
+      const points = Number(row.total_points);
+      if (!learner || !Number.isFinite(score) || !Number.isFinite(points) || points <= 0) continue;
+      learner.assessmentPercents.push((score / points) * 100);
+    }
+  }
+
+  return Array.from(learners.values());
+}
+
+const listAssignedTeacherIds = async (studentId: string, subjectId: number): Promise<string[]> => {
+  if (!(await tableExists("student_teacher_assignment"))) return [];
+  const [rows] = await query<RowDataPacket[]>(
+    `SELECT DISTINCT teacher_id
+     FROM student_teacher_assignment
+     WHERE student_id = ? AND subject_id = ? AND is_active = 1 AND teacher_id IS NOT NULL`,
+    [studentId, subjectId],
+  );
+  return rows.map((row) => String(row.teacher_id));
+};
+
+async function scoreAllLearners(
+  runDate: string,
+  trigger: "scheduled" | "manual",
+  actor: string | number,
+): Promise<EarlyWarningRunSummary> {
+  const now = new Date();
+  const learners = await loadLearnerHistories(now);
+  const [previousRows] = await query<RowDataPacket[]>(
+    `SELECT student_id, subject_id FROM ${ENTRY_TABLE}
+     WHERE run_date = (SELECT MAX(run_date) FROM ${ENTRY_TABLE} WHERE run_date < ?)`,
+    [runDate],
+  );
+  const previouslyFlagged = new Set(previousRows.map((row) => `${row.student_id}|${row.subject_id}`));
+  // A manual re-run on the same day must not notify anyone twice
+  const [notifiedRows] = await query<RowDataPacket[]>(
+    `SELECT student_id, subject_id FROM ${ENTRY_TABLE} WHERE run_date = ? AND notified_at IS NOT NULL`,
+    [runDate],
+  );
+  const alreadyNotified = new Set(notifiedRows.map((row) => `${row.student_id}|${row.subject_id}`));
+
+  const settings = await getEarlyWarningSettings();
+  const [subjectRows] = await query<RowDataPacket[]>("SELECT subject_id, subject_name FROM subject");
+  const subjectNames = new Map(subjectRows.map((row) => [Number(row.subject_id), toPhonemicSubjectName(row.subject_name) ?? String(row.subject_name)]));
+  const [studentRows] = await query<RowDataPacket[]>("SELECT student_id, first_name FROM student");
+  const firstNames = new Map(studentRows.map((row) => [String(row.student_id), String(row.first_name ?? "").trim()]));
+
+  const flagged = learners
+    .map((learner) => ({ learner, evaluation: scoreEarlyWarning(measureEarlyWarningSignals(learner, now)) }))
+    .filter(({ evaluation }) => evaluation.reasons.length > 0)
+    .map((entry) => {
+      const key = `${entry.learner.studentId}|${entry.learner.subjectId}`;
+      const isNew = !previouslyFlagged.has(key);
+      const shouldNotify = isNew && !alreadyNotified.has(key) && (settings.notifyTeachers || settings.notifyParents);
+      return { ...entry, isNew, shouldNotify, notified: shouldNotify || alreadyNotified.has(key) };
+    });
+
+  // Readers only ever see the day's previous list or the complete new one
+  await runWithConnection(async (connection) => {
+    await connection.beginTransaction();
+    try {
+      await connection.query(`DELETE FROM ${ENTRY_TABLE} WHERE run_date = ?`, [runDate]);
+      for (const { learner, evaluation, isNew, notified } of flagged) {
+        await connection.query(
+          `INSERT INTO ${ENTRY_TABLE}
+             (run_date, student_id, subject_id, grade_id, risk_score, reasons, absence_streak, slope, failed_attempts,
+              days_since_session, is_new, notified_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${notified ? "NOW()" : "NULL"})`,
+          [
+            runDate,
+            learner.studentId,
+            learner.subjectId,
+            learner.gradeId,
+            evaluation.riskScore,
+            evaluation.reasons.join(","),
+            evaluation.absenceStreak,
+            evaluation.slope,
+            evaluation.failedAttempts,
+            evaluation.daysSinceLastSession,
+            isNew ? 1 : 0,
+          ],
+        );
+      }
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    }
+  });
+
+  let teachersNotified = 0;
+  let parentsNotified = 0;
+  for (const { learner, evaluation, shouldNotify } of flagged) {
+    if (!shouldNotify) continue;
+
+    const subject = subjectNames.get(learner.subjectId) ?? "remedial";
+    const name = firstNames.get(learner.studentId) || learner.studentId;
+    const summary = summarizeEarlyWarning(evaluation);
+    if (settings.notifyTeachers) {
+      teachersNotified += await insertTeacherNotifications(
+        await listAssignedTeacherIds(learner.studentId, learner.subjectId),
+        `Early warning: ${name} is at risk in ${subject} (risk ${evaluation.riskScore}/100): ${summary}.`,
+      );
+    }
+    if (settings.notifyParents) {
+      await upsertParentNotification({
+        studentId: learner.studentId,
+        subject: `${subject} Early Warning`,
+        date: runDate,
+        message: `${name} may need extra support in ${subject}: ${summary}. Please reach out to their remedial teacher.`,
+      });
+      parentsNotified += 1;
+    }
+  }
+
+  await query(
+    `UPDATE ${RUN_TABLE}
+     SET run_trigger = ?, actor = ?, students_scored = ?, at_risk = ?, teachers_notified = ?, parents_notified = ?, completed_at = NOW()
+     WHERE run_date = ?`,
+    [trigger, String(actor), learners.length, flagged.length, teachersNotified, parentsNotified, runDate],
+  );
+  return { runDate, studentsScored: learners.length, atRisk: flagged.length, teachersNotified, parentsNotified };
+}
+
+/**
+ * Scores every remedial learner once per school day; the day is claimed first so two callers
+ * cannot both run it. A claim still unfinished after `STALE_RUN_MINUTES` belongs to a run that
+ * failed or died, so the next caller takes it over.
+ */
+export async function runEarlyWarningIfDue(actor: string | number): Promise<EarlyWarningRunSummary | null> {
+  await ensureEarlyWarningSchema();
+  const runDate = getSchoolTodayDateKey();
+  const [claim] = await query<ResultSetHeader>(
+    `INSERT IGNORE INTO ${RUN_TABLE} (run_date, run_trigger, actor) VALUES (?, 'scheduled', ?)`,
+    [runDate, String(actor)],
+  );
+  if (claim.affectedRows === 0) {
+    const [reclaim] = await query<ResultSetHeader>(
+      `UPDATE ${RUN_TABLE}
+       SET run_trigger = 'scheduled', actor = ?, started_at = NOW()
+       WHERE run_date = ? AND completed_at IS NULL AND started_at < NOW() - INTERVAL ? MINUTE`,
+      [String(actor), runDate, STALE_RUN_MINUTES],
+    );
+    if (reclaim.affectedRows === 0) {
+      return null;
+    }
+  }
+  return scoreAllLearners(runDate, "scheduled", actor);
+}
+
+/** Re-scores today's list on demand, replacing the earlier run of the day. */
+export async function runEarlyWarningNow(actor: string | number): Promise<EarlyWarningRunSummary> {
+  await ensureEarlyWarningSchema();
+  const runDate = getSchoolTodayDateKey();
+  await query(
+    `INSERT INTO ${RUN_TABLE} (run_date, run_trigger, actor) VALUES (?, 'manual', ?)
+     ON DUPLICATE KEY UPDATE run_trigger = VALUES(run_trigger), actor = VALUES(actor), started_at = NOW(), completed_at = NULL`,
+    [runDate, String(actor)],
+  );
+  return scoreAllLearners(runDate, "manual", actor);
+}
+
+const parseReasons = (value: unknown): EarlyWarningReason[] =>
+  String(value ?? "")
+    .split(",")
+    .filter((item): item is EarlyWarningReason => item in EARLY_WARNING_REASON_WEIGHTS);
+
+/** The latest run's at-risk learners, highest risk first. */
+export async function listAtRiskStudents(filters: {
+  subjectId?: number | null;
+  gradeId?: number | null;
+  limit?: number;
+} = {}): Promise<{ runDate: string | null; entries: EarlyWarningEntry[] }> {
+  await ensureEarlyWarningSchema();
+  const [latest] = await query<RowDataPacket[]>(
+    `SELECT DATE_FORMAT(MAX(run_date), '%Y-%m-%d') AS run_date FROM ${RUN_TABLE} WHERE completed_at IS NOT NULL`,
+  );
+  const runDate = latest[0]?.run_date ? String(latest[0].run_date) : null;
+  if (!runDate) {
+    return { runDate: null, entries: [] };
+  }
+
+  const conditions = ["e.run_date = ?"];
+  const params: Array<string | number> = [runDate];
+  if (filters.subjectId != null) {
+    conditions.push("e.subject_id = ?");
+    params.push(filters.subjectId);
+  }
+  if (filters.gradeId != null) {
+    conditions.push("e.grade_id = ?");
+    params.push(filters.gradeId);
+  }
+  const [rows] = await query<RowDataPacket[]>(
+    `SELECT e.*, st.first_name, st.last_name, sub.subject_name, g.grade_level
+     FROM ${ENTRY_TABLE} e
+     LEFT JOIN student st ON st.student_id = e.student_id
+     LEFT JOIN subject sub ON sub.subject_id = e.subject_id
+     LEFT JOIN grade g ON g.grade_id = e.grade_id
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY e.risk_score DESC, e.absence_streak DESC, e.entry_id ASC
+     LIMIT ?`,
+    [...params, filters.limit ?? 50],
+  );
+
+  return {
+    runDate,
+    entries: rows.map((row) => {
+      const name = [row.first_name, row.last_name].map((part) => String(part ?? "").trim()).filter(Boolean).join(" ");
+      return {
+        studentId: String(row.student_id),
+        studentName: name || String(row.student_id),
+        subjectId: Number(row.subject_id),
+        subject: row.subject_name ? String(row.subject_name) : null,
+        gradeId: toNullableNumber(row.grade_id),
+        gradeLevel: row.grade_level === null || row.grade_level === undefined ? null : String(row.grade_level),
+        runDate,
+        riskScore: Number(row.risk_score),
+        reasons: parseReasons(row.reasons),
+        absenceStreak: Number(row.absence_streak ?? 0),
+        slope: toNullableNumber(row.slope),
+        failedAttempts: Number(row.failed_attempts ?? 0),
+        daysSinceLastSession: toNullableNumber(row.days_since_session),
+        isNew: Number(row.is_new) === 1,
+      };
+    }),
+  };
+}
@@ -1,6 +1,6 @@
 import "server-only";
 
-import type { RowDataPacket, ResultSetHeader } from "mysql2/promise";
+import type { PoolConnection, RowDataPacket, ResultSetHeader } from "mysql2/promise";
 import { getTableColumns, query, runWithConnection, tableExists } from "@/lib/db";
 import {
   type StudentRecordDto,
@@ -429,7 +429,11 @@ export async function insertStudents(
   userId: number,
   subject: StudentSubject,
   students: CreateStudentRecordInput[],
-  options?: { requestTime?: Date },
+  options?: {
+    requestTime?: Date;
+    /** Joins the caller's open transaction instead of committing on its own. */
+    connection?: PoolConnection;
+  },
 ): Promise<number> {
   if (students.length === 0) {
     return 0;
@@ -505,8 +509,9 @@ export async function insertStudents(
     return resolved ?? null;
   };
 
-  return runWithConnection(async (connection) => {
-    await connection.beginTransaction();
+  const sharedConnection = options?.connection ?? null;
+  const run = async (connection: PoolConnection): Promise<number> => {
+    if (!sharedConnection) await connection.beginTransaction();
     try {
       const resolveParentRoleId = async (): Promise<number | null> => {
         if (!effectiveUserColumns.has("role_id")) {
@@ -1469,13 +1474,14 @@ export async function insertStudents(
           }
         }
       }
-      await connection.commit();
+      if (!sharedConnection) await connection.commit();
       return inserted;
     } catch (error) {
-      await connection.rollback();
+      if (!sharedConnection) await connection.rollback();
       throw error;
     }
-  });
+  };
+  return sharedConnection ? run(sharedConnection) : runWithConnection(run);
 }
 
 export async function deleteStudents(userId: number, subject: StudentSubject, ids: string[]): Promise<number> {
@@ -1898,6 +1904,11 @@ export async function fetchStudents({
   const filters: string[] = [];
   const params: Array<string | number> = [];
 
+  // Graduates are archived by the school-year rollover and drop out of active rosters.
+  if (studentColumns.has("is_archived")) {
+    filters.push("COALESCE(s.is_archived, 0) = 0");
+  }
+
   const normalizedGrade = normalizeGradeValue(gradeLevel ?? null);
   if (normalizedGrade && studentColumns.has("grade_id")) {
     filters.push("s.grade_id = ?");
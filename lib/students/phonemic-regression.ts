@@ -0,0 +1,416 @@
+import type { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { getTableColumns, query, tableExists } from "@/lib/db";
+import { toPhonemicSubjectName } from "@/lib/phonemic-levels";
+import { insertTeacherNotifications } from "@/lib/server/teacher-notifications";
+import { resolveCurrentPhonemicLevel, type SubjectName } from "./promote-phonemic";
+
+export type RegressionRule = {
+  /** Session average, in percent, below which a session counts towards the low streak. */
+  floor: number;
+  /** Consecutive sessions below `floor` that raise an alert. */
+  consecutiveSessions: number;
+  /** Fitted change in session average per session at or below which the level counts as declining. */
+  slopeThreshold: number;
+  /** Most recent sessions the slope is fitted over. */
+  windowSize: number;
+};
+
+export const DEFAULT_REGRESSION_RULE: RegressionRule = {
+  floor: 60,
+  consecutiveSessions: 3,
+  slopeThreshold: -3,
+  windowSize: 5,
+};
+
+/** Fewest sessions a slope is fitted over; two points always give a perfect line. */
+const MIN_SLOPE_SESSIONS = 3;
+
+export type RegressionTrigger = "below_floor" | "declining";
+
+export type RegressionSignal = {
+  regressing: boolean;
+  triggers: RegressionTrigger[];
+  belowFloorStreak: number;
+  /** Floor of the rule the sessions were checked against. */
+  floor: number;
+  /** Least-squares slope of the session averages, `null` with too few sessions. */
+  slope: number | null;
+  /** Session averages at the current level, oldest first. */
+  averages: number[];
+};
+
+export type RegressionAlertStatus = "open" | "resolved" | "demoted" | "dismissed";
+
+export type RegressionAlert = {
+  alertId: number;
+  studentId: string;
+  studentName: string;
+  subjectId: number;
+  subject: string | null;
+  gradeId: number | null;
+  phonemicId: number;
+  levelName: string | null;
+  triggers: RegressionTrigger[];
+  belowFloorStreak: number;
+  floor: number;
+  slope: number | null;
+  status: RegressionAlertStatus;
+  createdAt: string | null;
+  updatedAt: string | null;
+};
+
+export type StudentRegressionStatus = {
+  subject: SubjectName;
+  phonemicId: number | null;
+  signal: RegressionSignal;
+  alert: RegressionAlert | null;
+};
+
+const ALERT_TABLE = "phonemic_regression_alert";
+const COORDINATOR_HANDLED_TABLE = "mt_coordinator_handled";
+
+export const calculateSlope = (values: number[]): number | null => {
+  if (values.length < MIN_SLOPE_SESSIONS) return null;
+  const meanX = (values.length - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / values.length;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, index) => {
+    numerator += (index - meanX) * (value - meanY);
+    denominator += (index - meanX) ** 2;
+  });
+  return denominator === 0 ? null : Math.round((numerator / denominator) * 100) / 100;
+};
+
+/**
+ * Looks for a student slipping at their current level: the latest sessions
+ * all under the floor, or averages falling steadily across the window.
+ */
+export function detectRegression(
+  averagesOldestFirst: number[],
+  rule: RegressionRule = DEFAULT_REGRESSION_RULE,
+): RegressionSignal {
+  const averages = averagesOldestFirst.filter((value) => Number.isFinite(value));
+
+  let belowFloorStreak = 0;
+  for (let index = averages.length - 1; index >= 0 && averages[index] < rule.floor; index -= 1) {
+    belowFloorStreak += 1;
+  }
+
+  const slope = calculateSlope(averages.slice(-rule.windowSize));
+  const triggers: RegressionTrigger[] = [];
+  if (belowFloorStreak >= rule.consecutiveSessions) triggers.push("below_floor");
+  if (slope !== null && slope <= rule.slopeThreshold) triggers.push("declining");
+
+  return { regressing: triggers.length > 0, triggers, belowFloorStreak, floor: rule.floor, slope, averages };
+}
+
+export const describeRegression = (
+  signal: Pick<RegressionSignal, "triggers" | "belowFloorStreak" | "floor" | "slope">,
+): string => {
+  const parts: string[] = [];
+  if (signal.triggers.includes("below_floor")) {
+    parts.push(`${signal.belowFloorStreak} straight sessions below ${signal.floor}%`);
+  }
+  if (signal.triggers.includes("declining") && signal.slope !== null) {
+    parts.push(`averages dropping about ${Math.abs(signal.slope).toFixed(1)} points per session`);
+  }
+  return parts.join(" and ");
+};
+
+let alertSchemaPromise: Promise<void> | null = null;
+
+const ensureRegressionAlertTable = async () => {
+  if (!alertSchemaPromise) {
+    alertSchemaPromise = query(
+      `CREATE TABLE IF NOT EXISTS ${ALERT_TABLE} (
+        alert_id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+        student_id VARCHAR(64) NOT NULL,
+        subject_id BIGINT UNSIGNED NOT NULL,
+        grade_id BIGINT UNSIGNED NULL,
+        phonemic_id BIGINT UNSIGNED NOT NULL,
+        triggers VARCHAR(64) NOT NULL,
+        below_floor_streak TINYINT UNSIGNED NOT NULL DEFAULT 0,
+        floor DECIMAL(5,2) NULL,
+        slope DECIMAL(6,2) NULL,
+        latest_session_id BIGINT UNSIGNED NULL,
+        status ENUM('open','resolved','demoted','dismissed') NOT NULL DEFAULT 'open',
+        closed_by BIGINT UNSIGNED NULL,
+        closed_at DATETIME NULL,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (alert_id),
+        INDEX idx_regression_alert_student (student_id, subject_id, status),
+        INDEX idx_regression_alert_status (subject_id, status)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    )
+      .then(async () => {
+        const columns = await getTableColumns(ALERT_TABLE);
+        if (!columns.has("floor")) {
+          await query(`ALTER TABLE ${ALERT_TABLE} ADD COLUMN floor DECIMAL(5,2) NULL AFTER below_floor_streak`);
+        }
+      })
+      .catch((error) => {
+        alertSchemaPromise = null;
+        throw error;
+      });
+  }
+  await alertSchemaPromise;
+};
+
+type AlertRow = RowDataPacket & {
+  alert_id: number;
+  student_id: string;
+  subject_id: number;
+  subject_name: string | null;
+  grade_id: number | null;
+  phonemic_id: number;
+  level_name: string | null;
+  triggers: string | null;
+  below_floor_streak: number | null;
+  floor: number | string | null;
+  slope: number | string | null;
+  status: RegressionAlertStatus;
+  created_at: Date | string | null;
+  updated_at: Date | string | null;
+  first_name: string | null;
+  last_name: string | null;
+};
+
+const ALERT_SELECT = `SELECT a.alert_id, a.student_id, a.subject_id, sub.subject_name, a.grade_id, a.phonemic_id,
+       pl.level_name, a.triggers, a.below_floor_streak, a.floor, a.slope, a.status, a.created_at, a.updated_at,
+       st.first_name, st.last_name
+     FROM ${ALERT_TABLE} a
+     LEFT JOIN student st ON st.student_id = a.student_id
+     LEFT JOIN subject sub ON sub.subject_id = a.subject_id
+     LEFT JOIN phonemic_level pl ON pl.phonemic_id = a.phonemic_id`;
+
+const toIsoString = (value: unknown): string | null => {
+  if (value instanceof Date) return value.toISOString();
+  return value === null || value === undefined ? null : String(value);
+};
+
+const parseTriggers = (value: unknown): RegressionTrigger[] =>
+  String(value ?? "")
+    .split(",")
+    .filter((item): item is RegressionTrigger => item === "below_floor" || item === "declining");
+
+const toRegressionAlert = (row: AlertRow): RegressionAlert => {
+  const name = [row.first_name, row.last_name].map((part) => String(part ?? "").trim()).filter(Boolean).join(" ");
+  const slope = row.slope === null || row.slope === undefined ? null : Number(row.slope);
+  const floor = row.floor === null || row.floor === undefined ? NaN : Number(row.floor);
+  return {
+    alertId: Number(row.alert_id),
+    studentId: String(row.student_id),
+    studentName: name || String(row.student_id),
+    subjectId: Number(row.subject_id),
+    subject: row.subject_name ? String(row.subject_name) : null,
+    gradeId: row.grade_id === null || row.grade_id === undefined ? null : Number(row.grade_id),
+    phonemicId: Number(row.phonemic_id),
+    levelName: row.level_name ? String(row.level_name) : null,
+    triggers: parseTriggers(row.triggers),
+    belowFloorStreak: Number(row.below_floor_streak ?? 0),
+    floor: Number.isFinite(floor) ? floor : DEFAULT_REGRESSION_RULE.floor,
+    slope: slope !== null && Number.isFinite(slope) ? slope : null,
+    status: row.status,
+    createdAt: toIsoString(row.created_at),
+    updatedAt: toIsoString(row.updated_at),
+  };
+};
+
+const getOpenAlert = async (studentId: string, subjectId: number): Promise<RegressionAlert | null> => {
+  const [rows] = await query<AlertRow[]>(
+    `${ALERT_SELECT}
+     WHERE a.student_id = ? AND a.subject_id = ? AND a.status = 'open'
+     ORDER BY a.alert_id DESC
+     LIMIT 1`,
+    [studentId, subjectId],
+  );
+  return rows.length ? toRegressionAlert(rows[0]) : null;
+};
+
+type RegressionSessionRow = RowDataPacket & { session_id: number; grade_id: number | null; overall_average: number | string };
+
+const evaluateStudent = async (studentId: string, subject: SubjectName, rule: RegressionRule) => {
+  const level = await resolveCurrentPhonemicLevel(studentId, subject);
+  if (!level) return null;
+
+  const sessionLimit = Math.max(rule.windowSize, rule.consecutiveSessions);
+  const [rows] = await query<RegressionSessionRow[]>(
+    `SELECT session_id, grade_id, overall_average
+     FROM student_remedial_session
+     WHERE student_id = ?
+       AND subject_id = ?
+       AND phonemic_id = ?
+       AND overall_average IS NOT NULL
+       AND (? IS NULL OR COALESCE(completed_at, created_at) > ?)
+     ORDER BY COALESCE(completed_at, created_at) DESC, session_id DESC
+     LIMIT ${sessionLimit}`,
+    [studentId, level.subjectId, level.phonemicId, level.assessedAt, level.assessedAt],
+  );
+
+  const newestFirst = rows.map((row) => ({
+    sessionId: Number(row.session_id),
+    gradeId: row.grade_id === null || row.grade_id === undefined ? null : Number(row.grade_id),
+    average: Number(row.overall_average),
+  }));
+
+  return {
+    level,
+    latestSession: newestFirst[0] ?? null,
+    signal: detectRegression(newestFirst.map((row) => row.average).reverse(), rule),
+  };
+};
+
+export async function getStudentRegressionStatus(
+  studentId: string,
+  subject: SubjectName,
+  rule: RegressionRule = DEFAULT_REGRESSION_RULE,
+): Promise<StudentRegressionStatus> {
+  await ensureRegressionAlertTable();
+  const evaluation = await evaluateStudent(studentId, subject, rule);
+  const alert = evaluation ? await getOpenAlert(studentId, evaluation.level.subjectId) : null;
+  return {
+    subject,
+    phonemicId: evaluation?.level.phonemicId ?? null,
+    signal: evaluation?.signal ?? detectRegression([], rule),
+    alert,
+  };
+}
+
+const listAssignedTeacherIds = async (studentId: string, subjectId: number): Promise<string[]> => {
+  if (!(await tableExists("student_teacher_assignment"))) return [];
+  const [rows] = await query<RowDataPacket[]>(
+    `SELECT DISTINCT teacher_id
+     FROM student_teacher_assignment
+     WHERE student_id = ? AND subject_id = ? AND is_active = 1 AND teacher_id IS NOT NULL`,
+    [studentId, subjectId],
+  );
+  return rows.map((row) => String(row.teacher_id));
+};
+
+/** Master teachers coordinating the subject, narrowed to the grade when both it and the column are known. */
+const listCoordinatorIds = async (subjectId: number, gradeId: number | null): Promise<string[]> => {
+  const columns = await getTableColumns(COORDINATOR_HANDLED_TABLE).catch(() => new Set<string>());
+  if (!columns.has("master_teacher_id") || !columns.has("subject_id")) return [];
+  const byGrade = gradeId !== null && columns.has("grade_id");
+  const [rows] = await query<RowDataPacket[]>(
+    `SELECT DISTINCT master_teacher_id
+     FROM ${COORDINATOR_HANDLED_TABLE}
+     WHERE subject_id = ? AND master_teacher_id IS NOT NULL${byGrade ? " AND grade_id = ?" : ""}`,
+    byGrade ? [subjectId, gradeId] : [subjectId],
+  );
+  return rows.map((row) => String(row.master_teacher_id));
+};
+
+/**
+ * Re-checks one student after a saved session: opens an alert (and notifies
+ * the assigned teachers and the subject's coordinators) when they start regressing, refreshes an open alert
+ * while they keep regressing, and resolves it once they recover or their
+ * level changes.
+ */
+export async function runRegressionCheck(
+  studentId: string,
+  subjectId: number,
+  rule: RegressionRule = DEFAULT_REGRESSION_RULE,
+): Promise<RegressionAlert | null> {
+  await ensureRegressionAlertTable();
+  const [subjectRows] = await query<RowDataPacket[]>("SELECT subject_name FROM subject WHERE subject_id = ? LIMIT 1", [
+    subjectId,
+  ]);
+  const subject = toPhonemicSubjectName(subjectRows[0]?.subject_name);
+  if (!subject) return null;
+
+  const evaluation = await evaluateStudent(studentId, subject, rule);
+  const openAlert = await getOpenAlert(studentId, subjectId);
+
+  if (!evaluation || !evaluation.signal.regressing) {
+    if (openAlert) {
+      await query(`UPDATE ${ALERT_TABLE} SET status = 'resolved', closed_at = NOW() WHERE alert_id = ?`, [
+        openAlert.alertId,
+      ]);
+    }
+    return null;
+  }
+
+  const { signal, level, latestSession } = evaluation;
+  const triggers = signal.triggers.join(",");
+
+  if (openAlert && openAlert.phonemicId === level.phonemicId) {
+    await query(
+      `UPDATE ${ALERT_TABLE}
+       SET triggers = ?, below_floor_streak = ?, floor = ?, slope = ?, latest_session_id = ?
+       WHERE alert_id = ?`,
+      [triggers, signal.belowFloorStreak, signal.floor, signal.slope, latestSession?.sessionId ?? null, openAlert.alertId],
+    );
+    return getOpenAlert(studentId, subjectId);
+  }
+
+  if (openAlert) {
+    await query(`UPDATE ${ALERT_TABLE} SET status = 'resolved', closed_at = NOW() WHERE alert_id = ?`, [
+      openAlert.alertId,
+    ]);
+  }
+
+  await query(
+    `INSERT INTO ${ALERT_TABLE}
+       (student_id, subject_id, grade_id, phonemic_id, triggers, below_floor_streak, floor, slope, latest_session_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      studentId,
+      subjectId,
+      latestSession?.gradeId ?? null,
+      level.phonemicId,
+      triggers,
+      signal.belowFloorStreak,
+      signal.floor,
+      signal.slope,
+      latestSession?.sessionId ?? null,
+    ],
+  );
+
+  const alert = await getOpenAlert(studentId, subjectId);
+  if (alert) {
+    const [teacherIds, coordinatorIds] = await Promise.all([
+      listAssignedTeacherIds(studentId, subjectId),
+      listCoordinatorIds(subjectId, alert.gradeId),
+    ]);
+    await insertTeacherNotifications(
+      [...teacherIds, ...coordinatorIds],
+      `${alert.studentName} may be regressing in ${subject} at the ${alert.levelName ?? "current"} level: ${describeRegression(signal)}.`,
+    );
+  }
+  return alert;
+}
+
+export async function listOpenRegressionAlerts(filters: { subjectId: number; gradeId?: number | null }): Promise<RegressionAlert[]> {
+  await ensureRegressionAlertTable();
+  const conditions = ["a.subject_id = ?", "a.status = 'open'"];
+  const params: number[] = [filters.subjectId];
+  if (filters.gradeId != null) {
+    conditions.push("a.grade_id = ?");
+    params.push(filters.gradeId);
+  }
+  const [rows] = await query<AlertRow[]>(
+    `${ALERT_SELECT}
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY a.updated_at DESC, a.alert_id DESC
+     LIMIT 100`,
+    params,
+  );
+  return rows.map(toRegressionAlert);
+}
+
+/** Closes an open alert, e.g. after the student is demoted or a reviewer dismisses it. */
+export async function closeRegressionAlert(
+  alertId: number,
+  status: Exclude<RegressionAlertStatus, "open">,
+  closedBy: number | null,
+): Promise<boolean> {
+  await ensureRegressionAlertTable();
+  const [result] = await query<ResultSetHeader>(
+    `UPDATE ${ALERT_TABLE} SET status = ?, closed_by = ?, closed_at = NOW() WHERE alert_id = ? AND status = 'open'`,
+    [status, closedBy, alertId],
+  );
+  return result.affectedRows > 0;
+}
@@ -1,5 +1,6 @@
-import type { RowDataPacket } from "mysql2/promise";
-import { getTableColumns, query, tableExists } from "@/lib/db";
+import type { Connection, PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { getTableColumns, query, runWithConnection, tableExists } from "@/lib/db";
+import { DEFAULT_PROMOTION_THRESHOLDS, getPromotionThresholds, type PromotionThresholds } from "./promotion-thresholds";
 
 const ORDER_COLUMN_CANDIDATES = [
   "level_order",
@@ -40,6 +41,15 @@ type PromotionContext = {
 
 type PromotionOptions = {
   currentLevelName?: string | null;
+  /** Grade whose configured thresholds apply; looked up from the student when omitted. */
+  gradeId?: number | null;
+  thresholds?: PromotionThresholds;
+};
+
+export type PromotionSessionEvidence = {
+  sessionId: number;
+  average: number;
+  completedAt: Date | string | null;
 };
 
 export type PromotionReadiness = {
@@ -51,6 +61,9 @@ export type PromotionReadiness = {
   requiredSessions: number;
   qualifyingStreak: number;
   recentAverages: number[];
+  /** Sessions the averages came from, newest first. */
+  recentSessions: PromotionSessionEvidence[];
+  currentPhonemicId: number | null;
   message: string;
 };
 
@@ -60,8 +73,43 @@ export type PromotionResult = {
   recommendation: PromotionReadiness;
 };
 
-export const PROMOTION_AVERAGE_THRESHOLD = 85;
-export const PROMOTION_REQUIRED_CONSECUTIVE_SESSIONS = 2;
+type DbConnection = Connection | PoolConnection;
+
+export type LevelChangeType = "promotion" | "demotion" | "reversal" | "reset";
+
+export type PhonemicLevelChange = {
+  changeId: number;
+  studentId: string;
+  subjectId: number;
+  changeType: LevelChangeType;
+  fromPhonemicId: number;
+  fromLevelName: string | null;
+  toPhonemicId: number;
+  toLevelName: string | null;
+  reason: string;
+  alertId: number | null;
+  changedBy: number | null;
+  /** Set on a demotion once it has been undone. */
+  reversedByChangeId: number | null;
+  createdAt: string | null;
+};
+
+export type DemotionOptions = {
+  reason: string;
+  changedBy?: number | null;
+  /** Regression alert that prompted the demotion, if any. */
+  alertId?: number | null;
+};
+
+export type DemotionResult = {
+  fromLevel: PromotionLevel;
+  toLevel: PromotionLevel;
+  change: PhonemicLevelChange;
+};
+
+/** Defaults used when no thresholds are configured for the subject and grade. */
+export const PROMOTION_AVERAGE_THRESHOLD = DEFAULT_PROMOTION_THRESHOLDS.averageThreshold;
+export const PROMOTION_REQUIRED_CONSECUTIVE_SESSIONS = DEFAULT_PROMOTION_THRESHOLDS.requiredSessions;
 
 const CANONICAL_LEVELS_BY_SUBJECT: Record<SubjectName, string[]> = {
   English: ["Non-Reader", "Syllable", "Word", "Phrase", "Sentence", "Paragraph"],
@@ -69,6 +117,48 @@ const CANONICAL_LEVELS_BY_SUBJECT: Record<SubjectName, string[]> = {
   Math: ["Not Proficient", "Low Proficient", "Nearly Proficient", "Proficient", "Highly Proficient"],
 };
 
+const LEVEL_CHANGE_TABLE = "student_phonemic_level_change";
+const MAX_REASON_LENGTH = 500;
+
+let levelChangeSchemaPromise: Promise<void> | null = null;
+
+/** Exported for callers that record changes inside their own transaction and must create the table first. */
+export const ensureLevelChangeTable = async () => {
+  if (!levelChangeSchemaPromise) {
+    levelChangeSchemaPromise = query(
+      `CREATE TABLE IF NOT EXISTS ${LEVEL_CHANGE_TABLE} (
+        change_id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+        student_id VARCHAR(64) NOT NULL,
+        subject_id BIGINT UNSIGNED NOT NULL,
+        change_type ENUM('promotion','demotion','reversal','reset') NOT NULL,
+        from_phonemic_id BIGINT UNSIGNED NOT NULL,
+        to_phonemic_id BIGINT UNSIGNED NOT NULL,
+        reason VARCHAR(${MAX_REASON_LENGTH}) NOT NULL,
+        alert_id BIGINT UNSIGNED NULL,
+        changed_by BIGINT UNSIGNED NULL,
+        reversed_by_change_id BIGINT UNSIGNED NULL,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (change_id),
+        INDEX idx_level_change_student (student_id, subject_id, created_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    )
+      .then(async () => {
+        const [columns] = await query<RowDataPacket[]>(`SHOW COLUMNS FROM ${LEVEL_CHANGE_TABLE} LIKE 'change_type'`);
+        if (!String(columns[0]?.Type ?? "").includes("'reset'")) {
+          await query(
+            `ALTER TABLE ${LEVEL_CHANGE_TABLE}
+             MODIFY change_type ENUM('promotion','demotion','reversal','reset') NOT NULL`,
+          );
+        }
+      })
+      .catch((error) => {
+        levelChangeSchemaPromise = null;
+        throw error;
+      });
+  }
+  await levelChangeSchemaPromise;
+};
+
 const normalizeLevelName = (value: unknown) => String(value ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
 
 const sortLevelsForSubject = (
@@ -225,6 +315,28 @@ const getLatestPhonemicIdFromHistory = async (
   return Number.isFinite(phonemicId) ? phonemicId : null;
 };
 
+const resolveStudentGradeId = async (studentId: string, subjectId: number): Promise<number | null> => {
+  const studentColumns = await getTableColumns("student");
+  if (studentColumns.has("grade_id")) {
+    const [rows] = await query<RowDataPacket[]>("SELECT grade_id FROM student WHERE student_id = ? LIMIT 1", [studentId]);
+    const gradeId = Number(rows[0]?.grade_id);
+    if (rows.length && rows[0]?.grade_id != null && Number.isFinite(gradeId)) {
+      return gradeId;
+    }
+  }
+
+  const [sessionRows] = await query<RowDataPacket[]>(
+    `SELECT grade_id
+     FROM student_remedial_session
+     WHERE student_id = ? AND subject_id = ? AND grade_id IS NOT NULL
+     ORDER BY COALESCE(completed_at, created_at) DESC, session_id DESC
+     LIMIT 1`,
+    [studentId, subjectId],
+  );
+  const gradeId = Number(sessionRows[0]?.grade_id);
+  return sessionRows.length && Number.isFinite(gradeId) ? gradeId : null;
+};
+
 const resolvePromotionContext = async (
   studentId: string,
   subjectId: number,
@@ -282,6 +394,10 @@ export async function getStudentPromotionReadiness(
   }
 
   const subjectId = await resolveSubjectId(subject);
+  const thresholds =
+    options?.thresholds ??
+    (await getPromotionThresholds(subjectId, options?.gradeId ?? (await resolveStudentGradeId(studentId, subjectId))));
+  const { averageThreshold: threshold, requiredSessions } = thresholds;
   const context = await resolvePromotionContext(studentId, subjectId, options);
 
   if (!context) {
@@ -290,10 +406,12 @@ export async function getStudentPromotionReadiness(
       status: "insufficient_data",
       trend: "neutral",
       canPromote: false,
-      threshold: PROMOTION_AVERAGE_THRESHOLD,
-      requiredSessions: PROMOTION_REQUIRED_CONSECUTIVE_SESSIONS,
+      threshold,
+      requiredSessions,
       qualifyingStreak: 0,
       recentAverages: [],
+      recentSessions: [],
+      currentPhonemicId: null,
       message: "Current phonemic level is unavailable.",
     };
   }
@@ -302,7 +420,7 @@ export async function getStudentPromotionReadiness(
   const assessedAt = context.assessedAt;
 
   const [sessionRows] = await query<RowDataPacket[]>(
-    `SELECT overall_average
+    `SELECT session_id, overall_average, COALESCE(completed_at, created_at) AS completed_at
      FROM student_remedial_session
      WHERE student_id = ?
        AND subject_id = ?
@@ -311,47 +429,48 @@ export async function getStudentPromotionReadiness(
        AND (? IS NULL OR COALESCE(completed_at, created_at) > ?)
      ORDER BY COALESCE(completed_at, created_at) DESC, session_id DESC
      LIMIT ?`,
-    [studentId, subjectId, currentPhonemicId, assessedAt, assessedAt, PROMOTION_REQUIRED_CONSECUTIVE_SESSIONS],
+    [studentId, subjectId, currentPhonemicId, assessedAt, assessedAt, requiredSessions],
   );
 
-  const recentAverages = (sessionRows ?? [])
-    .map((row) => Number(row.overall_average))
-    .filter((value) => Number.isFinite(value));
+  const recentSessions = (sessionRows ?? [])
+    .map((row) => ({
+      sessionId: Number(row.session_id),
+      average: Number(row.overall_average),
+      completedAt: row.completed_at ?? null,
+    }))
+    .filter((row) => Number.isFinite(row.average));
+  const recentAverages = recentSessions.map((row) => row.average);
 
   let qualifyingStreak = 0;
   for (const average of recentAverages) {
-    if (average >= PROMOTION_AVERAGE_THRESHOLD) {
+    if (average >= threshold) {
       qualifyingStreak += 1;
       continue;
     }
     break;
   }
 
-  if (recentAverages.length < PROMOTION_REQUIRED_CONSECUTIVE_SESSIONS) {
+  const evidence = { threshold, requiredSessions, qualifyingStreak, recentAverages, recentSessions, currentPhonemicId };
+
+  if (recentAverages.length < requiredSessions) {
     return {
       subject,
       status: "insufficient_data",
       trend: "neutral",
       canPromote: false,
-      threshold: PROMOTION_AVERAGE_THRESHOLD,
-      requiredSessions: PROMOTION_REQUIRED_CONSECUTIVE_SESSIONS,
-      qualifyingStreak,
-      recentAverages,
-      message: `Need ${PROMOTION_REQUIRED_CONSECUTIVE_SESSIONS} completed remedial sessions to evaluate promotion.`,
+      ...evidence,
+      message: `Need ${requiredSessions} completed remedial sessions to evaluate promotion.`,
     };
   }
 
-  if (qualifyingStreak >= PROMOTION_REQUIRED_CONSECUTIVE_SESSIONS) {
+  if (qualifyingStreak >= requiredSessions) {
     return {
       subject,
       status: "ready",
       trend: "up",
       canPromote: true,
-      threshold: PROMOTION_AVERAGE_THRESHOLD,
-      requiredSessions: PROMOTION_REQUIRED_CONSECUTIVE_SESSIONS,
-      qualifyingStreak,
-      recentAverages,
-      message: `Ready to promote: the last ${PROMOTION_REQUIRED_CONSECUTIVE_SESSIONS} session averages are ${PROMOTION_AVERAGE_THRESHOLD}% or higher.`,
+      ...evidence,
+      message: `Ready to promote: the last ${requiredSessions} session averages are ${threshold}% or higher.`,
     };
   }
 
@@ -360,28 +479,12 @@ export async function getStudentPromotionReadiness(
     status: "not_ready",
     trend: "down",
     canPromote: false,
-    threshold: PROMOTION_AVERAGE_THRESHOLD,
-    requiredSessions: PROMOTION_REQUIRED_CONSECUTIVE_SESSIONS,
-    qualifyingStreak,
-    recentAverages,
-    message: `Not ready yet: the student needs ${PROMOTION_REQUIRED_CONSECUTIVE_SESSIONS} straight session averages of ${PROMOTION_AVERAGE_THRESHOLD}% or higher.`,
+    ...evidence,
+    message: `Not ready yet: the student needs ${requiredSessions} straight session averages of ${threshold}% or higher.`,
   };
 }
 
-export async function promoteStudentPhonemic(
-  studentId: string,
-  subject: SubjectName,
-  options?: PromotionOptions,
-): Promise<PromotionResult> {
-  const requiredTables = ["student_subject_assessment", "phonemic_level", "subject"];
-  for (const table of requiredTables) {
-    if (!(await tableExists(table))) {
-      throw new Error(`Missing required table: ${table}`);
-    }
-  }
-
-  const subjectId = await resolveSubjectId(subject);
-
+const loadOrderedLevels = async (subject: SubjectName, subjectId: number): Promise<PromotionLevelRow[]> => {
   const phonemicColumns = await getTableColumns("phonemic_level");
   const orderColumn = ORDER_COLUMN_CANDIDATES.find((column) => phonemicColumns.has(column)) ?? "phonemic_id";
 
@@ -399,12 +502,237 @@ export async function promoteStudentPhonemic(
     throw new Error("No phonemic levels configured for this subject.");
   }
 
+  return levels;
+};
+
+const toPromotionLevel = (level: PromotionLevelRow): PromotionLevel => ({
+  phonemic_id: Number(level.phonemic_id),
+  level_name: typeof level.level_name === "string" ? level.level_name : null,
+});
+
+/** Moves the student to `phonemicId`, resetting the assessment date so later readiness checks start fresh. */
+const setStudentPhonemicLevel = async (
+  db: DbConnection,
+  studentId: string,
+  subjectId: number,
+  context: PromotionContext,
+  phonemicId: number,
+) => {
+  if (context.assessmentId != null) {
+    await db.query(
+      "UPDATE student_subject_assessment SET phonemic_id = ?, assessed_at = NOW() WHERE assessment_id = ?",
+      [phonemicId, context.assessmentId],
+    );
+    return;
+  }
+
+  await db.query(
+    `INSERT INTO student_subject_assessment (student_id, subject_id, phonemic_id, assessed_at)
+     VALUES (?, ?, ?, NOW())`,
+    [studentId, subjectId, phonemicId],
+  );
+};
+
+type LevelChangeRow = RowDataPacket & {
+  change_id: number;
+  student_id: string;
+  subject_id: number;
+  change_type: LevelChangeType;
+  from_phonemic_id: number;
+  from_level_name: string | null;
+  to_phonemic_id: number;
+  to_level_name: string | null;
+  reason: string;
+  alert_id: number | null;
+  changed_by: number | null;
+  reversed_by_change_id: number | null;
+  created_at: Date | string | null;
+};
+
+const toOptionalId = (value: unknown): number | null => {
+  if (value === null || value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toLevelChange = (row: LevelChangeRow): PhonemicLevelChange => ({
+  changeId: Number(row.change_id),
+  studentId: String(row.student_id),
+  subjectId: Number(row.subject_id),
+  changeType: row.change_type,
+  fromPhonemicId: Number(row.from_phonemic_id),
+  fromLevelName: row.from_level_name ?? null,
+  toPhonemicId: Number(row.to_phonemic_id),
+  toLevelName: row.to_level_name ?? null,
+  reason: String(row.reason ?? ""),
+  alertId: toOptionalId(row.alert_id),
+  changedBy: toOptionalId(row.changed_by),
+  reversedByChangeId: toOptionalId(row.reversed_by_change_id),
+  createdAt: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at ? String(row.created_at) : null,
+});
+
+const LEVEL_CHANGE_SELECT = `SELECT c.change_id, c.student_id, c.subject_id, c.change_type, c.from_phonemic_id, fl.level_name AS from_level_name,
+       c.to_phonemic_id, tl.level_name AS to_level_name, c.reason, c.alert_id, c.changed_by,
+       c.reversed_by_change_id, c.created_at
+     FROM ${LEVEL_CHANGE_TABLE} c
+     LEFT JOIN phonemic_level fl ON fl.phonemic_id = c.from_phonemic_id
+     LEFT JOIN phonemic_level tl ON tl.phonemic_id = c.to_phonemic_id`;
+
+const recordLevelChange = async (db: DbConnection, change: {
+  studentId: string;
+  subjectId: number;
+  changeType: LevelChangeType;
+  fromPhonemicId: number;
+  toPhonemicId: number;
+  reason: string;
+  alertId?: number | null;
+  changedBy?: number | null;
+}): Promise<number> => {
+  const [result] = await db.query<ResultSetHeader>(
+    `INSERT INTO ${LEVEL_CHANGE_TABLE}
+       (student_id, subject_id, change_type, from_phonemic_id, to_phonemic_id, reason, alert_id, changed_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      change.studentId,
+      change.subjectId,
+      change.changeType,
+      change.fromPhonemicId,
+      change.toPhonemicId,
+      change.reason.slice(0, MAX_REASON_LENGTH),
+      change.alertId ?? null,
+      change.changedBy ?? null,
+    ],
+  );
+  return Number(result.insertId);
+};
+
+/**
+ * Runs the level update and its history row together so neither lands
+ * without the other. The table is ensured first because DDL inside the
+ * transaction would commit it early.
+ */
+const inLevelChangeTransaction = async <T>(work: (db: PoolConnection) => Promise<T>): Promise<T> => {
+  await ensureLevelChangeTable();
+  return runWithConnection(async (db) => {
+    await db.beginTransaction();
+    try {
+      const result = await work(db);
+      await db.commit();
+      return result;
+    } catch (error) {
+      await db.rollback();
+      throw error;
+    }
+  });
+};
+
+const getLevelChange = async (changeId: number): Promise<PhonemicLevelChange | null> => {
+  const [rows] = await query<LevelChangeRow[]>(`${LEVEL_CHANGE_SELECT} WHERE c.change_id = ? LIMIT 1`, [changeId]);
+  return rows.length ? toLevelChange(rows[0]) : null;
+};
+
+/**
+ * Moves every listed student that has a level in the subject to `phonemicId` and records a
+ * `reset` change for each one whose level moved. Runs inside the caller's transaction, so the
+ * caller must await `ensureLevelChangeTable` before starting it. Returns the students moved.
+ */
+export async function resetStudentPhonemicLevels(
+  db: DbConnection,
+  subjectId: number,
+  studentIds: string[],
+  phonemicId: number,
+  change: { reason: string; changedBy?: number | null },
+): Promise<number> {
+  if (!studentIds.length) {
+    return 0;
+  }
+
+  const [rows] = await db.query<(CurrentAssessmentRow & { student_id: string })[]>(
+    `SELECT student_id, assessment_id, phonemic_id, assessed_at
+     FROM student_subject_assessment
+     WHERE subject_id = ? AND student_id IN (${studentIds.map(() => "?").join(", ")})
+     ORDER BY assessed_at DESC, assessment_id DESC`,
+    [subjectId, ...studentIds],
+  );
+  const latest = new Map<string, PromotionContext>();
+  for (const row of rows) {
+    const studentId = String(row.student_id);
+    if (latest.has(studentId)) continue;
+    latest.set(studentId, {
+      assessmentId: Number(row.assessment_id),
+      phonemicId: Number(row.phonemic_id),
+      assessedAt: row.assessed_at,
+    });
+  }
+
+  let moved = 0;
+  for (const [studentId, context] of latest) {
+    await setStudentPhonemicLevel(db, studentId, subjectId, context, phonemicId);
+    if (context.phonemicId === phonemicId) continue;
+    await recordLevelChange(db, {
+      studentId,
+      subjectId,
+      changeType: "reset",
+      fromPhonemicId: context.phonemicId,
+      toPhonemicId: phonemicId,
+      reason: change.reason,
+      changedBy: change.changedBy ?? null,
+    });
+    moved += 1;
+  }
+  return moved;
+}
+
+/** The student's recorded level changes for one subject, newest first. */
+export async function getPhonemicLevelChanges(
+  studentId: string,
+  subject: SubjectName,
+  limit = 20,
+): Promise<PhonemicLevelChange[]> {
+  await ensureLevelChangeTable();
+  const subjectId = await resolveSubjectId(subject);
+  const safeLimit = Math.min(100, Math.max(1, Math.floor(limit)));
+  const [rows] = await query<LevelChangeRow[]>(
+    `${LEVEL_CHANGE_SELECT}
+     WHERE c.student_id = ? AND c.subject_id = ?
+     ORDER BY c.created_at DESC, c.change_id DESC
+     LIMIT ${safeLimit}`,
+    [studentId, subjectId],
+  );
+  return rows.map(toLevelChange);
+}
+
+/** The student's current level in a subject, or `null` when none can be determined. */
+export async function resolveCurrentPhonemicLevel(
+  studentId: string,
+  subject: SubjectName,
+  options?: PromotionOptions,
+): Promise<{ subjectId: number; phonemicId: number; assessedAt: Date | string | null } | null> {
+  const subjectId = await resolveSubjectId(subject);
+  const context = await resolvePromotionContext(studentId, subjectId, options);
+  return context ? { subjectId, phonemicId: context.phonemicId, assessedAt: context.assessedAt } : null;
+}
+
+export async function promoteStudentPhonemic(
+  studentId: string,
+  subject: SubjectName,
+  options?: PromotionOptions,
+): Promise<PromotionResult> {
+  const requiredTables = ["student_subject_assessment", "phonemic_level", "subject"];
+  for (const table of requiredTables) {
+    if (!(await tableExists(table))) {
+      throw new Error(`Missing required table: ${table}`);
+    }
+  }
+
+  const subjectId = await resolveSubjectId(subject);
+  const levels = await loadOrderedLevels(subject, subjectId);
+
   const context = await resolvePromotionContext(studentId, subjectId, options);
   if (!context) {
     throw new Error("Current phonemic level is unavailable for promotion.");
   }
 
-  const assessmentId = context.assessmentId;
   const currentPhonemicId = context.phonemicId;
 
   const currentIndex = levels.findIndex(
@@ -427,28 +755,140 @@ export async function promoteStudentPhonemic(
     throw new Error(recommendation.message);
   }
 
-  if (assessmentId != null) {
-    await query(
-      "UPDATE student_subject_assessment SET phonemic_id = ?, assessed_at = NOW() WHERE assessment_id = ?",
-      [Number(nextLevel.phonemic_id), assessmentId],
-    );
-  } else {
-    await query(
-      `INSERT INTO student_subject_assessment (student_id, subject_id, phonemic_id, assessed_at)
-       VALUES (?, ?, ?, NOW())`,
-      [studentId, subjectId, Number(nextLevel.phonemic_id)],
-    );
-  }
+  await inLevelChangeTransaction(async (db) => {
+    await setStudentPhonemicLevel(db, studentId, subjectId, context, Number(nextLevel.phonemic_id));
+    await recordLevelChange(db, {
+      studentId,
+      subjectId,
+      changeType: "promotion",
+      fromPhonemicId: currentPhonemicId,
+      toPhonemicId: Number(nextLevel.phonemic_id),
+      reason: recommendation.message,
+    });
+  });
 
   return {
-    currentLevel: {
-      phonemic_id: Number(currentLevel.phonemic_id),
-      level_name: typeof currentLevel.level_name === "string" ? currentLevel.level_name : null,
-    },
-    nextLevel: {
-      phonemic_id: Number(nextLevel.phonemic_id),
-      level_name: typeof nextLevel.level_name === "string" ? nextLevel.level_name : null,
-    },
+    currentLevel: toPromotionLevel(currentLevel),
+    nextLevel: toPromotionLevel(nextLevel),
     recommendation,
   };
 }
+
+/**
+ * Moves the student down one level and records the change with the
+ * teacher's reason so it shows in the level history and can be undone with
+ * `reverseStudentDemotion`.
+ */
+export async function demoteStudentPhonemic(
+  studentId: string,
+  subject: SubjectName,
+  options: DemotionOptions & PromotionOptions,
+): Promise<DemotionResult> {
+  const reason = options.reason.trim();
+  if (!reason) {
+    throw new Error("A reason is required to demote a student.");
+  }
+
+  const requiredTables = ["student_subject_assessment", "phonemic_level", "subject"];
+  for (const table of requiredTables) {
+    if (!(await tableExists(table))) {
+      throw new Error(`Missing required table: ${table}`);
+    }
+  }
+
+  const subjectId = await resolveSubjectId(subject);
+  const levels = await loadOrderedLevels(subject, subjectId);
+
+  const context = await resolvePromotionContext(studentId, subjectId, options);
+  if (!context) {
+    throw new Error("Current phonemic level is unavailable for demotion.");
+  }
+
+  const currentIndex = levels.findIndex((level) => Number(level.phonemic_id) === context.phonemicId);
+  if (currentIndex < 0) {
+    throw new Error("Current phonemic level not found for this subject.");
+  }
+  if (currentIndex === 0) {
+    throw new Error("Student is already at the lowest level.");
+  }
+
+  const currentLevel = levels[currentIndex];
+  const previousLevel = levels[currentIndex - 1];
+
+  const changeId = await inLevelChangeTransaction(async (db) => {
+    await setStudentPhonemicLevel(db, studentId, subjectId, context, Number(previousLevel.phonemic_id));
+    return recordLevelChange(db, {
+      studentId,
+      subjectId,
+      changeType: "demotion",
+      fromPhonemicId: context.phonemicId,
+      toPhonemicId: Number(previousLevel.phonemic_id),
+      reason,
+      alertId: options.alertId ?? null,
+      changedBy: options.changedBy ?? null,
+    });
+  });
+
+  const change = await getLevelChange(changeId);
+  if (!change) {
+    throw new Error("Unable to record the demotion.");
+  }
+
+  return {
+    fromLevel: toPromotionLevel(currentLevel),
+    toLevel: toPromotionLevel(previousLevel),
+    change,
+  };
+}
+
+/**
+ * Undoes a recorded demotion by moving the student back to the level they
+ * were demoted from. Refused once the student's level has changed again.
+ */
+export async function reverseStudentDemotion(
+  studentId: string,
+  changeId: number,
+  options: { reason?: string | null; changedBy?: number | null } = {},
+): Promise<PhonemicLevelChange> {
+  await ensureLevelChangeTable();
+  const demotion = await getLevelChange(changeId);
+  if (!demotion || demotion.changeType !== "demotion" || demotion.studentId !== studentId) {
+    throw new Error("Demotion not found.");
+  }
+  if (demotion.reversedByChangeId != null) {
+    throw new Error("This demotion has already been undone.");
+  }
+
+  const context = await resolvePromotionContext(studentId, demotion.subjectId);
+  if (!context || context.phonemicId !== demotion.toPhonemicId) {
+    throw new Error("The student's level changed after this demotion, so it can no longer be undone.");
+  }
+
+  const reversalId = await inLevelChangeTransaction(async (db) => {
+    await setStudentPhonemicLevel(db, studentId, demotion.subjectId, context, demotion.fromPhonemicId);
+    const insertedId = await recordLevelChange(db, {
+      studentId,
+      subjectId: demotion.subjectId,
+      changeType: "reversal",
+      fromPhonemicId: demotion.toPhonemicId,
+      toPhonemicId: demotion.fromPhonemicId,
+      reason: options.reason?.trim() || `Undid demotion #${changeId}.`,
+      alertId: demotion.alertId,
+      changedBy: options.changedBy ?? null,
+    });
+    const [marked] = await db.query<ResultSetHeader>(
+      `UPDATE ${LEVEL_CHANGE_TABLE} SET reversed_by_change_id = ? WHERE change_id = ? AND reversed_by_change_id IS NULL`,
+      [insertedId, changeId],
+    );
+    if (marked.affectedRows === 0) {
+      throw new Error("This demotion has already been undone.");
+    }
+    return insertedId;
+  });
+
+  const reversal = await getLevelChange(reversalId);
+  if (!reversal) {
+    throw new Error("Unable to record the reversal.");
+  }
+  return reversal;
+}
@@ -0,0 +1,414 @@
+import type { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { query } from "@/lib/db";
+import {
+  getStudentPromotionReadiness,
+  promoteStudentPhonemic,
+  type PromotionReadiness,
+  type PromotionSessionEvidence,
+  type PromotionTrend,
+  type SubjectName,
+} from "./promote-phonemic";
+
+export type PromotionQueueStatus = "pending" | "approved" | "rejected" | "withdrawn";
+
+export type PromotionQueueDecision = "approve" | "reject";
+
+export type PromotionQueueEvidence = {
+  threshold: number;
+  requiredSessions: number;
+  qualifyingStreak: number;
+  /** Direction of the session averages across the qualifying sessions. */
+  trend: PromotionTrend;
+  sessions: PromotionSessionEvidence[];
+  message: string;
+};
+
+export type PromotionQueueEntry = {
+  queueId: number;
+  studentId: string;
+  studentName: string;
+  lrn: string | null;
+  subjectId: number;
+  subject: string | null;
+  gradeId: number | null;
+  gradeLevel: string | null;
+  phonemicId: number;
+  levelName: string | null;
+  status: PromotionQueueStatus;
+  evidence: PromotionQueueEvidence | null;
+  queuedAt: string | null;
+  decidedBy: number | null;
+  decidedAt: string | null;
+  decisionNote: string | null;
+};
+
+export type PromotionBatchOptions = {
+  subjectId: number;
+  gradeId?: number | null;
+  /** Limits the batch to these students; every student with a session in the subject otherwise. */
+  studentIds?: string[];
+};
+
+export type PromotionBatchResult = {
+  evaluated: number;
+  queued: number;
+  withdrawn: number;
+  failed: number;
+};
+
+export type PromotionDecisionResult = {
+  updated: number[];
+  failed: Array<{ queueId: number; error: string }>;
+};
+
+const QUEUE_TABLE = "promotion_approval_queue";
+
+/** Average change, in points, between the oldest and newest session before a trend counts as up or down. */
+const TREND_TOLERANCE = 1;
+
+const SUBJECT_NAMES: SubjectName[] = ["English", "Filipino", "Math"];
+
+let queueSchemaPromise: Promise<void> | null = null;
+
+export const ensurePromotionQueueTable = async () => {
+  if (!queueSchemaPromise) {
+    queueSchemaPromise = query(
+      `CREATE TABLE IF NOT EXISTS ${QUEUE_TABLE} (
+        queue_id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+        student_id VARCHAR(64) NOT NULL,
+        subject_id BIGINT UNSIGNED NOT NULL,
+        grade_id BIGINT UNSIGNED NULL,
+        phonemic_id BIGINT UNSIGNED NOT NULL,
+        latest_session_id BIGINT UNSIGNED NULL,
+        status ENUM('pending','approved','rejected','withdrawn') NOT NULL DEFAULT 'pending',
+        evidence_json JSON NULL,
+        decided_by BIGINT UNSIGNED NULL,
+        decided_at DATETIME NULL,
+        decision_note VARCHAR(500) NULL,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (queue_id),
+        INDEX idx_promotion_queue_status (subject_id, grade_id, status),
+        INDEX idx_promotion_queue_student (student_id, subject_id, status)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    )
+      .then(() => undefined)
+      .catch((error) => {
+        queueSchemaPromise = null;
+        throw error;
+      });
+  }
+  await queueSchemaPromise;
+};
+
+/** Trend of session averages listed newest first, as returned in `PromotionReadiness.recentAverages`. */
+export const computeAverageTrend = (averagesNewestFirst: number[]): PromotionTrend => {
+  const values = averagesNewestFirst.filter((value) => Number.isFinite(value));
+  if (values.length < 2) return "neutral";
+  const change = values[0] - values[values.length - 1];
+  if (change > TREND_TOLERANCE) return "up";
+  if (change < -TREND_TOLERANCE) return "down";
+  return "neutral";
+};
+
+export const buildPromotionEvidence = (readiness: PromotionReadiness): PromotionQueueEvidence => ({
+  threshold: readiness.threshold,
+  requiredSessions: readiness.requiredSessions,
+  qualifyingStreak: readiness.qualifyingStreak,
+  trend: computeAverageTrend(readiness.recentAverages),
+  sessions: readiness.recentSessions,
+  message: readiness.message,
+});
+
+const parseEvidence = (raw: unknown): PromotionQueueEvidence | null => {
+  if (raw === null || raw === undefined) return null;
+  try {
+    const value = typeof raw === "string" ? JSON.parse(raw) : raw;
+    return value && typeof value === "object" && Array.isArray((value as PromotionQueueEvidence).sessions)
+      ? (value as PromotionQueueEvidence)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const toIsoString = (value: unknown): string | null => {
+  if (value instanceof Date) return value.toISOString();
+  return value === null || value === undefined ? null : String(value);
+};
+
+const toOptionalNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const toPromotionSubjectName = (value: unknown): SubjectName | null => {
+  const normalized = String(value ?? "").trim().toLowerCase();
+  return SUBJECT_NAMES.find((subject) => subject.toLowerCase() === normalized) ?? null;
+};
+
+const resolveSubjectName = async (subjectId: number): Promise<SubjectName> => {
+  const [rows] = await query<RowDataPacket[]>("SELECT subject_name FROM subject WHERE subject_id = ? LIMIT 1", [
+    subjectId,
+  ]);
+  const subject = toPromotionSubjectName(rows[0]?.subject_name);
+  if (!subject) {
+    throw new Error("Promotion is not available for this subject.");
+  }
+  return subject;
+};
+
+type CandidateRow = RowDataPacket & { student_id: string; grade_id: number | null };
+
+const listBatchCandidates = async (options: PromotionBatchOptions): Promise<CandidateRow[]> => {
+  const conditions = ["s.subject_id = ?"];
+  const params: Array<string | number> = [options.subjectId];
+  if (options.gradeId != null) {
+    conditions.push("s.grade_id = ?");
+    params.push(options.gradeId);
+  }
+  if (options.studentIds) {
+    if (!options.studentIds.length) return [];
+    conditions.push(`s.student_id IN (${options.studentIds.map(() => "?").join(", ")})`);
+    params.push(...options.studentIds);
+  }
+
+  // One row per student: the grade of their latest session in the subject.
+  const [rows] = await query<CandidateRow[]>(
+    `SELECT s.student_id, s.grade_id
+     FROM student_remedial_session s
+     WHERE ${conditions.join(" AND ")}
+       AND s.session_id = (
+         SELECT MAX(latest.session_id)
+         FROM student_remedial_session latest
+         WHERE latest.student_id = s.student_id AND latest.subject_id = s.subject_id
+       )`,
+    params,
+  );
+  return rows;
+};
+
+type OpenEntryRow = RowDataPacket & {
+  queue_id: number;
+  phonemic_id: number;
+  latest_session_id: number | null;
+  status: PromotionQueueStatus;
+};
+
+/**
+ * Re-evaluates promotion readiness and keeps the approval queue in step:
+ * students who are now ready get a pending entry carrying the qualifying
+ * sessions, and pending entries for students who are no longer ready (or
+ * whose level changed) are withdrawn. A rejected entry is not re-queued
+ * until a newer session qualifies.
+ */
+export async function runPromotionReadinessBatch(options: PromotionBatchOptions): Promise<PromotionBatchResult> {
+  await ensurePromotionQueueTable();
+  const subject = await resolveSubjectName(options.subjectId);
+  const candidates = await listBatchCandidates(options);
+  const result: PromotionBatchResult = { evaluated: 0, queued: 0, withdrawn: 0, failed: 0 };
+
+  for (const candidate of candidates) {
+    const studentId = String(candidate.student_id);
+    const gradeId = toOptionalNumber(candidate.grade_id) ?? options.gradeId ?? null;
+    let readiness: PromotionReadiness;
+    try {
+      readiness = await getStudentPromotionReadiness(studentId, subject, { gradeId });
+    } catch (error) {
+      console.warn("Promotion readiness evaluation failed", { studentId, subject, error });
+      result.failed += 1;
+      continue;
+    }
+    result.evaluated += 1;
+
+    const [openRows] = await query<OpenEntryRow[]>(
+      `SELECT queue_id, phonemic_id, latest_session_id, status
+       FROM ${QUEUE_TABLE}
+       WHERE student_id = ? AND subject_id = ? AND status IN ('pending', 'rejected')
+       ORDER BY queue_id DESC`,
+      [studentId, options.subjectId],
+    );
+    const pending = openRows.find((row) => row.status === "pending") ?? null;
+    const isReady = readiness.status === "ready" && readiness.currentPhonemicId != null;
+    const latestSessionId = readiness.recentSessions[0]?.sessionId ?? null;
+
+    if (pending && (!isReady || Number(pending.phonemic_id) !== readiness.currentPhonemicId)) {
+      await query(`UPDATE ${QUEUE_TABLE} SET status = 'withdrawn' WHERE queue_id = ? AND status = 'pending'`, [
+        pending.queue_id,
+      ]);
+      result.withdrawn += 1;
+    }
+
+    if (!isReady) continue;
+
+    const evidenceJson = JSON.stringify(buildPromotionEvidence(readiness));
+    if (pending && Number(pending.phonemic_id) === readiness.currentPhonemicId) {
+      await query(
+        `UPDATE ${QUEUE_TABLE} SET grade_id = ?, latest_session_id = ?, evidence_json = ? WHERE queue_id = ?`,
+        [gradeId, latestSessionId, evidenceJson, pending.queue_id],
+      );
+      continue;
+    }
+
+    const alreadyRejected = openRows.some(
+      (row) =>
+        row.status === "rejected" &&
+        Number(row.phonemic_id) === readiness.currentPhonemicId &&
+        Number(row.latest_session_id) === latestSessionId,
+    );
+    if (alreadyRejected) continue;
+
+    await query(
+      `INSERT INTO ${QUEUE_TABLE} (student_id, subject_id, grade_id, phonemic_id, latest_session_id, evidence_json)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [studentId, options.subjectId, gradeId, readiness.currentPhonemicId, latestSessionId, evidenceJson],
+    );
+    result.queued += 1;
+  }
+
+  return result;
+}
+
+type QueueRow = RowDataPacket & {
+  queue_id: number;
+  student_id: string;
+  subject_id: number;
+  subject_name: string | null;
+  grade_id: number | null;
+  grade_level: string | number | null;
+  phonemic_id: number;
+  level_name: string | null;
+  status: PromotionQueueStatus;
+  evidence_json: unknown;
+  created_at: Date | string | null;
+  decided_by: number | null;
+  decided_at: Date | string | null;
+  decision_note: string | null;
+  first_name: string | null;
+  middle_name: string | null;
+  last_name: string | null;
+  lrn: string | null;
+};
+
+const toQueueEntry = (row: QueueRow): PromotionQueueEntry => {
+  const nameParts = [row.first_name, row.middle_name, row.last_name]
+    .map((part) => (part ? String(part).trim() : ""))
+    .filter(Boolean);
+  return {
+    queueId: Number(row.queue_id),
+    studentId: String(row.student_id),
+    studentName: nameParts.length ? nameParts.join(" ") : String(row.student_id),
+    lrn: row.lrn ? String(row.lrn) : null,
+    subjectId: Number(row.subject_id),
+    subject: row.subject_name ? String(row.subject_name) : null,
+    gradeId: toOptionalNumber(row.grade_id),
+    gradeLevel: row.grade_level === null || row.grade_level === undefined ? null : String(row.grade_level),
+    phonemicId: Number(row.phonemic_id),
+    levelName: row.level_name ? String(row.level_name) : null,
+    status: row.status,
+    evidence: parseEvidence(row.evidence_json),
+    queuedAt: toIsoString(row.created_at),
+    decidedBy: toOptionalNumber(row.decided_by),
+    decidedAt: toIsoString(row.decided_at),
+    decisionNote: row.decision_note ? String(row.decision_note) : null,
+  };
+};
+
+const QUEUE_SELECT = `SELECT q.queue_id, q.student_id, q.subject_id, sub.subject_name, q.grade_id, g.grade_level,
+       q.phonemic_id, pl.level_name, q.status, q.evidence_json, q.created_at, q.decided_by, q.decided_at,
+       q.decision_note, st.first_name, st.middle_name, st.last_name, st.lrn
+     FROM ${QUEUE_TABLE} q
+     LEFT JOIN student st ON st.student_id = q.student_id
+     LEFT JOIN subject sub ON sub.subject_id = q.subject_id
+     LEFT JOIN grade g ON g.grade_id = q.grade_id
+     LEFT JOIN phonemic_level pl ON pl.phonemic_id = q.phonemic_id`;
+
+export async function listPromotionQueue(filters: {
+  subjectId: number;
+  gradeId?: number | null;
+  status?: PromotionQueueStatus;
+}): Promise<PromotionQueueEntry[]> {
+  await ensurePromotionQueueTable();
+  const conditions = ["q.subject_id = ?", "q.status = ?"];
+  const params: Array<string | number> = [filters.subjectId, filters.status ?? "pending"];
+  if (filters.gradeId != null) {
+    conditions.push("q.grade_id = ?");
+    params.push(filters.gradeId);
+  }
+  const [rows] = await query<QueueRow[]>(
+    `${QUEUE_SELECT}
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY q.created_at ASC, q.queue_id ASC`,
+    params,
+  );
+  return rows.map(toQueueEntry);
+}
+
+/**
+ * Approves or rejects pending entries. Approval promotes the student through
+ * `promoteStudentPhonemic`, which re-checks readiness, so an entry whose
+ * student slipped or changed level since it was queued is reported as failed
+ * and stays pending.
+ */
+export async function decidePromotionQueueEntries(
+  queueIds: number[],
+  decision: PromotionQueueDecision,
+  decidedBy: number | null,
+  note?: string | null,
+): Promise<PromotionDecisionResult> {
+  await ensurePromotionQueueTable();
+  const result: PromotionDecisionResult = { updated: [], failed: [] };
+  const ids = Array.from(new Set(queueIds.filter((id) => Number.isInteger(id) && id > 0)));
+  if (!ids.length) return result;
+
+  const [rows] = await query<QueueRow[]>(
+    `${QUEUE_SELECT}
+     WHERE q.queue_id IN (${ids.map(() => "?").join(", ")})`,
+    ids,
+  );
+  const rowsById = new Map(rows.map((row) => [Number(row.queue_id), row]));
+  const decisionNote = note?.trim().slice(0, 500) || null;
+
+  for (const queueId of ids) {
+    const row = rowsById.get(queueId);
+    if (!row || row.status !== "pending") {
+      result.failed.push({ queueId, error: "Entry is no longer pending." });
+      continue;
+    }
+
+    if (decision === "approve") {
+      const subject = toPromotionSubjectName(row.subject_name);
+      if (!subject) {
+        result.failed.push({ queueId, error: "Promotion is not available for this subject." });
+        continue;
+      }
+      try {
+        const gradeId = toOptionalNumber(row.grade_id);
+        const readiness = await getStudentPromotionReadiness(String(row.student_id), subject, { gradeId });
+        if (readiness.currentPhonemicId !== Number(row.phonemic_id)) {
+          result.failed.push({ queueId, error: "The student's level changed after this entry was queued." });
+          continue;
+        }
+        await promoteStudentPhonemic(String(row.student_id), subject, { gradeId });
+      } catch (error) {
+        result.failed.push({ queueId, error: error instanceof Error ? error.message : "Promotion failed." });
+        continue;
+      }
+    }
+
+    const [update] = await query<ResultSetHeader>(
+      `UPDATE ${QUEUE_TABLE}
+       SET status = ?, decided_by = ?, decided_at = NOW(), decision_note = ?
+       WHERE queue_id = ? AND status = 'pending'`,
+      [decision === "approve" ? "approved" : "rejected", decidedBy, decisionNote, queueId],
+    );
+    if (update.affectedRows > 0) {
+      result.updated.push(queueId);
+    } else {
+      result.failed.push({ queueId, error: "Entry is no longer pending." });
+    }
+  }
+
+  return result;
+}
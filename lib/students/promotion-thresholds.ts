@@ -0,0 +1,101 @@
+import type { RowDataPacket } from "mysql2/promise";
+import { query } from "@/lib/db";
+
+export type PromotionThresholds = {
+  /** Minimum remedial session average, in percent, that counts towards promotion. */
+  averageThreshold: number;
+  /** Consecutive qualifying sessions needed at the current level. */
+  requiredSessions: number;
+};
+
+export const DEFAULT_PROMOTION_THRESHOLDS: PromotionThresholds = {
+  averageThreshold: 85,
+  requiredSessions: 2,
+};
+
+/** Rows saved with this grade apply to every grade of the subject that has no row of its own. */
+export const ALL_GRADES_ID = 0;
+
+const THRESHOLDS_TABLE = "promotion_thresholds";
+
+let thresholdsSchemaPromise: Promise<void> | null = null;
+
+const ensurePromotionThresholdsTable = async () => {
+  if (!thresholdsSchemaPromise) {
+    thresholdsSchemaPromise = query(
+      `CREATE TABLE IF NOT EXISTS ${THRESHOLDS_TABLE} (
+        subject_id BIGINT UNSIGNED NOT NULL,
+        grade_id BIGINT UNSIGNED NOT NULL DEFAULT 0,
+        average_threshold DECIMAL(5,2) NOT NULL,
+        required_sessions TINYINT UNSIGNED NOT NULL,
+        updated_by BIGINT UNSIGNED NULL,
+        updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (subject_id, grade_id)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    )
+      .then(() => undefined)
+      .catch((error) => {
+        thresholdsSchemaPromise = null;
+        throw error;
+      });
+  }
+  await thresholdsSchemaPromise;
+};
+
+export const normalizePromotionThresholds = (raw: unknown): PromotionThresholds => {
+  const source = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const average = Number(source.averageThreshold);
+  const sessions = Number(source.requiredSessions);
+  return {
+    averageThreshold:
+      Number.isFinite(average) && average > 0 && average <= 100
+        ? Math.round(average * 100) / 100
+        : DEFAULT_PROMOTION_THRESHOLDS.averageThreshold,
+    requiredSessions:
+      Number.isFinite(sessions) && sessions >= 1 && sessions <= 10
+        ? Math.round(sessions)
+        : DEFAULT_PROMOTION_THRESHOLDS.requiredSessions,
+  };
+};
+
+/**
+ * Thresholds for one subject and grade: the grade's own row, then the
+ * subject-wide row, then `DEFAULT_PROMOTION_THRESHOLDS`.
+ */
+export async function getPromotionThresholds(subjectId: number, gradeId: number | null): Promise<PromotionThresholds> {
+  await ensurePromotionThresholdsTable();
+  const [rows] = await query<RowDataPacket[]>(
+    `SELECT grade_id, average_threshold, required_sessions
+     FROM ${THRESHOLDS_TABLE}
+     WHERE subject_id = ? AND grade_id IN (?, ?)
+     ORDER BY grade_id DESC`,
+    [subjectId, gradeId ?? ALL_GRADES_ID, ALL_GRADES_ID],
+  );
+  if (!rows.length) {
+    return { ...DEFAULT_PROMOTION_THRESHOLDS };
+  }
+  return normalizePromotionThresholds({
+    averageThreshold: rows[0].average_threshold,
+    requiredSessions: rows[0].required_sessions,
+  });
+}
+
+export async function savePromotionThresholds(
+  subjectId: number,
+  gradeId: number | null,
+  thresholds: PromotionThresholds,
+  updatedBy: number | null,
+): Promise<PromotionThresholds> {
+  await ensurePromotionThresholdsTable();
+  const normalized = normalizePromotionThresholds(thresholds);
+  await query(
+    `INSERT INTO ${THRESHOLDS_TABLE} (subject_id, grade_id, average_threshold, required_sessions, updated_by)
+     VALUES (?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       average_threshold = VALUES(average_threshold),
+       required_sessions = VALUES(required_sessions),
+       updated_by = VALUES(updated_by)`,
+    [subjectId, gradeId ?? ALL_GRADES_ID, normalized.averageThreshold, normalized.requiredSessions, updatedBy],
+  );
+  return normalized;
+}
@@ -0,0 +1,463 @@
+import * as XLSX from "xlsx";
+import { normalizeMaterialSubject } from "@/lib/materials/shared";
+import { STUDENT_SUBJECTS, type CreateStudentRecordInput, type StudentSubject } from "@/lib/students/shared";
+
+export const MAX_ROSTER_ROWS = 1000;
+
+const GRADE_RANGE = { min: 1, max: 6 } as const;
+
+export type RosterField =
+  | "lrn"
+  | "name"
+  | "lastName"
+  | "firstName"
+  | "middleName"
+  | "suffix"
+  | "age"
+  | "gradeLevel"
+  | "section"
+  | "subjects"
+  | "fatherName"
+  | "motherName"
+  | "guardianName"
+  | "relationship"
+  | "guardianContact"
+  | "guardianEmail"
+  | "address";
+
+export type RosterSheetRow = {
+  /** 1-based row number as shown in the spreadsheet. */
+  rowNumber: number;
+  values: Partial<Record<RosterField, string>>;
+};
+
+export type ParsedRosterSheet = {
+  headerRow: number;
+  /** Grade level and section printed in the SF1 banner above the table, if any. */
+  gradeLevel: string | null;
+  section: string | null;
+  rows: RosterSheetRow[];
+};
+
+export type RosterImportDefaults = {
+  gradeLevel: string | null;
+  section: string | null;
+  subjects: StudentSubject[];
+};
+
+/** Configured sections keyed by grade number ("1" to "6"). */
+export type RosterSectionConfig = Record<string, string[]>;
+
+export type RosterRowStatus = "valid" | "invalid" | "duplicate";
+
+export type RosterReportRow = {
+  rowNumber: number;
+  status: RosterRowStatus;
+  lrn: string | null;
+  fullName: string;
+  gradeLevel: string | null;
+  section: string | null;
+  subjects: StudentSubject[];
+  guardianName: string | null;
+  errors: string[];
+  warnings: string[];
+  existingStudentId: string | null;
+  record: CreateStudentRecordInput | null;
+};
+
+export type RosterReportSummary = {
+  total: number;
+  valid: number;
+  invalid: number;
+  duplicate: number;
+};
+
+export class RosterImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RosterImportError";
+  }
+}
+
+const SUFFIXES = new Set(["JR", "SR", "II", "III", "IV", "V"]);
+const FOOTER_PATTERN = /total|prepared by|certified|^<=+/i;
+const ADDRESS_PATTERN = /address|house|street|sitio|purok|barangay|municipality|city|province/;
+
+function normalizeLabel(value: unknown): string {
+  return String(value ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  return String(value).replace(/\s+/g, " ").trim();
+}
+
+/** Maps a (possibly grouped) SF1 or LIS column label to a roster field. */
+export function matchRosterField(label: string): RosterField | null {
+  const text = normalizeLabel(label);
+  if (!text) return null;
+
+  if (text === "lrn" || text.startsWith("lrn ") || text.includes("learner reference")) return "lrn";
+  if (text.startsWith("father")) return "fatherName";
+  if (text.startsWith("mother") && !text.startsWith("mother tongue")) return "motherName";
+  if (text.startsWith("guardian") || text.startsWith("parents guardian")) {
+    if (text.includes("relationship")) return "relationship";
+    if (text.includes("contact") || text.includes("mobile") || text.includes("phone")) return "guardianContact";
+    if (text.includes("email")) return "guardianEmail";
+    return "guardianName";
+  }
+  if (text.startsWith("parents")) {
+    if (text.includes("father")) return "fatherName";
+    if (text.includes("mother")) return "motherName";
+  }
+  if (text === "relationship") return "relationship";
+  if (text.includes("contact") || text.includes("mobile") || text.includes("phone")) return "guardianContact";
+  if (text.includes("email")) return "guardianEmail";
+  if (ADDRESS_PATTERN.test(text)) return "address";
+  if (text === "last name" || text === "surname" || text === "family name") return "lastName";
+  if (text === "first name" || text === "given name") return "firstName";
+  if (text === "middle name") return "middleName";
+  if (text === "suffix" || text === "extension" || text === "name extension" || text === "ext") return "suffix";
+  if (text.startsWith("name") || text === "learner name" || text === "learner s name" || text === "full name") {
+    return "name";
+  }
+  if (text.startsWith("age")) return "age";
+  if (text === "grade" || text === "grade level") return "gradeLevel";
+  if (text === "section") return "section";
+  if (text === "subject" || text === "subjects") return "subjects";
+  return null;
+}
+
+function isHeaderRow(cells: unknown[]): boolean {
+  const fields = new Set(cells.map((cell) => matchRosterField(cellText(cell))));
+  return fields.has("lrn") && (fields.has("name") || fields.has("lastName"));
+}
+
+function readBannerValue(cells: unknown[], label: "grade level" | "section"): string | null {
+  for (let index = 0; index < cells.length; index += 1) {
+    const text = cellText(cells[index]);
+    const normalized = normalizeLabel(text);
+    if (!normalized.startsWith(label)) continue;
+
+    const inline = text.split(/[:\-]/).slice(1).join("-").trim();
+    if (inline) return inline;
+    if (normalized !== label) continue;
+
+    for (let next = index + 1; next < cells.length; next += 1) {
+      const value = cellText(cells[next]);
+      if (value) return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Locates the learner table in an SF1/LIS sheet (given as rows of cells) and returns its rows
+ * keyed by field. SF1 groups columns such as ADDRESS, PARENTS and GUARDIAN under a merged
+ * header with a second label row, so the two rows are combined before matching.
+ */
+export function parseRosterSheet(grid: unknown[][]): ParsedRosterSheet {
+  const headerIndex = grid.findIndex((cells) => Array.isArray(cells) && isHeaderRow(cells));
+  if (headerIndex < 0) {
+    throw new RosterImportError("Could not find the learner table. The sheet needs LRN and NAME columns.");
+  }
+
+  let gradeLevel: string | null = null;
+  let section: string | null = null;
+  for (const cells of grid.slice(0, headerIndex)) {
+    gradeLevel = gradeLevel ?? readBannerValue(cells ?? [], "grade level");
+    section = section ?? readBannerValue(cells ?? [], "section");
+  }
+
+  const header = grid[headerIndex].map(cellText);
+  const lrnColumn = header.findIndex((label) => matchRosterField(label) === "lrn");
+  const nextRow = (grid[headerIndex + 1] ?? []).map(cellText);
+  const hasSubHeader =
+    !/\d/.test(nextRow[lrnColumn] ?? "") && nextRow.some((value, index) => value && index !== lrnColumn);
+
+  const columnCount = Math.max(header.length, hasSubHeader ? nextRow.length : 0);
+  const columns: Array<{ index: number; field: RosterField }> = [];
+  let group = "";
+  for (let index = 0; index < columnCount; index += 1) {
+    if (header[index]) group = header[index];
+    const sub = hasSubHeader ? nextRow[index] ?? "" : "";
+    const label = sub ? `${group} ${sub}` : header[index] ?? "";
+    const field = matchRosterField(label);
+    if (!field) continue;
+    // Address is spread over several SF1 columns; everything else keeps its first column.
+    if (field !== "address" && columns.some((column) => column.field === field)) continue;
+    columns.push({ index, field });
+  }
+
+  const rows: RosterSheetRow[] = [];
+  const dataStart = headerIndex + (hasSubHeader ? 2 : 1);
+  for (let rowIndex = dataStart; rowIndex < grid.length; rowIndex += 1) {
+    const cells = grid[rowIndex] ?? [];
+    const values: Partial<Record<RosterField, string>> = {};
+    for (const { index, field } of columns) {
+      const text = cellText(cells[index]);
+      if (!text) continue;
+      values[field] = field === "address" && values.address ? `${values.address}, ${text}` : text;
+    }
+
+    const nameText = values.name ?? values.lastName ?? "";
+    if (!values.lrn && !nameText) continue;
+    if (!values.lrn && FOOTER_PATTERN.test(nameText)) continue;
+    rows.push({ rowNumber: rowIndex + 1, values });
+  }
+
+  return { headerRow: headerIndex + 1, gradeLevel, section, rows };
+}
+
+/** Reads the first sheet that contains a learner table from an .xlsx/.xls upload. */
+export function readRosterWorkbook(buffer: Buffer): ParsedRosterSheet {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(buffer, { type: "buffer" });
+  } catch {
+    throw new RosterImportError("The file is not a readable Excel workbook.");
+  }
+
+  for (const sheetName of workbook.SheetNames) {
+    const grid = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+      header: 1,
+      defval: "",
+      raw: false,
+      blankrows: true,
+    });
+    if (grid.some((cells) => Array.isArray(cells) && isHeaderRow(cells))) {
+      return parseRosterSheet(grid);
+    }
+  }
+  throw new RosterImportError("Could not find the learner table. The sheet needs LRN and NAME columns.");
+}
+
+type PersonName = {
+  firstName: string | null;
+  middleName: string | null;
+  lastName: string | null;
+  suffix: string | null;
+};
+
+function isSuffix(value: string): boolean {
+  return SUFFIXES.has(value.replace(/\./g, "").toUpperCase());
+}
+
+/**
+ * Splits the SF1 "Last Name, First Name, Name Extension, Middle Name" cell. LIS exports often
+ * drop the extension, so a three-part name only treats the third part as a suffix when it
+ * looks like one.
+ */
+export function splitSf1Name(value: string): PersonName {
+  const parts = value
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const empty: PersonName = { firstName: null, middleName: null, lastName: null, suffix: null };
+  if (parts.length === 0) return empty;
+
+  if (parts.length === 1) {
+    const words = parts[0].split(" ");
+    if (words.length === 1) return { ...empty, lastName: words[0] };
+    return { ...empty, firstName: words.slice(0, -1).join(" "), lastName: words[words.length - 1] };
+  }
+
+  const [lastName, firstName, third, fourth] = parts;
+  if (parts.length === 2) return { ...empty, lastName, firstName };
+  if (parts.length === 3) {
+    return isSuffix(third)
+      ? { ...empty, lastName, firstName, suffix: third }
+      : { ...empty, lastName, firstName, middleName: third };
+  }
+  return { lastName, firstName, suffix: third || null, middleName: fourth || null };
+}
+
+export function normalizeRosterLrn(value: string | undefined): string | null {
+  const digits = (value ?? "").replace(/\D/g, "");
+  return digits.length === 12 ? `${digits.slice(0, 6)}-${digits.slice(6)}` : null;
+}
+
+function parseGrade(value: string | null): string | null {
+  if (!value) return null;
+  const match = value.match(/\d+/);
+  if (!match) return null;
+  const grade = Number.parseInt(match[0], 10);
+  return grade >= GRADE_RANGE.min && grade <= GRADE_RANGE.max ? String(grade) : null;
+}
+
+function matchSection(value: string, configured: string[]): string | null {
+  const wanted = value.replace(/^section\s+/i, "").trim().toLowerCase();
+  return configured.find((section) => section.toLowerCase() === wanted) ?? null;
+}
+
+export function parseRosterSubjects(value: string): { subjects: StudentSubject[]; unknown: string[] } {
+  const subjects: StudentSubject[] = [];
+  const unknown: string[] = [];
+  for (const token of value.split(/[,;/]/).map((part) => part.trim()).filter(Boolean)) {
+    const subject = normalizeMaterialSubject(/^mathematics$/i.test(token) ? "Math" : token);
+    if (!subject) {
+      unknown.push(token);
+    } else if (!subjects.includes(subject)) {
+      subjects.push(subject);
+    }
+  }
+  return { subjects, unknown };
+}
+
+function joinName(name: PersonName): string {
+  return [name.firstName, name.middleName, name.lastName, name.suffix].filter(Boolean).join(" ");
+}
+
+function resolveGuardian(values: Partial<Record<RosterField, string>>): {
+  name: PersonName | null;
+  relationship: string | null;
+} {
+  if (values.guardianName) {
+    return { name: splitSf1Name(values.guardianName), relationship: values.relationship ?? "Guardian" };
+  }
+  if (values.motherName) {
+    return { name: splitSf1Name(values.motherName), relationship: "Mother" };
+  }
+  if (values.fatherName) {
+    return { name: splitSf1Name(values.fatherName), relationship: "Father" };
+  }
+  return { name: null, relationship: null };
+}
+
+function readStudentName(values: Partial<Record<RosterField, string>>): PersonName {
+  if (values.lastName || values.firstName) {
+    return {
+      lastName: values.lastName ?? null,
+      firstName: values.firstName ?? null,
+      middleName: values.middleName ?? null,
+      suffix: values.suffix ?? null,
+    };
+  }
+  return splitSf1Name(values.name ?? "");
+}
+
+/**
+ * Checks every parsed row against the configured grade sections and the student subjects, and
+ * builds the `insertStudents` payload for the rows that pass. Rows repeating an LRN already seen
+ * in the file are rejected; matches against existing students are marked by the caller.
+ */
+export function validateRosterRows(
+  sheet: ParsedRosterSheet,
+  sections: RosterSectionConfig,
+  defaults: RosterImportDefaults,
+): RosterReportRow[] {
+  const seenLrns = new Map<string, number>();
+
+  return sheet.rows.map(({ rowNumber, values }) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const name = readStudentName(values);
+    const fullName = joinName(name);
+
+    const lrn = normalizeRosterLrn(values.lrn);
+    if (!values.lrn) {
+      errors.push("LRN is missing.");
+    } else if (!lrn) {
+      errors.push(`LRN "${values.lrn}" must be 12 digits.`);
+    } else if (seenLrns.has(lrn)) {
+      errors.push(`Duplicate LRN in file; first listed on row ${seenLrns.get(lrn)}.`);
+    } else {
+      seenLrns.set(lrn, rowNumber);
+    }
+
+    if (!name.firstName || !name.lastName) {
+      errors.push("Learner name needs both a last name and a first name.");
+    }
+
+    const rawGrade = values.gradeLevel ?? sheet.gradeLevel ?? defaults.gradeLevel;
+    const gradeLevel = parseGrade(rawGrade);
+    if (!rawGrade) {
+      errors.push("Grade level is missing; choose a default grade for this file.");
+    } else if (!gradeLevel) {
+      errors.push(`Grade level "${rawGrade}" must be between ${GRADE_RANGE.min} and ${GRADE_RANGE.max}.`);
+    }
+
+    const rawSection = values.section ?? sheet.section ?? defaults.section;
+    let section: string | null = null;
+    if (!rawSection) {
+      errors.push("Section is missing; choose a default section for this file.");
+    } else if (gradeLevel) {
+      section = matchSection(rawSection, sections[gradeLevel] ?? []);
+      if (!section) {
+        errors.push(`Section "${rawSection}" is not configured for Grade ${gradeLevel}.`);
+      }
+    }
+
+    let subjects = defaults.subjects;
+    if (values.subjects) {
+      const parsed = parseRosterSubjects(values.subjects);
+      subjects = parsed.subjects;
+      if (parsed.unknown.length > 0) {
+        errors.push(`Unknown subject(s) ${parsed.unknown.join(", ")}; expected ${STUDENT_SUBJECTS.join(", ")}.`);
+      }
+    }
+    if (subjects.length === 0) {
+      errors.push("No subject selected for this learner.");
+    }
+
+    const guardian = resolveGuardian(values);
+    const guardianEmail = values.guardianEmail ?? null;
+    if (guardianEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(guardianEmail)) {
+      errors.push(`Guardian email "${guardianEmail}" is not a valid address.`);
+    }
+    if (!guardian.name) {
+      warnings.push("No parent or guardian name; the learner will not be linked to a parent account.");
+    }
+
+    const valid = errors.length === 0;
+    return {
+      rowNumber,
+      status: valid ? "valid" : "invalid",
+      lrn: lrn ?? values.lrn ?? null,
+      fullName,
+      gradeLevel,
+      section: section ?? rawSection ?? null,
+      subjects,
+      guardianName: guardian.name ? joinName(guardian.name) : null,
+      errors,
+      warnings,
+      existingStudentId: null,
+      record: valid
+        ? {
+            lrn,
+            firstName: name.firstName,
+            middleName: name.middleName,
+            lastName: name.lastName,
+            suffix: name.suffix,
+            fullName,
+            gradeLevel,
+            section,
+            age: values.age ?? null,
+            guardianName: guardian.name ? joinName(guardian.name) : null,
+            guardianFirstName: guardian.name?.firstName ?? null,
+            guardianMiddleName: guardian.name?.middleName ?? null,
+            guardianLastName: guardian.name?.lastName ?? null,
+            guardianSuffix: guardian.name?.suffix ?? null,
+            guardianContact: values.guardianContact ?? null,
+            guardianEmail,
+            relationship: guardian.relationship,
+            address: values.address ?? null,
+          }
+        : null,
+    };
+  });
+}
+
+export function summarizeRosterReport(rows: RosterReportRow[]): RosterReportSummary {
+  return {
+    total: rows.length,
+    valid: rows.filter((row) => row.status === "valid").length,
+    invalid: rows.filter((row) => row.status === "invalid").length,
+    duplicate: rows.filter((row) => row.status === "duplicate").length,
+  };
+}
@@ -9,6 +9,7 @@ import { storeParentPortalEntry } from "@/lib/utils/parent-portal-entry";
 
 const DEFAULT_LOGIN_ERROR_MESSAGE = "Email and password do not match our records. Please try again.";
 const OTP_VERIFICATION_CONTEXT_KEY = "otpVerificationContext";
+const CREDENTIAL_PROBE_DELAY_MS = 800;
 
 const normalizeRole = (role: string | null | undefined): string => {
   if (!role) {
@@ -76,16 +77,17 @@ export default function Login({
     }
   }, []);
   
-  // Live credential check
+  // Live credential check. Each account gets a limited number of failed checks, so it waits for a pause in typing.
   useEffect(() => {
     let active = true;
+    let probeTimer: ReturnType<typeof setTimeout> | null = null;
     const hasValidAdminId = sanitizedItAdminId.length > 0;
     const canVerify = adminIdRequired ? Boolean(password && hasValidAdminId) : Boolean(email && password);
     if (canVerify) {
       setVerifying(true);
       setSuccess(false);
       setError(false);
-      fetch("/api/auth/check-credentials", {
+      probeTimer = setTimeout(() => fetch("/api/auth/check-credentials", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -114,7 +116,7 @@ export default function Login({
         .finally(() => {
           if (!active) return;
           setVerifying(false);
-        });
+        }), CREDENTIAL_PROBE_DELAY_MS);
     } else {
       setSuccess(false);
       setError(false);
@@ -122,6 +124,7 @@ export default function Login({
     }
     return () => {
       active = false;
+      if (probeTimer) clearTimeout(probeTimer);
     };
   }, [adminIdRequired, email, password, sanitizedItAdminId]);
 
@@ -301,6 +304,9 @@ export default function Login({
             role: String(data.role || ""),
             user_id: String(data.user_id || ""),
             redirect_path: String(resolvedRedirectPath || ""),
+            login_challenge: String(data.loginChallenge || ""),
+            totp_enrolled: Boolean(data.totpEnrolled),
+            totp_required: Boolean(data.totpRequired),
           };
           try {
             sessionStorage.setItem(OTP_VERIFICATION_CONTEXT_KEY, JSON.stringify(verificationContext));
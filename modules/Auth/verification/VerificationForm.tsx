@@ -16,10 +16,35 @@ interface VerificationFormProps {
   user_id: string;
   role: string;
   redirectPath?: string;
+  loginChallenge?: string;
+  totpEnrolled?: boolean;
+  totpRequired?: boolean;
   onVerified: (device_token: string, redirectPath?: string | null) => void;
 }
 
-export default function VerificationForm({ email, user_id, role, redirectPath, onVerified }: VerificationFormProps) {
+type VerificationMode = "email" | "totp" | "recovery" | "enroll";
+
+type TotpEnrollment = {
+  secret: string;
+  qrCodeDataUrl: string;
+};
+
+const resolveInitialMode = (loginChallenge?: string, totpEnrolled?: boolean, totpRequired?: boolean): VerificationMode => {
+  if (loginChallenge && totpEnrolled) return "totp";
+  if (loginChallenge && totpRequired) return "enroll";
+  return "email";
+};
+
+export default function VerificationForm({
+  email,
+  user_id,
+  role,
+  redirectPath,
+  loginChallenge,
+  totpEnrolled,
+  totpRequired,
+  onVerified,
+}: VerificationFormProps) {
 
   const [otp, setOtp] = useState("");
   const [loading, setLoading] = useState(false);
@@ -27,6 +52,49 @@ export default function VerificationForm({ email, user_id, role, redirectPath, o
   const [otpSent, setOtpSent] = useState(false);
   const [otpExpiresAt, setOtpExpiresAt] = useState<number | null>(null);
   const [otpTimeLeftMs, setOtpTimeLeftMs] = useState(0);
+  const [mode, setMode] = useState<VerificationMode>(() => resolveInitialMode(loginChallenge, totpEnrolled, totpRequired));
+  const [totpCode, setTotpCode] = useState("");
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingVerification, setPendingVerification] = useState<any>(null);
+
+  // The verification context arrives after the first render, so re-pick the mode once it does.
+  useEffect(() => {
+    setMode(resolveInitialMode(loginChallenge, totpEnrolled, totpRequired));
+  }, [loginChallenge, totpEnrolled, totpRequired]);
+
+  useEffect(() => {
+    if (mode !== "enroll" || !loginChallenge || enrollment) {
+      return;
+    }
+    let cancelled = false;
+    const startEnrollment = async () => {
+      setLoading(true);
+      setError("");
+      try {
+        const res = await fetch("/api/auth/totp/enroll", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ challenge: loginChallenge }),
+        });
+        const data = await res.json();
+        if (cancelled) return;
+        if (data.success) {
+          setEnrollment({ secret: data.secret, qrCodeDataUrl: data.qrCodeDataUrl });
+        } else {
+          setError(data.error || "Unable to start authenticator setup. Please sign in again.");
+        }
+      } catch {
+        if (!cancelled) setError("Unable to start authenticator setup. Please sign in again.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    void startEnrollment();
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, loginChallenge, enrollment]);
 
   useEffect(() => {
     if (!otpExpiresAt) {
@@ -94,76 +162,208 @@ export default function VerificationForm({ email, user_id, role, redirectPath, o
     const data = await res.json();
     setLoading(false);
     if (data.success) {
-      storeUserProfile({
-        userId: data.user_id ?? user_id ?? null,
-        email: data.email ?? email ?? null,
-        firstName: data.first_name ?? null,
-        middleName: data.middle_name ?? null,
-        lastName: data.last_name ?? null,
-        role: data.role ?? role ?? null,
-        profileImageUrl: data.profileImageUrl ?? null,
-      });
-      localStorage.setItem("deviceToken", data.deviceToken);
-      localStorage.setItem("device_token", data.deviceToken);
-      onVerified(data.deviceToken, data.redirectPath ?? redirectPath ?? null);
+      completeSignIn(data);
     } else {
       setError(data.error || "Invalid OTP or expired. Please try again.");
     }
   };
 
+  const completeSignIn = (data: any) => {
+    storeUserProfile({
+      userId: data.user_id ?? user_id ?? null,
+      email: data.email ?? email ?? null,
+      firstName: data.first_name ?? null,
+      middleName: data.middle_name ?? null,
+      lastName: data.last_name ?? null,
+      role: data.role ?? role ?? null,
+      profileImageUrl: data.profileImageUrl ?? null,
+    });
+    localStorage.setItem("deviceToken", data.deviceToken);
+    localStorage.setItem("device_token", data.deviceToken);
+    onVerified(data.deviceToken, data.redirectPath ?? redirectPath ?? null);
+  };
+
+  const verifyTotp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch("/api/auth/totp/verify", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          challenge: loginChallenge,
+          code: mode === "recovery" ? undefined : totpCode,
+          recoveryCode: mode === "recovery" ? totpCode : undefined,
+          deviceName: navigator.userAgent,
+        }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || "Invalid code. Please try again.");
+        return;
+      }
+      if (Array.isArray(data.recoveryCodes) && data.recoveryCodes.length > 0) {
+        // Newly enrolled: the recovery codes are only shown once, so hold the sign-in until they are saved.
+        setRecoveryCodes(data.recoveryCodes);
+        setPendingVerification(data);
+        return;
+      }
+      completeSignIn(data);
+    } catch {
+      setError("Unable to verify the code. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const switchMode = (nextMode: VerificationMode) => {
+    setMode(nextMode);
+    setTotpCode("");
+    setError("");
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-[#f6faf8] relative overflow-hidden md:py-8">
       <div className="flex flex-col justify-center items-center bg-white/90 rounded-3xl shadow-lg p-8 w-full sm:p-8 sm:max-w-md md:w-96 border border-green-50">
         <div className="w-full">
           <h2 className="text-2xl font-bold text-green-900 mb-6 text-center sm:text-3xl sm:mb-6">Device Verification</h2>
-          <p className="mb-2 text-black text-center">An OTP will be sent to your email: <b>{email}</b></p>
-          {!otpSent ? (
-            <button
-              type="button"
-              onClick={sendOtp}
-              disabled={loading}
-              className="w-full bg-linear-to-r from-green-600 to-[#133000] text-white font-bold py-2.5 rounded-lg hover:opacity-90 transition shadow-md disabled:opacity-70 sm:py-2 mb-4"
-            >
-              {loading ? "Sending..." : "Send OTP"}
-            </button>
-          ) : (
-            <form onSubmit={verifyOtp}>
-              <label htmlFor="otp" className="block text-sm font-medium text-[#013300] mb-1 sm:text-base">Enter OTP</label>
+          {recoveryCodes ? (
+            <div>
+              <p className="mb-3 text-sm text-black text-center">
+                Your authenticator app is set up. Save these recovery codes somewhere safe. Each code signs you in once if you lose your phone.
+              </p>
+              <ul className="grid grid-cols-2 gap-2 mb-4 font-mono text-sm text-[#013300] bg-green-50 border border-green-100 rounded-lg p-3">
+                {recoveryCodes.map((code) => (
+                  <li key={code} className="text-center">{code}</li>
+                ))}
+              </ul>
+              <button
+                type="button"
+                onClick={() => completeSignIn(pendingVerification)}
+                className="w-full bg-linear-to-r from-green-600 to-[#133000] text-white font-bold py-2.5 rounded-lg hover:opacity-90 transition shadow-md sm:py-2"
+              >
+                I have saved my recovery codes
+              </button>
+            </div>
+          ) : mode !== "email" ? (
+            <form onSubmit={verifyTotp}>
+              {mode === "enroll" && (
+                <div className="mb-4 text-center">
+                  <p className="mb-3 text-sm text-black">
+                    Your account requires an authenticator app. Scan this QR code with Google Authenticator, Microsoft Authenticator or a similar app, then enter the 6-digit code it shows.
+                  </p>
+                  {enrollment ? (
+                    <>
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img src={enrollment.qrCodeDataUrl} alt="Authenticator QR code" className="mx-auto mb-2 h-44 w-44" />
+                      <p className="text-xs text-gray-700">Can&apos;t scan? Enter this key manually:</p>
+                      <p className="font-mono text-xs break-all text-[#013300]">{enrollment.secret}</p>
+                    </>
+                  ) : (
+                    <p className="text-xs text-gray-700">{loading ? "Preparing your QR code..." : ""}</p>
+                  )}
+                </div>
+              )}
+              <label htmlFor="totp" className="block text-sm font-medium text-[#013300] mb-1 sm:text-base">
+                {mode === "recovery" ? "Enter a recovery code" : "Enter authenticator code"}
+              </label>
               <input
-                id="otp"
+                id="totp"
                 type="text"
-                value={otp}
-                onChange={e => setOtp(e.target.value)}
-                placeholder="Enter 6-digit OTP"
+                inputMode={mode === "recovery" ? "text" : "numeric"}
+                autoComplete="one-time-code"
+                value={totpCode}
+                onChange={e => setTotpCode(e.target.value)}
+                placeholder={mode === "recovery" ? "xxxx-xxxx" : "Enter 6-digit code"}
                 className="w-full px-4 py-2 border-2 border-gray-400 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#013300] focus:border-transparent transition placeholder-gray-400 text-[#013300] sm:py-2 mb-3"
                 required
-                maxLength={6}
+                maxLength={mode === "recovery" ? 9 : 6}
               />
-              {otpTimeLeftMs > 0 ? (
-                <div className="text-xs text-gray-700 mb-2">OTP expires in {formatRemainingTime(otpTimeLeftMs)}.</div>
-              ) : (
-                <div className="text-xs text-red-700 mb-2">OTP has expired. Please resend a new OTP.</div>
-              )}
               {error && <div className="text-xs text-red-700 mb-2">{error}</div>}
-              {otpTimeLeftMs > 0 ? (
-                <button
-                  type="submit"
-                  disabled={loading}
-                  className="mt-3 w-full bg-linear-to-r from-green-600 to-[#133000] text-white font-bold py-2.5 rounded-lg hover:opacity-90 transition shadow-md disabled:opacity-70 sm:py-2"
-                >
-                  {loading ? "Verifying..." : "Verify"}
-                </button>
-              ) : (
+              <button
+                type="submit"
+                disabled={loading || (mode === "enroll" && !enrollment)}
+                className="mt-3 w-full bg-linear-to-r from-green-600 to-[#133000] text-white font-bold py-2.5 rounded-lg hover:opacity-90 transition shadow-md disabled:opacity-70 sm:py-2"
+              >
+                {loading ? "Verifying..." : "Verify"}
+              </button>
+              <div className="mt-4 flex flex-col items-center gap-1 text-xs">
+                {mode === "totp" && (
+                  <button type="button" onClick={() => switchMode("recovery")} className="text-green-800 hover:underline">
+                    Lost your phone? Use a recovery code
+                  </button>
+                )}
+                {mode === "recovery" && (
+                  <button type="button" onClick={() => switchMode("totp")} className="text-green-800 hover:underline">
+                    Use authenticator app instead
+                  </button>
+                )}
+                {!totpRequired && (
+                  <button type="button" onClick={() => switchMode("email")} className="text-green-800 hover:underline">
+                    Email me a code instead
+                  </button>
+                )}
+              </div>
+            </form>
+          ) : (
+            <>
+              <p className="mb-2 text-black text-center">An OTP will be sent to your email: <b>{email}</b></p>
+              {!otpSent ? (
                 <button
                   type="button"
                   onClick={sendOtp}
                   disabled={loading}
-                  className="mt-3 w-full bg-linear-to-r from-green-600 to-[#133000] text-white font-bold py-2.5 rounded-lg hover:opacity-90 transition shadow-md disabled:opacity-70 sm:py-2"
+                  className="w-full bg-linear-to-r from-green-600 to-[#133000] text-white font-bold py-2.5 rounded-lg hover:opacity-90 transition shadow-md disabled:opacity-70 sm:py-2 mb-4"
                 >
-                  {loading ? "Resending..." : "Resend OTP"}
+                  {loading ? "Sending..." : "Send OTP"}
+                </button>
+              ) : (
+                <form onSubmit={verifyOtp}>
+                  <label htmlFor="otp" className="block text-sm font-medium text-[#013300] mb-1 sm:text-base">Enter OTP</label>
+                  <input
+                    id="otp"
+                    type="text"
+                    value={otp}
+                    onChange={e => setOtp(e.target.value)}
+                    placeholder="Enter 6-digit OTP"
+                    className="w-full px-4 py-2 border-2 border-gray-400 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#013300] focus:border-transparent transition placeholder-gray-400 text-[#013300] sm:py-2 mb-3"
+                    required
+                    maxLength={6}
+                  />
+                  {otpTimeLeftMs > 0 ? (
+                    <div className="text-xs text-gray-700 mb-2">OTP expires in {formatRemainingTime(otpTimeLeftMs)}.</div>
+                  ) : (
+                    <div className="text-xs text-red-700 mb-2">OTP has expired. Please resend a new OTP.</div>
+                  )}
+                  {error && <div className="text-xs text-red-700 mb-2">{error}</div>}
+                  {otpTimeLeftMs > 0 ? (
+                    <button
+                      type="submit"
+                      disabled={loading}
+                      className="mt-3 w-full bg-linear-to-r from-green-600 to-[#133000] text-white font-bold py-2.5 rounded-lg hover:opacity-90 transition shadow-md disabled:opacity-70 sm:py-2"
+                    >
+                      {loading ? "Verifying..." : "Verify"}
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={sendOtp}
+                      disabled={loading}
+                      className="mt-3 w-full bg-linear-to-r from-green-600 to-[#133000] text-white font-bold py-2.5 rounded-lg hover:opacity-90 transition shadow-md disabled:opacity-70 sm:py-2"
+                    >
+                      {loading ? "Resending..." : "Resend OTP"}
+                    </button>
+                  )}
+                </form>
+              )}
+              {totpEnrolled && loginChallenge && (
+                <button type="button" onClick={() => switchMode("totp")} className="mt-4 w-full text-xs text-green-800 hover:underline">
+                  Use authenticator app instead
                 </button>
               )}
-            </form>
+            </>
           )}
         </div>
       </div>
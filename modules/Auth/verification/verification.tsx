@@ -31,6 +31,9 @@ function VerificationContent() {
 		user_id: "",
 		role: "",
 		redirectPath: "",
+		loginChallenge: "",
+		totpEnrolled: false,
+		totpRequired: false,
 	});
 
 	useEffect(() => {
@@ -43,6 +46,9 @@ function VerificationContent() {
 		let user_id = userIdFromQuery;
 		let role = roleFromQuery;
 		let redirectPath = redirectPathFromQuery;
+		let loginChallenge = "";
+		let totpEnrolled = false;
+		let totpRequired = false;
 		let consumedSessionContext = false;
 
 		if (!email || !user_id) {
@@ -54,11 +60,17 @@ function VerificationContent() {
 						user_id?: string;
 						role?: string;
 						redirect_path?: string;
+						login_challenge?: string;
+						totp_enrolled?: boolean;
+						totp_required?: boolean;
 					};
 					email = parsed.email || email;
 					user_id = parsed.user_id || user_id;
 					role = parsed.role || role;
 					redirectPath = parsed.redirect_path || redirectPath;
+					loginChallenge = parsed.login_challenge || "";
+					totpEnrolled = Boolean(parsed.totp_enrolled);
+					totpRequired = Boolean(parsed.totp_required);
 					consumedSessionContext = true;
 				}
 			} catch {
@@ -67,7 +79,7 @@ function VerificationContent() {
 		}
 
 		setVerificationData((previous) => {
-			const next = { email, user_id, role, redirectPath };
+			const next = { email, user_id, role, redirectPath, loginChallenge, totpEnrolled, totpRequired };
 			const hasNextCoreData = Boolean(next.email && next.user_id);
 			const hasPreviousData = Boolean(previous.email || previous.user_id || previous.role || previous.redirectPath);
 
@@ -140,6 +152,9 @@ function VerificationContent() {
 			user_id={verificationData.user_id}
 			role={verificationData.role}
 			redirectPath={verificationData.redirectPath}
+			loginChallenge={verificationData.loginChallenge}
+			totpEnrolled={verificationData.totpEnrolled}
+			totpRequired={verificationData.totpRequired}
 			onVerified={handleVerified}
 		/>
 	);
@@ -7,6 +7,7 @@ import ITAdminDetailsModal from "./Modals/ITAdminDetailsModal";
 import UtilityButton from "@/components/Common/Buttons/UtilityButton";
 import AccountActionsMenu, { type AccountActionKey } from "../components/AccountActionsMenu";
 import AddITAdminModal, { type AddITAdminFormValues } from "./Modals/AddITAdminModal";
+import PermissionRolesModal from "./Modals/PermissionRolesModal";
 import ConfirmationModal from "@/components/Common/Modals/ConfirmationModal";
 import SecondaryButton from "@/components/Common/Buttons/SecondaryButton";
 import DangerButton from "@/components/Common/Buttons/DangerButton";
@@ -210,6 +211,7 @@ export default function ITAdminTab({ itAdmins, setITAdmins, searchTerm }: ITAdmi
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [selectedITAdmin, setSelectedITAdmin] = useState<any>(null);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showPermissionRolesModal, setShowPermissionRolesModal] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -348,6 +350,10 @@ export default function ITAdminTab({ itAdmins, setITAdmins, searchTerm }: ITAdmi
       setSelectMode(true);
       return;
     }
+    if (action === "it_admin:permission-roles") {
+      setShowPermissionRolesModal(true);
+      return;
+    }
 
     console.log(`[IT Admin Tab] Action triggered: ${action}`);
   }, [addITAdminForm]);
@@ -932,6 +938,11 @@ export default function ITAdminTab({ itAdmins, setITAdmins, searchTerm }: ITAdmi
         itAdmin={selectedITAdmin}
       />
 
+      <PermissionRolesModal
+        show={showPermissionRolesModal}
+        onClose={() => setShowPermissionRolesModal(false)}
+      />
+
       <ConfirmationModal
         isOpen={showConfirmModal}
         onClose={handleUploadCancel}
@@ -1,4 +1,7 @@
 import BaseModal, { ModalSection, ModalInfoItem } from "@/components/Common/Modals/BaseModal";
+import AuthenticatorSection from "../../components/AuthenticatorSection";
+import DevicesSessionsSection from "../../components/DevicesSessionsSection";
+import PermissionRolesSection from "../../components/PermissionRolesSection";
 
 interface ITAdminDetailsModalProps {
   show: boolean;
@@ -53,6 +56,12 @@ export default function ITAdminDetailsModal({ show, onClose, itAdmin }: ITAdminD
           />
         </div>
       </ModalSection>
+
+      <PermissionRolesSection userId={itAdmin.userId ?? itAdmin.user_id} />
+
+      <AuthenticatorSection userId={itAdmin.userId ?? itAdmin.user_id} />
+
+      <DevicesSessionsSection userId={itAdmin.userId ?? itAdmin.user_id} />
     </BaseModal>
   );
 }
@@ -0,0 +1,241 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import BaseModal, { ModalLabel, ModalSection } from "@/components/Common/Modals/BaseModal";
+import PrimaryButton from "@/components/Common/Buttons/PrimaryButton";
+import SecondaryButton from "@/components/Common/Buttons/SecondaryButton";
+
+type PermissionOption = {
+  permission: string;
+  label: string;
+};
+
+export type PermissionRoleSummary = {
+  roleId: number;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  builtIn: boolean;
+  locked: boolean;
+  assignedCount: number;
+};
+
+type RoleDraft = {
+  roleId: number | null;
+  name: string;
+  description: string;
+  permissions: string[];
+};
+
+interface PermissionRolesModalProps {
+  show: boolean;
+  onClose: () => void;
+}
+
+const EMPTY_DRAFT: RoleDraft = { roleId: null, name: "", description: "", permissions: [] };
+
+export default function PermissionRolesModal({ show, onClose }: PermissionRolesModalProps) {
+  const [roles, setRoles] = useState<PermissionRoleSummary[]>([]);
+  const [catalog, setCatalog] = useState<PermissionOption[]>([]);
+  const [draft, setDraft] = useState<RoleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRoles = useCallback(async () => {
+    try {
+      const response = await fetch("/api/it_admin/accounts/permission-roles", { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to load permission roles.");
+      }
+      setRoles(data.roles);
+      setCatalog(data.permissions);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load permission roles.");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (show) {
+      setDraft(null);
+      void loadRoles();
+    }
+  }, [show, loadRoles]);
+
+  const labelFor = (permission: string) =>
+    catalog.find((option) => option.permission === permission)?.label ?? permission;
+
+  const togglePermission = (permission: string, checked: boolean) => {
+    setDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            permissions: checked
+              ? [...prev.permissions, permission]
+              : prev.permissions.filter((item) => item !== permission),
+          }
+        : prev,
+    );
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const endpoint = draft.roleId
+        ? `/api/it_admin/accounts/permission-roles/${draft.roleId}`
+        : "/api/it_admin/accounts/permission-roles";
+      const response = await fetch(endpoint, {
+        method: draft.roleId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: draft.name, description: draft.description, permissions: draft.permissions }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to save the permission role.");
+      }
+      setDraft(null);
+      await loadRoles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save the permission role.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: PermissionRoleSummary) => {
+    if (saving || !window.confirm(`Delete the "${role.name}" permission role?`)) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/it_admin/accounts/permission-roles/${role.roleId}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to delete the permission role.");
+      }
+      await loadRoles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to delete the permission role.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const footer = draft ? (
+    <>
+      <SecondaryButton type="button" onClick={() => setDraft(null)}>
+        Cancel
+      </SecondaryButton>
+      <PrimaryButton
+        type="button"
+        onClick={handleSave}
+        disabled={saving || !draft.name.trim() || draft.permissions.length === 0}
+      >
+        {saving ? "Saving..." : draft.roleId ? "Save Changes" : "Create Role"}
+      </PrimaryButton>
+    </>
+  ) : (
+    <>
+      <SecondaryButton type="button" onClick={onClose}>
+        Close
+      </SecondaryButton>
+      <PrimaryButton type="button" onClick={() => setDraft(EMPTY_DRAFT)}>
+        New Role
+      </PrimaryButton>
+    </>
+  );
+
+  return (
+    <BaseModal show={show} onClose={onClose} title="IT Admin Permission Roles" maxWidth="3xl" footer={footer}>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {draft ? (
+        <ModalSection title={draft.roleId ? "Edit Role" : "New Role"}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <ModalLabel required>Role Name</ModalLabel>
+              <input
+                type="text"
+                value={draft.name}
+                maxLength={80}
+                onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                className="w-full bg-white border border-gray-300 text-black rounded-md px-3 py-2 text-sm"
+                placeholder="e.g. Accounts Clerk"
+              />
+            </div>
+            <div className="space-y-1">
+              <ModalLabel>Description</ModalLabel>
+              <input
+                type="text"
+                value={draft.description}
+                maxLength={255}
+                onChange={(event) => setDraft({ ...draft, description: event.target.value })}
+                className="w-full bg-white border border-gray-300 text-black rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {catalog.map((option) => (
+              <label key={option.permission} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft.permissions.includes(option.permission)}
+                  onChange={(event) => togglePermission(option.permission, event.target.checked)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </ModalSection>
+      ) : (
+        <ModalSection title="Roles">
+          <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+            {roles.map((role) => (
+              <li key={role.roleId} className="flex flex-wrap items-start justify-between gap-3 px-3 py-3 text-sm">
+                <div className="min-w-0 flex-1">
+                  <p className="font-semibold text-gray-800">
+                    {role.name}
+                    {role.builtIn && <span className="ml-2 text-xs font-medium text-gray-500">Built-in</span>}
+                  </p>
+                  {role.description && <p className="text-xs text-gray-600">{role.description}</p>}
+                  <p className="mt-1 text-xs text-gray-600">
+                    {role.permissions.map(labelFor).join(", ")} · Assigned to {role.assignedCount}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {!role.locked && (
+                    <button
+                      type="button"
+                      disabled={saving}
+                      onClick={() =>
+                        setDraft({
+                          roleId: role.roleId,
+                          name: role.name,
+                          description: role.description ?? "",
+                          permissions: role.permissions,
+                        })
+                      }
+                      className="rounded-md border border-[#013300] px-3 py-1 text-xs font-medium text-[#013300] hover:bg-[#013300]/5 disabled:opacity-60"
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {!role.builtIn && (
+                    <button
+                      type="button"
+                      disabled={saving}
+                      onClick={() => handleDelete(role)}
+                      className="rounded-md border border-red-600 px-3 py-1 text-xs font-medium text-red-600 hover:bg-red-50 disabled:opacity-60"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </ModalSection>
+      )}
+    </BaseModal>
+  );
+}
@@ -1,4 +1,6 @@
 import BaseModal, { ModalSection, ModalInfoItem } from "@/components/Common/Modals/BaseModal";
+import AuthenticatorSection from "../../components/AuthenticatorSection";
+import DevicesSessionsSection from "../../components/DevicesSessionsSection";
 
 interface MasterTeacherDetailsModalProps {
   show: boolean;
@@ -75,6 +77,10 @@ export default function MasterTeacherDetailsModal({ show, onClose, masterTeacher
           />
         </div>
       </ModalSection>
+
+      <AuthenticatorSection userId={masterTeacher.userId ?? masterTeacher.user_id} />
+
+      <DevicesSessionsSection userId={masterTeacher.userId ?? masterTeacher.user_id} />
     </BaseModal>
   );
 }
\ No newline at end of file
@@ -1,4 +1,6 @@
 import BaseModal, { ModalInfoItem, ModalSection } from "@/components/Common/Modals/BaseModal";
+import AuthenticatorSection from "../../components/AuthenticatorSection";
+import DevicesSessionsSection from "../../components/DevicesSessionsSection";
 
 interface ParentDetailsModalProps {
   show: boolean;
@@ -93,6 +95,10 @@ export default function ParentDetailsModal({ show, onClose, parent }: ParentDeta
           )}
         </div>
       </ModalSection>
+
+      <AuthenticatorSection userId={parent.userId ?? parent.user_id} />
+
+      <DevicesSessionsSection userId={parent.userId ?? parent.user_id} />
     </BaseModal>
   );
 }
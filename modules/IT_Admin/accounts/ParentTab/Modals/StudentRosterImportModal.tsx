@@ -0,0 +1,243 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import BaseModal, { ModalLabel, ModalSection } from "@/components/Common/Modals/BaseModal";
+import PrimaryButton from "@/components/Common/Buttons/PrimaryButton";
+import SecondaryButton from "@/components/Common/Buttons/SecondaryButton";
+
+const SUBJECT_OPTIONS = ["English", "Filipino", "Math"] as const;
+const GRADE_OPTIONS = ["1", "2", "3", "4", "5", "6"] as const;
+
+type RosterReportRow = {
+  rowNumber: number;
+  status: "valid" | "invalid" | "duplicate";
+  lrn: string | null;
+  fullName: string;
+  gradeLevel: string | null;
+  section: string | null;
+  subjects: string[];
+  guardianName: string | null;
+  errors: string[];
+  warnings: string[];
+};
+
+type RosterReport = {
+  dryRun: boolean;
+  imported?: number;
+  summary: { total: number; valid: number; invalid: number; duplicate: number };
+  rows: RosterReportRow[];
+};
+
+interface StudentRosterImportModalProps {
+  show: boolean;
+  onClose: () => void;
+  onImported?: () => void;
+}
+
+const STATUS_STYLES: Record<RosterReportRow["status"], string> = {
+  valid: "bg-green-100 text-green-800",
+  invalid: "bg-red-100 text-red-700",
+  duplicate: "bg-amber-100 text-amber-800",
+};
+
+export default function StudentRosterImportModal({ show, onClose, onImported }: StudentRosterImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [gradeLevel, setGradeLevel] = useState("");
+  const [section, setSection] = useState("");
+  const [subjects, setSubjects] = useState<string[]>([...SUBJECT_OPTIONS]);
+  const [sectionConfig, setSectionConfig] = useState<Record<string, string[]>>({});
+  const [report, setReport] = useState<RosterReport | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!show) return;
+    setFile(null);
+    setReport(null);
+    setError(null);
+    fetch("/api/it_admin/section-config", { cache: "no-store" })
+      .then((response) => response.json())
+      .then((data) => {
+        if (data?.success) setSectionConfig(data.data ?? {});
+      })
+      .catch(() => undefined);
+  }, [show]);
+
+  const submit = async (dryRun: boolean) => {
+    if (!file) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("dryRun", String(dryRun));
+      formData.append("gradeLevel", gradeLevel);
+      formData.append("section", section);
+      formData.append("subjects", subjects.join(","));
+      const response = await fetch("/api/it_admin/accounts/students/import", { method: "POST", body: formData });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to import the roster.");
+      }
+      setReport(data);
+      if (!dryRun) {
+        onImported?.();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to import the roster.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleSubject = (subject: string, checked: boolean) => {
+    setReport(null);
+    setSubjects((prev) => (checked ? [...prev, subject] : prev.filter((item) => item !== subject)));
+  };
+
+  const canCommit = report?.dryRun && report.summary.valid > 0;
+  const footer = (
+    <>
+      <SecondaryButton type="button" onClick={onClose}>
+        Close
+      </SecondaryButton>
+      {canCommit ? (
+        <PrimaryButton type="button" onClick={() => submit(false)} disabled={submitting}>
+          {submitting ? "Importing..." : `Import ${report.summary.valid} Learner${report.summary.valid === 1 ? "" : "s"}`}
+        </PrimaryButton>
+      ) : (
+        <PrimaryButton type="button" onClick={() => submit(true)} disabled={submitting || !file || report?.dryRun === false}>
+          {submitting ? "Checking..." : "Check File"}
+        </PrimaryButton>
+      )}
+    </>
+  );
+
+  return (
+    <BaseModal show={show} onClose={onClose} title="Import Student Roster" maxWidth="4xl" footer={footer}>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <ModalSection title="SF1 / LIS File">
+        <input
+          type="file"
+          accept=".xlsx,.xls"
+          onChange={(event) => {
+            setFile(event.target.files?.[0] ?? null);
+            setReport(null);
+          }}
+          className="block w-full text-sm text-gray-700"
+        />
+        <p className="text-xs text-gray-500">
+          Grade and section printed on the SF1 header, or given per row, take precedence over the defaults below.
+          Parent accounts are created or linked from the guardian, mother or father columns.
+        </p>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="space-y-1">
+            <ModalLabel>Default Grade</ModalLabel>
+            <select
+              value={gradeLevel}
+              onChange={(event) => {
+                setGradeLevel(event.target.value);
+                setSection("");
+                setReport(null);
+              }}
+              className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-black"
+            >
+              <option value="">From file</option>
+              {GRADE_OPTIONS.map((grade) => (
+                <option key={grade} value={grade}>
+                  Grade {grade}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <ModalLabel>Default Section</ModalLabel>
+            <select
+              value={section}
+              disabled={!gradeLevel}
+              onChange={(event) => {
+                setSection(event.target.value);
+                setReport(null);
+              }}
+              className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-black disabled:bg-gray-100"
+            >
+              <option value="">From file</option>
+              {(sectionConfig[gradeLevel] ?? []).map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <ModalLabel required>Subjects</ModalLabel>
+            <div className="flex flex-wrap gap-3 pt-2">
+              {SUBJECT_OPTIONS.map((subject) => (
+                <label key={subject} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={subjects.includes(subject)}
+                    onChange={(event) => toggleSubject(subject, event.target.checked)}
+                  />
+                  {subject}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      </ModalSection>
+
+      {report && (
+        <ModalSection title={report.dryRun ? "Validation Report" : "Import Result"}>
+          <p className="text-sm text-gray-700">
+            {report.dryRun
+              ? `${report.summary.total} rows checked: ${report.summary.valid} ready, ${report.summary.invalid} invalid, ${report.summary.duplicate} already enrolled.`
+              : `Imported ${report.imported ?? 0} learners. ${report.summary.invalid + report.summary.duplicate} rows were skipped.`}
+          </p>
+          <div className="max-h-80 overflow-y-auto rounded-md border border-gray-200">
+            <table className="min-w-full text-left text-xs text-gray-700">
+              <thead className="sticky top-0 bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="px-3 py-2">Row</th>
+                  <th className="px-3 py-2">Status</th>
+                  <th className="px-3 py-2">LRN</th>
+                  <th className="px-3 py-2">Learner</th>
+                  <th className="px-3 py-2">Grade / Section</th>
+                  <th className="px-3 py-2">Guardian</th>
+                  <th className="px-3 py-2">Notes</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {report.rows.map((row) => (
+                  <tr key={row.rowNumber}>
+                    <td className="px-3 py-2">{row.rowNumber}</td>
+                    <td className="px-3 py-2">
+                      <span className={`rounded-full px-2 py-0.5 font-medium capitalize ${STATUS_STYLES[row.status]}`}>
+                        {row.status}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">{row.lrn ?? "--"}</td>
+                    <td className="px-3 py-2">{row.fullName || "--"}</td>
+                    <td className="px-3 py-2">
+                      {row.gradeLevel ? `Grade ${row.gradeLevel}` : "--"} / {row.section ?? "--"}
+                    </td>
+                    <td className="px-3 py-2">{row.guardianName ?? "--"}</td>
+                    <td className="px-3 py-2">
+                      {row.errors.map((message) => (
+                        <p key={message} className="text-red-600">{message}</p>
+                      ))}
+                      {row.warnings.map((message) => (
+                        <p key={message} className="text-amber-700">{message}</p>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </ModalSection>
+      )}
+    </BaseModal>
+  );
+}
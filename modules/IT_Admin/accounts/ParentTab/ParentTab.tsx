@@ -2,10 +2,12 @@ import { useMemo, useState } from "react";
 import TableList from "@/components/Common/Tables/TableList";
 import UtilityButton from "@/components/Common/Buttons/UtilityButton";
 import ParentDetailsModal from "./Modals/ParentDetailsModal";
+import StudentRosterImportModal from "./Modals/StudentRosterImportModal";
 
 interface ParentTabProps {
   parents: any[];
   searchTerm: string;
+  onRosterImported?: () => void;
 }
 
 function toSearchableString(value: unknown): string {
@@ -20,9 +22,10 @@ function formatContactNumber(parent: any): string {
   return parent.contactNumberLocal ?? parent.contactNumber ?? "--";
 }
 
-export default function ParentTab({ parents, searchTerm }: ParentTabProps) {
+export default function ParentTab({ parents, searchTerm, onRosterImported }: ParentTabProps) {
   const [selectedParent, setSelectedParent] = useState<any>(null);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
+  const [showRosterImportModal, setShowRosterImportModal] = useState(false);
 
   const filteredParents = useMemo(() => {
     const query = searchTerm.trim().toLowerCase();
@@ -71,8 +74,17 @@ export default function ParentTab({ parents, searchTerm }: ParentTabProps) {
         <p className="text-md font-medium text-gray-600">
           Total: {filteredParents.length}
         </p>
+        <UtilityButton small onClick={() => setShowRosterImportModal(true)} title="Import learners from an SF1 or LIS export">
+          Import Student Roster
+        </UtilityButton>
       </div>
 
+      <StudentRosterImportModal
+        show={showRosterImportModal}
+        onClose={() => setShowRosterImportModal(false)}
+        onImported={onRosterImported}
+      />
+
       <ParentDetailsModal
         show={showDetailsModal}
         onClose={() => setShowDetailsModal(false)}
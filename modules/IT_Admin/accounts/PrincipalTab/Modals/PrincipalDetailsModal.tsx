@@ -1,4 +1,6 @@
 import BaseModal, { ModalSection, ModalInfoItem } from "@/components/Common/Modals/BaseModal";
+import AuthenticatorSection from "../../components/AuthenticatorSection";
+import DevicesSessionsSection from "../../components/DevicesSessionsSection";
 
 interface PrincipalDetailsModalProps {
   show: boolean;
@@ -50,6 +52,10 @@ export default function PrincipalDetailsModal({ show, onClose, principal }: Prin
           <ModalInfoItem label="Phone Number" value={principal.phoneNumber || principal.contactNumber} />
         </div>
       </ModalSection>
+
+      <AuthenticatorSection userId={principal.userId ?? principal.user_id} />
+
+      <DevicesSessionsSection userId={principal.userId ?? principal.user_id} />
     </BaseModal>
   );
 }
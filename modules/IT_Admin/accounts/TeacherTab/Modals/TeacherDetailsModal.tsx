@@ -1,4 +1,6 @@
 import BaseModal, { ModalSection, ModalInfoItem } from "@/components/Common/Modals/BaseModal";
+import AuthenticatorSection from "../../components/AuthenticatorSection";
+import DevicesSessionsSection from "../../components/DevicesSessionsSection";
 
 interface TeacherDetailsModalProps {
   show: boolean;
@@ -60,6 +62,10 @@ export default function TeacherDetailsModal({ show, onClose, teacher }: TeacherD
           />
         </div>
       </ModalSection>
+
+      <AuthenticatorSection userId={teacher.userId ?? teacher.user_id} />
+
+      <DevicesSessionsSection userId={teacher.userId ?? teacher.user_id} />
     </BaseModal>
   );
 }
\ No newline at end of file
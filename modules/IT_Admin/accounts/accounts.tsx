@@ -249,6 +249,7 @@ function sortAccounts(records: any[]) {
 export default function ITAdminAccounts() {
   const [activeTab, setActiveTab] = useState("All Grades");
   const [accountType, setAccountType] = useState<AccountsView>("All Users");
+  const [reloadKey, setReloadKey] = useState(0);
   const [accounts, setAccounts] = useState<any[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -372,7 +373,7 @@ export default function ITAdminAccounts() {
       isActive = false;
       controller.abort();
     };
-  }, [accountType]);
+  }, [accountType, reloadKey]);
 
   return (
     <div className="relative flex h-screen overflow-hidden bg-linear-to-br from-[#edf9f1] via-[#f5fbf7] to-[#e7f4ec]">
@@ -467,7 +468,11 @@ export default function ITAdminAccounts() {
                   />
                 )}
                 {accountType === "Parents" && (
-                  <ParentTab parents={accounts} searchTerm={searchTerm} />
+                  <ParentTab
+                    parents={accounts}
+                    searchTerm={searchTerm}
+                    onRosterImported={() => setReloadKey((key) => key + 1)}
+                  />
                 )}
               </div>
             </div>
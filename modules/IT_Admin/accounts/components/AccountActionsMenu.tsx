@@ -11,6 +11,7 @@ export type AccountActionKey =
   | "it_admin:add"
   | "it_admin:upload"
   | "it_admin:select"
+  | "it_admin:permission-roles"
   | "master-teacher:add"
   | "master-teacher:upload"
   | "master-teacher:select"
@@ -54,6 +55,7 @@ const ACCOUNT_ACTIONS: Record<AccountType, ActionConfig[]> = {
     { label: "Add IT Admin", action: "it_admin:add" },
     { label: "Upload file", action: "it_admin:upload" },
     { label: "Select", action: "it_admin:select" },
+    { label: "Permission Roles", action: "it_admin:permission-roles" },
   ],
   "Master Teachers": [
     { label: "Add MasterTeacher", action: "master-teacher:add" },
@@ -0,0 +1,124 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ModalSection, ModalInfoItem } from "@/components/Common/Modals/BaseModal";
+
+type AuthenticatorStatus = {
+  enrolled: boolean;
+  required: boolean;
+  source: "role" | "user" | null;
+  enabledAt: string | null;
+  roleRequired: boolean;
+  userRequired: boolean;
+  recoveryCodesRemaining: number;
+  resetAt: string | null;
+};
+
+interface AuthenticatorSectionProps {
+  userId: number | string | null | undefined;
+}
+
+const formatDate = (value: string | null): string => {
+  if (!value) return "--";
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? "--" : parsed.toLocaleString();
+};
+
+export default function AuthenticatorSection({ userId }: AuthenticatorSectionProps) {
+  const [status, setStatus] = useState<AuthenticatorStatus | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endpoint = userId != null && String(userId).trim() ? `/api/it_admin/accounts/mfa/${encodeURIComponent(String(userId))}` : null;
+
+  const loadStatus = useCallback(async () => {
+    if (!endpoint) return;
+    try {
+      const response = await fetch(endpoint, { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to load authenticator status.");
+      }
+      setStatus(data.status);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load authenticator status.");
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    void loadStatus();
+  }, [loadStatus]);
+
+  const runAction = async (init: RequestInit, confirmMessage?: string) => {
+    if (!endpoint || busy) return;
+    if (confirmMessage && !window.confirm(confirmMessage)) return;
+    setBusy(true);
+    try {
+      const response = await fetch(endpoint, { ...init, headers: { "Content-Type": "application/json" } });
+      const data = await response.json();
+      if (data.status) {
+        setStatus(data.status);
+      }
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to update the authenticator.");
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update the authenticator.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!endpoint) return null;
+
+  const requirementLabel = status
+    ? status.roleRequired
+      ? "Required for this role"
+      : status.userRequired
+        ? "Required for this account"
+        : "Optional"
+    : "--";
+
+  return (
+    <ModalSection title="Authenticator App">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <ModalInfoItem label="Status" value={status ? (status.enrolled ? "Enrolled" : "Not set up") : "--"} />
+        <ModalInfoItem label="Requirement" value={requirementLabel} />
+        <ModalInfoItem
+          label="Recovery Codes Left"
+          value={status?.enrolled ? String(status.recoveryCodesRemaining) : "--"}
+        />
+      </div>
+      {status?.enrolled && <p className="text-xs text-gray-600">Enrolled on {formatDate(status.enabledAt)}</p>}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex flex-wrap gap-2">
+        {status && !status.roleRequired && (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => runAction({ method: "PUT", body: JSON.stringify({ required: !status.userRequired }) })}
+            className="rounded-lg border border-[#013300] px-4 py-2 text-sm font-medium text-[#013300] hover:bg-[#013300]/5 disabled:opacity-60"
+          >
+            {status.userRequired ? "Make Optional" : "Require Authenticator"}
+          </button>
+        )}
+        {status?.enrolled && (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() =>
+              runAction(
+                { method: "DELETE" },
+                "Reset this user's authenticator? Their recovery codes stop working and they must set up the app again at their next sign-in.",
+              )
+            }
+            className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-60"
+          >
+            Reset Authenticator
+          </button>
+        )}
+      </div>
+    </ModalSection>
+  );
+}
@@ -0,0 +1,18 @@
+"use client";
+
+import { ModalSection } from "@/components/Common/Modals/BaseModal";
+import DevicesSessionsPanel from "@/components/Common/DevicesSessionsPanel";
+
+interface DevicesSessionsSectionProps {
+  userId: number | string | null | undefined;
+}
+
+export default function DevicesSessionsSection({ userId }: DevicesSessionsSectionProps) {
+  if (userId == null || !String(userId).trim()) return null;
+
+  return (
+    <ModalSection title="Devices & Sessions">
+      <DevicesSessionsPanel endpoint={`/api/it_admin/accounts/sessions/${encodeURIComponent(String(userId))}`} />
+    </ModalSection>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ModalSection } from "@/components/Common/Modals/BaseModal";
+import type { PermissionRoleSummary } from "../ITAdminTab/Modals/PermissionRolesModal";
+
+type PermissionAssignment = {
+  roleIds: number[];
+  permissions: string[];
+  unrestricted: boolean;
+};
+
+interface PermissionRolesSectionProps {
+  userId: number | string | null | undefined;
+}
+
+export default function PermissionRolesSection({ userId }: PermissionRolesSectionProps) {
+  const [roles, setRoles] = useState<PermissionRoleSummary[]>([]);
+  const [assignment, setAssignment] = useState<PermissionAssignment | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endpoint =
+    userId != null && String(userId).trim()
+      ? `/api/it_admin/accounts/permissions/${encodeURIComponent(String(userId))}`
+      : null;
+
+  const loadAssignment = useCallback(async () => {
+    if (!endpoint) return;
+    try {
+      const [rolesResponse, assignmentResponse] = await Promise.all([
+        fetch("/api/it_admin/accounts/permission-roles", { cache: "no-store" }),
+        fetch(endpoint, { cache: "no-store" }),
+      ]);
+      const rolesData = await rolesResponse.json();
+      const assignmentData = await assignmentResponse.json();
+      if (!rolesResponse.ok || !rolesData.success) {
+        throw new Error(rolesData.error || "Unable to load permission roles.");
+      }
+      if (!assignmentResponse.ok || !assignmentData.success) {
+        throw new Error(assignmentData.error || "Unable to load permission roles.");
+      }
+      setRoles(rolesData.roles);
+      setAssignment(assignmentData.assignment);
+      setSelected(assignmentData.assignment.roleIds);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load permission roles.");
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    void loadAssignment();
+  }, [loadAssignment]);
+
+  const handleSave = async () => {
+    if (!endpoint || busy) return;
+    setBusy(true);
+    try {
+      const response = await fetch(endpoint, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ roleIds: selected }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to assign permission roles.");
+      }
+      setAssignment(data.assignment);
+      setSelected(data.assignment.roleIds);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to assign permission roles.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!endpoint) return null;
+
+  const unchanged =
+    assignment !== null &&
+    selected.length === assignment.roleIds.length &&
+    selected.every((roleId) => assignment.roleIds.includes(roleId));
+
+  return (
+    <ModalSection title="Permission Roles">
+      {assignment?.unrestricted && (
+        <p className="text-xs text-gray-600">No role assigned yet; this account currently has every permission.</p>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {roles.map((role) => (
+          <label key={role.roleId} className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={selected.includes(role.roleId)}
+              onChange={(event) =>
+                setSelected((prev) =>
+                  event.target.checked ? [...prev, role.roleId] : prev.filter((roleId) => roleId !== role.roleId),
+                )
+              }
+            />
+            <span>
+              <span className="block font-medium text-gray-800">{role.name}</span>
+              {role.description && <span className="block text-xs text-gray-600">{role.description}</span>}
+            </span>
+          </label>
+        ))}
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex justify-end">
+        <button
+          type="button"
+          disabled={busy || unchanged || selected.length === 0}
+          onClick={handleSave}
+          className="rounded-lg border border-[#013300] px-4 py-2 text-sm font-medium text-[#013300] hover:bg-[#013300]/5 disabled:opacity-60"
+        >
+          {busy ? "Saving..." : "Save Roles"}
+        </button>
+      </div>
+    </ModalSection>
+  );
+}
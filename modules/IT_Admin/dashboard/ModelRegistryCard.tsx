@@ -0,0 +1,341 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type ModelVersion = {
+  versionId: number;
+  modelName: string;
+  subject: string | null;
+  status: "training" | "ready" | "failed";
+  isActive: boolean;
+  hyperparameters: Record<string, number> | null;
+  datasetHash: string | null;
+  datasetSize: number;
+  trainingSize: number;
+  validationSize: number;
+  synthetic: boolean;
+  validationMae: number | null;
+  validationRmse: number | null;
+  errorMessage: string | null;
+  startedAt: string | null;
+  activatedAt: string | null;
+};
+
+type HyperparameterDraft = {
+  epochs: string;
+  learningRate: string;
+  hiddenUnits: string;
+};
+
+type BoostingDraft = {
+  rounds: string;
+  learningRate: string;
+  earlyStoppingRounds: string;
+};
+
+/** Selector entry for the slide-level boosted ensemble, which is not tied to one subject. */
+const SEQUENCE_OPTION = "Slide ensemble";
+
+const STATUS_STYLES: Record<ModelVersion["status"], string> = {
+  training: "bg-amber-100 text-amber-800",
+  ready: "bg-slate-100 text-slate-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "--";
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? value : parsed.toLocaleString();
+}
+
+function formatMetric(value: number | null): string {
+  return value === null ? "--" : value.toFixed(2);
+}
+
+function formatSettings(settings: Record<string, number> | null): string {
+  if (!settings) return "--";
+  if (settings.rounds !== undefined) {
+    return `≤${settings.rounds} rounds · lr ${settings.learningRate} · ${settings.folds}-fold CV`;
+  }
+  return `${settings.epochs} ep · lr ${settings.learningRate} · ${settings.hiddenUnits} units`;
+}
+
+export default function ModelRegistryCard() {
+  const [subjects, setSubjects] = useState<string[]>(["English", "Filipino", "Math"]);
+  const [subject, setSubject] = useState("English");
+  const [versions, setVersions] = useState<ModelVersion[]>([]);
+  const [sequenceModelName, setSequenceModelName] = useState("performance-xgb");
+  const [draft, setDraft] = useState<HyperparameterDraft>({ epochs: "50", learningRate: "0.01", hiddenUnits: "10" });
+  const [boostingDraft, setBoostingDraft] = useState<BoostingDraft>({
+    rounds: "200",
+    learningRate: "0.1",
+    earlyStoppingRounds: "20",
+  });
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/it_admin/maintenance/models", { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? `Request failed with status ${response.status}`);
+      }
+      setVersions(payload.versions ?? []);
+      if (Array.isArray(payload.subjects) && payload.subjects.length > 0) {
+        setSubjects(payload.subjects);
+      }
+      if (payload.sequenceModelName) {
+        setSequenceModelName(payload.sequenceModelName);
+      }
+      const defaults = payload.defaultHyperparameters;
+      if (defaults) {
+        setDraft({
+          epochs: String(defaults.epochs),
+          learningRate: String(defaults.learningRate),
+          hiddenUnits: String(defaults.hiddenUnits),
+        });
+      }
+      const boostingDefaults = payload.defaultBoostingHyperparameters;
+      if (boostingDefaults) {
+        setBoostingDraft({
+          rounds: String(boostingDefaults.rounds),
+          learningRate: String(boostingDefaults.learningRate),
+          earlyStoppingRounds: String(boostingDefaults.earlyStoppingRounds),
+        });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load model versions.");
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadVersions();
+  }, [loadVersions]);
+
+  const runAction = async (key: string, url: string, body: Record<string, unknown>, success: string) => {
+    setBusy(key);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? `Request failed with status ${response.status}`);
+      }
+      setNotice(success);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Model registry request failed.");
+    } finally {
+      setBusy(null);
+      void loadVersions();
+    }
+  };
+
+  const isSequence = subject === SEQUENCE_OPTION;
+
+  const handleTrain = () =>
+    isSequence
+      ? runAction(
+          "train",
+          "/api/analytics/train/sequence",
+          {
+            hyperparameters: {
+              rounds: Number(boostingDraft.rounds),
+              learningRate: Number(boostingDraft.learningRate),
+              earlyStoppingRounds: Number(boostingDraft.earlyStoppingRounds),
+            },
+          },
+          "Training finished and the new slide ensemble is active.",
+        )
+      : runAction(
+      "train",
+      "/api/analytics/train",
+      {
+        subject,
+        hyperparameters: {
+          epochs: Number(draft.epochs),
+          learningRate: Number(draft.learningRate),
+          hiddenUnits: Number(draft.hiddenUnits),
+        },
+      },
+      `Training finished and the new ${subject} version is active.`,
+    );
+
+  const subjectVersions = versions.filter((version) =>
+    isSequence ? version.modelName === sequenceModelName : version.subject === subject,
+  );
+  const canRollBack = subjectVersions.some((version) => !version.isActive && version.status === "ready" && version.activatedAt);
+
+  return (
+    <section className="mb-8 rounded-2xl border border-white/70 bg-white/55 p-4 shadow-[0_10px_28px_rgba(15,23,42,0.10)] backdrop-blur-xl sm:p-5">
+      <div className="mb-3 flex flex-col gap-3 lg:flex-row lg:items-end lg:justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-900 sm:text-base">Performance Model Versions</h3>
+          <p className="mt-1 text-xs text-slate-500">
+            Each subject has its own model, and slide feedback uses a boosted ensemble chosen by cross-validation.
+            Every training run is kept with its settings and held-out validation error, and predictions use the
+            active version.
+          </p>
+        </div>
+        <div className="no-print flex flex-wrap items-end gap-2">
+          <label className="flex flex-col text-[11px] font-medium text-slate-600">
+            Subject
+            <select
+              value={subject}
+              onChange={(event) => setSubject(event.target.value)}
+              className="mt-0.5 rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900"
+            >
+              {[...subjects, SEQUENCE_OPTION].map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          {isSequence && (
+            [
+              ["rounds", "Max rounds"],
+              ["learningRate", "Learning rate"],
+              ["earlyStoppingRounds", "Early stop"],
+            ] as Array<[keyof BoostingDraft, string]>
+          ).map(([key, label]) => (
+            <label key={key} className="flex flex-col text-[11px] font-medium text-slate-600">
+              {label}
+              <input
+                type="number"
+                value={boostingDraft[key]}
+                onChange={(event) => setBoostingDraft((prev) => ({ ...prev, [key]: event.target.value }))}
+                className="mt-0.5 w-24 rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900"
+              />
+            </label>
+          ))}
+          {!isSequence && (
+            [
+              ["epochs", "Epochs"],
+              ["learningRate", "Learning rate"],
+              ["hiddenUnits", "Hidden units"],
+            ] as Array<[keyof HyperparameterDraft, string]>
+          ).map(([key, label]) => (
+            <label key={key} className="flex flex-col text-[11px] font-medium text-slate-600">
+              {label}
+              <input
+                type="number"
+                value={draft[key]}
+                onChange={(event) => setDraft((prev) => ({ ...prev, [key]: event.target.value }))}
+                className="mt-0.5 w-24 rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900"
+              />
+            </label>
+          ))}
+          <button
+            type="button"
+            onClick={() => void handleTrain()}
+            disabled={busy !== null}
+            className="rounded-md bg-emerald-700 px-3 py-1.5 text-xs font-semibold text-white hover:bg-emerald-800 disabled:opacity-60"
+          >
+            {busy === "train" ? "Training..." : "Train New Version"}
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              void runAction(
+                "rollback",
+                "/api/it_admin/maintenance/models/rollback",
+                isSequence ? { model: sequenceModelName } : { subject },
+                `Rolled the ${subject} model back to its previous version.`,
+              )
+            }
+            disabled={busy !== null || !canRollBack}
+            className="rounded-md border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+          >
+            {busy === "rollback" ? "Rolling back..." : "Roll Back"}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="mb-2 text-xs font-medium text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+      {notice && <p className="mb-2 text-xs font-medium text-emerald-700">{notice}</p>}
+
+      <div className="max-h-72 overflow-auto rounded-xl border border-slate-200 bg-white/70">
+        <table className="min-w-full text-left text-xs text-slate-700">
+          <thead className="sticky top-0 bg-slate-50 text-slate-500">
+            <tr>
+              <th className="px-3 py-2">Version</th>
+              <th className="px-3 py-2">Trained</th>
+              <th className="px-3 py-2">Settings</th>
+              <th className="px-3 py-2">Dataset</th>
+              <th className="px-3 py-2">Val. MAE</th>
+              <th className="px-3 py-2">Val. RMSE</th>
+              <th className="px-3 py-2 no-print" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {subjectVersions.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-3 py-6 text-center text-sm font-medium text-slate-500">
+                  No {subject} training runs yet.
+                </td>
+              </tr>
+            )}
+            {subjectVersions.map((version) => (
+              <tr key={version.versionId}>
+                <td className="px-3 py-2">
+                  <span className="font-semibold text-slate-900">v{version.versionId}</span>{" "}
+                  {version.isActive ? (
+                    <span className="rounded-full bg-emerald-100 px-2 py-0.5 font-medium text-emerald-800">active</span>
+                  ) : (
+                    <span className={`rounded-full px-2 py-0.5 font-medium ${STATUS_STYLES[version.status]}`}>
+                      {version.status}
+                    </span>
+                  )}
+                  {version.errorMessage && <p className="mt-1 text-red-600">{version.errorMessage}</p>}
+                </td>
+                <td className="px-3 py-2">{formatDateTime(version.startedAt)}</td>
+                <td className="px-3 py-2">
+                  {formatSettings(version.hyperparameters)}
+                </td>
+                <td className="px-3 py-2">
+                  {version.datasetSize} rows ({version.validationSize} held out)
+                  {version.synthetic ? " · synthetic" : ""}
+                  {version.datasetHash && (
+                    <span className="block font-mono text-[10px] text-slate-400">{version.datasetHash.slice(0, 12)}</span>
+                  )}
+                </td>
+                <td className="px-3 py-2">{formatMetric(version.validationMae)}</td>
+                <td className="px-3 py-2">{formatMetric(version.validationRmse)}</td>
+                <td className="px-3 py-2 no-print">
+                  {!version.isActive && version.status === "ready" && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        void runAction(
+                          `activate-${version.versionId}`,
+                          `/api/it_admin/maintenance/models/${version.versionId}/activate`,
+                          {},
+                          `Version ${version.versionId} is now active.`,
+                        )
+                      }
+                      disabled={busy !== null}
+                      className="rounded-md border border-slate-300 bg-white px-2 py-1 font-semibold text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+                    >
+                      {busy === `activate-${version.versionId}` ? "Activating..." : "Activate"}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
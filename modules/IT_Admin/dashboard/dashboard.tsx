@@ -7,6 +7,7 @@ import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, Line, LineChart, R
 import Sidebar from "@/components/IT_Admin/Sidebar";
 import Header from "@/components/IT_Admin/Header";
 import SecondaryHeader from "@/components/Common/Texts/SecondaryHeader";
+import ModelRegistryCard from "./ModelRegistryCard";
 
 type RoleLoginData = {
   role: string;
@@ -32,6 +33,20 @@ type AnomalyPoint = {
   severity?: "low" | "medium" | "high";
 };
 
+type LockoutEvent = {
+  lockoutId: number;
+  scope: "account" | "ip";
+  scopeKey: string;
+  email: string | null;
+  displayName: string | null;
+  ipAddress: string | null;
+  failureCount: number;
+  lockedAt: string | null;
+  lockedUntil: string | null;
+  unlockedAt: string | null;
+  active: boolean;
+};
+
 type ChartState<T> = {
   data: T[];
   loading: boolean;
@@ -126,6 +141,17 @@ function renderAnomalyDot(props: AnomalyDotProps) {
   return <circle key={dotKey} cx={props.cx} cy={props.cy} r={4} fill="#dc2626" stroke="#991b1b" strokeWidth={1} />;
 }
 
+function formatDateTime(value: string | null): string {
+  if (!value) return "--";
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? "--" : parsed.toLocaleString();
+}
+
+function describeLockoutTarget(event: LockoutEvent): string {
+  if (event.scope === "ip") return `IP ${event.ipAddress ?? event.scopeKey}`;
+  return event.displayName ?? event.email ?? event.scopeKey.replace(/^identifier:/, "");
+}
+
 function GlassChartCard({ title, subtitle, children }: { title: string; subtitle?: string; children: React.ReactNode }) {
   return (
     <section className="rounded-2xl border border-white/70 bg-white/55 p-4 shadow-[0_10px_28px_rgba(15,23,42,0.10)] backdrop-blur-xl sm:p-5">
@@ -252,6 +278,11 @@ export default function ITAdminDashboard() {
     empty: false,
   });
 
+  const [lockouts, setLockouts] = useState<LockoutEvent[]>([]);
+  const [lockoutReloadKey, setLockoutReloadKey] = useState(0);
+  const [unlockingId, setUnlockingId] = useState<number | null>(null);
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+
   const [dateRange, setDateRange] = useState<DateRangeValue>("30d");
   const [isFilterModalOpen, setIsFilterModalOpen] = useState(false);
   const [monthRangeFrom, setMonthRangeFrom] = useState<number | null>(null);
@@ -425,6 +456,69 @@ export default function ITAdminDashboard() {
     };
   }, [buildCommonQuery, monthRangeFrom, monthRangeTo, selectedRoleQuery]);
 
+  useEffect(() => {
+    let isActive = true;
+
+    const fetchLockouts = async () => {
+      setAnomalyState((prev) => ({ ...prev, loading: true, error: null }));
+      try {
+        const params = buildCommonQuery();
+        params.set("anomalyType", "lockouts");
+
+        const response = await fetch(`/api/it_admin/dashboard/anomaly-detection?${params.toString()}`, { cache: "no-store" });
+        const payload = await response.json();
+        if (!response.ok) {
+          throw new Error(payload?.error ?? `Request failed with status ${response.status}`);
+        }
+
+        if (!isActive) return;
+
+        const nextData = Array.isArray(payload.data) ? (payload.data as AnomalyPoint[]) : [];
+        setAnomalyState({
+          data: nextData,
+          loading: false,
+          error: null,
+          empty: Boolean(payload.empty) || nextData.length === 0,
+        });
+        setLockouts(Array.isArray(payload.lockouts) ? (payload.lockouts as LockoutEvent[]) : []);
+      } catch (error) {
+        if (!isActive) return;
+        setAnomalyState((prev) => ({
+          ...prev,
+          loading: false,
+          error: error instanceof Error ? error.message : "Unable to load lockout activity.",
+        }));
+      }
+    };
+
+    void fetchLockouts();
+
+    return () => {
+      isActive = false;
+    };
+  }, [buildCommonQuery, lockoutReloadKey]);
+
+  const handleUnlock = useCallback(async (lockoutId: number) => {
+    setUnlockingId(lockoutId);
+    setUnlockError(null);
+    try {
+      const response = await fetch("/api/it_admin/accounts/lockouts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ lockoutId }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? `Request failed with status ${response.status}`);
+      }
+      setLockoutReloadKey((prev) => prev + 1);
+    } catch (error) {
+      setUnlockError(error instanceof Error ? error.message : "Unable to unlock the account.");
+    } finally {
+      setUnlockingId(null);
+    }
+  }, []);
+
   const chartLoginsByRole = useMemo(() => {
     const roleMap = new Map<string, number>();
     for (const item of loginsState.data) {
@@ -931,8 +1025,82 @@ export default function ITAdminDashboard() {
                       </ResponsiveContainer>
                     )}
                   </GlassChartCard>
+
+                  <GlassChartCard
+                    title="Login Lockouts"
+                    subtitle="Lockouts per day after repeated failed sign-ins. Red points are unusual spikes."
+                  >
+                    <ChartStateFallback state={anomalyState} emptyMessage="No lockouts in the selected range." />
+                    {!anomalyState.error && !(anomalyState.empty || anomalyState.data.length === 0) && (
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={anomalyState.data}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                          <XAxis dataKey="time" tick={{ fill: palette.text, fontSize: 11 }} />
+                          <YAxis allowDecimals={false} tick={{ fill: palette.text, fontSize: 11 }} />
+                          <Tooltip />
+                          <Line
+                            type="monotone"
+                            dataKey="value"
+                            name="Lockouts"
+                            stroke={palette.primary}
+                            strokeWidth={2.5}
+                            dot={renderAnomalyDot}
+                          />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    )}
+                  </GlassChartCard>
+
+                  <section className="rounded-2xl border border-white/70 bg-white/55 p-4 shadow-[0_10px_28px_rgba(15,23,42,0.10)] backdrop-blur-xl sm:p-5">
+                    <div className="mb-3">
+                      <h3 className="text-sm font-semibold text-slate-900 sm:text-base">Recent Lockout Events</h3>
+                      <p className="mt-1 text-xs text-slate-500">Active lockouts can be lifted before they expire.</p>
+                    </div>
+                    {unlockError && (
+                      <p className="mb-2 text-xs font-medium text-red-600" role="alert">
+                        {unlockError}
+                      </p>
+                    )}
+                    <div className="max-h-64 space-y-2 overflow-y-auto sm:max-h-72">
+                      {lockouts.length === 0 && (
+                        <p className="rounded-xl border border-dashed border-slate-200 bg-white/40 px-3 py-6 text-center text-sm font-medium text-slate-500">
+                          No lockout events in the selected range.
+                        </p>
+                      )}
+                      {lockouts.map((event) => (
+                        <div
+                          key={event.lockoutId}
+                          className="flex items-center justify-between gap-3 rounded-xl border border-slate-200 bg-white/70 px-3 py-2"
+                        >
+                          <div className="min-w-0">
+                            <p className="truncate text-sm font-semibold text-slate-900">{describeLockoutTarget(event)}</p>
+                            <p className="text-xs text-slate-500">
+                              {event.failureCount} failures · locked {formatDateTime(event.lockedAt)}
+                              {event.ipAddress && event.scope === "account" ? ` · from ${event.ipAddress}` : ""}
+                            </p>
+                          </div>
+                          {event.active ? (
+                            <button
+                              type="button"
+                              onClick={() => void handleUnlock(event.lockoutId)}
+                              disabled={unlockingId === event.lockoutId}
+                              className="no-print shrink-0 rounded-md bg-emerald-700 px-3 py-1.5 text-xs font-semibold text-white hover:bg-emerald-800 disabled:opacity-60"
+                            >
+                              {unlockingId === event.lockoutId ? "Unlocking..." : "Unlock"}
+                            </button>
+                          ) : (
+                            <span className="shrink-0 text-xs font-medium text-slate-500">
+                              {event.unlockedAt ? "Unlocked" : "Expired"}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </section>
                 </div>
               </section>
+
+              <ModelRegistryCard />
             </div>
           </div>
         </main>
@@ -0,0 +1,159 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type EmergencySessionSummary = {
+  emergency_access_id: number | null;
+  activated_for_role: string | null;
+  reason: string | null;
+  activated_at: string | null;
+  deactivated_at: string | null;
+};
+
+type IncidentReport = {
+  emergency_access: EmergencySessionSummary & {
+    scopes: Array<{ module: string; duration_minutes: number; expires_at: string | null }>;
+  };
+  deactivated_at: string | null;
+  actions: Array<{
+    log_id: number;
+    action: string;
+    user_id: string;
+    target_module: string | null;
+    target_record_id: string | null;
+    created_at: string;
+  }>;
+  summary: Record<string, number>;
+};
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "--";
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? value : parsed.toLocaleString();
+}
+
+export default function EmergencyIncidentReports() {
+  const [sessions, setSessions] = useState<EmergencySessionSummary[]>([]);
+  const [report, setReport] = useState<IncidentReport | null>(null);
+  const [loadingId, setLoadingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/it_admin/emergency-access/incident-reports", { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? "Unable to load emergency sessions.");
+      }
+      setSessions(payload.sessions ?? []);
+      setError(null);
+    } catch (err) {
+      setError((err as Error)?.message ?? "Unable to load emergency sessions.");
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSessions();
+  }, [loadSessions]);
+
+  const openReport = async (emergencyAccessId: number) => {
+    setLoadingId(emergencyAccessId);
+    try {
+      const response = await fetch(`/api/it_admin/emergency-access/incident-reports/${emergencyAccessId}`, {
+        cache: "no-store",
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? "Unable to build the incident report.");
+      }
+      setReport(payload.report);
+      setError(null);
+    } catch (err) {
+      setError((err as Error)?.message ?? "Unable to build the incident report.");
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  return (
+    <section className="mt-6 rounded-xl border border-slate-200 bg-white p-5">
+      <h2 className="text-lg font-semibold text-[#0f3b2e]">Post-Incident Reports</h2>
+      <p className="mt-1 text-sm text-slate-600">Every audited action taken under an approved emergency session.</p>
+      {error ? <p className="mt-3 text-sm font-medium text-red-700">{error}</p> : null}
+
+      {sessions.length === 0 ? (
+        <p className="mt-3 text-sm text-slate-600">No emergency sessions recorded yet.</p>
+      ) : (
+        <ul className="mt-3 divide-y divide-slate-200 rounded-lg border border-slate-200">
+          {sessions.map((session) => (
+            <li key={session.emergency_access_id} className="flex flex-wrap items-center justify-between gap-3 px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium text-slate-900">
+                  #{session.emergency_access_id} · covering {session.activated_for_role ?? "--"}
+                </p>
+                <p className="text-xs text-slate-600">
+                  {formatDateTime(session.activated_at)} to {formatDateTime(session.deactivated_at)}
+                </p>
+              </div>
+              <button
+                type="button"
+                disabled={loadingId !== null || !session.emergency_access_id}
+                onClick={() => session.emergency_access_id && openReport(session.emergency_access_id)}
+                className="rounded-lg border border-[#0f3b2e] px-3 py-1 text-xs font-semibold text-[#0f3b2e] transition hover:bg-emerald-50 disabled:opacity-50"
+              >
+                {loadingId === session.emergency_access_id ? "Loading..." : "View Report"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {report ? (
+        <div className="mt-5 rounded-lg border border-slate-200 bg-slate-50 p-4 text-sm text-slate-700">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <p className="font-semibold text-slate-900">
+                Incident #{report.emergency_access.emergency_access_id} · {report.emergency_access.activated_for_role}
+              </p>
+              <p className="mt-1">Reason: {report.emergency_access.reason ?? "--"}</p>
+              <p className="mt-1">
+                {formatDateTime(report.emergency_access.activated_at)} to {formatDateTime(report.deactivated_at)}
+              </p>
+            </div>
+            <button type="button" onClick={() => setReport(null)} className="text-xs font-semibold text-slate-500 hover:text-slate-800">
+              Close
+            </button>
+          </div>
+          <p className="mt-3 font-medium text-slate-900">Actions by module</p>
+          <p className="mt-1">
+            {Object.entries(report.summary)
+              .map(([module, count]) => `${module}: ${count}`)
+              .join(" · ") || "--"}
+          </p>
+          <table className="mt-3 w-full text-left text-xs">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="py-1 pr-3 font-medium">Time</th>
+                <th className="py-1 pr-3 font-medium">Action</th>
+                <th className="py-1 pr-3 font-medium">Module</th>
+                <th className="py-1 pr-3 font-medium">Record</th>
+                <th className="py-1 font-medium">User</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.actions.map((action) => (
+                <tr key={action.log_id} className="border-t border-slate-200">
+                  <td className="py-1 pr-3">{formatDateTime(action.created_at)}</td>
+                  <td className="py-1 pr-3">{action.action}</td>
+                  <td className="py-1 pr-3">{action.target_module ?? "--"}</td>
+                  <td className="py-1 pr-3">{action.target_record_id ?? "--"}</td>
+                  <td className="py-1">{action.user_id}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </section>
+  );
+}
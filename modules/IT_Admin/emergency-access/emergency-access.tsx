@@ -4,16 +4,34 @@ import Link from "next/link";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import ITAdminSidebar from "@/components/IT_Admin/Sidebar";
 import ITAdminHeader from "@/components/IT_Admin/Header";
+import EmergencyApprovalsPanel from "@/components/Common/EmergencyApprovalsPanel";
+import EmergencyIncidentReports from "./EmergencyIncidentReports";
 
 type EmergencyAccessPayload = {
   active: boolean;
   emergency_access_id: number | null;
+  approval_status: "pending" | "approved" | "rejected" | "cancelled" | null;
+  activated_for_role: string | null;
   reason: string | null;
+  requested_at: string | null;
   activated_at: string | null;
   expires_at: string | null;
   scope_modules: string[];
+  scopes: Array<{ module: string; duration_minutes: number; expires_at: string | null; live: boolean }>;
 };
 
+type ScopeCatalog = Record<string, string[]>;
+
+const MODULE_LABELS: Record<string, string> = {
+  Calendars: "Calendars",
+  Requests: "Requests",
+  Materials: "Material approvals",
+  StudentAssignments: "Student assignments",
+  Reports: "Report review",
+};
+
+const DEFAULT_SCOPE_HOURS = "4";
+
 function formatDateTime(value: string | null): string {
   if (!value) {
     return "--";
@@ -27,8 +45,10 @@ function formatDateTime(value: string | null): string {
 
 export default function ITAdminEmergencyAccessPage() {
   const [status, setStatus] = useState<EmergencyAccessPayload | null>(null);
+  const [catalog, setCatalog] = useState<ScopeCatalog>({});
+  const [targetRole, setTargetRole] = useState("Principal");
+  const [scopeHours, setScopeHours] = useState<Record<string, string>>({});
   const [reason, setReason] = useState("");
-  const [expiresAt, setExpiresAt] = useState("");
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
@@ -44,6 +64,7 @@ export default function ITAdminEmergencyAccessPage() {
       const payload = (await response.json().catch(() => null)) as {
         success?: boolean;
         emergency_access?: EmergencyAccessPayload;
+        scope_catalog?: ScopeCatalog;
         error?: string;
       } | null;
 
@@ -51,6 +72,7 @@ export default function ITAdminEmergencyAccessPage() {
         throw new Error(payload?.error ?? "Unable to load emergency status.");
       }
       setStatus(payload.emergency_access ?? null);
+      setCatalog(payload.scope_catalog ?? {});
     } catch (err) {
       setError((err as Error)?.message ?? "Unable to load emergency status.");
     } finally {
@@ -62,16 +84,38 @@ export default function ITAdminEmergencyAccessPage() {
     void loadStatus();
   }, [loadStatus]);
 
+  const isPending = status?.approval_status === "pending";
+
   const canActivate = useMemo(() => {
-    return !status?.active;
+    return !status?.active && status?.approval_status !== "pending";
   }, [status]);
 
+  const toggleScope = useCallback((moduleName: string, checked: boolean) => {
+    setScopeHours((prev) => {
+      const next = { ...prev };
+      if (checked) {
+        next[moduleName] = DEFAULT_SCOPE_HOURS;
+      } else {
+        delete next[moduleName];
+      }
+      return next;
+    });
+  }, []);
+
   const onActivate = useCallback(async () => {
     const trimmedReason = reason.trim();
     if (trimmedReason.length < 10) {
       setError("Provide a reason with at least 10 characters.");
       return;
     }
+    const scopes = Object.entries(scopeHours).map(([module, hours]) => ({
+      module,
+      duration_minutes: Math.round(Number(hours) * 60),
+    }));
+    if (scopes.length === 0) {
+      setError("Select at least one module to cover.");
+      return;
+    }
 
     setSubmitting(true);
     setError(null);
@@ -82,7 +126,8 @@ export default function ITAdminEmergencyAccessPage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           reason: trimmedReason,
-          expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+          target_role: targetRole,
+          scopes,
         }),
       });
       const payload = (await response.json().catch(() => null)) as {
@@ -91,22 +136,22 @@ export default function ITAdminEmergencyAccessPage() {
       } | null;
 
       if (!response.ok || !payload?.success) {
-        throw new Error(payload?.error ?? "Unable to activate emergency access.");
+        throw new Error(payload?.error ?? "Unable to request emergency access.");
       }
 
-      setMessage("Emergency Access activated.");
+      setMessage("Emergency Access requested. Another IT Admin or the Principal must approve it.");
       setReason("");
-      setExpiresAt("");
+      setScopeHours({});
       await loadStatus();
     } catch (err) {
-      setError((err as Error)?.message ?? "Unable to activate emergency access.");
+      setError((err as Error)?.message ?? "Unable to request emergency access.");
     } finally {
       setSubmitting(false);
     }
-  }, [expiresAt, loadStatus, reason]);
+  }, [loadStatus, reason, scopeHours, targetRole]);
 
   const onDeactivate = useCallback(async () => {
-    if (!status?.active || !status.emergency_access_id) {
+    if ((!status?.active && !isPending) || !status?.emergency_access_id) {
       return;
     }
 
@@ -128,14 +173,14 @@ export default function ITAdminEmergencyAccessPage() {
         throw new Error(payload?.error ?? "Unable to deactivate emergency access.");
       }
 
-      setMessage("Emergency Access deactivated.");
+      setMessage(isPending ? "Emergency Access request withdrawn." : "Emergency Access deactivated.");
       await loadStatus();
     } catch (err) {
       setError((err as Error)?.message ?? "Unable to deactivate emergency access.");
     } finally {
       setSubmitting(false);
     }
-  }, [loadStatus, status]);
+  }, [isPending, loadStatus, status]);
 
   return (
     <div className="relative flex min-h-screen overflow-hidden bg-linear-to-br from-[#edf9f1] via-[#f5fbf7] to-[#e7f4ec]">
@@ -149,23 +194,79 @@ export default function ITAdminEmergencyAccessPage() {
           <div className="relative h-full min-h-100 overflow-y-auto rounded-2xl border border-white/70 bg-white/45 p-4 shadow-[0_14px_38px_rgba(15,23,42,0.10)] backdrop-blur-xl sm:p-5 md:p-6">
             {status?.active ? (
               <div className="mb-6 rounded-xl border border-amber-200 bg-amber-50 p-4">
-                <p className="text-sm font-semibold text-amber-900">Emergency Access Active</p>
+                <p className="text-sm font-semibold text-amber-900">
+                  Emergency Access Active · covering {status.activated_for_role ?? "--"}
+                </p>
                 <p className="mt-2 text-sm text-amber-900">Reason: {status.reason ?? "--"}</p>
                 <p className="mt-1 text-sm text-amber-900">Activated at: {formatDateTime(status.activated_at)}</p>
                 <p className="mt-1 text-sm text-amber-900">Expires at: {formatDateTime(status.expires_at)}</p>
               </div>
             ) : null}
 
+            <EmergencyApprovalsPanel endpoint="/api/it_admin/emergency-access/approvals" onDecision={loadStatus} />
+
             {error ? <p className="mb-3 text-sm font-medium text-red-700">{error}</p> : null}
             {message ? <p className="mb-3 text-sm font-medium text-green-700">{message}</p> : null}
 
             <div className="grid gap-6 lg:grid-cols-2">
               <section className="rounded-xl border border-slate-200 bg-white p-5">
-                <h2 className="text-lg font-semibold text-[#0f3b2e]">Activate Emergency Access</h2>
+                <h2 className="text-lg font-semibold text-[#0f3b2e]">Request Emergency Access</h2>
                 <p className="mt-1 text-sm text-slate-600">
-                  Requires reason. Access is limited to Principal-managed Calendars and Requests.
+                  Requires a reason and approval from another IT Admin or the Principal. Each module closes on its own
+                  deadline, counted from approval.
                 </p>
 
+                <label className="mt-4 block text-sm font-medium text-slate-700" htmlFor="emergency-target-role">
+                  Role to cover
+                </label>
+                <select
+                  id="emergency-target-role"
+                  value={targetRole}
+                  onChange={(event) => {
+                    setTargetRole(event.target.value);
+                    setScopeHours({});
+                  }}
+                  disabled={!canActivate || submitting || loading}
+                  className="mt-2 w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-200 disabled:cursor-not-allowed disabled:bg-slate-100"
+                >
+                  {Object.keys(catalog).map((role) => (
+                    <option key={role} value={role}>
+                      {role}
+                    </option>
+                  ))}
+                </select>
+
+                <p className="mt-4 text-sm font-medium text-slate-700">Modules and hours open</p>
+                <div className="mt-2 space-y-2">
+                  {(catalog[targetRole] ?? []).map((moduleName) => {
+                    const selected = moduleName in scopeHours;
+                    return (
+                      <div key={moduleName} className="flex items-center justify-between gap-3">
+                        <label className="flex items-center gap-2 text-sm text-slate-700">
+                          <input
+                            type="checkbox"
+                            checked={selected}
+                            onChange={(event) => toggleScope(moduleName, event.target.checked)}
+                            disabled={!canActivate || submitting || loading}
+                          />
+                          {MODULE_LABELS[moduleName] ?? moduleName}
+                        </label>
+                        <input
+                          type="number"
+                          min={0.25}
+                          max={24}
+                          step={0.25}
+                          value={scopeHours[moduleName] ?? ""}
+                          onChange={(event) => setScopeHours((prev) => ({ ...prev, [moduleName]: event.target.value }))}
+                          disabled={!selected || !canActivate || submitting || loading}
+                          aria-label={`${MODULE_LABELS[moduleName] ?? moduleName} hours`}
+                          className="w-24 rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100"
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+
                 <label className="mt-4 block text-sm font-medium text-slate-700" htmlFor="emergency-reason">
                   Reason
                 </label>
@@ -175,19 +276,7 @@ export default function ITAdminEmergencyAccessPage() {
                   onChange={(event) => setReason(event.target.value)}
                   disabled={!canActivate || submitting || loading}
                   className="mt-2 min-h-28 w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-200 disabled:cursor-not-allowed disabled:bg-slate-100"
-                  placeholder="Principal unavailable due to emergency..."
-                />
-
-                <label className="mt-4 block text-sm font-medium text-slate-700" htmlFor="emergency-expiry">
-                  Optional expiry
-                </label>
-                <input
-                  id="emergency-expiry"
-                  type="datetime-local"
-                  value={expiresAt}
-                  onChange={(event) => setExpiresAt(event.target.value)}
-                  disabled={!canActivate || submitting || loading}
-                  className="mt-2 w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-200 disabled:cursor-not-allowed disabled:bg-slate-100"
+                  placeholder="Coordinator unavailable due to emergency..."
                 />
 
                 <button
@@ -196,22 +285,46 @@ export default function ITAdminEmergencyAccessPage() {
                   disabled={!canActivate || submitting || loading}
                   className="mt-4 rounded-lg bg-[#013300] px-4 py-2 text-sm font-semibold text-white transition hover:bg-green-900 disabled:cursor-not-allowed disabled:opacity-50"
                 >
-                  {submitting ? "Activating..." : "Activate Emergency Access"}
+                  {submitting ? "Submitting..." : "Request Emergency Access"}
                 </button>
               </section>
 
               <section className="rounded-xl border border-slate-200 bg-white p-5">
                 <h2 className="text-lg font-semibold text-[#0f3b2e]">Current Status</h2>
                 {loading ? <p className="mt-3 text-sm text-slate-600">Loading status...</p> : null}
-                {!loading && !status?.active ? (
+                {!loading && !status?.active && !isPending ? (
                   <p className="mt-3 text-sm text-slate-600">No active emergency access session.</p>
                 ) : null}
+                {!loading && isPending ? (
+                  <div className="mt-3 space-y-1 text-sm text-slate-700">
+                    <p className="font-medium text-amber-800">Awaiting approval</p>
+                    <p>Covering: {status?.activated_for_role ?? "--"}</p>
+                    <p>Requested at: {formatDateTime(status?.requested_at ?? null)}</p>
+                    <button
+                      type="button"
+                      onClick={onDeactivate}
+                      disabled={submitting}
+                      className="mt-3 rounded-lg border border-red-400 px-4 py-2 text-sm font-semibold text-red-700 transition hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Withdraw Request
+                    </button>
+                  </div>
+                ) : null}
                 {!loading && status?.active ? (
                   <div className="mt-3 space-y-1 text-sm text-slate-700">
                     <p>Emergency Access ID: {status.emergency_access_id}</p>
-                    <p>Scope: {(status.scope_modules ?? []).join(", ") || "--"}</p>
+                    <p>Covering: {status.activated_for_role ?? "--"}</p>
                     <p>Activated at: {formatDateTime(status.activated_at)}</p>
-                    <p>Expires at: {formatDateTime(status.expires_at)}</p>
+                    <ul className="mt-2 space-y-1">
+                      {(status.scopes.length > 0
+                        ? status.scopes
+                        : status.scope_modules.map((module) => ({ module, expires_at: status.expires_at, live: true }))
+                      ).map((scope) => (
+                        <li key={scope.module} className={scope.live ? "" : "text-slate-400 line-through"}>
+                          {MODULE_LABELS[scope.module] ?? scope.module}: until {formatDateTime(scope.expires_at)}
+                        </li>
+                      ))}
+                    </ul>
                     <button
                       type="button"
                       onClick={onDeactivate}
@@ -241,6 +354,8 @@ export default function ITAdminEmergencyAccessPage() {
                 <p className="mt-1 text-sm text-slate-600">Adjust Principal-managed calendar records using the same underlying tables.</p>
               </Link>
             </section>
+
+            <EmergencyIncidentReports />
           </div>
         </main>
       </div>
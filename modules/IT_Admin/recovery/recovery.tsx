@@ -16,6 +16,7 @@ type RecoveryEntity =
   | "master_teacher"
   | "teacher"
   | "parent"
+  | "graduated_student"
   | "activity"
   | "remedial_quarter"
   | "weekly_subject_schedule"
@@ -29,6 +30,7 @@ const ENTITY_OPTIONS: Array<{ label: string; value: RecoveryEntity }> = [
   { label: "Master Teachers", value: "master_teacher" },
   { label: "Teachers", value: "teacher" },
   { label: "Parents", value: "parent" },
+  { label: "Graduated Students", value: "graduated_student" },
   { label: "Activities", value: "activity" },
   { label: "Remedial Quarters", value: "remedial_quarter" },
   { label: "Weekly Subject Schedules", value: "weekly_subject_schedule" },
@@ -45,10 +47,27 @@ type RecoveryRecord = {
   fields: Record<string, unknown>;
 };
 
+type CascadeGroup = {
+  key: string;
+  label: string;
+  parentKey: string;
+  available: boolean;
+  count: number;
+};
+
+type RecoveryConflict = {
+  id: string | number;
+  field: string;
+  value: string;
+  conflictingId: string | number;
+};
+
 type PreviewResponse = {
   recoverable: RecoveryRecord[];
   notRecoverable: RecoveryRecord[];
   notFound: Array<string | number>;
+  cascade: CascadeGroup[];
+  conflicts: RecoveryConflict[];
 };
 
 export default function ITAdminRecoveryCenter() {
@@ -72,6 +91,7 @@ export default function ITAdminRecoveryCenter() {
   const [showPreviewModal, setShowPreviewModal] = useState(false);
   const [preview, setPreview] = useState<PreviewResponse | null>(null);
   const [previewLoading, setPreviewLoading] = useState(false);
+  const [excludedGroups, setExcludedGroups] = useState<Set<string>>(new Set());
 
   const [showRestoreModal, setShowRestoreModal] = useState(false);
   const [restoreLoading, setRestoreLoading] = useState(false);
@@ -204,7 +224,10 @@ export default function ITAdminRecoveryCenter() {
         recoverable: Array.isArray(payload.recoverable) ? payload.recoverable : [],
         notRecoverable: Array.isArray(payload.notRecoverable) ? payload.notRecoverable : [],
         notFound: Array.isArray(payload.notFound) ? payload.notFound : [],
+        cascade: Array.isArray(payload.cascade) ? payload.cascade : [],
+        conflicts: Array.isArray(payload.conflicts) ? payload.conflicts : [],
       });
+      setExcludedGroups(new Set());
       setShowPreviewModal(true);
     } catch (err) {
       const previewErrorMessage = err instanceof Error ? err.message : "Failed to preview recovery.";
@@ -229,6 +252,32 @@ export default function ITAdminRecoveryCenter() {
     return preview.recoverable.map((row) => row.id);
   }, [preview]);
 
+  // A group is skipped when it, or any group it hangs from, is unticked.
+  const isGroupSkipped = useCallback(
+    (group: CascadeGroup): boolean => {
+      if (excludedGroups.has(group.key)) return true;
+      const parent = preview?.cascade.find((entry) => entry.key === group.parentKey);
+      return parent ? isGroupSkipped(parent) : false;
+    },
+    [excludedGroups, preview],
+  );
+
+  const includedGroups = useMemo(
+    () => (preview?.cascade ?? []).filter((group) => !isGroupSkipped(group)),
+    [isGroupSkipped, preview],
+  );
+
+  const includedDependentCount = includedGroups.reduce((sum, group) => sum + (group.available ? group.count : 0), 0);
+
+  const toggleGroup = (key: string, included: boolean) => {
+    setExcludedGroups((prev) => {
+      const next = new Set(prev);
+      if (included) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
   const canSubmitRestore =
     restoreCandidates.length > 0 &&
     reason.trim().length > 0 &&
@@ -252,6 +301,7 @@ export default function ITAdminRecoveryCenter() {
           ids: restoreCandidates,
           reason: reason.trim(),
           approvalNote: approvalNote.trim(),
+          include: includedGroups.map((group) => group.key),
         }),
       });
       const payload = await response.json().catch(() => ({}));
@@ -259,10 +309,14 @@ export default function ITAdminRecoveryCenter() {
         throw new Error(payload?.error ?? `Restore request failed (${response.status})`);
       }
 
-      setMessage(`Emergency restore completed: ${payload.restoredCount ?? 0} record(s) restored.`);
+      const dependentCount = Array.isArray(payload.dependents)
+        ? payload.dependents.reduce((sum: number, group: { restoredCount?: number }) => sum + Number(group.restoredCount ?? 0), 0)
+        : 0;
+      const completedMessage = `Emergency restore completed: ${payload.restoredCount ?? 0} record(s) and ${dependentCount} dependent record(s) restored.`;
+      setMessage(completedMessage);
       setFeedbackToast({
         title: "Restore Completed",
-        message: `Emergency restore completed: ${payload.restoredCount ?? 0} record(s) restored.`,
+        message: completedMessage,
         tone: "success",
       });
       setShowRestoreModal(false);
@@ -276,7 +330,7 @@ export default function ITAdminRecoveryCenter() {
     } finally {
       setRestoreLoading(false);
     }
-  }, [canSubmitRestore, entity, fetchList, fetchSummary, reason, approvalNote, restoreCandidates]);
+  }, [canSubmitRestore, entity, fetchList, fetchSummary, reason, approvalNote, restoreCandidates, includedGroups]);
 
   const currentCount = summaryCounts.find((entry) => entry.entity === entity)?.totalRecoverable ?? 0;
 
@@ -425,7 +479,11 @@ export default function ITAdminRecoveryCenter() {
             <PrimaryButton small onClick={() => setShowPreviewModal(false)}>
               Close
             </PrimaryButton>
-            <DangerButton small onClick={openRestoreModal} disabled={!preview || preview.recoverable.length === 0}>
+            <DangerButton
+              small
+              onClick={openRestoreModal}
+              disabled={!preview || preview.recoverable.length === 0 || preview.conflicts.length > 0}
+            >
               Proceed to Emergency Restore
             </DangerButton>
           </>
@@ -453,6 +511,40 @@ export default function ITAdminRecoveryCenter() {
                 </ul>
               )}
             </div>
+            {preview.conflicts.length > 0 && (
+              <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                <p className="font-semibold">Conflicts must be resolved before restoring</p>
+                <ul className="mt-2 space-y-1">
+                  {preview.conflicts.map((conflict) => (
+                    <li key={`${conflict.id}-${conflict.field}`}>
+                      {String(conflict.id)}: {conflict.field} &quot;{conflict.value}&quot; is now used by {String(conflict.conflictingId)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {preview.cascade.length > 0 && (
+              <div className="rounded border border-gray-200 p-3">
+                <p className="text-sm font-semibold text-gray-800">Dependent records restored with the selection</p>
+                <ul className="mt-2 space-y-1 text-sm text-gray-700">
+                  {preview.cascade.map((group) => (
+                    <li key={group.key} className={group.parentKey === entity ? "" : "pl-5"}>
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={!isGroupSkipped(group)}
+                          disabled={!group.available || group.count === 0}
+                          onChange={(e) => toggleGroup(group.key, e.target.checked)}
+                        />
+                        <span>
+                          {group.label}: {group.available ? `${group.count} record(s)` : "not recoverable on this database"}
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         )}
       </BaseModal>
@@ -476,7 +568,13 @@ export default function ITAdminRecoveryCenter() {
         <div className="space-y-4">
           <p className="text-sm text-gray-700">
             You are about to restore <span className="font-semibold">{restoreCandidates.length}</span> record(s) for{" "}
-            <span className="font-semibold">{currentEntityLabel}</span>.
+            <span className="font-semibold">{currentEntityLabel}</span>
+            {includedDependentCount > 0 ? (
+              <>
+                {" "}together with <span className="font-semibold">{includedDependentCount}</span> dependent record(s)
+              </>
+            ) : null}
+            .
           </p>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Reason (required)</label>
@@ -0,0 +1,158 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import PrimaryButton from "@/components/Common/Buttons/PrimaryButton";
+import SecondaryButton from "@/components/Common/Buttons/SecondaryButton";
+
+const ROLE_LABELS: Record<string, string> = {
+  it_admin: "IT Admin",
+  principal: "Principal",
+  master_teacher: "Master Teacher",
+  teacher: "Teacher",
+  parent: "Parent",
+};
+
+type RolePolicy = {
+  role: string;
+  totpRequired: boolean;
+  mandatory: boolean;
+};
+
+type AuthenticatorPolicySectionProps = {
+  onStatusMessage: (message: string) => void;
+};
+
+export default function AuthenticatorPolicySection({ onStatusMessage }: AuthenticatorPolicySectionProps) {
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [applied, setApplied] = useState<RolePolicy[]>([]);
+  const [draft, setDraft] = useState<RolePolicy[]>([]);
+
+  const loadPolicies = useCallback(async () => {
+    try {
+      const response = await fetch("/api/it_admin/accounts/mfa", { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to load authenticator policy.");
+      }
+      setApplied(data.policies);
+      setDraft(data.policies);
+    } catch (error) {
+      console.error("Unable to load authenticator policy", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPolicies();
+  }, [loadPolicies]);
+
+  const handleCancel = () => {
+    setDraft(applied);
+    setEditing(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const changed = draft.filter((policy) =>
+        applied.some((current) => current.role === policy.role && current.totpRequired !== policy.totpRequired),
+      );
+      let latest = applied;
+      for (const policy of changed) {
+        const response = await fetch("/api/it_admin/accounts/mfa", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ role: policy.role, totpRequired: policy.totpRequired }),
+        });
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || "Unable to update authenticator policy.");
+        }
+        latest = data.policies;
+      }
+      setApplied(latest);
+      setDraft(latest);
+      setEditing(false);
+      onStatusMessage("Authenticator policy saved successfully");
+    } catch (error) {
+      console.error("Unable to update authenticator policy", error);
+      onStatusMessage(error instanceof Error ? error.message : "Unable to update authenticator policy.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="mt-6 rounded-xl border border-slate-200 bg-white p-4 sm:p-5">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">Authenticator App Sign-In</h3>
+          <p className="mt-1 text-sm text-slate-600">
+            Roles that must verify new devices with an authenticator app instead of an emailed code.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {!editing ? (
+            <SecondaryButton
+              type="button"
+              small
+              onClick={() => setEditing(true)}
+              className="border border-slate-300 text-slate-700 hover:bg-slate-100"
+            >
+              Edit
+            </SecondaryButton>
+          ) : (
+            <>
+              <SecondaryButton
+                type="button"
+                small
+                onClick={handleCancel}
+                className="border border-slate-300 text-slate-700 hover:bg-slate-100"
+              >
+                Cancel
+              </SecondaryButton>
+              <PrimaryButton
+                type="button"
+                small
+                onClick={handleSave}
+                disabled={saving}
+                className="border-0 bg-[#0f3b2e] hover:bg-[#0b2f24]"
+              >
+                {saving ? "Saving..." : "Save changes"}
+              </PrimaryButton>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-2">
+        {draft.map((policy) => (
+          <label
+            key={policy.role}
+            className={`flex items-center justify-between gap-3 rounded-lg border p-3 text-sm ${
+              policy.totpRequired ? "border-[#0f3b2e] bg-emerald-50/60" : "border-slate-200 bg-white"
+            }`}
+          >
+            <span>
+              <span className="block font-semibold text-slate-900">{ROLE_LABELS[policy.role] ?? policy.role}</span>
+              <span className="mt-1 block text-slate-600">
+                {policy.mandatory ? "Always required" : policy.totpRequired ? "Required" : "Optional"}
+              </span>
+            </span>
+            <input
+              type="checkbox"
+              checked={policy.totpRequired}
+              onChange={(event) =>
+                setDraft((prev) =>
+                  prev.map((item) =>
+                    item.role === policy.role ? { ...item, totpRequired: event.target.checked } : item,
+                  ),
+                )
+              }
+              disabled={!editing || policy.mandatory}
+            />
+          </label>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,414 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import PrimaryButton from "@/components/Common/Buttons/PrimaryButton";
+import SecondaryButton from "@/components/Common/Buttons/SecondaryButton";
+
+type RetentionUnit = "days" | "school_years";
+
+type RetentionPolicy = {
+  entity: string;
+  label: string;
+  enabled: boolean;
+  retentionValue: number;
+  retentionUnit: RetentionUnit;
+};
+
+type LegalHold = {
+  holdId: number;
+  entity: string;
+  recordId: string | null;
+  reason: string;
+  placedAt: string | null;
+};
+
+type PreviewEntry = {
+  entity: string;
+  label: string;
+  cutoff: string;
+  available: boolean;
+  entityHeld: boolean;
+  eligibleCount: number;
+  heldCount: number;
+  sampleIds: Array<string | number>;
+};
+
+type RetentionPolicySectionProps = {
+  onStatusMessage: (message: string) => void;
+};
+
+const UNIT_LABELS: Record<RetentionUnit, string> = {
+  days: "days",
+  school_years: "school years",
+};
+
+const formatDate = (value: string | null): string => {
+  if (!value) return "--";
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? "--" : parsed.toLocaleDateString();
+};
+
+export default function RetentionPolicySection({ onStatusMessage }: RetentionPolicySectionProps) {
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [autoPurge, setAutoPurge] = useState(false);
+  const [savedAutoPurge, setSavedAutoPurge] = useState(false);
+  const [lastRunAt, setLastRunAt] = useState<string | null>(null);
+  const [applied, setApplied] = useState<RetentionPolicy[]>([]);
+  const [draft, setDraft] = useState<RetentionPolicy[]>([]);
+  const [holds, setHolds] = useState<LegalHold[]>([]);
+  const [preview, setPreview] = useState<PreviewEntry[] | null>(null);
+  const [holdDraft, setHoldDraft] = useState({ entity: "", recordId: "", reason: "" });
+
+  const loadRetention = useCallback(async (runScheduled = false) => {
+    try {
+      const response = await fetch("/api/it_admin/maintenance/retention", { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to load retention policies.");
+      }
+      setApplied(data.policies);
+      setDraft(data.policies);
+      setAutoPurge(Boolean(data.settings?.autoPurge));
+      setSavedAutoPurge(Boolean(data.settings?.autoPurge));
+      setLastRunAt(data.settings?.lastRunAt ?? null);
+      setHolds(data.holds);
+      setHoldDraft((prev) => (prev.entity ? prev : { ...prev, entity: data.policies[0]?.entity ?? "" }));
+
+      if (runScheduled && data.settings?.runDue) {
+        const scheduled = await fetch("/api/it_admin/maintenance/retention/scheduled", { method: "POST" });
+        const scheduledPayload = await scheduled.json().catch(() => null);
+        if (scheduled.ok && scheduledPayload?.ran) {
+          await loadRetention();
+        }
+      }
+    } catch (error) {
+      console.error("Unable to load retention policies", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadRetention(true);
+  }, [loadRetention]);
+
+  const updateDraft = (entity: string, changes: Partial<RetentionPolicy>) => {
+    setDraft((prev) => prev.map((policy) => (policy.entity === entity ? { ...policy, ...changes } : policy)));
+  };
+
+  const handleCancel = () => {
+    setDraft(applied);
+    setAutoPurge(savedAutoPurge);
+    setEditing(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/it_admin/maintenance/retention", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ autoPurge, policies: draft }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to save retention policies.");
+      }
+      setApplied(data.policies);
+      setDraft(data.policies);
+      setSavedAutoPurge(Boolean(data.settings?.autoPurge));
+      setPreview(null);
+      setEditing(false);
+      onStatusMessage("Retention policies saved successfully");
+    } catch (error) {
+      console.error("Unable to save retention policies", error);
+      onStatusMessage(error instanceof Error ? error.message : "Unable to save retention policies.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    try {
+      const response = await fetch("/api/it_admin/maintenance/retention/preview", { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to preview the purge.");
+      }
+      setPreview(data.entries);
+    } catch (error) {
+      onStatusMessage(error instanceof Error ? error.message : "Unable to preview the purge.");
+    }
+  };
+
+  const handleRunNow = async () => {
+    const confirm = window.prompt("This permanently deletes the records shown in the preview. Type PURGE to continue.");
+    if (!confirm) return;
+    setRunning(true);
+    try {
+      const response = await fetch("/api/it_admin/maintenance/retention/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ confirm }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Retention purge failed.");
+      }
+      const total = (data.purged as Array<{ purgedIds: unknown[] }>).reduce((sum, entry) => sum + entry.purgedIds.length, 0);
+      const failed = (data.failed ?? []) as Array<{ entity: string }>;
+      onStatusMessage(
+        failed.length
+          ? `Retention purge removed ${total} record(s); ${failed.map((entry) => entry.entity).join(", ")} could not be purged`
+          : `Retention purge removed ${total} record(s)`,
+      );
+      setPreview(null);
+      await loadRetention();
+    } catch (error) {
+      onStatusMessage(error instanceof Error ? error.message : "Retention purge failed.");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handlePlaceHold = async () => {
+    try {
+      const response = await fetch("/api/it_admin/maintenance/retention/holds", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          entity: holdDraft.entity,
+          recordId: holdDraft.recordId.trim() || null,
+          reason: holdDraft.reason,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to place the legal hold.");
+      }
+      setHolds(data.holds);
+      setHoldDraft((prev) => ({ ...prev, recordId: "", reason: "" }));
+      setPreview(null);
+      onStatusMessage("Legal hold placed");
+    } catch (error) {
+      onStatusMessage(error instanceof Error ? error.message : "Unable to place the legal hold.");
+    }
+  };
+
+  const handleReleaseHold = async (hold: LegalHold) => {
+    if (!window.confirm("Release this legal hold? The records become subject to their retention policy again.")) return;
+    try {
+      const response = await fetch(`/api/it_admin/maintenance/retention/holds/${hold.holdId}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Unable to release the legal hold.");
+      }
+      setHolds(data.holds);
+      setPreview(null);
+      onStatusMessage("Legal hold released");
+    } catch (error) {
+      onStatusMessage(error instanceof Error ? error.message : "Unable to release the legal hold.");
+    }
+  };
+
+  const labelFor = (entity: string) => applied.find((policy) => policy.entity === entity)?.label ?? entity;
+
+  return (
+    <section className="mt-6 rounded-xl border border-slate-200 bg-white p-4 sm:p-5">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">Data Retention</h3>
+          <p className="mt-1 text-sm text-slate-600">
+            How long deleted, archived and voided records are kept before they are permanently purged.
+          </p>
+          <p className="mt-1 text-xs text-slate-500">Last purge run: {formatDate(lastRunAt)}</p>
+        </div>
+        <div className="flex gap-2">
+          {!editing ? (
+            <SecondaryButton
+              type="button"
+              small
+              onClick={() => setEditing(true)}
+              className="border border-slate-300 text-slate-700 hover:bg-slate-100"
+            >
+              Edit
+            </SecondaryButton>
+          ) : (
+            <>
+              <SecondaryButton
+                type="button"
+                small
+                onClick={handleCancel}
+                className="border border-slate-300 text-slate-700 hover:bg-slate-100"
+              >
+                Cancel
+              </SecondaryButton>
+              <PrimaryButton
+                type="button"
+                small
+                onClick={handleSave}
+                disabled={saving}
+                className="border-0 bg-[#0f3b2e] hover:bg-[#0b2f24]"
+              >
+                {saving ? "Saving..." : "Save changes"}
+              </PrimaryButton>
+            </>
+          )}
+        </div>
+      </div>
+
+      <label className="mt-4 flex items-center gap-2 text-sm text-slate-700">
+        <input type="checkbox" checked={autoPurge} onChange={(event) => setAutoPurge(event.target.checked)} disabled={!editing} />
+        Purge automatically once a day
+      </label>
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-2">
+        {draft.map((policy) => (
+          <div
+            key={policy.entity}
+            className={`flex items-center justify-between gap-3 rounded-lg border p-3 text-sm ${
+              policy.enabled ? "border-[#0f3b2e] bg-emerald-50/60" : "border-slate-200 bg-white"
+            }`}
+          >
+            <label className="flex items-center gap-2 font-semibold text-slate-900">
+              <input
+                type="checkbox"
+                checked={policy.enabled}
+                onChange={(event) => updateDraft(policy.entity, { enabled: event.target.checked })}
+                disabled={!editing}
+              />
+              {policy.label}
+            </label>
+            <span className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                value={policy.retentionValue}
+                onChange={(event) => updateDraft(policy.entity, { retentionValue: Number(event.target.value) })}
+                disabled={!editing}
+                aria-label={`${policy.label} retention`}
+                className="w-20 rounded-md border border-slate-300 px-2 py-1 text-slate-900 disabled:bg-slate-100"
+              />
+              <select
+                value={policy.retentionUnit}
+                onChange={(event) => updateDraft(policy.entity, { retentionUnit: event.target.value as RetentionUnit })}
+                disabled={!editing}
+                className="rounded-md border border-slate-300 px-2 py-1 text-slate-900 disabled:bg-slate-100"
+              >
+                {(Object.keys(UNIT_LABELS) as RetentionUnit[]).map((unit) => (
+                  <option key={unit} value={unit}>
+                    {UNIT_LABELS[unit]}
+                  </option>
+                ))}
+              </select>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <SecondaryButton
+          type="button"
+          small
+          onClick={handlePreview}
+          disabled={editing}
+          className="border border-slate-300 text-slate-700 hover:bg-slate-100"
+        >
+          Preview Purge
+        </SecondaryButton>
+        <PrimaryButton
+          type="button"
+          small
+          onClick={handleRunNow}
+          disabled={editing || running || !preview || preview.every((entry) => entry.eligibleCount === 0)}
+          className="border-0 bg-red-700 hover:bg-red-800"
+        >
+          {running ? "Purging..." : "Purge Now"}
+        </PrimaryButton>
+      </div>
+
+      {preview && (
+        <div className="mt-4 rounded-lg border border-slate-200 p-3 text-sm text-slate-700">
+          {preview.length === 0 ? (
+            <p>No retention policy is enabled.</p>
+          ) : (
+            <ul className="space-y-1">
+              {preview.map((entry) => (
+                <li key={entry.entity}>
+                  <span className="font-semibold text-slate-900">{entry.label}</span>: dated before {formatDate(entry.cutoff)} —{" "}
+                  {!entry.available
+                    ? "not supported on this database"
+                    : entry.entityHeld
+                      ? `on legal hold (${entry.heldCount} kept)`
+                      : `${entry.eligibleCount} to purge${entry.heldCount > 0 ? `, ${entry.heldCount} held` : ""}`}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="mt-5">
+        <h4 className="text-sm font-semibold text-slate-900">Legal Holds</h4>
+        {holds.length === 0 ? (
+          <p className="mt-1 text-sm text-slate-600">No active legal holds.</p>
+        ) : (
+          <ul className="mt-2 divide-y divide-slate-200 rounded-lg border border-slate-200">
+            {holds.map((hold) => (
+              <li key={hold.holdId} className="flex flex-wrap items-center justify-between gap-3 px-3 py-2 text-sm">
+                <span className="text-slate-700">
+                  <span className="font-semibold text-slate-900">{labelFor(hold.entity)}</span>
+                  {hold.recordId ? ` · record ${hold.recordId}` : " · all records"} · {hold.reason} · {formatDate(hold.placedAt)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleReleaseHold(hold)}
+                  className="rounded-md border border-red-600 px-3 py-1 text-xs font-medium text-red-600 hover:bg-red-50"
+                >
+                  Release
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="mt-3 grid gap-2 sm:grid-cols-[1fr_1fr_2fr_auto]">
+          <select
+            value={holdDraft.entity}
+            onChange={(event) => setHoldDraft((prev) => ({ ...prev, entity: event.target.value }))}
+            aria-label="Legal hold entity"
+            className="rounded-md border border-slate-300 px-2 py-1 text-sm text-slate-900"
+          >
+            {applied.map((policy) => (
+              <option key={policy.entity} value={policy.entity}>
+                {policy.label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={holdDraft.recordId}
+            onChange={(event) => setHoldDraft((prev) => ({ ...prev, recordId: event.target.value }))}
+            placeholder="Record ID (blank = all)"
+            className="rounded-md border border-slate-300 px-2 py-1 text-sm text-slate-900"
+          />
+          <input
+            type="text"
+            value={holdDraft.reason}
+            maxLength={500}
+            onChange={(event) => setHoldDraft((prev) => ({ ...prev, reason: event.target.value }))}
+            placeholder="Reason for the hold"
+            className="rounded-md border border-slate-300 px-2 py-1 text-sm text-slate-900"
+          />
+          <SecondaryButton
+            type="button"
+            small
+            onClick={handlePlaceHold}
+            disabled={!holdDraft.entity || holdDraft.reason.trim().length < 5}
+            className="border border-slate-300 text-slate-700 hover:bg-slate-100"
+          >
+            Place Hold
+          </SecondaryButton>
+        </div>
+      </div>
+    </section>
+  );
+}
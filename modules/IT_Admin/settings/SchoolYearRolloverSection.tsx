@@ -0,0 +1,40 @@
+"use client";
+import { useState } from "react";
+import SecondaryButton from "@/components/Common/Buttons/SecondaryButton";
+import SchoolYearRolloverWizard from "@/components/Common/SchoolYearRolloverWizard";
+
+type SchoolYearRolloverSectionProps = {
+  onStatusMessage: (message: string) => void;
+};
+
+export default function SchoolYearRolloverSection({ onStatusMessage }: SchoolYearRolloverSectionProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <section className="mt-6 rounded-xl border border-slate-200 bg-white p-4 sm:p-5">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">School Year Rollover</h3>
+          <p className="mt-1 text-sm text-slate-600">
+            Promote learners, graduate Grade 6 and archive the closing year&apos;s schedules and assessments.
+          </p>
+        </div>
+        <SecondaryButton
+          type="button"
+          small
+          onClick={() => setOpen(true)}
+          className="border border-slate-300 text-slate-700 hover:bg-slate-100"
+        >
+          Start Rollover
+        </SecondaryButton>
+      </div>
+
+      <SchoolYearRolloverWizard
+        show={open}
+        onClose={() => setOpen(false)}
+        endpoint="/api/it_admin/maintenance/rollover"
+        onCompleted={() => onStatusMessage("School year rollover completed")}
+      />
+    </section>
+  );
+}
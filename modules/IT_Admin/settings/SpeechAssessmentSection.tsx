@@ -0,0 +1,147 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import PrimaryButton from "@/components/Common/Buttons/PrimaryButton";
+import SecondaryButton from "@/components/Common/Buttons/SecondaryButton";
+import { fetchSpeechAssessmentSettings, updateSpeechAssessmentSettings } from "@/lib/speech-assessment/client";
+import {
+  DEFAULT_SPEECH_ASSESSMENT_SETTINGS,
+  SPEECH_ASSESSMENT_PROVIDER_IDS,
+  SPEECH_ASSESSMENT_PROVIDER_LABELS,
+  type SpeechAssessmentSettings,
+} from "@/lib/speech-assessment/provider";
+
+const PROVIDER_DESCRIPTIONS = {
+  azure: "Phoneme-level pronunciation scores from Azure Speech. Needs the Azure key and an internet connection.",
+  web_speech: "Scores the browser transcript against the flashcard text. Works without an Azure key, with coarser pronunciation detail.",
+} as const;
+
+type SpeechAssessmentSectionProps = {
+  onStatusMessage: (message: string) => void;
+};
+
+export default function SpeechAssessmentSection({ onStatusMessage }: SpeechAssessmentSectionProps) {
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [azureConfigured, setAzureConfigured] = useState(true);
+  const [applied, setApplied] = useState<SpeechAssessmentSettings>({ ...DEFAULT_SPEECH_ASSESSMENT_SETTINGS });
+  const [draft, setDraft] = useState<SpeechAssessmentSettings>({ ...DEFAULT_SPEECH_ASSESSMENT_SETTINGS });
+
+  const loadSettings = useCallback(async () => {
+    const { settings, azureConfigured: configured } = await fetchSpeechAssessmentSettings({ force: true });
+    setApplied(settings);
+    setDraft(settings);
+    setAzureConfigured(configured);
+  }, []);
+
+  useEffect(() => {
+    void loadSettings();
+  }, [loadSettings]);
+
+  const handleCancel = () => {
+    setDraft({ ...applied });
+    setEditing(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { settings, azureConfigured: configured } = await updateSpeechAssessmentSettings(draft);
+      setApplied(settings);
+      setDraft(settings);
+      setAzureConfigured(configured);
+      setEditing(false);
+      onStatusMessage("Speech assessment settings saved successfully");
+    } catch (error) {
+      console.error("Unable to update speech assessment settings", error);
+      onStatusMessage(error instanceof Error ? error.message : "Unable to update speech assessment settings.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="mt-6 rounded-xl border border-slate-200 bg-white p-4 sm:p-5">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">Speech Assessment</h3>
+          <p className="mt-1 text-sm text-slate-600">
+            Choose how flashcard reading is scored during remedial sessions.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {!editing ? (
+            <SecondaryButton
+              type="button"
+              small
+              onClick={() => setEditing(true)}
+              className="border border-slate-300 text-slate-700 hover:bg-slate-100"
+            >
+              Edit
+            </SecondaryButton>
+          ) : (
+            <>
+              <SecondaryButton
+                type="button"
+                small
+                onClick={handleCancel}
+                className="border border-slate-300 text-slate-700 hover:bg-slate-100"
+              >
+                Cancel
+              </SecondaryButton>
+              <PrimaryButton
+                type="button"
+                small
+                onClick={handleSave}
+                disabled={saving}
+                className="border-0 bg-[#0f3b2e] hover:bg-[#0b2f24]"
+              >
+                {saving ? "Saving..." : "Save changes"}
+              </PrimaryButton>
+            </>
+          )}
+        </div>
+      </div>
+
+      {!azureConfigured && (
+        <p className="mt-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          The Azure Speech key is not configured on the server. Sessions are scored in the browser until it is added.
+        </p>
+      )}
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-2">
+        {SPEECH_ASSESSMENT_PROVIDER_IDS.map((providerId) => (
+          <label
+            key={providerId}
+            className={`flex cursor-pointer gap-3 rounded-lg border p-3 text-sm ${
+              draft.provider === providerId ? "border-[#0f3b2e] bg-emerald-50/60" : "border-slate-200 bg-white"
+            } ${editing ? "" : "cursor-not-allowed opacity-80"}`}
+          >
+            <input
+              type="radio"
+              name="speech-assessment-provider"
+              value={providerId}
+              checked={draft.provider === providerId}
+              onChange={() => setDraft((prev) => ({ ...prev, provider: providerId }))}
+              disabled={!editing}
+              className="mt-1"
+            />
+            <span>
+              <span className="block font-semibold text-slate-900">{SPEECH_ASSESSMENT_PROVIDER_LABELS[providerId]}</span>
+              <span className="mt-1 block text-slate-600">{PROVIDER_DESCRIPTIONS[providerId]}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <label className="mt-4 flex items-center gap-2 text-sm text-slate-700">
+        <input
+          type="checkbox"
+          checked={draft.fallbackToWebSpeech}
+          onChange={(event) => setDraft((prev) => ({ ...prev, fallbackToWebSpeech: event.target.checked }))}
+          disabled={!editing || draft.provider === "web_speech"}
+        />
+        Fall back to browser scoring when Azure is unavailable or over quota
+      </label>
+    </section>
+  );
+}
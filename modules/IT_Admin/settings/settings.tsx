@@ -6,6 +6,10 @@ import ITAdminHeader from "@/components/IT_Admin/Header";
 import SecondaryHeader from "@/components/Common/Texts/SecondaryHeader";
 import PrimaryButton from "@/components/Common/Buttons/PrimaryButton";
 import SecondaryButton from "@/components/Common/Buttons/SecondaryButton";
+import SpeechAssessmentSection from "./SpeechAssessmentSection";
+import AuthenticatorPolicySection from "./AuthenticatorPolicySection";
+import RetentionPolicySection from "./RetentionPolicySection";
+import SchoolYearRolloverSection from "./SchoolYearRolloverSection";
 import {
   getDefaultLandingConfig,
   type ThemeSettings,
@@ -35,7 +39,57 @@ const generateCarouselId = () =>
     ? crypto.randomUUID()
     : `carousel-${Date.now()}-${Math.random().toString(16).slice(2)}`;
 
-const formatBackupLabel = (timestamp: Date) => {
+type BackupPoint = { id: string; label: string };
+
+type RestorePreview = {
+  backupId: string;
+  label: string;
+  diffToken: string;
+  tables: Array<{
+    table: string;
+    status: "unchanged" | "changed" | "missing";
+    rowsToInsert: number;
+    rowsToDelete: number;
+    schemaChanged: boolean;
+  }>;
+  untrackedTables: string[];
+  totals: { changedTables: number; rowsToInsert: number; rowsToDelete: number };
+};
+
+const BACKUP_TRIGGER_LABELS: Record<string, string> = {
+  manual: "Manual",
+  scheduled: "Scheduled",
+  import: "Imported",
+  pre_restore: "Pre-restore",
+};
+
+const toBackupPoint = (backup: { backupId: number; version: number; trigger: string; createdAt: string | null }) => ({
+  id: String(backup.backupId),
+  label: `v${backup.version} · ${BACKUP_TRIGGER_LABELS[backup.trigger] ?? "Backup"} ${formatBackupLabel(
+    backup.createdAt ? new Date(backup.createdAt) : new Date(),
+  ).replace(/^Backup - /, "- ")}`,
+});
+
+const readFileName = (disposition: string | null, fallback: string) =>
+  disposition?.match(/filename="([^"]+)"/)?.[1] ?? fallback;
+
+async function downloadFromEndpoint(url: string, fallbackName: string): Promise<string> {
+  const response = await fetch(url, { cache: "no-store" });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.error ?? `Request failed: ${response.status}`);
+  }
+  const fileName = readFileName(response.headers.get("Content-Disposition"), fallbackName);
+  const objectUrl = URL.createObjectURL(await response.blob());
+  const anchor = document.createElement("a");
+  anchor.href = objectUrl;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(objectUrl);
+  return fileName;
+}
+
+function formatBackupLabel(timestamp: Date) {
   const date = timestamp.toLocaleDateString("en-US", {
     month: "short",
     day: "2-digit",
@@ -46,7 +100,7 @@ const formatBackupLabel = (timestamp: Date) => {
     minute: "2-digit",
   });
   return `Backup - ${date} ${time}`;
-};
+}
 
 export default function SystemConfiguration() {
   const [databaseEditing, setDatabaseEditing] = useState(false);
@@ -79,7 +133,11 @@ export default function SystemConfiguration() {
     privacyPolicyFile: null as File | null,
   });
 
-  const [backups, setBackups] = useState<{ id: string; label: string }[]>([]);
+  const [savedBackupSettings, setSavedBackupSettings] = useState(backupSettings);
+  const [backups, setBackups] = useState<BackupPoint[]>([]);
+  const [backupBusy, setBackupBusy] = useState(false);
+  const [restorePreview, setRestorePreview] = useState<RestorePreview | null>(null);
+  const [restoreReason, setRestoreReason] = useState("");
   const [selectedBackupId, setSelectedBackupId] = useState("");
   const [importFile, setImportFile] = useState<File | null>(null);
   const [logoPreviewUrl, setLogoPreviewUrl] = useState("");
@@ -238,30 +296,97 @@ export default function SystemConfiguration() {
     setDatabaseEditing(false);
     setStatusMessage("Database configuration updated successfully");
   };
-  const handleDatabaseExport = () => {
+  const handleDatabaseExport = async () => {
     setStatusMessage("Database export started...");
+    try {
+      const fileName = await downloadFromEndpoint("/api/it_admin/maintenance/export", "database-export.sql");
+      setStatusMessage(`Database exported to ${fileName}`);
+    } catch (error) {
+      setStatusMessage(error instanceof Error ? `Database export failed: ${error.message}` : "Database export failed");
+    }
   };
 
   // Backup section handlers
+  const loadBackups = useCallback(async (runScheduled = false) => {
+    try {
+      const response = await fetch("/api/it_admin/maintenance/backups", { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? `Request failed: ${response.status}`);
+      }
+      const points = (payload.backups ?? []).map(toBackupPoint) as BackupPoint[];
+      const settings = {
+        autoBackup: Boolean(payload.settings?.autoBackup),
+        schedule: (payload.settings?.schedule ?? "daily") as ScheduleOption,
+        retentionDays: String(payload.settings?.retentionDays ?? "30") as RetentionOption,
+        exportFormat: (payload.settings?.exportFormat ?? "sql") as ExportFormat,
+      };
+      setBackups(points);
+      setSelectedBackupId((prev) => (points.some((point) => point.id === prev) ? prev : points[0]?.id ?? ""));
+      setBackupSettings(settings);
+      setSavedBackupSettings(settings);
+
+      if (runScheduled && payload.settings?.scheduleDue) {
+        const scheduled = await fetch("/api/it_admin/maintenance/backups/scheduled", { method: "POST" });
+        const scheduledPayload = await scheduled.json().catch(() => null);
+        if (scheduled.ok && scheduledPayload?.ran) {
+          await loadBackups();
+        }
+      }
+    } catch (error) {
+      console.error("Failed to load backups", error);
+      setStatusMessage("Unable to load backup points");
+    }
+  }, []);
+
   const handleBackupEdit = () => setBackupEditing(true);
   const handleBackupCancel = () => {
+    setBackupSettings(savedBackupSettings);
+    setRestorePreview(null);
     setBackupEditing(false);
   };
-  const handleBackupSave = () => {
-    setBackupEditing(false);
-    setStatusMessage("Backup preferences updated successfully");
+  const handleBackupSave = async () => {
+    setBackupBusy(true);
+    try {
+      const response = await fetch("/api/it_admin/maintenance/backups/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...backupSettings, retentionDays: Number(backupSettings.retentionDays) }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? `Request failed: ${response.status}`);
+      }
+      setSavedBackupSettings(backupSettings);
+      setBackupEditing(false);
+      setStatusMessage("Backup preferences updated successfully");
+    } catch (error) {
+      setStatusMessage(error instanceof Error ? `Unable to save backup preferences: ${error.message}` : "Unable to save backup preferences");
+    } finally {
+      setBackupBusy(false);
+    }
   };
-  const handleBackupNow = () => {
-    const timestamp = new Date();
-    const newBackup = {
-      id: `manual-${timestamp.getTime()}`,
-      label: formatBackupLabel(timestamp),
-    };
-    setBackups((prev) => [newBackup, ...prev]);
-    setSelectedBackupId(newBackup.id);
-    setStatusMessage("Manual backup request queued successfully");
+  const handleBackupNow = async () => {
+    setBackupBusy(true);
+    setStatusMessage("Manual backup running...");
+    try {
+      const response = await fetch("/api/it_admin/maintenance/backups", { method: "POST" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? `Request failed: ${response.status}`);
+      }
+      await loadBackups();
+      setSelectedBackupId(String(payload.backup.backupId));
+      setStatusMessage(
+        `Backup v${payload.backup.version} saved (${payload.backup.tableCount} tables, ${payload.backup.rowCount} rows)`,
+      );
+    } catch (error) {
+      setStatusMessage(error instanceof Error ? `Manual backup failed: ${error.message}` : "Manual backup failed");
+    } finally {
+      setBackupBusy(false);
+    }
   };
-  const handleRestore = () => {
+  const handleRestore = async () => {
     if (!selectedBackupId) {
       setStatusMessage("Select a backup point before restoring");
       return;
@@ -271,10 +396,78 @@ export default function SystemConfiguration() {
       setStatusMessage("Selected backup could not be found. Refresh the list and try again.");
       return;
     }
-    setStatusMessage(`Restore started for ${selected.label}. You will be notified when it completes.`);
+    setBackupBusy(true);
+    setRestorePreview(null);
+    setStatusMessage(`Comparing ${selected.label} with the live database...`);
+    try {
+      const response = await fetch(`/api/it_admin/maintenance/backups/${selected.id}/restore`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dryRun: true }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? `Request failed: ${response.status}`);
+      }
+      setRestorePreview({ backupId: selected.id, label: selected.label, ...payload.preview });
+      setRestoreReason("");
+      setStatusMessage(
+        payload.preview.totals.changedTables > 0
+          ? `Dry run ready: ${payload.preview.totals.changedTables} tables would change. Review before restoring.`
+          : "Dry run complete: the database already matches this backup.",
+      );
+    } catch (error) {
+      setStatusMessage(error instanceof Error ? `Unable to preview restore: ${error.message}` : "Unable to preview restore");
+    } finally {
+      setBackupBusy(false);
+    }
   };
-  const handleBackupExport = () => {
-    setStatusMessage(`Exporting backups as ${backupSettings.exportFormat.toUpperCase()}...`);
+  const handleConfirmRestore = async () => {
+    if (!restorePreview) return;
+    if (!restoreReason.trim()) {
+      setStatusMessage("Unable to restore without a reason for the audit log");
+      return;
+    }
+    setBackupBusy(true);
+    setStatusMessage(`Restoring ${restorePreview.label}...`);
+    try {
+      const response = await fetch(`/api/it_admin/maintenance/backups/${restorePreview.backupId}/restore`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ diffToken: restorePreview.diffToken, reason: restoreReason.trim() }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? `Request failed: ${response.status}`);
+      }
+      setRestorePreview(null);
+      setRestoreReason("");
+      await loadBackups();
+      setStatusMessage(
+        `Restored ${restorePreview.label}. A safety backup (v${payload.safetyBackup.version}) was taken first.`,
+      );
+    } catch (error) {
+      setStatusMessage(error instanceof Error ? `Restore failed: ${error.message}` : "Restore failed");
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+  const handleBackupExport = async () => {
+    if (!selectedBackupId) {
+      setStatusMessage("Select a backup point before exporting");
+      return;
+    }
+    const format = backupSettings.exportFormat;
+    setStatusMessage(`Exporting backup as ${format.toUpperCase()}...`);
+    try {
+      const fileName = await downloadFromEndpoint(
+        `/api/it_admin/maintenance/backups/${selectedBackupId}?format=${format}`,
+        `backup.${format === "sql" ? "sql" : "zip"}`,
+      );
+      setStatusMessage(`Backup exported to ${fileName}`);
+    } catch (error) {
+      setStatusMessage(error instanceof Error ? `Backup export failed: ${error.message}` : "Backup export failed");
+    }
   };
 
   // Theme section handlers
@@ -492,26 +685,37 @@ export default function SystemConfiguration() {
       setLandingAssets((prev) => ({ ...prev, privacyPolicyFile: file }));
     }
   };
-  const handleImportSubmit = () => {
+  const handleImportSubmit = async () => {
     if (!importFile) {
       setStatusMessage("Choose a backup file to import before submitting.");
       return;
     }
-    setStatusMessage(`Imported ${importFile.name}. It will appear in the restore list once processed.`);
-    setImportFile(null);
-    if (importInputRef.current) {
-      importInputRef.current.value = "";
+    setBackupBusy(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", importFile);
+      const response = await fetch("/api/it_admin/maintenance/backups/import", { method: "POST", body: formData });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? `Request failed: ${response.status}`);
+      }
+      await loadBackups();
+      setSelectedBackupId(String(payload.backup.backupId));
+      setStatusMessage(`Imported ${importFile.name} as backup v${payload.backup.version}. It is ready to restore.`);
+      setImportFile(null);
+      if (importInputRef.current) {
+        importInputRef.current.value = "";
+      }
+    } catch (error) {
+      setStatusMessage(error instanceof Error ? `Import failed: ${error.message}` : "Import failed");
+    } finally {
+      setBackupBusy(false);
     }
   };
 
-  // Initialize with sample data
   useEffect(() => {
-    setBackups([
-      { id: "1", label: "Backup - Today, 02:30 AM" },
-      { id: "2", label: "Backup - Yesterday, 02:30 AM" },
-    ]);
-    setSelectedBackupId("1");
-  }, []);
+    void loadBackups(true);
+  }, [loadBackups]);
 
   // Cleanup object URLs
   useEffect(() => {
@@ -553,7 +757,6 @@ export default function SystemConfiguration() {
                 </div>
               )}
 
-              {/*
               <section className="mt-6 rounded-xl border border-slate-200 bg-white p-4 sm:p-5">
                 <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
                   <div>
@@ -604,7 +807,7 @@ export default function SystemConfiguration() {
                         <SecondaryButton type="button" small onClick={handleBackupCancel}>
                           Cancel
                         </SecondaryButton>
-                        <PrimaryButton type="button" small onClick={handleBackupSave}>
+                        <PrimaryButton type="button" small onClick={handleBackupSave} disabled={backupBusy}>
                           Save changes
                         </PrimaryButton>
                       </>
@@ -721,22 +924,89 @@ export default function SystemConfiguration() {
                   </div>
 
                   <div className="mt-4 flex flex-wrap gap-3">
-                    <PrimaryButton type="button" small onClick={handleBackupNow} disabled={!backupEditing}>
+                    <PrimaryButton type="button" small onClick={handleBackupNow} disabled={!backupEditing || backupBusy}>
                       Run Manual Backup
                     </PrimaryButton>
-                    <SecondaryButton type="button" small onClick={handleRestore} disabled={!backupEditing}>
+                    <SecondaryButton type="button" small onClick={handleRestore} disabled={!backupEditing || backupBusy}>
                       Restore Selected Backup
                     </SecondaryButton>
-                    <SecondaryButton type="button" small onClick={handleBackupExport} disabled={!backupEditing}>
+                    <SecondaryButton type="button" small onClick={handleBackupExport} disabled={!backupEditing || backupBusy}>
                       Export for Migration
                     </SecondaryButton>
                   </div>
+
+                  {restorePreview && (
+                    <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50/70 p-4">
+                      <span className="text-sm font-semibold text-[#013300]">Dry run for {restorePreview.label}</span>
+                      <p className="text-xs text-gray-600 mt-1">
+                        {restorePreview.totals.changedTables} tables change: {restorePreview.totals.rowsToInsert} rows restored,{" "}
+                        {restorePreview.totals.rowsToDelete} rows removed. A safety backup is taken before anything is written.
+                      </p>
+                      <div className="mt-3 max-h-56 overflow-y-auto rounded-lg border border-amber-100 bg-white">
+                        <table className="min-w-full text-xs">
+                          <thead className="bg-amber-50 text-left text-gray-600">
+                            <tr>
+                              <th className="px-3 py-2 font-semibold">Table</th>
+                              <th className="px-3 py-2 font-semibold">Change</th>
+                              <th className="px-3 py-2 font-semibold text-right">Restore</th>
+                              <th className="px-3 py-2 font-semibold text-right">Remove</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {restorePreview.tables
+                              .filter((table) => table.status !== "unchanged")
+                              .map((table) => (
+                                <tr key={table.table} className="border-t border-amber-100 text-[#013300]">
+                                  <td className="px-3 py-1.5 font-mono">{table.table}</td>
+                                  <td className="px-3 py-1.5">
+                                    {table.status === "missing" ? "Recreated" : "Rows differ"}
+                                    {table.schemaChanged && table.status !== "missing" ? " · schema changed" : ""}
+                                  </td>
+                                  <td className="px-3 py-1.5 text-right">{table.rowsToInsert}</td>
+                                  <td className="px-3 py-1.5 text-right">{table.rowsToDelete}</td>
+                                </tr>
+                              ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      {restorePreview.untrackedTables.length > 0 && (
+                        <p className="mt-2 text-xs text-gray-500">
+                          Not in this backup and left untouched: {restorePreview.untrackedTables.join(", ")}
+                        </p>
+                      )}
+                      {restorePreview.totals.changedTables > 0 && (
+                        <div className="mt-3 flex flex-col gap-2">
+                          <textarea
+                            value={restoreReason}
+                            onChange={(event) => setRestoreReason(event.target.value)}
+                            maxLength={500}
+                            rows={2}
+                            placeholder="Reason for restoring (recorded in the audit log)"
+                            className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-200"
+                          />
+                          <div className="flex flex-wrap gap-3">
+                            <PrimaryButton
+                              type="button"
+                              small
+                              onClick={handleConfirmRestore}
+                              disabled={backupBusy || !restoreReason.trim()}
+                            >
+                              Confirm Restore
+                            </PrimaryButton>
+                            <SecondaryButton type="button" small onClick={() => setRestorePreview(null)} disabled={backupBusy}>
+                              Discard Dry Run
+                            </SecondaryButton>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 <div className="mt-4 rounded-lg border border-green-100 bg-white p-4">
                   <span className="text-sm font-semibold text-[#013300]">Import a backup file</span>
                   <p className="text-xs text-gray-500 mt-1">
-                    Accepts .zip, .sql, or .json exports. Uploading keeps the file ready for restore but does not run it automatically.
+                    Accepts .zip archives downloaded from this page. The archive is checked and added to the restore list but is not restored automatically.
                   </p>
                   <div className="mt-3 flex flex-col sm:flex-row sm:items-center gap-3">
                     <div>
@@ -744,7 +1014,7 @@ export default function SystemConfiguration() {
                         ref={importInputRef}
                         id="backupImportInput"
                         type="file"
-                        accept=".zip,.sql,.json"
+                        accept=".zip"
                         onChange={(event) => setImportFile(event.target.files?.[0] ?? null)}
                         className="hidden"
                         disabled={!backupEditing}
@@ -757,7 +1027,7 @@ export default function SystemConfiguration() {
                         Choose backup file
                       </label>
                     </div>
-                    <SecondaryButton type="button" small onClick={handleImportSubmit} disabled={!backupEditing}>
+                    <SecondaryButton type="button" small onClick={handleImportSubmit} disabled={!backupEditing || backupBusy}>
                       Import Backup
                     </SecondaryButton>
                   </div>
@@ -766,7 +1036,6 @@ export default function SystemConfiguration() {
                   </span>
                 </div>
               </section>
-              */}
 
               <section className="mt-6 rounded-xl border border-slate-200 bg-white p-4 sm:p-5">
                 <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
@@ -971,6 +1240,14 @@ export default function SystemConfiguration() {
                 </div>
               </section>
 
+              <SpeechAssessmentSection onStatusMessage={setStatusMessage} />
+
+              <AuthenticatorPolicySection onStatusMessage={setStatusMessage} />
+
+              <RetentionPolicySection onStatusMessage={setStatusMessage} />
+
+              <SchoolYearRolloverSection onStatusMessage={setStatusMessage} />
+
               <section className="mt-6 rounded-xl border border-slate-200 bg-white p-4 sm:p-5">
                 <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
                   <div>
@@ -8,6 +8,7 @@ import MasterTeacherPageSkeleton from "@/components/MasterTeacher/MasterTeacherP
 import SecondaryHeader from "@/components/Common/Texts/SecondaryHeader";
 import TertiaryHeader from "@/components/Common/Texts/TertiaryHeader";
 import BodyText from "@/components/Common/Texts/BodyText";
+import AtRiskStudentsCard from "@/components/Common/Analytics/AtRiskStudentsCard";
 import { getStoredUserProfile } from "@/lib/utils/user-profile";
 import { normalizeMaterialSubject } from "@/lib/materials/shared";
 import { CalendarDays, Filter, FolderOpen, GraduationCap, Printer } from "lucide-react";
@@ -1137,6 +1138,16 @@ export default function MasterTeacherDashboard() {
                       </div>
                     </div>
                   </div>
+
+                  <div>
+                    <SecondaryHeader title="Early Warning" />
+                    <div className="mt-3">
+                      <AtRiskStudentsCard
+                        endpoint="/api/master_teacher/coordinator/early-warning"
+                        params={{ subject: selectedSubject, gradeLevel: selectedGrade }}
+                      />
+                    </div>
+                  </div>
                 </div>
               </div>
             </div>
@@ -0,0 +1,329 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import BaseModal, { ModalSection } from "@/components/Common/Modals/BaseModal";
+import PrimaryButton from "@/components/Common/Buttons/PrimaryButton";
+import SecondaryButton from "@/components/Common/Buttons/SecondaryButton";
+import type { PromotionQueueEntry } from "@/lib/students/promotion-queue";
+import type { PromotionThresholds } from "@/lib/students/promotion-thresholds";
+
+const PROMOTION_QUEUE_ENDPOINT = "/api/master_teacher/coordinator/promotion-queue";
+
+const TREND_LABELS: Record<string, { label: string; className: string }> = {
+  up: { label: "Improving", className: "bg-emerald-100 text-emerald-800" },
+  down: { label: "Slipping", className: "bg-amber-100 text-amber-800" },
+  neutral: { label: "Steady", className: "bg-gray-100 text-gray-700" },
+};
+
+type PromotionQueueModalProps = {
+  show: boolean;
+  onClose: () => void;
+  subject: string;
+  gradeLevel: string | null;
+  onNotify: (toast: { title: string; message: string; tone: "success" | "info" | "error" }) => void;
+};
+
+const formatSessionDate = (value: string | Date | null) => {
+  if (!value) return "—";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "—" : date.toLocaleDateString();
+};
+
+export default function PromotionQueueModal({ show, onClose, subject, gradeLevel, onNotify }: PromotionQueueModalProps) {
+  const [entries, setEntries] = useState<PromotionQueueEntry[]>([]);
+  const [thresholds, setThresholds] = useState<PromotionThresholds | null>(null);
+  const [thresholdDraft, setThresholdDraft] = useState({ averageThreshold: "", requiredSessions: "" });
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const scopeQuery = useMemo(() => {
+    const params = new URLSearchParams({ subject });
+    if (gradeLevel) params.set("gradeLevel", gradeLevel);
+    return params.toString();
+  }, [gradeLevel, subject]);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`${PROMOTION_QUEUE_ENDPOINT}?${scopeQuery}`, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? "Failed to load promotion queue.");
+      }
+      const nextEntries: PromotionQueueEntry[] = Array.isArray(payload.entries) ? payload.entries : [];
+      setEntries(nextEntries);
+      setSelectedIds((prev) => new Set(nextEntries.filter((entry) => prev.has(entry.queueId)).map((entry) => entry.queueId)));
+      setThresholds(payload.thresholds ?? null);
+      setThresholdDraft({
+        averageThreshold: String(payload.thresholds?.averageThreshold ?? ""),
+        requiredSessions: String(payload.thresholds?.requiredSessions ?? ""),
+      });
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load promotion queue.");
+    } finally {
+      setLoading(false);
+    }
+  }, [scopeQuery]);
+
+  useEffect(() => {
+    if (show) {
+      void loadQueue();
+    }
+  }, [loadQueue, show]);
+
+  const allSelected = entries.length > 0 && selectedIds.size === entries.length;
+
+  const toggleEntry = (queueId: number) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(queueId)) {
+        next.delete(queueId);
+      } else {
+        next.add(queueId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(entries.map((entry) => entry.queueId)));
+  };
+
+  const handleDecision = async (action: "approve" | "reject") => {
+    if (!selectedIds.size) return;
+    setBusy(true);
+    try {
+      const response = await fetch(PROMOTION_QUEUE_ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, queueIds: Array.from(selectedIds), note: note.trim() || null }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? "Failed to update promotion queue.");
+      }
+      const updated = Array.isArray(payload.updated) ? payload.updated.length : 0;
+      const failed: Array<{ error: string }> = Array.isArray(payload.failed) ? payload.failed : [];
+      const verb = action === "approve" ? "promoted" : "rejected";
+      onNotify({
+        title: failed.length ? "Partially Updated" : "Promotion Queue Updated",
+        message: failed.length
+          ? `${updated} ${verb}, ${failed.length} skipped: ${failed[0].error}`
+          : `${updated} student${updated === 1 ? "" : "s"} ${verb}.`,
+        tone: failed.length ? "info" : "success",
+      });
+      setNote("");
+      await loadQueue();
+    } catch (decisionError) {
+      onNotify({
+        title: "Update Failed",
+        message: decisionError instanceof Error ? decisionError.message : "Failed to update promotion queue.",
+        tone: "error",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEvaluate = async () => {
+    setBusy(true);
+    try {
+      const response = await fetch(PROMOTION_QUEUE_ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "evaluate", subject, gradeLevel }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? "Failed to evaluate students.");
+      }
+      onNotify({
+        title: "Readiness Checked",
+        message: `${payload.summary?.evaluated ?? 0} students checked, ${payload.summary?.queued ?? 0} newly queued.`,
+        tone: "success",
+      });
+      await loadQueue();
+    } catch (evaluateError) {
+      onNotify({
+        title: "Evaluation Failed",
+        message: evaluateError instanceof Error ? evaluateError.message : "Failed to evaluate students.",
+        tone: "error",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveThresholds = async () => {
+    setBusy(true);
+    try {
+      const response = await fetch(PROMOTION_QUEUE_ENDPOINT, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          subject,
+          gradeLevel,
+          averageThreshold: Number(thresholdDraft.averageThreshold),
+          requiredSessions: Number(thresholdDraft.requiredSessions),
+        }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error ?? "Failed to save promotion thresholds.");
+      }
+      onNotify({
+        title: "Thresholds Saved",
+        message: `Grade ${gradeLevel ?? "-"} ${subject} now needs ${payload.thresholds.requiredSessions} sessions at ${payload.thresholds.averageThreshold}% or higher.`,
+        tone: "success",
+      });
+      await loadQueue();
+    } catch (saveError) {
+      onNotify({
+        title: "Save Failed",
+        message: saveError instanceof Error ? saveError.message : "Failed to save promotion thresholds.",
+        tone: "error",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const thresholdsChanged =
+    thresholds !== null &&
+    (Number(thresholdDraft.averageThreshold) !== thresholds.averageThreshold ||
+      Number(thresholdDraft.requiredSessions) !== thresholds.requiredSessions);
+
+  return (
+    <BaseModal
+      show={show}
+      onClose={onClose}
+      title="Promotion Approval Queue"
+      maxWidth="4xl"
+      footer={(
+        <>
+          <SecondaryButton type="button" onClick={() => void handleDecision("reject")} disabled={busy || !selectedIds.size}>
+            Reject Selected
+          </SecondaryButton>
+          <PrimaryButton type="button" onClick={() => void handleDecision("approve")} disabled={busy || !selectedIds.size}>
+            {busy ? "Working..." : `Approve Selected (${selectedIds.size})`}
+          </PrimaryButton>
+        </>
+      )}
+    >
+      <ModalSection title="Promotion Thresholds">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+          <label className="flex flex-col text-sm text-gray-700">
+            Session average (%)
+            <input
+              type="number"
+              min={1}
+              max={100}
+              className="mt-1 w-36 rounded-lg border border-gray-300 px-3 py-2 text-black"
+              value={thresholdDraft.averageThreshold}
+              onChange={(event) => setThresholdDraft((prev) => ({ ...prev, averageThreshold: event.target.value }))}
+            />
+          </label>
+          <label className="flex flex-col text-sm text-gray-700">
+            Consecutive sessions
+            <input
+              type="number"
+              min={1}
+              max={10}
+              className="mt-1 w-36 rounded-lg border border-gray-300 px-3 py-2 text-black"
+              value={thresholdDraft.requiredSessions}
+              onChange={(event) => setThresholdDraft((prev) => ({ ...prev, requiredSessions: event.target.value }))}
+            />
+          </label>
+          <div className="flex gap-2">
+            <PrimaryButton type="button" small onClick={() => void handleSaveThresholds()} disabled={busy || !thresholdsChanged}>
+              Save Thresholds
+            </PrimaryButton>
+            <SecondaryButton type="button" small onClick={() => void handleEvaluate()} disabled={busy}>
+              Re-check Students
+            </SecondaryButton>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Applies to Grade {gradeLevel ?? "-"} {subject}. Students are checked automatically after every saved remedial session.
+        </p>
+      </ModalSection>
+
+      <ModalSection title="Ready for Promotion">
+        {error ? (
+          <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div>
+        ) : loading ? (
+          <p className="text-sm text-gray-500">Loading promotion queue...</p>
+        ) : !entries.length ? (
+          <div className="rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-600">
+            No students are waiting for promotion approval.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input type="checkbox" checked={allSelected} onChange={toggleAll} />
+              Select all ({entries.length})
+            </label>
+            <div className="max-h-[40vh] space-y-3 overflow-y-auto pr-2">
+              {entries.map((entry) => {
+                const trend = TREND_LABELS[entry.evidence?.trend ?? "neutral"] ?? TREND_LABELS.neutral;
+                return (
+                  <label
+                    key={entry.queueId}
+                    className="flex cursor-pointer gap-3 rounded-md border border-gray-200 p-3 hover:bg-emerald-50/40"
+                  >
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={selectedIds.has(entry.queueId)}
+                      onChange={() => toggleEntry(entry.queueId)}
+                    />
+                    <div className="flex-1 space-y-2">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="text-sm font-semibold text-gray-800">
+                          {entry.studentName}
+                          {entry.lrn ? <span className="ml-2 text-xs font-normal text-gray-500">LRN {entry.lrn}</span> : null}
+                        </p>
+                        <div className="flex items-center gap-2 text-xs">
+                          <span className="text-gray-600">Current level: {entry.levelName ?? "—"}</span>
+                          <span className={`rounded-full px-2 py-0.5 font-semibold ${trend.className}`}>{trend.label}</span>
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {(entry.evidence?.sessions ?? []).map((session) => (
+                          <span
+                            key={session.sessionId}
+                            className="rounded-md border border-emerald-200 bg-white px-2 py-1 text-xs text-gray-700"
+                          >
+                            {formatSessionDate(session.completedAt)} · <span className="font-semibold">{session.average.toFixed(1)}%</span>
+                          </span>
+                        ))}
+                      </div>
+                      {entry.evidence ? (
+                        <p className="text-xs text-gray-500">
+                          {entry.evidence.qualifyingStreak} of {entry.evidence.requiredSessions} sessions at{" "}
+                          {entry.evidence.threshold}% or higher · queued {formatSessionDate(entry.queuedAt)}
+                        </p>
+                      ) : null}
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+            <textarea
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-black"
+              rows={2}
+              maxLength={500}
+              placeholder="Optional note saved with the decision"
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+            />
+          </div>
+        )}
+      </ModalSection>
+    </BaseModal>
+  );
+}
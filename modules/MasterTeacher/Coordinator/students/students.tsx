@@ -11,6 +11,7 @@ import ToastActivity from "@/components/ToastActivity";
 import { FaTimes } from "react-icons/fa";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import StudentTab, { type CoordinatorStudent, type CoordinatorStudentHandler } from "./StudentsTab";
+import PromotionQueueModal from "./Modals/PromotionQueueModal";
 import { type MaterialSubject } from "@/lib/materials/shared";
 import { useCoordinatorTeachers, type CoordinatorTeacher } from "../teachers/useCoordinatorTeachers";
 import { formatFullNameWithMiddleInitial, getStoredUserProfile } from "@/lib/utils/user-profile";
@@ -66,6 +67,7 @@ export default function MasterTeacherStudents() {
   });
   const [showAssignmentModal, setShowAssignmentModal] = useState(false);
   const [showAssignConfirm, setShowAssignConfirm] = useState(false);
+  const [showPromotionQueue, setShowPromotionQueue] = useState(false);
   const [assignmentPreview, setAssignmentPreview] = useState<AssignmentGroup[]>([]);
   const [remedialTeachers, setRemedialTeachers] = useState<CoordinatorTeacher[]>([]);
   const [assignmentSaving, setAssignmentSaving] = useState(false);
@@ -512,6 +514,14 @@ export default function MasterTeacherStudents() {
                         </button>
                       )}
                     </div>
+                    <SecondaryButton
+                      type="button"
+                      small
+                      className="border border-[#013300] whitespace-nowrap"
+                      onClick={() => setShowPromotionQueue(true)}
+                    >
+                      Promotion Queue
+                    </SecondaryButton>
                   </div>
                 </div>
 
@@ -626,6 +636,14 @@ export default function MasterTeacherStudents() {
         message={`Assign ${totalStudents} students to ${totalTeachers} teachers for Grade ${studentMeta.gradeLevel ?? "-"} (${studentMeta.subject})?`}
       />
 
+      <PromotionQueueModal
+        show={showPromotionQueue}
+        onClose={() => setShowPromotionQueue(false)}
+        subject={studentMeta.subject}
+        gradeLevel={studentMeta.gradeLevel}
+        onNotify={setAssignmentToast}
+      />
+
       {assignmentToast && (
         <ToastActivity
           title={assignmentToast.title}
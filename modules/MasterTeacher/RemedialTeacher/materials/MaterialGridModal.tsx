@@ -121,10 +121,10 @@ export default function MaterialGridModal({ isOpen, onClose, activity, subject }
     const file = e.target.files?.[0];
     if (!file || targetLevelId === null) return;
 
-    if (!file.name.toLowerCase().endsWith(".pptx")) {
+    if (!/\.(pptx|pdf|docx)$/i.test(file.name)) {
       setStatusToast({
         title: "Invalid File",
-        message: `Only .pptx files are supported. "${file.name}" is not a PPTX file.`,
+        message: `Only .pptx, .pdf and .docx files are supported. "${file.name}" is not a supported file.`,
         tone: "error",
       });
       setTargetLevelId(null);
@@ -255,7 +255,7 @@ export default function MaterialGridModal({ isOpen, onClose, activity, subject }
         </div>
         <p className="flex items-center gap-2 text-xs text-gray-500">
 <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-info-icon lucide-info"><circle cx="12" cy="12" r="10"/><path d="M12 16v-4"/><path d="M12 8h.01"/></svg>
-          <span>Max file size: 10MB per file. Supported file type: .pptx</span>
+          <span>Max file size: 10MB per file. Supported file types: .pptx, .pdf, .docx</span>
         </p>
 
         {/* Level List Table */}
@@ -364,7 +364,7 @@ export default function MaterialGridModal({ isOpen, onClose, activity, subject }
           type="file"
           className="hidden"
           onChange={handleFileChange}
-          accept=".pptx"
+          accept=".pptx,.pdf,.docx"
         />
         </div>
       </BaseModal>
@@ -785,6 +785,45 @@ export default function StudentTab({ students, setStudents, searchTerm }: Studen
     void run();
   };
 
+  const applyStudentLevel = (studentId: string, subject: "English" | "Filipino" | "Math", levelName: string) => {
+    const applyLevel = (entry: any) => {
+      if (!entry) {
+        return entry;
+      }
+      if (subject === "English") {
+        return {
+          ...entry,
+          englishPhonemic: levelName,
+          english: levelName,
+        };
+      }
+      if (subject === "Filipino") {
+        return {
+          ...entry,
+          filipinoPhonemic: levelName,
+          filipino: levelName,
+        };
+      }
+      return {
+        ...entry,
+        mathProficiency: levelName,
+        math: levelName,
+      };
+    };
+
+    setStudents((prev) =>
+      prev.map((entry: any) => {
+        const entryId = entry?.studentId ?? entry?.id;
+        if (String(entryId) !== studentId) {
+          return entry;
+        }
+        return applyLevel(entry);
+      })
+    );
+    setSelectedStudent((prev: any) => applyLevel(prev));
+    setPromotionRecommendationRefreshKey((prev) => prev + 1);
+  };
+
   const handlePromoteFromModal = (subject: "English" | "Filipino" | "Math") => {
     const run = async () => {
       const studentId = selectedStudent?.studentId ?? selectedStudent?.id ?? "";
@@ -825,42 +864,7 @@ export default function StudentTab({ students, setStudents, searchTerm }: Studen
 
         const nextLevel = payload?.nextLevel?.level_name ?? payload?.nextLevel?.levelName ?? "";
         if (nextLevel) {
-          const applyPromotedLevel = (entry: any) => {
-            if (!entry) {
-              return entry;
-            }
-            if (subject === "English") {
-              return {
-                ...entry,
-                englishPhonemic: nextLevel,
-                english: nextLevel,
-              };
-            }
-            if (subject === "Filipino") {
-              return {
-                ...entry,
-                filipinoPhonemic: nextLevel,
-                filipino: nextLevel,
-              };
-            }
-            return {
-              ...entry,
-              mathProficiency: nextLevel,
-              math: nextLevel,
-            };
-          };
-
-          setStudents((prev) =>
-            prev.map((entry: any) => {
-              const entryId = entry?.studentId ?? entry?.id;
-              if (String(entryId) !== String(studentId)) {
-                return entry;
-              }
-              return applyPromotedLevel(entry);
-            })
-          );
-          setSelectedStudent((prev: any) => applyPromotedLevel(prev));
-          setPromotionRecommendationRefreshKey((prev) => prev + 1);
+          applyStudentLevel(String(studentId), subject, nextLevel);
         }
       } catch (error) {
         setStatusToast({
@@ -946,6 +950,11 @@ export default function StudentTab({ students, setStudents, searchTerm }: Studen
         promotionRecommendationApiPath="/api/teacher/remedial/students/promotion-readiness"
         promotionRecommendationRefreshKey={promotionRecommendationRefreshKey}
         onPromote={handlePromoteFromModal}
+        regressionApiPath="/api/teacher/remedial/students/phonemic-regression"
+        onLevelChanged={(subject, levelName) => {
+          const studentId = String(selectedStudent?.studentId ?? selectedStudent?.id ?? "");
+          if (studentId) applyStudentLevel(studentId, subject, levelName);
+        }}
         promoteLoading={
           !selectedStudent ||
           promoteLoadingId === String(selectedStudent?.studentId ?? selectedStudent?.id ?? "")
@@ -1,14 +1,25 @@
 "use client";
 
 import React from "react";
-import { StudentDetails } from "@/lib/performance";
+import type { RemedialSessionTimelineItem, StudentDetails } from "@/lib/performance";
+import MiscuePassage from "@/components/Common/Report/MiscuePassage";
 
 interface PerformancePageProps {
   student: StudentDetails | null;
   performance: any[];
+  sessions?: RemedialSessionTimelineItem[];
 }
 
-export default function PerformancePage({ student, performance }: PerformancePageProps) {
+const formatSessionDate = (session: RemedialSessionTimelineItem) => {
+  const value = session.schedule_date ?? session.completed_at ?? session.created_at;
+  return value ? new Date(value).toLocaleDateString() : "No Date";
+};
+
+export default function PerformancePage({ student, performance, sessions = [] }: PerformancePageProps) {
+  const sessionsWithMiscues = sessions
+    .map((session) => ({ ...session, slides: session.slides.filter((slide) => slide.miscues) }))
+    .filter((session) => session.slides.length > 0);
+
   return (
     <div className="p-6">
       <h1 className="text-2xl font-bold mb-4">
@@ -28,6 +39,41 @@ export default function PerformancePage({ student, performance }: PerformancePag
            ))}
          </ul>
       </div>
+
+      <div className="bg-white shadow rounded-lg p-4 mt-6">
+        <h2 className="text-lg font-semibold">Reading Miscues</h2>
+        <p className="text-sm text-gray-500">
+          Omissions are struck through, substitutions show the word read above the passage word, ^ marks insertions,
+          R repetitions and SC self-corrections.
+        </p>
+        {sessionsWithMiscues.length === 0 ? (
+          <p className="mt-4 text-sm text-gray-500">No reading sessions with miscue analysis yet.</p>
+        ) : (
+          <div className="mt-4 space-y-6">
+            {sessionsWithMiscues.map((session) => (
+              <section key={String(session.session_id)}>
+                <h3 className="font-semibold">
+                  {session.schedule_title || "Remedial Session"}
+                  <span className="ml-2 text-sm font-normal text-gray-500">{formatSessionDate(session)}</span>
+                </h3>
+                <ul className="mt-2 space-y-3">
+                  {session.slides.map((slide) => (
+                    <li
+                      key={String(slide.performance_id ?? `${session.session_id}-${slide.flashcard_index}`)}
+                      className="rounded-lg border border-gray-200 p-3"
+                    >
+                      <p className="mb-2 text-xs font-semibold uppercase text-gray-500">
+                        {typeof slide.flashcard_index === "number" ? `Slide ${slide.flashcard_index + 1}` : "Slide"}
+                      </p>
+                      {slide.miscues && <MiscuePassage analysis={slide.miscues} />}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -10,6 +10,7 @@ import { clearStoredUserProfile, storeUserProfile } from "@/lib/utils/user-profi
 import { storeParentPortalEntry } from "@/lib/utils/parent-portal-entry";
 
 const DEFAULT_ERROR_MESSAGE = "Unable to sign in with those parent credentials.";
+const OTP_VERIFICATION_CONTEXT_KEY = "otpVerificationContext";
 
 type ParentLoginProps = {
   onBack: () => void;
@@ -204,13 +205,23 @@ export default function ParentLogin({ onBack }: ParentLoginProps) {
         console.warn("Unable to persist logout marker", storageError);
       }
       storeParentPortalEntry("pwa");
-      const params = new URLSearchParams({
-        email: email.trim(),
-        role: data?.role || "parent",
-        user_id: String(data?.user_id ?? ""),
-        redirect_path: redirectPath,
-      }).toString();
-      router.push(`/auth/verification?${params}`);
+      try {
+        window.sessionStorage.setItem(
+          OTP_VERIFICATION_CONTEXT_KEY,
+          JSON.stringify({
+            email: email.trim(),
+            role: data?.role || "parent",
+            user_id: String(data?.user_id ?? ""),
+            redirect_path: redirectPath,
+            login_challenge: String(data?.loginChallenge || ""),
+            totp_enrolled: Boolean(data?.totpEnrolled),
+            totp_required: Boolean(data?.totpRequired),
+          }),
+        );
+      } catch {
+        // Ignore storage failures; the verification page falls back to the email OTP flow.
+      }
+      router.push("/auth/verification");
     } catch (error) {
       setErrorMessage(error instanceof Error ? error.message : DEFAULT_ERROR_MESSAGE);
     } finally {
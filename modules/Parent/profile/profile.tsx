@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import { FiLogOut } from "react-icons/fi";
 import DangerButton from "@/components/Common/Buttons/DangerButton";
 import PrimaryButton from "@/components/Common/Buttons/PrimaryButton";
+import DevicesSessionsPanel from "@/components/Common/DevicesSessionsPanel";
 import LogoutConfirmationModal from "@/components/Common/Modals/LogoutConfirmationModal";
 import UserAvatar from "@/components/Common/UserAvatar";
 import { resolveParentUserId } from "@/lib/utils/parent-session-client";
@@ -307,6 +308,11 @@ export default function ParentProfile() {
                 </div>
               </div>
 
+              <section className="mt-6 border-b border-[#E3EBE4] pb-5 lg:rounded-[24px] lg:border lg:border-[#E2E8DD] lg:bg-[#F9FBF8] lg:p-5 lg:shadow-sm">
+                <h2 className="mb-4 text-lg font-semibold tracking-tight text-gray-900">Devices &amp; Sessions</h2>
+                <DevicesSessionsPanel endpoint="/api/auth/sessions" selfService />
+              </section>
+
               <div className="mt-6 border-b border-[#E3EBE4] pb-5 lg:rounded-[24px] lg:border lg:border-[#E2E8DD] lg:bg-[#F9FBF8] lg:p-5 lg:shadow-sm">
                 <DangerButton type="button" className="flex w-full items-center justify-center gap-2" onClick={() => setShowLogoutConfirm(true)}>
                   <FiLogOut className="text-base" />
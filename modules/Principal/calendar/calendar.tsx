@@ -7,6 +7,7 @@ import DangerButton from "@/components/Common/Buttons/DangerButton";
 import SecondaryButton from "@/components/Common/Buttons/SecondaryButton";
 import BaseModal, { ModalInfoItem, ModalSection } from "@/components/Common/Modals/BaseModal";
 import ToastActivity from "@/components/ToastActivity";
+import SchoolYearRolloverWizard from "@/components/Common/SchoolYearRolloverWizard";
 import {
   QUARTER_OPTIONS,
   type QuarterOption,
@@ -331,6 +332,7 @@ export default function PrincipalCalendar() {
   const [newAcademicYearConfirmText, setNewAcademicYearConfirmText] = useState("");
   const [newAcademicYearError, setNewAcademicYearError] = useState<string | null>(null);
   const [newAcademicYearSubmitting, setNewAcademicYearSubmitting] = useState(false);
+  const [showRolloverWizard, setShowRolloverWizard] = useState(false);
   const [feedbackToast, setFeedbackToast] = useState<{
     title: string;
     message: string;
@@ -1979,6 +1981,15 @@ export default function PrincipalCalendar() {
                     >
                       Start New Academic Year
                     </DangerButton>
+                    <SecondaryButton
+                      type="button"
+                      small
+                      className="px-3"
+                      onClick={() => setShowRolloverWizard(true)}
+                      disabled={newAcademicYearSubmitting || isMutating}
+                    >
+                      Roll Over Learners
+                    </SecondaryButton>
                   </div>
                 </div>
 
@@ -2007,6 +2018,14 @@ export default function PrincipalCalendar() {
       </aside>
 
       <div className="print-hidden">
+        <SchoolYearRolloverWizard
+          show={showRolloverWizard}
+          onClose={() => setShowRolloverWizard(false)}
+          endpoint="/api/principal/school-year-rollover"
+          onCompleted={() => {
+            void Promise.all([loadRemedialSchedule(), loadSubjectSchedule(), loadApprovedActivities()]);
+          }}
+        />
         <BaseModal
           show={showNewAcademicYearModal}
           onClose={handleCloseNewAcademicYearModal}
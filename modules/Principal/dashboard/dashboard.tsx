@@ -10,6 +10,7 @@ import PrincipalSidebar from "@/components/Principal/Sidebar";
 import SecondaryHeader from "@/components/Common/Texts/SecondaryHeader";
 import PrimaryButton from "@/components/Common/Buttons/PrimaryButton";
 import SecondaryButton from "@/components/Common/Buttons/SecondaryButton";
+import AtRiskStudentsCard from "@/components/Common/Analytics/AtRiskStudentsCard";
 
 type SubjectName = "English" | "Filipino" | "Math";
 type StaffRoleName = "Teacher" | "Master Teacher";
@@ -893,6 +894,10 @@ export default function PrincipalDashboard() {
                   </div>
                 </div>
               </section>
+
+              <section className="print-section mb-8">
+                <AtRiskStudentsCard endpoint="/api/principal/early-warning" canManage />
+              </section>
             </div>
           </div>
         </main>
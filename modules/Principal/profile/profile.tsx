@@ -8,6 +8,7 @@ import SecondaryButton from "@/components/Common/Buttons/SecondaryButton";
 import ProfileImageCropModal from "@/components/Common/Modals/ProfileImageCropModal";
 import ToastActivity from "@/components/ToastActivity";
 import UserAvatar from "@/components/Common/UserAvatar";
+import DevicesSessionsPanel from "@/components/Common/DevicesSessionsPanel";
 import {
   PROFILE_IMAGE_ACCEPT_ATTRIBUTE,
   PROFILE_IMAGE_REQUIREMENTS_TEXT,
@@ -555,6 +556,11 @@ export default function PrincipalProfile() {
                         </>
                       )}
                     </div>
+
+                    <div className="bg-gray-50 rounded-lg border border-gray-200 p-5 mt-5">
+                      <h3 className="text-lg font-semibold text-gray-800 mb-4">Devices &amp; Sessions</h3>
+                      <DevicesSessionsPanel endpoint="/api/auth/sessions" selfService />
+                    </div>
                   </>
                 )}
               </div>
@@ -11,6 +11,7 @@ import BaseModal, { ModalLabel } from "@/components/Common/Modals/BaseModal";
 import TableList from "@/components/Common/Tables/TableList";
 import HeaderDropdown from "@/components/Common/GradeNavigation/HeaderDropdown";
 import ToastActivity from "@/components/ToastActivity";
+import EmergencyApprovalsPanel from "@/components/Common/EmergencyApprovalsPanel";
 
 interface CalendarRequestRow {
   id: string;
@@ -585,6 +586,7 @@ export default function PrincipalRequests() {
         <main className="flex-1 overflow-y-auto">
           <div className="relative h-full p-4 sm:p-5 md:p-6">
             <div className="relative h-full min-h-100 overflow-y-auto rounded-2xl border border-white/70 bg-white/45 p-4 shadow-[0_14px_38px_rgba(15,23,42,0.10)] backdrop-blur-xl sm:p-5 md:p-6">
+              <EmergencyApprovalsPanel endpoint="/api/principal/emergency-access/approvals" />
               <div className="mb-5 flex flex-col gap-1">
                 <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
                   <div className="flex items-center gap-2">
@@ -3,6 +3,7 @@
 import { type CSSProperties, useEffect, useState } from "react";
 import BaseModal, { ModalLabel, ModalSection } from "@/components/Common/Modals/BaseModal";
 import SecondaryButton from "@/components/Common/Buttons/SecondaryButton";
+import { ItemAnalysisPanel } from "@/components/Common/Analytics/ItemAnalysisPanel";
 import type { QuizResponse } from "../types";
 
 interface ResponseQuestion {
@@ -49,6 +50,13 @@ const getInitials = (name: string) =>
     .map((part) => part[0]?.toUpperCase() ?? "")
     .join("") || "--";
 
+type ResponsesView = "responses" | "items";
+
+const VIEW_TABS: Array<{ id: ResponsesView; label: string }> = [
+  { id: "responses", label: "Responses" },
+  { id: "items", label: "Item Analysis" },
+];
+
 const getDifficultyTone = (value: number) => {
   if (value >= 80) return "bg-emerald-50 text-emerald-700 border border-emerald-100";
   if (value >= 50) return "bg-amber-50 text-amber-700 border border-amber-100";
@@ -67,6 +75,7 @@ export default function ViewResponsesModal({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [analysisData, setAnalysisData] = useState<any>(null);
+  const [activeView, setActiveView] = useState<ResponsesView>("responses");
 
   const responses = analysisData?.responses ?? initialResponses;
   const totalStudents = analysisData?.summary?.totalAssigned ?? initialTotalStudents;
@@ -126,7 +135,26 @@ export default function ViewResponsesModal({
       footer={footer}
     >
       <div className="space-y-6">
-        {loading ? (
+        <div className="flex gap-2 border-b border-slate-200">
+          {VIEW_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              type="button"
+              onClick={() => setActiveView(tab.id)}
+              className={`-mb-px border-b-2 px-3 py-2 text-sm font-semibold transition ${
+                activeView === tab.id
+                  ? "border-[#013300] text-[#013300]"
+                  : "border-transparent text-slate-500 hover:text-slate-700"
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {activeView === "items" ? (
+          <ItemAnalysisPanel quizCode={quizCode} quizTitle={quizTitle} />
+        ) : loading ? (
           <div className="animate-pulse p-8 text-center text-gray-500">Loading analysis...</div>
         ) : error ? (
           <div className="rounded-lg bg-red-50 p-4 text-red-600">{error}</div>
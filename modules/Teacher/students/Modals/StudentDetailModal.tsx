@@ -4,6 +4,7 @@ import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import ConfirmationModal from "@/components/Common/Modals/ConfirmationModal";
 import BaseModal, { ModalSection, ModalInfoItem } from "@/components/Common/Modals/BaseModal";
+import LevelRegressionSection from "@/components/Common/LevelHistory/LevelRegressionSection";
 
 type PromotionSubject = "English" | "Filipino" | "Math";
 
@@ -99,6 +100,8 @@ interface StudentDetailModalProps {
   reportHref?: string;
   promotionRecommendationApiPath?: string;
   promotionRecommendationRefreshKey?: number;
+  regressionApiPath?: string;
+  onLevelChanged?: (subject: PromotionSubject, levelName: string) => void;
 }
 
 export default function StudentDetailModal({
@@ -110,6 +113,8 @@ export default function StudentDetailModal({
   reportHref,
   promotionRecommendationApiPath,
   promotionRecommendationRefreshKey = 0,
+  regressionApiPath,
+  onLevelChanged,
 }: StudentDetailModalProps) {
   const [recommendations, setRecommendations] = useState<Record<PromotionSubject, PromotionRecommendation> | null>(null);
   const [recommendationLoading, setRecommendationLoading] = useState(false);
@@ -370,6 +375,15 @@ export default function StudentDetailModal({
           </div>
         </ModalSection>
       )}
+      {regressionApiPath && studentId && (
+        <LevelRegressionSection
+          studentId={studentId}
+          studentName={studentName}
+          apiPath={regressionApiPath}
+          refreshKey={promotionRecommendationRefreshKey}
+          onLevelChanged={onLevelChanged}
+        />
+      )}
       <ConfirmationModal
         isOpen={Boolean(pendingPromotionSubject)}
         onClose={() => setPendingPromotionSubject(null)}
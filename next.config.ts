@@ -2,6 +2,7 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   allowedDevOrigins: ['172.18.112.1'],
+  serverExternalPackages: ['pdf-parse'],
   async redirects() {
     return [
       { source: "/Parent/welcome", destination: "/Parent/home", permanent: false },
@@ -0,0 +1,84 @@
+import { gradeAnswer, parseNumericAnswer, type GradingQuestion } from "../lib/assessments/grading";
+
+const buildQuestion = (overrides: Partial<GradingQuestion>): GradingQuestion => ({
+  questionId: 1,
+  questionType: "short_answer",
+  points: 2,
+  correctAnswerText: null,
+  caseSensitive: false,
+  subjectName: "English",
+  choices: [],
+  ...overrides,
+});
+
+describe("assessment grading", () => {
+  test("grades multiple choice from the answer key, not the client", () => {
+    const question = buildQuestion({
+      questionType: "multiple-choice",
+      choices: [
+        { choiceId: 10, choiceText: "Cat", isCorrect: false },
+        { choiceId: 11, choiceText: "Dog", isCorrect: true },
+      ],
+    });
+
+    expect(gradeAnswer(question, { selectedChoiceId: 11 })).toMatchObject({ isCorrect: true, score: 2, selectedChoiceId: 11 });
+    expect(gradeAnswer(question, { selectedChoiceId: 10 })).toMatchObject({ isCorrect: false, score: 0 });
+    expect(gradeAnswer(question, { selectedChoiceId: 99 })).toMatchObject({ isCorrect: false, selectedChoiceId: null });
+  });
+
+  test("falls back to the stored choice text when the choice id is stale", () => {
+    const question = buildQuestion({
+      questionType: "multiple_choice",
+      choices: [{ choiceId: 20, choiceText: "Dog", isCorrect: true }],
+    });
+
+    expect(gradeAnswer(question, { selectedChoiceId: 11, answerText: "Dog" })).toMatchObject({
+      isCorrect: true,
+      selectedChoiceId: 20,
+    });
+  });
+
+  test("accepts true/false synonyms when there are no choices", () => {
+    const question = buildQuestion({ questionType: "true-false", correctAnswerText: "True" });
+
+    expect(gradeAnswer(question, { answerText: "tama" }).isCorrect).toBe(true);
+    expect(gradeAnswer(question, { answerText: "False" }).isCorrect).toBe(false);
+  });
+
+  test("matches identification answers case-insensitively with small typos", () => {
+    const question = buildQuestion({ correctAnswerText: "Photosynthesis | food making" });
+
+    expect(gradeAnswer(question, { answerText: "photosynthesis" }).isCorrect).toBe(true);
+    expect(gradeAnswer(question, { answerText: "Photosynthesys" }).isCorrect).toBe(true);
+    expect(gradeAnswer(question, { answerText: "Food-making!" }).isCorrect).toBe(true);
+    expect(gradeAnswer(question, { answerText: "respiration" }).isCorrect).toBe(false);
+  });
+
+  test("does not allow typos on short answers", () => {
+    const question = buildQuestion({ correctAnswerText: "cat" });
+
+    expect(gradeAnswer(question, { answerText: "cot" }).isCorrect).toBe(false);
+    expect(gradeAnswer(question, { answerText: " CAT " }).isCorrect).toBe(true);
+  });
+
+  test("grades Math answers numerically with tolerance", () => {
+    const question = buildQuestion({ subjectName: "Math", correctAnswerText: "0.75" });
+
+    expect(gradeAnswer(question, { answerText: "3/4" }).isCorrect).toBe(true);
+    expect(gradeAnswer(question, { answerText: ".755" }).isCorrect).toBe(true);
+    expect(gradeAnswer(question, { answerText: "0.8" }).isCorrect).toBe(false);
+  });
+
+  test("treats a subject named Mathematics as Math", () => {
+    const question = buildQuestion({ subjectName: " Mathematics ", correctAnswerText: "0.75" });
+
+    expect(gradeAnswer(question, { answerText: "3/4" }).isCorrect).toBe(true);
+  });
+
+  test("parses fractions, mixed numbers and thousands separators", () => {
+    expect(parseNumericAnswer("1 1/2")).toBe(1.5);
+    expect(parseNumericAnswer("1,250.5")).toBe(1250.5);
+    expect(parseNumericAnswer("-4")).toBe(-4);
+    expect(parseNumericAnswer("twelve")).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { NextRequest } from "next/server";
+import { assertAssessmentIsJoinable, parseJoinRequest } from "../lib/assessments/attempt-access";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("assessment join validation", () => {
+  test("requires a six-character code and an LRN", () => {
+    expect(parseJoinRequest({ quizCode: " ab12cd ", lrn: " 123456789012 ", token: " qr " })).toEqual({
+      quizCode: "AB12CD",
+      lrn: "123456789012",
+      qrToken: "qr",
+    });
+    expect(parseJoinRequest({ quizCode: "AB12CD" })).toBe("Quiz code and LRN are required.");
+    expect(parseJoinRequest(null)).toBe("Quiz code and LRN are required.");
+    expect(parseJoinRequest({ quizCode: "AB-12", lrn: "1" })).toBe("Quiz code must be 6 letters or numbers.");
+  });
+
+  test("only published assessments inside their window can be joined", () => {
+    const now = Date.now();
+    const open = { start_time: new Date(now - DAY_MS), end_time: new Date(now + DAY_MS), is_published: 1 };
+
+    expect(() => assertAssessmentIsJoinable(open, now)).not.toThrow();
+    expect(() => assertAssessmentIsJoinable({ ...open, is_published: 0 }, now)).toThrow("not been published");
+    expect(() => assertAssessmentIsJoinable(open, now + 2 * DAY_MS)).toThrow("no longer active");
+    expect(() => assertAssessmentIsJoinable(open, now - 2 * DAY_MS)).toThrow("not active yet");
+  });
+});
+
+describe("POST /api/assessments/join", () => {
+  const now = Date.now();
+  const assessment = {
+    assessment_id: 4,
+    title: "Reading Check",
+    start_time: new Date(now - DAY_MS),
+    end_time: new Date(now + DAY_MS),
+    qr_token: "qr-secret",
+    is_published: 1,
+  };
+  const student = { student_id: "S1", lrn: "123456789012", first_name: "Ana", middle_name: null, last_name: "Cruz" };
+
+  const loadRoute = async (respond: (sql: string) => unknown[]) => {
+    jest.resetModules();
+    const connection = { query: jest.fn(async (sql: string) => [respond(sql), []]) };
+    jest.doMock("@/lib/db", () => ({
+      runWithConnection: (handler: (db: typeof connection) => Promise<unknown>) => handler(connection),
+    }));
+    const route = await import("../app/api/assessments/join/route");
+    const post = (body: unknown) =>
+      route.POST(
+        new NextRequest("http://localhost/api/assessments/join", { method: "POST", body: JSON.stringify(body) }),
+      );
+    return { post, connection };
+  };
+
+  const respondWith = (overrides: { assessments?: unknown[]; students?: unknown[]; inProgress?: unknown[] } = {}) =>
+    (sql: string): unknown[] => {
+      if (sql.includes("FROM assessments")) return overrides.assessments ?? [assessment];
+      if (sql.includes("FROM student")) return overrides.students ?? [student];
+      if (sql.includes("status = 'submitted'")) return [];
+      if (sql.includes("status = 'in_progress'")) return overrides.inProgress ?? [];
+      if (sql.includes("INSERT INTO assessment_attempts")) return { insertId: 31 } as unknown as unknown[];
+      throw new Error(`Unexpected query: ${sql}`);
+    };
+
+  test("starts an attempt and points the student at the quiz", async () => {
+    const { post } = await loadRoute(respondWith());
+    const response = await post({ quizCode: "ab12cd", lrn: "123456789012", qrToken: "qr-secret" });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      success: true,
+      attemptId: 31,
+      resumed: false,
+      student: { id: "S1", name: "Ana Cruz" },
+      redirectUrl: "/quiz/AB12CD",
+    });
+  });
+
+  test("resumes an in-progress attempt", async () => {
+    const { post } = await loadRoute(respondWith({ inProgress: [{ attempt_id: 9 }] }));
+    const response = await post({ quizCode: "AB12CD", lrn: "123456789012" });
+
+    await expect(response.json()).resolves.toMatchObject({ success: true, attemptId: 9, resumed: true });
+  });
+
+  test("refuses bad input, unknown codes and LRNs, and a wrong QR token", async () => {
+    const { post, connection } = await loadRoute(respondWith());
+    expect((await post({ quizCode: "ABC", lrn: "1" })).status).toBe(400);
+    expect(connection.query).not.toHaveBeenCalled();
+    expect((await post({ quizCode: "AB12CD", lrn: "1", qrToken: "other" })).status).toBe(403);
+
+    const missing = await loadRoute(respondWith({ assessments: [], students: [] }));
+    expect((await missing.post({ quizCode: "ZZ99ZZ", lrn: "1" })).status).toBe(404);
+
+    const noStudent = await loadRoute(respondWith({ students: [] }));
+    const response = await noStudent.post({ quizCode: "AB12CD", lrn: "000" });
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({ error: "No student was found with this LRN." });
+  });
+
+  test("answers unexpected failures with a 500 and a generic message", async () => {
+    const { post } = await loadRoute(() => {
+      throw new Error("ER_NO_SUCH_TABLE: assessments");
+    });
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const response = await post({ quizCode: "AB12CD", lrn: "123456789012" });
+    consoleError.mockRestore();
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toEqual({ success: false, error: "Failed to join quiz." });
+  });
+});
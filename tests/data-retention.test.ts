@@ -0,0 +1,93 @@
+import {
+  excludeHeldCascades,
+  findRetentionTarget,
+  isRetentionRunDue,
+  parseRetentionPolicy,
+  resolveRetentionCutoff,
+  schoolYearStart,
+} from "../lib/server/data-retention";
+import { RECOVERY_ENTITIES } from "../lib/server/recovery-center";
+
+describe("data retention policies", () => {
+  test("school years start in June", () => {
+    expect(schoolYearStart(new Date(2026, 5, 1))).toEqual(new Date(2026, 5, 1));
+    expect(schoolYearStart(new Date(2026, 4, 31))).toEqual(new Date(2025, 5, 1));
+  });
+
+  test("keeps rows through N full school years after the one they were voided in", () => {
+    const now = new Date(2026, 9, 19);
+    const cutoff = resolveRetentionCutoff({ retentionValue: 3, retentionUnit: "school_years" }, now);
+    expect(cutoff).toEqual(new Date(2023, 5, 1));
+    expect(new Date(2023, 4, 30) < cutoff).toBe(true);
+    expect(new Date(2023, 7, 1) < cutoff).toBe(false);
+  });
+
+  test("counts day-based retention back from now", () => {
+    const now = new Date("2026-10-19T00:00:00Z");
+    expect(resolveRetentionCutoff({ retentionValue: 30, retentionUnit: "days" }, now).toISOString()).toBe(
+      "2026-09-19T00:00:00.000Z",
+    );
+  });
+
+  test("validates entity, unit and bounds", () => {
+    expect(parseRetentionPolicy({ entity: "attendance_record", enabled: true, retentionValue: 3, retentionUnit: "school_years" })).toEqual({
+      entity: "attendance_record",
+      enabled: true,
+      retentionValue: 3,
+      retentionUnit: "school_years",
+    });
+    expect(typeof parseRetentionPolicy({ entity: "nope", retentionValue: 3, retentionUnit: "days" })).toBe("string");
+    expect(typeof parseRetentionPolicy({ entity: "student", retentionValue: 7, retentionUnit: "days" })).toBe("string");
+    expect(typeof parseRetentionPolicy({ entity: "student", retentionValue: 2, retentionUnit: "weeks" })).toBe("string");
+  });
+
+  test("covers archived accounts alongside recovery entities", () => {
+    expect(findRetentionTarget("archived_account")?.flagColumn).toBeNull();
+    expect(findRetentionTarget("attendance_record")?.flagColumn).toBe("is_voided");
+    expect(findRetentionTarget("graduated_student")).toBeNull();
+  });
+
+  test("runs at most once a day and only when auto-purge is on", () => {
+    const now = new Date("2026-10-19T12:00:00Z");
+    expect(isRetentionRunDue({ autoPurge: false }, null, now)).toBe(false);
+    expect(isRetentionRunDue({ autoPurge: true }, null, now)).toBe(true);
+    expect(isRetentionRunDue({ autoPurge: true }, new Date("2026-10-19T01:00:00Z"), now)).toBe(false);
+    expect(isRetentionRunDue({ autoPurge: true }, new Date("2026-10-18T11:00:00Z"), now)).toBe(true);
+  });
+
+  test("keeps every root whose cascade reaches a held record", () => {
+    const hold = (entity: string, recordId: string | null) => ({
+      holdId: 1,
+      entity,
+      recordId,
+      reason: "audit",
+      placedBy: null,
+      placedAt: null,
+    });
+    // Shape the groups the way collectRecoveryCascade does for a deleted student.
+    const student = RECOVERY_ENTITIES.find((entity) => entity.key === "student")!;
+    const dependency = (key: string) => student.dependents!.find((entry) => entry.key === key)!;
+    const group = (key: string, ids: number[], parentIds: number[]) => ({
+      key,
+      label: dependency(key).label,
+      table: dependency(key).table,
+      parentKey: "student",
+      available: true,
+      ids,
+      parentIds,
+    });
+    const groups = [group("attendance", [11, 12, 21], [1, 1, 2]), group("performance", [31], [3])];
+
+    const result = excludeHeldCascades("student", [1, 2, 3], groups, [hold("attendance_record", "12")]);
+    expect(result.rootIds).toEqual([2, 3]);
+    expect(result.heldRootIds).toEqual([1]);
+    expect(result.groups.map((group) => group.ids)).toEqual([[21], [31]]);
+
+    const entityWide = excludeHeldCascades("student", [1, 2, 3], groups, [hold("performance_record", null)]);
+    expect(entityWide.rootIds).toEqual([1, 2]);
+    expect(entityWide.groups[1].ids).toEqual([]);
+
+    const unrelated = excludeHeldCascades("student", [1, 2, 3], groups, [hold("attendance", "12"), hold("student", "4")]);
+    expect(unrelated.rootIds).toEqual([1, 2, 3]);
+  });
+});
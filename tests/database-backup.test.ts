@@ -0,0 +1,154 @@
+import AdmZip from "adm-zip";
+import { createHash } from "crypto";
+import {
+  BACKUP_ARCHIVE_FORMAT,
+  DEFAULT_BACKUP_SETTINGS,
+  DatabaseBackupError,
+  assertSafeCreateStatement,
+  buildBackupArchive,
+  computeRestoreDiffToken,
+  decodeBackupValue,
+  diffRowHashes,
+  encodeBackupValue,
+  isScheduledBackupDue,
+  normalizeBackupSettings,
+  normalizeCreateStatement,
+  readBackupArchive,
+  renderSqlDump,
+  selectExpiredBackups,
+  toCsvValue,
+} from "../lib/server/database-backup";
+
+const sampleDump = {
+  database: "rpt-saes_db",
+  tables: [
+    {
+      name: "student",
+      createSql: "CREATE TABLE `student` (`student_id` int NOT NULL, `name` varchar(50), PRIMARY KEY (`student_id`))",
+      columns: ["student_id", "name"],
+      rows: [
+        [1, "Ana"],
+        [2, "O'Brien"],
+      ],
+    },
+  ],
+};
+
+describe("backup settings and schedule", () => {
+  test("keeps valid settings and falls back for unknown values", () => {
+    expect(normalizeBackupSettings({ autoBackup: "0", schedule: "weekly", retentionDays: "14", exportFormat: "csv" })).toEqual({
+      autoBackup: false,
+      schedule: "weekly",
+      retentionDays: 14,
+      exportFormat: "csv",
+    });
+    expect(normalizeBackupSettings({ schedule: "hourly", retentionDays: 45 })).toEqual(DEFAULT_BACKUP_SETTINGS);
+  });
+
+  test("a scheduled run is due once the interval has passed", () => {
+    const now = new Date("2026-05-10T12:00:00Z");
+    const weekly = { ...DEFAULT_BACKUP_SETTINGS, schedule: "weekly" as const };
+    expect(isScheduledBackupDue(DEFAULT_BACKUP_SETTINGS, null, now)).toBe(true);
+    expect(isScheduledBackupDue(DEFAULT_BACKUP_SETTINGS, new Date("2026-05-09T13:00:00Z"), now)).toBe(false);
+    expect(isScheduledBackupDue(weekly, new Date("2026-05-03T12:00:00Z"), now)).toBe(true);
+    expect(isScheduledBackupDue({ ...DEFAULT_BACKUP_SETTINGS, autoBackup: false }, null, now)).toBe(false);
+  });
+
+  test("retention expires old backups but always keeps the newest", () => {
+    const now = new Date("2026-05-10T00:00:00Z");
+    const backups = [
+      { backupId: 3, createdAt: "2026-04-01T00:00:00.000Z" },
+      { backupId: 2, createdAt: "2026-03-01T00:00:00.000Z" },
+      { backupId: 1, createdAt: "2026-05-05T00:00:00.000Z" },
+    ];
+    expect(selectExpiredBackups(backups, 7, now).map((backup) => backup.backupId)).toEqual([3, 2]);
+    expect(selectExpiredBackups(backups.slice(0, 2), 7, now).map((backup) => backup.backupId)).toEqual([2]);
+  });
+});
+
+describe("backup archives", () => {
+  test("values survive the encode and decode round trip", () => {
+    const date = new Date("2026-01-02T03:04:05.000Z");
+    expect(decodeBackupValue(encodeBackupValue(date))).toEqual(date);
+    expect(decodeBackupValue(encodeBackupValue(Buffer.from("abc")))).toEqual(Buffer.from("abc"));
+    expect(decodeBackupValue(encodeBackupValue({ level: 2 }))).toBe('{"level":2}');
+    expect(decodeBackupValue(encodeBackupValue(null))).toBeNull();
+  });
+
+  test("an archive reads back with its manifest", () => {
+    const archive = buildBackupArchive(sampleDump, new Date("2026-05-10T00:00:00Z"));
+    const { manifest, tables } = readBackupArchive(archive);
+    expect(manifest.format).toBe(BACKUP_ARCHIVE_FORMAT);
+    expect(manifest.tables[0]).toMatchObject({ name: "student", rowCount: 2 });
+    expect(tables[0].rows).toEqual(sampleDump.tables[0].rows);
+  });
+
+  test("tampered table data is rejected", () => {
+    const zip = new AdmZip(buildBackupArchive(sampleDump));
+    zip.updateFile("data/student.json", Buffer.from("[[1,\"Eve\"]]"));
+    expect(() => readBackupArchive(zip.toBuffer())).toThrow(DatabaseBackupError);
+    expect(() => readBackupArchive(Buffer.from("not a zip"))).toThrow(DatabaseBackupError);
+
+    const garbled = "[[1,";
+    const manifest = JSON.parse(zip.getEntry("manifest.json")!.getData().toString("utf8"));
+    manifest.tables[0].dataChecksum = createHash("sha256").update(garbled).digest("hex");
+    zip.updateFile("data/student.json", Buffer.from(garbled));
+    zip.updateFile("manifest.json", Buffer.from(JSON.stringify(manifest)));
+    expect(() => readBackupArchive(zip.toBuffer())).toThrow(expect.objectContaining({ status: 422 }));
+  });
+
+  test("archives whose schema is not one CREATE TABLE for the named table are refused", () => {
+    const withSchema = (name: string, createSql: string) => {
+      const zip = new AdmZip(buildBackupArchive({ ...sampleDump, tables: [{ ...sampleDump.tables[0], name, createSql }] }));
+      return () => readBackupArchive(zip.toBuffer());
+    };
+    const create = sampleDump.tables[0].createSql;
+
+    expect(withSchema("student", `${create} COMMENT='a; b'`)).not.toThrow();
+    expect(withSchema("student", "DROP TABLE `user`")).toThrow(expect.objectContaining({ status: 422 }));
+    expect(withSchema("student", `${create}; DROP TABLE \`user\``)).toThrow(DatabaseBackupError);
+    expect(withSchema("student", create.replace("`student`", "`user`"))).toThrow(DatabaseBackupError);
+    expect(withSchema("student", `${create} /*!50000 , DROP TABLE user */`)).toThrow(DatabaseBackupError);
+    expect(withSchema("../student", create)).toThrow(expect.objectContaining({ status: 422 }));
+    expect(() => assertSafeCreateStatement("student", `${create};`)).not.toThrow();
+  });
+
+  test("SQL and CSV output escape values", () => {
+    const sql = renderSqlDump(sampleDump.tables, { database: "rpt-saes_db", createdAt: "2026-05-10T00:00:00.000Z" });
+    expect(sql).toContain("INSERT INTO `student` (`student_id`, `name`) VALUES");
+    expect(sql).toContain("(2, 'O\\'Brien')");
+    expect(toCsvValue('say "hi", then go')).toBe('"say ""hi"", then go"');
+    expect(toCsvValue(null)).toBe("");
+  });
+});
+
+describe("restore dry run", () => {
+  test("row diff counts inserts and deletes as multisets", () => {
+    expect(diffRowHashes(["a", "b", "b", "c"], ["b", "c", "d"])).toEqual({
+      rowsToInsert: 2,
+      rowsToDelete: 1,
+      unchangedRows: 2,
+    });
+  });
+
+  test("create statements compare without the auto-increment counter", () => {
+    expect(normalizeCreateStatement("CREATE TABLE `a` (id int) ENGINE=InnoDB AUTO_INCREMENT=42 DEFAULT CHARSET=utf8mb4")).toBe(
+      "CREATE TABLE `a` (id int) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4",
+    );
+  });
+
+  test("the diff token changes when the diff changes", () => {
+    const diff = {
+      table: "student",
+      status: "changed" as const,
+      backupRows: 2,
+      currentRows: 3,
+      rowsToInsert: 0,
+      rowsToDelete: 1,
+      schemaChanged: false,
+    };
+    const token = computeRestoreDiffToken("abc", [diff]);
+    expect(computeRestoreDiffToken("abc", [diff])).toBe(token);
+    expect(computeRestoreDiffToken("abc", [{ ...diff, rowsToDelete: 2 }])).not.toBe(token);
+  });
+});
@@ -0,0 +1,36 @@
+import { buildDeviceKey, isSessionRole, parseSessionAction } from "@/lib/server/device-sessions";
+
+describe("device session actions", () => {
+  test("device keys are stable hex digests that never echo the token", () => {
+    const key = buildDeviceKey("device-token-123");
+    expect(key).toMatch(/^[a-f0-9]{32}$/);
+    expect(buildDeviceKey("device-token-123")).toBe(key);
+    expect(buildDeviceKey("device-token-124")).not.toBe(key);
+    expect(key).not.toContain("device-token");
+  });
+
+  test("accepts only known portal roles", () => {
+    expect(isSessionRole("master_teacher")).toBe(true);
+    expect(isSessionRole("super_admin")).toBe(false);
+    expect(isSessionRole(null)).toBe(false);
+  });
+
+  test("parses revoke and sign-out payloads", () => {
+    expect(parseSessionAction({ action: "revoke_session", role: "teacher", sessionId: "42" })).toEqual({
+      action: "revoke_session",
+      role: "teacher",
+      sessionId: 42,
+    });
+    const deviceKey = buildDeviceKey("abc");
+    expect(parseSessionAction({ action: "revoke_device", deviceKey })).toEqual({ action: "revoke_device", deviceKey });
+    expect(parseSessionAction({ action: "sign_out_everywhere" })).toEqual({ action: "sign_out_everywhere" });
+  });
+
+  test("rejects malformed payloads", () => {
+    expect(parseSessionAction(null)).toBeNull();
+    expect(parseSessionAction({ action: "revoke_session", role: "teacher", sessionId: 0 })).toBeNull();
+    expect(parseSessionAction({ action: "revoke_session", role: "guest", sessionId: 3 })).toBeNull();
+    expect(parseSessionAction({ action: "revoke_device", deviceKey: "raw-device-token" })).toBeNull();
+    expect(parseSessionAction({ action: "delete_account" })).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  measureEarlyWarningSignals,
+  scoreEarlyWarning,
+  summarizeEarlyWarning,
+} from "../lib/students/early-warning";
+
+const now = new Date("2026-03-20T08:00:00Z");
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+describe("early warning scoring", () => {
+  test("measures the absence streak from the newest mark back", () => {
+    const signals = measureEarlyWarningSignals(
+      {
+        attendance: [
+          { date: daysAgo(2), present: false },
+          { date: daysAgo(9), present: true },
+          { date: daysAgo(1), present: false },
+          { date: daysAgo(3), present: false },
+        ],
+        sessionAverages: [90, 84, 77, 70],
+        lastSessionAt: daysAgo(20),
+        assessmentPercents: [80, 40, 55, 90, 30, 50],
+      },
+      now,
+    );
+
+    expect(signals).toEqual({ absenceStreak: 3, slope: -6.7, failedAttempts: 4, daysSinceLastSession: 20 });
+  });
+
+  test("scores each tripped reason between half and all of its weight", () => {
+    const atThresholds = scoreEarlyWarning({ absenceStreak: 3, slope: -3, failedAttempts: 2, daysSinceLastSession: 14 });
+    expect(atThresholds.reasons).toEqual(["absence_streak", "declining_scores", "failed_assessments", "inactive"]);
+    expect(atThresholds.riskScore).toBe(50);
+
+    const severe = scoreEarlyWarning({ absenceStreak: 8, slope: -9, failedAttempts: 5, daysSinceLastSession: 40 });
+    expect(severe.riskScore).toBe(100);
+  });
+
+  test("leaves learners below every threshold off the list", () => {
+    const evaluation = scoreEarlyWarning({ absenceStreak: 2, slope: 1.5, failedAttempts: 1, daysSinceLastSession: null });
+    expect(evaluation.reasons).toEqual([]);
+    expect(evaluation.riskScore).toBe(0);
+  });
+
+  test("summarizes the reasons in plain language", () => {
+    const evaluation = scoreEarlyWarning({ absenceStreak: 4, slope: null, failedAttempts: 0, daysSinceLastSession: 21 });
+    expect(evaluation.reasons).toEqual(["absence_streak", "inactive"]);
+    expect(summarizeEarlyWarning(evaluation)).toBe("absent for the last 4 sessions; no remedial session in 21 days");
+  });
+});
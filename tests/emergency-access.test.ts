@@ -0,0 +1,42 @@
+import {
+  EMERGENCY_SCOPE_DEFAULT_MINUTES,
+  isEmergencyScopeLive,
+  isEmergencyTargetRole,
+  parseEmergencyScopes,
+} from "../lib/server/emergency-access";
+
+describe("emergency access scopes", () => {
+  test("accepts only roles with a scope catalogue", () => {
+    expect(isEmergencyTargetRole("Principal")).toBe(true);
+    expect(isEmergencyTargetRole("Master Teacher")).toBe(true);
+    expect(isEmergencyTargetRole("Parent")).toBe(false);
+    expect(isEmergencyTargetRole("toString")).toBe(false);
+  });
+
+  test("parses scopes for the covered role and applies the default duration", () => {
+    expect(
+      parseEmergencyScopes("Master Teacher", [
+        { module: "Materials", duration_minutes: 60 },
+        { module: "StudentAssignments" },
+      ]),
+    ).toEqual([
+      { module: "Materials", durationMinutes: 60 },
+      { module: "StudentAssignments", durationMinutes: EMERGENCY_SCOPE_DEFAULT_MINUTES },
+    ]);
+  });
+
+  test("rejects modules outside the role catalogue and out-of-range durations", () => {
+    expect(typeof parseEmergencyScopes("Principal", [{ module: "Materials" }])).toBe("string");
+    expect(typeof parseEmergencyScopes("Principal", [{ module: "Requests", duration_minutes: 5 }])).toBe("string");
+    expect(typeof parseEmergencyScopes("Principal", [{ module: "Requests", duration_minutes: 2000 }])).toBe("string");
+    expect(typeof parseEmergencyScopes("Principal", [])).toBe("string");
+  });
+
+  test("treats each scope as live only until its own deadline", () => {
+    const now = Date.parse("2026-03-01T08:00:00Z");
+    expect(isEmergencyScopeLive({ expires_at: "2026-03-01T09:00:00Z", expired_at: null }, now)).toBe(true);
+    expect(isEmergencyScopeLive({ expires_at: "2026-03-01T07:59:00Z", expired_at: null }, now)).toBe(false);
+    expect(isEmergencyScopeLive({ expires_at: "2026-03-01T09:00:00Z", expired_at: "2026-03-01T07:30:00Z" }, now)).toBe(false);
+    expect(isEmergencyScopeLive({ expires_at: null, expired_at: null }, now)).toBe(false);
+  });
+});
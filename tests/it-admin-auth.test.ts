@@ -1,4 +1,11 @@
-import { normalizeRequestedItAdminPermission } from "../lib/server/it-admin-permissions";
+import {
+  BUILT_IN_PERMISSION_ROLES,
+  IT_ADMIN_PERMISSIONS,
+  checkPermissionDelegation,
+  normalizeRequestedItAdminPermission,
+  resolveGrantedPermissions,
+  sanitizePermissionList,
+} from "../lib/server/it-admin-permissions";
 
 describe("IT admin auth permission normalization", () => {
   test("maps legacy super_admin permissions to canonical it_admin permissions", () => {
@@ -14,3 +21,57 @@ describe("IT admin auth permission normalization", () => {
     expect(normalizeRequestedItAdminPermission()).toBeUndefined();
   });
 });
+
+describe("IT admin permission roles", () => {
+  const roleNamed = (name: string) => BUILT_IN_PERMISSION_ROLES.find((role) => role.name === name)!;
+
+  test("accounts without an assigned role keep every permission", () => {
+    expect([...resolveGrantedPermissions([])]).toEqual([...IT_ADMIN_PERMISSIONS]);
+  });
+
+  test("grants only the union of the assigned roles", () => {
+    const granted = resolveGrantedPermissions([roleNamed("Accounts Clerk")]);
+    expect(granted.has("it_admin:accounts.manage")).toBe(true);
+    expect(granted.has("it_admin:data.delete")).toBe(false);
+
+    const combined = resolveGrantedPermissions([roleNamed("Accounts Clerk"), roleNamed("Data Steward")]);
+    expect(combined.has("it_admin:data.delete")).toBe(true);
+    expect(combined.has("it_admin:maintenance.execute")).toBe(false);
+  });
+
+  test("full access carries the whole catalogue", () => {
+    expect(roleNamed("Full Access").permissions).toEqual([...IT_ADMIN_PERMISSIONS]);
+  });
+
+  test("sanitizes editor payloads into catalogue order", () => {
+    expect(
+      sanitizePermissionList(["it_admin:logs.view", "bogus", "it_admin:accounts.manage", "it_admin:logs.view"]),
+    ).toEqual(["it_admin:accounts.manage", "it_admin:logs.view"]);
+    expect(sanitizePermissionList("it_admin:logs.view")).toEqual([]);
+  });
+
+  test("refuses roles that carry permissions the editor does not hold", () => {
+    const clerk = resolveGrantedPermissions([roleNamed("Accounts Clerk")]);
+    const everything = [...IT_ADMIN_PERMISSIONS];
+
+    expect(checkPermissionDelegation(clerk, everything)).toMatch(/^You cannot grant permissions you do not hold/);
+    expect(checkPermissionDelegation(clerk, roleNamed("Accounts Clerk").permissions)).toBeNull();
+    // Trimming a role that already holds more than the editor is refused as well
+    expect(checkPermissionDelegation(clerk, ["it_admin:accounts.manage"], everything)).toMatch(
+      /^You cannot change access that includes permissions you do not hold/,
+    );
+  });
+
+  test("refuses assignments beyond the assigning admin's own access", () => {
+    const clerk = resolveGrantedPermissions([roleNamed("Accounts Clerk")]);
+    const fullAccess = resolveGrantedPermissions([roleNamed("Full Access")]);
+    const requested = [...fullAccess];
+
+    expect(checkPermissionDelegation(clerk, requested, roleNamed("Accounts Clerk").permissions)).not.toBeNull();
+    expect(checkPermissionDelegation(fullAccess, requested, roleNamed("Accounts Clerk").permissions)).toBeNull();
+    // An account that has never been given a role keeps everything, so a clerk cannot restrict it either
+    expect(
+      checkPermissionDelegation(clerk, roleNamed("Accounts Clerk").permissions, [...resolveGrantedPermissions([])]),
+    ).not.toBeNull();
+  });
+});
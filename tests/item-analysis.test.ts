@@ -0,0 +1,69 @@
+import { computeItemAnalysis } from "../lib/assessments/item-analysis";
+
+const buildInput = () => {
+  const attempts = Array.from({ length: 10 }, (_, index) => ({ attemptId: index + 1, totalScore: 10 - index }));
+  const choices = [
+    { choiceId: 1, questionId: 100, choiceText: "Dog", isCorrect: true },
+    { choiceId: 2, questionId: 100, choiceText: "Cat", isCorrect: false },
+    { choiceId: 3, questionId: 100, choiceText: "Bird", isCorrect: false },
+    { choiceId: 4, questionId: 200, choiceText: "Yes", isCorrect: true },
+    { choiceId: 5, questionId: 200, choiceText: "No", isCorrect: false },
+  ];
+
+  // Question 100: the top six scorers pick the key, the rest pick "Cat"; nobody picks "Bird".
+  // Question 200: the bottom three pick the key while the top scorers pick "No".
+  const answers = attempts.flatMap(({ attemptId }) => [
+    { attemptId, questionId: 100, selectedChoiceId: attemptId <= 6 ? 1 : 2, isCorrect: attemptId <= 6 },
+    { attemptId, questionId: 200, selectedChoiceId: attemptId >= 8 ? 4 : 5, isCorrect: attemptId >= 8 },
+  ]);
+
+  return {
+    questions: [
+      { questionId: 100, questionText: "Which animal barks?", questionType: "multiple_choice", order: 1 },
+      { questionId: 200, questionText: "Is the sky green?", questionType: "multiple_choice", order: 2 },
+    ],
+    choices,
+    attempts,
+    answers,
+  };
+};
+
+describe("assessment item analysis", () => {
+  test("computes difficulty and upper/lower 27% discrimination", () => {
+    const report = computeItemAnalysis(buildInput());
+
+    expect(report.sampleSize).toBe(10);
+    expect(report.groupSize).toBe(3);
+
+    const [first, second] = report.items;
+    expect(first.pValue).toBe(0.6);
+    expect(first.upperCorrect).toBe(3);
+    expect(first.lowerCorrect).toBe(0);
+    expect(first.discriminationIndex).toBe(1);
+
+    expect(second.pValue).toBe(0.3);
+    expect(second.discriminationIndex).toBe(-1);
+    expect(second.recommendation).toBe("reject");
+  });
+
+  test("flags non-functional distractors and distractors that attract high scorers", () => {
+    const report = computeItemAnalysis(buildInput());
+    const [first, second] = report.items;
+
+    expect(first.choices.find((choice) => choice.choiceId === 3)).toMatchObject({ count: 0, nonFunctional: true });
+    expect(first.flags).toContain("nonfunctional_distractor");
+    expect(first.recommendation).toBe("revise");
+
+    expect(second.choices.find((choice) => choice.choiceId === 5)?.attractsUpperGroup).toBe(true);
+    expect(second.flags).toEqual(expect.arrayContaining(["negative_discrimination", "distractor_attracts_upper_group"]));
+  });
+
+  test("counts unanswered questions as incorrect", () => {
+    const input = buildInput();
+    input.answers = input.answers.filter((answer) => !(answer.questionId === 100 && answer.attemptId === 1));
+
+    const [first] = computeItemAnalysis(input).items;
+    expect(first.omittedCount).toBe(1);
+    expect(first.pValue).toBe(0.5);
+  });
+});
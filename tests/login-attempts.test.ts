@@ -0,0 +1,67 @@
+import {
+  LOGIN_THROTTLE_POLICY,
+  buildLoginAccountKey,
+  computeBackoffSeconds,
+  describeThrottleDecision,
+  evaluateLoginThrottle,
+  evaluateProbeThrottle,
+} from "../lib/server/login-attempts";
+
+describe("login attempt throttle", () => {
+  const now = new Date("2026-05-10T08:00:00.000Z");
+
+  test("keys accounts by user id when known and by identifier otherwise", () => {
+    expect(buildLoginAccountKey(42, "Teacher@School.edu")).toBe("user:42");
+    expect(buildLoginAccountKey(null, " Teacher@School.edu ")).toBe("identifier:teacher@school.edu");
+  });
+
+  test("backoff doubles after the first failures and is capped", () => {
+    expect(computeBackoffSeconds(0)).toBe(0);
+    expect(computeBackoffSeconds(1)).toBe(0);
+    expect(computeBackoffSeconds(2)).toBe(1);
+    expect(computeBackoffSeconds(4)).toBe(4);
+    expect(computeBackoffSeconds(20)).toBe(LOGIN_THROTTLE_POLICY.maxBackoffSeconds);
+  });
+
+  test("waits out the backoff measured from the last failure", () => {
+    const lastFailureAt = new Date(now.getTime() - 1000);
+    const decision = evaluateLoginThrottle({ lockedUntil: null, failures: 4, lastFailureAt }, now);
+    expect(decision).toEqual({ allowed: false, reason: "backoff", retryAfterSeconds: 3, lockedUntil: null });
+
+    const later = new Date(now.getTime() + 3000);
+    expect(evaluateLoginThrottle({ lockedUntil: null, failures: 4, lastFailureAt }, later)).toEqual({ allowed: true });
+  });
+
+  test("an active lockout wins over everything else", () => {
+    const lockedUntil = new Date(now.getTime() + 10 * 60 * 1000);
+    const decision = evaluateLoginThrottle({ lockedUntil, failures: 0, lastFailureAt: null }, now);
+    expect(decision).toMatchObject({ allowed: false, reason: "locked", retryAfterSeconds: 600 });
+    if (!decision.allowed) {
+      expect(describeThrottleDecision(decision)).toContain("locked for 10 more minutes");
+    }
+
+    const networkLock = evaluateLoginThrottle({ lockedUntil, lockScope: "ip", failures: 0, lastFailureAt: null }, now);
+    expect(networkLock).toMatchObject({ reason: "locked", scope: "ip" });
+    if (!networkLock.allowed) {
+      expect(describeThrottleDecision(networkLock)).toContain("from this network");
+      expect(describeThrottleDecision(networkLock)).not.toContain("This account is locked");
+    }
+
+    const expired = new Date(now.getTime() - 1000);
+    expect(evaluateLoginThrottle({ lockedUntil: expired, failures: 0, lastFailureAt: null }, now)).toEqual({
+      allowed: true,
+    });
+  });
+
+  test("live credential checks stop at their own limit instead of locking the account", () => {
+    const lastFailureAt = new Date(now.getTime() - 60 * 1000);
+    const belowLimit = { failures: LOGIN_THROTTLE_POLICY.probeAccountLimit - 1, lastFailureAt };
+    expect(evaluateProbeThrottle(belowLimit, now)).toEqual({ allowed: true });
+
+    const atLimit = evaluateProbeThrottle({ failures: LOGIN_THROTTLE_POLICY.probeAccountLimit, lastFailureAt }, now);
+    expect(atLimit).toEqual({ allowed: false, reason: "backoff", retryAfterSeconds: 14 * 60, lockedUntil: null });
+
+    const windowPassed = new Date(lastFailureAt.getTime() + LOGIN_THROTTLE_POLICY.windowMinutes * 60 * 1000);
+    expect(evaluateProbeThrottle({ failures: 50, lastFailureAt }, windowPassed)).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,22 @@
+import { extractDocxParagraphs, normalizePdfPageText } from "../lib/materials/extraction";
+
+describe("remedial material extraction", () => {
+  test("splits a Word body into paragraphs and decodes entities", () => {
+    const documentXml = [
+      "<w:document><w:body>",
+      '<w:p><w:r><w:t>The cat </w:t></w:r><w:r><w:t xml:space="preserve">sat on the mat.</w:t></w:r></w:p>',
+      "<w:p/>",
+      "<w:p><w:r><w:t>Tom &amp; Ana</w:t><w:tab/><w:t>ran.</w:t></w:r></w:p>",
+      "<w:p><w:pPr><w:jc w:val=\"center\"/></w:pPr></w:p>",
+      "</w:body></w:document>",
+    ].join("");
+
+    expect(extractDocxParagraphs(documentXml)).toEqual(["The cat sat on the mat.", "Tom & Ana ran."]);
+  });
+
+  test("joins PDF lines and re-attaches hyphenated words", () => {
+    expect(normalizePdfPageText("The big red\nbut-\nterfly flew\r\n\r\naway.")).toBe(
+      "The big red butterfly flew away.",
+    );
+  });
+});
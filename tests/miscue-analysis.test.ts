@@ -0,0 +1,49 @@
+import { analyzeMiscues, collectMissedWords, parseMiscueAnalysis } from "../lib/performance/miscues";
+
+describe("miscue analysis", () => {
+  test("a clean reading has no miscues", () => {
+    const analysis = analyzeMiscues("The cat sat on the mat.", "the cat sat on the mat");
+    expect(analysis.tokens.every((token) => token.type === "correct")).toBe(true);
+    expect(analysis.accuracyRate).toBe(100);
+    expect(analysis.tokens[0].expected).toBe("The");
+    expect(analysis.tokens[5].expected).toBe("mat.");
+  });
+
+  test("classifies omissions, substitutions and insertions, including short words", () => {
+    const analysis = analyzeMiscues("I see the red hen", "I sea red big hen");
+    expect(analysis.tokens.map((token) => token.type)).toEqual([
+      "correct",
+      "substitution",
+      "omission",
+      "correct",
+      "insertion",
+      "correct",
+    ]);
+    expect(analysis.counts).toMatchObject({ omission: 1, substitution: 1, insertion: 1 });
+    expect(analysis.accuracyRate).toBe(40);
+    expect(collectMissedWords(analysis)).toEqual(["see", "the"]);
+  });
+
+  test("re-said words are repetitions and do not count as errors", () => {
+    const analysis = analyzeMiscues("the dog ran home", "the dog the dog ran home");
+    expect(analysis.counts.repetition).toBe(2);
+    expect(analysis.counts.insertion).toBe(0);
+    expect(analysis.accuracyRate).toBe(100);
+  });
+
+  test("a false start followed by the right word is a self-correction", () => {
+    const analysis = analyzeMiscues("Ang bata ay masaya", "ang bata ay masa masaya");
+    const selfCorrection = analysis.tokens.find((token) => token.type === "self_correction");
+    expect(selfCorrection?.spoken).toBe("masa");
+    expect(analysis.counts.self_correction).toBe(1);
+    expect(analysis.accuracyRate).toBe(100);
+    expect(analysis.selfCorrectionRate).toBe(100);
+  });
+
+  test("round-trips through stored JSON and ignores unreadable values", () => {
+    const analysis = analyzeMiscues("a big red ball", "a bag red");
+    expect(parseMiscueAnalysis(JSON.stringify(analysis))).toEqual(analysis);
+    expect(parseMiscueAnalysis(null)).toBeNull();
+    expect(parseMiscueAnalysis("not json")).toBeNull();
+  });
+});
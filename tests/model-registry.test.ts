@@ -0,0 +1,59 @@
+import {
+  DEFAULT_HYPERPARAMETERS,
+  computeDatasetHash,
+  computeRegressionMetrics,
+  parseTrainingHyperparameters,
+  splitTrainingData,
+} from "../lib/ml/model-registry";
+import type { StudentTrainingData } from "../lib/ml/dataset";
+
+const rows = (count: number): StudentTrainingData[] =>
+  Array.from({ length: count }, (_, index) => ({
+    studentId: `S${index + 1}`,
+    features: [index, 2, 70 + index],
+    label: 75 + index,
+  }));
+
+describe("model registry", () => {
+  test("fills hyperparameter defaults and rejects values out of range", () => {
+    expect(parseTrainingHyperparameters(undefined)).toEqual(DEFAULT_HYPERPARAMETERS);
+    expect(parseTrainingHyperparameters({ epochs: "120", learningRate: 0.005 })).toEqual({
+      ...DEFAULT_HYPERPARAMETERS,
+      epochs: 120,
+      learningRate: 0.005,
+    });
+    expect(parseTrainingHyperparameters({ epochs: 2.5 })).toBe("epochs must be a whole number between 1 and 500.");
+    expect(parseTrainingHyperparameters({ validationSplit: 0.9 })).toBe(
+      "validationSplit must be a number between 0.05 and 0.5.",
+    );
+  });
+
+  test("hashes the dataset independently of row order", () => {
+    const data = rows(4);
+    const hash = computeDatasetHash(data);
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(computeDatasetHash([...data].reverse())).toBe(hash);
+    expect(computeDatasetHash([...data.slice(1), { ...data[0], label: 10 }])).not.toBe(hash);
+  });
+
+  test("holds out the same learners on every run and keeps one for training", () => {
+    const data = rows(10);
+    const first = splitTrainingData(data, 0.2);
+    const second = splitTrainingData([...data].reverse(), 0.2);
+
+    expect(first.validation).toHaveLength(2);
+    expect(first.training).toHaveLength(8);
+    expect(second.validation.map((row) => row.studentId)).toEqual(first.validation.map((row) => row.studentId));
+    expect(splitTrainingData(rows(2), 0.5)).toMatchObject({ training: [{}], validation: [{}] });
+    expect(splitTrainingData(rows(1), 0.5).validation).toEqual([]);
+  });
+
+  test("computes MAE and RMSE in score points", () => {
+    expect(computeRegressionMetrics([80, 70, 90], [70, 70, 100])).toEqual({
+      mae: 20 / 3,
+      rmse: Math.sqrt(200 / 3),
+    });
+    expect(computeRegressionMetrics([], [])).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  FEATURE_COUNT,
+  PERFORMANCE_FEATURES,
+  buildSubjectFeatureVector,
+  normalizeFeatureVector,
+  phonemicRankFraction,
+  rankFeatureDrivers,
+} from "../lib/ml/features";
+
+const featureIndex = (key: string) => PERFORMANCE_FEATURES.findIndex((feature) => feature.key === key);
+
+describe("performance features", () => {
+  test("builds a vector from session, attendance, assessment and level history", () => {
+    const vector = buildSubjectFeatureVector({
+      sessionScores: [40, 50, 60, 70, 80, 90],
+      attendance: { present: 9, total: 12 },
+      assessmentPercents: [80, 90],
+      phonemicRank: 0.5,
+      daysSinceLastSession: 900,
+    });
+
+    expect(vector).toHaveLength(FEATURE_COUNT);
+    expect(vector![featureIndex("sessionCount")]).toBe(6);
+    // Only the five newest sessions feed the trend features
+    expect(vector![featureIndex("sessionAverage")]).toBe(70);
+    expect(vector![featureIndex("latestScore")]).toBe(90);
+    expect(vector![featureIndex("scoreSlope")]).toBeCloseTo(10);
+    expect(vector![featureIndex("attendanceRate")]).toBe(0.75);
+    expect(vector![featureIndex("assessmentAverage")]).toBe(85);
+    expect(vector![featureIndex("phonemicRank")]).toBe(0.5);
+    expect(vector![featureIndex("daysSinceLastSession")]).toBe(365);
+  });
+
+  test("needs a session score and falls back when other history is missing", () => {
+    const empty = { attendance: { present: 0, total: 0 }, assessmentPercents: [], phonemicRank: null, daysSinceLastSession: null };
+    expect(buildSubjectFeatureVector({ ...empty, sessionScores: [] })).toBeNull();
+
+    const vector = buildSubjectFeatureVector({ ...empty, sessionScores: [64] });
+    expect(vector![featureIndex("attendanceRate")]).toBe(1);
+    expect(vector![featureIndex("assessmentAverage")]).toBe(64);
+    expect(vector![featureIndex("phonemicRank")]).toBe(0);
+    expect(vector![featureIndex("daysSinceLastSession")]).toBe(0);
+  });
+
+  test("ranks a phonemic level by the subject's canonical order", () => {
+    const levels = [
+      { phonemicId: 7, levelName: "Proficient" },
+      { phonemicId: 3, levelName: "Not Proficient" },
+      { phonemicId: 5, levelName: "Nearly Proficient" },
+    ];
+
+    expect(phonemicRankFraction("Math", levels, 3)).toBe(0);
+    expect(phonemicRankFraction("Math", levels, 5)).toBe(0.5);
+    expect(phonemicRankFraction("Math", levels, 7)).toBe(1);
+    expect(phonemicRankFraction("Math", levels, 99)).toBeNull();
+    expect(phonemicRankFraction("Math", levels, null)).toBeNull();
+  });
+
+  test("normalizes with training constants and ranks drivers by absolute impact", () => {
+    expect(normalizeFeatureVector([5, 3, 10], [0, 3, 0], [10, 3, 20])).toEqual([0.5, 0, 0.5]);
+
+    const features = PERFORMANCE_FEATURES.map((_, index) => index);
+    const impacts = PERFORMANCE_FEATURES.map(() => 0);
+    impacts[featureIndex("attendanceRate")] = -6.2;
+    impacts[featureIndex("latestScore")] = 3.1;
+    impacts[featureIndex("scoreStd")] = 0.01;
+    impacts[featureIndex("phonemicRank")] = 4.5;
+
+    const drivers = rankFeatureDrivers(features, impacts);
+    expect(drivers.map((driver) => driver.key)).toEqual(["attendanceRate", "phonemicRank", "latestScore"]);
+    expect(drivers[0]).toEqual({
+      key: "attendanceRate",
+      label: "Attendance rate",
+      value: featureIndex("attendanceRate"),
+      impact: -6.2,
+    });
+    expect(rankFeatureDrivers(features, impacts, 5)).toHaveLength(3);
+  });
+});
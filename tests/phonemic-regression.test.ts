@@ -0,0 +1,42 @@
+import { calculateSlope, describeRegression, detectRegression } from "../lib/students/phonemic-regression";
+
+describe("phonemic regression detection", () => {
+  test("slope needs at least three sessions", () => {
+    expect(calculateSlope([80, 70])).toBeNull();
+    expect(calculateSlope([90, 80, 70])).toBe(-10);
+    expect(calculateSlope([70, 70, 70, 70])).toBe(0);
+  });
+
+  test("flags consecutive sessions below the floor", () => {
+    const signal = detectRegression([72, 58, 55, 57]);
+    expect(signal.belowFloorStreak).toBe(3);
+    expect(signal.triggers).toContain("below_floor");
+    expect(signal.regressing).toBe(true);
+  });
+
+  test("flags a steady decline even above the floor", () => {
+    const signal = detectRegression([88, 82, 77, 71, 66]);
+    expect(signal.belowFloorStreak).toBe(0);
+    expect(signal.triggers).toEqual(["declining"]);
+    expect(describeRegression(signal)).toMatch(/dropping about 5\.5 points per session/);
+  });
+
+  test("describes the floor of the rule that fired", () => {
+    const rule = { floor: 50, consecutiveSessions: 2, slopeThreshold: -20, windowSize: 5 };
+    const signal = detectRegression([70, 45, 48], rule);
+    expect(signal.floor).toBe(50);
+    expect(describeRegression(signal)).toBe("2 straight sessions below 50%");
+  });
+
+  test("a recovering student is not flagged", () => {
+    const signal = detectRegression([52, 55, 58, 61, 66]);
+    expect(signal.belowFloorStreak).toBe(0);
+    expect(signal.regressing).toBe(false);
+  });
+
+  test("only the latest window is used for the slope", () => {
+    const signal = detectRegression([95, 90, 85, 75, 76, 77, 76, 78]);
+    expect(signal.slope).toBeGreaterThan(0);
+    expect(signal.regressing).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import type { PromotionReadiness } from "../lib/students/promote-phonemic";
+import { buildPromotionEvidence, computeAverageTrend, toPromotionSubjectName } from "../lib/students/promotion-queue";
+import { DEFAULT_PROMOTION_THRESHOLDS, normalizePromotionThresholds } from "../lib/students/promotion-thresholds";
+
+describe("promotion thresholds", () => {
+  test("keeps valid thresholds and rounds the session count", () => {
+    expect(normalizePromotionThresholds({ averageThreshold: "90.5", requiredSessions: 3.2 })).toEqual({
+      averageThreshold: 90.5,
+      requiredSessions: 3,
+    });
+  });
+
+  test("falls back to the defaults for out-of-range values", () => {
+    expect(normalizePromotionThresholds({ averageThreshold: 140, requiredSessions: 0 })).toEqual(
+      DEFAULT_PROMOTION_THRESHOLDS,
+    );
+    expect(normalizePromotionThresholds(null)).toEqual(DEFAULT_PROMOTION_THRESHOLDS);
+  });
+});
+
+describe("promotion queue evidence", () => {
+  test("trend compares the newest average with the oldest", () => {
+    expect(computeAverageTrend([92, 86])).toBe("up");
+    expect(computeAverageTrend([86, 92])).toBe("down");
+    expect(computeAverageTrend([88, 88.5, 87.6])).toBe("neutral");
+    expect(computeAverageTrend([90])).toBe("neutral");
+  });
+
+  test("evidence carries the qualifying sessions and thresholds", () => {
+    const readiness: PromotionReadiness = {
+      subject: "English",
+      status: "ready",
+      trend: "up",
+      canPromote: true,
+      threshold: 80,
+      requiredSessions: 2,
+      qualifyingStreak: 2,
+      recentAverages: [91, 84],
+      recentSessions: [
+        { sessionId: 12, average: 91, completedAt: "2026-03-04T08:00:00.000Z" },
+        { sessionId: 9, average: 84, completedAt: "2026-03-02T08:00:00.000Z" },
+      ],
+      currentPhonemicId: 3,
+      message: "Ready to promote.",
+    };
+
+    const evidence = buildPromotionEvidence(readiness);
+    expect(evidence.trend).toBe("up");
+    expect(evidence.threshold).toBe(80);
+    expect(evidence.sessions.map((session) => session.sessionId)).toEqual([12, 9]);
+  });
+
+  test("only the leveled subjects can be promoted", () => {
+    expect(toPromotionSubjectName(" filipino ")).toBe("Filipino");
+    expect(toPromotionSubjectName("Science")).toBeNull();
+  });
+});
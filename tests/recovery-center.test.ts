@@ -1,9 +1,15 @@
 import {
+  buildRestoreAssignments,
+  CASCADE_WINDOW_MS,
   findRecoveryEntity,
+  isWithinCascadeWindow,
+  listDependencyKeys,
   modeFlagColumn,
   modeReasonColumn,
   modeTimeColumn,
   pickLabelColumns,
+  selectCascadeKeys,
+  type RecoveryDependency,
 } from "../lib/server/recovery-center";
 
 describe("recovery center config", () => {
@@ -41,4 +47,46 @@ describe("recovery center config", () => {
     const fallback = pickLabelColumns(new Set(["email", "title"]), ["missing_one", "missing_two"]);
     expect(fallback).toEqual(["title", "email"]);
   });
+
+  test("declares the student cascade and its LRN conflict check", () => {
+    const student = findRecoveryEntity("student");
+    expect(listDependencyKeys(student?.dependents)).toEqual(["attendance", "performance", "remedial_session", "parent_link"]);
+    expect(student?.conflicts).toEqual([{ kind: "column", column: "lrn", label: "LRN" }]);
+  });
+
+  test("builds restore assignments only for columns the table has", () => {
+    expect(buildRestoreAssignments("voided", new Set(["is_voided", "voided_at", "updated_at"]))).toEqual([
+      "`is_voided` = 0",
+      "`voided_at` = NULL",
+      "`updated_at` = NOW()",
+    ]);
+    expect(buildRestoreAssignments("deleted", new Set(["deleted_at"]))).toEqual(["`deleted_at` = NULL"]);
+  });
+
+  test("keeps dependents voided on their own before the root out of the cascade", () => {
+    const rootAt = Date.parse("2026-02-10T09:00:00Z");
+    expect(isWithinCascadeWindow(rootAt, rootAt + 500)).toBe(true);
+    expect(isWithinCascadeWindow(rootAt, rootAt - CASCADE_WINDOW_MS)).toBe(true);
+    expect(isWithinCascadeWindow(rootAt, rootAt - CASCADE_WINDOW_MS - 1)).toBe(false);
+    expect(isWithinCascadeWindow(null, rootAt)).toBe(true);
+  });
+
+  test("drops nested groups whose parent group was left out", () => {
+    const graph: RecoveryDependency[] = [
+      {
+        key: "session",
+        label: "Sessions",
+        table: "session",
+        idColumn: "session_id",
+        foreignKey: "student_id",
+        mode: "deleted",
+        dependents: [
+          { key: "session_note", label: "Notes", table: "note", idColumn: "note_id", foreignKey: "session_id", mode: "deleted" },
+        ],
+      },
+      { key: "attendance", label: "Attendance", table: "attendance", idColumn: "attendance_id", foreignKey: "student_id", mode: "voided" },
+    ];
+    expect(Array.from(selectCascadeKeys(graph, null))).toEqual(["session", "session_note", "attendance"]);
+    expect(Array.from(selectCascadeKeys(graph, ["session_note", "attendance"]))).toEqual(["attendance"]);
+  });
 });
@@ -0,0 +1,153 @@
+import {
+  createIdempotencyKey,
+  findSupersededSessions,
+  isRejectedSessionStatus,
+  isRetryableSaveStatus,
+  replayQueuedRemedialSessions,
+  saveRemedialSession,
+  sortQueuedSessions,
+  type QueuedRemedialSession,
+} from "../lib/remedial/offline-session-queue";
+
+const entry = (key: string, studentId: string, scheduleId: number, queuedAt: string): QueuedRemedialSession => ({
+  idempotencyKey: key,
+  payload: { studentId, approvedScheduleId: scheduleId, slides: [] },
+  queuedAt,
+  attempts: 0,
+});
+
+/** Just enough of IndexedDB for the queue: one store, requests that finish on the next tick. */
+const installQueueStore = (entries: QueuedRemedialSession[]) => {
+  const store = new Map(entries.map((item) => [item.idempotencyKey, item]));
+  const request = <T>(result?: T) => ({ result });
+  const objectStore = {
+    getAll: () => request(Array.from(store.values())),
+    count: () => request(store.size),
+    put: (item: QueuedRemedialSession) => {
+      store.set(item.idempotencyKey, item);
+      return request();
+    },
+    delete: (key: string) => {
+      store.delete(key);
+      return request();
+    },
+  };
+  const database = {
+    objectStoreNames: { contains: () => true },
+    transaction: () => {
+      const transaction: { objectStore: () => typeof objectStore; oncomplete?: () => void } = {
+        objectStore: () => objectStore,
+      };
+      setTimeout(() => transaction.oncomplete?.());
+      return transaction;
+    },
+    close: () => undefined,
+  };
+  (global as unknown as { indexedDB: unknown }).indexedDB = {
+    open: () => {
+      const opening: { result: typeof database; onsuccess?: () => void } = { result: database };
+      setTimeout(() => opening.onsuccess?.());
+      return opening;
+    },
+  };
+  return store;
+};
+
+describe("remedial offline session queue", () => {
+  test("creates unique idempotency keys accepted by the session route", () => {
+    const first = createIdempotencyKey();
+    const second = createIdempotencyKey();
+    expect(first).not.toBe(second);
+    expect(first).toMatch(/^[A-Za-z0-9_-]{8,128}$/);
+  });
+
+  test("a newer save supersedes queued saves for the same student and schedule only", () => {
+    const queue = [
+      entry("a", "S-1", 10, "2026-01-01T08:00:00.000Z"),
+      entry("b", "S-1", 11, "2026-01-01T08:01:00.000Z"),
+      entry("c", "S-2", 10, "2026-01-01T08:02:00.000Z"),
+    ];
+    const incoming = entry("d", "S-1", 10, "2026-01-01T08:05:00.000Z");
+
+    expect(findSupersededSessions(queue, incoming).map((item) => item.idempotencyKey)).toEqual(["a"]);
+    expect(findSupersededSessions([...queue, incoming], incoming).map((item) => item.idempotencyKey)).toEqual(["a"]);
+  });
+
+  test("saves without a schedule never supersede each other", () => {
+    const unscheduled = (key: string, subject: string): QueuedRemedialSession => ({
+      idempotencyKey: key,
+      payload: { studentId: "S-1", approvedScheduleId: null, subject },
+      queuedAt: "2026-01-01T08:00:00.000Z",
+      attempts: 0,
+    });
+
+    expect(findSupersededSessions([unscheduled("a", "English")], unscheduled("b", "Math"))).toEqual([]);
+    expect(findSupersededSessions([unscheduled("a", "English")], unscheduled("b", "English"))).toEqual([]);
+  });
+
+  test("only network, timeout, throttling and server errors are retried", () => {
+    expect(isRetryableSaveStatus(0)).toBe(true);
+    expect(isRetryableSaveStatus(408)).toBe(true);
+    expect(isRetryableSaveStatus(429)).toBe(true);
+    expect(isRetryableSaveStatus(503)).toBe(true);
+    expect(isRetryableSaveStatus(400)).toBe(false);
+    expect(isRetryableSaveStatus(403)).toBe(false);
+    expect(isRetryableSaveStatus(409)).toBe(false);
+    expect(isRejectedSessionStatus(422)).toBe(true);
+    expect(isRejectedSessionStatus(401)).toBe(false);
+    expect(isRejectedSessionStatus(404)).toBe(false);
+  });
+
+  test("an expired login keeps queued sessions and asks for a sign-in", async () => {
+    const store = installQueueStore([
+      entry("first", "S-1", 10, "2026-01-01T08:00:00.000Z"),
+      entry("second", "S-2", 10, "2026-01-01T08:01:00.000Z"),
+    ]);
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 401,
+      statusText: "Unauthorized",
+      json: async () => ({ success: false, error: "Session expired." }),
+    });
+    const originalFetch = global.fetch;
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    try {
+      await expect(replayQueuedRemedialSessions()).resolves.toEqual({ pending: 2, signInRequired: true });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(store.get("first")).toMatchObject({ attempts: 1, lastError: "Session expired." });
+      expect(store.get("second")).toMatchObject({ attempts: 0 });
+    } finally {
+      global.fetch = originalFetch;
+      delete (global as unknown as { indexedDB?: unknown }).indexedDB;
+    }
+  });
+
+  test("replays queued sessions oldest first", () => {
+    const sorted = sortQueuedSessions([
+      entry("late", "S-1", 1, "2026-01-02T00:00:00.000Z"),
+      entry("early", "S-2", 1, "2026-01-01T00:00:00.000Z"),
+    ]);
+    expect(sorted.map((item) => item.idempotencyKey)).toEqual(["early", "late"]);
+  });
+
+  test("sends the idempotency key header with the first attempt", async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      json: async () => ({ success: true, completed: true }),
+    });
+    const originalFetch = global.fetch;
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    try {
+      const result = await saveRemedialSession({ studentId: "S-1", approvedScheduleId: 10 });
+      expect(result.status).toBe("saved");
+      const [, init] = fetchMock.mock.calls[0];
+      expect(init.headers["Idempotency-Key"]).toMatch(/^[A-Za-z0-9_-]{8,128}$/);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+});
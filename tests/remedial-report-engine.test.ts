@@ -0,0 +1,80 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import {
+  REPORT_TEMPLATES,
+  parseRemedialReportData,
+  renderRemedialReportPdf,
+  summarizeLevels,
+  type RenderRemedialReportInput,
+} from "../lib/remedial/report-engine";
+
+const input = (overrides: Partial<RenderRemedialReportInput> = {}): RenderRemedialReportInput => ({
+  report: { id: 7, subject: "english", gradeLevel: "3", teacherName: "Ana Cruz", createdAt: new Date("2026-02-03T01:00:00Z") },
+  data: parseRemedialReportData({
+    schoolYear: "2025-2026",
+    monthColumns: [
+      { key: "2025-09", label: "Sept", quarterLabel: "1st Quarter" },
+      { key: "2025-10", label: "Oct", quarterLabel: "1st Quarter" },
+    ],
+    rows: Array.from({ length: 40 }, (_, index) => ({
+      studentId: String(index + 1),
+      learner: `Learner ${index + 1}`,
+      section: "Sampaguita",
+      gradeLevel: "3",
+      monthValues: { "2025-09": "Syllable", "2025-10": "Word" },
+    })),
+  }),
+  live: new Map([["1", { currentLevel: "Phrase", sessions: 4, averageScore: 82.5 }]]),
+  branding: {
+    schoolName: "San Agustin Elementary School",
+    address: "Heavenly Drive St., San Agustin, Novaliches, Quezon City",
+    phone: "(02) 7001 7058",
+    email: "sanagustinelem@gmail.com",
+    primaryColor: "#013300",
+    logo: { data: new Uint8Array(readFileSync(path.join(__dirname, "../public/SAES/SAESLogo.png"))), format: "PNG" },
+  },
+  generatedAt: new Date("2026-03-01T00:00:00Z"),
+  ...overrides,
+});
+
+describe("remedial report engine", () => {
+  test("renders the same bytes for the same input", () => {
+    const first = renderRemedialReportPdf(input());
+    const second = renderRemedialReportPdf(input());
+
+    expect(first.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(first.equals(second)).toBe(true);
+    expect(renderRemedialReportPdf(input({ generatedAt: new Date("2026-03-02T00:00:00Z") })).equals(first)).toBe(false);
+  });
+
+  test("applies the subject template and pages long rosters", () => {
+    const pdf = renderRemedialReportPdf(input({ report: { ...input().report, subject: "filipino" } })).toString("latin1");
+
+    expect(pdf).toContain(REPORT_TEMPLATES.filipino.title("3"));
+    expect(pdf).toContain("Page 2 of 2");
+    expect(REPORT_TEMPLATES.math.title(null)).toBe("Progress Report for All Grades - Mathematics");
+  });
+
+  test("reads bare row arrays and rebuilds month columns from the values", () => {
+    const data = parseRemedialReportData(
+      JSON.stringify([{ studentId: 12, learner: " Ben ", monthValues: { "2025-10": "Word", "2025-09": "Syllable" } }, {}]),
+    );
+
+    expect(data.rows).toEqual([
+      { studentId: "12", learner: "Ben", section: "", gradeLevel: "", monthValues: { "2025-10": "Word", "2025-09": "Syllable" } },
+    ]);
+    expect(data.monthColumns.map((column) => column.key)).toEqual(["2025-09", "2025-10"]);
+    expect(parseRemedialReportData("not json")).toEqual({ rows: [], monthColumns: [], schoolYear: null });
+  });
+
+  test("counts learners by the subject's level ladder", () => {
+    expect(summarizeLevels("math", ["Proficient", "proficient", null])).toEqual([
+      { level: "Not Proficient", count: 0 },
+      { level: "Low Proficient", count: 0 },
+      { level: "Nearly Proficient", count: 0 },
+      { level: "Proficient", count: 2 },
+      { level: "Highly Proficient", count: 0 },
+      { level: "Not assessed", count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { analyzeMiscues } from "../lib/performance/miscues";
+import { dueDateForBox, isReviewDue, scheduleReview, scoreWordsFromMiscues } from "../lib/remedial/review-deck";
+import { applyReviewScores } from "../lib/server/review-deck";
+
+const NOW = new Date("2026-03-02T08:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("review deck scheduling", () => {
+  test("new words start in box 1 and come back the next day", () => {
+    const next = scheduleReview(null, 100, NOW);
+    expect(next.box).toBe(1);
+    expect(next.dueAt.getTime() - NOW.getTime()).toBe(DAY_MS);
+    expect(next.reviewCount).toBe(1);
+  });
+
+  test("passing promotes one box and missing resets to box 1", () => {
+    const promoted = scheduleReview({ box: 2, reviewCount: 3, lapseCount: 0 }, 90, NOW);
+    expect(promoted.box).toBe(3);
+    expect(promoted.dueAt.getTime() - NOW.getTime()).toBe(4 * DAY_MS);
+
+    const reset = scheduleReview({ box: 4, reviewCount: 5, lapseCount: 1 }, 30, NOW);
+    expect(reset.box).toBe(1);
+    expect(reset.lapseCount).toBe(2);
+
+    expect(scheduleReview({ box: 5, reviewCount: 9, lapseCount: 0 }, 100, NOW).box).toBe(5);
+  });
+
+  test("due checks compare against the scheduled time", () => {
+    expect(isReviewDue({ dueAt: dueDateForBox(1, NOW).toISOString() }, NOW)).toBe(false);
+    expect(isReviewDue({ dueAt: NOW.toISOString() }, NOW)).toBe(true);
+  });
+
+  test("session miscues give each passage word its lowest score", () => {
+    const scores = scoreWordsFromMiscues([
+      analyzeMiscues("The cat sat.", "the cat sat"),
+      analyzeMiscues("The cat ran.", "the cot"),
+    ]);
+    expect(Object.fromEntries(scores.map((item) => [item.word, item.score]))).toEqual({
+      the: 100,
+      cat: 40,
+      sat: 100,
+      ran: 0,
+    });
+  });
+});
+
+describe("applyReviewScores", () => {
+  const createExecutor = (existing: Array<Record<string, unknown>>) => {
+    const writes: unknown[][] = [];
+    const executor = {
+      query: jest.fn(async (sql: string, params?: unknown[]) => {
+        if (sql.trim().startsWith("SELECT")) return [existing, []];
+        writes.push(params ?? []);
+        return [{ affectedRows: 1 }, []];
+      }),
+    };
+    return { executor, writes };
+  };
+
+  test("reschedules deck words and adds new difficult words only", async () => {
+    const { executor, writes } = createExecutor([
+      { word: "cat", box: 2, due_at: NOW, last_score: 50, review_count: 2, lapse_count: 0 },
+    ]);
+
+    const updated = await applyReviewScores(
+      executor as never,
+      "S-1",
+      1,
+      [
+        { word: "Cat", score: 95 },
+        { word: "the", score: 100 },
+        { word: "ran", score: 0 },
+      ],
+      { newWords: ["ran"], now: NOW },
+    );
+
+    expect(updated).toBe(2);
+    const byWord = Object.fromEntries(writes.map((params) => [params[2], params]));
+    expect(byWord.cat[3]).toBe(3);
+    expect(byWord.ran[3]).toBe(1);
+    expect(byWord.the).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  ALL_GRADES,
+  computeRolloverToken,
+  nextSchoolYear,
+  parsePhonemicRules,
+  parseRolloverRequest,
+  parseSchoolYear,
+  planStudentRollover,
+  resolvePhonemicAction,
+  type PhonemicRolloverRule,
+  type RolloverPreflight,
+} from "../lib/server/school-year-rollover";
+
+describe("school year rollover", () => {
+  test("parses school years and advances them by one", () => {
+    expect(parseSchoolYear("2025 - 2026")).toEqual({ startYear: 2025, endYear: 2026 });
+    expect(parseSchoolYear("2025-2027")).toBeNull();
+    expect(parseSchoolYear("SY 2025")).toBeNull();
+    expect(nextSchoolYear("2025-2026")).toBe("2026-2027");
+    expect(parseRolloverRequest({ schoolYear: "2025" })).toBe("School year must look like 2025-2026.");
+  });
+
+  test("fills carry defaults and rejects malformed phonemic rules", () => {
+    const rules = parsePhonemicRules([
+      { subject: "Math", gradeId: 4, action: "reset" },
+      { subject: "English", action: "reset" },
+    ]);
+
+    expect(rules).toEqual([
+      { subject: "English", gradeId: ALL_GRADES, action: "reset" },
+      { subject: "Filipino", gradeId: ALL_GRADES, action: "carry" },
+      { subject: "Math", gradeId: ALL_GRADES, action: "carry" },
+      { subject: "Math", gradeId: 4, action: "reset" },
+    ]);
+    expect(parsePhonemicRules([{ subject: "Science", action: "carry" }])).toBe(
+      "Unknown subject in phonemic rules: Science.",
+    );
+    expect(parsePhonemicRules([{ subject: "English", gradeId: 7, action: "carry" }])).toMatch(/between 1 and 6/);
+    expect(parsePhonemicRules([{ subject: "English", action: "skip" }])).toMatch(/carry or reset/);
+  });
+
+  test("lets a grade-specific rule override the all-grades rule", () => {
+    const rules: PhonemicRolloverRule[] = [
+      { subject: "Math", gradeId: ALL_GRADES, action: "carry" },
+      { subject: "Math", gradeId: 4, action: "reset" },
+    ];
+
+    expect(resolvePhonemicAction(rules, "Math", 4)).toBe("reset");
+    expect(resolvePhonemicAction(rules, "Math", 5)).toBe("carry");
+    expect(resolvePhonemicAction([], "English", 3)).toBe("carry");
+  });
+
+  test("promotes, graduates and clears sections missing from the next grade", () => {
+    const plan = planStudentRollover(
+      [
+        { studentId: "S1", gradeId: 3, section: "Rizal" },
+        { studentId: "S2", gradeId: 3, section: "Mabini" },
+        { studentId: "S3", gradeId: 6, section: "Luna" },
+        { studentId: "S4", gradeId: null, section: null },
+      ],
+      { "4": ["rizal"] },
+    );
+
+    expect(plan.promotions).toEqual([
+      { studentId: "S1", nextGradeId: 4, keepSection: true },
+      { studentId: "S2", nextGradeId: 4, keepSection: false },
+    ]);
+    expect(plan.graduateIds).toEqual(["S3"]);
+    expect(plan.unassignedIds).toEqual(["S4"]);
+    expect(plan.moves).toEqual([
+      { fromGrade: 3, toGrade: 4, students: 2, sectionsCleared: 1 },
+      { fromGrade: 6, toGrade: null, students: 1, sectionsCleared: 0 },
+    ]);
+  });
+
+  test("changes the token when the planned rollover changes", () => {
+    const report: Omit<RolloverPreflight, "token" | "warnings" | "blockers"> = {
+      fromSchoolYear: "2025-2026",
+      toSchoolYear: "2026-2027",
+      rules: [{ subject: "English", gradeId: ALL_GRADES, action: "carry" }],
+      students: {
+        total: 2,
+        promoted: 1,
+        graduating: 1,
+        unassigned: 0,
+        sectionsCleared: 0,
+        moves: [{ fromGrade: 5, toGrade: 6, students: 1, sectionsCleared: 0 }],
+      },
+      phonemic: [{ subject: "English", carried: 1, reset: 0 }],
+      activeAssignments: 3,
+      archives: [{ table: "activities", label: "Calendar activities", available: true, rows: 4 }],
+    };
+
+    const token = computeRolloverToken(report);
+    expect(computeRolloverToken({ ...report })).toBe(token);
+    expect(computeRolloverToken({ ...report, activeAssignments: 4 })).not.toBe(token);
+    expect(
+      computeRolloverToken({ ...report, rules: [{ subject: "English", gradeId: ALL_GRADES, action: "reset" }] }),
+    ).not.toBe(token);
+  });
+});
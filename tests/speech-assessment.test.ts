@@ -0,0 +1,89 @@
+import {
+  DEFAULT_SPEECH_ASSESSMENT_SETTINGS,
+  normalizeSpeechAssessmentSettings,
+  resolveSpeechAssessmentProviderOrder,
+} from "../lib/speech-assessment/provider";
+import { alignWords, scoreTranscriptAgainstText, tokenizeWords } from "../lib/speech-assessment/text-alignment";
+import { measureReadingDurationMs } from "../lib/speech-assessment/web-speech-provider";
+
+describe("speech assessment text alignment", () => {
+  test("tokenizes passages without punctuation or diacritics", () => {
+    expect(tokenizeWords("Ang bata ay naglaro sa parké!")).toEqual(["ang", "bata", "ay", "naglaro", "sa", "parke"]);
+    expect(tokenizeWords("It's a well-known 'fact'.")).toEqual(["it's", "a", "well", "known", "fact"]);
+  });
+
+  test("aligns omissions, insertions and near misses", () => {
+    const operations = alignWords(["the", "cat", "sat", "down"], ["the", "big", "cat", "sit"]);
+    expect(operations.map((operation) => operation.type)).toEqual([
+      "match",
+      "insertion",
+      "match",
+      "substitution",
+      "omission",
+    ]);
+  });
+
+  test("a perfect reading scores full accuracy and completeness", () => {
+    const result = scoreTranscriptAgainstText({
+      expectedText: "The cat sat on the mat.",
+      transcript: "the cat sat on the mat",
+      durationMs: 3000,
+      confidence: 0.95,
+    });
+    expect(result.accuracyScore).toBe(100);
+    expect(result.completenessScore).toBe(100);
+    expect(result.fluencyScore).toBe(100);
+    expect(result.readingSpeedWpm).toBe(120);
+    expect(result.pronunciationScore).toBeGreaterThanOrEqual(95);
+  });
+
+  test("skipped and misread words lower accuracy and completeness", () => {
+    const result = scoreTranscriptAgainstText({
+      expectedText: "The cat sat on the mat",
+      transcript: "the cat on the map",
+      durationMs: 4000,
+      pauseMs: 1000,
+    });
+    expect(result.words.find((word) => word.word === "sat")?.errorType).toBe("Omitted");
+    expect(result.words.find((word) => word.word === "mat")?.errorType).toBe("Mispronounced");
+    expect(result.completenessScore).toBe(83);
+    expect(result.accuracyScore).toBeLessThan(90);
+    expect(result.fluencyScore).toBe(75);
+  });
+
+  test("an empty transcript scores zero", () => {
+    const result = scoreTranscriptAgainstText({ expectedText: "Hello there", transcript: "", durationMs: 0 });
+    expect(result.accuracyScore).toBe(0);
+    expect(result.completenessScore).toBe(0);
+    expect(result.fluencyScore).toBe(0);
+    expect(result.readingSpeedWpm).toBe(0);
+  });
+});
+
+describe("browser speech timing", () => {
+  test("falls back to the recording window when one result spans no time", () => {
+    const recording = { recordingStartedAt: 1000, recordingStoppedAt: 5000 };
+    expect(measureReadingDurationMs({ speechStartedAt: 1500, lastResultAt: 4200, ...recording })).toBe(2700);
+    expect(measureReadingDurationMs({ speechStartedAt: 3000, lastResultAt: 3000, ...recording })).toBe(4000);
+    expect(measureReadingDurationMs({ speechStartedAt: null, lastResultAt: null, ...recording })).toBe(4000);
+  });
+});
+
+describe("speech assessment provider selection", () => {
+  test("falls back to the browser scorer when Azure has no key", () => {
+    expect(resolveSpeechAssessmentProviderOrder(DEFAULT_SPEECH_ASSESSMENT_SETTINGS, true)).toEqual(["azure", "web_speech"]);
+    expect(resolveSpeechAssessmentProviderOrder(DEFAULT_SPEECH_ASSESSMENT_SETTINGS, false)).toEqual(["web_speech"]);
+  });
+
+  test("respects an admin who disabled the fallback or picked the browser scorer", () => {
+    expect(resolveSpeechAssessmentProviderOrder({ provider: "azure", fallbackToWebSpeech: false }, false)).toEqual(["azure"]);
+    expect(resolveSpeechAssessmentProviderOrder({ provider: "web_speech", fallbackToWebSpeech: false }, true)).toEqual([
+      "web_speech",
+    ]);
+  });
+
+  test("normalizes unknown stored settings to the defaults", () => {
+    expect(normalizeSpeechAssessmentSettings({ provider: "whisper" })).toEqual(DEFAULT_SPEECH_ASSESSMENT_SETTINGS);
+    expect(normalizeSpeechAssessmentSettings(null)).toEqual(DEFAULT_SPEECH_ASSESSMENT_SETTINGS);
+  });
+});
@@ -0,0 +1,137 @@
+import * as XLSX from "xlsx";
+import {
+  parseRosterSheet,
+  readRosterWorkbook,
+  splitSf1Name,
+  summarizeRosterReport,
+  validateRosterRows,
+} from "../lib/students/roster-import";
+
+const SECTIONS = { "3": ["Rizal", "Mabini"], "4": ["Bonifacio"] };
+
+const SF1_GRID: unknown[][] = [
+  ["School Form 1 (SF1) School Register"],
+  ["School ID", "104512", "", "School Year", "2025 - 2026"],
+  ["Grade Level", "", "3", "", "Section", "Rizal"],
+  [],
+  [
+    "LRN",
+    "NAME (Last Name, First Name, Name Extension, Middle Name)",
+    "Sex (M/F)",
+    "Mother Tongue",
+    "ADDRESS",
+    "",
+    "PARENTS",
+    "",
+    "GUARDIAN",
+    "",
+    "Contact Number of Parent or Guardian",
+  ],
+  ["", "", "", "", "House #/ Street", "Barangay", "Father's Name", "Mother's Maiden Name", "Name", "Relationship", ""],
+  ["104512150001", "DELA CRUZ, JUAN, JR., SANTOS", "M", "Tagalog", "12 Mabini St", "Poblacion", "DELA CRUZ, PEDRO", "SANTOS, MARIA", "", "", "09171234567"],
+  ["104512150002", "REYES, ANA LOURDES", "F", "Tagalog", "", "San Roque", "", "REYES, CORAZON", "GARCIA, LINA", "Aunt", ""],
+  ["", "<=== TOTAL MALE", "1"],
+];
+
+describe("student roster import", () => {
+  test("splits SF1 names with and without a name extension", () => {
+    expect(splitSf1Name("DELA CRUZ, JUAN, JR., SANTOS")).toEqual({
+      lastName: "DELA CRUZ",
+      firstName: "JUAN",
+      suffix: "JR.",
+      middleName: "SANTOS",
+    });
+    expect(splitSf1Name("REYES, ANA, III")).toMatchObject({ firstName: "ANA", suffix: "III", middleName: null });
+    expect(splitSf1Name("REYES, ANA, LOPEZ")).toMatchObject({ middleName: "LOPEZ", suffix: null });
+  });
+
+  test("reads the SF1 banner and merged parent and guardian headers", () => {
+    const sheet = parseRosterSheet(SF1_GRID);
+
+    expect(sheet).toMatchObject({ headerRow: 5, gradeLevel: "3", section: "Rizal" });
+    expect(sheet.rows).toHaveLength(2);
+    expect(sheet.rows[0]).toEqual({
+      rowNumber: 7,
+      values: {
+        lrn: "104512150001",
+        name: "DELA CRUZ, JUAN, JR., SANTOS",
+        address: "12 Mabini St, Poblacion",
+        fatherName: "DELA CRUZ, PEDRO",
+        motherName: "SANTOS, MARIA",
+        guardianContact: "09171234567",
+      },
+    });
+    expect(sheet.rows[1].values).toMatchObject({ guardianName: "GARCIA, LINA", relationship: "Aunt" });
+  });
+
+  test("builds insert payloads with guardian fallbacks for valid rows", () => {
+    const rows = validateRosterRows(parseRosterSheet(SF1_GRID), SECTIONS, {
+      gradeLevel: null,
+      section: null,
+      subjects: ["English", "Math"],
+    });
+
+    expect(rows.map((row) => row.status)).toEqual(["valid", "valid"]);
+    expect(rows[0].record).toMatchObject({
+      lrn: "104512-150001",
+      gradeLevel: "3",
+      section: "Rizal",
+      guardianFirstName: "MARIA",
+      guardianLastName: "SANTOS",
+      relationship: "Mother",
+    });
+    expect(rows[1].record).toMatchObject({ guardianName: "LINA GARCIA", relationship: "Aunt" });
+  });
+
+  test("reports LRN, section, subject and in-file duplicate problems per row", () => {
+    const rows = validateRosterRows(
+      {
+        headerRow: 1,
+        gradeLevel: null,
+        section: null,
+        rows: [
+          { rowNumber: 2, values: { lrn: "1234", name: "CRUZ, LEA" } },
+          { rowNumber: 3, values: { lrn: "104512150009", name: "CRUZ, LEO", section: "Luna" } },
+          { rowNumber: 4, values: { lrn: "104512-150009", name: "CRUZ, LIA", subjects: "Science" } },
+        ],
+      },
+      SECTIONS,
+      { gradeLevel: "Grade 4", section: "bonifacio", subjects: ["Filipino"] },
+    );
+
+    expect(rows[0].errors).toEqual(['LRN "1234" must be 12 digits.']);
+    expect(rows[1].errors).toEqual(['Section "Luna" is not configured for Grade 4.']);
+    expect(rows[2].errors).toEqual([
+      "Duplicate LRN in file; first listed on row 3.",
+      "Unknown subject(s) Science; expected English, Filipino, Math.",
+      "No subject selected for this learner.",
+    ]);
+    expect(rows[2].warnings).toHaveLength(1);
+    expect(summarizeRosterReport(rows)).toEqual({ total: 3, valid: 0, invalid: 3, duplicate: 0 });
+  });
+
+  test("reads LIS exports with split name columns from a workbook", () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["Notes"]]), "Cover");
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet([
+        ["LRN", "Last Name", "First Name", "Middle Name", "Grade Level", "Section", "Subjects"],
+        ["104512150003", "Lim", "Carlo", "Tan", "Grade 3", "Mabini", "English; Mathematics"],
+      ]),
+      "Learners",
+    );
+    const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+
+    const sheet = readRosterWorkbook(buffer);
+    const [row] = validateRosterRows(sheet, SECTIONS, { gradeLevel: null, section: null, subjects: [] });
+
+    expect(row).toMatchObject({
+      status: "valid",
+      fullName: "Carlo Tan Lim",
+      gradeLevel: "3",
+      section: "Mabini",
+      subjects: ["English", "Math"],
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  buildOtpAuthUri,
+  computeTotp,
+  decodeBase32,
+  encodeBase32,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  isTotpMandatoryRole,
+  totpStepAt,
+  verifyTotp,
+} from "../lib/server/totp";
+
+// RFC 6238 appendix B uses the ASCII key "12345678901234567890" for SHA-1.
+const RFC_SECRET = encodeBase32(Buffer.from("12345678901234567890"));
+
+describe("totp", () => {
+  test("base32 round trips and matches the RFC 4648 alphabet", () => {
+    expect(encodeBase32(Buffer.from("foobar"))).toBe("MZXW6YTBOI");
+    expect(decodeBase32("mzxw 6ytb-oi").toString()).toBe("foobar");
+    expect(() => decodeBase32("not*base32")).toThrow();
+  });
+
+  test("matches the RFC 6238 SHA-1 test vectors", () => {
+    expect(computeTotp(RFC_SECRET, totpStepAt(new Date(59 * 1000)), 8)).toBe("94287082");
+    expect(computeTotp(RFC_SECRET, totpStepAt(new Date(1111111109 * 1000)), 8)).toBe("07081804");
+    expect(computeTotp(RFC_SECRET, totpStepAt(new Date(1234567890 * 1000)), 8)).toBe("89005924");
+    expect(computeTotp(RFC_SECRET, totpStepAt(new Date(59 * 1000)))).toBe("287082");
+  });
+
+  test("accepts one step of clock drift and refuses replays", () => {
+    const now = new Date(1111111109 * 1000);
+    const step = totpStepAt(now);
+    const previousCode = computeTotp(RFC_SECRET, step - 1);
+    expect(verifyTotp(RFC_SECRET, previousCode, { now })).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, computeTotp(RFC_SECRET, step - 2), { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, previousCode, { now, lastUsedStep: step - 1 })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "12ab56", { now })).toBeNull();
+  });
+
+  test("builds an otpauth URI for authenticator apps", () => {
+    const uri = buildOtpAuthUri("ABC", "admin@school.edu");
+    expect(uri.startsWith("otpauth://totp/RPT-SAES%3Aadmin%40school.edu?")).toBe(true);
+    expect(uri).toContain("secret=ABC");
+    expect(uri).toContain("issuer=RPT-SAES");
+  });
+
+  test("recovery codes are unique and hash the same however they are typed", () => {
+    const codes = generateRecoveryCodes();
+    expect(new Set(codes).size).toBe(10);
+    expect(codes[0]).toMatch(/^[a-z2-9]{4}-[a-z2-9]{4}$/);
+    expect(hashRecoveryCode(" ABCD-efgh ")).toBe(hashRecoveryCode("abcdefgh"));
+  });
+
+  test("IT Admin and Principal are always mandatory", () => {
+    expect(isTotpMandatoryRole("it_admin")).toBe(true);
+    expect(isTotpMandatoryRole("principal")).toBe(true);
+    expect(isTotpMandatoryRole("teacher")).toBe(false);
+  });
+});
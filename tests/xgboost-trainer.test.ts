@@ -0,0 +1,102 @@
+import type { StudentTrainingData } from "../lib/ml/dataset";
+import {
+  buildHistorySnapshot,
+  buildSequenceFeatureVector,
+  isValidArtifact,
+  predictFromTrees,
+} from "../lib/ml/xgboost-sequence";
+import {
+  DEFAULT_BOOSTING_HYPERPARAMETERS,
+  buildSequenceTrainingRows,
+  crossValidateBoostedStumps,
+  fitBoostedStumps,
+  parseBoostingHyperparameters,
+  splitSequenceData,
+} from "../lib/ml/xgboost-trainer";
+
+// Label steps up with feature 0 and, less sharply, with feature 1; feature 2 is noise
+const rows = (students: number, perStudent: number): StudentTrainingData[] =>
+  Array.from({ length: students * perStudent }, (_, index) => {
+    const x0 = (index * 37) % 100 / 100;
+    const x1 = (index * 53) % 100 / 100;
+    return {
+      studentId: `S${index % students}`,
+      features: [x0, x1, (index * 71) % 100 / 100],
+      label: 50 + (x0 > 0.5 ? 30 : 0) + (x1 > 0.3 ? 10 : 0),
+    };
+  });
+
+describe("xgboost sequence trainer", () => {
+  test("fits stumps in the artifact format the inference path evaluates", () => {
+    const data = rows(12, 10);
+    const fit = fitBoostedStumps(data, { ...DEFAULT_BOOSTING_HYPERPARAMETERS, rounds: 150, learningRate: 0.3 });
+
+    expect(isValidArtifact(fit.artifact)).toBe(true);
+    expect(fit.artifact.clipMin).toBe(50);
+    expect(fit.artifact.clipMax).toBe(90);
+    expect(fit.artifact.trees[0].featureIndex).toBe(0);
+    const worst = Math.max(...data.map((row) => Math.abs(predictFromTrees(row.features, fit.artifact) - row.label)));
+    expect(worst).toBeLessThan(2);
+  });
+
+  test("early stopping cuts the ensemble back to its best validation round", () => {
+    const { training, validation } = splitSequenceData(rows(12, 10), 0.25);
+    const fit = fitBoostedStumps(
+      training,
+      { ...DEFAULT_BOOSTING_HYPERPARAMETERS, rounds: 500, learningRate: 0.5, earlyStoppingRounds: 5 },
+      validation,
+    );
+
+    expect(fit.rounds).toBeLessThan(500);
+    expect(fit.artifact.trees).toHaveLength(fit.rounds);
+    expect(fit.validation!.rmse).toBeLessThan(3);
+  });
+
+  test("splits and cross-validates by learner", () => {
+    const data = rows(10, 6);
+    const { training, validation } = splitSequenceData(data, 0.2);
+    const heldOut = new Set(validation.map((row) => row.studentId));
+    expect(heldOut.size).toBe(2);
+    expect(training.some((row) => heldOut.has(row.studentId))).toBe(false);
+
+    const result = crossValidateBoostedStumps(data, { ...DEFAULT_BOOSTING_HYPERPARAMETERS, folds: 4 });
+    expect(result!.folds).toHaveLength(4);
+    expect(result!.rounds).toBeGreaterThan(0);
+    expect(crossValidateBoostedStumps(rows(1, 20), DEFAULT_BOOSTING_HYPERPARAMETERS)).toBeNull();
+  });
+
+  test("pairs each slide with the next one and builds history from earlier sessions", () => {
+    const slide = (slideAverage: number) => ({ accuracyScore: slideAverage, readingSpeedWpm: 80, slideAverage });
+    const session = (sessionId: number, studentId: string, overallAverage: number | null) => ({
+      sessionId,
+      studentId,
+      subjectId: 1,
+      overallAverage,
+      levelName: "Word",
+    });
+    const built = buildSequenceTrainingRows(
+      [session(1, "A", 60), session(2, "A", 70), session(3, "B", null)],
+      new Map([
+        [1, [slide(55), slide(65)]],
+        [2, [slide(68), slide(72), slide(74)]],
+        [3, [slide(40)]],
+      ]),
+    );
+
+    expect(built.map((row) => row.label)).toEqual([65, 72, 74]);
+    // Session 1 has no earlier session, so its sessions and level features are zero
+    expect(built[0].features.slice(0, 2)).toEqual([0, 0]);
+    expect(built[1].features[0]).toBeCloseTo(1 / 20);
+    expect(built[1].features[1]).toBeCloseTo(0.5);
+    // Live feedback builds the same snapshot from the same earlier averages and level
+    expect(built[1].features).toEqual(
+      buildSequenceFeatureVector({ history: buildHistorySnapshot([60], "Word"), ...slide(68) }),
+    );
+    expect(buildHistorySnapshot([], "Word")).toBeNull();
+  });
+
+  test("validates boosting hyperparameters", () => {
+    expect(parseBoostingHyperparameters({ rounds: "50" })).toEqual({ ...DEFAULT_BOOSTING_HYPERPARAMETERS, rounds: 50 });
+    expect(parseBoostingHyperparameters({ folds: 1 })).toBe("folds must be a whole number between 2 and 10.");
+  });
+});